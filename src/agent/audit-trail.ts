@@ -0,0 +1,236 @@
+/**
+ * Agent Audit Trail
+ *
+ * Persists what autonomous behaviors and commands did, and why, in the audit
+ * log: every behavior trigger with the webhook or schedule it came from, each
+ * behavior's decision to run, the actions it took and its outcome, and the
+ * result of every command. The log is read through `/api/audit`.
+ */
+import type { AuditLogEntryDB } from '../db/models';
+import type { ExecutionResult } from './cli-executor';
+import { ParsedCommand } from './types/command-types';
+import {
+  AutonomousBehavior,
+  BehaviorAction,
+  BehaviorResult,
+  BehaviorTrigger,
+  BehaviorTriggerType
+} from './types/autonomous-types';
+import * as logger from '../utils/logger';
+
+/**
+ * Kinds of audit events
+ */
+export type AuditEventType =
+  | 'behavior_trigger'
+  | 'behavior_decision'
+  | 'behavior_action'
+  | 'behavior_outcome'
+  | 'command_execution'
+  | 'command_permission';
+
+/**
+ * Audit log entry to record
+ */
+export type AuditEvent = Omit<AuditLogEntryDB, 'id' | 'created_at' | 'details'> & {
+  event_type: AuditEventType;
+  details?: Record<string, any>;
+};
+
+/**
+ * Records an audit event
+ *
+ * Auditing never fails the work being audited, so a failed write is logged.
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    // Loaded on first use so importing the engine does not open a database pool
+    const { createAuditLogEntry } = await import('../db/models');
+    await createAuditLogEntry(event);
+  } catch (error) {
+    logger.error('Failed to record audit event', {
+      eventType: event.event_type,
+      outcome: event.outcome,
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Describes the webhook or schedule a trigger came from
+ *
+ * @returns A short source, such as "webhook Issue.update" or
+ * "schedule periodic_reporting (0 9 * * 1)", and the origin details to keep
+ */
+export function describeTriggerOrigin(trigger: BehaviorTrigger): { source: string; origin: Record<string, any> } {
+  const payload = trigger.payload || {};
+
+  if (trigger.type === BehaviorTriggerType.SCHEDULE) {
+    const schedule = payload.schedule || {};
+    const timing = (schedule.cronExpression && [schedule.cronExpression, schedule.timeZone].filter(Boolean).join(' ')) ||
+      (schedule.interval ? `every ${Math.round(schedule.interval / 1000)}s` : undefined);
+    return {
+      source: `schedule ${payload.behaviorId || 'unknown'}${timing ? ` (${timing})` : ''}`,
+      origin: compact({
+        behaviorId: payload.behaviorId,
+        cronExpression: schedule.cronExpression,
+        timeZone: schedule.timeZone,
+        interval: schedule.interval,
+        scheduledTime: payload.scheduledTime,
+        catchUp: payload.catchUp || undefined
+      })
+    };
+  }
+
+  if (payload.type && payload.action) {
+    return {
+      source: `webhook ${payload.type}.${payload.action}`,
+      origin: compact({
+        type: payload.type,
+        action: payload.action,
+        webhookId: payload.webhookId,
+        url: payload.url,
+        createdAt: payload.createdAt
+      })
+    };
+  }
+
+  return { source: trigger.type, origin: {} };
+}
+
+/**
+ * Records a trigger and the behaviors it was handed to
+ */
+export function recordBehaviorTrigger(
+  trigger: BehaviorTrigger,
+  outcome: 'received' | 'rate_limited',
+  behaviorIds: string[] = []
+): Promise<void> {
+  const { source, origin } = describeTriggerOrigin(trigger);
+
+  return recordAuditEvent({
+    ...triggerFields(trigger),
+    event_type: 'behavior_trigger',
+    outcome,
+    source,
+    reason: outcome === 'rate_limited' ? 'Behavior rate limit exceeded' : undefined,
+    details: { origin, behaviors: behaviorIds }
+  });
+}
+
+/**
+ * Records whether a behavior decided to act on a trigger
+ */
+export function recordBehaviorDecision(
+  trigger: BehaviorTrigger,
+  behavior: AutonomousBehavior,
+  triggered: boolean,
+  executionId?: string
+): Promise<void> {
+  return recordAuditEvent({
+    ...triggerFields(trigger),
+    event_type: 'behavior_decision',
+    outcome: triggered ? 'triggered' : 'skipped',
+    behavior_id: behavior.id,
+    execution_id: executionId,
+    reason: triggered ? undefined : 'Trigger conditions not met',
+    details: { behaviorName: behavior.name }
+  });
+}
+
+/**
+ * Records the actions a behavior took and its outcome
+ */
+export async function recordBehaviorResult(
+  trigger: BehaviorTrigger,
+  behavior: AutonomousBehavior,
+  result: BehaviorResult,
+  executionId?: string
+): Promise<void> {
+  const fields = {
+    ...triggerFields(trigger),
+    behavior_id: behavior.id,
+    execution_id: executionId
+  };
+
+  for (const action of result.actions) {
+    await recordAuditEvent({
+      ...fields,
+      issue_id: fields.issue_id || actionIssueId(action),
+      event_type: 'behavior_action',
+      outcome: action.result,
+      reason: action.description,
+      details: compact({ type: action.type, target: action.target, data: action.data })
+    });
+  }
+
+  await recordAuditEvent({
+    ...fields,
+    event_type: 'behavior_outcome',
+    outcome: result.success ? 'success' : 'failed',
+    reason: result.error,
+    details: {
+      actionCount: result.actions.length,
+      executionTime: result.executionTime,
+      notified: result.shouldNotify
+    }
+  });
+}
+
+/**
+ * Records the result of a command
+ */
+export function recordCommandExecution(
+  command: ParsedCommand,
+  result: ExecutionResult,
+  executionId: string
+): Promise<void> {
+  return recordAuditEvent({
+    event_type: 'command_execution',
+    outcome: result.success ? 'success' : 'failed',
+    actor_id: command.requester?.id,
+    actor_name: command.requester?.name,
+    issue_id: command.context.issueId,
+    team_id: command.context.teamId,
+    intent: command.intent,
+    execution_id: executionId,
+    source: `mention ${command.context.issueIdentifier}`,
+    reason: result.error,
+    details: compact({
+      rawText: command.rawText,
+      parameters: result.parameters,
+      executionTime: result.executionTime,
+      warnings: result.metadata?.warnings
+    })
+  });
+}
+
+/**
+ * Fields shared by every event of a trigger
+ */
+function triggerFields(trigger: BehaviorTrigger): Pick<
+  AuditEvent,
+  'trigger_id' | 'trigger_type' | 'issue_id' | 'team_id' | 'actor_id' | 'actor_name'
+> {
+  const { issue, team, user } = trigger.context || {};
+
+  return {
+    trigger_id: trigger.id,
+    trigger_type: trigger.type,
+    issue_id: issue?.id,
+    team_id: team?.id || issue?.teamId,
+    actor_id: user?.id,
+    actor_name: user?.name
+  };
+}
+
+/**
+ * Issue an action targeted, for triggers without an issue such as schedules
+ */
+function actionIssueId(action: BehaviorAction): string | undefined {
+  return action.data?.issueId || action.target || undefined;
+}
+
+function compact(values: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
@@ -7,16 +7,23 @@
 
 import {
   AutonomousBehavior,
-  BehaviorTrigger,
   BehaviorContext,
+  BehaviorTrigger,
   BehaviorResult,
   BehaviorHealthStatus,
   BehaviorConfiguration,
   BehaviorMetrics,
-  BehaviorTriggerType
+  BehaviorTriggerType,
+  BehaviorSchedule,
+  BehaviorResolver,
+  ResolvedBehavior,
+  SimulatedBehaviorRun,
+  LIFECYCLE_TRIGGER_TYPES
 } from './types/autonomous-types';
 import { BehaviorScheduler } from './monitoring/behavior-scheduler';
 import { HealthMonitor } from './monitoring/health-monitor';
+import { createExecutionId, runWithJournal } from '../linear/action-journal';
+import { recordBehaviorDecision, recordBehaviorResult, recordBehaviorTrigger } from './audit-trail';
 import * as logger from '../utils/logger';
 
 /**
@@ -54,6 +61,7 @@ export class AutonomousBehaviorEngine {
   private config: BehaviorConfiguration;
   private executionCounts: Map<string, number> = new Map();
   private lastExecutionTimes: Map<string, Date> = new Map();
+  private behaviorResolver: BehaviorResolver = async (behavior, context) => [{ behavior, context }];
   
   constructor(config: Partial<BehaviorConfiguration> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -141,6 +149,7 @@ export class AutonomousBehaviorEngine {
       // Check rate limits
       if (!this.checkRateLimits()) {
         logger.warn('Rate limit exceeded, skipping trigger', { triggerId: trigger.id });
+        await recordBehaviorTrigger(trigger, 'rate_limited');
         return [];
       }
 
@@ -149,13 +158,14 @@ export class AutonomousBehaviorEngine {
       
       logger.debug('Found applicable behaviors', {
         count: applicableBehaviors.length,
-        behaviors: applicableBehaviors.map(b => b.id)
+        behaviors: applicableBehaviors.map(b => b.behavior.id)
       });
+      await recordBehaviorTrigger(trigger, 'received', applicableBehaviors.map(b => b.behavior.id));
 
       // Execute behaviors in priority order
-      for (const behavior of applicableBehaviors) {
+      for (const { behavior, context } of applicableBehaviors) {
         try {
-          const result = await this.executeBehavior(behavior, trigger.context);
+          const result = await this.executeBehavior(behavior, withContext(trigger, context));
           results.push(result);
         } catch (error) {
           logger.error('Behavior execution failed', {
@@ -163,13 +173,15 @@ export class AutonomousBehaviorEngine {
             error: error instanceof Error ? error.message : 'Unknown error'
           });
           
-          results.push({
+          const failed: BehaviorResult = {
             success: false,
             actions: [],
             error: error instanceof Error ? error.message : 'Unknown error',
             executionTime: Date.now() - startTime,
             shouldNotify: false
-          });
+          };
+          await recordBehaviorResult(withContext(trigger, context), behavior, failed);
+          results.push(failed);
         }
       }
 
@@ -193,13 +205,49 @@ export class AutonomousBehaviorEngine {
   }
 
   /**
-   * Execute a specific behavior
+   * Run the behaviors a trigger applies to in simulation mode
+   *
+   * Unlike processTrigger, nothing is rate limited, audited, journaled or
+   * counted in the metrics, and the context is marked as simulated. Behaviors
+   * still call their Linear client, so register them with a
+   * RecordingLinearClient to keep Linear untouched.
+   */
+  async simulateTrigger(trigger: BehaviorTrigger): Promise<SimulatedBehaviorRun[]> {
+    const runs: SimulatedBehaviorRun[] = [];
+
+    for (const resolved of await this.findApplicableBehaviors(trigger)) {
+      const behavior = resolved.behavior;
+      const context = { ...resolved.context, simulated: true };
+
+      try {
+        if (!await behavior.shouldTrigger(context)) {
+          runs.push({ behaviorId: behavior.id, triggered: false });
+          continue;
+        }
+
+        const result = await behavior.execute(context);
+        runs.push({ behaviorId: behavior.id, triggered: true, result });
+      } catch (error) {
+        runs.push({
+          behaviorId: behavior.id,
+          triggered: true,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Execute a specific behavior, recording its decision, actions and outcome
    */
   private async executeBehavior(
     behavior: AutonomousBehavior,
-    context: BehaviorContext
+    trigger: BehaviorTrigger
   ): Promise<BehaviorResult> {
     const startTime = Date.now();
+    const context = trigger.context;
     
     logger.info('Executing behavior', {
       behaviorId: behavior.id,
@@ -210,6 +258,7 @@ export class AutonomousBehaviorEngine {
       // Check if behavior should trigger
       if (!await behavior.shouldTrigger(context)) {
         logger.debug('Behavior should not trigger', { behaviorId: behavior.id });
+        await recordBehaviorDecision(trigger, behavior, false);
         return {
           success: true,
           actions: [],
@@ -218,8 +267,13 @@ export class AutonomousBehaviorEngine {
         };
       }
 
-      // Execute the behavior
-      const result = await behavior.execute(context);
+      // Execute the behavior, journaling the changes it makes in Linear
+      const executionId = createExecutionId();
+      await recordBehaviorDecision(trigger, behavior, true, executionId);
+      const result = await runWithJournal(
+        { executionId, originIssueId: context.issue?.id, actorId: context.user?.id },
+        () => behavior.execute(context)
+      );
       
       // Update metrics
       this.updateMetrics(behavior.id, true, Date.now() - startTime);
@@ -228,6 +282,7 @@ export class AutonomousBehaviorEngine {
       if (result.actions.length > 0) {
         logger.info('Behavior actions completed', {
           behaviorId: behavior.id,
+          executionId,
           actionCount: result.actions.length,
           actions: result.actions.map(a => ({
             type: a.type,
@@ -236,6 +291,7 @@ export class AutonomousBehaviorEngine {
           }))
         });
       }
+      await recordBehaviorResult(trigger, behavior, result, executionId);
 
       return result;
 
@@ -246,17 +302,12 @@ export class AutonomousBehaviorEngine {
   }
 
   /**
-   * Find behaviors applicable to a trigger
+   * Find behaviors applicable to a trigger, resolved to the instances that handle it
    */
-  private async findApplicableBehaviors(trigger: BehaviorTrigger): Promise<AutonomousBehavior[]> {
-    const applicable: AutonomousBehavior[] = [];
+  private async findApplicableBehaviors(trigger: BehaviorTrigger): Promise<ResolvedBehavior[]> {
+    const applicable: ResolvedBehavior[] = [];
 
     for (const [id, behavior] of this.behaviors) {
-      // Check if behavior is enabled
-      if (!behavior.enabled) {
-        continue;
-      }
-
       // Check if behavior is specifically disabled in config
       const behaviorTypeId = id.replace('_', '-'); // Convert underscore to dash for config lookup
       if (this.config.enabledBehaviors[behaviorTypeId] === false) {
@@ -264,13 +315,20 @@ export class AutonomousBehaviorEngine {
       }
 
       // Check if behavior applies to this trigger type
-      if (this.behaviorAppliesToTrigger(behavior, trigger)) {
-        applicable.push(behavior);
+      if (!this.behaviorAppliesToTrigger(behavior, trigger)) {
+        continue;
+      }
+
+      // Check if the instances handling the trigger are enabled
+      for (const resolved of await this.behaviorResolver(behavior, trigger.context)) {
+        if (resolved.behavior.enabled) {
+          applicable.push(resolved);
+        }
       }
     }
 
     // Sort by priority (higher priority first)
-    return applicable.sort((a, b) => b.priority - a.priority);
+    return applicable.sort((a, b) => b.behavior.priority - a.behavior.priority);
   }
 
   /**
@@ -282,8 +340,11 @@ export class AutonomousBehaviorEngine {
       return true;
     }
 
-    // Schedule triggers only apply to periodic behaviors
+    // Schedule triggers apply to the scheduled behavior, or else to periodic behaviors
     if (trigger.type === BehaviorTriggerType.SCHEDULE) {
+      if (trigger.payload?.behaviorId) {
+        return behavior.id === trigger.payload.behaviorId;
+      }
       return behavior.id.includes('periodic') || behavior.id.includes('monitoring');
     }
 
@@ -292,6 +353,11 @@ export class AutonomousBehaviorEngine {
       return behavior.id.includes('monitoring') || behavior.id.includes('detection');
     }
 
+    // Cycle and project lifecycle triggers apply to monitoring and reporting behaviors
+    if (LIFECYCLE_TRIGGER_TYPES.includes(trigger.type)) {
+      return behavior.id.includes('monitoring') || behavior.id.includes('reporting');
+    }
+
     return true;
   }
 
@@ -374,6 +440,22 @@ export class AutonomousBehaviorEngine {
     return statuses;
   }
 
+  /**
+   * Schedule a behavior to run on a cron expression or interval
+   *
+   * @throws If the cron expression, time zone or catch-up policy is invalid
+   */
+  addSchedule(schedule: BehaviorSchedule): void {
+    this.scheduler.addSchedule(schedule);
+  }
+
+  /**
+   * Remove a behavior's schedule
+   */
+  removeSchedule(behaviorId: string): void {
+    this.scheduler.removeSchedule(behaviorId);
+  }
+
   /**
    * Get execution metrics
    */
@@ -381,6 +463,14 @@ export class AutonomousBehaviorEngine {
     return this.healthMonitor.getMetrics(startDate, endDate);
   }
 
+  /**
+   * Set how registered behaviors resolve to the instances that handle a
+   * trigger; by default each behavior handles every trigger itself
+   */
+  setBehaviorResolver(resolver: BehaviorResolver): void {
+    this.behaviorResolver = resolver;
+  }
+
   /**
    * Enable or disable a behavior
    */
@@ -418,4 +508,11 @@ export class AutonomousBehaviorEngine {
       throw error;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * A trigger with the context a resolved behavior runs with
+ */
+function withContext(trigger: BehaviorTrigger, context: BehaviorContext): BehaviorTrigger {
+  return context === trigger.context ? trigger : { ...trigger, context };
+}
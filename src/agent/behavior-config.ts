@@ -0,0 +1,348 @@
+/**
+ * Behavior Configuration
+ *
+ * Typed settings for the autonomous behaviors and the per-team overrides
+ * stored in team_behavior_configs. A team's configuration can enable or
+ * disable behaviors and override their settings; anything it leaves out
+ * comes from the process-wide configuration. Each save creates a new
+ * version, and BehaviorRegistry applies it without a restart.
+ */
+import { LinearClientWrapper } from '../linear/client';
+import {
+  StoryMonitoringBehavior,
+  StoryMonitoringConfig,
+  DEFAULT_CONFIG as STORY_MONITORING_DEFAULTS
+} from './behaviors/story-monitoring.behavior';
+import {
+  ARTHealthConfig,
+  ARTHealthMonitoringBehavior,
+  DEFAULT_CONFIG as ART_HEALTH_DEFAULTS
+} from './behaviors/art-health-monitoring.behavior';
+import {
+  DependencyDetectionBehavior,
+  DependencyDetectionConfig,
+  DEFAULT_CONFIG as DEPENDENCY_DETECTION_DEFAULTS
+} from './behaviors/dependency-detection.behavior';
+import {
+  WorkflowAutomationBehavior,
+  WorkflowAutomationConfig,
+  DEFAULT_CONFIG as WORKFLOW_AUTOMATION_DEFAULTS
+} from './behaviors/workflow-automation.behavior';
+import {
+  PeriodicReportingBehavior,
+  PeriodicReportingConfig,
+  ReportType,
+  DEFAULT_CONFIG as PERIODIC_REPORTING_DEFAULTS
+} from './behaviors/periodic-reporting.behavior';
+import {
+  DefinitionOfReadyBehavior,
+  DefinitionOfReadyConfig,
+  DEFAULT_CONFIG as DEFINITION_OF_READY_DEFAULTS
+} from './behaviors/definition-of-ready.behavior';
+import {
+  WipLimitsBehavior,
+  WipLimitsConfig,
+  DEFAULT_CONFIG as WIP_LIMITS_DEFAULTS
+} from './behaviors/wip-limits.behavior';
+import {
+  AnomalyDetectionBehavior,
+  AnomalyDetectionConfig,
+  AnomalyType,
+  DEFAULT_CONFIG as ANOMALY_DETECTION_DEFAULTS
+} from './behaviors/anomaly-detection.behavior';
+import { CronExpression, isValidTimeZone } from './monitoring/cron-expression';
+import { validateWorkflowRules } from './workflow-rules';
+import { AutonomousBehavior } from './types/autonomous-types';
+
+/**
+ * Settings for each behavior; anything left out keeps its default
+ */
+export interface BehaviorSettings {
+  storyMonitoring?: Partial<StoryMonitoringConfig>;
+  artHealthMonitoring?: Partial<ARTHealthConfig>;
+  dependencyDetection?: Partial<DependencyDetectionConfig>;
+  workflowAutomation?: Partial<WorkflowAutomationConfig>;
+  periodicReporting?: Partial<PeriodicReportingConfig>;
+  anomalyDetection?: Partial<AnomalyDetectionConfig>;
+  definitionOfReady?: Partial<DefinitionOfReadyConfig>;
+  wipLimits?: Partial<WipLimitsConfig>;
+}
+
+export type BehaviorKey = keyof BehaviorSettings;
+
+/**
+ * Which behaviors run, by behavior key
+ */
+export type BehaviorEnablement = Partial<Record<BehaviorKey, boolean>>;
+
+/**
+ * A team's overrides of the process-wide behavior configuration
+ */
+export interface TeamBehaviorConfig {
+  enabledBehaviors?: BehaviorEnablement;
+  settings?: BehaviorSettings;
+}
+
+/**
+ * How a behavior is created and which of its settings it has
+ */
+export interface BehaviorDefinition {
+  /** ID the behavior registers under */
+  id: string;
+  defaults: Record<string, any>;
+  /** Whether the behavior runs unless it is disabled, or only once enabled */
+  enabledByDefault: boolean;
+  /** Settings that only make sense for the whole workspace */
+  globalSettings: string[];
+  /** Whether team-less runs work through every team, so teams with their own settings run separately */
+  runsPerTeam: boolean;
+  create(linearClient: LinearClientWrapper, settings?: Record<string, any>): AutonomousBehavior;
+}
+
+export const BEHAVIOR_DEFINITIONS: Record<BehaviorKey, BehaviorDefinition> = {
+  storyMonitoring: {
+    id: 'story_monitoring',
+    enabledByDefault: true,
+    defaults: STORY_MONITORING_DEFAULTS,
+    globalSettings: [],
+    runsPerTeam: false,
+    create: (client, settings) => new StoryMonitoringBehavior(client, settings)
+  },
+  artHealthMonitoring: {
+    id: 'art_health_monitoring',
+    enabledByDefault: true,
+    defaults: ART_HEALTH_DEFAULTS,
+    globalSettings: ['monitoredTeams'],
+    runsPerTeam: false,
+    create: (client, settings) => new ARTHealthMonitoringBehavior(client, settings)
+  },
+  dependencyDetection: {
+    id: 'dependency_detection',
+    enabledByDefault: true,
+    defaults: DEPENDENCY_DETECTION_DEFAULTS,
+    globalSettings: [],
+    runsPerTeam: false,
+    create: (client, settings) => new DependencyDetectionBehavior(client, settings)
+  },
+  workflowAutomation: {
+    id: 'workflow_automation',
+    enabledByDefault: true,
+    defaults: WORKFLOW_AUTOMATION_DEFAULTS,
+    globalSettings: ['rulesFile'],
+    runsPerTeam: false,
+    create: (client, settings) => new WorkflowAutomationBehavior(client, settings)
+  },
+  periodicReporting: {
+    id: 'periodic_reporting',
+    enabledByDefault: true,
+    defaults: PERIODIC_REPORTING_DEFAULTS,
+    globalSettings: ['teamIds'],
+    runsPerTeam: true,
+    create: (client, settings) => new PeriodicReportingBehavior(client, settings)
+  },
+  anomalyDetection: {
+    id: 'anomaly_detection',
+    enabledByDefault: true,
+    defaults: ANOMALY_DETECTION_DEFAULTS,
+    globalSettings: [],
+    runsPerTeam: true,
+    create: (client, settings) => new AnomalyDetectionBehavior(client, settings)
+  },
+  definitionOfReady: {
+    id: 'definition_of_ready',
+    enabledByDefault: false,
+    defaults: DEFINITION_OF_READY_DEFAULTS,
+    globalSettings: [],
+    runsPerTeam: false,
+    create: (client, settings) => new DefinitionOfReadyBehavior(client, settings)
+  },
+  wipLimits: {
+    id: 'wip_limits',
+    enabledByDefault: false,
+    defaults: WIP_LIMITS_DEFAULTS,
+    globalSettings: [],
+    runsPerTeam: true,
+    create: (client, settings) => new WipLimitsBehavior(client, settings)
+  }
+};
+
+export const BEHAVIOR_KEYS = Object.keys(BEHAVIOR_DEFINITIONS) as BehaviorKey[];
+
+/** Allowed values of enumerated settings, by behavior key and setting */
+const ALLOWED_VALUES: Record<string, readonly string[]> = {
+  'anomalyDetection.sensitivityLevel': ['low', 'medium', 'high'],
+  'anomalyDetection.anomalyTypes': Object.values(AnomalyType),
+  'periodicReporting.reportTypes': Object.values(ReportType),
+  'periodicReporting.reportingChannel': ['linear', 'slack', 'email'],
+  'wipLimits.enforcement': ['warn', 'move_back']
+};
+
+/** Object settings keyed by workflow state name rather than by fixed fields */
+const STATE_KEYED_SETTINGS = ['wipLimits.stateLimits', 'wipLimits.assigneeLimits'];
+
+/**
+ * Finds the definition of a behavior by its registered ID
+ */
+export function findBehaviorDefinition(behaviorId: string): [BehaviorKey, BehaviorDefinition] | undefined {
+  return (Object.entries(BEHAVIOR_DEFINITIONS) as Array<[BehaviorKey, BehaviorDefinition]>)
+    .find(([, definition]) => definition.id === behaviorId);
+}
+
+/**
+ * Layers behavior settings, merging object settings (such as anomaly
+ * thresholds or report schedules) one level deep
+ */
+export function mergeBehaviorSettings(...layers: Array<Record<string, any> | undefined>): Record<string, any> {
+  const merged: Record<string, any> = {};
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer || {})) {
+      merged[key] = isObject(value) && isObject(merged[key]) ? { ...merged[key], ...value } : value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Checks a team behavior configuration
+ *
+ * @returns Error messages; empty if the configuration is valid
+ */
+export function validateTeamBehaviorConfig(config: any): string[] {
+  if (!isObject(config)) {
+    return ['Behavior configuration must be an object with enabledBehaviors and/or settings'];
+  }
+
+  const errors: string[] = [];
+
+  for (const key of Object.keys(config)) {
+    if (key !== 'enabledBehaviors' && key !== 'settings') {
+      errors.push(`${key} is not part of a behavior configuration (expected enabledBehaviors, settings)`);
+    }
+  }
+
+  if (config.enabledBehaviors !== undefined) {
+    if (!isObject(config.enabledBehaviors)) {
+      errors.push('enabledBehaviors must be an object of booleans by behavior');
+    } else {
+      for (const [key, enabled] of Object.entries(config.enabledBehaviors)) {
+        if (!isBehaviorKey(key)) {
+          errors.push(`enabledBehaviors.${key} is not a behavior (expected ${BEHAVIOR_KEYS.join(', ')})`);
+        } else if (typeof enabled !== 'boolean') {
+          errors.push(`enabledBehaviors.${key} must be true or false`);
+        }
+      }
+    }
+  }
+
+  if (config.settings !== undefined) {
+    if (!isObject(config.settings)) {
+      errors.push('settings must be an object of settings by behavior');
+    } else {
+      for (const [key, settings] of Object.entries(config.settings)) {
+        if (!isBehaviorKey(key)) {
+          errors.push(`settings.${key} is not a behavior (expected ${BEHAVIOR_KEYS.join(', ')})`);
+        } else if (!isObject(settings)) {
+          errors.push(`settings.${key} must be an object`);
+        } else {
+          errors.push(...validateBehaviorSettings(key, settings));
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks one behavior's settings against the types of its defaults
+ */
+function validateBehaviorSettings(key: BehaviorKey, settings: Record<string, any>): string[] {
+  const definition = BEHAVIOR_DEFINITIONS[key];
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(settings)) {
+    const where = `settings.${key}.${name}`;
+    const defaultValue = definition.defaults[name];
+
+    if (definition.globalSettings.includes(name)) {
+      errors.push(`${where} cannot be set per team`);
+    } else if (key === 'periodicReporting' && name === 'timeZone') {
+      if (typeof value !== 'string' || !isValidTimeZone(value)) {
+        errors.push(`${where} must be an IANA time zone such as America/New_York`);
+      }
+    } else if (defaultValue === undefined) {
+      errors.push(`${where} is not a setting`);
+    } else if (typeof defaultValue === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        errors.push(`${where} must be a number of at least 0`);
+      }
+    } else if (typeof defaultValue === 'boolean') {
+      if (typeof value !== 'boolean') {
+        errors.push(`${where} must be true or false`);
+      }
+    } else if (typeof defaultValue === 'string') {
+      const allowed = ALLOWED_VALUES[`${key}.${name}`];
+      if (typeof value !== 'string' || (allowed && !allowed.includes(value))) {
+        errors.push(`${where} must be ${allowed ? `one of ${allowed.join(', ')}` : 'a string'}`);
+      }
+    } else if (Array.isArray(defaultValue)) {
+      const allowed = ALLOWED_VALUES[`${key}.${name}`];
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        errors.push(`${where} must be a list of strings`);
+      } else if (allowed && value.some(item => !allowed.includes(item))) {
+        errors.push(`${where} can only contain ${allowed.join(', ')}`);
+      }
+    } else if (!isObject(value)) {
+      errors.push(`${where} must be an object`);
+    } else if (key === 'periodicReporting' && name === 'schedules') {
+      errors.push(...validateSchedules(where, value));
+    } else if (key === 'workflowAutomation' && name === 'stateTransitions') {
+      // Rules are checked as a rule set with one list of rules per state
+      errors.push(...validateWorkflowRules({ teams: value }).map(error => error.replace(/^teams\b/, where)));
+    } else {
+      for (const [field, fieldValue] of Object.entries(value)) {
+        if (typeof defaultValue[field] !== 'number' && !STATE_KEYED_SETTINGS.includes(`${key}.${name}`)) {
+          errors.push(`${where}.${field} is not a setting`);
+        } else if (typeof fieldValue !== 'number' || !Number.isFinite(fieldValue) || fieldValue < 0) {
+          errors.push(`${where}.${field} must be a number of at least 0`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks report schedules are cron expressions for known report types
+ */
+function validateSchedules(where: string, schedules: Record<string, any>): string[] {
+  const reportTypes: string[] = Object.values(ReportType);
+  const errors: string[] = [];
+
+  for (const [reportType, schedule] of Object.entries(schedules)) {
+    if (!reportTypes.includes(reportType)) {
+      errors.push(`${where}.${reportType} is not a report type (expected ${reportTypes.join(', ')})`);
+    } else if (typeof schedule !== 'string') {
+      errors.push(`${where}.${reportType} must be a cron expression`);
+    } else {
+      try {
+        new CronExpression(schedule, 'UTC');
+      } catch (error) {
+        errors.push(`${where}.${reportType}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function isBehaviorKey(key: string): key is BehaviorKey {
+  return (BEHAVIOR_KEYS as string[]).includes(key);
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
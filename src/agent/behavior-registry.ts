@@ -3,19 +3,34 @@
  * 
  * Central registry for initializing and managing all autonomous behaviors.
  * Provides a single entry point for behavior configuration and lifecycle management.
+ * Teams can override the configuration (see behavior-config.ts); a team's
+ * triggers then run behavior instances built from its settings.
  */
 
 import { AutonomousBehaviorEngine } from './autonomous-engine';
 import { LinearClientWrapper } from '../linear/client';
-import { StoryMonitoringBehavior } from './behaviors/story-monitoring.behavior';
-import { ARTHealthMonitoringBehavior } from './behaviors/art-health-monitoring.behavior';
-import { DependencyDetectionBehavior } from './behaviors/dependency-detection.behavior';
-import { WorkflowAutomationBehavior } from './behaviors/workflow-automation.behavior';
-import { PeriodicReportingBehavior } from './behaviors/periodic-reporting.behavior';
-import { AnomalyDetectionBehavior } from './behaviors/anomaly-detection.behavior';
-import { BehaviorConfiguration } from './types/autonomous-types';
+import {
+  BEHAVIOR_DEFINITIONS,
+  BEHAVIOR_KEYS,
+  BehaviorEnablement,
+  BehaviorSettings,
+  TeamBehaviorConfig,
+  findBehaviorDefinition,
+  mergeBehaviorSettings
+} from './behavior-config';
+import {
+  AutonomousBehavior,
+  BehaviorConfiguration,
+  BehaviorContext,
+  BehaviorSchedule,
+  ResolvedBehavior
+} from './types/autonomous-types';
+import { getCurrentTeamBehaviorConfigs } from '../db/models';
 import * as logger from '../utils/logger';
 
+/** How often saved team configurations are checked for new versions by default */
+const DEFAULT_TEAM_CONFIG_REFRESH_MS = 30 * 1000;
+
 /**
  * Registry configuration options
  */
@@ -27,24 +42,16 @@ export interface BehaviorRegistryConfig {
   engineConfig?: Partial<BehaviorConfiguration>;
   
   /** Individual behavior configurations */
-  behaviorConfigs?: {
-    storyMonitoring?: any;
-    artHealthMonitoring?: any;
-    dependencyDetection?: any;
-    workflowAutomation?: any;
-    periodicReporting?: any;
-    anomalyDetection?: any;
-  };
+  behaviorConfigs?: BehaviorSettings;
   
   /** Which behaviors to enable */
-  enabledBehaviors?: {
-    storyMonitoring?: boolean;
-    artHealthMonitoring?: boolean;
-    dependencyDetection?: boolean;
-    workflowAutomation?: boolean;
-    periodicReporting?: boolean;
-    anomalyDetection?: boolean;
-  };
+  enabledBehaviors?: BehaviorEnablement;
+  
+  /** Cron or interval schedules, added once their behavior is registered */
+  schedules?: BehaviorSchedule[];
+  
+  /** How often (ms) saved team configurations are checked for new versions */
+  teamConfigRefreshInterval?: number;
 }
 
 /**
@@ -55,11 +62,19 @@ export class BehaviorRegistry {
   private linearClient: LinearClientWrapper;
   private config: BehaviorRegistryConfig;
   private initialized = false;
+  /** Behavior instances built from each team's configuration, by team and behavior ID */
+  private teamBehaviors: Map<string, Map<string, AutonomousBehavior>> = new Map();
+  /** Version of each team's saved configuration that was applied */
+  private teamConfigVersions: Map<string, number> = new Map();
+  /** When saved team configurations were last loaded */
+  private teamConfigsLoadedAt = 0;
+  private teamConfigsLoading?: Promise<void>;
 
   constructor(config: BehaviorRegistryConfig) {
     this.config = config;
     this.linearClient = config.linearClient;
     this.engine = new AutonomousBehaviorEngine(config.engineConfig);
+    this.engine.setBehaviorResolver((behavior, context) => this.resolveBehavior(behavior, context));
     
     logger.info('BehaviorRegistry created', {
       enabledBehaviors: config.enabledBehaviors
@@ -80,6 +95,8 @@ export class BehaviorRegistry {
 
       // Register behaviors based on configuration
       await this.registerBehaviors();
+      this.addSchedules();
+      await this.loadTeamConfigs();
       
       // Initialize the engine
       await this.engine.initialize();
@@ -103,65 +120,168 @@ export class BehaviorRegistry {
   private async registerBehaviors(): Promise<void> {
     const { enabledBehaviors = {}, behaviorConfigs = {} } = this.config;
     
-    // Story Monitoring Behavior
-    if (enabledBehaviors.storyMonitoring !== false) {
-      const behavior = new StoryMonitoringBehavior(
-        this.linearClient,
-        behaviorConfigs.storyMonitoring
-      );
-      this.engine.registerBehavior(behavior);
-      logger.info('Registered StoryMonitoringBehavior');
+    for (const key of BEHAVIOR_KEYS) {
+      const definition = BEHAVIOR_DEFINITIONS[key];
+      if (enabledBehaviors[key] ?? definition.enabledByDefault) {
+        this.engine.registerBehavior(definition.create(this.linearClient, behaviorConfigs[key]));
+      }
     }
+  }
 
-    // ART Health Monitoring Behavior
-    if (enabledBehaviors.artHealthMonitoring !== false) {
-      const behavior = new ARTHealthMonitoringBehavior(
-        this.linearClient,
-        behaviorConfigs.artHealthMonitoring
-      );
-      this.engine.registerBehavior(behavior);
-      logger.info('Registered ARTHealthMonitoringBehavior');
+  /**
+   * Add the configured schedules of registered behaviors
+   *
+   * A behavior that neither the registry nor any team enables is not
+   * registered, so its schedule is only added once a team enables it.
+   *
+   * @param behaviorId Only add this behavior's schedule
+   */
+  private addSchedules(behaviorId?: string): void {
+    for (const schedule of this.config.schedules || []) {
+      if ((!behaviorId || schedule.behaviorId === behaviorId) && this.engine['behaviors'].has(schedule.behaviorId)) {
+        this.engine.addSchedule(schedule);
+      }
     }
+  }
 
-    // Dependency Detection Behavior
-    if (enabledBehaviors.dependencyDetection !== false) {
-      const behavior = new DependencyDetectionBehavior(
-        this.linearClient,
-        behaviorConfigs.dependencyDetection
-      );
-      this.engine.registerBehavior(behavior);
-      logger.info('Registered DependencyDetectionBehavior');
+  /**
+   * Apply the saved configuration of every team whose version changed
+   *
+   * If the configurations cannot be loaded, teams keep the configuration
+   * they run with (the registry configuration on startup).
+   */
+  private async loadTeamConfigs(): Promise<void> {
+    try {
+      for (const teamConfig of await getCurrentTeamBehaviorConfigs()) {
+        if (this.teamConfigVersions.get(teamConfig.team_id) !== teamConfig.version) {
+          this.applyTeamConfig(teamConfig.team_id, teamConfig.config, teamConfig.version);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to load team behavior configurations', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      this.teamConfigsLoadedAt = Date.now();
     }
+  }
 
-    // Workflow Automation Behavior
-    if (enabledBehaviors.workflowAutomation !== false) {
-      const behavior = new WorkflowAutomationBehavior(
-        this.linearClient,
-        behaviorConfigs.workflowAutomation
-      );
-      this.engine.registerBehavior(behavior);
-      logger.info('Registered WorkflowAutomationBehavior');
+  /**
+   * Reload saved team configurations once the refresh interval has passed,
+   * so versions saved through another instance are picked up
+   */
+  private async refreshTeamConfigs(): Promise<void> {
+    const interval = this.config.teamConfigRefreshInterval ?? DEFAULT_TEAM_CONFIG_REFRESH_MS;
+    if (Date.now() - this.teamConfigsLoadedAt < interval) {
+      return;
     }
 
-    // Periodic Reporting Behavior
-    if (enabledBehaviors.periodicReporting !== false) {
-      const behavior = new PeriodicReportingBehavior(
-        this.linearClient,
-        behaviorConfigs.periodicReporting
-      );
-      this.engine.registerBehavior(behavior);
-      logger.info('Registered PeriodicReportingBehavior');
+    if (!this.teamConfigsLoading) {
+      this.teamConfigsLoading = this.loadTeamConfigs().finally(() => {
+        this.teamConfigsLoading = undefined;
+      });
     }
+    await this.teamConfigsLoading;
+  }
+
+  /**
+   * Apply a team's behavior configuration, replacing its previous one
+   *
+   * Each behavior the team enables, disables or configures gets an instance
+   * with the team's settings layered over the registry's. Behaviors it
+   * does not mention keep following the registry configuration.
+   *
+   * @param version Saved version of the configuration, so it is not reapplied on refresh
+   */
+  applyTeamConfig(teamId: string, config: TeamBehaviorConfig, version?: number): void {
+    const { enabledBehaviors = {}, behaviorConfigs = {} } = this.config;
+    const behaviors = new Map<string, AutonomousBehavior>();
+
+    for (const key of BEHAVIOR_KEYS) {
+      const enabled = config.enabledBehaviors?.[key];
+      const settings = config.settings?.[key];
+      if (enabled === undefined && settings === undefined) {
+        continue;
+      }
 
-    // Anomaly Detection Behavior
-    if (enabledBehaviors.anomalyDetection !== false) {
-      const behavior = new AnomalyDetectionBehavior(
+      const definition = BEHAVIOR_DEFINITIONS[key];
+      const behavior = definition.create(
         this.linearClient,
-        behaviorConfigs.anomalyDetection
+        mergeBehaviorSettings(definition.defaults, behaviorConfigs[key], settings)
       );
-      this.engine.registerBehavior(behavior);
-      logger.info('Registered AnomalyDetectionBehavior');
+      behavior.enabled = enabled ?? enabledBehaviors[key] ?? definition.enabledByDefault;
+      behaviors.set(definition.id, behavior);
+
+      // Triggers only reach registered behaviors, so one disabled for
+      // everyone is registered disabled for the teams that enable it
+      if (behavior.enabled && !this.engine['behaviors'].has(definition.id)) {
+        const disabled = definition.create(this.linearClient, behaviorConfigs[key]);
+        disabled.enabled = false;
+        this.engine.registerBehavior(disabled);
+        this.addSchedules(definition.id);
+      }
+    }
+
+    if (behaviors.size > 0) {
+      this.teamBehaviors.set(teamId, behaviors);
+    } else {
+      this.teamBehaviors.delete(teamId);
+    }
+
+    if (version !== undefined) {
+      this.teamConfigVersions.set(teamId, version);
     }
+
+    logger.info('Applied team behavior configuration', {
+      teamId,
+      behaviors: Object.fromEntries([...behaviors].map(([id, behavior]) => [id, behavior.enabled]))
+    });
+  }
+
+  /**
+   * Resolve a behavior to the instances that handle a trigger
+   *
+   * A trigger about a team runs the team's instance, if it has one. A
+   * team-less trigger runs the registry's instance, and behaviors that work
+   * through every team also run each team's instance for that team alone.
+   */
+  private async resolveBehavior(behavior: AutonomousBehavior, context: BehaviorContext): Promise<ResolvedBehavior[]> {
+    await this.refreshTeamConfigs();
+
+    const teamId = context.team?.id || context.issue?.team?.id;
+    if (teamId) {
+      return [{ behavior: this.teamBehaviors.get(teamId)?.get(behavior.id) || behavior, context }];
+    }
+
+    const definition = findBehaviorDefinition(behavior.id)?.[1];
+    const teamRuns = definition?.runsPerTeam
+      ? [...this.teamBehaviors].filter(([, behaviors]) => behaviors.has(behavior.id))
+      : [];
+    if (teamRuns.length === 0) {
+      return [{ behavior, context }];
+    }
+
+    const resolved: ResolvedBehavior[] = [
+      { behavior, context: { ...context, excludedTeamIds: teamRuns.map(([id]) => id) } }
+    ];
+
+    for (const [id, behaviors] of teamRuns) {
+      try {
+        const team = await this.linearClient.getTeam(id);
+        resolved.push({
+          behavior: behaviors.get(behavior.id)!,
+          context: { ...context, team: { id, name: team.name, key: team.key } }
+        });
+      } catch (error) {
+        logger.error('Failed to load team for its behavior configuration', {
+          teamId: id,
+          behaviorId: behavior.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return resolved;
   }
 
   /**
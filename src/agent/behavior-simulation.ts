@@ -0,0 +1,538 @@
+/**
+ * Behavior Simulation
+ *
+ * Dry-runs autonomous behaviors against a snapshot of a team's issues before
+ * they are enabled for the team. The snapshot is captured from Linear or
+ * loaded from a JSON file and served by a RecordingLinearClient, so every
+ * comment, label change and assignment a behavior makes is recorded instead
+ * of executed. Behaviors run through AutonomousBehaviorEngine.simulateTrigger
+ * against synthetic triggers, and the recorded changes are reported per
+ * behavior.
+ */
+import { promises as fs } from 'fs';
+import { LinearClientWrapper } from '../linear/client';
+import { RecordedMutation, RecordingLinearClient } from '../linear/recording-client';
+import { AutonomousBehaviorEngine } from './autonomous-engine';
+import { BEHAVIOR_DEFINITIONS, findBehaviorDefinition } from './behavior-config';
+import {
+  BehaviorAction,
+  BehaviorTrigger,
+  BehaviorTriggerType
+} from './types/autonomous-types';
+import * as logger from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A team's issues and workspace data at one point in time
+ */
+export interface WorkspaceSnapshot {
+  capturedAt: string;
+
+  team: {
+    id: string;
+    name: string;
+    key: string;
+    /** Workflow states, used to resolve state changes */
+    states?: any[];
+  };
+
+  /**
+   * Issues with their state, assignee, labels and team resolved. An issue may
+   * carry a `previousState` (the issue before an update) to simulate that
+   * update; otherwise it is simulated as having just entered its state.
+   */
+  issues: any[];
+
+  labels?: any[];
+  users?: any[];
+}
+
+/**
+ * Synthetic triggers: one schedule trigger for the team, or one issue update
+ * per issue in the snapshot
+ */
+export type SimulationTriggerKind = 'schedule' | 'issue_update';
+
+/**
+ * Simulation options
+ */
+export interface SimulationOptions {
+  /** IDs of the behaviors to run, e.g. workflow_automation */
+  behaviors: string[];
+
+  /** Synthetic triggers to run them against (default: all kinds) */
+  triggers?: SimulationTriggerKind[];
+
+  /** Configuration per behavior ID, as passed to the behavior constructor */
+  behaviorConfigs?: Record<string, any>;
+}
+
+/**
+ * Kinds of changes a behavior would have made
+ */
+export type SimulatedChangeKind =
+  | 'comment'
+  | 'label_change'
+  | 'assignment'
+  | 'state_change'
+  | 'priority_change'
+  | 'issue_created'
+  | 'issue_update'
+  | 'other';
+
+/**
+ * A change a behavior would have made in Linear
+ */
+export interface SimulatedChange {
+  behaviorId: string;
+  /** Synthetic trigger, e.g. "schedule" or "issue_update PHX-12" */
+  trigger: string;
+  kind: SimulatedChangeKind;
+  issueId?: string;
+  /** Issue identifier, when the issue is in the snapshot */
+  issue?: string;
+  description: string;
+  mutation: RecordedMutation;
+}
+
+/**
+ * A synthetic trigger a behavior acted on
+ */
+export interface SimulatedRun {
+  behaviorId: string;
+  trigger: string;
+  success: boolean;
+  error?: string;
+  /** Actions the behavior reported */
+  actions: BehaviorAction[];
+}
+
+/**
+ * Result of a simulation
+ */
+export interface BehaviorSimulationReport {
+  team: { id: string; name: string; key: string };
+  capturedAt: string;
+  issueCount: number;
+  behaviors: string[];
+  /** Synthetic triggers each behavior was evaluated against */
+  triggerCount: number;
+  /** Triggers the behaviors acted on */
+  runs: SimulatedRun[];
+  changes: SimulatedChange[];
+  /** Number of changes by kind */
+  summary: Record<SimulatedChangeKind, number>;
+}
+
+const TRIGGER_KINDS: SimulationTriggerKind[] = ['schedule', 'issue_update'];
+
+const CHANGE_LABELS: Record<SimulatedChangeKind, string> = {
+  comment: 'comments',
+  label_change: 'label changes',
+  assignment: 'assignments',
+  state_change: 'state changes',
+  priority_change: 'priority changes',
+  issue_created: 'issues created',
+  issue_update: 'other issue updates',
+  other: 'other changes'
+};
+
+/**
+ * Captures a snapshot of a team from Linear
+ *
+ * @param linearClient Client to read from
+ * @param teamId Team to capture
+ * @param lookbackDays Only issues updated within this many days are captured
+ */
+export const captureWorkspaceSnapshot = async (
+  linearClient: LinearClientWrapper,
+  teamId: string,
+  lookbackDays = 90
+): Promise<WorkspaceSnapshot> => {
+  const team = await linearClient.getTeam(teamId);
+  const [issues, labels, users] = await Promise.all([
+    linearClient.getIssues({
+      filter: {
+        team: { id: { eq: teamId } },
+        updatedAt: { gte: new Date(Date.now() - lookbackDays * DAY_MS) }
+      }
+    }),
+    linearClient.getLabels({ teamId }),
+    linearClient.getTeamMembers(teamId)
+  ]);
+  const teamSummary = { id: team.id, name: team.name, key: team.key };
+
+  const snapshot: WorkspaceSnapshot = {
+    capturedAt: new Date().toISOString(),
+    team: {
+      ...teamSummary,
+      states: (await resolveConnection(team.states)).map(pick('id', 'name', 'type'))
+    },
+    issues: await Promise.all(issues.nodes.map((issue: any) => toSnapshotIssue(issue, teamSummary))),
+    labels: labels.nodes.map(pick('id', 'name')),
+    users: users.nodes.map(pick('id', 'name', 'displayName', 'email'))
+  };
+
+  logger.info('Captured workspace snapshot', { teamId, issues: snapshot.issues.length });
+  return snapshot;
+};
+
+/**
+ * Loads a snapshot from a JSON file
+ *
+ * @throws If the file is not a valid snapshot
+ */
+export const loadWorkspaceSnapshot = async (snapshotPath: string): Promise<WorkspaceSnapshot> => {
+  const content = JSON.parse(await fs.readFile(snapshotPath, 'utf8'));
+  const errors = validateWorkspaceSnapshot(content);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid workspace snapshot ${snapshotPath}: ${errors.join('; ')}`);
+  }
+
+  return { capturedAt: '', ...content };
+};
+
+/**
+ * Validates a snapshot
+ *
+ * @returns Validation errors, empty if the snapshot is valid
+ */
+export const validateWorkspaceSnapshot = (snapshot: any): string[] => {
+  const errors: string[] = [];
+
+  if (!snapshot || typeof snapshot !== 'object') {
+    return ['snapshot must be an object'];
+  }
+
+  const team = snapshot.team;
+  if (!team || typeof team.id !== 'string' || typeof team.name !== 'string' || typeof team.key !== 'string') {
+    errors.push('team must have an id, name and key');
+  }
+
+  if (!Array.isArray(snapshot.issues)) {
+    errors.push('issues must be a list');
+  } else {
+    snapshot.issues.forEach((issue: any, index: number) => {
+      if (!issue || typeof issue.id !== 'string') {
+        errors.push(`issues[${index}] must have an id`);
+      }
+    });
+  }
+
+  for (const field of ['labels', 'users']) {
+    if (snapshot[field] !== undefined && !Array.isArray(snapshot[field])) {
+      errors.push(`${field} must be a list`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Runs behaviors against a snapshot and reports the changes they would make
+ *
+ * Each behavior runs in its own engine so its changes can be told apart.
+ * Reads are served from the snapshot; nothing is sent to Linear.
+ *
+ * @throws If a behavior ID or trigger kind is unknown
+ */
+export const simulateBehaviors = async (
+  snapshot: WorkspaceSnapshot,
+  options: SimulationOptions
+): Promise<BehaviorSimulationReport> => {
+  const triggerKinds = options.triggers || TRIGGER_KINDS;
+  const unknownBehaviors = options.behaviors.filter(id => !findBehaviorDefinition(id));
+  if (unknownBehaviors.length > 0) {
+    const behaviorIds = Object.values(BEHAVIOR_DEFINITIONS).map(definition => definition.id);
+    throw new Error(
+      `Unknown behavior: ${unknownBehaviors.join(', ')} (expected ${behaviorIds.join(', ')})`
+    );
+  }
+  const unknownTriggers = triggerKinds.filter(kind => !TRIGGER_KINDS.includes(kind));
+  if (unknownTriggers.length > 0) {
+    throw new Error(`Unknown trigger kind: ${unknownTriggers.join(', ')} (expected ${TRIGGER_KINDS.join(', ')})`);
+  }
+
+  const client = new RecordingLinearClient({
+    data: {
+      teams: [snapshot.team],
+      issues: snapshot.issues,
+      labels: snapshot.labels,
+      users: snapshot.users
+    }
+  });
+  const runs: SimulatedRun[] = [];
+  const changes: SimulatedChange[] = [];
+  let triggerCount = 0;
+
+  for (const behaviorId of options.behaviors) {
+    const engine = new AutonomousBehaviorEngine({ enabledBehaviors: {} });
+    const [, definition] = findBehaviorDefinition(behaviorId)!;
+    engine.registerBehavior(definition.create(client, options.behaviorConfigs?.[behaviorId]));
+
+    const triggers = createSyntheticTriggers(snapshot, behaviorId, triggerKinds);
+    triggerCount = triggers.length;
+
+    for (const { label, trigger } of triggers) {
+      client.resetRecordedMutations();
+      const [run] = await engine.simulateTrigger(trigger);
+      if (!run || !run.triggered) {
+        continue;
+      }
+
+      runs.push({
+        behaviorId,
+        trigger: label,
+        success: !run.error && run.result?.success !== false,
+        error: run.error || run.result?.error,
+        actions: run.result?.actions || []
+      });
+
+      const labels = (await client.getLabels({})).nodes;
+      for (const mutation of client.getRecordedMutations()) {
+        changes.push(...describeMutation(mutation, snapshot, labels).map(change => ({
+          behaviorId,
+          trigger: label,
+          ...change,
+          issue: snapshot.issues.find(issue => issue.id === change.issueId)?.identifier
+        })));
+      }
+    }
+  }
+
+  const summary = Object.fromEntries(
+    Object.keys(CHANGE_LABELS).map(kind => [kind, changes.filter(change => change.kind === kind).length])
+  ) as Record<SimulatedChangeKind, number>;
+
+  logger.info('Behavior simulation completed', {
+    teamId: snapshot.team.id,
+    behaviors: options.behaviors,
+    runs: runs.length,
+    changes: changes.length
+  });
+
+  return {
+    team: { id: snapshot.team.id, name: snapshot.team.name, key: snapshot.team.key },
+    capturedAt: snapshot.capturedAt,
+    issueCount: snapshot.issues.length,
+    behaviors: options.behaviors,
+    triggerCount,
+    runs,
+    changes,
+    summary
+  };
+};
+
+/**
+ * Formats a report for the terminal
+ */
+export const formatSimulationReport = (report: BehaviorSimulationReport): string => {
+  const lines: string[] = [];
+  const failed = report.runs.filter(run => !run.success);
+
+  lines.push(`Behavior simulation for ${report.team.name} (${report.team.key})`);
+  lines.push(`Snapshot: ${report.issueCount} issues${report.capturedAt ? ` captured ${report.capturedAt}` : ''}`);
+  lines.push(`Behaviors: ${report.behaviors.join(', ')}`);
+  lines.push(`Triggers: ${report.triggerCount} per behavior, ${report.runs.length} acted on, ${failed.length} failed`);
+  lines.push('');
+
+  const counts = (Object.keys(CHANGE_LABELS) as SimulatedChangeKind[])
+    .filter(kind => report.summary[kind] > 0)
+    .map(kind => `${CHANGE_LABELS[kind]}: ${report.summary[kind]}`);
+  lines.push(`Would have made ${report.changes.length} changes${counts.length > 0 ? ` (${counts.join(', ')})` : ''}`);
+
+  for (const behaviorId of report.behaviors) {
+    const behaviorChanges = report.changes.filter(change => change.behaviorId === behaviorId);
+    if (behaviorChanges.length === 0) {
+      continue;
+    }
+
+    lines.push('');
+    lines.push(behaviorId);
+    for (const change of behaviorChanges) {
+      const target = change.issue || change.issueId || '-';
+      lines.push(`- ${target}: ${change.description} [${change.trigger}]`);
+    }
+  }
+
+  if (failed.length > 0) {
+    lines.push('');
+    lines.push(`Failed (${failed.length})`);
+    failed.forEach(run => lines.push(`- ${run.behaviorId} [${run.trigger}]: ${run.error || 'Unknown error'}`));
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Creates the synthetic triggers a behavior is simulated against
+ */
+const createSyntheticTriggers = (
+  snapshot: WorkspaceSnapshot,
+  behaviorId: string,
+  kinds: SimulationTriggerKind[]
+): Array<{ label: string; trigger: BehaviorTrigger }> => {
+  const timestamp = new Date();
+  const team = { id: snapshot.team.id, name: snapshot.team.name, key: snapshot.team.key };
+  const triggers: Array<{ label: string; trigger: BehaviorTrigger }> = [];
+
+  if (kinds.includes('schedule')) {
+    triggers.push({
+      label: 'schedule',
+      trigger: {
+        id: `simulation_schedule_${behaviorId}`,
+        type: BehaviorTriggerType.SCHEDULE,
+        payload: { behaviorId, simulated: true },
+        context: { team, triggerType: 'schedule', timestamp },
+        timestamp
+      }
+    });
+  }
+
+  if (kinds.includes('issue_update')) {
+    for (const { previousState, ...issue } of snapshot.issues) {
+      triggers.push({
+        label: `issue_update ${issue.identifier || issue.id}`,
+        trigger: {
+          id: `simulation_issue_update_${issue.id}`,
+          type: BehaviorTriggerType.WEBHOOK,
+          payload: { type: 'Issue', action: 'update', data: issue, simulated: true },
+          context: {
+            issue: { team, ...issue },
+            previousState: previousState || { ...issue, state: undefined },
+            team,
+            triggerType: BehaviorTriggerType.WEBHOOK,
+            timestamp
+          },
+          timestamp
+        }
+      });
+    }
+  }
+
+  return triggers;
+};
+
+/**
+ * Describes the changes a recorded mutation would have made
+ */
+const describeMutation = (
+  mutation: RecordedMutation,
+  snapshot: WorkspaceSnapshot,
+  labels: any[]
+): Array<Omit<SimulatedChange, 'behaviorId' | 'trigger'>> => {
+  const { operation, input } = mutation;
+  const change = (kind: SimulatedChangeKind, description: string, issueId?: string) =>
+    ({ kind, issueId, description, mutation });
+
+  switch (operation) {
+    case 'createComment':
+      return [change('comment', `Comment: ${summarize(input.body)}`, input.issueId)];
+    case 'updateComment':
+      return [change('comment', `Edit comment ${input.commentId}: ${summarize(input.body)}`)];
+    case 'createIssue':
+      return [change('issue_created', `Create issue: ${input.input?.title || 'Untitled'}`)];
+    case 'createLabel':
+      return [change('other', `Create label ${input.input?.name}`)];
+    case 'updateIssue':
+      return describeIssueUpdate(input.input, snapshot, labels, change);
+    case 'updateIssueLegacy':
+      return describeIssueUpdate({ id: input.issueId, ...input.input }, snapshot, labels, change);
+    default:
+      return [change('other', `${operation} ${summarize(JSON.stringify(input))}`)];
+  }
+};
+
+/**
+ * Splits an issue update into label, assignment, state and priority changes
+ */
+const describeIssueUpdate = (
+  update: any,
+  snapshot: WorkspaceSnapshot,
+  labels: any[],
+  change: (kind: SimulatedChangeKind, description: string, issueId?: string) => any
+): any[] => {
+  const { id, labelIds, assigneeId, stateId, priority, ...rest } = update;
+  const issue = snapshot.issues.find(candidate => candidate.id === id);
+  const changes: any[] = [];
+
+  if (labelIds !== undefined) {
+    const current: string[] = issue?.labels?.nodes?.map((label: any) => label.id) || [];
+    const labelName = (labelId: string) => labels.find(label => label.id === labelId)?.name || labelId;
+    const added = labelIds.filter((labelId: string) => !current.includes(labelId)).map(labelName);
+    const removed = current.filter(labelId => !labelIds.includes(labelId)).map(labelName);
+    const parts = [
+      added.length > 0 ? `Add ${plural('label', added.length)} ${added.join(', ')}` : '',
+      removed.length > 0 ? `Remove ${plural('label', removed.length)} ${removed.join(', ')}` : ''
+    ].filter(Boolean);
+    changes.push(change('label_change', parts.length > 0 ? parts.join('; ') : 'Set the same labels', id));
+  }
+
+  if (assigneeId !== undefined) {
+    const user = [...(snapshot.users || []), ...snapshot.issues.map(candidate => candidate.assignee)]
+      .find(candidate => candidate?.id === assigneeId);
+    changes.push(change('assignment', assigneeId ? `Assign to ${user?.name || assigneeId}` : 'Unassign', id));
+  }
+
+  if (stateId !== undefined) {
+    const state = (snapshot.team.states || []).find(candidate => candidate.id === stateId);
+    changes.push(change('state_change', `Move to ${state?.name || stateId}`, id));
+  }
+
+  if (priority !== undefined) {
+    changes.push(change('priority_change', `Set priority to ${priority}`, id));
+  }
+
+  const otherFields = Object.keys(rest).filter(field => rest[field] !== undefined);
+  if (otherFields.length > 0) {
+    changes.push(change('issue_update', `Update ${otherFields.join(', ')}`, id));
+  }
+
+  return changes;
+};
+
+/**
+ * Converts an issue from the Linear SDK, resolving its relations
+ */
+const toSnapshotIssue = async (issue: any, team: WorkspaceSnapshot['team']): Promise<any> => {
+  const [state, assignee, labels, cycle, project] = await Promise.all([
+    issue.state,
+    issue.assignee,
+    resolveConnection(issue.labels),
+    issue.cycle,
+    issue.project
+  ]);
+
+  return {
+    ...pick(
+      'id', 'identifier', 'title', 'description', 'priority', 'estimate', 'dueDate',
+      'createdAt', 'updatedAt', 'startedAt', 'completedAt', 'canceledAt'
+    )(issue),
+    state: state ? pick('id', 'name', 'type')(state) : undefined,
+    assignee: assignee ? pick('id', 'name', 'email')(assignee) : undefined,
+    labels: { nodes: labels.map(pick('id', 'name')) },
+    cycle: cycle ? pick('id', 'number', 'name')(cycle) : undefined,
+    project: project ? pick('id', 'name')(project) : undefined,
+    team
+  };
+};
+
+/**
+ * Reads the nodes of an SDK connection (a method) or a plain { nodes } object
+ */
+const resolveConnection = async (connection: any): Promise<any[]> => {
+  const resolved = typeof connection === 'function' ? await connection() : await connection;
+  return resolved?.nodes || [];
+};
+
+const pick = (...fields: string[]) => (source: any): any =>
+  Object.fromEntries(fields.filter(field => source?.[field] !== undefined).map(field => [field, source[field]]));
+
+const plural = (word: string, count: number): string => (count === 1 ? word : `${word}s`);
+
+const summarize = (text: string = '', length = 80): string => {
+  const firstLine = text.split('\n').find(line => line.trim() !== '')?.trim() || '';
+  return firstLine.length > length ? `${firstLine.slice(0, length - 3)}...` : firstLine;
+};
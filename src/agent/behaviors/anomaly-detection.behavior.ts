@@ -2,7 +2,9 @@
  * Anomaly Detection Behavior (LIN-59)
  * 
  * Detects unusual patterns in team performance, issue lifecycle,
- * and workflow metrics to identify potential problems early.
+ * and workflow metrics to identify potential problems early. Current
+ * metrics are compared with the team's baseline from its daily metric
+ * snapshots (see team-metrics.ts).
  */
 
 import {
@@ -12,15 +14,20 @@ import {
   BehaviorAction
 } from '../types/autonomous-types';
 import { LinearClientWrapper } from '../../linear/client';
+import { MetricBaseline, TeamMetrics, gatherTeamMetrics, getMetricBaseline } from '../team-metrics';
 import * as logger from '../../utils/logger';
 
 /**
  * Configuration for anomaly detection
  */
-interface AnomalyDetectionConfig {
+export interface AnomalyDetectionConfig {
   sensitivityLevel: 'low' | 'medium' | 'high';
   anomalyTypes: AnomalyType[];
   lookbackDays: number;
+  /** Days of daily snapshots averaged into the baseline */
+  baselineDays: number;
+  /** Snapshots needed before velocity and cycle time are compared with the baseline */
+  minBaselineSnapshots: number;
   thresholds: {
     velocityDeviation: number; // % deviation from average
     cycleTimeIncrease: number; // % increase in cycle time
@@ -33,7 +40,7 @@ interface AnomalyDetectionConfig {
 /**
  * Types of anomalies to detect
  */
-enum AnomalyType {
+export enum AnomalyType {
   VELOCITY_DROP = 'velocity_drop',
   CYCLE_TIME_SPIKE = 'cycle_time_spike',
   ESTIMATION_DRIFT = 'estimation_drift',
@@ -56,24 +63,15 @@ interface Anomaly {
   affectedItems: any[];
 }
 
-/**
- * Historical metrics for comparison
- */
-interface HistoricalMetrics {
-  averageVelocity: number;
-  averageCycleTime: number;
-  averageBlockageRate: number;
-  averageWIP: number;
-  estimationAccuracy: number;
-}
-
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: AnomalyDetectionConfig = {
+export const DEFAULT_CONFIG: AnomalyDetectionConfig = {
   sensitivityLevel: 'medium',
   anomalyTypes: Object.values(AnomalyType),
   lookbackDays: 30,
+  baselineDays: 90,
+  minBaselineSnapshots: 7,
   thresholds: {
     velocityDeviation: 30, // 30% drop
     cycleTimeIncrease: 50, // 50% increase
@@ -94,7 +92,6 @@ export class AnomalyDetectionBehavior implements AutonomousBehavior {
   public readonly priority = 50;
 
   private config: AnomalyDetectionConfig;
-  private historicalData: Map<string, HistoricalMetrics> = new Map();
 
   constructor(
     private linearClient: LinearClientWrapper,
@@ -136,20 +133,22 @@ export class AnomalyDetectionBehavior implements AutonomousBehavior {
     try {
       logger.info('Executing anomaly detection');
 
-      // Get teams to analyze
-      const teams = context.team ? [context.team] : await this.getAllTeams();
+      // Get teams to analyze, skipping those analyzed with their own configuration
+      const teams = context.team
+        ? [context.team]
+        : (await this.getAllTeams()).filter(team => !context.excludedTeamIds?.includes(team.id));
       
       for (const team of teams) {
         try {
-          // Gather current and historical metrics
-          const currentMetrics = await this.gatherCurrentMetrics(team.id);
-          const historicalMetrics = await this.getHistoricalMetrics(team.id);
+          // Gather current metrics and the baseline from daily snapshots
+          const currentMetrics = await gatherTeamMetrics(this.linearClient, team.id, this.config.lookbackDays);
+          const baseline = await this.getBaseline(team.id);
           
           // Detect anomalies
           const anomalies = await this.detectAnomalies(
             team,
             currentMetrics,
-            historicalMetrics
+            baseline
           );
 
           if (anomalies.length > 0) {
@@ -172,9 +171,6 @@ export class AnomalyDetectionBehavior implements AutonomousBehavior {
             });
           }
           
-          // Update historical data
-          this.updateHistoricalData(team.id, currentMetrics);
-          
         } catch (error) {
           logger.error('Failed to analyze team', {
             teamId: team.id,
@@ -240,140 +236,40 @@ export class AnomalyDetectionBehavior implements AutonomousBehavior {
   }
 
   /**
-   * Gather current metrics for a team
+   * Get the team's baseline from its daily metric snapshots
+   *
+   * @returns The baseline, or null until enough snapshots have been recorded
    */
-  private async gatherCurrentMetrics(teamId: string): Promise<any> {
-    const now = new Date();
-    const lookbackDate = new Date(now.getTime() - this.config.lookbackDays * 24 * 60 * 60 * 1000);
-
-    // Fetch recent issues
-    const recentIssues = await this.linearClient.getIssues({
-      filter: {
-        team: { id: { eq: teamId } },
-        updatedAt: { gte: lookbackDate }
-      }
-    });
-
-    // Calculate current metrics
-    const completedIssues = recentIssues.nodes.filter(
-      (i: any) => i.completedAt && new Date(i.completedAt) >= lookbackDate
-    );
-    
-    const blockedIssues = recentIssues.nodes.filter(
-      (i: any) => i.labels?.nodes.some((l: any) => l.name === 'blocked')
-    );
-    
-    const inProgressIssues = recentIssues.nodes.filter(
-      (i: any) => ['In Progress', 'In Review'].includes(i.state?.name)
-    );
-
-    // Calculate velocity (points per week)
-    const weeksSinceStart = Math.max(1, (now.getTime() - lookbackDate.getTime()) / (1000 * 60 * 60 * 24 * 7));
-    const completedPoints = completedIssues.reduce((sum: number, i: any) => sum + (i.estimate || 0), 0);
-    const velocity = completedPoints / weeksSinceStart;
-
-    // Calculate average cycle time
-    const cycleTimes = completedIssues
-      .filter((i: any) => i.createdAt && i.completedAt)
-      .map((i: any) => (new Date(i.completedAt).getTime() - new Date(i.createdAt).getTime()) / (1000 * 60 * 60 * 24));
-    const avgCycleTime = cycleTimes.length > 0 
-      ? cycleTimes.reduce((a: number, b: number) => a + b, 0) / cycleTimes.length 
-      : 0;
-
-    // Calculate blockage rate
-    const blockageRate = recentIssues.nodes.length > 0
-      ? (blockedIssues.length / recentIssues.nodes.length) * 100
-      : 0;
-
-    // Calculate estimation accuracy
-    const estimatedIssues = completedIssues.filter((i: any) => i.estimate);
-    const estimationVariances = estimatedIssues.map((i: any) => {
-      const actualTime = (new Date(i.completedAt).getTime() - new Date(i.startedAt || i.createdAt).getTime()) / (1000 * 60 * 60 * 24);
-      const estimatedTime = i.estimate * 1; // Assuming 1 point = 1 day
-      return Math.abs(actualTime - estimatedTime) / estimatedTime;
-    });
-    const avgEstimationVariance = estimationVariances.length > 0
-      ? estimationVariances.reduce((a: number, b: number) => a + b, 0) / estimationVariances.length
-      : 0;
-
-    // Get team member workloads
-    const memberWorkloads = await this.calculateMemberWorkloads(inProgressIssues);
-
-    return {
-      velocity,
-      avgCycleTime,
-      blockageRate,
-      wipCount: inProgressIssues.length,
-      completedCount: completedIssues.length,
-      avgEstimationVariance: avgEstimationVariance * 100,
-      memberWorkloads,
-      issues: {
-        completed: completedIssues,
-        blocked: blockedIssues,
-        inProgress: inProgressIssues,
-        all: recentIssues.nodes
-      }
-    };
-  }
-
-  /**
-   * Get historical metrics for comparison
-   */
-  private async getHistoricalMetrics(teamId: string): Promise<HistoricalMetrics> {
-    // Check cache first
-    if (this.historicalData.has(teamId)) {
-      return this.historicalData.get(teamId)!;
+  private async getBaseline(teamId: string): Promise<MetricBaseline | null> {
+    const baseline = await getMetricBaseline(teamId, this.config.baselineDays);
+
+    if (!baseline || baseline.snapshotCount < this.config.minBaselineSnapshots) {
+      logger.info('Not enough metric snapshots for a baseline', {
+        teamId,
+        snapshots: baseline?.snapshotCount || 0,
+        required: this.config.minBaselineSnapshots
+      });
+      return null;
     }
 
-    // Calculate from longer history (90 days)
-    const historicalDate = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-    
-    const historicalIssues = await this.linearClient.getIssues({
-      filter: {
-        team: { id: { eq: teamId } },
-        completedAt: { gte: historicalDate }
-      }
-    });
-
-    const completedPoints = historicalIssues.nodes.reduce(
-      (sum: number, i: any) => sum + (i.estimate || 0), 0
-    );
-    const weeks = 90 / 7;
-    const averageVelocity = completedPoints / weeks;
-
-    // Calculate other historical metrics
-    const cycleTimes = historicalIssues.nodes
-      .filter((i: any) => i.createdAt && i.completedAt)
-      .map((i: any) => (new Date(i.completedAt).getTime() - new Date(i.createdAt).getTime()) / (1000 * 60 * 60 * 24));
-    
-    const averageCycleTime = cycleTimes.length > 0
-      ? cycleTimes.reduce((a: number, b: number) => a + b, 0) / cycleTimes.length
-      : 7; // Default to 7 days
-
-    const metrics: HistoricalMetrics = {
-      averageVelocity,
-      averageCycleTime,
-      averageBlockageRate: 10, // Default 10%
-      averageWIP: 15, // Default team WIP
-      estimationAccuracy: 80 // Default 80% accurate
-    };
-
-    this.historicalData.set(teamId, metrics);
-    return metrics;
+    return baseline;
   }
 
   /**
-   * Detect anomalies by comparing current to historical metrics
+   * Detect anomalies by comparing current metrics to the baseline
+   *
+   * Velocity and cycle time are only compared once a baseline exists.
    */
   private async detectAnomalies(
     team: any,
-    current: any,
-    historical: HistoricalMetrics
+    current: TeamMetrics,
+    historical: MetricBaseline | null
   ): Promise<Anomaly[]> {
     const anomalies: Anomaly[] = [];
 
     // Velocity anomaly
-    if (this.config.anomalyTypes.includes(AnomalyType.VELOCITY_DROP)) {
+    if (historical && historical.averageVelocity > 0 &&
+        this.config.anomalyTypes.includes(AnomalyType.VELOCITY_DROP)) {
       const velocityDrop = ((historical.averageVelocity - current.velocity) / historical.averageVelocity) * 100;
       if (velocityDrop > this.config.thresholds.velocityDeviation) {
         anomalies.push({
@@ -397,7 +293,8 @@ export class AnomalyDetectionBehavior implements AutonomousBehavior {
     }
 
     // Cycle time anomaly
-    if (this.config.anomalyTypes.includes(AnomalyType.CYCLE_TIME_SPIKE)) {
+    if (historical && historical.averageCycleTime > 0 &&
+        this.config.anomalyTypes.includes(AnomalyType.CYCLE_TIME_SPIKE)) {
       const cycleTimeIncrease = ((current.avgCycleTime - historical.averageCycleTime) / historical.averageCycleTime) * 100;
       if (cycleTimeIncrease > this.config.thresholds.cycleTimeIncrease) {
         anomalies.push({
@@ -472,7 +369,7 @@ export class AnomalyDetectionBehavior implements AutonomousBehavior {
 
     // Stale issues
     if (this.config.anomalyTypes.includes(AnomalyType.STALE_ISSUES)) {
-      const staleIssues = this.findStaleIssues(current.issues.all);
+      const staleIssues = current.issues.stale;
       if (staleIssues.length > 0) {
         anomalies.push({
           type: AnomalyType.STALE_ISSUES,
@@ -742,20 +639,6 @@ ${anomaly.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
     return teams.nodes;
   }
 
-  private async calculateMemberWorkloads(issues: any[]): Promise<Map<string, number>> {
-    const workloads = new Map<string, number>();
-    
-    for (const issue of issues) {
-      const assigneeId = issue.assignee?.id;
-      if (assigneeId) {
-        const current = workloads.get(assigneeId) || 0;
-        workloads.set(assigneeId, current + (issue.estimate || 1));
-      }
-    }
-    
-    return workloads;
-  }
-
   private findSlowMovingIssues(issues: any[]): any[] {
     return issues.filter(issue => {
       if (!issue.startedAt) return false;
@@ -765,16 +648,6 @@ ${anomaly.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
     });
   }
 
-  private findStaleIssues(issues: any[]): any[] {
-    const staleDays = 14;
-    return issues.filter(issue => {
-      const lastUpdate = new Date(issue.updatedAt);
-      const daysSinceUpdate = (Date.now() - lastUpdate.getTime()) / (1000 * 60 * 60 * 24);
-      return daysSinceUpdate > staleDays && 
-             !['Done', 'Canceled'].includes(issue.state?.name);
-    });
-  }
-
   private getOldestStaleDays(issues: any[]): number {
     if (issues.length === 0) return 0;
     
@@ -838,18 +711,6 @@ ${anomaly.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
     return 5; // Default team size
   }
 
-  private updateHistoricalData(teamId: string, currentMetrics: any): void {
-    // Update rolling averages
-    const existing = this.historicalData.get(teamId);
-    if (existing) {
-      // Simple exponential moving average
-      const alpha = 0.1; // Smoothing factor
-      existing.averageVelocity = alpha * currentMetrics.velocity + (1 - alpha) * existing.averageVelocity;
-      existing.averageCycleTime = alpha * currentMetrics.avgCycleTime + (1 - alpha) * existing.averageCycleTime;
-      existing.averageBlockageRate = alpha * currentMetrics.blockageRate + (1 - alpha) * existing.averageBlockageRate;
-    }
-  }
-
   private async findOrCreateAnomalyIssue(teamId: string): Promise<any> {
     const title = '🔍 Anomaly Detection Reports';
     
@@ -8,7 +8,8 @@ import {
   AutonomousBehavior,
   BehaviorContext,
   BehaviorResult,
-  BehaviorAction
+  BehaviorAction,
+  BehaviorTriggerType
 } from '../types/autonomous-types';
 import { LinearClientWrapper } from '../../linear/client';
 import { ARTPlanner } from '../../safe/art-planner';
@@ -18,7 +19,7 @@ import * as logger from '../../utils/logger';
 /**
  * Configuration for ART health monitoring
  */
-interface ARTHealthConfig {
+export interface ARTHealthConfig {
   minReadinessScore: number;
   checkFrequencyHours: number;
   monitoredTeams: string[];
@@ -28,7 +29,7 @@ interface ARTHealthConfig {
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: ARTHealthConfig = {
+export const DEFAULT_CONFIG: ARTHealthConfig = {
   minReadinessScore: 0.85,
   checkFrequencyHours: 24, // Daily check
   monitoredTeams: [], // Empty means all teams
@@ -74,6 +75,11 @@ export class ARTHealthMonitoringBehavior implements AutonomousBehavior {
       return false;
     }
 
+    // Always check health when a new cycle starts
+    if (context.triggerType === BehaviorTriggerType.CYCLE_STARTED) {
+      return true;
+    }
+
     // Check if enough time has passed since last check
     const lastCheck = this.lastCheckTimes.get(teamId);
     if (lastCheck) {
@@ -0,0 +1,434 @@
+/**
+ * Definition of Ready Behavior
+ *
+ * Checks whether a story is ready to be worked on when it moves into a
+ * ready state (Todo) or is added to a cycle: acceptance criteria, an
+ * estimate, a parent feature, no unresolved blockers and the required
+ * labels. Gaps are listed in a single checklist comment that is updated in
+ * place on later checks, including when a checked field of a story in a
+ * ready state or cycle is edited. Teams set their own rules through their
+ * behavior configuration (see behavior-config.ts).
+ */
+
+import {
+  AutonomousBehavior,
+  BehaviorContext,
+  BehaviorResult,
+  BehaviorAction
+} from '../types/autonomous-types';
+import { LinearClientWrapper } from '../../linear/client';
+import { extractAcceptanceCriteria } from '../../planning/pattern-recognition';
+import * as logger from '../../utils/logger';
+
+/**
+ * Configuration for the Definition of Ready check
+ */
+export interface DefinitionOfReadyConfig {
+  /** States that mean a story is ready to start; moving into one runs the check */
+  readyStates: string[];
+  /** Whether adding a story to a cycle runs the check */
+  checkOnCycleAdd: boolean;
+  /** Acceptance criteria a story needs; 0 skips the check */
+  minAcceptanceCriteria: number;
+  requireEstimate: boolean;
+  /** Whether a story needs a parent feature */
+  requireParent: boolean;
+  /** Whether a story may not be blocked by open issues */
+  requireNoBlockers: boolean;
+  /** Labels every story needs */
+  requiredLabels: string[];
+  /** Labels of issues that are not stories and are not checked */
+  ignoreLabels: string[];
+}
+
+/**
+ * Default configuration
+ */
+export const DEFAULT_CONFIG: DefinitionOfReadyConfig = {
+  readyStates: ['Todo'],
+  checkOnCycleAdd: true,
+  minAcceptanceCriteria: 1,
+  requireEstimate: true,
+  requireParent: true,
+  requireNoBlockers: true,
+  requiredLabels: [],
+  ignoreLabels: ['epic', 'feature']
+};
+
+/** First line of the checklist comment, used to find it again */
+const CHECKLIST_HEADING = '## Definition of Ready';
+
+/** Issue fields, as named in a webhook's updatedFrom, that the checks read */
+const CHECKED_FIELDS = ['description', 'estimate', 'parentId', 'labelIds'];
+
+/** State types of blockers that no longer block */
+const RESOLVED_STATE_TYPES = ['completed', 'canceled'];
+
+/**
+ * Outcome of one readiness check
+ */
+interface ReadinessCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+/**
+ * Definition of Ready behavior implementation
+ */
+export class DefinitionOfReadyBehavior implements AutonomousBehavior {
+  public readonly id = 'definition_of_ready';
+  public readonly name = 'Definition of Ready';
+  public readonly description = 'Checks stories are ready when they move to Todo or join a cycle';
+  public enabled = true;
+  public readonly priority = 75;
+
+  private config: DefinitionOfReadyConfig;
+
+  constructor(
+    private linearClient: LinearClientWrapper,
+    config: Partial<DefinitionOfReadyConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Check if behavior should trigger
+   */
+  async shouldTrigger(context: BehaviorContext): Promise<boolean> {
+    const issue = context.issue;
+    if (!issue?.id) {
+      return false;
+    }
+
+    const labels = getLabelNames(issue);
+    if (this.config.ignoreLabels.some(label => labels.includes(label.toLowerCase()))) {
+      return false;
+    }
+
+    return this.enteredReadyState(context) || this.addedToCycle(context) || this.refinedWhileReady(context);
+  }
+
+  /**
+   * Execute the behavior
+   */
+  async execute(context: BehaviorContext): Promise<BehaviorResult> {
+    const startTime = Date.now();
+    const actions: BehaviorAction[] = [];
+
+    try {
+      const issue = context.issue!;
+
+      logger.info('Checking Definition of Ready', {
+        issueId: issue.id,
+        issueIdentifier: issue.identifier
+      });
+
+      const checks = await this.runChecks(issue);
+      const gaps = checks.filter(check => !check.passed);
+      const existing = await this.findChecklistComment(issue.id);
+
+      // A ready story only needs a comment if an earlier check listed gaps
+      if (gaps.length === 0 && !existing) {
+        return {
+          success: true,
+          actions,
+          executionTime: Date.now() - startTime,
+          shouldNotify: false
+        };
+      }
+
+      const body = this.formatChecklist(checks);
+      const data = { gaps: gaps.map(gap => gap.name) };
+
+      if (existing?.body === body) {
+        actions.push({
+          type: 'comment',
+          target: issue.id,
+          description: 'Definition of Ready checklist unchanged',
+          result: 'skipped',
+          data
+        });
+      } else if (existing) {
+        await this.linearClient.updateComment(existing.id, body);
+        actions.push({
+          type: 'comment',
+          target: issue.id,
+          description: 'Updated Definition of Ready checklist',
+          result: 'success',
+          data
+        });
+      } else {
+        await this.linearClient.createComment(issue.id, body);
+        actions.push({
+          type: 'comment',
+          target: issue.id,
+          description: 'Posted Definition of Ready checklist',
+          result: 'success',
+          data
+        });
+      }
+
+      logger.info('Definition of Ready checked', {
+        issueId: issue.id,
+        gaps: data.gaps
+      });
+
+      return {
+        success: true,
+        actions,
+        executionTime: Date.now() - startTime,
+        shouldNotify: false
+      };
+
+    } catch (error) {
+      logger.error('Definition of Ready behavior failed', {
+        issueId: context.issue?.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        actions,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        executionTime: Date.now() - startTime,
+        shouldNotify: false
+      };
+    }
+  }
+
+  /**
+   * Validate behavior can execute
+   */
+  async validate(): Promise<boolean> {
+    try {
+      await this.linearClient.getViewer();
+      return true;
+    } catch (error) {
+      logger.error('Definition of Ready validation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Check if the issue was created in or moved into a ready state
+   */
+  private enteredReadyState(context: BehaviorContext): boolean {
+    const state = context.issue.state?.name?.toLowerCase();
+    if (!state || !this.config.readyStates.some(ready => ready.toLowerCase() === state)) {
+      return false;
+    }
+
+    const updatedFrom = context.metadata?.updatedFrom;
+    if (context.metadata?.webhookAction === 'create' || (updatedFrom && 'stateId' in updatedFrom)) {
+      return true;
+    }
+    return !!context.previousState && context.previousState.state?.name?.toLowerCase() !== state;
+  }
+
+  /**
+   * Check if the issue was created in or added to a cycle
+   */
+  private addedToCycle(context: BehaviorContext): boolean {
+    const cycleId = context.issue.cycle?.id || context.issue.cycleId;
+    if (!this.config.checkOnCycleAdd || !cycleId) {
+      return false;
+    }
+
+    const updatedFrom = context.metadata?.updatedFrom;
+    if (context.metadata?.webhookAction === 'create') {
+      return true;
+    }
+    if (updatedFrom && 'cycleId' in updatedFrom) {
+      return updatedFrom.cycleId !== cycleId;
+    }
+    if (context.previousState && 'cycle' in context.previousState) {
+      return context.previousState.cycle?.id !== cycleId;
+    }
+    return false;
+  }
+
+  /**
+   * Check if a story in a ready state or a cycle had a checked field edited,
+   * so an earlier checklist is brought up to date
+   */
+  private refinedWhileReady(context: BehaviorContext): boolean {
+    const updatedFrom = context.metadata?.updatedFrom;
+    if (!updatedFrom || !CHECKED_FIELDS.some(field => field in updatedFrom)) {
+      return false;
+    }
+
+    const state = context.issue.state?.name?.toLowerCase();
+    const inReadyState = this.config.readyStates.some(ready => ready.toLowerCase() === state);
+    const inCycle = this.config.checkOnCycleAdd && !!(context.issue.cycle?.id || context.issue.cycleId);
+    return inReadyState || inCycle;
+  }
+
+  /**
+   * Run the configured readiness checks
+   */
+  private async runChecks(issue: any): Promise<ReadinessCheck[]> {
+    const checks: ReadinessCheck[] = [];
+
+    if (this.config.minAcceptanceCriteria > 0) {
+      const criteria = extractAcceptanceCriteria({
+        title: issue.title || '',
+        level: 0,
+        // Criteria are read from lines, so the description starts on a new one
+        content: [{ type: 'text', content: `\n${issue.description || ''}` }],
+        subsections: []
+      });
+      checks.push({
+        name: 'Acceptance criteria',
+        passed: criteria.length >= this.config.minAcceptanceCriteria,
+        detail: criteria.length >= this.config.minAcceptanceCriteria
+          ? `${criteria.length} found`
+          : `${criteria.length} found, at least ${this.config.minAcceptanceCriteria} needed`
+      });
+    }
+
+    if (this.config.requireEstimate) {
+      const estimated = issue.estimate !== null && issue.estimate !== undefined;
+      checks.push({
+        name: 'Estimate',
+        passed: estimated,
+        detail: estimated ? `${issue.estimate} points` : 'not estimated'
+      });
+    }
+
+    if (this.config.requireParent) {
+      const parent = issue.parent?.identifier || issue.parent?.id || issue.parentId;
+      checks.push({
+        name: 'Parent feature',
+        passed: !!parent,
+        detail: parent || 'no parent'
+      });
+    }
+
+    if (this.config.requireNoBlockers) {
+      const blockers = await this.findUnresolvedBlockers(issue.id);
+      checks.push({
+        name: 'No unresolved blockers',
+        passed: blockers.length === 0,
+        detail: blockers.length > 0
+          ? `blocked by ${blockers.map(blocker => blocker.identifier || blocker.id).join(', ')}`
+          : undefined
+      });
+    }
+
+    if (this.config.requiredLabels.length > 0) {
+      const labels = getLabelNames(issue);
+      const missing = this.config.requiredLabels.filter(label => !labels.includes(label.toLowerCase()));
+      checks.push({
+        name: 'Required labels',
+        passed: missing.length === 0,
+        detail: missing.length > 0 ? `missing ${missing.join(', ')}` : this.config.requiredLabels.join(', ')
+      });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Find open issues that block an issue
+   *
+   * Blockers are the issue's inverse relations of type "blocks". The SDK
+   * resolves a relation's issue and that issue's state lazily, so both are
+   * awaited before the state is checked. Every page of relations is read.
+   */
+  private async findUnresolvedBlockers(issueId: string): Promise<any[]> {
+    const issue = await this.linearClient.getIssue(issueId);
+    const blockers: any[] = [];
+    let after: string | undefined;
+
+    do {
+      const relations = await issue.inverseRelations({ after });
+      for (const relation of relations.nodes) {
+        if (relation.type !== 'blocks') {
+          continue;
+        }
+
+        const blocker = await relation.issue;
+        const state = await blocker?.state;
+        if (blocker && !isResolved({ state })) {
+          blockers.push(blocker);
+        }
+      }
+      after = relations.pageInfo?.hasNextPage ? relations.pageInfo.endCursor : undefined;
+    } while (after);
+
+    return blockers;
+  }
+
+  /**
+   * Find the checklist comment posted by an earlier check
+   *
+   * Only the agent's own comments are considered, so a user quoting the
+   * heading is never overwritten. Every page of comments is searched.
+   */
+  private async findChecklistComment(issueId: string): Promise<any | undefined> {
+    const viewer = await this.linearClient.getViewer();
+    let after: string | undefined;
+
+    do {
+      const comments = await this.linearClient.getComments(issueId, after);
+      const checklist = comments.nodes.find((comment: any) =>
+        getCommentAuthorId(comment) === viewer.id && comment.body?.startsWith(CHECKLIST_HEADING)
+      );
+      if (checklist) {
+        return checklist;
+      }
+
+      after = comments.pageInfo?.hasNextPage ? comments.pageInfo.endCursor : undefined;
+    } while (after);
+
+    return undefined;
+  }
+
+  /**
+   * Format the checklist comment
+   */
+  private formatChecklist(checks: ReadinessCheck[]): string {
+    const gaps = checks.filter(check => !check.passed).length;
+    const summary = gaps === 0
+      ? '✅ This story meets the Definition of Ready.'
+      : `⚠️ This story is not ready yet: ${gaps} of ${checks.length} checks failed.`;
+    const items = checks.map(check =>
+      `- [${check.passed ? 'x' : ' '}] ${check.name}${check.detail ? ` (${check.detail})` : ''}`
+    );
+
+    return [
+      CHECKLIST_HEADING,
+      '',
+      summary,
+      '',
+      ...items,
+      '',
+      '_This checklist is updated when the story moves to a ready state or joins a cycle._'
+    ].join('\n');
+  }
+}
+
+/**
+ * Lowercase label names of an issue from the API (labels.nodes) or a webhook (labels)
+ */
+function getLabelNames(issue: any): string[] {
+  const labels = Array.isArray(issue.labels) ? issue.labels : issue.labels?.nodes || [];
+  return labels.map((label: any) => String(label.name).toLowerCase());
+}
+
+/**
+ * Author ID of a comment from a webhook or test (user) or the SDK (_user, as user is fetched lazily)
+ */
+function getCommentAuthorId(comment: any): string | undefined {
+  return comment.user?.id || comment._user?.id;
+}
+
+function isResolved(issue: any): boolean {
+  if (issue.state?.type) {
+    return RESOLVED_STATE_TYPES.includes(issue.state.type);
+  }
+  return ['done', 'canceled', 'cancelled'].includes(issue.state?.name?.toLowerCase());
+}
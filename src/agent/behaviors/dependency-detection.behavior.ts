@@ -17,7 +17,7 @@ import * as logger from '../../utils/logger';
 /**
  * Configuration for dependency detection
  */
-interface DependencyDetectionConfig {
+export interface DependencyDetectionConfig {
   keywordSimilarityThreshold: number;
   titleSimilarityThreshold: number;
   scanRelatedIssues: boolean;
@@ -29,7 +29,7 @@ interface DependencyDetectionConfig {
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: DependencyDetectionConfig = {
+export const DEFAULT_CONFIG: DependencyDetectionConfig = {
   keywordSimilarityThreshold: 0.6,
   titleSimilarityThreshold: 0.7,
   scanRelatedIssues: true,
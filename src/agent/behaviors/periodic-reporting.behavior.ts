@@ -9,17 +9,21 @@ import {
   AutonomousBehavior,
   BehaviorContext,
   BehaviorResult,
-  BehaviorAction
+  BehaviorAction,
+  BehaviorTriggerType
 } from '../types/autonomous-types';
 import { LinearClientWrapper } from '../../linear/client';
+import { CronExpression } from '../monitoring/cron-expression';
 import * as logger from '../../utils/logger';
 
 /**
  * Configuration for periodic reporting
  */
-interface PeriodicReportingConfig {
+export interface PeriodicReportingConfig {
   reportTypes: ReportType[];
   schedules: Record<ReportType, string>; // Cron expressions
+  /** IANA time zone of the schedules; defaults to BEHAVIOR_SCHEDULE_TIMEZONE, then the server's */
+  timeZone?: string;
   teamIds: string[]; // Empty means all teams
   reportingChannel: 'linear' | 'slack' | 'email';
   includeMetrics: boolean;
@@ -29,7 +33,7 @@ interface PeriodicReportingConfig {
 /**
  * Report types
  */
-enum ReportType {
+export enum ReportType {
   WEEKLY_SUMMARY = 'weekly_summary',
   SPRINT_REVIEW = 'sprint_review',
   VELOCITY_REPORT = 'velocity_report',
@@ -68,7 +72,7 @@ interface ReportData {
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: PeriodicReportingConfig = {
+export const DEFAULT_CONFIG: PeriodicReportingConfig = {
   reportTypes: [
     ReportType.WEEKLY_SUMMARY,
     ReportType.VELOCITY_REPORT
@@ -110,6 +114,12 @@ export class PeriodicReportingBehavior implements AutonomousBehavior {
    * Check if behavior should trigger
    */
   async shouldTrigger(context: BehaviorContext): Promise<boolean> {
+    // Summarize a cycle when it completes
+    if (context.triggerType === BehaviorTriggerType.CYCLE_COMPLETED) {
+      const teamId = context.team?.id;
+      return !!teamId && (this.config.teamIds.length === 0 || this.config.teamIds.includes(teamId));
+    }
+
     // This behavior is primarily schedule-driven
     if (context.triggerType !== 'schedule') {
       return false;
@@ -134,6 +144,10 @@ export class PeriodicReportingBehavior implements AutonomousBehavior {
     const actions: BehaviorAction[] = [];
 
     try {
+      if (context.triggerType === BehaviorTriggerType.CYCLE_COMPLETED) {
+        return await this.executeCycleSummary(context, startTime);
+      }
+
       logger.info('Executing periodic reporting');
 
       // Generate reports for each configured type
@@ -143,7 +157,7 @@ export class PeriodicReportingBehavior implements AutonomousBehavior {
       );
 
       for (const reportType of reportsToGenerate) {
-        const teams = await this.getTargetTeams();
+        const teams = await this.getTargetTeams(context);
         
         for (const team of teams) {
           try {
@@ -211,6 +225,43 @@ export class PeriodicReportingBehavior implements AutonomousBehavior {
     }
   }
 
+  /**
+   * Post a sprint review for a cycle that just completed
+   */
+  private async executeCycleSummary(context: BehaviorContext, startTime: number): Promise<BehaviorResult> {
+    const cycle = context.metadata?.cycle || {};
+    // Webhook payloads may only carry the team ID
+    const team = context.team!.name ? context.team! : await this.linearClient.getTeam(context.team!.id);
+
+    logger.info('Generating cycle completion summary', {
+      teamId: team.id,
+      cycleId: cycle.id
+    });
+
+    const period = {
+      start: cycle.startsAt ? new Date(cycle.startsAt) : this.getReportPeriod(ReportType.SPRINT_REVIEW).start,
+      end: cycle.completedAt ? new Date(cycle.completedAt) : new Date()
+    };
+
+    const reportData = await this.gatherReportData(ReportType.SPRINT_REVIEW, team, period);
+    const action = await this.postReport(this.generateReport(reportData), reportData);
+    const success = action.result === 'success';
+
+    return {
+      success,
+      actions: [action],
+      executionTime: Date.now() - startTime,
+      shouldNotify: success,
+      notification: success ? {
+        channels: ['linear'],
+        recipients: [],
+        title: cycle.number ? `📊 Cycle ${cycle.number} Summary Posted` : '📊 Cycle Summary Posted',
+        message: `Sprint review generated for ${team.name || team.id}`,
+        priority: 'low'
+      } : undefined
+    };
+  }
+
   /**
    * Validate behavior can execute
    */
@@ -228,6 +279,9 @@ export class PeriodicReportingBehavior implements AutonomousBehavior {
 
   /**
    * Check if should generate specific report type
+   *
+   * A report is due once its cron schedule has come round since it was last
+   * generated; report types without a schedule use a fixed frequency.
    */
   private shouldGenerateReport(reportType: ReportType, now: Date): boolean {
     const lastReportKey = `${reportType}:all`;
@@ -237,6 +291,23 @@ export class PeriodicReportingBehavior implements AutonomousBehavior {
       return true; // Never generated
     }
 
+    const schedule = this.config.schedules[reportType];
+    if (schedule) {
+      try {
+        const nextReport = new CronExpression(
+          schedule,
+          this.config.timeZone || process.env.BEHAVIOR_SCHEDULE_TIMEZONE || undefined
+        ).next(lastReport);
+        return !!nextReport && nextReport.getTime() <= now.getTime();
+      } catch (error) {
+        logger.warn('Invalid report schedule, using the default frequency', {
+          reportType,
+          schedule,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
     // Check based on report type frequency
     const hoursSinceLastReport = (now.getTime() - lastReport.getTime()) / (1000 * 60 * 60);
     
@@ -257,9 +328,22 @@ export class PeriodicReportingBehavior implements AutonomousBehavior {
   }
 
   /**
-   * Get teams to generate reports for
+   * Get teams to generate reports for: the trigger's team, or else the
+   * configured teams other than those excluded from the run
+   */
+  private async getTargetTeams(context: BehaviorContext): Promise<any[]> {
+    if (context.team) {
+      return [context.team];
+    }
+
+    const excluded = context.excludedTeamIds || [];
+    return (await this.getConfiguredTeams()).filter(team => !excluded.includes(team.id));
+  }
+
+  /**
+   * Get the configured teams, or every team if none are configured
    */
-  private async getTargetTeams(): Promise<any[]> {
+  private async getConfiguredTeams(): Promise<any[]> {
     if (this.config.teamIds.length > 0) {
       // Get specific teams
       const teams = [];
@@ -282,8 +366,11 @@ export class PeriodicReportingBehavior implements AutonomousBehavior {
   /**
    * Gather data for report
    */
-  private async gatherReportData(reportType: ReportType, team: any): Promise<ReportData> {
-    const period = this.getReportPeriod(reportType);
+  private async gatherReportData(
+    reportType: ReportType,
+    team: any,
+    period: { start: Date; end: Date } = this.getReportPeriod(reportType)
+  ): Promise<ReportData> {
     
     // Fetch issues for the period
     const completedIssues = await this.linearClient.getIssues({
@@ -16,7 +16,7 @@ import * as logger from '../../utils/logger';
 /**
  * Configuration for story monitoring
  */
-interface StoryMonitoringConfig {
+export interface StoryMonitoringConfig {
   maxStoryPoints: number;
   ignoreLabels: string[];
   monitorStates: string[];
@@ -25,7 +25,7 @@ interface StoryMonitoringConfig {
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: StoryMonitoringConfig = {
+export const DEFAULT_CONFIG: StoryMonitoringConfig = {
   maxStoryPoints: 5,
   ignoreLabels: ['decomposed', 'epic', 'feature'],
   monitorStates: ['backlog', 'unstarted', 'started']
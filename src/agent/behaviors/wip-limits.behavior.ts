@@ -0,0 +1,487 @@
+/**
+ * WIP Limits Behavior
+ *
+ * Counts a team's issues in each limited workflow state, in total and per
+ * assignee, whenever an issue webhook can change the counts (an issue is
+ * created, removed, moved or reassigned). An issue that takes a state or an
+ * assignee over its limit gets a warning comment or, if the team chooses,
+ * is moved back to the state it came from. Scheduled runs post a WIP
+ * summary for each team. Every count is kept in wip_history for flow
+ * analytics (see /api/team-metrics/:teamId/wip).
+ */
+
+import {
+  AutonomousBehavior,
+  BehaviorContext,
+  BehaviorResult,
+  BehaviorAction
+} from '../types/autonomous-types';
+import { LinearClientWrapper } from '../../linear/client';
+import { WipHistoryDB, saveWipCount } from '../../db/models';
+import * as logger from '../../utils/logger';
+
+/**
+ * Configuration for WIP limits
+ */
+export interface WipLimitsConfig {
+  /** Most issues a team may have in a workflow state, by state name; 0 removes a limit */
+  stateLimits: Record<string, number>;
+  /** Most issues one assignee may have in a workflow state, by state name; 0 removes a limit */
+  assigneeLimits: Record<string, number>;
+  /** Whether an issue that goes over a limit gets a warning or is moved back to its previous state */
+  enforcement: 'warn' | 'move_back';
+  /** Whether scheduled runs post a WIP summary */
+  dailySummary: boolean;
+}
+
+/**
+ * Default configuration
+ */
+export const DEFAULT_CONFIG: WipLimitsConfig = {
+  stateLimits: {
+    'In Progress': 10,
+    'In Review': 5
+  },
+  assigneeLimits: {},
+  enforcement: 'warn',
+  dailySummary: true
+};
+
+/** Title of the issue each team's summaries are posted on */
+const SUMMARY_ISSUE_TITLE = '📊 Daily WIP Summary';
+
+/** Issues read per page when counting a team's WIP */
+const ISSUES_PAGE_SIZE = 250;
+
+/**
+ * A team's issues in one workflow state
+ */
+interface StateWip {
+  state: string;
+  count: number;
+  limit?: number;
+  assigneeLimit?: number;
+  /** Name and issue count by assignee ID */
+  assignees: Map<string, { name: string; count: number }>;
+}
+
+/**
+ * WIP limits behavior implementation
+ */
+export class WipLimitsBehavior implements AutonomousBehavior {
+  public readonly id = 'wip_limits';
+  public readonly name = 'WIP Limits';
+  public readonly description = 'Enforces work in progress limits per workflow state and assignee';
+  public enabled = true;
+  public readonly priority = 70;
+
+  private config: WipLimitsConfig;
+  /** Whether the limits were configured rather than left at their defaults */
+  private limitsConfigured: boolean;
+
+  constructor(
+    private linearClient: LinearClientWrapper,
+    config: Partial<WipLimitsConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.limitsConfigured = config.stateLimits !== undefined || config.assigneeLimits !== undefined;
+  }
+
+  /**
+   * Check if behavior should trigger
+   */
+  async shouldTrigger(context: BehaviorContext): Promise<boolean> {
+    if (this.getLimitedStates().length === 0) {
+      return false;
+    }
+
+    // A team-less run summarizes every team without its own configuration,
+    // so it needs limits configured for all of them
+    if (context.triggerType === 'schedule') {
+      return this.config.dailySummary && (!!context.team || this.limitsConfigured);
+    }
+
+    if (!context.issue?.id || !getTeamId(context)) {
+      return false;
+    }
+
+    const action = context.metadata?.webhookAction;
+    return action === 'create' || action === 'remove' || this.enteredState(context) || this.reassigned(context);
+  }
+
+  /**
+   * Execute the behavior
+   */
+  async execute(context: BehaviorContext): Promise<BehaviorResult> {
+    const startTime = Date.now();
+    const actions: BehaviorAction[] = [];
+
+    try {
+      if (context.triggerType === 'schedule') {
+        return await this.executeSummary(context, startTime);
+      }
+
+      const issue = context.issue!;
+      const teamId = getTeamId(context)!;
+
+      logger.info('Checking WIP limits', {
+        issueId: issue.id,
+        teamId
+      });
+
+      const counts = await this.countWip(teamId);
+      if (!context.simulated) {
+        await this.recordCounts(teamId, counts, 'webhook', issue.id);
+      }
+
+      const violations = this.findViolations(context, counts);
+      if (violations.length > 0) {
+        actions.push(await this.enforce(context, violations));
+
+        logger.info('WIP limit exceeded', {
+          issueId: issue.id,
+          teamId,
+          violations
+        });
+      }
+
+      return {
+        success: true,
+        actions,
+        executionTime: Date.now() - startTime,
+        shouldNotify: false
+      };
+
+    } catch (error) {
+      logger.error('WIP limits behavior failed', {
+        issueId: context.issue?.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        actions,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        executionTime: Date.now() - startTime,
+        shouldNotify: false
+      };
+    }
+  }
+
+  /**
+   * Validate behavior can execute
+   */
+  async validate(): Promise<boolean> {
+    try {
+      await this.linearClient.getViewer();
+      return true;
+    } catch (error) {
+      logger.error('WIP limits validation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Record and post the WIP summary of each team
+   */
+  private async executeSummary(context: BehaviorContext, startTime: number): Promise<BehaviorResult> {
+    const actions: BehaviorAction[] = [];
+
+    // Skip teams summarized with their own configuration
+    const teams = context.team
+      ? [context.team]
+      : (await this.linearClient.getTeams()).nodes.filter(
+        (team: any) => !context.excludedTeamIds?.includes(team.id)
+      );
+
+    for (const team of teams) {
+      try {
+        const counts = await this.countWip(team.id);
+        if (!context.simulated) {
+          await this.recordCounts(team.id, counts, 'daily');
+        }
+
+        const summaryIssue = await this.findOrCreateSummaryIssue(team.id);
+        await this.linearClient.createComment(summaryIssue.id, this.formatSummary(team, counts));
+
+        actions.push({
+          type: 'report',
+          target: summaryIssue.id,
+          description: 'Posted WIP summary',
+          result: 'success',
+          data: {
+            teamId: team.id,
+            counts: Object.fromEntries(Array.from(counts.values()).map(wip => [wip.state, wip.count]))
+          }
+        });
+      } catch (error) {
+        logger.error('Failed to post WIP summary for team', {
+          teamId: team.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+
+        actions.push({
+          type: 'report',
+          target: team.id,
+          description: 'Failed to post WIP summary',
+          result: 'failed',
+          data: { error: error instanceof Error ? error.message : 'Unknown error' }
+        });
+      }
+    }
+
+    return {
+      success: true,
+      actions,
+      executionTime: Date.now() - startTime,
+      shouldNotify: false
+    };
+  }
+
+  /**
+   * Check if the issue moved into its current state
+   */
+  private enteredState(context: BehaviorContext): boolean {
+    const updatedFrom = context.metadata?.updatedFrom;
+    if (updatedFrom) {
+      return 'stateId' in updatedFrom;
+    }
+    return !!context.previousState && context.previousState.state?.name !== context.issue.state?.name;
+  }
+
+  /**
+   * Check if the issue changed assignee
+   */
+  private reassigned(context: BehaviorContext): boolean {
+    const updatedFrom = context.metadata?.updatedFrom;
+    if (updatedFrom) {
+      return 'assigneeId' in updatedFrom;
+    }
+    return !!context.previousState && 'assignee' in context.previousState &&
+      context.previousState.assignee?.id !== context.issue.assignee?.id;
+  }
+
+  /**
+   * States with a team or an assignee limit
+   */
+  private getLimitedStates(): string[] {
+    const states = [
+      ...Object.keys(this.config.stateLimits).filter(state => this.config.stateLimits[state] > 0),
+      ...Object.keys(this.config.assigneeLimits).filter(state => this.config.assigneeLimits[state] > 0)
+    ];
+    return Array.from(new Set(states));
+  }
+
+  /**
+   * Count a team's issues in each limited state, in total and by assignee
+   *
+   * Every page of issues is read.
+   */
+  private async countWip(teamId: string): Promise<Map<string, StateWip>> {
+    const states = this.getLimitedStates();
+    const counts = new Map<string, StateWip>(states.map(state => [state, {
+      state,
+      count: 0,
+      limit: this.config.stateLimits[state] > 0 ? this.config.stateLimits[state] : undefined,
+      assigneeLimit: this.config.assigneeLimits[state] > 0 ? this.config.assigneeLimits[state] : undefined,
+      assignees: new Map()
+    }]));
+
+    let after: string | undefined;
+    do {
+      const issues = await this.linearClient.getIssues({
+        first: ISSUES_PAGE_SIZE,
+        after,
+        filter: {
+          team: { id: { eq: teamId } },
+          state: { name: { in: states } }
+        }
+      });
+
+      for (const issue of issues.nodes) {
+        const wip = counts.get(issue.state?.name);
+        if (!wip) {
+          continue;
+        }
+
+        wip.count++;
+        const assigneeId = issue.assignee?.id;
+        if (assigneeId) {
+          const assignee = wip.assignees.get(assigneeId) || { name: issue.assignee.name || assigneeId, count: 0 };
+          assignee.count++;
+          wip.assignees.set(assigneeId, assignee);
+        }
+      }
+      after = issues.pageInfo?.hasNextPage ? issues.pageInfo.endCursor : undefined;
+    } while (after);
+
+    return counts;
+  }
+
+  /**
+   * Keep the counts in the WIP history
+   *
+   * A failure is logged rather than stopping the limits from being enforced.
+   */
+  private async recordCounts(
+    teamId: string,
+    counts: Map<string, StateWip>,
+    source: WipHistoryDB['source'],
+    issueId?: string
+  ): Promise<void> {
+    try {
+      for (const wip of counts.values()) {
+        await saveWipCount({
+          team_id: teamId,
+          state_name: wip.state,
+          issue_count: wip.count,
+          wip_limit: wip.limit ?? null,
+          assignee_counts: Object.fromEntries(
+            Array.from(wip.assignees.entries()).map(([id, assignee]) => [id, assignee.count])
+          ),
+          source,
+          issue_id: issueId
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to record WIP history', {
+        teamId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Find the limits the issue went over by entering its state or being reassigned
+   */
+  private findViolations(context: BehaviorContext, counts: Map<string, StateWip>): string[] {
+    const issue = context.issue;
+    const wip = counts.get(issue.state?.name);
+    const action = context.metadata?.webhookAction;
+    if (!wip || action === 'remove') {
+      return [];
+    }
+
+    const entered = action === 'create' || this.enteredState(context);
+    const reassigned = this.reassigned(context);
+    const violations: string[] = [];
+
+    if (entered && wip.limit && wip.count > wip.limit) {
+      violations.push(`${wip.state} has ${wip.count} issues for a limit of ${wip.limit}`);
+    }
+
+    const assignee = wip.assignees.get(issue.assignee?.id || issue.assigneeId);
+    if ((entered || reassigned) && assignee && wip.assigneeLimit && assignee.count > wip.assigneeLimit) {
+      violations.push(`${assignee.name} has ${assignee.count} issues in ${wip.state} for a limit of ${wip.assigneeLimit}`);
+    }
+
+    return violations;
+  }
+
+  /**
+   * Warn on the issue, or move it back to its previous state if the team
+   * chose to and it got here by changing state
+   */
+  private async enforce(context: BehaviorContext, violations: string[]): Promise<BehaviorAction> {
+    const issue = context.issue;
+    const previousStateId = context.metadata?.updatedFrom?.stateId;
+
+    if (this.config.enforcement === 'move_back' && previousStateId) {
+      await this.linearClient.updateIssue({ id: issue.id, stateId: previousStateId });
+      await this.linearClient.createComment(issue.id, this.formatWarning(violations, true));
+
+      return {
+        type: 'status_change',
+        target: issue.id,
+        description: 'Moved issue back to its previous state: WIP limit exceeded',
+        result: 'success',
+        data: { violations, stateId: previousStateId }
+      };
+    }
+
+    await this.linearClient.createComment(issue.id, this.formatWarning(violations, false));
+
+    return {
+      type: 'comment',
+      target: issue.id,
+      description: 'Warned that a WIP limit was exceeded',
+      result: 'success',
+      data: { violations }
+    };
+  }
+
+  /**
+   * Find or create the issue a team's WIP summaries are posted on
+   */
+  private async findOrCreateSummaryIssue(teamId: string): Promise<any> {
+    const issues = await this.linearClient.getIssues({
+      filter: {
+        team: { id: { eq: teamId } },
+        title: { eq: SUMMARY_ISSUE_TITLE }
+      }
+    });
+
+    if (issues.nodes.length > 0) {
+      return issues.nodes[0];
+    }
+
+    return await this.linearClient.createIssue({
+      teamId,
+      title: SUMMARY_ISSUE_TITLE,
+      description: 'Automated daily summaries of work in progress against WIP limits'
+    });
+  }
+
+  private formatWarning(violations: string[], movedBack: boolean): string {
+    return [
+      '⚠️ **WIP limit exceeded**',
+      '',
+      ...violations.map(violation => `- ${violation}`),
+      '',
+      movedBack
+        ? 'This issue was moved back to its previous state. Finish or hand off work in progress before starting more.'
+        : 'Consider finishing work in progress before starting more.'
+    ].join('\n');
+  }
+
+  private formatSummary(team: any, counts: Map<string, StateWip>): string {
+    const rows: string[] = [];
+    const overLimit: string[] = [];
+
+    for (const wip of counts.values()) {
+      const over = !!wip.limit && wip.count > wip.limit;
+      rows.push(`| ${wip.state} | ${wip.count} | ${wip.limit ?? '—'}${over ? ' ⚠️' : ''} |`);
+
+      for (const assignee of wip.assignees.values()) {
+        if (wip.assigneeLimit && assignee.count > wip.assigneeLimit) {
+          overLimit.push(`- ${assignee.name}: ${assignee.count} in ${wip.state} (limit ${wip.assigneeLimit})`);
+        }
+      }
+    }
+
+    const lines = [
+      `## Daily WIP Summary: ${team.name || team.id}`,
+      '',
+      '| State | Issues | Limit |',
+      '| --- | --- | --- |',
+      ...rows
+    ];
+
+    if (overLimit.length > 0) {
+      lines.push('', '**Assignees over their limit:**', ...overLimit);
+    } else if (Array.from(counts.values()).some(wip => wip.assigneeLimit)) {
+      lines.push('', 'Every assignee is within their WIP limit.');
+    }
+
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Team of the issue a webhook is about
+ */
+function getTeamId(context: BehaviorContext): string | undefined {
+  return context.team?.id || context.issue?.team?.id || context.issue?.teamId;
+}
@@ -2,7 +2,8 @@
  * Workflow Automation Behavior (LIN-59)
  * 
  * Automates common workflow tasks like status updates, label management,
- * and team handoffs based on issue state changes.
+ * and team handoffs based on issue state changes. Label, assignment and
+ * priority automation comes from declarative rules (see workflow-rules.ts).
  */
 
 import {
@@ -12,41 +13,34 @@ import {
   BehaviorAction
 } from '../types/autonomous-types';
 import { LinearClientWrapper } from '../../linear/client';
+import {
+  WorkflowAction,
+  WorkflowEvent,
+  WorkflowRule,
+  WorkflowRuleStore,
+  getIssueLabels,
+  matchesWorkflowRule
+} from '../workflow-rules';
 import * as logger from '../../utils/logger';
 
 /**
  * Configuration for workflow automation
  */
-interface WorkflowAutomationConfig {
+export interface WorkflowAutomationConfig {
   autoAssignOnMove: boolean;
   autoLabelOnState: boolean;
   autoNotifyOnBlocked: boolean;
   autoMoveSubtasks: boolean;
+  /** Built-in rules by the state they react to; replaced by the rules file when one is set */
   stateTransitions: Record<string, WorkflowRule[]>;
-}
-
-/**
- * Workflow rule definition
- */
-interface WorkflowRule {
-  trigger: 'state_change' | 'label_added' | 'assignee_changed' | 'priority_changed';
-  condition?: (issue: any) => boolean;
-  actions: WorkflowAction[];
-}
-
-/**
- * Workflow action definition
- */
-interface WorkflowAction {
-  type: 'add_label' | 'remove_label' | 'assign' | 'move_state' | 'notify' | 'update_priority';
-  value?: string;
-  target?: string;
+  /** YAML or JSON rules file; defaults to WORKFLOW_RULES_FILE */
+  rulesFile?: string;
 }
 
 /**
  * Default configuration with SAFe-aligned workflows
  */
-const DEFAULT_CONFIG: WorkflowAutomationConfig = {
+export const DEFAULT_CONFIG: WorkflowAutomationConfig = {
   autoAssignOnMove: true,
   autoLabelOnState: true,
   autoNotifyOnBlocked: true,
@@ -84,6 +78,11 @@ const DEFAULT_CONFIG: WorkflowAutomationConfig = {
   }
 };
 
+/**
+ * Issue fields, as named in a webhook's updatedFrom, whose changes workflow rules react to
+ */
+const WATCHED_FIELDS = ['stateId', 'labelIds', 'assigneeId', 'priority'];
+
 /**
  * Workflow automation behavior implementation
  */
@@ -95,20 +94,32 @@ export class WorkflowAutomationBehavior implements AutonomousBehavior {
   public readonly priority = 60;
 
   private config: WorkflowAutomationConfig;
+  private ruleStore?: WorkflowRuleStore;
 
   constructor(
     private linearClient: LinearClientWrapper,
     config: Partial<WorkflowAutomationConfig> = {}
   ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.createRuleStore();
   }
 
   /**
    * Check if behavior should trigger
    */
   async shouldTrigger(context: BehaviorContext): Promise<boolean> {
+    if (!context.issue) {
+      return false;
+    }
+
+    // Webhook updates list the previous values of the fields they changed
+    const updatedFrom = context.metadata?.updatedFrom;
+    if (updatedFrom) {
+      return WATCHED_FIELDS.some(field => field in updatedFrom);
+    }
+
     // Only trigger on issue updates with state changes
-    if (!context.issue || !context.previousState) {
+    if (!context.previousState) {
       return false;
     }
 
@@ -140,10 +151,11 @@ export class WorkflowAutomationBehavior implements AutonomousBehavior {
         previousState: context.previousState?.state?.name
       });
 
-      // Handle state change workflows
-      if (context.issue.state?.name !== context.previousState?.state?.name) {
-        const stateActions = await this.handleStateChange(context);
-        actions.push(...stateActions);
+      // Apply workflow rules to the changes
+      const events = this.getWorkflowEvents(context);
+      if (events.length > 0) {
+        const ruleActions = await this.applyWorkflowRules(context, events);
+        actions.push(...ruleActions);
       }
 
       // Handle blocked state
@@ -205,46 +217,115 @@ export class WorkflowAutomationBehavior implements AutonomousBehavior {
   }
 
   /**
-   * Handle state change workflows
+   * Detect the issue changes workflow rules react to
+   *
+   * Webhook updates are read from the fields their `updatedFrom` lists.
+   * Otherwise the issue is compared with its previous state, where labels,
+   * assignee and priority are only compared when the previous state
+   * includes them.
    */
-  private async handleStateChange(context: BehaviorContext): Promise<BehaviorAction[]> {
-    const actions: BehaviorAction[] = [];
-    const currentState = context.issue?.state?.name;
+  private getWorkflowEvents(context: BehaviorContext): WorkflowEvent[] {
+    const updatedFrom = context.metadata?.updatedFrom;
+    if (updatedFrom) {
+      return this.getUpdatedFieldEvents(context.issue, updatedFrom);
+    }
 
-    if (!currentState || !this.config.stateTransitions[currentState]) {
-      return actions;
+    const events: WorkflowEvent[] = [];
+    const issue = context.issue;
+    const previous = context.previousState || {};
+
+    if (issue.state?.name !== previous.state?.name) {
+      events.push({ trigger: 'state_change', state: issue.state?.name });
     }
 
-    const rules = this.config.stateTransitions[currentState];
-    
-    for (const rule of rules) {
-      if (rule.trigger !== 'state_change') continue;
-      
-      // Check condition if specified
-      if (rule.condition && !rule.condition(context.issue)) continue;
-
-      for (const action of rule.actions) {
-        try {
-          const result = await this.executeWorkflowAction(context.issue!, action);
-          actions.push(result);
-        } catch (error) {
-          logger.error('Failed to execute workflow action', {
-            action,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          actions.push({
-            type: 'update',
-            target: context.issue!.id,
-            description: `Failed to execute ${action.type}: ${action.value}`,
-            result: 'failed',
-            data: { error: error instanceof Error ? error.message : 'Unknown error' }
-          });
+    if (previous.labels) {
+      const previousLabelIds = new Set(getIssueLabels(previous).map(l => l.id));
+      const addedLabels = getIssueLabels(issue)
+        .filter(l => !previousLabelIds.has(l.id))
+        .map(l => l.name);
+      if (addedLabels.length > 0) {
+        events.push({ trigger: 'label_added', labels: addedLabels });
+      }
+    }
+
+    if (previous.assignee !== undefined && issue.assignee?.id !== previous.assignee?.id) {
+      events.push({ trigger: 'assignee_changed' });
+    }
+
+    if (previous.priority !== undefined && issue.priority !== previous.priority) {
+      events.push({ trigger: 'priority_changed' });
+    }
+
+    return events;
+  }
+
+  /**
+   * Detect workflow events from the previous values of a webhook update
+   */
+  private getUpdatedFieldEvents(issue: any, updatedFrom: Record<string, any>): WorkflowEvent[] {
+    const events: WorkflowEvent[] = [];
+
+    if ('stateId' in updatedFrom) {
+      events.push({ trigger: 'state_change', state: issue.state?.name });
+    }
+
+    if ('labelIds' in updatedFrom) {
+      const previousLabelIds = new Set<string>(updatedFrom.labelIds || []);
+      const addedLabels = getIssueLabels(issue)
+        .filter(l => !previousLabelIds.has(l.id))
+        .map(l => l.name);
+      if (addedLabels.length > 0) {
+        events.push({ trigger: 'label_added', labels: addedLabels });
+      }
+    }
+
+    if ('assigneeId' in updatedFrom) {
+      events.push({ trigger: 'assignee_changed' });
+    }
+
+    if ('priority' in updatedFrom) {
+      events.push({ trigger: 'priority_changed' });
+    }
+
+    return events;
+  }
+
+  /**
+   * Apply the rules that match the issue changes
+   */
+  private async applyWorkflowRules(context: BehaviorContext, events: WorkflowEvent[]): Promise<BehaviorAction[]> {
+    const actions: BehaviorAction[] = [];
+    const rules = this.getWorkflowRules(context);
+
+    for (const event of events) {
+      for (const rule of rules) {
+        if (!matchesWorkflowRule(rule, event, context.issue)) continue;
+
+        for (const action of rule.actions) {
+          try {
+            const result = await this.executeWorkflowAction(context.issue!, action);
+            actions.push(result);
+          } catch (error) {
+            logger.error('Failed to execute workflow action', {
+              rule: rule.name,
+              action,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            actions.push({
+              type: 'update',
+              target: context.issue!.id,
+              description: `Failed to execute ${action.type}: ${action.value}`,
+              result: 'failed',
+              data: { error: error instanceof Error ? error.message : 'Unknown error' }
+            });
+          }
         }
       }
     }
 
     // Add state transition comment
-    if (actions.length > 0 && this.shouldAddTransitionComment(context)) {
+    const stateChanged = events.some(event => event.trigger === 'state_change');
+    if (actions.length > 0 && stateChanged && this.shouldAddTransitionComment(context)) {
       try {
         const comment = this.generateStateTransitionComment(context, actions);
         await this.linearClient.createComment(context.issue!.id, comment);
@@ -265,6 +346,28 @@ export class WorkflowAutomationBehavior implements AutonomousBehavior {
     return actions;
   }
 
+  /**
+   * Get the rules for the issue's team: from the rules file if one is
+   * configured, otherwise the built-in state transitions
+   */
+  private getWorkflowRules(context: BehaviorContext): WorkflowRule[] {
+    if (this.ruleStore) {
+      return this.ruleStore.getRules(context.issue?.team || context.team);
+    }
+
+    return Object.entries(this.config.stateTransitions).flatMap(([state, rules]) =>
+      rules.map(rule => ({ state, ...rule }))
+    );
+  }
+
+  /**
+   * Read rules from the configured rules file, if any
+   */
+  private createRuleStore(): void {
+    const rulesFile = this.config.rulesFile ?? process.env.WORKFLOW_RULES_FILE;
+    this.ruleStore = rulesFile ? new WorkflowRuleStore(rulesFile) : undefined;
+  }
+
   /**
    * Execute a single workflow action
    */
@@ -309,20 +412,21 @@ export class WorkflowAutomationBehavior implements AutonomousBehavior {
       
       if (!label) {
         // Create label if it doesn't exist
-        const newLabel = await this.linearClient.createLabel({
+        const created = await this.linearClient.createLabel({
           name: labelName,
           teamId: issue.team.id
         });
+        const newLabel = (await created?.issueLabel) || created;
         
         // Add to issue
-        const currentLabelIds = issue.labels?.nodes.map((l: any) => l.id) || [];
+        const currentLabelIds = getIssueLabels(issue).map(l => l.id);
         await this.linearClient.updateIssue({
           id: issue.id,
           labelIds: [...currentLabelIds, newLabel.id]
         });
       } else {
         // Add existing label
-        const currentLabelIds = issue.labels?.nodes.map((l: any) => l.id) || [];
+        const currentLabelIds = getIssueLabels(issue).map(l => l.id);
         if (!currentLabelIds.includes(label.id)) {
           await this.linearClient.updateIssue({
             id: issue.id,
@@ -353,10 +457,10 @@ export class WorkflowAutomationBehavior implements AutonomousBehavior {
    */
   private async removeLabel(issue: any, labelName: string): Promise<BehaviorAction> {
     try {
-      const currentLabels = issue.labels?.nodes || [];
+      const currentLabels = getIssueLabels(issue);
       const newLabelIds = currentLabels
-        .filter((l: any) => l.name !== labelName)
-        .map((l: any) => l.id);
+        .filter(l => l.name !== labelName)
+        .map(l => l.id);
       
       if (newLabelIds.length < currentLabels.length) {
         await this.linearClient.updateIssue({
@@ -642,7 +746,7 @@ This issue has been in progress for ${Math.round(daysSinceUpdate)} days without
    */
   private async isBlocked(issue: any): Promise<boolean> {
     // Check for blocked label
-    const hasBlockedLabel = issue.labels?.nodes.some((l: any) => 
+    const hasBlockedLabel = getIssueLabels(issue).some(l =>
       l.name.toLowerCase().includes('blocked')
     );
     
@@ -678,8 +782,8 @@ This issue has been in progress for ${Math.round(daysSinceUpdate)} days without
    * Check if labels changed
    */
   private hasLabelsChanged(current: any, previous: any): boolean {
-    const currentLabels = new Set((current.labels?.nodes || []).map((l: any) => l.id));
-    const previousLabels = new Set((previous.labels?.nodes || []).map((l: any) => l.id));
+    const currentLabels = new Set(getIssueLabels(current).map(l => l.id));
+    const previousLabels = new Set(getIssueLabels(previous).map(l => l.id));
     
     return currentLabels.size !== previousLabels.size ||
            [...currentLabels].some(id => !previousLabels.has(id));
@@ -810,6 +914,9 @@ Please ensure the following before handoff:
    */
   updateConfig(config: Partial<WorkflowAutomationConfig>): void {
     this.config = { ...this.config, ...config };
+    if (config.rulesFile !== undefined) {
+      this.createRuleStore();
+    }
     logger.info('Workflow automation configuration updated', { config: this.config });
   }
 }
\ No newline at end of file
@@ -0,0 +1,458 @@
+/**
+ * Clarification Manager
+ *
+ * Turns commands with missing or ambiguous parameters into a follow-up question
+ * in the issue comment thread. The command is kept in the pending_commands table
+ * until a reply in the same thread ("Q4") completes it or the state expires.
+ */
+
+import { AgentCommandParser } from './command-parser';
+import { ParameterExtractor } from './parameter-extractor';
+import { ParameterValidator } from './parameter-validator';
+import { formatStructuredErrors } from './structured-commands';
+import { CommandIntent, IssueContext, ParsedCommand } from './types/command-types';
+import {
+  CommandParameters,
+  ValidationError,
+  ValidationErrorCode,
+  ValidationResult
+} from './types/parameter-types';
+import { LinearClientWrapper } from '../linear/client';
+import {
+  PendingCommandDB,
+  savePendingCommand,
+  getPendingCommand,
+  deletePendingCommand,
+  purgeExpiredPendingCommands
+} from '../db/models';
+import * as logger from '../utils/logger';
+
+/** Default time the agent waits for a clarification reply (30 minutes) */
+const DEFAULT_CLARIFICATION_TTL_MS = 30 * 60 * 1000;
+
+/** Maximum number of options offered in a question */
+const MAX_OPTIONS = 5;
+
+/**
+ * How each parameter is named in a question
+ */
+const PARAMETER_LABELS: Record<string, string> = {
+  piId: 'PI',
+  teamId: 'team',
+  storyId: 'story',
+  fromId: 'issue',
+  riskId: 'risk',
+  storyPoints: 'story point estimate',
+  targetSize: 'target story size',
+  maxDepth: 'dependency depth'
+};
+
+/** Parameters whose reply is a number */
+const NUMERIC_PARAMETERS = ['storyPoints', 'targetSize', 'maxDepth'];
+
+/** Intents the caller answers with its own reply about the issue */
+const CALLER_ANSWERED_INTENTS = [CommandIntent.HELP, CommandIntent.STATUS_CHECK];
+
+/** Validation errors a reply can fix */
+const CLARIFIABLE_CODES = [
+  ValidationErrorCode.MISSING_REQUIRED,
+  ValidationErrorCode.AMBIGUOUS_VALUE,
+  ValidationErrorCode.NOT_FOUND
+];
+
+/**
+ * Comment thread a command was given in
+ */
+export interface CommandThread {
+  issueId: string;
+  /** ID of the thread's root comment */
+  threadId: string;
+}
+
+/**
+ * Follow-up question for one parameter
+ */
+export interface Clarification {
+  parameter: string;
+  question: string;
+  /** Values offered to the user; empty for free-form answers */
+  options: string[];
+}
+
+/**
+ * What to do with a comment in a command dialog
+ */
+export type DialogOutcome =
+  | { status: 'ready'; command: ParsedCommand }
+  | { status: 'chain'; commands: ParsedCommand[] }
+  | { status: 'clarify'; question: string }
+  | { status: 'reply'; message: string }
+  | { status: 'none' };
+
+/**
+ * Gets the configured clarification TTL in milliseconds
+ */
+export const getClarificationTtl = (): number => {
+  const ttlMinutes = parseFloat(process.env.CLARIFICATION_TTL_MINUTES || '');
+  return isNaN(ttlMinutes) || ttlMinutes <= 0 ? DEFAULT_CLARIFICATION_TTL_MS : ttlMinutes * 60 * 1000;
+};
+
+/**
+ * Gets the current and next quarterly PI identifiers
+ */
+export const getUpcomingPIs = (now: Date = new Date()): string[] => {
+  const year = now.getFullYear();
+  const quarter = Math.floor(now.getMonth() / 3) + 1;
+
+  return [
+    `PI-${year}-Q${quarter}`,
+    quarter === 4 ? `PI-${year + 1}-Q1` : `PI-${year}-Q${quarter + 1}`
+  ];
+};
+
+/**
+ * Manages per-thread clarification dialogs for agent commands
+ */
+export class ClarificationManager {
+  private commandParser: AgentCommandParser;
+  private parameterExtractor: ParameterExtractor;
+  private parameterValidator: ParameterValidator;
+
+  constructor(
+    private linearClient: LinearClientWrapper,
+    commandParser: AgentCommandParser = new AgentCommandParser()
+  ) {
+    this.commandParser = commandParser;
+    this.parameterExtractor = new ParameterExtractor();
+    this.parameterValidator = new ParameterValidator(linearClient);
+  }
+
+  /**
+   * Handles a comment that mentions the agent
+   *
+   * A recognized command starts a new dialog, replacing any unanswered question
+   * in the thread; anything else is taken as the answer to that question.
+   * Commands that need no clarification are ready to run, except help and
+   * status questions, which return 'none' so the caller can answer them.
+   * A mention that chains several commands ("decompose this story and then
+   * score the sub-stories") returns them as a 'chain' to run in order.
+   * Structured commands (`/decompose --max-points 3`) are always ready once
+   * valid; invalid ones get a 'reply' listing the errors and their usage.
+   *
+   * @param text Comment text
+   * @param thread Comment thread
+   * @param context Issue context
+   * @returns The dialog outcome
+   */
+  async handleComment(text: string, thread: CommandThread, context: IssueContext): Promise<DialogOutcome> {
+    const commands = this.commandParser.parseCommandChain(text, context);
+    const command = commands[0];
+    const structured = command.metadata.structured;
+
+    if (structured && structured.errors.length > 0) {
+      return { status: 'reply', message: formatStructuredErrors(structured.command, structured.errors) };
+    }
+
+    if (command.intent === CommandIntent.UNKNOWN) {
+      return this.handleReply(text, thread);
+    }
+
+    const pending = await getPendingCommand(thread.threadId);
+    if (pending) {
+      await deletePendingCommand(thread.threadId);
+    }
+
+    if (commands.length > 1) {
+      return { status: 'chain', commands };
+    }
+
+    command.parameters = command.parameters || this.parameterExtractor.extractParameters(text, command.intent, context);
+
+    const validation = await this.parameterValidator.validate(command.parameters, command.intent);
+    const clarification = await this.buildClarification(validation);
+    if (!clarification) {
+      if (structured) {
+        return validation.valid
+          ? { status: 'ready', command }
+          : { status: 'reply', message: formatStructuredErrors(structured.command, validation.errors.map(error => error.message)) };
+      }
+      return CALLER_ANSWERED_INTENTS.includes(command.intent) ? { status: 'none' } : { status: 'ready', command };
+    }
+
+    return this.askClarification(command, thread, clarification);
+  }
+
+  /**
+   * Handles a plain reply in a thread, without a mention
+   *
+   * @param text Comment text
+   * @param thread Comment thread
+   * @returns The dialog outcome, 'none' if the thread has no pending command
+   */
+  async handleReply(text: string, thread: CommandThread): Promise<DialogOutcome> {
+    const pending = await getPendingCommand(thread.threadId);
+    if (!pending) {
+      return { status: 'none' };
+    }
+
+    const outcome = await this.continueCommand(pending, text, thread);
+    return outcome || { status: 'clarify', question: this.repeatQuestion(pending) };
+  }
+
+  /**
+   * Matches a reply against a pending question
+   *
+   * A reply picks an option by its full value, a distinctive part of it ("Q4")
+   * or its number in the list. Questions without options take the reply as the
+   * value.
+   *
+   * @param pending Pending command
+   * @param reply Reply text
+   * @returns The parameter value, or undefined if the reply does not answer the question
+   */
+  resolveReply(pending: Pick<PendingCommandDB, 'parameter' | 'options'>, reply: string): string | number | undefined {
+    const answer = reply
+      .replace(/@saafepulse\b/gi, '')
+      .trim()
+      .replace(/^["'`]+|["'`.!?]+$/g, '')
+      .trim();
+
+    if (!answer) {
+      return undefined;
+    }
+
+    const options = pending.options || [];
+    if (options.length > 0) {
+      const normalized = answer.toLowerCase();
+      const index = parseInt(normalized, 10);
+      if (/^\d+$/.test(normalized) && index >= 1 && index <= options.length) {
+        return options[index - 1];
+      }
+
+      const exact = options.find(option => option.toLowerCase() === normalized);
+      if (exact) {
+        return exact;
+      }
+
+      const partial = options.filter(option => option.toLowerCase().includes(normalized));
+      if (partial.length === 1) {
+        return partial[0];
+      }
+
+      // Free-form answers still count if they are a valid value on their own
+      return pending.parameter === 'piId' ? this.parsePIId(answer) : undefined;
+    }
+
+    return this.toParameterValue(pending.parameter, answer);
+  }
+
+  /**
+   * Completes a pending command with a reply
+   *
+   * @returns The outcome, or null if the reply does not answer the question
+   */
+  private async continueCommand(
+    pending: PendingCommandDB,
+    text: string,
+    thread: CommandThread
+  ): Promise<DialogOutcome | null> {
+    const value = this.resolveReply(pending, text);
+    if (value === undefined) {
+      return null;
+    }
+
+    const command = this.restoreCommand(pending);
+    const parameters: CommandParameters = command.parameters;
+    (parameters as any)[pending.parameter] = value;
+    parameters.explicit = { ...parameters.explicit, [pending.parameter]: true };
+
+    const validation = await this.parameterValidator.validate(parameters, command.intent);
+    const clarification = await this.buildClarification(validation);
+    if (clarification) {
+      return this.askClarification(command, thread, clarification);
+    }
+
+    await deletePendingCommand(thread.threadId);
+
+    logger.info('Clarified command ready', {
+      threadId: thread.threadId,
+      intent: command.intent,
+      parameter: pending.parameter
+    });
+
+    return { status: 'ready', command };
+  }
+
+  /**
+   * Stores the command and returns the question to ask
+   */
+  private async askClarification(
+    command: ParsedCommand,
+    thread: CommandThread,
+    clarification: Clarification
+  ): Promise<DialogOutcome> {
+    await savePendingCommand(
+      thread.threadId,
+      thread.issueId,
+      command.intent,
+      command.rawText,
+      command.parameters || {},
+      command.context as any,
+      clarification.parameter,
+      clarification.options,
+      clarification.question,
+      new Date(Date.now() + getClarificationTtl())
+    );
+
+    // Expired questions are ignored on read; clear them out opportunistically
+    purgeExpiredPendingCommands().catch(error => {
+      logger.warn('Pending command cleanup failed', { error: (error as Error).message });
+    });
+
+    logger.info('Asked for command clarification', {
+      threadId: thread.threadId,
+      intent: command.intent,
+      parameter: clarification.parameter,
+      options: clarification.options.length
+    });
+
+    return { status: 'clarify', question: clarification.question };
+  }
+
+  /**
+   * Picks the first clarifiable validation error and builds its question
+   */
+  private async buildClarification(validation: ValidationResult): Promise<Clarification | null> {
+    if (validation.valid) {
+      return null;
+    }
+
+    const error = validation.errors.find(candidate => this.isClarifiable(candidate));
+    if (!error) {
+      return null;
+    }
+
+    const suggestion = validation.suggestions?.find(candidate => candidate.parameter === error.parameter);
+    const options = suggestion?.suggestions.length
+      ? suggestion.suggestions.slice(0, MAX_OPTIONS)
+      : await this.getDefaultOptions(error.parameter);
+
+    const question = this.formatQuestion(error.parameter, options);
+
+    return {
+      parameter: error.parameter,
+      question: error.code === ValidationErrorCode.MISSING_REQUIRED ? question : `${error.message}\n\n${question}`,
+      options
+    };
+  }
+
+  /**
+   * Whether a reply can fix a validation error
+   */
+  private isClarifiable(error: ValidationError): boolean {
+    if (!PARAMETER_LABELS[error.parameter]) {
+      return false;
+    }
+
+    // A malformed PI is answered by picking an upcoming PI
+    if (error.parameter === 'piId' && error.code === ValidationErrorCode.INVALID_FORMAT) {
+      return true;
+    }
+
+    return CLARIFIABLE_CODES.includes(error.code);
+  }
+
+  /**
+   * Options offered when validation suggested none: upcoming PIs, or the
+   * workspace's teams if there are only a few
+   */
+  private async getDefaultOptions(parameter: string): Promise<string[]> {
+    if (parameter === 'piId') {
+      return getUpcomingPIs();
+    }
+
+    if (parameter === 'teamId') {
+      try {
+        const result = await this.linearClient.getTeams();
+        const teams: any[] = Array.isArray(result) ? result : result?.nodes || [];
+        return teams.length <= MAX_OPTIONS ? teams.map(team => team.name) : [];
+      } catch (error) {
+        logger.warn('Unable to load teams for clarification', { error: (error as Error).message });
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Formats "Which PI: PI-2025-Q3 or PI-2025-Q4?"
+   */
+  private formatQuestion(parameter: string, options: string[]): string {
+    const label = PARAMETER_LABELS[parameter] || parameter;
+
+    if (options.length === 0) {
+      return NUMERIC_PARAMETERS.includes(parameter)
+        ? `What ${label} should I use?`
+        : `Which ${label} should I use?`;
+    }
+
+    if (options.length === 1) {
+      return `Did you mean ${label} ${options[0]}?`;
+    }
+
+    return `Which ${label}: ${options.slice(0, -1).join(', ')} or ${options[options.length - 1]}?`;
+  }
+
+  /**
+   * Asks the pending question again after a reply that did not answer it
+   */
+  private repeatQuestion(pending: PendingCommandDB): string {
+    const question = pending.question.split('\n').pop() || pending.question;
+    return `Sorry, I didn't catch that. ${question}`;
+  }
+
+  /**
+   * Converts a reply to the parameter's type
+   */
+  private toParameterValue(parameter: string, answer: string): string | number | undefined {
+    if (NUMERIC_PARAMETERS.includes(parameter)) {
+      const value = parseInt(answer, 10);
+      return isNaN(value) ? undefined : value;
+    }
+
+    if (parameter === 'piId') {
+      return this.parsePIId(answer);
+    }
+
+    if (parameter === 'teamId') {
+      return answer.replace(/^team\s+/i, '');
+    }
+
+    const issue = answer.match(/\b[A-Z][A-Z0-9]*-\d+\b/i);
+    return issue ? issue[0].toUpperCase() : answer.split(/\s+/)[0];
+  }
+
+  /**
+   * Parses "PI-2025-Q4", "2025 Q4" or "pi 2025-q4"
+   */
+  private parsePIId(answer: string): string | undefined {
+    const match = answer.match(/\b(?:PI[-\s]?)?(\d{4})[-\s]?Q([1-4])\b/i);
+    return match ? `PI-${match[1]}-Q${match[2]}` : undefined;
+  }
+
+  /**
+   * Rebuilds the parsed command from its stored state
+   */
+  private restoreCommand(pending: PendingCommandDB): ParsedCommand {
+    return {
+      intent: pending.intent as CommandIntent,
+      confidence: 1,
+      rawText: pending.raw_text,
+      normalizedText: pending.raw_text.toLowerCase(),
+      context: pending.context as IssueContext,
+      timestamp: new Date(),
+      metadata: { processingTime: 0 },
+      parameters: { explicit: {}, ...pending.parameters }
+    };
+  }
+}
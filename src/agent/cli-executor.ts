@@ -10,9 +10,18 @@ import { CommandIntent } from './types/command-types';
 import { CommandParameters } from './types/parameter-types';
 import { LinearClientWrapper } from '../linear/client';
 import { ResponseFormatter } from './response-formatter';
-import { ParameterTranslator } from './parameter-translator';
+import { ParameterTranslator, StoryDecompositionParams } from './parameter-translator';
+import { ParameterExtractor } from './parameter-extractor';
+import { CommandPermissions, PermissionDecision } from './command-permissions';
+import { createAuditLogEntry, getCommandJob, getLatestCommandJob, getLatestJournalExecution } from '../db/models';
+import { ActionJournal, createExecutionId, runWithJournal } from '../linear/action-journal';
+import { recordCommandExecution } from './audit-trail';
+import { formatStructuredHelp } from './structured-commands';
+import { CommandJobManager, JOB_STAGES, reportJobProgress } from './command-jobs';
 import { Story, Feature, Epic, Enabler } from '../planning/models';
 import { IterationPlan } from '../types/art-planning-types';
+import { DecompositionConfig } from '../types/decomposition-types';
+import { LinearPriority } from '../types/scoring-types';
 import * as logger from '../utils/logger';
 
 /**
@@ -47,9 +56,107 @@ export interface ExecutionResult {
     warnings?: string[];
     /** Execution tracking ID */
     executionId?: string;
+    /** Whether the requester was not allowed to run the command */
+    permissionDenied?: boolean;
   };
 }
 
+/**
+ * Options for executing a command
+ */
+export interface ExecuteOptions {
+  /** Time the command may run, in milliseconds (default 30 seconds) */
+  timeout?: number;
+}
+
+/**
+ * Result of one step in a command chain
+ */
+export interface ChainStepResult {
+  /** Step number (1-based) */
+  step: number;
+  
+  /** Command that was executed */
+  command: ParsedCommand;
+  
+  /** Whether every execution of the step succeeded */
+  success: boolean;
+  
+  /** One result per execution (several when the step ran for each issue of the previous step) */
+  results: ExecutionResult[];
+  
+  /** Issue IDs taken from the previous step's output */
+  inputIssueIds?: string[];
+}
+
+/**
+ * Result of executing a command chain
+ */
+export interface ChainExecutionResult {
+  /** Whether every step succeeded */
+  success: boolean;
+  
+  /** Executed steps, ending with the failed step if any */
+  steps: ChainStepResult[];
+  
+  /** Commands not run because an earlier step failed */
+  skipped: ParsedCommand[];
+  
+  /** Step number that failed */
+  failedStep?: number;
+  
+  /** Step number whose changes must be confirmed before the chain continues */
+  pausedStep?: number;
+  
+  /** Commands that run once the paused step's changes are applied */
+  pending: ParsedCommand[];
+  
+  /** Total execution time in milliseconds */
+  executionTime: number;
+  
+  /** Chain tracking ID */
+  executionId: string;
+}
+
+/**
+ * Options for running a command chain
+ */
+export interface ChainOptions {
+  /** Step run before these commands, such as a confirmed preview, whose output they can use */
+  previous?: ChainStepResult;
+  
+  /** Whether the chain waits after a step, such as one whose changes need confirmation */
+  pauseAfter?: (command: ParsedCommand) => boolean;
+}
+
+/**
+ * Intents that run once per issue produced by the previous chain step,
+ * keyed to the parameter that receives the issue ID
+ */
+const CHAIN_FAN_OUT_PARAMETERS: Partial<Record<CommandIntent, 'storyId' | 'fromId'>> = {
+  [CommandIntent.STORY_SCORE]: 'storyId',
+  [CommandIntent.STORY_DECOMPOSE]: 'storyId',
+  [CommandIntent.DEPENDENCY_MAP]: 'fromId'
+};
+
+/**
+ * References to the previous step's output: "score the sub-stories", "map them"
+ */
+const PREVIOUS_OUTPUT_REFERENCE = /\b(sub-?stories|them|those|these|each|created|new\s+(stories|issues))\b/i;
+
+/**
+ * How each decomposition strategy distributes acceptance criteria; mixed
+ * keeps the engine default
+ */
+const CRITERIA_DISTRIBUTION: Partial<Record<
+  NonNullable<StoryDecompositionParams['decompositionStrategy']>,
+  DecompositionConfig['criteriaDistributionStrategy']
+>> = {
+  workflow: 'sequential',
+  functional: 'thematic',
+  technical: 'balanced'
+};
+
 /**
  * Enterprise CLI Executor
  * 
@@ -60,19 +167,22 @@ export class CLIExecutor {
   private readonly logger = logger;
   private responseFormatter: ResponseFormatter;
   private parameterTranslator: ParameterTranslator;
+  private parameterExtractor: ParameterExtractor;
 
   constructor(
     private linearClient: LinearClientWrapper,
-    private dbConnection?: any // Optional db connection for future use
+    private dbConnection?: any, // Optional db connection for future use
+    private commandPermissions: CommandPermissions = new CommandPermissions()
   ) {
     this.responseFormatter = new ResponseFormatter();
     this.parameterTranslator = new ParameterTranslator();
+    this.parameterExtractor = new ParameterExtractor();
   }
 
   /**
    * Execute a parsed command with enterprise error handling
    */
-  async execute(command: ParsedCommand): Promise<ExecutionResult> {
+  async execute(command: ParsedCommand, options: ExecuteOptions = {}): Promise<ExecutionResult> {
     const startTime = Date.now();
     const executionId = this.generateExecutionId();
 
@@ -87,8 +197,22 @@ export class CLIExecutor {
     });
 
     try {
-      // Execute with timeout protection
-      const result = await this.executeWithTimeout(command, executionId);
+      // Structured commands with syntax errors never run
+      const syntaxErrors = command.metadata.structured?.errors || [];
+      if (syntaxErrors.length > 0) {
+        throw new Error(syntaxErrors.join('; '));
+      }
+
+      const permission = this.commandPermissions.check(command);
+      if (!permission.allowed) {
+        return await this.createPermissionDeniedResult(command, permission, startTime, executionId);
+      }
+
+      // Execute with timeout protection, journaling the changes it makes in Linear
+      const result = await runWithJournal(
+        { executionId, originIssueId: command.context.issueId, actorId: command.requester?.id },
+        () => this.executeWithTimeout(command, executionId, options.timeout || this.EXECUTION_TIMEOUT)
+      );
 
       this.logger.info('CLI execution completed', {
         executionId,
@@ -97,9 +221,12 @@ export class CLIExecutor {
         command: result.command
       });
 
+      await recordCommandExecution(command, result, executionId);
       return result;
     } catch (error) {
-      return this.createErrorResult(command, error as Error, startTime, executionId);
+      const result = this.createErrorResult(command, error as Error, startTime, executionId);
+      await recordCommandExecution(command, result, executionId);
+      return result;
     }
   }
 
@@ -108,20 +235,210 @@ export class CLIExecutor {
    */
   async executeAndFormat(command: ParsedCommand): Promise<any> {
     const result = await this.execute(command);
+    return this.format(result, command);
+  }
+
+  /**
+   * Format an execution result for Linear
+   */
+  format(result: ExecutionResult, command: ParsedCommand): any {
     return this.responseFormatter.formatForLinear(result, command);
   }
 
+  /**
+   * Execute chained commands as a pipeline
+   * 
+   * Steps run in order and the chain stops at the first failure. A step that
+   * takes a story (or start issue) and refers to the previous step's output
+   * ("score the sub-stories") runs once per issue that step produced.
+   * Explicit PI and team parameters carry forward to later steps.
+   * A chain resumed after an earlier step continues its step numbers, and
+   * `pauseAfter` stops it after a step with the remaining commands pending.
+   */
+  async executeChain(commands: ParsedCommand[], options: ChainOptions = {}): Promise<ChainExecutionResult> {
+    const startTime = Date.now();
+    const executionId = this.generateExecutionId();
+    const steps: ChainStepResult[] = [];
+    const firstStep = (options.previous?.step || 0) + 1;
+    let previous = options.previous;
+
+    this.logger.info('Command chain started', {
+      executionId,
+      steps: commands.map(command => command.intent)
+    });
+
+    for (let index = 0; index < commands.length; index++) {
+      const command = this.prepareChainStep(commands[index], previous);
+      const inputIssueIds = this.getChainInputIssueIds(command, previous);
+      const results: ExecutionResult[] = [];
+
+      if (inputIssueIds) {
+        const parameter = CHAIN_FAN_OUT_PARAMETERS[command.intent]!;
+        for (const issueId of inputIssueIds) {
+          const result = await this.execute({
+            ...command,
+            parameters: {
+              ...command.parameters,
+              [parameter]: issueId,
+              explicit: { ...command.parameters.explicit, [parameter]: true }
+            }
+          });
+          results.push(result);
+
+          if (!result.success) {
+            break;
+          }
+        }
+      } else {
+        results.push(await this.execute(command));
+      }
+
+      const step: ChainStepResult = {
+        step: firstStep + index,
+        command,
+        success: results.every(result => result.success),
+        results,
+        inputIssueIds
+      };
+      steps.push(step);
+
+      if (!step.success) {
+        this.logger.warn('Command chain stopped after failed step', {
+          executionId,
+          step: step.step,
+          intent: command.intent
+        });
+
+        return {
+          success: false,
+          steps,
+          skipped: commands.slice(index + 1),
+          failedStep: step.step,
+          pending: [],
+          executionTime: Date.now() - startTime,
+          executionId
+        };
+      }
+
+      if (options.pauseAfter?.(command)) {
+        this.logger.info('Command chain paused', {
+          executionId,
+          step: step.step,
+          intent: command.intent,
+          pending: commands.length - index - 1
+        });
+
+        return {
+          success: true,
+          steps,
+          skipped: [],
+          pausedStep: step.step,
+          pending: commands.slice(index + 1),
+          executionTime: Date.now() - startTime,
+          executionId
+        };
+      }
+
+      previous = step;
+    }
+
+    this.logger.info('Command chain completed', {
+      executionId,
+      steps: steps.length,
+      executionTime: Date.now() - startTime
+    });
+
+    return {
+      success: true,
+      steps,
+      skipped: [],
+      pending: [],
+      executionTime: Date.now() - startTime,
+      executionId
+    };
+  }
+
+  /**
+   * Execute chained commands and format one consolidated response for Linear
+   */
+  async executeChainAndFormat(commands: ParsedCommand[]): Promise<any> {
+    const result = await this.executeChain(commands);
+    return this.formatChain(result);
+  }
+
+  /**
+   * Format a chain result as one consolidated response for Linear
+   */
+  formatChain(result: ChainExecutionResult): any {
+    return this.responseFormatter.formatChainForLinear(result);
+  }
+
+  /**
+   * Extract a chain step's parameters and carry forward explicit PI and team
+   */
+  private prepareChainStep(command: ParsedCommand, previous?: ChainStepResult): ParsedCommand {
+    const parameters: CommandParameters = command.parameters ||
+      this.parameterExtractor.extractParameters(command.normalizedText, command.intent, command.context);
+    const previousParams: CommandParameters | undefined = previous?.command.parameters;
+
+    if (previousParams) {
+      (['piId', 'teamId'] as const).forEach(key => {
+        if (previousParams.explicit?.[key] && !parameters.explicit?.[key]) {
+          parameters[key] = previousParams[key];
+          parameters.explicit = { ...parameters.explicit, [key]: true };
+        }
+      });
+    }
+
+    return { ...command, parameters };
+  }
+
+  /**
+   * Get the previous step's issue IDs when this step should run once per issue
+   */
+  private getChainInputIssueIds(command: ParsedCommand, previous?: ChainStepResult): string[] | undefined {
+    const parameter = CHAIN_FAN_OUT_PARAMETERS[command.intent];
+    if (!parameter || !previous) {
+      return undefined;
+    }
+
+    if (!PREVIOUS_OUTPUT_REFERENCE.test(command.normalizedText)) {
+      return undefined;
+    }
+
+    const issueIds = previous.results.flatMap(result => this.getOutputIssueIds(result));
+    if (issueIds.length === 0) {
+      return undefined;
+    }
+
+    return Array.from(new Set(issueIds));
+  }
+
+  /**
+   * Get the Linear issues a step created, such as sub-stories from an applied decomposition
+   */
+  private getOutputIssueIds(result: ExecutionResult): string[] {
+    const createdIssueIds = result.data?.createdIssueIds;
+    return Array.isArray(createdIssueIds) ? createdIssueIds : [];
+  }
+
   /**
    * Execute command with timeout protection
    */
   private async executeWithTimeout(
     command: ParsedCommand,
-    executionId: string
+    executionId: string,
+    timeout: number
   ): Promise<ExecutionResult> {
-    return Promise.race([
-      this.executeCommand(command, executionId),
-      this.createTimeoutPromise(executionId)
-    ]);
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        this.executeCommand(command, executionId),
+        this.createTimeoutPromise(executionId, timeout, handle => { timer = handle; })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
@@ -163,6 +480,21 @@ export class CLIExecutor {
       case CommandIntent.STORY_SCORE:
         return await this.executeStoryScoring(translatedParams, startTime, executionId);
       
+      case CommandIntent.RISK_MANAGE:
+        return await this.executeRiskManagement(translatedParams, startTime, executionId);
+      
+      case CommandIntent.CAPACITY_CHECK:
+        return await this.executeCapacityCheck(translatedParams, startTime, executionId);
+      
+      case CommandIntent.UNDO:
+        return await this.executeUndo(translatedParams, command, startTime, executionId);
+      
+      case CommandIntent.JOB_STATUS:
+        return await this.executeJobStatus(translatedParams, command, startTime, executionId);
+      
+      case CommandIntent.JOB_CANCEL:
+        return await this.executeJobCancel(translatedParams, command, startTime, executionId);
+      
       case CommandIntent.HELP:
         return await this.executeHelp(translatedParams, startTime, executionId);
       
@@ -184,17 +516,21 @@ export class CLIExecutor {
     try {
       // Direct import of ARTPlanner
       const { ARTPlanner } = await import('../safe/art-planner');
+      const [fetching, mapping, loadingTeams, planning] = JOB_STAGES[CommandIntent.ART_PLAN]!;
       
       // Fetch work items for the PI
+      await reportJobProgress(fetching);
       const workItems = await this.fetchWorkItemsForPI(
         params.piId || '',
         params.teamId
       );
 
       // Build dependency graph
+      await reportJobProgress(mapping);
       const dependencies = await this.buildDependencyGraph(workItems);
 
       // Get ART teams
+      await reportJobProgress(loadingTeams);
       const teams = await this.getARTTeams(params.teamId);
 
       // Create program increment
@@ -208,6 +544,7 @@ export class CLIExecutor {
       });
 
       // Execute ART planning with real data
+      await reportJobProgress(planning);
       const artPlan = await planner.planART(
         programIncrement,
         workItems,
@@ -229,7 +566,18 @@ export class CLIExecutor {
           capacityUtilization: artPlan.summary.averageCapacityUtilization,
           valueDeliveryConfidence: artPlan.summary.valueDeliveryConfidence,
           criticalBlockers: artPlan.artReadiness.criticalBlockers,
-          recommendations: artPlan.artReadiness.recommendations
+          recommendations: artPlan.artReadiness.recommendations,
+          assignments: artPlan.iterations.map((iterationPlan, index) => ({
+            iteration: index + 1,
+            name: iterationPlan.iteration?.name,
+            cycleId: iterationPlan.iteration?.linearCycleId,
+            workItems: (iterationPlan.allocatedWork || []).map(allocated => ({
+              id: allocated.workItem.id,
+              identifier: allocated.workItem.attributes?.identifier,
+              title: allocated.workItem.title,
+              teamId: allocated.workItem.attributes?.teamId
+            }))
+          }))
         }
       };
 
@@ -262,7 +610,7 @@ export class CLIExecutor {
    * Execute story decomposition command
    */
   private async executeStoryDecomposition(
-    params: CommandParameters,
+    params: CommandParameters & Partial<StoryDecompositionParams>,
     startTime: number,
     executionId: string
   ): Promise<ExecutionResult> {
@@ -272,7 +620,12 @@ export class CLIExecutor {
       // Direct import of StoryDecompositionEngine
       const { StoryDecompositionEngine } = await import('../safe/story-decomposition-engine');
       
-      const engine = new StoryDecompositionEngine();
+      const engine = new StoryDecompositionEngine({
+        ...(params.maxPoints ? { maxSubStoryPoints: params.maxPoints } : {}),
+        ...(params.decompositionStrategy && CRITERIA_DISTRIBUTION[params.decompositionStrategy]
+          ? { criteriaDistributionStrategy: CRITERIA_DISTRIBUTION[params.decompositionStrategy] }
+          : {})
+      });
       
       // Fetch the story from Linear
       if (!params.storyId) {
@@ -306,9 +659,12 @@ export class CLIExecutor {
         message: 'Story decomposition completed',
         decomposition: {
           originalStoryId: params.storyId,
-          targetSize: params.targetSize || 5,
+          originalIdentifier: story.identifier,
+          targetSize: params.maxPoints || params.targetSize || 5,
+          strategy: params.decompositionStrategy,
           originalPoints: storyToDecompose.storyPoints,
           subStories: decompositionResult.subStories.map(subStory => ({
+            id: subStory.id,
             title: subStory.title,
             points: subStory.storyPoints,
             type: subStory.type || 'story',
@@ -679,16 +1035,22 @@ export class CLIExecutor {
       
       const optimizer = new ARTReadinessOptimizer();
       
+      const [fetching, mapping, loadingTeams, planning, optimizing] = JOB_STAGES[CommandIntent.ART_OPTIMIZE]!;
+      
       // First, get the current ART plan
+      await reportJobProgress(fetching);
       const workItems = await this.fetchWorkItemsForPI(
         params.piId || '',
         params.teamId
       );
+      await reportJobProgress(mapping);
       const dependencies = await this.buildDependencyGraph(workItems);
+      await reportJobProgress(loadingTeams);
       const teams = await this.getARTTeams(params.teamId);
       const programIncrement = this.createProgramIncrement(params.piId || '');
 
       // Create current ART plan
+      await reportJobProgress(planning);
       const planner = new ARTPlanner();
       const currentPlan = await planner.planART(
         programIncrement,
@@ -698,6 +1060,7 @@ export class CLIExecutor {
       );
 
       // Optimize the plan
+      await reportJobProgress(optimizing);
       const optimizationResult = await optimizer.optimizeARTReadiness(currentPlan);
 
       // Format result
@@ -755,14 +1118,52 @@ export class CLIExecutor {
     this.logger.debug('Executing story scoring', { executionId, params });
 
     try {
-      // TODO: Implement story scoring
+      const { StoryScorer } = await import('../safe/story-scorer');
+
+      if (!params.storyId) {
+        throw new Error('Story ID is required for scoring');
+      }
+
+      const story = await this.linearClient.getIssue(params.storyId);
+
+      // Create story object for scoring; explicit points override the estimate
+      const storyToScore: Story = {
+        id: story.id,
+        type: 'story',
+        title: story.title,
+        description: story.description || '',
+        storyPoints: params.storyPoints || story.estimate || 0,
+        priority: story.priority || undefined,
+        acceptanceCriteria: story.description ?
+          this.extractAcceptanceCriteria(story.description) : [],
+        labels: story.labels?.nodes?.map((l: any) => l.name) || [],
+        attributes: {
+          identifier: story.identifier,
+          state: story.state?.name
+        }
+      };
+
+      const scored = await new StoryScorer().scoreStory(storyToScore);
+      const recommendedPriority = LinearPriority[scored.recommendedPriority].toLowerCase();
+
       const result = {
         success: true,
         message: 'Story scoring completed',
         scoring: {
           storyId: params.storyId,
-          points: params.storyPoints,
-          wsjfScore: 0
+          identifier: story.identifier,
+          points: storyToScore.storyPoints,
+          wsjfScore: Number(scored.wsjfScore.toFixed(2)),
+          breakdown: {
+            businessValue: Number(scored.businessValue.toFixed(1)),
+            timeCriticality: Number(scored.timeCriticality.toFixed(1)),
+            riskReduction: Number(scored.riskReduction.toFixed(1)),
+            jobSize: Number(scored.jobSize.toFixed(1))
+          },
+          recommendedPriority: scored.recommendedPriority,
+          recommendation: scored.recommendedPriority === storyToScore.priority
+            ? `Keep the current ${recommendedPriority} priority.`
+            : `Set the priority to ${recommendedPriority}.`
         }
       };
 
@@ -786,6 +1187,245 @@ export class CLIExecutor {
     }
   }
 
+  /**
+   * Execute ROAM risk management
+   */
+  private async executeRiskManagement(
+    params: CommandParameters,
+    startTime: number,
+    executionId: string
+  ): Promise<ExecutionResult> {
+    this.logger.debug('Executing risk management', { executionId, params });
+
+    try {
+      // Direct import of RiskROAMManager
+      const { RiskROAMManager } = await import('../safe/risk-roam-manager');
+
+      const manager = new RiskROAMManager(this.linearClient);
+      let update;
+
+      // ROAM the risk when a status was given, otherwise just show the board
+      if (params.roamStatus) {
+        if (!params.riskId) {
+          throw new Error('Risk issue ID is required to ROAM a risk');
+        }
+
+        update = await manager.updateRiskStatus(params.riskId, params.roamStatus, {
+          owner: params.riskOwner,
+          piId: params.piId
+        });
+      }
+
+      const board = await manager.getRiskBoard(params.teamId);
+
+      // Format result
+      const result = {
+        success: true,
+        message: update ? `Risk marked as ${update.status}` : 'ROAM board generated',
+        risk: {
+          update,
+          board
+        }
+      };
+
+      return {
+        success: true,
+        data: result,
+        executionTime: Date.now() - startTime,
+        command: 'risk-manage',
+        parameters: params,
+        metadata: {
+          moduleVersion: 'risk-roam-v1.0',
+          executionId,
+          warnings: update?.warnings.length ? update.warnings : undefined
+        }
+      };
+    } catch (error) {
+      this.logger.error('Risk management failed', {
+        executionId,
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Execute team capacity check
+   */
+  private async executeCapacityCheck(
+    params: CommandParameters,
+    startTime: number,
+    executionId: string
+  ): Promise<ExecutionResult> {
+    this.logger.debug('Executing capacity check', { executionId, params });
+
+    try {
+      if (!params.teamId) {
+        throw new Error('Team is required to check capacity');
+      }
+
+      // Direct import of TeamCapacityChecker
+      const { TeamCapacityChecker } = await import('../safe/team-capacity-checker');
+
+      const checker = new TeamCapacityChecker(this.linearClient);
+      const report = await checker.checkCapacity(params.teamId, {
+        next: params.timeframe?.type === 'next',
+        iterations: params.iterations,
+        config: {
+          ...(params.iterationLength ? { defaultIterationLength: params.iterationLength } : {}),
+          ...(params.bufferCapacity !== undefined ? { bufferCapacity: params.bufferCapacity } : {})
+        }
+      });
+
+      // Format result
+      const result = {
+        success: true,
+        message: `Capacity checked for ${report.team.name}`,
+        capacity: report
+      };
+
+      return {
+        success: true,
+        data: result,
+        executionTime: Date.now() - startTime,
+        command: 'capacity-check',
+        parameters: params,
+        metadata: {
+          moduleVersion: 'capacity-manager-v1.0',
+          executionId,
+          warnings: report.warnings.length > 0 ? report.warnings : undefined
+        }
+      };
+    } catch (error) {
+      this.logger.error('Capacity check failed', {
+        executionId,
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Execute undo of a previous execution
+   */
+  private async executeUndo(
+    params: CommandParameters,
+    command: ParsedCommand,
+    startTime: number,
+    executionId: string
+  ): Promise<ExecutionResult> {
+    this.logger.debug('Executing undo', { executionId, params });
+
+    try {
+      const targetExecutionId = params.executionId || await getLatestJournalExecution(command.context.issueId);
+      if (!targetExecutionId) {
+        throw new Error('Nothing to undo: no agent changes started from this issue are left to revert');
+      }
+
+      const report = await new ActionJournal(this.linearClient).revert(targetExecutionId);
+
+      // Format result
+      const result = {
+        success: true,
+        message: `Reverted ${report.reverted.length} of ${report.reverted.length + report.failed.length} changes`,
+        undo: report
+      };
+
+      return {
+        success: true,
+        data: result,
+        executionTime: Date.now() - startTime,
+        command: 'undo',
+        parameters: params,
+        metadata: {
+          moduleVersion: 'action-journal-v1.0',
+          executionId,
+          warnings: report.failed.length > 0
+            ? report.failed.map(step => `Could not revert: ${step.description} (${step.error})`)
+            : undefined
+        }
+      };
+    } catch (error) {
+      this.logger.error('Undo failed', {
+        executionId,
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Execute job status check
+   */
+  private async executeJobStatus(
+    params: CommandParameters,
+    command: ParsedCommand,
+    startTime: number,
+    executionId: string
+  ): Promise<ExecutionResult> {
+    this.logger.debug('Executing job status', { executionId, params });
+
+    const job = params.jobId
+      ? await getCommandJob(params.jobId)
+      : await getLatestCommandJob(command.context.issueId);
+    if (!job) {
+      throw new Error(params.jobId ? `Job not found: ${params.jobId}` : 'No jobs were started from this issue');
+    }
+
+    return {
+      success: true,
+      data: {
+        success: true,
+        message: `Job ${job.id} is ${job.status}`,
+        job,
+        stages: JOB_STAGES[job.intent as CommandIntent] || []
+      },
+      executionTime: Date.now() - startTime,
+      command: 'job-status',
+      parameters: params,
+      metadata: {
+        executionId
+      }
+    };
+  }
+
+  /**
+   * Execute job cancellation
+   */
+  private async executeJobCancel(
+    params: CommandParameters,
+    command: ParsedCommand,
+    startTime: number,
+    executionId: string
+  ): Promise<ExecutionResult> {
+    this.logger.debug('Executing job cancel', { executionId, params });
+
+    const jobId = params.jobId || (await getLatestCommandJob(command.context.issueId))?.id;
+    if (!jobId) {
+      throw new Error('No jobs were started from this issue');
+    }
+
+    const cancellation = await new CommandJobManager(this.linearClient, this).cancel(jobId, command.requester?.name);
+
+    return {
+      success: true,
+      data: {
+        success: true,
+        message: cancellation.stopped ? `Job ${jobId} cancelled` : `Job ${jobId} stops at its next stage`,
+        cancellation
+      },
+      executionTime: Date.now() - startTime,
+      command: 'job-cancel',
+      parameters: params,
+      metadata: {
+        executionId
+      }
+    };
+  }
+
   /**
    * Execute help command
    */
@@ -794,6 +1434,23 @@ export class CLIExecutor {
     startTime: number,
     executionId: string
   ): Promise<ExecutionResult> {
+    if (params.helpTopic) {
+      return {
+        success: true,
+        data: {
+          success: true,
+          message: `Help for /${params.helpTopic}`,
+          help: formatStructuredHelp(params.helpTopic)
+        },
+        executionTime: Date.now() - startTime,
+        command: 'help',
+        parameters: params,
+        metadata: {
+          executionId
+        }
+      };
+    }
+
     const helpText = {
       success: true,
       message: 'Available commands',
@@ -804,7 +1461,14 @@ export class CLIExecutor {
         'map dependencies - Map story dependencies',
         'check status - Check system status',
         'optimize - Optimize ART readiness',
-        'score [story] - Calculate WSJF score'
+        'score [story] - Calculate WSJF score',
+        'check capacity for [team] [next iteration] - Check team capacity and overcommitment',
+        'roam this risk as [resolved|owned|accepted|mitigated] - ROAM a PI risk',
+        'show PI risks - Show the ROAM risk board',
+        'undo [execution] - Revert the changes of the latest command on this issue',
+        'job status [job] - Report on a long-running command such as ART planning',
+        'cancel [job] - Cancel a queued or running job',
+        '/help - List structured commands with exact flags, e.g. /decompose --max-points 3'
       ]
     };
 
@@ -824,15 +1488,19 @@ export class CLIExecutor {
   /**
    * Create timeout promise
    */
-  private createTimeoutPromise(executionId: string): Promise<ExecutionResult> {
+  private createTimeoutPromise(
+    executionId: string,
+    timeout: number,
+    onTimer: (timer: NodeJS.Timeout) => void
+  ): Promise<ExecutionResult> {
     return new Promise((_, reject) => {
-      setTimeout(() => {
+      onTimer(setTimeout(() => {
         this.logger.warn('CLI execution timeout', { 
           executionId,
-          timeout: this.EXECUTION_TIMEOUT 
+          timeout
         });
-        reject(new Error(`Execution timeout after ${this.EXECUTION_TIMEOUT}ms`));
-      }, this.EXECUTION_TIMEOUT);
+        reject(new Error(`Execution timeout after ${timeout}ms`));
+      }, timeout));
     });
   }
 
@@ -865,6 +1533,53 @@ export class CLIExecutor {
     };
   }
 
+  /**
+   * Create result for a command the requester may not run, and record the refusal
+   */
+  private async createPermissionDeniedResult(
+    command: ParsedCommand,
+    permission: PermissionDecision,
+    startTime: number,
+    executionId: string
+  ): Promise<ExecutionResult> {
+    this.logger.warn('CLI execution denied', {
+      executionId,
+      intent: command.intent,
+      requesterId: command.requester?.id,
+      reason: permission.reason
+    });
+
+    try {
+      await createAuditLogEntry({
+        event_type: 'command_permission',
+        outcome: 'denied',
+        actor_id: command.requester?.id,
+        actor_name: command.requester?.name,
+        issue_id: command.context.issueId,
+        team_id: permission.team,
+        intent: command.intent,
+        execution_id: executionId,
+        reason: permission.reason,
+        details: { rawText: command.rawText }
+      });
+    } catch (error) {
+      // The refusal still stands if it cannot be recorded
+      this.logger.error('Failed to record denied command', { executionId, error: (error as Error).message });
+    }
+
+    return {
+      success: false,
+      error: permission.reason,
+      executionTime: Date.now() - startTime,
+      command: command.intent,
+      parameters: command.parameters || {},
+      metadata: {
+        executionId,
+        permissionDenied: true
+      }
+    };
+  }
+
   /**
    * Format error message for user consumption
    */
@@ -890,7 +1605,7 @@ export class CLIExecutor {
    * Generate unique execution ID
    */
   private generateExecutionId(): string {
-    return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return createExecutionId();
   }
 
   /**
@@ -0,0 +1,480 @@
+/**
+ * Command Confirmation
+ *
+ * Commands that change Linear (story decomposition, ART planning) post a
+ * preview of the proposed changes first. The changes are kept with the
+ * preview comment and only applied when an authorized user reacts with ✅;
+ * a ❌ reaction or expiry discards them.
+ */
+import { LinearClientWrapper } from '../linear/client';
+import { ExecutionResult } from './cli-executor';
+import { CommandPermissions } from './command-permissions';
+import { createExecutionId, runWithJournal } from '../linear/action-journal';
+import { CommandIntent, CommandRequester, ParsedCommand } from './types/command-types';
+import {
+  savePendingPlan,
+  getPendingPlan,
+  deletePendingPlan,
+  purgeExpiredPendingPlans
+} from '../db/models';
+import * as logger from '../utils/logger';
+
+/** Default time a preview can be confirmed */
+const DEFAULT_PREVIEW_TTL_MINUTES = 60;
+
+/**
+ * Intents whose changes are previewed before they are applied
+ */
+const CONFIRMATION_INTENTS: Partial<Record<CommandIntent, string>> = {
+  [CommandIntent.STORY_DECOMPOSE]: 'Story Decomposition',
+  [CommandIntent.ART_PLAN]: 'ART Plan'
+};
+
+/** Reactions that apply a preview, by emoji or emoji name */
+const CONFIRM_REACTIONS = ['✅', '✔️', 'white_check_mark', 'heavy_check_mark'];
+
+/** Reactions that discard a preview */
+const DISCARD_REACTIONS = ['❌', 'x', 'negative_squared_cross_mark'];
+
+/**
+ * A change to Linear proposed by a command
+ */
+export type PlannedChange =
+  | {
+    type: 'create_issue';
+    teamId: string;
+    parentId: string;
+    parentIdentifier?: string;
+    title: string;
+    description: string;
+    estimate?: number;
+  }
+  | {
+    type: 'assign_cycle';
+    issueId: string;
+    identifier?: string;
+    title?: string;
+    cycleId: string;
+    cycleName: string;
+  };
+
+/**
+ * Proposed changes of a command
+ */
+export interface ChangePlan {
+  changes: PlannedChange[];
+  /** Parts of the result that could not be turned into changes */
+  warnings: string[];
+}
+
+/**
+ * Result of applying one change
+ */
+export interface ChangeOutcome {
+  change: PlannedChange;
+  success: boolean;
+  /** Issue created by the change */
+  issueId?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of a reaction on a comment
+ */
+export type ReactionOutcome =
+  | { status: 'none' }
+  | {
+    status: 'applied' | 'discarded' | 'expired' | 'denied';
+    /** Reply for the preview's thread */
+    message: string;
+    issueId: string;
+    threadId: string;
+    outcomes?: ChangeOutcome[];
+    /** Command whose changes were applied */
+    command?: ParsedCommand;
+  };
+
+/**
+ * Whether the intent's changes are previewed before they are applied
+ */
+export function requiresConfirmation(intent: CommandIntent): boolean {
+  return intent in CONFIRMATION_INTENTS;
+}
+
+/**
+ * Gets how long a preview can be confirmed, in milliseconds
+ */
+export function getPreviewTtl(): number {
+  const ttlMinutes = parseFloat(process.env.COMMAND_PREVIEW_TTL_MINUTES || '');
+  return (ttlMinutes > 0 ? ttlMinutes : DEFAULT_PREVIEW_TTL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Maps a reaction to a decision about a preview
+ */
+export function getReactionDecision(emoji?: string): 'confirm' | 'discard' | undefined {
+  const name = emoji?.trim().replace(/^:|:$/g, '');
+  if (!name) {
+    return undefined;
+  }
+  if (CONFIRM_REACTIONS.includes(name)) {
+    return 'confirm';
+  }
+  if (DISCARD_REACTIONS.includes(name)) {
+    return 'discard';
+  }
+  return undefined;
+}
+
+/**
+ * Command Confirmation Manager
+ *
+ * Turns command results into proposed changes, keeps them with their preview
+ * comment and applies or discards them on reaction
+ */
+export class CommandConfirmationManager {
+  constructor(
+    private linearClient: LinearClientWrapper,
+    private commandPermissions: CommandPermissions = new CommandPermissions()
+  ) {}
+
+  /**
+   * Lists the Linear changes a command result proposes
+   *
+   * @param command Executed command
+   * @param result Result of computing the command, before anything is applied
+   */
+  async planChanges(command: ParsedCommand, result: ExecutionResult): Promise<ChangePlan> {
+    if (!result.success) {
+      return { changes: [], warnings: [] };
+    }
+
+    switch (command.intent) {
+      case CommandIntent.STORY_DECOMPOSE:
+        return this.planSubStories(command, result.data?.decomposition);
+
+      case CommandIntent.ART_PLAN:
+        return this.planCycleAssignments(command, result);
+
+      default:
+        return { changes: [], warnings: [] };
+    }
+  }
+
+  /**
+   * Formats the preview comment
+   */
+  formatPreview(command: ParsedCommand, plan: ChangePlan): string {
+    const created = plan.changes.filter(change => change.type === 'create_issue');
+    const assigned = plan.changes.filter(change => change.type === 'assign_cycle');
+    const minutes = Math.round(getPreviewTtl() / 60000);
+
+    let message = `## 👀 Preview: ${CONFIRMATION_INTENTS[command.intent] || command.intent}\n\n`;
+    message += `Nothing has been changed yet. Applying this plan will:\n\n`;
+
+    if (created.length > 0) {
+      const parent = created[0].type === 'create_issue' ? created[0].parentIdentifier : undefined;
+      message += `### Create ${created.length} sub-stor${created.length === 1 ? 'y' : 'ies'}${parent ? ` of ${parent}` : ''}\n\n`;
+      created.forEach(change => {
+        if (change.type === 'create_issue') {
+          message += `- **${change.title}**${change.estimate !== undefined ? ` (${change.estimate} points)` : ''}\n`;
+        }
+      });
+      message += '\n';
+    }
+
+    if (assigned.length > 0) {
+      message += `### Assign ${assigned.length} issue${assigned.length === 1 ? '' : 's'} to cycles\n\n`;
+      assigned.forEach(change => {
+        if (change.type === 'assign_cycle') {
+          message += `- ${this.describeIssue(change)} → ${change.cycleName}\n`;
+        }
+      });
+      message += '\n';
+    }
+
+    if (plan.warnings.length > 0) {
+      message += `### ⚠️ Not Included\n\n`;
+      plan.warnings.forEach(warning => {
+        message += `- ${warning}\n`;
+      });
+      message += '\n';
+    }
+
+    message += `---\n`;
+    message += `_React with ✅ to apply these changes or ❌ to discard them. This preview expires in ${minutes} minutes._`;
+
+    return message;
+  }
+
+  /**
+   * Keeps the proposed changes with their preview comment until confirmed
+   */
+  async savePreview(
+    commentId: string,
+    threadId: string,
+    command: ParsedCommand,
+    changes: PlannedChange[]
+  ): Promise<void> {
+    await savePendingPlan(
+      commentId,
+      threadId,
+      command.context.issueId,
+      command.intent,
+      command,
+      changes,
+      command.requester?.id,
+      new Date(Date.now() + getPreviewTtl())
+    );
+
+    purgeExpiredPendingPlans().catch(error => {
+      logger.warn('Failed to purge expired pending plans', { error: (error as Error).message });
+    });
+  }
+
+  /**
+   * Handles a reaction on a comment
+   *
+   * @param commentId Comment that received the reaction
+   * @param emoji Reaction emoji or emoji name
+   * @param actor User who reacted
+   * @returns The outcome, 'none' if the comment is not a preview or the reaction is not a decision
+   */
+  async handleReaction(commentId: string, emoji: string | undefined, actor?: CommandRequester): Promise<ReactionOutcome> {
+    const decision = getReactionDecision(emoji);
+    if (!decision || !actor) {
+      return { status: 'none' };
+    }
+
+    const pending = await getPendingPlan(commentId);
+    if (!pending) {
+      return { status: 'none' };
+    }
+
+    const thread = { issueId: pending.issue_id, threadId: pending.thread_id };
+
+    if (new Date(pending.expires_at).getTime() <= Date.now()) {
+      await deletePendingPlan(commentId);
+      return {
+        status: 'expired',
+        message: '⌛ This preview expired, so nothing was changed. Mention me again for a fresh preview.',
+        ...thread
+      };
+    }
+
+    const command: ParsedCommand = {
+      ...(pending.command as ParsedCommand),
+      timestamp: new Date(pending.command.timestamp),
+      requester: actor
+    };
+
+    const permission = this.commandPermissions.check(command);
+    if (!permission.allowed) {
+      logger.warn('Plan reaction denied', { commentId, intent: command.intent, actorId: actor.id, reason: permission.reason });
+      return {
+        status: 'denied',
+        message: `🔒 Sorry${actor.name ? `, ${actor.name}` : ''}, only people who may run **${command.intent}** ` +
+          `can ${decision === 'confirm' ? 'apply' : 'discard'} this plan.`,
+        ...thread
+      };
+    }
+
+    // Whoever removes the plan first decides; a second reaction finds nothing to do
+    if (!(await deletePendingPlan(commentId))) {
+      return { status: 'none' };
+    }
+
+    if (decision === 'discard') {
+      logger.info('Plan discarded', { commentId, intent: command.intent, actorId: actor.id });
+      return { status: 'discarded', message: '🗑️ Plan discarded. Nothing was changed.', ...thread };
+    }
+
+    const executionId = createExecutionId();
+    const outcomes = await runWithJournal(
+      { executionId, originIssueId: pending.issue_id, actorId: actor.id },
+      () => this.applyChanges(pending.changes as PlannedChange[])
+    );
+    const applied = outcomes.filter(outcome => outcome.success).length;
+
+    logger.info('Plan applied', {
+      commentId,
+      executionId,
+      intent: command.intent,
+      actorId: actor.id,
+      applied,
+      total: outcomes.length
+    });
+
+    let message = `## ${applied === outcomes.length ? '✅' : '⚠️'} Plan Applied\n\n`;
+    message += `Applied ${applied} of ${outcomes.length} changes${actor.name ? ` for ${actor.name}` : ''}.\n`;
+
+    const failed = outcomes.filter(outcome => !outcome.success);
+    if (failed.length > 0) {
+      message += `\n### Not Applied\n\n`;
+      failed.forEach(outcome => {
+        message += `- Could not ${this.describeChange(outcome.change)}: ${outcome.error}\n`;
+      });
+    }
+
+    if (applied > 0) {
+      message += `\n_Reply \`@saafepulse undo\` to revert these changes (execution \`${executionId}\`)._`;
+    }
+
+    return { status: 'applied', message, outcomes, command, ...thread };
+  }
+
+  /**
+   * Applies changes in order, continuing past failures
+   */
+  private async applyChanges(changes: PlannedChange[]): Promise<ChangeOutcome[]> {
+    const outcomes: ChangeOutcome[] = [];
+
+    for (const change of changes) {
+      try {
+        if (change.type === 'create_issue') {
+          const payload = await this.linearClient.createIssue({
+            teamId: change.teamId,
+            parentId: change.parentId,
+            title: change.title,
+            description: change.description,
+            estimate: change.estimate
+          });
+          const issue = await payload?.issue;
+          outcomes.push({ change, success: true, issueId: issue?.id });
+        } else {
+          await this.linearClient.updateIssue({ id: change.issueId, cycleId: change.cycleId });
+          outcomes.push({ change, success: true });
+        }
+      } catch (error) {
+        logger.error('Failed to apply planned change', { change, error: (error as Error).message });
+        outcomes.push({ change, success: false, error: (error as Error).message });
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Proposes a sub-story under the original story for each decomposed part
+   */
+  private async planSubStories(command: ParsedCommand, decomposition: any): Promise<ChangePlan> {
+    const subStories: any[] = decomposition?.subStories || [];
+    if (subStories.length === 0) {
+      return { changes: [], warnings: [] };
+    }
+
+    const story = await this.linearClient.getIssue(decomposition.originalStoryId);
+    const team = await story?.team;
+    const requestedTeamId = await this.resolveRequestedTeam(command);
+    const teamId = requestedTeamId || team?.id || command.context.teamId;
+
+    const changes: PlannedChange[] = subStories.map(subStory => ({
+      type: 'create_issue',
+      teamId,
+      parentId: decomposition.originalStoryId,
+      parentIdentifier: decomposition.originalIdentifier,
+      title: subStory.title,
+      description: this.formatAcceptanceCriteria(subStory.acceptanceCriteria),
+      estimate: subStory.points
+    }));
+
+    return { changes, warnings: [] };
+  }
+
+  /**
+   * Resolves a team named in the command (`--team PHX`) to its ID
+   *
+   * @returns The team ID, or undefined when the command names no other team
+   */
+  private async resolveRequestedTeam(command: ParsedCommand): Promise<string | undefined> {
+    const requested = command.parameters?.teamId;
+    if (!requested || requested === command.context.teamId) {
+      return undefined;
+    }
+
+    const result = await this.linearClient.getTeams();
+    const teams: any[] = Array.isArray(result) ? result : result?.nodes || [];
+    const team = teams.find((t: any) =>
+      t.id === requested ||
+      t.key === requested ||
+      t.name?.toLowerCase() === requested.toLowerCase()
+    );
+
+    return team?.id;
+  }
+
+  /**
+   * Proposes moving each planned work item into the Linear cycle of its iteration
+   *
+   * Iterations map to the team's upcoming cycles in order unless the plan
+   * names a cycle.
+   */
+  private async planCycleAssignments(command: ParsedCommand, result: ExecutionResult): Promise<ChangePlan> {
+    const assignments: any[] = result.data?.plan?.assignments || [];
+    const cyclesByTeam = new Map<string, any[]>();
+    const changes: PlannedChange[] = [];
+    const warnings: string[] = [];
+
+    for (const assignment of assignments) {
+      for (const workItem of assignment.workItems || []) {
+        const teamId = workItem.teamId || result.parameters?.teamId || command.context.teamId;
+        let cycle = assignment.cycleId ? { id: assignment.cycleId, name: assignment.name } : undefined;
+
+        if (!cycle && teamId) {
+          if (!cyclesByTeam.has(teamId)) {
+            cyclesByTeam.set(teamId, await this.getUpcomingCycles(teamId));
+          }
+          const upcoming = cyclesByTeam.get(teamId)![assignment.iteration - 1];
+          cycle = upcoming ? { id: upcoming.id, name: upcoming.name || `Cycle ${upcoming.number}` } : undefined;
+        }
+
+        if (!cycle) {
+          warnings.push(`${this.describeIssue(workItem)}: no Linear cycle for iteration ${assignment.iteration}`);
+          continue;
+        }
+
+        changes.push({
+          type: 'assign_cycle',
+          issueId: workItem.id,
+          identifier: workItem.identifier,
+          title: workItem.title,
+          cycleId: cycle.id,
+          cycleName: cycle.name || `Iteration ${assignment.iteration}`
+        });
+      }
+    }
+
+    return { changes, warnings };
+  }
+
+  /**
+   * Gets a team's current and future cycles, earliest first
+   */
+  private async getUpcomingCycles(teamId: string): Promise<any[]> {
+    const result = await this.linearClient.getTeamCycles(teamId);
+    const cycles: any[] = Array.isArray(result) ? result : result?.nodes || [];
+    const now = Date.now();
+
+    return cycles
+      .filter(cycle => !cycle.completedAt && new Date(cycle.endsAt).getTime() >= now)
+      .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+  }
+
+  private formatAcceptanceCriteria(criteria: string[] = []): string {
+    if (criteria.length === 0) {
+      return '';
+    }
+    return `## Acceptance Criteria\n\n${criteria.map(criterion => `- [ ] ${criterion}`).join('\n')}`;
+  }
+
+  private describeIssue(issue: { id?: string; issueId?: string; identifier?: string; title?: string }): string {
+    const reference = issue.identifier || issue.issueId || issue.id;
+    return issue.title ? `${reference} ${issue.title}` : `${reference}`;
+  }
+
+  private describeChange(change: PlannedChange): string {
+    return change.type === 'create_issue'
+      ? `create sub-story "${change.title}"`
+      : `assign ${change.identifier || change.issueId} to ${change.cycleName}`;
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Command Jobs
+ *
+ * Long-running commands (ART planning and optimization) run as background
+ * jobs instead of within the command timeout. A job posts one progress
+ * comment in the command's thread, edits it in place as stages finish and
+ * finally replaces it with the result. `job status <id>` reports on a job and
+ * `cancel <id>` stops it at its next stage.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { LinearClientWrapper } from '../linear/client';
+import type { ExecutionResult, ExecuteOptions } from './cli-executor';
+import { CommandIntent, ParsedCommand } from './types/command-types';
+import {
+  CommandJobDB,
+  CommandJobStatus,
+  createCommandJob,
+  updateCommandJob,
+  getCommandJob
+} from '../db/models';
+import * as logger from '../utils/logger';
+
+/** Default time a job may run */
+const DEFAULT_JOB_TIMEOUT_MINUTES = 30;
+
+/** Default number of jobs run at once; later jobs wait in the queue */
+const DEFAULT_JOB_CONCURRENCY = 2;
+
+/**
+ * Intents run as jobs, with their title
+ */
+const JOB_INTENTS: Partial<Record<CommandIntent, string>> = {
+  [CommandIntent.ART_PLAN]: 'ART Plan',
+  [CommandIntent.ART_OPTIMIZE]: 'ART Optimization'
+};
+
+/**
+ * Stages each job reports, in order
+ */
+export const JOB_STAGES: Partial<Record<CommandIntent, string[]>> = {
+  [CommandIntent.ART_PLAN]: [
+    'Fetching work items',
+    'Building dependency graph',
+    'Loading ART teams',
+    'Planning iterations'
+  ],
+  [CommandIntent.ART_OPTIMIZE]: [
+    'Fetching work items',
+    'Building dependency graph',
+    'Loading ART teams',
+    'Planning iterations',
+    'Optimizing readiness'
+  ]
+};
+
+/**
+ * Error thrown at the next stage of a cancelled job
+ */
+export class JobCancelledError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Turns a job's execution result into the body of its final comment
+ *
+ * @param result Execution result
+ * @param commentId The progress comment the body replaces
+ */
+export type JobResultPresenter = (result: ExecutionResult, commentId: string) => Promise<string>;
+
+/**
+ * Runs a command; the CLI executor
+ */
+export interface JobCommandRunner {
+  execute(command: ParsedCommand, options?: ExecuteOptions): Promise<ExecutionResult>;
+  format(result: ExecutionResult, command: ParsedCommand): { message: string };
+}
+
+/**
+ * Outcome of a cancel request
+ */
+export interface JobCancellation {
+  job: CommandJobDB;
+  /** False when the job is running and stops at its next stage */
+  stopped: boolean;
+}
+
+/**
+ * A job queued or running in this process
+ */
+interface ActiveJob {
+  controller: AbortController;
+  started: boolean;
+  run: () => Promise<void>;
+}
+
+interface JobScope {
+  jobId: string;
+  signal: AbortSignal;
+  onStage: (stage: string) => Promise<void>;
+}
+
+const jobStorage = new AsyncLocalStorage<JobScope>();
+
+/** Jobs of this process by ID */
+const activeJobs = new Map<string, ActiveJob>();
+
+/** IDs of jobs waiting to run, oldest first */
+const jobQueue: string[] = [];
+
+let runningJobs = 0;
+
+/**
+ * Whether the intent runs as a job
+ */
+export function isJobIntent(intent: CommandIntent): boolean {
+  return intent in JOB_INTENTS;
+}
+
+/**
+ * Gets how long a job may run, in milliseconds
+ */
+export function getJobTimeout(): number {
+  const timeoutMinutes = parseFloat(process.env.COMMAND_JOB_TIMEOUT_MINUTES || '');
+  return (timeoutMinutes > 0 ? timeoutMinutes : DEFAULT_JOB_TIMEOUT_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Gets how many jobs run at once
+ */
+export function getJobConcurrency(): number {
+  const concurrency = parseInt(process.env.COMMAND_JOB_CONCURRENCY || '', 10);
+  return concurrency > 0 ? concurrency : DEFAULT_JOB_CONCURRENCY;
+}
+
+/**
+ * Creates an ID for a job
+ */
+export function createJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Reports that the current job reached a stage
+ *
+ * Outside a job this does nothing. In a cancelled job it throws
+ * JobCancelledError, so work stops at stage boundaries.
+ */
+export async function reportJobProgress(stage: string): Promise<void> {
+  const scope = jobStorage.getStore();
+  if (!scope) {
+    return;
+  }
+  if (scope.signal.aborted) {
+    throw new JobCancelledError(scope.jobId);
+  }
+  await scope.onStage(stage);
+}
+
+/**
+ * Resolves once no job is queued or running in this process
+ */
+export async function waitForCommandJobs(): Promise<void> {
+  while (activeJobs.size > 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Queues and runs long-running commands
+ */
+export class CommandJobManager {
+  constructor(
+    private linearClient: LinearClientWrapper,
+    private runner: JobCommandRunner
+  ) {}
+
+  /**
+   * Queues a command as a job and posts its progress comment in the thread
+   *
+   * @param command Command to run
+   * @param thread Issue and root comment of the command's thread
+   * @param present Turns the result into the final comment body
+   * @returns The queued job
+   */
+  async start(
+    command: ParsedCommand,
+    thread: { issueId: string; threadId: string },
+    present: JobResultPresenter
+  ): Promise<CommandJobDB> {
+    const job: CommandJobDB = {
+      id: createJobId(),
+      issue_id: thread.issueId,
+      thread_id: thread.threadId,
+      comment_id: '',
+      intent: command.intent,
+      command: command as any,
+      status: 'queued',
+      progress: 0,
+      requester_id: command.requester?.id,
+      created_at: new Date()
+    };
+
+    const payload = await this.linearClient.createComment(thread.issueId, formatJobProgress(job), thread.threadId);
+    const comment = await payload?.comment;
+    if (!comment?.id) {
+      throw new Error('Progress comment has no ID; the job cannot report its progress');
+    }
+    job.comment_id = comment.id;
+
+    await createCommandJob(job);
+
+    activeJobs.set(job.id, {
+      controller: new AbortController(),
+      started: false,
+      run: () => this.run(job, command, present)
+    });
+    jobQueue.push(job.id);
+    logger.info('Command job queued', { jobId: job.id, issueId: job.issue_id, intent: job.intent });
+
+    drainJobQueue();
+    return job;
+  }
+
+  /**
+   * Cancels a job
+   *
+   * Queued jobs stop right away; running jobs stop at their next stage and
+   * discard their result.
+   *
+   * @param jobId Job to cancel
+   * @param cancelledBy Name of the user cancelling the job
+   */
+  async cancel(jobId: string, cancelledBy?: string): Promise<JobCancellation> {
+    const job = await getCommandJob(jobId);
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+    if (job.status !== 'queued' && job.status !== 'running') {
+      throw new Error(`Job ${jobId} has already ${job.status === 'cancelled' ? 'been cancelled' : job.status}`);
+    }
+
+    const active = activeJobs.get(jobId);
+    if (active?.started) {
+      active.controller.abort();
+      await updateCommandJob(jobId, { cancelled_by: cancelledBy });
+      logger.info('Command job cancellation requested', { jobId, cancelledBy });
+      return { job: { ...job, cancelled_by: cancelledBy }, stopped: false };
+    }
+
+    // Queued here, or left behind by a restart: nothing is running it
+    if (active) {
+      active.controller.abort();
+      activeJobs.delete(jobId);
+      jobQueue.splice(jobQueue.indexOf(jobId), 1);
+    }
+    const cancelled = await this.finish(job, 'cancelled', { cancelled_by: cancelledBy });
+    await this.updateComment(cancelled, formatJobProgress(cancelled));
+    return { job: cancelled, stopped: true };
+  }
+
+  /**
+   * Runs a queued job and replaces its progress comment with the result
+   */
+  private async run(job: CommandJobDB, command: ParsedCommand, present: JobResultPresenter): Promise<void> {
+    const active = activeJobs.get(job.id)!;
+    const stages = JOB_STAGES[command.intent as CommandIntent] || [];
+
+    try {
+      Object.assign(job, { status: 'running', started_at: new Date() });
+      await updateCommandJob(job.id, { status: 'running', started_at: job.started_at });
+      await this.updateComment(job, formatJobProgress(job));
+
+      const onStage = async (stage: string) => {
+        const index = stages.indexOf(stage);
+        Object.assign(job, {
+          stage,
+          progress: index >= 0 ? Math.round((index / stages.length) * 100) : job.progress
+        });
+        await updateCommandJob(job.id, { stage: job.stage, progress: job.progress });
+        await this.updateComment(job, formatJobProgress(job));
+      };
+
+      const result = await jobStorage.run(
+        { jobId: job.id, signal: active.controller.signal, onStage },
+        () => this.runner.execute(command, { timeout: getJobTimeout() })
+      );
+
+      if (active.controller.signal.aborted) {
+        const latest = await getCommandJob(job.id);
+        const cancelled = await this.finish(job, 'cancelled', { cancelled_by: latest?.cancelled_by });
+        await this.updateComment(cancelled, formatJobProgress(cancelled));
+        return;
+      }
+
+      if (result.success) {
+        const body = await present(result, job.comment_id);
+        await this.finish(job, 'succeeded', { progress: 100 });
+        await this.updateComment(job, body);
+      } else {
+        await this.finish(job, 'failed', { error: result.error });
+        await this.updateComment(job, this.runner.format(result, command).message);
+      }
+    } catch (error) {
+      logger.error('Command job failed', { jobId: job.id, error: (error as Error).message });
+      try {
+        const failed = await this.finish(job, 'failed', { error: (error as Error).message });
+        await this.updateComment(failed, formatJobProgress(failed));
+      } catch (finishError) {
+        logger.error('Failed to record command job failure', { jobId: job.id, error: (finishError as Error).message });
+      }
+    }
+  }
+
+  /**
+   * Records the end of a job
+   */
+  private async finish(
+    job: CommandJobDB,
+    status: CommandJobStatus,
+    updates: Partial<Pick<CommandJobDB, 'progress' | 'error' | 'cancelled_by'>> = {}
+  ): Promise<CommandJobDB> {
+    Object.assign(job, { ...updates, status, finished_at: new Date() });
+    await updateCommandJob(job.id, { ...updates, status, finished_at: job.finished_at });
+    logger.info('Command job finished', { jobId: job.id, status });
+    return job;
+  }
+
+  /**
+   * Edits the job's progress comment; progress that cannot be shown does not fail the job
+   */
+  private async updateComment(job: CommandJobDB, body: string): Promise<void> {
+    try {
+      await this.linearClient.updateComment(job.comment_id, body);
+    } catch (error) {
+      logger.error('Failed to update job progress comment', {
+        jobId: job.id,
+        commentId: job.comment_id,
+        error: (error as Error).message
+      });
+    }
+  }
+}
+
+/**
+ * Formats a job's progress comment
+ *
+ * @param job The job
+ * @returns Linear markdown with the job's status and stages
+ */
+export function formatJobProgress(job: CommandJobDB): string {
+  const title = JOB_INTENTS[job.intent as CommandIntent] || job.intent;
+  const stages = JOB_STAGES[job.intent as CommandIntent] || [];
+  const current = job.stage ? stages.indexOf(job.stage) : -1;
+
+  const headings: Record<CommandJobStatus, string> = {
+    queued: `⏳ ${title} queued`,
+    running: `🔄 ${title} running`,
+    succeeded: `✅ ${title} finished`,
+    failed: `❌ ${title} failed`,
+    cancelled: `🛑 ${title} cancelled`
+  };
+
+  let message = `## ${headings[job.status]}\n\n`;
+  message += `**Job**: \`${job.id}\`\n`;
+
+  if (job.status === 'queued') {
+    message += `\nWaiting for other jobs to finish.\n`;
+  } else if (job.status === 'cancelled') {
+    message += job.cancelled_by ? `\nCancelled by ${job.cancelled_by}. ` : '\n';
+    message += `Nothing was changed in Linear.\n`;
+  } else if (job.status === 'failed' && job.error) {
+    message += `\n${job.error}\n`;
+  }
+
+  if (job.status === 'running' && stages.length > 0) {
+    message += `**Progress**: ${job.progress}%\n\n`;
+    stages.forEach((stage, index) => {
+      const icon = index < current ? '✅' : index === current ? '🔄' : '⬜';
+      message += `- ${icon} ${stage}\n`;
+    });
+  }
+
+  if (job.status === 'queued' || job.status === 'running') {
+    message += `\n_\`@saafepulse job status ${job.id}\` for details, \`@saafepulse cancel ${job.id}\` to stop it._\n`;
+  }
+
+  return message;
+}
+
+/**
+ * Starts queued jobs while there is room
+ */
+function drainJobQueue(): void {
+  while (runningJobs < getJobConcurrency() && jobQueue.length > 0) {
+    const jobId = jobQueue.shift()!;
+    const active = activeJobs.get(jobId);
+    if (!active) {
+      continue;
+    }
+
+    active.started = true;
+    runningJobs++;
+    active.run().finally(() => {
+      runningJobs--;
+      activeJobs.delete(jobId);
+      drainJobQueue();
+    });
+  }
+}
@@ -18,8 +18,16 @@ import {
   CommandSuggestion
 } from './types/command-types';
 import { getPatternsByPriority, HELP_PATTERNS } from './patterns/command-patterns';
+import { isStructuredCommand, parseStructuredCommand } from './structured-commands';
 import * as logger from '../utils/logger';
 
+/**
+ * Connectors that join chained commands ("decompose this story and then score
+ * the sub-stories"). The capture group keeps the connector so segments that
+ * are not commands on their own can be joined back.
+ */
+const CHAIN_SEPARATOR = /\s*,?\s*\b(and\s+then|then|and)\b\s*/;
+
 /**
  * Natural Language Command Parser
  * 
@@ -32,10 +40,11 @@ export class AgentCommandParser {
 
   constructor(config: Partial<ParserConfig> = {}) {
     this.config = { ...DEFAULT_PARSER_CONFIG, ...config };
-    this.patterns = getPatternsByPriority();
+    this.patterns = getPatternsByPriority(this.config.customPatterns);
     
     logger.info('Command parser initialized', {
       patternCount: this.patterns.length,
+      customPatternCount: this.config.customPatterns?.length || 0,
       minConfidence: this.config.minConfidence
     });
   }
@@ -43,6 +52,9 @@ export class AgentCommandParser {
   /**
    * Parse command text to identify intent
    * 
+   * Structured commands such as `/decompose --max-points 3` skip pattern
+   * matching and come back with their parameters.
+   * 
    * @param text Raw text from user mention
    * @param context Issue context from Linear
    * @returns Parsed command with intent and confidence
@@ -51,6 +63,10 @@ export class AgentCommandParser {
     const startTime = Date.now();
     
     try {
+      if (isStructuredCommand(text)) {
+        return parseStructuredCommand(text, context);
+      }
+      
       // Normalize the input text
       const normalizedText = this.normalizeText(text);
       
@@ -124,6 +140,63 @@ export class AgentCommandParser {
     }
   }
 
+  /**
+   * Parse a mention that may chain several commands
+   * 
+   * The text is split on "then"/"and" connectors. A segment only starts a new
+   * step when it is a recognized command on its own; otherwise it stays part
+   * of the previous step, so "show owned and accepted risks" is one command.
+   * Structured commands are never split.
+   * 
+   * @param text Raw text from user mention
+   * @param context Issue context from Linear
+   * @returns Parsed commands in execution order (a single command when not chained)
+   */
+  public parseCommandChain(text: string, context: IssueContext): ParsedCommand[] {
+    if (isStructuredCommand(text)) {
+      return [this.parseCommand(text, context)];
+    }
+    
+    const parts = this.normalizeText(text).split(CHAIN_SEPARATOR);
+    const segments: string[] = [];
+    
+    // parts alternates segment, connector, segment, ...
+    for (let i = 0; i < parts.length; i += 2) {
+      const segment = parts[i].trim();
+      if (!segment) {
+        continue;
+      }
+      
+      if (segments.length > 0 && !this.isRecognizedCommand(segment, context)) {
+        segments[segments.length - 1] += ` ${parts[i - 1]} ${segment}`;
+      } else {
+        segments.push(segment);
+      }
+    }
+    
+    if (segments.length < 2 || !this.isRecognizedCommand(segments[0], context)) {
+      return [this.parseCommand(text, context)];
+    }
+    
+    logger.debug('Parsed command chain', {
+      steps: segments.length,
+      issueId: context.issueId
+    });
+    
+    return segments.map(segment => this.parseCommand(segment, context));
+  }
+
+  /**
+   * Check whether text is a recognized command on its own
+   * 
+   * @param text Normalized command text
+   * @param context Issue context
+   * @returns True if the text parses to a known intent
+   */
+  private isRecognizedCommand(text: string, context: IssueContext): boolean {
+    return this.parseCommand(text, context).intent !== CommandIntent.UNKNOWN;
+  }
+
   /**
    * Normalize text for pattern matching
    * 
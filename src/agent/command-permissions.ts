@@ -0,0 +1,248 @@
+/**
+ * Command Permissions
+ *
+ * Decides which Linear users may run which agent commands. A permission
+ * policy defines roles (RTE, Product Manager, Team member) as sets of
+ * allowed intents and grants them to users, to everyone acting on a team's
+ * work, or to everyone by default. Grants can be limited to teams.
+ *
+ * The policy is a JSON file named by AGENT_PERMISSIONS_FILE. Without one,
+ * every command is allowed.
+ */
+import fs from 'fs';
+import { CommandIntent, ParsedCommand } from './types/command-types';
+
+/**
+ * A role and the intents it allows ("*" for all)
+ */
+export interface CommandRole {
+  intents: Array<CommandIntent | '*'>;
+  description?: string;
+}
+
+/**
+ * A role granted everywhere (role name) or only for some teams
+ */
+export type RoleGrant = string | {
+  role: string;
+  /** Team IDs, keys or names the grant covers; all teams if omitted */
+  teams?: string[];
+};
+
+/**
+ * Permission policy
+ */
+export interface PermissionPolicy {
+  roles: Record<string, CommandRole>;
+
+  /** Grants by Linear user ID or email */
+  users?: Record<string, RoleGrant[]>;
+
+  /** Grants for everyone running commands against a team (by team ID, key or name) */
+  teams?: Record<string, RoleGrant[]>;
+
+  /** Grants for everyone */
+  defaultRoles?: RoleGrant[];
+}
+
+/**
+ * Result of a permission check
+ */
+export interface PermissionDecision {
+  allowed: boolean;
+  reason: string;
+  /** Role that allowed the command */
+  role?: string;
+  /** Team the command targets, if known */
+  team?: string;
+}
+
+/** Loaded policies by file, with the modification time they were read at */
+const policyCache = new Map<string, { mtimeMs: number; policy: PermissionPolicy }>();
+
+/**
+ * Validates a permission policy
+ *
+ * @returns Validation errors, empty if the policy is valid
+ */
+export function validatePermissionPolicy(policy: any): string[] {
+  const errors: string[] = [];
+  const intents: string[] = Object.values(CommandIntent);
+
+  if (!policy || typeof policy.roles !== 'object' || Array.isArray(policy.roles)) {
+    return ['roles must be an object of role definitions'];
+  }
+
+  for (const [name, role] of Object.entries<any>(policy.roles)) {
+    if (!Array.isArray(role?.intents)) {
+      errors.push(`Role ${name} must list its intents`);
+      continue;
+    }
+    role.intents
+      .filter((intent: string) => intent !== '*' && !intents.includes(intent))
+      .forEach((intent: string) => errors.push(`Role ${name} has unknown intent: ${intent}`));
+  }
+
+  const checkGrants = (owner: string, grants: any) => {
+    if (!Array.isArray(grants)) {
+      errors.push(`Grants for ${owner} must be an array`);
+      return;
+    }
+    for (const grant of grants) {
+      const role = typeof grant === 'string' ? grant : grant?.role;
+      if (!policy.roles[role]) {
+        errors.push(`Grant for ${owner} refers to unknown role: ${role}`);
+      } else if (typeof grant !== 'string' && grant.teams !== undefined && !Array.isArray(grant.teams)) {
+        errors.push(`Grant of ${role} for ${owner} must list teams as an array`);
+      }
+    }
+  };
+
+  Object.entries(policy.users || {}).forEach(([user, grants]) => checkGrants(`user ${user}`, grants));
+  Object.entries(policy.teams || {}).forEach(([team, grants]) => checkGrants(`team ${team}`, grants));
+  if (policy.defaultRoles !== undefined) {
+    checkGrants('defaultRoles', policy.defaultRoles);
+  }
+
+  return errors;
+}
+
+/**
+ * Loads the permission policy
+ *
+ * The file is only read again once its modification time changes.
+ *
+ * @param filePath Policy file; defaults to AGENT_PERMISSIONS_FILE
+ * @returns The policy, or null if none is configured
+ * @throws If the file cannot be read or the policy is invalid
+ */
+export function loadPermissionPolicy(filePath = process.env.AGENT_PERMISSIONS_FILE): PermissionPolicy | null {
+  if (!filePath) {
+    return null;
+  }
+
+  const { mtimeMs } = fs.statSync(filePath);
+  const cached = policyCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.policy;
+  }
+
+  const policy = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const errors = validatePermissionPolicy(policy);
+  if (errors.length > 0) {
+    throw new Error(`Invalid permission policy ${filePath}: ${errors.join('; ')}`);
+  }
+
+  policyCache.set(filePath, { mtimeMs, policy });
+  return policy;
+}
+
+/**
+ * Checks commands against the permission policy
+ */
+export class CommandPermissions {
+  /**
+   * @param policy Policy to enforce; by default the configured policy is loaded on
+   * every check, so edits apply without a restart
+   */
+  constructor(private policy?: PermissionPolicy | null) {}
+
+  /**
+   * Checks whether the command's requester may run it
+   *
+   * Commands without a requester were not issued by a user (scheduled or
+   * internal commands) and are not restricted.
+   *
+   * @throws If the configured policy cannot be loaded
+   */
+  check(command: ParsedCommand): PermissionDecision {
+    const policy = this.policy === undefined ? loadPermissionPolicy() : this.policy;
+    const targetTeams = this.getTargetTeams(command);
+    const teamKeys = targetTeams.map(targetTeam => targetTeam.toLowerCase());
+    const team = targetTeams[0];
+
+    if (!policy) {
+      return { allowed: true, reason: 'No permission policy configured', team };
+    }
+
+    if (!command.requester) {
+      return { allowed: true, reason: 'System command', team };
+    }
+
+    const grants = this.getGrants(policy, command, teamKeys);
+    let teamLimited = false;
+
+    for (const grant of grants) {
+      const role = policy.roles[grant.role];
+      if (!role || !(role.intents.includes('*') || role.intents.includes(command.intent))) {
+        continue;
+      }
+
+      if (grant.teams && !grant.teams.some(grantTeam => teamKeys.includes(grantTeam.toLowerCase()))) {
+        teamLimited = true;
+        continue;
+      }
+
+      return { allowed: true, reason: `Allowed by role ${grant.role}`, role: grant.role, team };
+    }
+
+    return {
+      allowed: false,
+      reason: teamLimited
+        ? `No role allows ${command.intent} for ${team ? `team ${team}` : 'commands without a team'}`
+        : `No role allows ${command.intent}`,
+      team
+    };
+  }
+
+  /**
+   * Collects the requester's grants with their team limits
+   */
+  private getGrants(
+    policy: PermissionPolicy,
+    command: ParsedCommand,
+    teamKeys: string[]
+  ): Array<{ role: string; teams?: string[] }> {
+    const requester = command.requester!;
+    const userKeys = [requester.id, requester.email?.toLowerCase()].filter(Boolean) as string[];
+    const grants: Array<{ role: string; teams?: string[] }> = [];
+
+    const addGrants = (entries: RoleGrant[] = [], teams?: string[]) => {
+      for (const entry of entries) {
+        grants.push(typeof entry === 'string'
+          ? { role: entry, teams }
+          : { role: entry.role, teams: teams || entry.teams });
+      }
+    };
+
+    for (const [user, entries] of Object.entries(policy.users || {})) {
+      if (userKeys.includes(user) || userKeys.includes(user.toLowerCase())) {
+        addGrants(entries);
+      }
+    }
+
+    // Team grants only cover commands against that team
+    for (const [teamKey, entries] of Object.entries(policy.teams || {})) {
+      if (teamKeys.includes(teamKey.toLowerCase())) {
+        addGrants(entries, [teamKey]);
+      }
+    }
+
+    addGrants(policy.defaultRoles);
+
+    return grants;
+  }
+
+  /**
+   * Identifiers of the team a command targets: the explicit team parameter,
+   * or else the issue's team
+   */
+  private getTargetTeams(command: ParsedCommand): string[] {
+    const parameters = command.parameters || {};
+    const identifiers = parameters.explicit?.teamId && parameters.teamId
+      ? [parameters.teamId]
+      : [command.context.teamKey, command.context.teamId, command.context.teamName];
+
+    return identifiers.filter((identifier): identifier is string => !!identifier);
+  }
+}
@@ -10,6 +10,7 @@ import { LinearClientWrapper } from '../linear/client';
 import { EnhancedCLIExecutor } from './enhanced-cli-executor';
 import { EnhancedBehaviorExecutor } from './enhanced-behavior-executor';
 import { AgentCommandParser } from './command-parser';
+import { createCommandParser } from './patterns/custom-patterns';
 import { ParsedCommand } from './types/command-types';
 import { BehaviorTrigger, BehaviorTriggerType } from './types/autonomous-types';
 import * as logger from '../utils/logger';
@@ -96,7 +97,8 @@ export class EnhancedAgentSystem {
         await this.behaviorExecutor.initialize();
       }
 
-      // Command parser initializes itself in constructor, no need to call initialize
+      // Rebuild the parser with the organization's custom command patterns
+      this.commandParser = await createCommandParser(this.config.linear.organizationId);
 
       this.initialized = true;
       logger.info('Enhanced agent system initialized successfully');
@@ -121,8 +123,14 @@ export class EnhancedAgentSystem {
     });
 
     try {
-      // Parse the command
-      const parsedCommand = this.commandParser.parseCommand(input, context || {});
+      // Parse the command, which may chain several steps
+      const commands = this.commandParser.parseCommandChain(input, context || {});
+      
+      if (commands.length > 1) {
+        return await this.processCommandChain(commands, startTime);
+      }
+      
+      const [parsedCommand] = commands;
       
       // Execute with enhanced response
       const result = await this.cliExecutor.executeWithEnhancedResponse(parsedCommand);
@@ -149,6 +157,30 @@ export class EnhancedAgentSystem {
     }
   }
 
+  /**
+   * Execute chained commands as a pipeline with one consolidated response
+   */
+  private async processCommandChain(commands: ParsedCommand[], startTime: number): Promise<any> {
+    const chainResult = await this.cliExecutor.executeChain(commands);
+    const response = this.cliExecutor.formatChain(chainResult);
+
+    // Trigger follow-up behaviors for each completed step
+    if (this.config.behaviors?.enabled) {
+      for (const step of chainResult.steps.filter(step => step.success)) {
+        await this.triggerPostCommandBehaviors(step.command, step.results[step.results.length - 1]);
+      }
+    }
+
+    logger.info('Command chain processing complete', {
+      commands: commands.map(command => command.intent),
+      success: chainResult.success,
+      failedStep: chainResult.failedStep,
+      executionTime: Date.now() - startTime
+    });
+
+    return response;
+  }
+
   /**
    * Process a webhook event
    */
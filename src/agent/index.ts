@@ -15,7 +15,10 @@ export * from './patterns/command-patterns';
 export { AgentCommandParser } from './command-parser';
 export { ParameterExtractor } from './parameter-extractor';
 export { ParameterValidator } from './parameter-validator';
+export { ClarificationManager } from './clarification-manager';
 export { CLIExecutor } from './cli-executor';
+export { CommandPermissions } from './command-permissions';
+export { CommandConfirmationManager } from './command-confirmation';
 export { ResponseFormatter } from './response-formatter';
 export { ParameterTranslator } from './parameter-translator';
 
@@ -1,70 +1,37 @@
 /**
  * Behavior Scheduler (LIN-59)
  * 
- * Manages scheduled execution of autonomous behaviors using cron-like patterns.
+ * Manages scheduled execution of autonomous behaviors using cron expressions
+ * (evaluated in each schedule's time zone) or fixed intervals.
+ *
+ * Cron schedules run every occurrence since the last check rather than only
+ * the current minute, so a late check never loses a run. The time of the last
+ * check is persisted per behavior; after a restart, occurrences missed while
+ * the agent was down are handled by the schedule's catch-up policy.
  */
 
 import { 
   BehaviorSchedule, 
   BehaviorTrigger, 
   BehaviorTriggerType,
-  BehaviorContext 
+  BehaviorContext,
+  ScheduleCatchUpPolicy
 } from '../types/autonomous-types';
 import { AutonomousBehaviorEngine } from '../autonomous-engine';
+import { CronExpression } from './cron-expression';
+import { getBehaviorScheduleLastRun, saveBehaviorScheduleLastRun } from '../../db/models';
 import * as logger from '../../utils/logger';
 
-/**
- * Simple cron expression parser for basic scheduling
- */
-class CronParser {
-  /**
-   * Parse a simple cron expression and check if current time matches
-   * Supports: minute hour dayOfMonth month dayOfWeek
-   * Example: "0 9 * * 1" = Every Monday at 9:00 AM
-   */
-  static matches(cronExpression: string, date: Date = new Date()): boolean {
-    const parts = cronExpression.split(' ');
-    if (parts.length !== 5) return false;
+const CATCH_UP_POLICIES: ScheduleCatchUpPolicy[] = ['skip', 'once', 'all'];
 
-    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
-    
-    // Check each component
-    if (!this.matchesComponent(minute, date.getMinutes())) return false;
-    if (!this.matchesComponent(hour, date.getHours())) return false;
-    if (!this.matchesComponent(dayOfMonth, date.getDate())) return false;
-    if (!this.matchesComponent(month, date.getMonth() + 1)) return false;
-    if (!this.matchesComponent(dayOfWeek, date.getDay())) return false;
-
-    return true;
-  }
+/** How often cron schedules are checked */
+const CRON_CHECK_INTERVAL_MS = 60 * 1000;
 
-  private static matchesComponent(pattern: string, value: number): boolean {
-    if (pattern === '*') return true;
-    
-    // Handle comma-separated values
-    if (pattern.includes(',')) {
-      return pattern.split(',').some(p => parseInt(p) === value);
-    }
-    
-    // Handle ranges
-    if (pattern.includes('-')) {
-      const [start, end] = pattern.split('-').map(p => parseInt(p));
-      return value >= start && value <= end;
-    }
-    
-    // Handle step values
-    if (pattern.includes('/')) {
-      const [range, step] = pattern.split('/');
-      const stepValue = parseInt(step);
-      if (range === '*') {
-        return value % stepValue === 0;
-      }
-    }
-    
-    // Direct match
-    return parseInt(pattern) === value;
-  }
-}
+/** Occurrences older than this when checked count as missed rather than late */
+const MISSED_RUN_AFTER_MS = 5 * 60 * 1000;
+
+/** Most missed occurrences run at once under the 'all' policy */
+const MAX_CATCH_UP_RUNS = 50;
 
 /**
  * Manages scheduled execution of behaviors
@@ -72,8 +39,11 @@ class CronParser {
 export class BehaviorScheduler {
   private schedules: Map<string, BehaviorSchedule> = new Map();
   private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private crons: Map<string, CronExpression> = new Map();
+  private lastRuns: Map<string, Date> = new Map();
   private cronInterval?: NodeJS.Timeout;
   private running: boolean = false;
+  private checking: boolean = false;
 
   constructor(private engine: AutonomousBehaviorEngine) {}
 
@@ -92,7 +62,7 @@ export class BehaviorScheduler {
     // Start cron checker (runs every minute)
     this.cronInterval = setInterval(() => {
       this.checkCronSchedules();
-    }, 60000); // 1 minute
+    }, CRON_CHECK_INTERVAL_MS);
 
     // Check immediately
     this.checkCronSchedules();
@@ -127,14 +97,28 @@ export class BehaviorScheduler {
 
   /**
    * Add a schedule
+   *
+   * @throws If the cron expression, time zone or catch-up policy is invalid
    */
   addSchedule(schedule: BehaviorSchedule): void {
+    if (schedule.catchUp && !CATCH_UP_POLICIES.includes(schedule.catchUp)) {
+      throw new Error(`Invalid catch-up policy "${schedule.catchUp}" (expected ${CATCH_UP_POLICIES.join(', ')})`);
+    }
+
+    if (schedule.cronExpression) {
+      const timeZone = schedule.timeZone || process.env.BEHAVIOR_SCHEDULE_TIMEZONE || undefined;
+      this.crons.set(schedule.behaviorId, new CronExpression(schedule.cronExpression, timeZone));
+    } else {
+      this.crons.delete(schedule.behaviorId);
+    }
+
     this.schedules.set(schedule.behaviorId, schedule);
     
     logger.info('Added behavior schedule', {
       behaviorId: schedule.behaviorId,
       type: schedule.cronExpression ? 'cron' : 'interval',
-      expression: schedule.cronExpression || `${schedule.interval}ms`
+      expression: schedule.cronExpression || `${schedule.interval}ms`,
+      timeZone: this.crons.get(schedule.behaviorId)?.timeZone
     });
 
     // If interval-based and scheduler is running, start it immediately
@@ -148,6 +132,8 @@ export class BehaviorScheduler {
    */
   removeSchedule(behaviorId: string): void {
     this.schedules.delete(behaviorId);
+    this.crons.delete(behaviorId);
+    this.lastRuns.delete(behaviorId);
     
     // Clear interval if exists
     const interval = this.intervals.get(behaviorId);
@@ -167,30 +153,134 @@ export class BehaviorScheduler {
   }
 
   /**
-   * Check cron schedules
+   * Check cron schedules and run the occurrences due since the last check
    */
-  private checkCronSchedules(): void {
-    const now = new Date();
-    
-    for (const [behaviorId, schedule] of this.schedules) {
-      if (!schedule.active || !schedule.cronExpression) continue;
+  async checkCronSchedules(now: Date = new Date()): Promise<void> {
+    // A slow behavior can outlast the check interval; the next check picks up its runs
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      for (const [behaviorId, schedule] of this.schedules) {
+        if (!schedule.active || !schedule.cronExpression) continue;
 
-      try {
-        if (CronParser.matches(schedule.cronExpression, now)) {
-          logger.debug('Cron schedule matched', {
+        try {
+          await this.runDueOccurrences(behaviorId, schedule, now);
+        } catch (error) {
+          logger.error('Error checking cron schedule', {
             behaviorId,
-            cronExpression: schedule.cronExpression,
-            time: now.toISOString()
+            error: error instanceof Error ? error.message : 'Unknown error'
           });
-
-          this.triggerBehavior(behaviorId, schedule);
         }
-      } catch (error) {
-        logger.error('Error checking cron schedule', {
-          behaviorId,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
       }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Run a cron schedule's occurrences between its last run and now
+   */
+  private async runDueOccurrences(behaviorId: string, schedule: BehaviorSchedule, now: Date): Promise<void> {
+    const cron = this.crons.get(behaviorId)!;
+    const lastRun = await this.getLastRun(behaviorId, now);
+    const due = cron.between(lastRun, now);
+    if (due.length === 0) return;
+
+    const policy = this.getCatchUpPolicy(schedule);
+    const missed = due.filter(time => now.getTime() - time.getTime() > MISSED_RUN_AFTER_MS);
+    const runs = this.selectRuns(due, missed, policy);
+
+    if (missed.length > 0) {
+      logger.warn('Cron schedule missed runs', {
+        behaviorId,
+        cronExpression: schedule.cronExpression,
+        missed: missed.length,
+        since: lastRun.toISOString(),
+        catchUp: policy,
+        running: runs.length
+      });
+    }
+
+    // Record the check before running so a crash mid-run does not repeat it
+    await this.saveLastRun(behaviorId, now);
+
+    for (const scheduledTime of runs) {
+      logger.debug('Cron schedule matched', {
+        behaviorId,
+        cronExpression: schedule.cronExpression,
+        timeZone: cron.timeZone,
+        time: scheduledTime.toISOString()
+      });
+
+      await this.triggerBehavior(behaviorId, schedule, scheduledTime, missed.includes(scheduledTime));
+    }
+  }
+
+  /**
+   * Picks which due occurrences to run under a catch-up policy
+   */
+  private selectRuns(due: Date[], missed: Date[], policy: ScheduleCatchUpPolicy): Date[] {
+    switch (policy) {
+      case 'all':
+        return due.slice(-MAX_CATCH_UP_RUNS);
+      case 'once':
+        return [due[due.length - 1]];
+      case 'skip': {
+        const onTime = due.filter(time => !missed.includes(time));
+        return onTime.length > 0 ? [onTime[onTime.length - 1]] : [];
+      }
+    }
+  }
+
+  private getCatchUpPolicy(schedule: BehaviorSchedule): ScheduleCatchUpPolicy {
+    const fallback = process.env.BEHAVIOR_SCHEDULE_CATCH_UP as ScheduleCatchUpPolicy;
+    return schedule.catchUp || (CATCH_UP_POLICIES.includes(fallback) ? fallback : 'once');
+  }
+
+  /**
+   * Gets when a cron schedule was last checked, loading the persisted time
+   * once; a schedule never checked before starts with the current minute
+   */
+  private async getLastRun(behaviorId: string, now: Date): Promise<Date> {
+    const known = this.lastRuns.get(behaviorId);
+    if (known) {
+      return known;
+    }
+
+    let lastRun: Date | null = null;
+    try {
+      lastRun = await getBehaviorScheduleLastRun(behaviorId);
+    } catch (error) {
+      logger.error('Failed to load schedule last run; not catching up', {
+        behaviorId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    if (!lastRun) {
+      // Just before the current minute, so an occurrence this minute still runs
+      lastRun = new Date(Math.floor(now.getTime() / 60000) * 60000 - 1);
+    }
+
+    this.lastRuns.set(behaviorId, lastRun);
+    return lastRun;
+  }
+
+  /**
+   * Records when a cron schedule was checked; the in-memory time is kept if
+   * it cannot be persisted
+   */
+  private async saveLastRun(behaviorId: string, lastRun: Date): Promise<void> {
+    this.lastRuns.set(behaviorId, lastRun);
+
+    try {
+      await saveBehaviorScheduleLastRun(behaviorId, lastRun);
+    } catch (error) {
+      logger.error('Failed to persist schedule last run', {
+        behaviorId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
   }
 
@@ -231,14 +321,21 @@ export class BehaviorScheduler {
   /**
    * Trigger a scheduled behavior
    */
-  private async triggerBehavior(behaviorId: string, schedule: BehaviorSchedule): Promise<void> {
+  private async triggerBehavior(
+    behaviorId: string,
+    schedule: BehaviorSchedule,
+    scheduledTime: Date = new Date(),
+    catchUp: boolean = false
+  ): Promise<void> {
     try {
       const trigger: BehaviorTrigger = {
-        id: `schedule_${behaviorId}_${Date.now()}`,
+        id: `schedule_${behaviorId}_${scheduledTime.getTime()}`,
         type: BehaviorTriggerType.SCHEDULE,
         payload: {
           behaviorId,
-          schedule
+          schedule,
+          scheduledTime,
+          catchUp
         },
         context: {
           ...schedule.context,
@@ -249,7 +346,8 @@ export class BehaviorScheduler {
 
       logger.info('Triggering scheduled behavior', {
         behaviorId,
-        triggerId: trigger.id
+        triggerId: trigger.id,
+        catchUp
       });
 
       await this.engine.processTrigger(trigger);
@@ -277,6 +375,11 @@ export class BehaviorScheduler {
     if (schedule) {
       schedule.active = active;
       
+      if (active && schedule.cronExpression) {
+        // Occurrences while paused are not missed runs
+        this.saveLastRun(behaviorId, new Date());
+      }
+
       if (!active) {
         // Stop interval if deactivated
         const interval = this.intervals.get(behaviorId);
@@ -0,0 +1,306 @@
+/**
+ * Cron Expressions (LIN-59)
+ *
+ * Standard five-field cron expressions (minute hour day-of-month month
+ * day-of-week) evaluated in an IANA time zone. Each field accepts `*`,
+ * values, ranges, steps (`*\/15`, `1-30/2`, `5/10`) and lists mixing them;
+ * months and weekdays also accept names (`JAN`, `MON-FRI`) and Sunday is
+ * 0 or 7. `?` is the same as `*`. The macros @yearly, @annually, @monthly,
+ * @weekly, @daily, @midnight and @hourly are supported.
+ *
+ * As in Vixie cron, when both day fields are restricted a day matches if
+ * either does. Times skipped by a daylight saving change run shifted by the
+ * change (02:30 becomes 03:30); repeated times run once.
+ */
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+  },
+  { name: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/** Years searched for the next run before giving up (e.g. "0 0 30 2 *") */
+const SEARCH_YEARS = 5;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * A parsed cron expression bound to a time zone
+ */
+export class CronExpression {
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly daysOfMonth: Set<number>;
+  private readonly months: Set<number>;
+  private readonly daysOfWeek: Set<number>;
+  private readonly dayOfMonthRestricted: boolean;
+  private readonly dayOfWeekRestricted: boolean;
+
+  /**
+   * @param expression Cron expression or macro
+   * @param timeZone IANA time zone; the server's time zone if omitted
+   * @throws If the expression or time zone is invalid
+   */
+  constructor(public readonly expression: string, public readonly timeZone: string = getLocalTimeZone()) {
+    assertTimeZone(timeZone);
+
+    const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+    const parts = normalized.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+      parseField(part, FIELDS[index], expression)
+    );
+
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = new Set([...daysOfWeek].map(day => day % 7));
+    this.dayOfMonthRestricted = !isWildcard(parts[2]);
+    this.dayOfWeekRestricted = !isWildcard(parts[4]);
+  }
+
+  /**
+   * Checks whether the expression matches the minute containing a date
+   */
+  matches(date: Date): boolean {
+    const wall = toWallTime(date, this.timeZone);
+    return this.months.has(wall.getUTCMonth() + 1) &&
+      this.matchesDay(wall) &&
+      this.hours.has(wall.getUTCHours()) &&
+      this.minutes.has(wall.getUTCMinutes());
+  }
+
+  /**
+   * Finds the first run strictly after a date
+   *
+   * @returns The run, or null if there is none in the next few years
+   */
+  next(after: Date): Date | null {
+    const start = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+    // Wall-clock time in the schedule's time zone, kept in a UTC Date for arithmetic
+    const wall = toWallTime(new Date(start), this.timeZone);
+    const limit = wall.getUTCFullYear() + SEARCH_YEARS;
+
+    while (wall.getUTCFullYear() <= limit) {
+      if (!this.months.has(wall.getUTCMonth() + 1)) {
+        wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+        wall.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(wall)) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        wall.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(wall.getUTCHours())) {
+        wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(wall.getUTCMinutes())) {
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      const run = fromWallTime(wall, this.timeZone);
+      if (run.getTime() >= start) {
+        return run;
+      }
+      // A repeated wall time that already passed in the earlier offset
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+    }
+
+    return null;
+  }
+
+  /**
+   * Lists the runs after one date up to and including another, oldest first
+   *
+   * @param limit Most runs to return
+   */
+  between(after: Date, until: Date, limit = Number.MAX_SAFE_INTEGER): Date[] {
+    const runs: Date[] = [];
+    let run = this.next(after);
+
+    while (run && run.getTime() <= until.getTime() && runs.length < limit) {
+      runs.push(run);
+      run = this.next(run);
+    }
+
+    return runs;
+  }
+
+  private matchesDay(wall: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(wall.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(wall.getUTCDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+}
+
+/**
+ * Checks whether a string is a valid IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Parses one field into the set of values it allows
+ */
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = (reason: string) =>
+    new Error(`Invalid cron expression "${expression}": ${spec.name} ${reason}`);
+
+  for (const item of field.split(',')) {
+    const [range, stepText, extra] = item.split('/');
+    if (extra !== undefined || range === '') {
+      throw invalid(`has an invalid item "${item}"`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid(`has an invalid step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec, invalid);
+      end = parseValue(to, spec, invalid);
+      if (start > end) {
+        throw invalid(`has a reversed range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec, invalid);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a number or name within a field's bounds
+ */
+function parseValue(text: string, spec: FieldSpec, invalid: (reason: string) => Error): number {
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = nameIndex >= 0
+    ? nameIndex + (spec.name === 'month' ? 1 : 0)
+    : /^\d+$/.test(text) ? Number(text) : NaN;
+
+  if (isNaN(value) || value < spec.min || value > spec.max) {
+    throw invalid(`value "${text}" is not between ${spec.min} and ${spec.max}`);
+  }
+  return value;
+}
+
+function isWildcard(field: string): boolean {
+  return field === '*' || field === '?';
+}
+
+function assertTimeZone(timeZone: string): void {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid time zone "${timeZone}": expected an IANA name such as America/New_York`);
+  }
+}
+
+function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of an instant in a time zone, as a UTC Date (seconds dropped)
+ */
+function toWallTime(date: Date, timeZone: string): Date {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute));
+}
+
+/**
+ * Instant at which a time zone's clock shows a wall-clock time
+ *
+ * A wall time skipped by a daylight saving change is read with the offset
+ * from before the change, which moves it forward by the gap.
+ */
+function fromWallTime(wall: Date, timeZone: string): Date {
+  const offsetAt = (instant: number) => toWallTime(new Date(instant), timeZone).getTime() - instant;
+
+  let instant = wall.getTime() - offsetAt(wall.getTime());
+  instant = wall.getTime() - offsetAt(instant);
+
+  if (toWallTime(new Date(instant), timeZone).getTime() < wall.getTime()) {
+    // Skipped time: use the offset from before the change
+    instant = wall.getTime() - offsetAt(instant - 12 * 60 * MINUTE_MS);
+  }
+
+  return new Date(instant);
+}
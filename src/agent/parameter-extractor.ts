@@ -51,7 +51,25 @@ const EXTRACTION_PATTERNS = {
   DIRECTION: /\b(upstream|downstream|both|all)\s*(?:dependencies|deps)?\b/i,
   
   // Format: as table, in markdown, graph view
-  FORMAT: /\b(?:as|in|format)\s*(table|list|graph|markdown|md|tree)\b/i
+  FORMAT: /\b(?:as|in|format)\s*(table|list|graph|markdown|md|tree)\b/i,
+  
+  // ROAM status: as owned, mark resolved, mitigate this risk
+  ROAM_STATUS: /\b(resolved?|own(?:ed)?|accept(?:ed)?|mitigat(?:ed?))\b/i,
+  
+  // ROAM status changes: mark as owned, set to resolved, accept this risk
+  ROAM_STATUS_CHANGE: /\b(?:(?:as|to|mark(?:ed)?)\s+(resolved|owned|accepted|mitigated)|(resolve|own|accept|mitigate))\b/i,
+  
+  // Risk board requests: show PI risks, roam board
+  RISK_BOARD: /\b(show|list|display|board|summary|register)\b/i,
+  
+  // Risk owner: owned by @alice, owner alice
+  RISK_OWNER: /\b(?:owned\s+by|owner(?:\s+is)?|assign(?:ed)?\s+to)\s+@?([A-Za-z0-9._-]+)/i,
+  
+  // Execution IDs: exec_1718000000000_abc123def
+  EXECUTION_ID: /\b(exec_\d+_[a-z0-9]+)\b/i,
+  
+  // Job IDs: job_1718000000000_abc123def
+  JOB_ID: /\b(job_\d+_[a-z0-9]+)\b/i
 };
 
 /**
@@ -90,19 +108,13 @@ export class ParameterExtractor {
       // Extract explicit parameters from text
       const explicitParams = this.extractExplicitParameters(text, intent);
       
-      // Infer implicit parameters from context
-      const contextualParams = this.inferContextualParameters(intent, context);
-      
-      // Merge parameters (explicit takes precedence)
-      const merged = this.mergeParameters(explicitParams, contextualParams);
-      
-      // Apply intent-specific defaults
-      const withDefaults = this.applyIntentDefaults(merged, intent);
+      // Fill in context and defaults
+      const withDefaults = this.completeParameters(explicitParams, intent, context);
       
       logger.debug('Parameters extracted', {
         intent,
         explicit: Object.keys(explicitParams.explicit).filter(k => explicitParams.explicit[k]),
-        inferred: Object.keys(contextualParams.explicit).filter(k => !contextualParams.explicit[k]),
+        inferred: Object.keys(withDefaults.explicit).filter(k => !withDefaults.explicit[k]),
         processingTime: Date.now() - startTime
       });
       
@@ -123,6 +135,30 @@ export class ParameterExtractor {
     }
   }
 
+  /**
+   * Complete explicitly given parameters with values from the issue context
+   * and intent defaults
+   * 
+   * @param explicitParams Parameters the user gave
+   * @param intent Command intent
+   * @param context Issue context
+   * @returns Complete parameters; explicit values take precedence
+   */
+  public completeParameters(
+    explicitParams: CommandParameters,
+    intent: CommandIntent,
+    context: IssueContext
+  ): CommandParameters {
+    // Infer implicit parameters from context
+    const contextualParams = this.inferContextualParameters(intent, context);
+    
+    // Merge parameters (explicit takes precedence)
+    const merged = this.mergeParameters(explicitParams, contextualParams);
+    
+    // Apply intent-specific defaults
+    return this.applyIntentDefaults(merged, intent);
+  }
+
   /**
    * Extract explicit parameters from command text
    */
@@ -230,9 +266,65 @@ export class ParameterExtractor {
       params.raw!.format = formatMatch[0];
     }
     
+    // Extract ROAM status and owner
+    if (intent === CommandIntent.RISK_MANAGE) {
+      this.extractRiskParameters(text, params);
+    }
+    
+    // Extract the execution to revert
+    if (intent === CommandIntent.UNDO) {
+      const executionMatch = text.match(EXTRACTION_PATTERNS.EXECUTION_ID);
+      if (executionMatch) {
+        params.executionId = executionMatch[1].toLowerCase();
+        params.explicit.executionId = true;
+        params.raw!.executionId = executionMatch[0];
+      }
+    }
+    
+    // Extract the job to report on or cancel
+    if (intent === CommandIntent.JOB_STATUS || intent === CommandIntent.JOB_CANCEL) {
+      const jobMatch = text.match(EXTRACTION_PATTERNS.JOB_ID);
+      if (jobMatch) {
+        params.jobId = jobMatch[1].toLowerCase();
+        params.explicit.jobId = true;
+        params.raw!.jobId = jobMatch[0];
+      }
+    }
+    
     return params;
   }
 
+  /**
+   * Extract ROAM status and risk owner
+   */
+  private extractRiskParameters(text: string, params: CommandParameters): void {
+    // A status change wins over board words ("mark as owned and show the board");
+    // otherwise board requests only read risks, even when they mention a status
+    const changeMatch = text.match(EXTRACTION_PATTERNS.ROAM_STATUS_CHANGE);
+    const statusMatch = changeMatch || (EXTRACTION_PATTERNS.RISK_BOARD.test(text)
+      ? null
+      : text.match(EXTRACTION_PATTERNS.ROAM_STATUS));
+    if (statusMatch) {
+      params.roamStatus = this.normalizeROAMStatus(statusMatch[1] || statusMatch[2]);
+      params.explicit.roamStatus = true;
+      params.raw!.roamStatus = statusMatch[0];
+    }
+    
+    const ownerMatch = text.match(EXTRACTION_PATTERNS.RISK_OWNER);
+    if (ownerMatch) {
+      params.riskOwner = ownerMatch[1];
+      params.explicit.riskOwner = true;
+      params.raw!.riskOwner = ownerMatch[0];
+      
+      // An @mention of the owner is not a team reference
+      if (params.raw!.teamId === `@${ownerMatch[1]}`) {
+        delete params.teamId;
+        delete params.explicit.teamId;
+        delete params.raw!.teamId;
+      }
+    }
+  }
+
   /**
    * Infer parameters from issue context
    */
@@ -269,6 +361,12 @@ export class ParameterExtractor {
       }
     }
     
+    // ROAM the current issue unless another risk is named
+    if (intent === CommandIntent.RISK_MANAGE && context.issueId) {
+      params.riskId = context.issueId;
+      params.explicit.riskId = false;
+    }
+    
     // Infer scope for analysis commands
     if (this.isAnalysisCommand(intent)) {
       params.scope = this.inferScope(context);
@@ -346,6 +444,13 @@ export class ParameterExtractor {
         }
         break;
         
+      case CommandIntent.CAPACITY_CHECK:
+        // Default to the current and next iterations
+        if (!withDefaults.iterations) {
+          withDefaults.iterations = 2;
+        }
+        break;
+        
       case CommandIntent.STATUS_CHECK:
         // Default to table format
         if (!withDefaults.format) {
@@ -421,6 +526,18 @@ export class ParameterExtractor {
     }
   }
 
+  /**
+   * Normalize ROAM status parameter
+   */
+  private normalizeROAMStatus(status: string): CommandParameters['roamStatus'] {
+    const normalized = status.toLowerCase();
+    
+    if (normalized.startsWith('resolve')) return 'resolved';
+    if (normalized.startsWith('own')) return 'owned';
+    if (normalized.startsWith('accept')) return 'accepted';
+    return 'mitigated';
+  }
+
   /**
    * Normalize format parameter
    */
@@ -30,7 +30,7 @@ export interface StoryDecompositionParams {
   storyId: string;
   story: any; // Story object
   maxPoints: number;
-  decompositionStrategy?: 'technical' | 'functional' | 'mixed';
+  decompositionStrategy?: 'technical' | 'functional' | 'mixed' | 'workflow';
 }
 
 export interface ValueAnalysisParams {
@@ -146,8 +146,10 @@ export class ParameterTranslator {
     // Map target size to maxPoints
     translated.maxPoints = params.targetSize || 5;
 
-    // Infer decomposition strategy from depth
-    if (params.depth === 'detailed') {
+    // Use the requested strategy, otherwise infer it from depth
+    if (params.decompositionStrategy) {
+      translated.decompositionStrategy = params.decompositionStrategy;
+    } else if (params.depth === 'detailed') {
       translated.decompositionStrategy = 'technical';
     } else if (params.depth === 'full') {
       translated.decompositionStrategy = 'functional';
@@ -23,7 +23,7 @@ import * as logger from '../utils/logger';
 const INTENT_REQUIREMENTS: Record<CommandIntent, IntentParameterRequirements> = {
   [CommandIntent.ART_PLAN]: {
     required: [],
-    optional: ['piId', 'teamId', 'timeframe'],
+    optional: ['piId', 'teamId', 'timeframe', 'iterations', 'bufferCapacity', 'dryRun'],
     contextual: ['piId', 'teamId'],
     exclusive: [['piId', 'timeframe']]
   },
@@ -40,9 +40,15 @@ const INTENT_REQUIREMENTS: Record<CommandIntent, IntentParameterRequirements> =
     contextual: ['scope', 'timeframe']
   },
   
+  [CommandIntent.CAPACITY_CHECK]: {
+    required: ['teamId'],
+    optional: ['timeframe', 'iterations'],
+    contextual: ['teamId']
+  },
+  
   [CommandIntent.STORY_DECOMPOSE]: {
     required: ['storyId'],
-    optional: ['targetSize', 'storyPoints'],
+    optional: ['targetSize', 'storyPoints', 'decompositionStrategy', 'teamId', 'dryRun'],
     contextual: ['storyId', 'storyPoints']
   },
   
@@ -58,6 +64,30 @@ const INTENT_REQUIREMENTS: Record<CommandIntent, IntentParameterRequirements> =
     contextual: ['storyId']
   },
   
+  [CommandIntent.RISK_MANAGE]: {
+    required: [],
+    optional: ['roamStatus', 'riskOwner', 'teamId'],
+    contextual: ['riskId', 'teamId']
+  },
+  
+  [CommandIntent.UNDO]: {
+    required: [],
+    optional: ['executionId'],
+    contextual: []
+  },
+  
+  [CommandIntent.JOB_STATUS]: {
+    required: [],
+    optional: ['jobId'],
+    contextual: []
+  },
+  
+  [CommandIntent.JOB_CANCEL]: {
+    required: [],
+    optional: ['jobId'],
+    contextual: []
+  },
+  
   [CommandIntent.STATUS_CHECK]: {
     required: [],
     optional: ['scope', 'format', 'timeframe'],
@@ -66,7 +96,7 @@ const INTENT_REQUIREMENTS: Record<CommandIntent, IntentParameterRequirements> =
   
   [CommandIntent.HELP]: {
     required: [],
-    optional: [],
+    optional: ['helpTopic'],
     contextual: []
   },
   
@@ -209,6 +239,14 @@ export class ParameterValidator {
     if (params.maxDepth !== undefined) {
       this.validateMaxDepth(params.maxDepth, errors);
     }
+    
+    if (params.iterations !== undefined) {
+      this.validateIterations(params.iterations, errors);
+    }
+    
+    if (params.bufferCapacity !== undefined) {
+      this.validateBufferCapacity(params.bufferCapacity, errors);
+    }
   }
 
   /**
@@ -220,7 +258,8 @@ export class ParameterValidator {
     suggestions: ParameterSuggestion[]
   ): Promise<void> {
     try {
-      const teams = await this.linearClient.getTeams();
+      const result = await this.linearClient.getTeams();
+      const teams: any[] = Array.isArray(result) ? result : result?.nodes || [];
       const team = teams.find((t: any) => 
         t.id === teamId || 
         t.key === teamId || 
@@ -370,6 +409,46 @@ export class ParameterValidator {
     }
   }
 
+  /**
+   * Validate number of iterations
+   */
+  private validateIterations(
+    iterations: number,
+    errors: ValidationError[]
+  ): void {
+    if (!Number.isInteger(iterations) || iterations < 1 || iterations > 12) {
+      errors.push({
+        parameter: 'iterations',
+        message: `Iterations must be a whole number between 1 and 12`,
+        code: ValidationErrorCode.OUT_OF_RANGE,
+        context: { 
+          min: 1, 
+          max: 12 
+        }
+      });
+    }
+  }
+
+  /**
+   * Validate buffer capacity share
+   */
+  private validateBufferCapacity(
+    buffer: number,
+    errors: ValidationError[]
+  ): void {
+    if (buffer < 0 || buffer > 0.5) {
+      errors.push({
+        parameter: 'bufferCapacity',
+        message: `Buffer capacity must be between 0 and 0.5`,
+        code: ValidationErrorCode.OUT_OF_RANGE,
+        context: { 
+          min: 0, 
+          max: 0.5 
+        }
+      });
+    }
+  }
+
   /**
    * Validate parameter compatibility
    */
@@ -0,0 +1,360 @@
+/**
+ * Command Parser Evaluation
+ *
+ * Runs the command parser and parameter extractor over a labeled corpus of
+ * mentions and reports per-intent precision/recall, a confusion matrix and
+ * the misclassified examples. Used to check whether changes to the command
+ * patterns or the parser configuration improve recognition.
+ */
+import { promises as fs } from 'fs';
+import { AgentCommandParser } from './command-parser';
+import { ParameterExtractor } from './parameter-extractor';
+import { CommandIntent, IssueContext, ParserConfig } from './types/command-types';
+
+/**
+ * A labeled mention
+ */
+export interface LabeledMention {
+  /** Mention text, without the @saafepulse prefix */
+  text: string;
+
+  /** Intent the parser should recognize */
+  intent: CommandIntent;
+
+  /** Parameters the extractor should produce; only the listed keys are compared */
+  parameters?: Record<string, any>;
+
+  /** Issue context overrides for this mention */
+  context?: Partial<IssueContext>;
+}
+
+/**
+ * Minimum results for an evaluation to pass
+ */
+export interface EvaluationThresholds {
+  /** Share of mentions with the expected intent */
+  minAccuracy: number;
+
+  /** Precision of every recognized intent the parser predicted */
+  minPrecision: number;
+
+  /** Recall of every labeled intent */
+  minRecall: number;
+
+  /** Share of mentions with expected parameters whose parameters all match */
+  minParameterAccuracy: number;
+}
+
+/**
+ * A corpus of labeled mentions
+ */
+export interface MentionCorpus {
+  /** Thresholds for this corpus; defaults apply to missing values */
+  thresholds?: Partial<EvaluationThresholds>;
+
+  /** Issue context shared by all mentions */
+  context?: Partial<IssueContext>;
+
+  mentions: LabeledMention[];
+}
+
+/**
+ * Precision and recall for one intent
+ */
+export interface IntentMetrics {
+  intent: CommandIntent;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** Null when the parser never predicted the intent */
+  precision: number | null;
+  /** Null when no mention is labeled with the intent */
+  recall: number | null;
+}
+
+/**
+ * A mention whose intent or parameters did not match its label
+ */
+export interface MisclassifiedMention {
+  text: string;
+  expectedIntent: CommandIntent;
+  actualIntent: CommandIntent;
+  confidence: number;
+  /** Expected parameters that were missing or different */
+  parameterMismatches: Array<{ parameter: string; expected: any; actual: any }>;
+}
+
+/**
+ * Result of evaluating a corpus
+ */
+export interface EvaluationReport {
+  total: number;
+  accuracy: number;
+  /** Null when no mention lists expected parameters */
+  parameterAccuracy: number | null;
+  intents: IntentMetrics[];
+  /** Counts by expected intent, then by predicted intent */
+  confusionMatrix: Record<string, Record<string, number>>;
+  misclassified: MisclassifiedMention[];
+  thresholds: EvaluationThresholds;
+  /** Threshold violations; empty if the evaluation passed */
+  failures: string[];
+  passed: boolean;
+}
+
+/**
+ * Default thresholds for corpora that do not configure their own
+ */
+export const DEFAULT_EVALUATION_THRESHOLDS: EvaluationThresholds = {
+  minAccuracy: 0.9,
+  minPrecision: 0.8,
+  minRecall: 0.8,
+  minParameterAccuracy: 0.9
+};
+
+/**
+ * Issue context used when the corpus does not provide one. The team is left
+ * empty so extracted parameters come from the mention text only.
+ */
+const DEFAULT_CONTEXT: IssueContext = {
+  issueId: 'corpus-issue',
+  issueIdentifier: 'EVAL-1',
+  issueTitle: 'Parser evaluation',
+  teamId: '',
+  labels: []
+};
+
+/**
+ * Loads and validates a mention corpus
+ *
+ * A plain array of mentions is accepted as a corpus without thresholds.
+ *
+ * @param corpusPath Path to the corpus JSON file
+ */
+export const loadMentionCorpus = async (corpusPath: string): Promise<MentionCorpus> => {
+  const content = JSON.parse(await fs.readFile(corpusPath, 'utf8'));
+  const corpus: MentionCorpus = Array.isArray(content) ? { mentions: content } : content;
+
+  if (!Array.isArray(corpus.mentions) || corpus.mentions.length === 0) {
+    throw new Error(`Corpus has no mentions: ${corpusPath}`);
+  }
+
+  const intents = Object.values(CommandIntent) as string[];
+  corpus.mentions.forEach((mention, index) => {
+    if (typeof mention.text !== 'string' || mention.text.trim() === '') {
+      throw new Error(`Mention ${index + 1} in ${corpusPath} has no text`);
+    }
+    if (!intents.includes(mention.intent)) {
+      throw new Error(`Mention ${index + 1} in ${corpusPath} has unknown intent: ${mention.intent}`);
+    }
+  });
+
+  return corpus;
+};
+
+/**
+ * Evaluates the parser and parameter extractor against a corpus
+ *
+ * @param corpus Labeled mentions
+ * @param parserConfig Parser configuration to evaluate
+ * @param thresholds Threshold overrides, taking precedence over the corpus thresholds
+ */
+export const evaluateParser = (
+  corpus: MentionCorpus,
+  parserConfig: Partial<ParserConfig> = {},
+  thresholds: Partial<EvaluationThresholds> = {}
+): EvaluationReport => {
+  const parser = new AgentCommandParser(parserConfig);
+  const extractor = new ParameterExtractor();
+
+  const confusionMatrix: Record<string, Record<string, number>> = {};
+  const misclassified: MisclassifiedMention[] = [];
+  let correct = 0;
+  let withParameters = 0;
+  let parametersCorrect = 0;
+
+  for (const mention of corpus.mentions) {
+    const context: IssueContext = { ...DEFAULT_CONTEXT, ...corpus.context, ...mention.context };
+    const command = parser.parseCommand(mention.text, context);
+
+    confusionMatrix[mention.intent] = confusionMatrix[mention.intent] || {};
+    confusionMatrix[mention.intent][command.intent] = (confusionMatrix[mention.intent][command.intent] || 0) + 1;
+
+    const intentMatches = command.intent === mention.intent;
+    if (intentMatches) {
+      correct++;
+    }
+
+    let parameterMismatches: MisclassifiedMention['parameterMismatches'] = [];
+    if (mention.parameters && Object.keys(mention.parameters).length > 0) {
+      withParameters++;
+      const extracted: Record<string, any> =
+        extractor.extractParameters(command.normalizedText, command.intent, context);
+      parameterMismatches = Object.entries(mention.parameters)
+        .filter(([parameter, expected]) => !isEqual(expected, extracted[parameter]))
+        .map(([parameter, expected]) => ({ parameter, expected, actual: extracted[parameter] }));
+
+      if (intentMatches && parameterMismatches.length === 0) {
+        parametersCorrect++;
+      }
+    }
+
+    if (!intentMatches || parameterMismatches.length > 0) {
+      misclassified.push({
+        text: mention.text,
+        expectedIntent: mention.intent,
+        actualIntent: command.intent,
+        confidence: command.confidence,
+        parameterMismatches
+      });
+    }
+  }
+
+  const intents = calculateIntentMetrics(confusionMatrix);
+  const total = corpus.mentions.length;
+  const accuracy = correct / total;
+  const parameterAccuracy = withParameters > 0 ? parametersCorrect / withParameters : null;
+  const appliedThresholds: EvaluationThresholds = {
+    ...DEFAULT_EVALUATION_THRESHOLDS,
+    ...corpus.thresholds,
+    ...thresholds
+  };
+  const failures = checkThresholds(accuracy, parameterAccuracy, intents, appliedThresholds);
+
+  return {
+    total,
+    accuracy,
+    parameterAccuracy,
+    intents,
+    confusionMatrix,
+    misclassified,
+    thresholds: appliedThresholds,
+    failures,
+    passed: failures.length === 0
+  };
+};
+
+/**
+ * Formats a report for the terminal
+ */
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+  const lines: string[] = [];
+  const width = Math.max(...report.intents.map(metrics => metrics.intent.length), 'intent'.length);
+
+  lines.push(`Mentions: ${report.total}`);
+  lines.push(`Intent accuracy: ${formatRatio(report.accuracy)}`);
+  lines.push(`Parameter accuracy: ${formatRatio(report.parameterAccuracy)}`);
+  lines.push('');
+
+  lines.push(`${'intent'.padEnd(width)}  precision  recall  tp  fp  fn`);
+  for (const metrics of report.intents) {
+    lines.push([
+      metrics.intent.padEnd(width),
+      formatRatio(metrics.precision).padStart(9),
+      formatRatio(metrics.recall).padStart(6),
+      String(metrics.truePositives).padStart(2),
+      String(metrics.falsePositives).padStart(2),
+      String(metrics.falseNegatives).padStart(2)
+    ].join('  '));
+  }
+  lines.push('');
+
+  // Columns are numbered to keep the matrix narrow; the numbers follow the row order
+  const labels = report.intents.map(metrics => metrics.intent);
+  lines.push('Confusion matrix (rows: expected, columns: predicted)');
+  lines.push(`${''.padEnd(width + 4)}${labels.map((_, index) => String(index + 1).padStart(4)).join('')}`);
+  labels.forEach((expected, row) => {
+    const counts = labels.map(predicted => String(report.confusionMatrix[expected]?.[predicted] || 0).padStart(4));
+    lines.push(`${String(row + 1).padStart(2)}. ${expected.padEnd(width)}${counts.join('')}`);
+  });
+
+  if (report.misclassified.length > 0) {
+    lines.push('');
+    lines.push(`Misclassified (${report.misclassified.length})`);
+    for (const mention of report.misclassified) {
+      lines.push(`- "${mention.text}": expected ${mention.expectedIntent}, got ${mention.actualIntent} ` +
+        `(confidence ${mention.confidence.toFixed(2)})`);
+      for (const mismatch of mention.parameterMismatches) {
+        lines.push(`    ${mismatch.parameter}: expected ${JSON.stringify(mismatch.expected)}, ` +
+          `got ${JSON.stringify(mismatch.actual)}`);
+      }
+    }
+  }
+
+  lines.push('');
+  if (report.passed) {
+    lines.push('PASSED');
+  } else {
+    lines.push('FAILED');
+    report.failures.forEach(failure => lines.push(`- ${failure}`));
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Calculates precision and recall for every intent that was labeled or predicted
+ */
+function calculateIntentMetrics(confusionMatrix: Record<string, Record<string, number>>): IntentMetrics[] {
+  const labels = new Set<string>(Object.keys(confusionMatrix));
+  Object.values(confusionMatrix).forEach(row => Object.keys(row).forEach(label => labels.add(label)));
+
+  // Keep the enum order so reports are comparable between runs
+  return (Object.values(CommandIntent) as CommandIntent[])
+    .filter(intent => labels.has(intent))
+    .map(intent => {
+      const truePositives = confusionMatrix[intent]?.[intent] || 0;
+      const labeled = Object.values(confusionMatrix[intent] || {}).reduce((sum, count) => sum + count, 0);
+      const predicted = Object.values(confusionMatrix).reduce((sum, row) => sum + (row[intent] || 0), 0);
+
+      return {
+        intent,
+        truePositives,
+        falsePositives: predicted - truePositives,
+        falseNegatives: labeled - truePositives,
+        precision: predicted > 0 ? truePositives / predicted : null,
+        recall: labeled > 0 ? truePositives / labeled : null
+      };
+    });
+}
+
+/**
+ * Lists the thresholds the results fall below
+ */
+function checkThresholds(
+  accuracy: number,
+  parameterAccuracy: number | null,
+  intents: IntentMetrics[],
+  thresholds: EvaluationThresholds
+): string[] {
+  const failures: string[] = [];
+
+  if (accuracy < thresholds.minAccuracy) {
+    failures.push(`Intent accuracy ${formatRatio(accuracy)} is below ${formatRatio(thresholds.minAccuracy)}`);
+  }
+
+  if (parameterAccuracy !== null && parameterAccuracy < thresholds.minParameterAccuracy) {
+    failures.push(`Parameter accuracy ${formatRatio(parameterAccuracy)} is below ${formatRatio(thresholds.minParameterAccuracy)}`);
+  }
+
+  for (const metrics of intents) {
+    // Mentions wrongly left unknown already count against the recall of their intent
+    if (metrics.intent !== CommandIntent.UNKNOWN &&
+        metrics.precision !== null && metrics.precision < thresholds.minPrecision) {
+      failures.push(`Precision for ${metrics.intent} ${formatRatio(metrics.precision)} is below ${formatRatio(thresholds.minPrecision)}`);
+    }
+    if (metrics.recall !== null && metrics.recall < thresholds.minRecall) {
+      failures.push(`Recall for ${metrics.intent} ${formatRatio(metrics.recall)} is below ${formatRatio(thresholds.minRecall)}`);
+    }
+  }
+
+  return failures;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? 'n/a' : value.toFixed(2);
+}
+
+function isEqual(expected: any, actual: any): boolean {
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
@@ -5,7 +5,7 @@
  * Each pattern set maps natural language variations to specific intents.
  */
 
-import { CommandIntent, PatternDefinition } from '../types/command-types';
+import { CommandIntent, PatternDefinition, PatternExtension } from '../types/command-types';
 
 /**
  * ART Planning command patterns
@@ -157,6 +157,7 @@ export const STORY_SCORE_PATTERNS: PatternDefinition = {
   minConfidence: 0.85,
   patterns: [
     /\b(score|estimate)\s+(this\s+)?(story|issue|ticket)\b/i,
+    /\b(score|estimate)\s+(the\s+|these\s+|those\s+|all\s+)?(sub-?)?(stories|issues|tickets)\b/i,
     /\b(calculate|compute)\s+(story\s+)?points?\b/i,
     /\bwsjf\s+(score|scoring|calculation)\b/i,
     /\b(apply|calculate|compute)\s+wsjf\b/i,
@@ -169,11 +170,126 @@ export const STORY_SCORE_PATTERNS: PatternDefinition = {
     'estimate story points',
     'calculate WSJF',
     'apply WSJF scoring',
-    'how many points?'
+    'how many points?',
+    'score the sub-stories'
   ],
   description: 'Apply WSJF scoring or estimate story points'
 };
 
+/**
+ * Risk Management (ROAM) patterns
+ */
+export const RISK_MANAGE_PATTERNS: PatternDefinition = {
+  intent: CommandIntent.RISK_MANAGE,
+  priority: 9,
+  minConfidence: 0.9,
+  patterns: [
+    /\broam\s+(this\s+)?(risk|issue)\b/i,
+    /\broam\s+(board|status|summary)\b/i,
+    /\b(show|list|display)\s+(the\s+)?(pi\s+)?risks?(\s+board)?\b/i,
+    /\b(mark|set)\s+(this\s+)?risk\s+(as\s+)?(resolved|owned|accepted|mitigated)\b/i,
+    /\b(resolve|own|accept|mitigate)\s+this\s+risk\b/i,
+    /\brisk\s+(board|register)\b/i
+  ],
+  keywords: ['roam', 'risk', 'risks', 'resolved', 'owned', 'accepted', 'mitigated'],
+  examples: [
+    'roam this risk as owned by @alice',
+    'show PI risks',
+    'mark this risk as mitigated',
+    'accept this risk',
+    'roam board'
+  ],
+  description: 'ROAM PI risks (Resolved, Owned, Accepted, Mitigated) and show the risk board'
+};
+
+/**
+ * Undo patterns
+ */
+export const UNDO_PATTERNS: PatternDefinition = {
+  intent: CommandIntent.UNDO,
+  priority: 9,
+  minConfidence: 0.9,
+  patterns: [
+    /^undo\b/i,
+    /\b(undo|revert|roll\s*back)\s+(that|this|it|everything|exec_\w+)\b/i,
+    /\b(undo|revert|roll\s*back)\s+(the\s+|your\s+)?(last\s+)?(changes?|execution|command|plan)\b/i
+  ],
+  keywords: ['undo', 'revert', 'rollback'],
+  examples: [
+    'undo',
+    'undo that',
+    'revert your last changes',
+    'undo exec_1718000000000_abc123def'
+  ],
+  description: 'Revert every change of the latest agent command on this issue, or of a given execution'
+};
+
+/**
+ * Job Status patterns
+ */
+export const JOB_STATUS_PATTERNS: PatternDefinition = {
+  intent: CommandIntent.JOB_STATUS,
+  priority: 9,
+  minConfidence: 0.9,
+  patterns: [
+    /^job\s+job_\w+/i,
+    /\bjob\s+(status|progress)\b/i,
+    /\b(status|progress)\s+of\s+(the\s+|my\s+|this\s+)?(job\b|job_\w+)/i,
+    /\b(how\s+is|how'?s)\s+(the\s+|my\s+)?(job\b|job_\w+)/i
+  ],
+  keywords: ['job', 'progress'],
+  examples: [
+    'job status job_1718000000000_abc123def',
+    'job status',
+    'what is the progress of my job?'
+  ],
+  description: 'Report the stage and outcome of a long-running command job'
+};
+
+/**
+ * Job Cancel patterns
+ */
+export const JOB_CANCEL_PATTERNS: PatternDefinition = {
+  intent: CommandIntent.JOB_CANCEL,
+  priority: 9,
+  minConfidence: 0.9,
+  patterns: [
+    /^(cancel|abort)\b/i,
+    /\b(cancel|stop|abort|kill)\s+(the\s+|that\s+|this\s+|my\s+)?(running\s+)?(job\b|job_\w+)/i
+  ],
+  keywords: ['cancel', 'abort', 'stop'],
+  examples: [
+    'cancel job_1718000000000_abc123def',
+    'cancel',
+    'stop the running job'
+  ],
+  description: 'Cancel a queued or running command job'
+};
+
+/**
+ * Capacity Check patterns
+ */
+export const CAPACITY_CHECK_PATTERNS: PatternDefinition = {
+  intent: CommandIntent.CAPACITY_CHECK,
+  priority: 9,
+  minConfidence: 0.9,
+  patterns: [
+    /\b(check|show|review|analy[sz]e)\s+(the\s+)?(team\s+)?capacity\b/i,
+    /\bcapacity\s+(check|report|utili[sz]ation)\b/i,
+    /\b(what'?s?|what\s+is)\s+(the\s+)?(team'?s?\s+)?capacity\b/i,
+    /\b(are\s+we|is\s+(the\s+)?team\s+\S+)\s+over[-\s]?committed\b/i,
+    /\bover[-\s]?commitment\s+risk\b/i
+  ],
+  keywords: ['capacity', 'utilization', 'overcommitted', 'overcommitment', 'load'],
+  examples: [
+    'check capacity for Team Phoenix next iteration',
+    'show team capacity',
+    'capacity report for this sprint',
+    'are we overcommitted?'
+  ],
+  description: 'Check team capacity and utilization for the current and next iterations'
+};
+
 /**
  * Status Check patterns
  */
@@ -237,6 +353,11 @@ export const ALL_PATTERNS: PatternDefinition[] = [
   STORY_DECOMPOSE_PATTERNS,
   DEPENDENCY_MAP_PATTERNS,
   STORY_SCORE_PATTERNS,
+  RISK_MANAGE_PATTERNS,
+  UNDO_PATTERNS,
+  JOB_STATUS_PATTERNS,
+  JOB_CANCEL_PATTERNS,
+  CAPACITY_CHECK_PATTERNS,
   STATUS_CHECK_PATTERNS,
   HELP_PATTERNS
 ];
@@ -257,7 +378,27 @@ export function getPatternsByIntent(intent: CommandIntent): PatternDefinition |
 
 /**
  * Get all patterns sorted by priority
+ * 
+ * @param extensions Additional patterns, keywords and examples merged into their intents
  */
-export function getPatternsByPriority(): PatternDefinition[] {
-  return [...ALL_PATTERNS].sort((a, b) => b.priority - a.priority);
+export function getPatternsByPriority(extensions: PatternExtension[] = []): PatternDefinition[] {
+  return ALL_PATTERNS
+    .map(definition => {
+      const additions = extensions.filter(extension => extension.intent === definition.intent);
+      if (additions.length === 0) {
+        return definition;
+      }
+      
+      return {
+        ...definition,
+        patterns: [...definition.patterns, ...additions.flatMap(extension => extension.patterns)],
+        keywords: unique([...(definition.keywords || []), ...additions.flatMap(extension => extension.keywords || [])]),
+        examples: unique([...definition.examples, ...additions.flatMap(extension => extension.examples || [])])
+      };
+    })
+    .sort((a, b) => b.priority - a.priority);
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
 }
\ No newline at end of file
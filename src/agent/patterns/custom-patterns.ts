@@ -0,0 +1,148 @@
+/**
+ * Organization Command Patterns
+ *
+ * Loads and validates the regexes, keywords and examples organizations add to
+ * the built-in intents ("carve this up" for story decomposition). Patterns are
+ * stored per organization in the custom_command_patterns table.
+ */
+
+import { AgentCommandParser } from '../command-parser';
+import { CommandIntent, ParserConfig, PatternExtension } from '../types/command-types';
+import { CustomCommandPatternDB, getCustomCommandPatternsByOrganization } from '../../db/models';
+import * as logger from '../../utils/logger';
+
+/** Maximum length of a custom regex */
+const MAX_PATTERN_LENGTH = 200;
+
+/** Allowed regex flags; 'g' and 'y' make RegExp.test stateful */
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+/**
+ * Custom pattern as submitted through the API
+ */
+export interface CustomPatternInput {
+  intent: string;
+  pattern: string;
+  flags?: string;
+  keywords?: string[];
+  examples?: string[];
+}
+
+/**
+ * Validates a custom pattern before it is saved
+ *
+ * @param input Submitted pattern
+ * @returns Validation errors, empty if the pattern is valid
+ */
+export function validateCustomPattern(input: CustomPatternInput): string[] {
+  const errors: string[] = [];
+  const intents: string[] = Object.values(CommandIntent).filter(intent => intent !== CommandIntent.UNKNOWN);
+
+  if (!intents.includes(input.intent)) {
+    errors.push(`Unknown intent: ${input.intent}. Expected one of: ${intents.join(', ')}`);
+  }
+
+  for (const field of ['keywords', 'examples'] as const) {
+    const values = input[field];
+    if (values !== undefined && (!Array.isArray(values) || values.some(value => typeof value !== 'string'))) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  }
+
+  if (typeof input.pattern !== 'string' || input.pattern.trim() === '') {
+    errors.push('pattern is required');
+    return errors;
+  }
+
+  if (input.pattern.length > MAX_PATTERN_LENGTH) {
+    errors.push(`pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+  }
+
+  const flags = input.flags ?? 'i';
+  if (typeof flags !== 'string' || !ALLOWED_FLAGS.test(flags) || new Set(flags).size !== flags.length) {
+    errors.push(`Invalid regex flags: ${flags}. Allowed flags: i, m, s, u`);
+    return errors;
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(input.pattern, flags);
+  } catch (error) {
+    errors.push(`Invalid regex: ${(error as Error).message}`);
+    return errors;
+  }
+
+  if (regex.test('')) {
+    errors.push('pattern must not match empty text');
+  }
+
+  for (const example of Array.isArray(input.examples) ? input.examples : []) {
+    if (typeof example === 'string' && !regex.test(example)) {
+      errors.push(`Example does not match the pattern: "${example}"`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Converts stored patterns into pattern extensions, skipping any that no longer compile
+ */
+export function toPatternExtensions(rows: CustomCommandPatternDB[]): PatternExtension[] {
+  const extensions: PatternExtension[] = [];
+
+  for (const row of rows) {
+    try {
+      extensions.push({
+        intent: row.intent as CommandIntent,
+        patterns: [new RegExp(row.pattern, row.flags)],
+        keywords: row.keywords || [],
+        examples: row.examples || []
+      });
+    } catch (error) {
+      logger.warn('Skipping invalid custom command pattern', {
+        patternId: row.id,
+        organizationId: row.organization_id,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  return extensions;
+}
+
+/**
+ * Loads an organization's custom patterns
+ *
+ * The built-in patterns still work when the registry is unavailable, so load
+ * failures are logged and yield no extensions.
+ */
+export async function loadCustomPatterns(organizationId: string): Promise<PatternExtension[]> {
+  try {
+    return toPatternExtensions(await getCustomCommandPatternsByOrganization(organizationId));
+  } catch (error) {
+    logger.warn('Unable to load custom command patterns', {
+      organizationId,
+      error: (error as Error).message
+    });
+    return [];
+  }
+}
+
+/**
+ * Builds a command parser with an organization's custom patterns
+ *
+ * @param organizationId Organization to load patterns for; built-in patterns only if omitted
+ * @param config Parser configuration
+ */
+export async function createCommandParser(
+  organizationId?: string,
+  config: Partial<ParserConfig> = {}
+): Promise<AgentCommandParser> {
+  const customPatterns = organizationId ? await loadCustomPatterns(organizationId) : [];
+
+  return new AgentCommandParser({
+    ...config,
+    customPatterns: [...(config.customPatterns || []), ...customPatterns]
+  });
+}
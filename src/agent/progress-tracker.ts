@@ -18,6 +18,8 @@ interface TrackedOperation {
   operationId: string;
   issueId: string;
   commentId?: string;
+  /** Body of the progress comment as last posted */
+  commentBody?: string;
   startTime: Date;
   lastUpdateTime: Date;
   updateInterval: NodeJS.Timeout;
@@ -254,14 +256,13 @@ export class ProgressTracker {
     try {
       if (operation.commentId) {
         // Update existing comment
-        // TODO: Linear SDK doesn't have updateComment - need to implement workaround
-        // For now, skip updating existing comments
-        logger.warn('Comment update skipped - method not available', { commentId: operation.commentId });
+        await this.linearClient.updateComment(operation.commentId, content);
       } else {
         // Create new comment if needed
         const comment = await this.linearClient.createComment(operation.issueId, content);
         operation.commentId = comment.id;
       }
+      operation.commentBody = content;
       operation.lastUpdateTime = new Date();
     } catch (error) {
       logger.error('Failed to send progress update', {
@@ -284,11 +285,8 @@ export class ProgressTracker {
     const completionNote = '\n\n✅ **Operation completed successfully!** See the response below.';
 
     try {
-      const currentContent = await this.getCommentContent(operation.commentId);
-      // TODO: Linear SDK doesn't have updateComment - need to implement workaround
-      logger.warn('Completion update skipped - updateComment not available', { 
-        commentId: operation.commentId 
-      });
+      const currentContent = operation.commentBody ?? await this.getCommentContent(operation.commentId);
+      await this.linearClient.updateComment(operation.commentId, currentContent + completionNote);
     } catch (error) {
       logger.error('Failed to send completion update', {
         operationId: operation.operationId,
@@ -309,11 +307,8 @@ export class ProgressTracker {
     const errorNote = '\n\n❌ **Operation failed.** See the error details below.';
 
     try {
-      const currentContent = await this.getCommentContent(operation.commentId);
-      // TODO: Linear SDK doesn't have updateComment - need to implement workaround
-      logger.warn('Error update skipped - updateComment not available', { 
-        commentId: operation.commentId 
-      });
+      const currentContent = operation.commentBody ?? await this.getCommentContent(operation.commentId);
+      await this.linearClient.updateComment(operation.commentId, currentContent + errorNote);
     } catch (updateError) {
       logger.error('Failed to send error update', {
         operationId,
@@ -5,7 +5,7 @@
  * Provides structured, actionable responses with proper formatting.
  */
 
-import { ExecutionResult } from './cli-executor';
+import { ExecutionResult, ChainExecutionResult } from './cli-executor';
 import { ParsedCommand, CommandIntent } from './types/command-types';
 import { AgentResponse } from './responses';
 import * as logger from '../utils/logger';
@@ -56,6 +56,10 @@ export class ResponseFormatter {
     result: ExecutionResult,
     command: ParsedCommand
   ): AgentResponse {
+    if (result.metadata?.permissionDenied) {
+      return this.formatPermissionDeniedResponse(result, command);
+    }
+
     if (!result.success) {
       return this.formatErrorResponse(result, command);
     }
@@ -83,6 +87,21 @@ export class ResponseFormatter {
       case CommandIntent.STORY_SCORE:
         return this.formatScoringResponse(result, command);
       
+      case CommandIntent.RISK_MANAGE:
+        return this.formatRiskResponse(result, command);
+      
+      case CommandIntent.CAPACITY_CHECK:
+        return this.formatCapacityResponse(result, command);
+      
+      case CommandIntent.UNDO:
+        return this.formatUndoResponse(result, command);
+      
+      case CommandIntent.JOB_STATUS:
+        return this.formatJobStatusResponse(result, command);
+      
+      case CommandIntent.JOB_CANCEL:
+        return this.formatJobCancelResponse(result, command);
+      
       case CommandIntent.HELP:
         return this.formatHelpResponse(result, command);
       
@@ -91,6 +110,75 @@ export class ResponseFormatter {
     }
   }
 
+  /**
+   * Format a command chain as one consolidated response for Linear
+   */
+  formatChainForLinear(chain: ChainExecutionResult): AgentResponse {
+    const stepFormatter = new ResponseFormatter({ ...this.options, includeMetadata: false });
+    // A resumed chain starts after the steps run before it
+    const earlierSteps = chain.steps.length > 0 ? chain.steps[0].step - 1 : 0;
+    const totalSteps = earlierSteps + chain.steps.length + chain.skipped.length + chain.pending.length;
+    const completedSteps = earlierSteps + chain.steps.filter(step => step.success && step.step !== chain.pausedStep).length;
+
+    let message: string;
+    if (chain.pausedStep) {
+      message = `## ⏸️ Command Chain Waiting at Step ${chain.pausedStep}\n\n`;
+    } else if (!chain.success) {
+      message = `## ⚠️ Command Chain Stopped at Step ${chain.failedStep}\n\n`;
+    } else {
+      message = `## 🔗 Command Chain Complete\n\n`;
+    }
+    message += `**Steps**: ${completedSteps} of ${totalSteps} completed\n\n`;
+
+    chain.steps.forEach(step => {
+      if (step.step === chain.pausedStep) {
+        message += `### ⏸️ Step ${step.step}: ${step.command.rawText}\n\n`;
+        message += `_Its changes are previewed below._\n\n`;
+        return;
+      }
+
+      message += `### ${step.success ? '✅' : '❌'} Step ${step.step}: ${step.command.rawText}\n\n`;
+
+      if (step.inputIssueIds) {
+        message += `_Ran for ${step.inputIssueIds.length} issue(s) from step ${step.step - 1}_\n\n`;
+      }
+
+      step.results.forEach(result => {
+        const formatted = stepFormatter.formatForLinear(result, step.command).message
+          .replace(/^### /gm, '##### ')
+          .replace(/^## /gm, '#### ');
+        message += `${formatted.trim()}\n\n`;
+      });
+    });
+
+    if (chain.skipped.length > 0) {
+      message += `### ⏭️ Skipped\n\n`;
+      chain.skipped.forEach(command => {
+        message += `- ${command.rawText}\n`;
+      });
+      message += '\n';
+    }
+
+    if (chain.pending.length > 0) {
+      message += `### ⏳ Runs Once the Changes Are Applied\n\n`;
+      chain.pending.forEach(command => {
+        message += `- ${command.rawText}\n`;
+      });
+      message += '\n';
+    }
+
+    if (this.options.includeMetadata) {
+      message += `\n---\n`;
+      message += `_Execution time: ${chain.executionTime}ms | ID: ${chain.executionId}_\n`;
+    }
+
+    return {
+      success: chain.success,
+      message: this.truncateMessage(message),
+      data: chain
+    };
+  }
+
   /**
    * Format ART planning response
    */
@@ -367,16 +455,15 @@ export class ResponseFormatter {
     const scoring = data.scoring;
 
     let message = `## 🎯 Story Scoring Complete\n\n`;
-    message += `**Story**: ${scoring.storyId}\n`;
+    message += `**Story**: ${scoring.identifier || scoring.storyId}\n`;
     message += `**Story Points**: ${scoring.points || 'Not set'}\n`;
-    message += `**WSJF Score**: ${scoring.wsjfScore || 'N/A'}\n\n`;
+    message += `**WSJF Score**: ${scoring.wsjfScore ?? 'N/A'}\n\n`;
 
     if (scoring.breakdown) {
       message += `### 📊 WSJF Breakdown\n\n`;
       message += `- **User/Business Value**: ${scoring.breakdown.businessValue}\n`;
       message += `- **Time Criticality**: ${scoring.breakdown.timeCriticality}\n`;
-      message += `- **Risk Reduction**: ${scoring.breakdown.riskReduction}\n`;
-      message += `- **Opportunity Enablement**: ${scoring.breakdown.opportunityEnablement}\n`;
+      message += `- **Risk Reduction / Opportunity Enablement**: ${scoring.breakdown.riskReduction}\n`;
       message += `- **Job Size**: ${scoring.breakdown.jobSize}\n\n`;
     }
 
@@ -395,6 +482,248 @@ export class ResponseFormatter {
     };
   }
 
+  /**
+   * Format ROAM risk board response
+   */
+  private formatRiskResponse(
+    result: ExecutionResult,
+    command: ParsedCommand
+  ): AgentResponse {
+    const { update, board } = result.data.risk;
+
+    let message = `## 🛡️ ROAM Risk Board\n\n`;
+
+    if (update) {
+      message += `**${update.identifier}** marked as **${this.formatROAMStatus(update.status)}**`;
+      message += update.owner ? ` (owner: @${update.owner})` : '';
+      message += `\n\n`;
+
+      if (update.warnings.length > 0) {
+        update.warnings.forEach((warning: string) => {
+          message += `> ⚠️ ${warning}\n`;
+        });
+        message += '\n';
+      }
+    }
+
+    message += `**Total Risks**: ${board.total}\n\n`;
+    message += `| ROAM | Count |\n|------|-------|\n`;
+    ['resolved', 'owned', 'accepted', 'mitigated', 'unroamed'].forEach(status => {
+      message += `| ${this.formatROAMStatus(status)} | ${board[status].length} |\n`;
+    });
+    message += '\n';
+
+    ['unroamed', 'owned', 'mitigated', 'accepted', 'resolved'].forEach(status => {
+      const risks = board[status];
+      if (risks.length === 0) {
+        return;
+      }
+
+      message += `### ${this.formatROAMStatus(status)}\n\n`;
+      risks.forEach((risk: any) => {
+        message += `- **${risk.identifier}**: ${risk.title}`;
+        message += risk.owner ? ` — @${risk.owner}` : '';
+        message += '\n';
+      });
+      message += '\n';
+    });
+
+    if (board.unroamed.length > 0 && this.options.includeNextSteps) {
+      message += `### 🎯 Next Steps\n\n`;
+      message += `1. ROAM the ${board.unroamed.length} open risk(s) with \`@saafepulse roam this risk as owned by @name\`\n`;
+      message += `2. Review owned and mitigated risks at the next ART sync\n`;
+    }
+
+    if (this.options.includeMetadata) {
+      message += this.formatMetadata(result);
+    }
+
+    return {
+      success: true,
+      message: this.truncateMessage(message)
+    };
+  }
+
+  /**
+   * Format team capacity response
+   */
+  private formatCapacityResponse(
+    result: ExecutionResult,
+    command: ParsedCommand
+  ): AgentResponse {
+    const report = result.data.capacity;
+    const focus = report.iterations.find((iteration: any) => iteration.isFocus) || report.iterations[0];
+
+    let message = `## 📊 Team Capacity Check\n\n`;
+    message += `**Team**: ${report.team.name} (${report.team.memberCount} members)\n`;
+    message += `**Average Velocity**: ${report.team.averageVelocity} points`;
+    message += report.team.velocitySource === 'default' ? ' (estimated)' : '';
+    message += `\n`;
+    message += `**Overcommitment Risk**: ${this.formatOvercommitmentRisk(report.overcommitmentRisk)}`;
+    message += focus ? ` for ${focus.name}` : '';
+    message += `\n`;
+    message += `**Confidence**: ${this.formatScore(report.confidenceScore)}\n\n`;
+
+    message += `### 📅 Utilization by Iteration\n\n`;
+    message += `| Iteration | Capacity | Planned | Utilization | Risk |\n`;
+    message += `|-----------|----------|---------|-------------|------|\n`;
+    report.iterations.forEach((iteration: any) => {
+      const name = iteration.isFocus ? `**${iteration.name}**` : iteration.name;
+      message += `| ${name} | ${iteration.availableCapacity} pts | ${iteration.allocatedPoints} pts | `;
+      message += `${Math.round(iteration.utilizationRate * 100)}% | ${this.formatOvercommitmentRisk(iteration.overcommitmentRisk)} |\n`;
+    });
+    message += '\n';
+
+    if (report.warnings.length > 0) {
+      report.warnings.forEach((warning: string) => {
+        message += `> ⚠️ ${warning}\n`;
+      });
+      message += '\n';
+    }
+
+    if (report.risks.length > 0) {
+      message += `### ⚠️ Capacity Risks\n\n`;
+      report.risks.forEach((risk: string) => {
+        message += `- ${risk}\n`;
+      });
+      message += '\n';
+    }
+
+    if (report.recommendations.length > 0 && this.options.includeNextSteps) {
+      message += `### 🎯 Recommendations\n\n`;
+      report.recommendations.forEach((recommendation: string, index: number) => {
+        message += `${index + 1}. ${recommendation}\n`;
+      });
+      message += '\n';
+    }
+
+    if (this.options.includeMetadata) {
+      message += this.formatMetadata(result);
+    }
+
+    return {
+      success: true,
+      message: this.truncateMessage(message)
+    };
+  }
+
+  /**
+   * Format job status response
+   */
+  private formatJobStatusResponse(
+    result: ExecutionResult,
+    command: ParsedCommand
+  ): AgentResponse {
+    const job = result.data.job;
+    const stages: string[] = result.data.stages || [];
+    const current = job.stage ? stages.indexOf(job.stage) : -1;
+
+    let message = `## 📋 Job Status\n\n`;
+    message += `**Job**: \`${job.id}\`\n`;
+    message += `**Command**: ${job.command?.rawText || job.intent}\n`;
+    message += `**Status**: ${job.status}\n`;
+    if (job.stage) {
+      message += `**Stage**: ${job.stage} (${job.progress}%)\n`;
+    }
+    message += `**Queued**: ${new Date(job.created_at).toLocaleString()}\n`;
+    if (job.started_at) {
+      message += `**Started**: ${new Date(job.started_at).toLocaleString()}\n`;
+    }
+    if (job.finished_at) {
+      message += `**Finished**: ${new Date(job.finished_at).toLocaleString()}\n`;
+    }
+    if (job.cancelled_by) {
+      message += `**Cancelled By**: ${job.cancelled_by}\n`;
+    }
+    if (job.error) {
+      message += `**Error**: ${job.error}\n`;
+    }
+    message += '\n';
+
+    if (job.status === 'running' && stages.length > 0) {
+      message += `### Stages\n\n`;
+      stages.forEach((stage, index) => {
+        const icon = index < current ? '✅' : index === current ? '🔄' : '⬜';
+        message += `- ${icon} ${stage}\n`;
+      });
+      message += `\n_Run \`@saafepulse cancel ${job.id}\` to stop it._\n\n`;
+    }
+
+    if (this.options.includeMetadata) {
+      message += this.formatMetadata(result);
+    }
+
+    return {
+      success: true,
+      message: this.truncateMessage(message)
+    };
+  }
+
+  /**
+   * Format job cancel response
+   */
+  private formatJobCancelResponse(
+    result: ExecutionResult,
+    command: ParsedCommand
+  ): AgentResponse {
+    const { job, stopped } = result.data.cancellation;
+
+    let message = `## 🛑 Job Cancelled\n\n`;
+    message += `**Job**: \`${job.id}\`\n\n`;
+    message += stopped
+      ? `The job was stopped before it changed anything.\n`
+      : `The job stops at its next stage and discards its result; its progress comment will say when.\n`;
+
+    return {
+      success: true,
+      message: this.truncateMessage(message)
+    };
+  }
+
+  /**
+   * Format undo response
+   */
+  private formatUndoResponse(
+    result: ExecutionResult,
+    command: ParsedCommand
+  ): AgentResponse {
+    const report = result.data.undo;
+    const total = report.reverted.length + report.failed.length;
+
+    let message = `## ${report.failed.length === 0 ? '↩️' : '⚠️'} Changes Reverted\n\n`;
+    message += `**Execution**: \`${report.executionId}\`\n`;
+    message += `**Reverted**: ${report.reverted.length} of ${total} changes\n`;
+    if (report.alreadyReverted > 0) {
+      message += `**Already Reverted**: ${report.alreadyReverted}\n`;
+    }
+    message += '\n';
+
+    if (report.reverted.length > 0) {
+      message += `### ✅ Reverted\n\n`;
+      report.reverted.forEach((step: any) => {
+        message += `- ${step.description}\n`;
+      });
+      message += '\n';
+    }
+
+    if (report.failed.length > 0) {
+      message += `### ❌ Could Not Revert\n\n`;
+      report.failed.forEach((step: any) => {
+        message += `- ${step.description}: ${step.error}\n`;
+      });
+      message += `\n_Fix these by hand, or run \`@saafepulse undo ${report.executionId}\` again to retry._\n\n`;
+    }
+
+    if (this.options.includeMetadata) {
+      message += this.formatMetadata(result);
+    }
+
+    return {
+      success: true,
+      message: this.truncateMessage(message)
+    };
+  }
+
   /**
    * Format help response
    */
@@ -404,6 +733,14 @@ export class ResponseFormatter {
   ): AgentResponse {
     const data = result.data;
 
+    // Help for one structured command is generated from its definition
+    if (typeof data.help === 'string') {
+      return {
+        success: true,
+        message: this.truncateMessage(data.help)
+      };
+    }
+
     let message = `## 🤖 SAFe PULSE Commands\n\n`;
     message += `I understand the following commands:\n\n`;
 
@@ -418,12 +755,18 @@ export class ResponseFormatter {
     message += `- \`@saafepulse decompose this story into 5 points\`\n`;
     message += `- \`@saafepulse analyze value for current sprint\`\n`;
     message += `- \`@saafepulse map dependencies upstream\`\n`;
-    message += `- \`@saafepulse check status\`\n\n`;
+    message += `- \`@saafepulse check status\`\n`;
+    message += `- \`@saafepulse check capacity for Team Phoenix next iteration\`\n`;
+    message += `- \`@saafepulse roam this risk as owned by @alice\`\n`;
+    message += `- \`@saafepulse undo\`\n`;
+    message += `- \`@saafepulse job status\`\n`;
+    message += `- \`@saafepulse /decompose --max-points 3 --strategy workflow\`\n\n`;
 
     message += `### 💡 Tips\n\n`;
     message += `- I use context from the current issue when possible\n`;
     message += `- Specify parameters explicitly to override defaults\n`;
     message += `- Use natural language - I'll understand your intent\n`;
+    message += `- Start with a slash command for exact control; \`@saafepulse /help\` lists them\n`;
 
     return {
       success: true,
@@ -431,6 +774,31 @@ export class ResponseFormatter {
     };
   }
 
+  /**
+   * Format refusal for a command the requester may not run
+   */
+  private formatPermissionDeniedResponse(
+    result: ExecutionResult,
+    command: ParsedCommand
+  ): AgentResponse {
+    const name = command.requester?.name ? `, ${command.requester.name}` : '';
+
+    let message = `## 🔒 Permission Needed\n\n`;
+    message += `Sorry${name}, you don't have permission to run **${command.intent}** here.\n\n`;
+    message += `Nothing was changed. If you need this command, ask your Release Train Engineer `;
+    message += `to grant your role access in the agent's permission policy.\n`;
+
+    if (this.options.includeMetadata && result.metadata?.executionId) {
+      message += `\n---\n`;
+      message += `_Execution ID: ${result.metadata.executionId}_\n`;
+    }
+
+    return {
+      success: false,
+      message: this.truncateMessage(message)
+    };
+  }
+
   /**
    * Format error response
    */
@@ -529,6 +897,34 @@ export class ResponseFormatter {
     return `${indicator} ${percentage}%`;
   }
 
+  /**
+   * Format ROAM status
+   */
+  private formatROAMStatus(status: string): string {
+    const statusMap: Record<string, string> = {
+      'resolved': '✅ Resolved',
+      'owned': '👤 Owned',
+      'accepted': '🤝 Accepted',
+      'mitigated': '🛠️ Mitigated',
+      'unroamed': '❓ Not ROAMed'
+    };
+
+    return statusMap[status] || status;
+  }
+
+  /**
+   * Format overcommitment risk
+   */
+  private formatOvercommitmentRisk(risk: string): string {
+    const riskMap: Record<string, string> = {
+      'low': '🟢 Low',
+      'medium': '🟡 Medium',
+      'high': '🔴 High'
+    };
+
+    return riskMap[risk] || risk;
+  }
+
   /**
    * Format health status
    */
@@ -605,6 +1001,22 @@ export class ResponseFormatter {
         suggestions.push('- Verify the story ID exists');
         suggestions.push('- Check that the story has sufficient detail');
         break;
+      
+      case CommandIntent.CAPACITY_CHECK:
+        suggestions.push('- Name the team, e.g. `check capacity for Team Phoenix`');
+        suggestions.push('- Check that the team has a current or upcoming cycle');
+        break;
+      
+      case CommandIntent.UNDO:
+        suggestions.push('- Run `undo` on the issue where the command was issued');
+        suggestions.push('- Name the execution to revert, e.g. `undo exec_1718000000000_abc123def`');
+        break;
+      
+      case CommandIntent.JOB_STATUS:
+      case CommandIntent.JOB_CANCEL:
+        suggestions.push('- Use the job ID from the progress comment, e.g. `job status job_1718000000000_abc123def`');
+        suggestions.push('- Finished jobs cannot be cancelled; use `undo` to revert their changes');
+        break;
     }
 
     if (suggestions.length === 0) {
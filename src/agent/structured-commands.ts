@@ -0,0 +1,549 @@
+/**
+ * Structured Commands
+ *
+ * Flag syntax for power users, such as
+ * `@saafepulse /decompose --max-points 3 --strategy workflow --team PHX`.
+ * Structured commands skip pattern matching: the command name selects the
+ * intent and each flag maps onto one CommandParameters field. Usage and help
+ * text are generated from the definitions below.
+ */
+
+import { CommandIntent, IssueContext, ParsedCommand } from './types/command-types';
+import { CommandParameters } from './types/parameter-types';
+import { ParameterExtractor } from './parameter-extractor';
+
+/**
+ * Kinds of flag values
+ */
+export type StructuredValueType = 'string' | 'number' | 'boolean' | 'enum';
+
+/**
+ * A flag or positional argument of a structured command
+ */
+export interface StructuredArgument {
+  /** Flag name without dashes, e.g. "max-points" */
+  name: string;
+  /** CommandParameters field the value is stored in */
+  parameter: keyof CommandParameters;
+  type: StructuredValueType;
+  /** Allowed values of enum arguments */
+  values?: string[];
+  /** Placeholder shown in usage, e.g. "<n>" */
+  placeholder?: string;
+  description: string;
+  /** Normalizes string values, e.g. upper-cases issue identifiers */
+  normalize?: (value: string) => string;
+}
+
+/**
+ * A structured command
+ */
+export interface StructuredCommandDefinition {
+  /** Command name without the slash */
+  name: string;
+  aliases?: string[];
+  intent: CommandIntent;
+  summary: string;
+  /** Optional argument given without a flag, e.g. the PI of `/plan PI-2025-Q4` */
+  positional?: StructuredArgument;
+  flags: StructuredArgument[];
+  examples: string[];
+}
+
+const upperCase = (value: string) => value.toUpperCase();
+
+const TEAM_FLAG: StructuredArgument = {
+  name: 'team',
+  parameter: 'teamId',
+  type: 'string',
+  placeholder: '<team>',
+  description: 'Team key, name or ID (defaults to the issue\'s team)'
+};
+
+const DRY_RUN_FLAG: StructuredArgument = {
+  name: 'dry-run',
+  parameter: 'dryRun',
+  type: 'boolean',
+  description: 'Show the result without proposing changes to apply'
+};
+
+/**
+ * Structured commands, in the order help lists them
+ */
+export const STRUCTURED_COMMANDS: StructuredCommandDefinition[] = [
+  {
+    name: 'plan',
+    intent: CommandIntent.ART_PLAN,
+    summary: 'Create an ART plan for a Program Increment',
+    positional: {
+      name: 'pi',
+      parameter: 'piId',
+      type: 'string',
+      placeholder: '[PI]',
+      description: 'Program Increment, e.g. PI-2025-Q4 (defaults to the current PI)',
+      normalize: upperCase
+    },
+    flags: [
+      TEAM_FLAG,
+      { name: 'iterations', parameter: 'iterations', type: 'number', placeholder: '<n>', description: 'Iterations in the PI (1-12, default 6)' },
+      { name: 'buffer', parameter: 'bufferCapacity', type: 'number', placeholder: '<0-0.5>', description: 'Share of capacity kept as buffer (default 0.2)' },
+      DRY_RUN_FLAG
+    ],
+    examples: ['/plan PI-2025-Q4 --iterations 5 --dry-run']
+  },
+  {
+    name: 'optimize',
+    intent: CommandIntent.ART_OPTIMIZE,
+    summary: 'Optimize ART readiness',
+    flags: [
+      TEAM_FLAG,
+      { name: 'pi', parameter: 'piId', type: 'string', placeholder: '<PI>', description: 'Program Increment, e.g. PI-2025-Q4', normalize: upperCase }
+    ],
+    examples: ['/optimize --team PHX']
+  },
+  {
+    name: 'decompose',
+    aliases: ['split'],
+    intent: CommandIntent.STORY_DECOMPOSE,
+    summary: 'Break a large story into sub-stories',
+    positional: {
+      name: 'story',
+      parameter: 'storyId',
+      type: 'string',
+      placeholder: '[story]',
+      description: 'Story to decompose (defaults to this issue)',
+      normalize: upperCase
+    },
+    flags: [
+      { name: 'max-points', parameter: 'targetSize', type: 'number', placeholder: '<n>', description: 'Largest sub-story in points (1-8, default 5)' },
+      {
+        name: 'strategy',
+        parameter: 'decompositionStrategy',
+        type: 'enum',
+        values: ['technical', 'functional', 'mixed', 'workflow'],
+        description: 'Split by technical layer, function, workflow step, or a mix (default)'
+      },
+      { ...TEAM_FLAG, description: 'Team to create the sub-stories in (defaults to the story\'s team)' },
+      DRY_RUN_FLAG
+    ],
+    examples: ['/decompose --max-points 3 --strategy workflow --team PHX']
+  },
+  {
+    name: 'score',
+    aliases: ['wsjf'],
+    intent: CommandIntent.STORY_SCORE,
+    summary: 'Calculate the WSJF score of a story',
+    positional: {
+      name: 'story',
+      parameter: 'storyId',
+      type: 'string',
+      placeholder: '[story]',
+      description: 'Story to score (defaults to this issue)',
+      normalize: upperCase
+    },
+    flags: [],
+    examples: ['/score PHX-123']
+  },
+  {
+    name: 'deps',
+    aliases: ['dependencies'],
+    intent: CommandIntent.DEPENDENCY_MAP,
+    summary: 'Map story dependencies',
+    positional: {
+      name: 'from',
+      parameter: 'fromId',
+      type: 'string',
+      placeholder: '[issue]',
+      description: 'Issue to start from',
+      normalize: upperCase
+    },
+    flags: [
+      { name: 'direction', parameter: 'direction', type: 'enum', values: ['upstream', 'downstream', 'both'], description: 'Direction to follow (default both)' },
+      { name: 'depth', parameter: 'maxDepth', type: 'number', placeholder: '<n>', description: 'Levels to follow (1-10, default 3)' }
+    ],
+    examples: ['/deps PHX-123 --direction upstream --depth 2']
+  },
+  {
+    name: 'value',
+    intent: CommandIntent.VALUE_ANALYZE,
+    summary: 'Analyze value delivery',
+    flags: [
+      TEAM_FLAG,
+      { name: 'depth', parameter: 'depth', type: 'enum', values: ['summary', 'detailed', 'full'], description: 'Level of detail (default summary)' }
+    ],
+    examples: ['/value --team PHX --depth detailed']
+  },
+  {
+    name: 'capacity',
+    intent: CommandIntent.CAPACITY_CHECK,
+    summary: 'Check team capacity and overcommitment',
+    flags: [
+      TEAM_FLAG,
+      { name: 'iterations', parameter: 'iterations', type: 'number', placeholder: '<n>', description: 'Upcoming iterations to check (1-12, default 2)' }
+    ],
+    examples: ['/capacity --team PHX --iterations 3']
+  },
+  {
+    name: 'roam',
+    intent: CommandIntent.RISK_MANAGE,
+    summary: 'ROAM a PI risk, or show the risk board without a status',
+    positional: {
+      name: 'status',
+      parameter: 'roamStatus',
+      type: 'enum',
+      values: ['resolved', 'owned', 'accepted', 'mitigated'],
+      placeholder: '[status]',
+      description: 'ROAM status to apply'
+    },
+    flags: [
+      { name: 'owner', parameter: 'riskOwner', type: 'string', placeholder: '<user>', description: 'Owner of the risk', normalize: value => value.replace(/^@/, '') },
+      { name: 'risk', parameter: 'riskId', type: 'string', placeholder: '<issue>', description: 'Risk issue (defaults to this issue)', normalize: upperCase },
+      TEAM_FLAG
+    ],
+    examples: ['/roam owned --owner @alice']
+  },
+  {
+    name: 'status',
+    intent: CommandIntent.STATUS_CHECK,
+    summary: 'Check ART status',
+    flags: [
+      { name: 'format', parameter: 'format', type: 'enum', values: ['table', 'list', 'graph', 'markdown'], description: 'Output format (default table)' }
+    ],
+    examples: ['/status --format list']
+  },
+  {
+    name: 'undo',
+    intent: CommandIntent.UNDO,
+    summary: 'Revert the changes of the latest command on this issue',
+    positional: {
+      name: 'execution',
+      parameter: 'executionId',
+      type: 'string',
+      placeholder: '[execution]',
+      description: 'Execution to revert, e.g. exec_1718000000000_abc123def'
+    },
+    flags: [],
+    examples: ['/undo']
+  },
+  {
+    name: 'job',
+    intent: CommandIntent.JOB_STATUS,
+    summary: 'Report on a long-running command job',
+    positional: {
+      name: 'job',
+      parameter: 'jobId',
+      type: 'string',
+      placeholder: '[job]',
+      description: 'Job to report on (defaults to the latest job on this issue)',
+      normalize: value => value.toLowerCase()
+    },
+    flags: [],
+    examples: ['/job job_1718000000000_abc123def']
+  },
+  {
+    name: 'cancel',
+    intent: CommandIntent.JOB_CANCEL,
+    summary: 'Cancel a queued or running job',
+    positional: {
+      name: 'job',
+      parameter: 'jobId',
+      type: 'string',
+      placeholder: '[job]',
+      description: 'Job to cancel (defaults to the latest job on this issue)',
+      normalize: value => value.toLowerCase()
+    },
+    flags: [],
+    examples: ['/cancel job_1718000000000_abc123def']
+  },
+  {
+    name: 'help',
+    intent: CommandIntent.HELP,
+    summary: 'List structured commands, or show the flags of one',
+    positional: {
+      name: 'command',
+      parameter: 'helpTopic',
+      type: 'string',
+      placeholder: '[command]',
+      description: 'Command to explain',
+      normalize: value => value.replace(/^\//, '').toLowerCase()
+    },
+    flags: [],
+    examples: ['/help decompose']
+  }
+];
+
+/** A mention that starts with a slash command, e.g. "@saafepulse /plan" */
+const STRUCTURED_COMMAND = /^\s*(?:@saafepulse\s+)?\/([a-z][\w-]*)(?=\s|$)/i;
+
+/** Tokens of a structured command; quoted values may contain spaces */
+const TOKEN = /"([^"]*)"|'([^']*)'|(\S+)/g;
+
+/**
+ * Checks whether text is a structured command
+ */
+export function isStructuredCommand(text: string): boolean {
+  return STRUCTURED_COMMAND.test(text || '');
+}
+
+/**
+ * Finds a structured command by name or alias
+ */
+export function findStructuredCommand(name: string): StructuredCommandDefinition | undefined {
+  const normalized = name.replace(/^\//, '').toLowerCase();
+  return STRUCTURED_COMMANDS.find(definition =>
+    definition.name === normalized || (definition.aliases || []).includes(normalized)
+  );
+}
+
+/**
+ * Parses a structured command
+ *
+ * Flags are given as `--flag value` or `--flag=value`; boolean flags take no
+ * value. `--help` on any command asks for that command's help. Flags that are
+ * not given are completed from the issue context and intent defaults, like
+ * natural-language commands. Syntax errors are listed in
+ * `metadata.structured.errors`.
+ *
+ * @param text Raw mention text
+ * @param context Issue context
+ * @param parameterExtractor Completes parameters from the context
+ * @returns The parsed command, with parameters
+ */
+export function parseStructuredCommand(
+  text: string,
+  context: IssueContext,
+  parameterExtractor: ParameterExtractor = new ParameterExtractor()
+): ParsedCommand {
+  const startTime = Date.now();
+  const name = (text.match(STRUCTURED_COMMAND)?.[1] || '').toLowerCase();
+  const definition = findStructuredCommand(name);
+  const rest = text.replace(STRUCTURED_COMMAND, '');
+  const tokens = Array.from(rest.matchAll(TOKEN)).map(match => match[1] ?? match[2] ?? match[3]);
+
+  const errors: string[] = [];
+  const params: CommandParameters = { explicit: {}, raw: {} };
+
+  if (!definition) {
+    errors.push(`Unknown command /${name}. Try \`/help\` for the list of commands.`);
+  } else if (tokens.includes('--help')) {
+    params.helpTopic = definition.name;
+    params.explicit.helpTopic = true;
+  } else {
+    parseArguments(definition, tokens, params, errors);
+  }
+
+  // A bare `/help` asks for the list of structured commands
+  if (definition?.intent === CommandIntent.HELP && !params.helpTopic) {
+    params.helpTopic = definition.name;
+  }
+
+  let intent = CommandIntent.UNKNOWN;
+  if (definition) {
+    intent = params.helpTopic ? CommandIntent.HELP : definition.intent;
+  }
+
+  return {
+    intent,
+    confidence: definition ? 1 : 0,
+    rawText: text,
+    normalizedText: text.replace(/@saafepulse\s*/gi, '').trim(),
+    matchedPattern: definition ? `/${definition.name}` : undefined,
+    context,
+    timestamp: new Date(),
+    parameters: definition ? parameterExtractor.completeParameters(params, intent, context) : params,
+    metadata: {
+      processingTime: Date.now() - startTime,
+      structured: { command: definition?.name || name, errors }
+    }
+  };
+}
+
+/**
+ * Formats the usage line of a structured command
+ */
+export function formatStructuredUsage(definition: StructuredCommandDefinition): string {
+  const parts = [`/${definition.name}`];
+  if (definition.positional) {
+    parts.push(definition.positional.placeholder || `[${definition.positional.name}]`);
+  }
+  definition.flags.forEach(flag => {
+    const value = flag.type === 'boolean' ? '' : ` ${valuePlaceholder(flag)}`;
+    parts.push(`[--${flag.name}${value}]`);
+  });
+  return parts.join(' ');
+}
+
+/**
+ * Formats help for one structured command, or lists all of them
+ *
+ * @param name Command name; omit to list every command
+ * @returns Linear markdown
+ */
+export function formatStructuredHelp(name?: string): string {
+  const definition = name ? findStructuredCommand(name) : undefined;
+
+  // Help for /help is the list itself
+  if (!definition || definition.intent === CommandIntent.HELP) {
+    let message = `## ⌨️ Structured Commands\n\n`;
+    if (name && !definition) {
+      message += `I don't know \`/${name}\`. `;
+    }
+    message += `Start a mention with a slash command to skip natural-language parsing and set every parameter exactly:\n\n`;
+    STRUCTURED_COMMANDS.forEach(command => {
+      message += `- \`${formatStructuredUsage(command)}\` - ${command.summary}\n`;
+    });
+    message += `\n_Add \`--help\` to any command, or use \`/help <command>\`, for its flags._\n`;
+    return message;
+  }
+
+  let message = `## ⌨️ /${definition.name}\n\n`;
+  message += `${definition.summary}\n\n`;
+  message += `**Usage**: \`@saafepulse ${formatStructuredUsage(definition)}\`\n`;
+  if (definition.aliases?.length) {
+    message += `**Aliases**: ${definition.aliases.map(alias => `\`/${alias}\``).join(', ')}\n`;
+  }
+
+  const args = [...(definition.positional ? [definition.positional] : []), ...definition.flags];
+  if (args.length > 0) {
+    message += `\n### Arguments\n\n`;
+    if (definition.positional) {
+      message += `- \`${definition.positional.placeholder || definition.positional.name}\` - ${definition.positional.description}\n`;
+    }
+    definition.flags.forEach(flag => {
+      const value = flag.type === 'boolean' ? '' : ` ${valuePlaceholder(flag)}`;
+      message += `- \`--${flag.name}${value}\` - ${flag.description}\n`;
+    });
+  }
+
+  message += `\n### Examples\n\n`;
+  definition.examples.forEach(example => {
+    message += `- \`@saafepulse ${example}\`\n`;
+  });
+
+  return message;
+}
+
+/**
+ * Formats a reply for a structured command that cannot run
+ *
+ * @param name Command name
+ * @param errors Syntax or validation errors
+ * @returns Linear markdown with the errors and the command's usage
+ */
+export function formatStructuredErrors(name: string, errors: string[]): string {
+  const definition = findStructuredCommand(name);
+
+  let message = `## ⚠️ Invalid Command\n\n`;
+  message += `I couldn't run \`/${name}\`:\n\n`;
+  errors.forEach(error => {
+    message += `- ${error}\n`;
+  });
+
+  if (definition) {
+    message += `\n**Usage**: \`@saafepulse ${formatStructuredUsage(definition)}\`\n\n`;
+    message += `_Use \`/${definition.name} --help\` for details._\n`;
+  }
+
+  return message;
+}
+
+/**
+ * Stores the positional argument and flags in the parameters
+ */
+function parseArguments(
+  definition: StructuredCommandDefinition,
+  tokens: string[],
+  params: CommandParameters,
+  errors: string[]
+): void {
+  let positionalSeen = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (!token.startsWith('--')) {
+      if (definition.positional && !positionalSeen) {
+        positionalSeen = true;
+        setArgument(definition.positional, token, params, errors);
+      } else {
+        errors.push(`Unexpected argument "${token}"`);
+      }
+      continue;
+    }
+
+    const [flagName, inlineValue] = splitFlag(token.slice(2));
+    const flag = definition.flags.find(candidate => candidate.name === flagName.toLowerCase());
+    if (!flag) {
+      errors.push(`Unknown flag --${flagName} for /${definition.name}`);
+      continue;
+    }
+
+    if (flag.type === 'boolean') {
+      if (inlineValue !== undefined && !['true', 'false'].includes(inlineValue.toLowerCase())) {
+        errors.push(`--${flag.name} does not take a value`);
+        continue;
+      }
+      (params as any)[flag.parameter] = inlineValue === undefined || inlineValue.toLowerCase() === 'true';
+      params.explicit[flag.parameter] = true;
+      continue;
+    }
+
+    let value = inlineValue;
+    if (value === undefined) {
+      const next = tokens[i + 1];
+      if (next === undefined || next.startsWith('--')) {
+        errors.push(`--${flag.name} needs a value ${valuePlaceholder(flag)}`);
+        continue;
+      }
+      value = next;
+      i++;
+    }
+
+    setArgument(flag, value, params, errors, `--${flag.name}`);
+  }
+}
+
+/**
+ * Converts and stores one argument value
+ */
+function setArgument(
+  argument: StructuredArgument,
+  rawValue: string,
+  params: CommandParameters,
+  errors: string[],
+  label: string = argument.name
+): void {
+  let value: string | number = argument.normalize ? argument.normalize(rawValue) : rawValue;
+
+  if (argument.type === 'number') {
+    const number = Number(rawValue);
+    if (!rawValue.trim() || !isFinite(number)) {
+      errors.push(`${label} must be a number, not "${rawValue}"`);
+      return;
+    }
+    value = number;
+  } else if (argument.type === 'enum') {
+    const normalized = rawValue.toLowerCase();
+    if (!argument.values!.includes(normalized)) {
+      errors.push(`${label} must be one of ${argument.values!.join(', ')}, not "${rawValue}"`);
+      return;
+    }
+    value = normalized;
+  }
+
+  (params as any)[argument.parameter] = value;
+  params.explicit[argument.parameter] = true;
+  params.raw![argument.parameter] = rawValue;
+}
+
+function splitFlag(flag: string): [string, string | undefined] {
+  const index = flag.indexOf('=');
+  return index === -1 ? [flag, undefined] : [flag.slice(0, index), flag.slice(index + 1)];
+}
+
+function valuePlaceholder(argument: StructuredArgument): string {
+  if (argument.type === 'enum') {
+    return `<${argument.values!.join('|')}>`;
+  }
+  return argument.placeholder || '<value>';
+}
@@ -0,0 +1,272 @@
+/**
+ * Team Metrics
+ *
+ * Measures a team's delivery metrics (velocity, WIP, cycle time, blockage,
+ * stale work and workload per member) from Linear and keeps a daily
+ * snapshot of them in team_metric_snapshots. Anomaly detection compares
+ * current metrics with the average of past snapshots, and
+ * /api/team-metrics returns the snapshots as a time series.
+ */
+import { LinearClientWrapper } from '../linear/client';
+import {
+  TeamMetricSnapshotDB,
+  getSnapshottedTeamIds,
+  getTeamMetricSnapshots,
+  saveTeamMetricSnapshot
+} from '../db/models';
+import * as logger from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days without an update after which open work counts as stale */
+const STALE_DAYS = 14;
+
+/**
+ * A team's current metrics and the issues they were measured from
+ */
+export interface TeamMetrics {
+  /** Completed points per week */
+  velocity: number;
+  /** Average days from creation to completion */
+  avgCycleTime: number;
+  /** Percentage of issues that are blocked */
+  blockageRate: number;
+  wipCount: number;
+  completedCount: number;
+  staleCount: number;
+  /** Average percentage by which completed work missed its estimate */
+  avgEstimationVariance: number;
+  /** In-progress points by assignee ID */
+  memberWorkloads: Map<string, number>;
+  issues: {
+    completed: any[];
+    blocked: any[];
+    inProgress: any[];
+    stale: any[];
+    all: any[];
+  };
+}
+
+/**
+ * Averages of a team's past snapshots
+ */
+export interface MetricBaseline {
+  averageVelocity: number;
+  averageCycleTime: number;
+  averageBlockageRate: number;
+  averageWIP: number;
+  averageStaleCount: number;
+  averageEstimationVariance: number;
+  /** Number of daily snapshots averaged */
+  snapshotCount: number;
+}
+
+/**
+ * Measures a team's metrics over the issues updated in the lookback window
+ */
+export async function gatherTeamMetrics(
+  linearClient: LinearClientWrapper,
+  teamId: string,
+  lookbackDays = 30
+): Promise<TeamMetrics> {
+  const now = new Date();
+  const lookbackDate = new Date(now.getTime() - lookbackDays * DAY_MS);
+
+  // Fetch recent issues
+  const recentIssues = await linearClient.getIssues({
+    filter: {
+      team: { id: { eq: teamId } },
+      updatedAt: { gte: lookbackDate }
+    }
+  });
+
+  const completedIssues = recentIssues.nodes.filter(
+    (i: any) => i.completedAt && new Date(i.completedAt) >= lookbackDate
+  );
+
+  const blockedIssues = recentIssues.nodes.filter(
+    (i: any) => i.labels?.nodes.some((l: any) => l.name === 'blocked')
+  );
+
+  const inProgressIssues = recentIssues.nodes.filter(
+    (i: any) => ['In Progress', 'In Review'].includes(i.state?.name)
+  );
+
+  const staleIssues = recentIssues.nodes.filter((i: any) =>
+    (now.getTime() - new Date(i.updatedAt).getTime()) / DAY_MS > STALE_DAYS &&
+    !['Done', 'Canceled'].includes(i.state?.name)
+  );
+
+  // Calculate velocity (points per week)
+  const weeksSinceStart = Math.max(1, (now.getTime() - lookbackDate.getTime()) / (DAY_MS * 7));
+  const completedPoints = completedIssues.reduce((sum: number, i: any) => sum + (i.estimate || 0), 0);
+  const velocity = completedPoints / weeksSinceStart;
+
+  // Calculate average cycle time
+  const cycleTimes = completedIssues
+    .filter((i: any) => i.createdAt && i.completedAt)
+    .map((i: any) => (new Date(i.completedAt).getTime() - new Date(i.createdAt).getTime()) / DAY_MS);
+  const avgCycleTime = average(cycleTimes);
+
+  // Calculate blockage rate
+  const blockageRate = recentIssues.nodes.length > 0
+    ? (blockedIssues.length / recentIssues.nodes.length) * 100
+    : 0;
+
+  // Calculate estimation accuracy
+  const estimationVariances = completedIssues
+    .filter((i: any) => i.estimate)
+    .map((i: any) => {
+      const actualTime = (new Date(i.completedAt).getTime() - new Date(i.startedAt || i.createdAt).getTime()) / DAY_MS;
+      const estimatedTime = i.estimate * 1; // Assuming 1 point = 1 day
+      return Math.abs(actualTime - estimatedTime) / estimatedTime;
+    });
+
+  return {
+    velocity,
+    avgCycleTime,
+    blockageRate,
+    wipCount: inProgressIssues.length,
+    completedCount: completedIssues.length,
+    staleCount: staleIssues.length,
+    avgEstimationVariance: average(estimationVariances) * 100,
+    memberWorkloads: calculateMemberWorkloads(inProgressIssues),
+    issues: {
+      completed: completedIssues,
+      blocked: blockedIssues,
+      inProgress: inProgressIssues,
+      stale: staleIssues,
+      all: recentIssues.nodes
+    }
+  };
+}
+
+/**
+ * Averages a team's snapshots from the days before today
+ *
+ * @param days How many days back to average
+ * @returns The baseline, or null if the team has no snapshots yet
+ */
+export async function getMetricBaseline(
+  teamId: string,
+  days = 90,
+  today = new Date()
+): Promise<MetricBaseline | null> {
+  const snapshots = await getTeamMetricSnapshots(
+    teamId,
+    toSnapshotDate(new Date(today.getTime() - days * DAY_MS)),
+    toSnapshotDate(new Date(today.getTime() - DAY_MS))
+  );
+
+  if (snapshots.length === 0) {
+    return null;
+  }
+
+  const averageOf = (metric: (snapshot: TeamMetricSnapshotDB) => number) => average(snapshots.map(metric));
+
+  return {
+    averageVelocity: averageOf(snapshot => snapshot.velocity),
+    averageCycleTime: averageOf(snapshot => snapshot.avg_cycle_time),
+    averageBlockageRate: averageOf(snapshot => snapshot.blockage_rate),
+    averageWIP: averageOf(snapshot => snapshot.wip_count),
+    averageStaleCount: averageOf(snapshot => snapshot.stale_count),
+    averageEstimationVariance: averageOf(snapshot => snapshot.estimation_variance),
+    snapshotCount: snapshots.length
+  };
+}
+
+/**
+ * Records today's snapshot for every team that does not have one yet
+ *
+ * A team that fails is logged and retried on the next run.
+ *
+ * @returns The snapshots saved
+ */
+export async function snapshotTeamMetrics(
+  linearClient: LinearClientWrapper,
+  today = new Date(),
+  lookbackDays = 30
+): Promise<TeamMetricSnapshotDB[]> {
+  const snapshotDate = toSnapshotDate(today);
+  const done = new Set(await getSnapshottedTeamIds(snapshotDate));
+  const teams = (await linearClient.getTeams()).nodes.filter((team: any) => !done.has(team.id));
+  const saved: TeamMetricSnapshotDB[] = [];
+
+  for (const team of teams) {
+    try {
+      const metrics = await gatherTeamMetrics(linearClient, team.id, lookbackDays);
+      saved.push(await saveTeamMetricSnapshot({
+        team_id: team.id,
+        snapshot_date: snapshotDate,
+        velocity: metrics.velocity,
+        wip_count: metrics.wipCount,
+        avg_cycle_time: metrics.avgCycleTime,
+        blockage_rate: metrics.blockageRate,
+        stale_count: metrics.staleCount,
+        completed_count: metrics.completedCount,
+        estimation_variance: metrics.avgEstimationVariance,
+        member_workloads: Object.fromEntries(metrics.memberWorkloads)
+      }));
+    } catch (error) {
+      logger.error('Failed to snapshot team metrics', {
+        teamId: team.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  if (saved.length > 0) {
+    logger.info('Team metric snapshots recorded', { date: snapshotDate, teams: saved.length });
+  }
+
+  return saved;
+}
+
+/**
+ * Takes the daily team metric snapshots now and then checks every interval
+ * for teams still missing today's snapshot, so a restart or a new day is
+ * picked up within one interval
+ *
+ * @returns Interval handle to clear on shutdown
+ */
+export function startMetricSnapshots(
+  linearClient: LinearClientWrapper,
+  intervalMs: number = 60 * 60 * 1000
+): NodeJS.Timeout {
+  const run = () => {
+    snapshotTeamMetrics(linearClient).catch(error => {
+      logger.error('Team metric snapshot run failed', { error: (error as Error).message });
+    });
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+}
+
+/**
+ * Formats a day as a snapshot date (YYYY-MM-DD, UTC)
+ */
+export function toSnapshotDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Sums in-progress points (1 for unestimated issues) by assignee
+ */
+function calculateMemberWorkloads(issues: any[]): Map<string, number> {
+  const workloads = new Map<string, number>();
+
+  for (const issue of issues) {
+    const assigneeId = issue.assignee?.id;
+    if (assigneeId) {
+      const current = workloads.get(assigneeId) || 0;
+      workloads.set(assigneeId, current + (issue.estimate || 1));
+    }
+  }
+
+  return workloads;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
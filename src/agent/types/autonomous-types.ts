@@ -14,9 +14,23 @@ export enum BehaviorTriggerType {
   SCHEDULE = 'schedule',
   COMMAND_COMPLETION = 'command_completion',
   MANUAL = 'manual',
-  SYSTEM = 'system'
+  SYSTEM = 'system',
+  CYCLE_STARTED = 'cycle_started',
+  CYCLE_COMPLETED = 'cycle_completed',
+  PROJECT_STATE_CHANGED = 'project_state_changed',
+  PROJECT_UPDATE_POSTED = 'project_update_posted'
 }
 
+/**
+ * Trigger types raised by cycle and project lifecycle webhooks
+ */
+export const LIFECYCLE_TRIGGER_TYPES: BehaviorTriggerType[] = [
+  BehaviorTriggerType.CYCLE_STARTED,
+  BehaviorTriggerType.CYCLE_COMPLETED,
+  BehaviorTriggerType.PROJECT_STATE_CHANGED,
+  BehaviorTriggerType.PROJECT_UPDATE_POSTED
+];
+
 /**
  * Context information for behavior execution
  */
@@ -53,6 +67,12 @@ export interface BehaviorContext {
   /** Additional context data */
   metadata?: Record<string, any>;
   
+  /** Teams a team-less run skips because they run with their own configuration */
+  excludedTeamIds?: string[];
+  
+  /** Set for simulation runs, which must not record anything outside Linear */
+  simulated?: boolean;
+  
   /** Timestamp of the trigger */
   timestamp: Date;
 }
@@ -103,6 +123,40 @@ export interface BehaviorResult {
   notification?: BehaviorNotification;
 }
 
+/**
+ * Outcome of a behavior run in simulation mode
+ */
+export interface SimulatedBehaviorRun {
+  /** Behavior that was evaluated */
+  behaviorId: string;
+  
+  /** Whether the behavior decided to act on the trigger */
+  triggered: boolean;
+  
+  /** Result of executing the behavior, if it acted */
+  result?: BehaviorResult;
+  
+  /** Error thrown while evaluating or executing the behavior */
+  error?: string;
+}
+
+/**
+ * A behavior instance chosen to handle a trigger, and the context it runs with
+ */
+export interface ResolvedBehavior {
+  behavior: AutonomousBehavior;
+  context: BehaviorContext;
+}
+
+/**
+ * Chooses the instances of a registered behavior that handle a trigger,
+ * such as a team's own configuration of it
+ */
+export type BehaviorResolver = (
+  behavior: AutonomousBehavior,
+  context: BehaviorContext
+) => Promise<ResolvedBehavior[]>;
+
 /**
  * Action taken by an autonomous behavior
  */
@@ -191,6 +245,12 @@ export interface BehaviorSchedule {
   /** Cron expression for scheduling */
   cronExpression?: string;
   
+  /** IANA time zone the cron expression is evaluated in (defaults to BEHAVIOR_SCHEDULE_TIMEZONE, then the server's) */
+  timeZone?: string;
+  
+  /** What to do with cron runs missed while the agent was down (defaults to BEHAVIOR_SCHEDULE_CATCH_UP, then 'once') */
+  catchUp?: ScheduleCatchUpPolicy;
+  
   /** Fixed interval in milliseconds */
   interval?: number;
   
@@ -204,6 +264,12 @@ export interface BehaviorSchedule {
   context?: Partial<BehaviorContext>;
 }
 
+/**
+ * Handling of cron runs missed while the agent was down: skip them, run the
+ * behavior once for all of them, or run it once per missed run
+ */
+export type ScheduleCatchUpPolicy = 'skip' | 'once' | 'all';
+
 /**
  * Health status for autonomous behaviors
  */
@@ -16,10 +16,15 @@ export enum CommandIntent {
   // Analysis Commands
   VALUE_ANALYZE = 'value_analyze',
   DEPENDENCY_MAP = 'dependency_map',
+  CAPACITY_CHECK = 'capacity_check',
   
   // Management Commands
   STORY_DECOMPOSE = 'story_decompose',
   STORY_SCORE = 'story_score',
+  RISK_MANAGE = 'risk_manage',
+  UNDO = 'undo',
+  JOB_STATUS = 'job_status',
+  JOB_CANCEL = 'job_cancel',
   
   // Information Commands
   STATUS_CHECK = 'status_check',
@@ -37,6 +42,7 @@ export interface IssueContext {
   issueIdentifier: string;
   issueTitle: string;
   teamId: string;
+  teamKey?: string;
   teamName?: string;
   projectId?: string;
   projectName?: string;
@@ -50,6 +56,15 @@ export interface IssueContext {
   currentIteration?: string;
 }
 
+/**
+ * Linear user who issued a command
+ */
+export interface CommandRequester {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
 /**
  * Command metadata for debugging and analytics
  */
@@ -60,6 +75,30 @@ export interface CommandMetadata {
   suggestions?: string[];
   warnings?: string[];
   debug?: Record<string, any>;
+  /** Set for structured commands such as `/decompose --max-points 3` */
+  structured?: StructuredCommandInfo;
+  /** Rest of the command chain, set while this command's changes await confirmation */
+  continuation?: ChainContinuation;
+}
+
+/**
+ * Chained commands that run once a previewed step's changes are applied
+ */
+export interface ChainContinuation {
+  /** Step number of the previewed command in its chain */
+  step: number;
+  /** Commands still to run, in order */
+  commands: ParsedCommand[];
+}
+
+/**
+ * How a structured command was given
+ */
+export interface StructuredCommandInfo {
+  /** Command name without the slash, e.g. "decompose" */
+  command: string;
+  /** Syntax errors such as unknown flags or invalid values */
+  errors: string[];
 }
 
 /**
@@ -92,6 +131,9 @@ export interface ParsedCommand {
   
   /** Extracted parameters (added by parameter extractor) */
   parameters?: any; // Will be CommandParameters type
+  
+  /** User who issued the command; system-initiated commands have none */
+  requester?: CommandRequester;
 }
 
 /**
@@ -120,6 +162,23 @@ export interface PatternDefinition {
   description?: string;
 }
 
+/**
+ * Additional patterns for an existing intent, such as an organization's own phrasing
+ */
+export interface PatternExtension {
+  /** Intent the patterns map to */
+  intent: CommandIntent;
+  
+  /** Regular expressions to add */
+  patterns: RegExp[];
+  
+  /** Keywords to add */
+  keywords?: string[];
+  
+  /** Examples to add */
+  examples?: string[];
+}
+
 /**
  * Confidence calculation factors
  */
@@ -187,8 +246,8 @@ export interface ParserConfig {
   /** Enable debug mode */
   debug: boolean;
   
-  /** Custom pattern providers */
-  customPatterns?: PatternDefinition[];
+  /** Additional patterns merged into the built-in intents */
+  customPatterns?: PatternExtension[];
   
   /** Confidence weights */
   confidenceWeights?: {
@@ -63,6 +63,9 @@ export interface CommandParameters {
   /** Target story size for decomposition */
   targetSize?: number;
   
+  /** How a story is split: by technical layer, function, workflow step, or a mix */
+  decompositionStrategy?: 'technical' | 'functional' | 'mixed' | 'workflow';
+  
   // Analysis Parameters
   /** Time period for analysis */
   timeframe?: TimeReference;
@@ -83,6 +86,24 @@ export interface CommandParameters {
   /** Maximum depth for dependency traversal */
   maxDepth?: number;
   
+  // Risk Parameters
+  /** ROAM status to apply to a risk */
+  roamStatus?: 'resolved' | 'owned' | 'accepted' | 'mitigated';
+  
+  /** Owner of a risk */
+  riskOwner?: string;
+  
+  /** Risk issue to update (defaults to the current issue) */
+  riskId?: string;
+  
+  // Undo Parameters
+  /** Execution to revert (defaults to the latest one started from the issue) */
+  executionId?: string;
+  
+  // Job Parameters
+  /** Job to report on or cancel (defaults to the latest one started from the issue) */
+  jobId?: string;
+  
   // Output Parameters
   /** Output format preference */
   format?: 'table' | 'list' | 'graph' | 'markdown';
@@ -90,6 +111,12 @@ export interface CommandParameters {
   /** Include specific fields in output */
   includeFields?: string[];
   
+  /** Show the result without proposing changes to apply */
+  dryRun?: boolean;
+  
+  /** Structured command to show help for */
+  helpTopic?: string;
+  
   // Configuration Parameters
   /** Default iteration length in days */
   iterationLength?: number;
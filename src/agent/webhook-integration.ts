@@ -8,6 +8,7 @@
 import { Request, Response } from 'express';
 import { BehaviorRegistry, getGlobalRegistry } from './behavior-registry';
 import { BehaviorTrigger, BehaviorTriggerType, BehaviorContext } from './types/autonomous-types';
+import { processOnce } from '../webhooks/deduplication';
 import * as logger from '../utils/logger';
 
 /**
@@ -24,76 +25,118 @@ const BEHAVIOR_TRIGGERING_EVENTS = [
   'Cycle.update'
 ];
 
+/**
+ * Result of processing a webhook payload through the behavior engine
+ */
+export interface BehaviorEventResult {
+  processed: boolean;
+  duplicate?: boolean;
+  reason?: string;
+  triggerId?: string;
+  behaviorsExecuted?: number;
+  results?: Array<{
+    success: boolean;
+    actionsCount: number;
+    shouldNotify: boolean;
+    error?: string;
+  }>;
+  processingTime?: number;
+}
+
+/**
+ * Process a webhook payload through the behavior engine
+ *
+ * Transport-independent so it can be used by the HTTP endpoint as well as the
+ * webhook event queue worker and replay tooling.
+ */
+export async function processBehaviorEvent(payload: any): Promise<BehaviorEventResult> {
+  const startTime = Date.now();
+  const { type, action, data, url, createdAt, updatedFrom } = payload;
+
+  logger.info('Processing behavior webhook', {
+    type,
+    action,
+    url,
+    createdAt
+  });
+
+  // Check if this event should trigger behaviors
+  if (!shouldTriggerBehaviors(type, action)) {
+    logger.debug('Event does not trigger behaviors', { type, action });
+    return { processed: false, reason: 'Event type not configured for behaviors' };
+  }
+
+  // Get the global behavior registry
+  const registry = getGlobalRegistry();
+  if (!registry) {
+    throw new Error('Behavior system not initialized');
+  }
+
+  // Create behavior context from webhook data
+  const context = createBehaviorContext(type, action, data, updatedFrom);
+
+  // Create behavior trigger
+  const trigger: BehaviorTrigger = {
+    id: `webhook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type: BehaviorTriggerType.WEBHOOK,
+    payload: { type, action, data, url },
+    context,
+    timestamp: new Date(createdAt || Date.now())
+  };
+
+  // Process the trigger through the behavior engine
+  const engine = registry.getEngine();
+  const results = await engine.processTrigger(trigger);
+
+  const processingTime = Date.now() - startTime;
+
+  logger.info('Behavior webhook processed', {
+    triggerId: trigger.id,
+    behaviorsExecuted: results.length,
+    successCount: results.filter(r => r.success).length,
+    processingTime
+  });
+
+  return {
+    processed: true,
+    triggerId: trigger.id,
+    behaviorsExecuted: results.length,
+    results: results.map(r => ({
+      success: r.success,
+      actionsCount: r.actions.length,
+      shouldNotify: r.shouldNotify,
+      error: r.error
+    })),
+    processingTime
+  };
+}
+
 /**
  * Process a Linear webhook and trigger appropriate behaviors
  */
 export async function processBehaviorWebhook(req: Request, res: Response): Promise<void> {
-  const startTime = Date.now();
-  
   try {
-    const { type, action, data, url, createdAt } = req.body;
-    
-    logger.info('Processing behavior webhook', {
-      type,
-      action,
-      url,
-      createdAt
-    });
-
-    // Check if this event should trigger behaviors
-    if (!shouldTriggerBehaviors(type, action)) {
-      logger.debug('Event does not trigger behaviors', { type, action });
-      res.status(200).json({ processed: false, reason: 'Event type not configured for behaviors' });
-      return;
-    }
+    const { type, action } = req.body;
 
-    // Get the global behavior registry
-    const registry = getGlobalRegistry();
-    if (!registry) {
+    if (shouldTriggerBehaviors(type, action) && !getGlobalRegistry()) {
       logger.error('Behavior registry not initialized');
       res.status(500).json({ error: 'Behavior system not initialized' });
       return;
     }
 
-    // Create behavior context from webhook data
-    const context = createBehaviorContext(type, action, data);
-    
-    // Create behavior trigger
-    const trigger: BehaviorTrigger = {
-      id: `webhook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      type: BehaviorTriggerType.WEBHOOK,
-      payload: { type, action, data, url },
-      context,
-      timestamp: new Date(createdAt || Date.now())
-    };
-
-    // Process the trigger through the behavior engine
-    const engine = registry.getEngine();
-    const results = await engine.processTrigger(trigger);
-    
-    const processingTime = Date.now() - startTime;
-    
-    logger.info('Behavior webhook processed', {
-      triggerId: trigger.id,
-      behaviorsExecuted: results.length,
-      successCount: results.filter(r => r.success).length,
-      processingTime
-    });
+    // Process each delivery once; Linear retries deliveries it considers failed
+    const { duplicate, result } = await processOnce(
+      req.headers?.['linear-delivery'] as string | undefined,
+      req.body,
+      () => processBehaviorEvent(req.body)
+    );
 
-    // Send response
-    res.status(200).json({
-      processed: true,
-      triggerId: trigger.id,
-      behaviorsExecuted: results.length,
-      results: results.map(r => ({
-        success: r.success,
-        actionsCount: r.actions.length,
-        shouldNotify: r.shouldNotify,
-        error: r.error
-      })),
-      processingTime
-    });
+    if (duplicate) {
+      res.status(200).json({ processed: false, duplicate: true, reason: 'Duplicate delivery' });
+      return;
+    }
 
+    res.status(200).json(result);
   } catch (error) {
     logger.error('Failed to process behavior webhook', {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -117,8 +160,10 @@ function shouldTriggerBehaviors(type: string, action: string): boolean {
 
 /**
  * Create behavior context from webhook data
+ *
+ * @param updatedFrom Previous values of the fields an update changed
  */
-function createBehaviorContext(type: string, action: string, data: any): BehaviorContext {
+function createBehaviorContext(type: string, action: string, data: any, updatedFrom?: any): BehaviorContext {
   const context: BehaviorContext = {
     timestamp: new Date(),
     triggerType: BehaviorTriggerType.WEBHOOK
@@ -168,7 +213,8 @@ function createBehaviorContext(type: string, action: string, data: any): Behavio
   context.metadata = {
     ...context.metadata,
     webhookType: type,
-    webhookAction: action
+    webhookAction: action,
+    ...(updatedFrom && { updatedFrom })
   };
 
   return context;
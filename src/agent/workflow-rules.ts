@@ -0,0 +1,494 @@
+/**
+ * Workflow Rules
+ *
+ * Declarative rules for WorkflowAutomationBehavior. A rule names the change
+ * it reacts to (its trigger), the conditions the issue must meet and the
+ * actions to take:
+ *
+ *   rules:
+ *     - name: Escalate urgent bugs
+ *       trigger: label_added
+ *       label: bug
+ *       conditions:
+ *         - priority: { lte: 2 }
+ *         - estimate: { gte: 5 }
+ *       actions:
+ *         - type: add_label
+ *           value: needs-triage
+ *   teams:
+ *     PHX:
+ *       - trigger: state_change
+ *         state: In Review
+ *         actions:
+ *           - type: notify
+ *             value: Ready for review
+ *
+ * Rules under `rules` apply to every team; rules under `teams` only to issues
+ * of that team (by ID, key or name). The rules are a YAML or JSON file named
+ * by WORKFLOW_RULES_FILE. The file is validated when it is loaded and
+ * reloaded when it changes; an invalid edit is logged and the last valid
+ * rules stay in effect.
+ */
+import fs from 'fs';
+import yaml from 'js-yaml';
+import * as logger from '../utils/logger';
+
+/**
+ * Issue changes a rule can react to
+ */
+export type WorkflowTrigger = 'state_change' | 'label_added' | 'assignee_changed' | 'priority_changed';
+
+/**
+ * Workflow action definition
+ */
+export interface WorkflowAction {
+  type: 'add_label' | 'remove_label' | 'assign' | 'move_state' | 'notify' | 'update_priority';
+  value?: string;
+  target?: string;
+}
+
+/**
+ * Value a condition compares against
+ */
+export type ConditionValue = string | number | boolean;
+
+/**
+ * Comparisons a condition makes; all given comparisons must hold
+ *
+ * Text comparisons ignore case. Subjects with several values (the labels of
+ * an issue, the ID, key and name of its team) match if any value does.
+ */
+export interface ValueComparison {
+  equals?: ConditionValue;
+  notEquals?: ConditionValue;
+  in?: ConditionValue[];
+  notIn?: ConditionValue[];
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  exists?: boolean;
+}
+
+/**
+ * One condition on the issue
+ *
+ * A condition has exactly one subject. A plain value is shorthand for
+ * `{ equals: value }`. `field` compares any issue field by its dotted path,
+ * with the comparisons next to it.
+ */
+export interface WorkflowCondition extends ValueComparison {
+  label?: ConditionValue | ValueComparison;
+  priority?: ConditionValue | ValueComparison;
+  team?: ConditionValue | ValueComparison;
+  estimate?: ConditionValue | ValueComparison;
+  state?: ConditionValue | ValueComparison;
+  assignee?: ConditionValue | ValueComparison;
+  field?: string;
+}
+
+/**
+ * Workflow rule definition
+ */
+export interface WorkflowRule {
+  name?: string;
+  trigger: WorkflowTrigger;
+  /** State the issue moved to (state_change rules); any state if omitted */
+  state?: string;
+  /** Label that was added (label_added rules); any label if omitted */
+  label?: string;
+  /** Conditions that must all hold */
+  conditions?: WorkflowCondition[];
+  actions: WorkflowAction[];
+}
+
+/**
+ * Rules for every team and for single teams
+ */
+export interface WorkflowRuleSet {
+  rules?: WorkflowRule[];
+  /** Rules by team ID, key or name */
+  teams?: Record<string, WorkflowRule[]>;
+}
+
+/**
+ * A change to an issue that rules are matched against
+ */
+export interface WorkflowEvent {
+  trigger: WorkflowTrigger;
+  /** State the issue moved to */
+  state?: string;
+  /** Names of the labels that were added */
+  labels?: string[];
+}
+
+const TRIGGERS: WorkflowTrigger[] = ['state_change', 'label_added', 'assignee_changed', 'priority_changed'];
+const ACTION_TYPES: Array<WorkflowAction['type']> = [
+  'add_label', 'remove_label', 'assign', 'move_state', 'notify', 'update_priority'
+];
+const SUBJECTS = ['label', 'priority', 'team', 'estimate', 'state', 'assignee', 'field'] as const;
+const COMPARISONS: Array<keyof ValueComparison> = [
+  'equals', 'notEquals', 'in', 'notIn', 'gt', 'gte', 'lt', 'lte', 'exists'
+];
+
+/**
+ * Validates a workflow rule set
+ *
+ * @returns Validation errors, empty if the rule set is valid
+ */
+export function validateWorkflowRules(ruleSet: any): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(ruleSet)) {
+    return ['Workflow rules must be an object with rules and/or teams'];
+  }
+
+  const checkRules = (where: string, rules: any) => {
+    if (!Array.isArray(rules)) {
+      errors.push(`${where} must be a list of rules`);
+      return;
+    }
+    rules.forEach((rule, index) => errors.push(...validateRule(`${where}[${index}]`, rule)));
+  };
+
+  if (ruleSet.rules !== undefined) {
+    checkRules('rules', ruleSet.rules);
+  }
+
+  if (ruleSet.teams !== undefined) {
+    if (!isObject(ruleSet.teams)) {
+      errors.push('teams must be an object of rules by team');
+    } else {
+      Object.entries(ruleSet.teams).forEach(([team, rules]) => checkRules(`teams.${team}`, rules));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parses and validates workflow rules written in YAML or JSON
+ *
+ * @param content File content
+ * @param source Where the rules came from, for error messages
+ * @throws If the content cannot be parsed or the rules are invalid
+ */
+export function parseWorkflowRules(content: string, source: string): WorkflowRuleSet {
+  const ruleSet: any = yaml.load(content) ?? {};
+  const errors = validateWorkflowRules(ruleSet);
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow rules ${source}: ${errors.join('; ')}`);
+  }
+
+  const normalize = (rules: any[]): WorkflowRule[] => rules.map(rule => ({
+    ...rule,
+    actions: rule.actions.map((action: any) => ({
+      ...action,
+      value: action.value === undefined ? undefined : String(action.value)
+    }))
+  }));
+
+  return {
+    rules: normalize(ruleSet.rules || []),
+    teams: Object.fromEntries(
+      Object.entries<any[]>(ruleSet.teams || {}).map(([team, rules]) => [team, normalize(rules)])
+    )
+  };
+}
+
+/**
+ * Loads workflow rules from a YAML or JSON file
+ *
+ * @throws If the file cannot be read or the rules are invalid
+ */
+export function loadWorkflowRules(filePath: string): WorkflowRuleSet {
+  return parseWorkflowRules(fs.readFileSync(filePath, 'utf8'), filePath);
+}
+
+/**
+ * Labels of an issue, whether it comes from a webhook (a list) or the API (a connection)
+ */
+export function getIssueLabels(issue: any): Array<{ id: string; name: string }> {
+  const labels = issue?.labels;
+  return Array.isArray(labels) ? labels : labels?.nodes || [];
+}
+
+/**
+ * Checks whether a rule applies to an issue change
+ */
+export function matchesWorkflowRule(rule: WorkflowRule, event: WorkflowEvent, issue: any): boolean {
+  if (rule.trigger !== event.trigger) {
+    return false;
+  }
+
+  if (rule.state && !sameValue(rule.state, event.state)) {
+    return false;
+  }
+
+  if (rule.label && !(event.labels || []).some(label => sameValue(rule.label!, label))) {
+    return false;
+  }
+
+  return (rule.conditions || []).every(condition => matchesCondition(condition, issue));
+}
+
+/**
+ * Workflow rules read from a file, reloaded when the file changes
+ */
+export class WorkflowRuleStore {
+  private ruleSet: WorkflowRuleSet = {};
+  private loadedAt?: number;
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Rules for every team followed by the rules for the given team
+   */
+  getRules(team?: { id?: string; key?: string; name?: string }): WorkflowRule[] {
+    this.reloadIfChanged();
+
+    const teamKeys = [team?.id, team?.key, team?.name]
+      .filter(Boolean)
+      .map(key => key!.toLowerCase());
+    const teamRules = Object.entries(this.ruleSet.teams || {})
+      .filter(([teamKey]) => teamKeys.includes(teamKey.toLowerCase()))
+      .flatMap(([, rules]) => rules);
+
+    return [...(this.ruleSet.rules || []), ...teamRules];
+  }
+
+  /**
+   * Loads the file if it was modified since it was last loaded
+   */
+  private reloadIfChanged(): void {
+    let modifiedAt: number;
+    try {
+      modifiedAt = fs.statSync(this.filePath).mtimeMs;
+    } catch (error) {
+      if (this.loadedAt !== -1) {
+        logger.error('Workflow rules file cannot be read', {
+          filePath: this.filePath,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        this.loadedAt = -1;
+      }
+      return;
+    }
+
+    if (modifiedAt === this.loadedAt) {
+      return;
+    }
+    this.loadedAt = modifiedAt;
+
+    try {
+      this.ruleSet = loadWorkflowRules(this.filePath);
+      logger.info('Loaded workflow rules', {
+        filePath: this.filePath,
+        rules: this.ruleSet.rules?.length || 0,
+        teams: Object.keys(this.ruleSet.teams || {})
+      });
+    } catch (error) {
+      logger.error('Workflow rules not reloaded; keeping the previous rules', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+/**
+ * Validates one rule
+ */
+function validateRule(where: string, rule: any): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(rule)) {
+    return [`${where} must be an object`];
+  }
+
+  if (!TRIGGERS.includes(rule.trigger)) {
+    errors.push(`${where} has unknown trigger: ${rule.trigger} (expected ${TRIGGERS.join(', ')})`);
+  }
+  if (rule.state !== undefined && (rule.trigger !== 'state_change' || typeof rule.state !== 'string')) {
+    errors.push(`${where} can only name a state for the state_change trigger`);
+  }
+  if (rule.label !== undefined && (rule.trigger !== 'label_added' || typeof rule.label !== 'string')) {
+    errors.push(`${where} can only name a label for the label_added trigger`);
+  }
+
+  if (rule.conditions !== undefined) {
+    if (!Array.isArray(rule.conditions)) {
+      errors.push(`${where} conditions must be a list`);
+    } else {
+      rule.conditions.forEach((condition: any, index: number) => {
+        errors.push(...validateCondition(`${where} condition ${index + 1}`, condition));
+      });
+    }
+  }
+
+  if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+    errors.push(`${where} must have at least one action`);
+  } else {
+    rule.actions.forEach((action: any, index: number) => {
+      const actionWhere = `${where} action ${index + 1}`;
+      if (!ACTION_TYPES.includes(action?.type)) {
+        errors.push(`${actionWhere} has unknown type: ${action?.type} (expected ${ACTION_TYPES.join(', ')})`);
+      } else if (action.type !== 'notify' && (action.value === undefined || action.value === '')) {
+        errors.push(`${actionWhere} (${action.type}) needs a value`);
+      } else if (action.type === 'update_priority' && !/^[0-4]$/.test(String(action.value))) {
+        errors.push(`${actionWhere} (update_priority) value must be a priority from 0 to 4`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates one condition
+ */
+function validateCondition(where: string, condition: any): string[] {
+  if (!isObject(condition)) {
+    return [`${where} must be an object`];
+  }
+
+  const subjects = SUBJECTS.filter(subject => condition[subject] !== undefined);
+  if (subjects.length !== 1) {
+    return [`${where} must have exactly one of ${SUBJECTS.join(', ')}`];
+  }
+
+  const subject = subjects[0];
+  if (subject === 'field') {
+    const { field, ...comparison } = condition;
+    if (typeof field !== 'string' || field === '') {
+      return [`${where} field must be a dotted field path`];
+    }
+    return validateComparison(where, comparison);
+  }
+
+  const unexpected = Object.keys(condition).filter(key => key !== subject);
+  if (unexpected.length > 0) {
+    return [`${where} has unexpected keys: ${unexpected.join(', ')}`];
+  }
+
+  return isObject(condition[subject])
+    ? validateComparison(where, condition[subject])
+    : isConditionValue(condition[subject]) ? [] : [`${where} ${subject} must be a value or comparison`];
+}
+
+/**
+ * Validates the comparisons of a condition
+ */
+function validateComparison(where: string, comparison: Record<string, any>): string[] {
+  const errors: string[] = [];
+  const keys = Object.keys(comparison);
+
+  if (keys.length === 0) {
+    return [`${where} needs a comparison (${COMPARISONS.join(', ')})`];
+  }
+
+  for (const key of keys) {
+    const value = comparison[key];
+    if (!COMPARISONS.includes(key as keyof ValueComparison)) {
+      errors.push(`${where} has unknown comparison: ${key}`);
+    } else if ((key === 'in' || key === 'notIn') && (!Array.isArray(value) || !value.every(isConditionValue))) {
+      errors.push(`${where} ${key} must be a list of values`);
+    } else if (['gt', 'gte', 'lt', 'lte'].includes(key) && typeof value !== 'number') {
+      errors.push(`${where} ${key} must be a number`);
+    } else if (key === 'exists' && typeof value !== 'boolean') {
+      errors.push(`${where} exists must be true or false`);
+    } else if ((key === 'equals' || key === 'notEquals') && !isConditionValue(value)) {
+      errors.push(`${where} ${key} must be a value`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks one condition against an issue
+ */
+function matchesCondition(condition: WorkflowCondition, issue: any): boolean {
+  const subject = SUBJECTS.find(key => condition[key] !== undefined);
+
+  if (subject === 'field') {
+    const { field, ...comparison } = condition;
+    return compareValues([getFieldValue(issue, field!)], comparison);
+  }
+
+  if (!subject) {
+    return true;
+  }
+
+  const expected = condition[subject] as ConditionValue | ValueComparison;
+  const comparison: ValueComparison = isObject(expected) ? expected : { equals: expected };
+
+  return compareValues(getSubjectValues(issue, subject), comparison);
+}
+
+/**
+ * Values of an issue a condition subject refers to
+ */
+function getSubjectValues(issue: any, subject: Exclude<typeof SUBJECTS[number], 'field'>): any[] {
+  switch (subject) {
+    case 'label':
+      return getIssueLabels(issue).map(label => label.name);
+    case 'team':
+      return [issue.team?.id, issue.team?.key, issue.team?.name];
+    case 'assignee':
+      return [issue.assignee?.id, issue.assignee?.name, issue.assignee?.email];
+    case 'state':
+      return [issue.state?.name];
+    case 'priority':
+      return [issue.priority];
+    case 'estimate':
+      return [issue.estimate];
+  }
+}
+
+/**
+ * Compares the values of a subject; empty values count as absent
+ */
+function compareValues(rawValues: any[], comparison: ValueComparison): boolean {
+  const values = rawValues.filter(value => value !== undefined && value !== null && value !== '');
+  const includes = (expected: ConditionValue) => values.some(value => sameValue(expected, value));
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+
+  const checks: boolean[] = [];
+  if (comparison.exists !== undefined) checks.push((values.length > 0) === comparison.exists);
+  if (comparison.equals !== undefined) checks.push(includes(comparison.equals));
+  if (comparison.notEquals !== undefined) checks.push(!includes(comparison.notEquals));
+  if (comparison.in !== undefined) checks.push(comparison.in.some(includes));
+  if (comparison.notIn !== undefined) checks.push(!comparison.notIn.some(includes));
+  if (comparison.gt !== undefined) checks.push(numbers.some(value => value > comparison.gt!));
+  if (comparison.gte !== undefined) checks.push(numbers.some(value => value >= comparison.gte!));
+  if (comparison.lt !== undefined) checks.push(numbers.some(value => value < comparison.lt!));
+  if (comparison.lte !== undefined) checks.push(numbers.some(value => value <= comparison.lte!));
+
+  return checks.every(Boolean);
+}
+
+/**
+ * Compares two values, ignoring case for text
+ */
+function sameValue(expected: ConditionValue, actual: any): boolean {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return expected.toLowerCase() === actual.toLowerCase();
+  }
+  return expected === actual;
+}
+
+/**
+ * Reads a dotted field path from an issue
+ */
+function getFieldValue(issue: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), issue);
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isConditionValue(value: any): value is ConditionValue {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
@@ -0,0 +1,127 @@
+/**
+ * Audit Log API
+ *
+ * This module provides an API endpoint for reviewing what the agent did and
+ * why: behavior triggers, decisions, actions and outcomes, command results
+ * and refused commands, each with the webhook or schedule that started it.
+ */
+import express from 'express';
+import { AuditLogEntryDB, AuditLogFilter, getAuditLogEntries } from '../db/models';
+import * as logger from '../utils/logger';
+
+const router = express.Router();
+
+/** Most entries returned by one request */
+const MAX_LIMIT = 5000;
+
+/** Columns of the CSV export, in order */
+const CSV_COLUMNS: (keyof AuditLogEntryDB)[] = [
+  'id',
+  'created_at',
+  'event_type',
+  'outcome',
+  'source',
+  'trigger_type',
+  'trigger_id',
+  'behavior_id',
+  'intent',
+  'execution_id',
+  'issue_id',
+  'team_id',
+  'actor_id',
+  'actor_name',
+  'reason',
+  'details'
+];
+
+/**
+ * List audit log entries, newest first
+ *
+ * GET /api/audit?issueId=...&teamId=...&behaviorId=...&intent=...&from=2025-01-01&to=2025-01-31
+ *
+ * Query: issueId, teamId, behaviorId, intent, eventType, executionId,
+ * from and to (ISO dates), limit (default 100) and offset. Pass format=csv
+ * to download the entries as CSV.
+ */
+router.get('/', async (req, res) => {
+  try {
+    const param = (name: string) => (req.query[name] as string | undefined) || undefined;
+
+    const from = param('from') ? new Date(param('from') as string) : undefined;
+    const to = param('to') ? new Date(param('to') as string) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid time range: from and to must be ISO dates'
+      });
+    }
+
+    const limit = param('limit') ? parseInt(param('limit') as string, 10) : 100;
+    const offset = param('offset') ? parseInt(param('offset') as string, 10) : 0;
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT || isNaN(offset) || offset < 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid paging: limit must be between 1 and ${MAX_LIMIT} and offset at least 0`
+      });
+    }
+
+    const filter: AuditLogFilter = {
+      issueId: param('issueId'),
+      teamId: param('teamId'),
+      behaviorId: param('behaviorId'),
+      intent: param('intent'),
+      eventType: param('eventType'),
+      executionId: param('executionId'),
+      from,
+      to,
+      limit,
+      offset
+    };
+
+    const entries = await getAuditLogEntries(filter);
+
+    if (param('format') === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="audit-log.csv"');
+      return res.status(200).send(toCsv(entries));
+    }
+
+    return res.status(200).json({
+      success: true,
+      entries,
+      limit,
+      offset
+    });
+  } catch (error) {
+    logger.error('Error listing audit log entries', { error });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Formats audit log entries as CSV, with details as JSON
+ */
+function toCsv(entries: AuditLogEntryDB[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => {
+    const value = entry[column];
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return escapeCsv(typeof value === 'object' ? JSON.stringify(value) : String(value));
+  }).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export default router;
@@ -0,0 +1,139 @@
+/**
+ * Behavior Configs API
+ *
+ * This module provides API endpoints for reading and updating a team's
+ * autonomous behavior configuration: which behaviors run for the team and
+ * their settings, such as story point thresholds, monitored states and
+ * report schedules. Every update creates a new version and takes effect
+ * without a restart.
+ */
+import express from 'express';
+import {
+  getTeamBehaviorConfig,
+  getTeamBehaviorConfigHistory,
+  saveTeamBehaviorConfig
+} from '../db/models';
+import { TeamBehaviorConfig, validateTeamBehaviorConfig } from '../agent/behavior-config';
+import { getGlobalRegistry } from '../agent/behavior-registry';
+import * as logger from '../utils/logger';
+
+const router = express.Router();
+
+/**
+ * Get a team's current behavior configuration
+ *
+ * GET /api/behavior-configs/:teamId
+ *
+ * A team without a configuration gets an empty one at version 0.
+ */
+router.get('/:teamId', async (req, res) => {
+  try {
+    const { teamId } = req.params;
+    const current = await getTeamBehaviorConfig(teamId);
+
+    return res.status(200).json({
+      success: true,
+      teamId,
+      version: current?.version ?? 0,
+      config: current?.config ?? {},
+      updatedBy: current?.updated_by ?? null,
+      updatedAt: current?.created_at ?? null
+    });
+  } catch (error) {
+    logger.error('Error getting team behavior config', { error, teamId: req.params.teamId });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Get every version of a team's behavior configuration, newest first
+ *
+ * GET /api/behavior-configs/:teamId/history
+ */
+router.get('/:teamId/history', async (req, res) => {
+  try {
+    const { teamId } = req.params;
+    const versions = await getTeamBehaviorConfigHistory(teamId);
+
+    return res.status(200).json({
+      success: true,
+      teamId,
+      versions
+    });
+  } catch (error) {
+    logger.error('Error getting team behavior config history', { error, teamId: req.params.teamId });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Replace a team's behavior configuration
+ *
+ * PUT /api/behavior-configs/:teamId
+ *
+ * Body: version (the version being replaced, 0 for a team without one),
+ * config ({ enabledBehaviors, settings }) and optional updatedBy. Returns
+ * 409 if the configuration changed since that version was read.
+ */
+router.put('/:teamId', async (req, res) => {
+  try {
+    const { teamId } = req.params;
+    const { version, config, updatedBy } = req.body;
+
+    if (!Number.isInteger(version) || version < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'version must be the version being replaced (0 for a new configuration)'
+      });
+    }
+
+    const errors = validateTeamBehaviorConfig(config);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid behavior configuration',
+        errors
+      });
+    }
+
+    const saved = await saveTeamBehaviorConfig(teamId, config, version, updatedBy);
+
+    if (!saved) {
+      const current = await getTeamBehaviorConfig(teamId);
+      return res.status(409).json({
+        success: false,
+        error: `Behavior configuration was changed since version ${version}; reload it and try again`,
+        currentVersion: current?.version ?? 0
+      });
+    }
+
+    // Other instances, and this one if its registry starts later, load it from the database
+    getGlobalRegistry()?.applyTeamConfig(teamId, saved.config as TeamBehaviorConfig, saved.version);
+
+    return res.status(200).json({
+      success: true,
+      teamId,
+      version: saved.version,
+      config: saved.config,
+      updatedBy: saved.updated_by ?? null,
+      updatedAt: saved.created_at
+    });
+  } catch (error) {
+    logger.error('Error updating team behavior config', { error, teamId: req.params.teamId });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,195 @@
+/**
+ * Command Pattern Registry API
+ *
+ * This module provides API endpoints for managing an organization's custom
+ * command patterns. Patterns are validated before they are saved and are
+ * merged into the built-in intents when a command parser is built.
+ */
+import express from 'express';
+import {
+  createCustomCommandPattern,
+  getCustomCommandPatternsByOrganization,
+  updateCustomCommandPattern,
+  deleteCustomCommandPattern
+} from '../db/models';
+import { validateCustomPattern } from '../agent/patterns/custom-patterns';
+import * as logger from '../utils/logger';
+
+const router = express.Router();
+
+/**
+ * List an organization's custom command patterns
+ *
+ * GET /api/command-patterns?organizationId=org-123
+ */
+router.get('/', async (req, res) => {
+  try {
+    const organizationId = req.query.organizationId as string | undefined;
+
+    if (!organizationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required query parameter: organizationId'
+      });
+    }
+
+    const patterns = await getCustomCommandPatternsByOrganization(organizationId);
+
+    return res.status(200).json({
+      success: true,
+      patterns
+    });
+  } catch (error) {
+    logger.error('Error listing custom command patterns', { error });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Add a custom command pattern
+ *
+ * POST /api/command-patterns
+ *
+ * Body: organizationId, intent, pattern, and optional flags (default "i"),
+ * keywords, examples and createdBy
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { organizationId, intent, pattern, flags = 'i', keywords = [], examples = [], createdBy } = req.body;
+
+    if (!organizationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: organizationId'
+      });
+    }
+
+    const errors = validateCustomPattern({ intent, pattern, flags, keywords, examples });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid command pattern',
+        errors
+      });
+    }
+
+    const created = await createCustomCommandPattern(
+      organizationId,
+      intent,
+      pattern,
+      flags,
+      keywords,
+      examples,
+      createdBy
+    );
+
+    return res.status(201).json({
+      success: true,
+      pattern: created
+    });
+  } catch (error) {
+    logger.error('Error creating custom command pattern', { error });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Replace a custom command pattern
+ *
+ * PUT /api/command-patterns/:id
+ *
+ * Body: intent, pattern, and optional flags, keywords and examples
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const patternId = parseInt(req.params.id, 10);
+
+    if (isNaN(patternId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pattern ID'
+      });
+    }
+
+    const { intent, pattern, flags = 'i', keywords = [], examples = [] } = req.body;
+
+    const errors = validateCustomPattern({ intent, pattern, flags, keywords, examples });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid command pattern',
+        errors
+      });
+    }
+
+    const updated = await updateCustomCommandPattern(patternId, intent, pattern, flags, keywords, examples);
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: 'Command pattern not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      pattern: updated
+    });
+  } catch (error) {
+    logger.error('Error updating custom command pattern', { error, id: req.params.id });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Delete a custom command pattern
+ *
+ * DELETE /api/command-patterns/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const patternId = parseInt(req.params.id, 10);
+
+    if (isNaN(patternId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pattern ID'
+      });
+    }
+
+    const deleted = await deleteCustomCommandPattern(patternId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Command pattern not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Command pattern deleted'
+    });
+  } catch (error) {
+    logger.error('Error deleting custom command pattern', { error, id: req.params.id });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+/**
+ * Team Metrics API
+ *
+ * This module provides API endpoints for a team's daily metric snapshots
+ * (velocity, WIP, cycle time, blockage, stale work and workload per member)
+ * and its WIP history per workflow state as time series.
+ */
+import express from 'express';
+import { getTeamMetricSnapshots, getWipHistory } from '../db/models';
+import { toSnapshotDate } from '../agent/team-metrics';
+import * as logger from '../utils/logger';
+
+const router = express.Router();
+
+/** Days returned when no range is given */
+const DEFAULT_DAYS = 90;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get a team's metric snapshots, oldest first
+ *
+ * GET /api/team-metrics/:teamId?from=2025-01-01&to=2025-03-31
+ *
+ * Query: from and to (YYYY-MM-DD, inclusive); defaults to the last 90 days.
+ */
+router.get('/:teamId', async (req, res) => {
+  try {
+    const { teamId } = req.params;
+    const { from, to } = getDateRange(req.query);
+
+    if (!isValidDate(from) || !isValidDate(to) || from > to) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date range: from and to must be YYYY-MM-DD dates with from before to'
+      });
+    }
+
+    const snapshots = await getTeamMetricSnapshots(teamId, from, to);
+
+    return res.status(200).json({
+      success: true,
+      teamId,
+      from,
+      to,
+      snapshots
+    });
+  } catch (error) {
+    logger.error('Error getting team metric snapshots', { error, teamId: req.params.teamId });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Get a team's recorded WIP counts per workflow state, oldest first
+ *
+ * GET /api/team-metrics/:teamId/wip?from=2025-01-01&to=2025-03-31
+ *
+ * Query: from and to (YYYY-MM-DD, inclusive); defaults to the last 90 days.
+ */
+router.get('/:teamId/wip', async (req, res) => {
+  try {
+    const { teamId } = req.params;
+    const { from, to } = getDateRange(req.query);
+
+    if (!isValidDate(from) || !isValidDate(to) || from > to) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date range: from and to must be YYYY-MM-DD dates with from before to'
+      });
+    }
+
+    const history = await getWipHistory(teamId, from, to);
+
+    return res.status(200).json({
+      success: true,
+      teamId,
+      from,
+      to,
+      history
+    });
+  } catch (error) {
+    logger.error('Error getting WIP history', { error, teamId: req.params.teamId });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Reads the from and to query parameters, defaulting to the last 90 days
+ */
+function getDateRange(query: express.Request['query']): { from: string; to: string } {
+  return {
+    from: (query.from as string | undefined) ||
+      toSnapshotDate(new Date(Date.now() - DEFAULT_DAYS * 24 * 60 * 60 * 1000)),
+    to: (query.to as string | undefined) || toSnapshotDate(new Date())
+  };
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime());
+}
+
+export default router;
@@ -0,0 +1,137 @@
+/**
+ * Webhook Administration API
+ *
+ * This module provides API endpoints for inspecting dead-lettered webhook events
+ * and replaying dead-lettered or historical events through the processors.
+ */
+import express from 'express';
+import { getDeadLetteredWebhookEvents } from '../db/models';
+import { WebhookEventQueue, getWebhookQueue } from '../webhooks/queue';
+import { processWebhookEvent } from '../webhooks/handler';
+import * as logger from '../utils/logger';
+
+const router = express.Router();
+
+/**
+ * Gets the running queue, or a standalone one for replay when the worker is disabled
+ */
+const getReplayQueue = (): WebhookEventQueue => {
+  return getWebhookQueue() || new WebhookEventQueue(processWebhookEvent);
+};
+
+/**
+ * List dead-lettered webhook events
+ *
+ * GET /api/webhooks/dead-letters
+ *
+ * Query parameters:
+ * - includeReplayed: boolean - Include events that were already replayed
+ * - limit: number - Maximum number of events to return (default: 100)
+ */
+router.get('/dead-letters', async (req, res) => {
+  try {
+    const includeReplayed = req.query.includeReplayed === 'true';
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
+
+    const deadLetters = await getDeadLetteredWebhookEvents(includeReplayed, limit);
+
+    return res.status(200).json({
+      success: true,
+      deadLetters
+    });
+  } catch (error) {
+    logger.error('Error listing dead-lettered webhook events', { error });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Replay a dead-lettered webhook event
+ *
+ * POST /api/webhooks/dead-letters/:id/replay
+ */
+router.post('/dead-letters/:id/replay', async (req, res) => {
+  try {
+    const deadLetterId = parseInt(req.params.id, 10);
+
+    if (isNaN(deadLetterId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid dead-letter ID'
+      });
+    }
+
+    const result = await getReplayQueue().replayDeadLetter(deadLetterId);
+
+    return res.status(200).json({
+      success: result.success,
+      result
+    });
+  } catch (error) {
+    logger.error('Error replaying dead-lettered webhook event', { error, id: req.params.id });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Replay historical webhook events
+ *
+ * POST /api/webhooks/replay
+ *
+ * Request body:
+ * - eventId: number - Replay a single stored event
+ * - since: string - ISO timestamp; replay events received after this time
+ * - until: string - ISO timestamp; replay events received before this time (default: now)
+ * - eventType: string - Only replay events of this type (e.g. Issue, AppUserNotification)
+ */
+router.post('/replay', async (req, res) => {
+  try {
+    const { eventId, since, until, eventType } = req.body;
+    const queue = getReplayQueue();
+
+    if (eventId !== undefined) {
+      const result = await queue.replayEvent(parseInt(eventId, 10));
+      return res.status(200).json({
+        success: result.success,
+        results: [result]
+      });
+    }
+
+    if (!since || isNaN(Date.parse(since)) || (until && isNaN(Date.parse(until)))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing or invalid parameters: provide eventId or a valid since timestamp'
+      });
+    }
+
+    const results = await queue.replayEvents({
+      since: new Date(since),
+      until: until ? new Date(until) : undefined,
+      eventType
+    });
+
+    return res.status(200).json({
+      success: results.every(result => result.success),
+      replayed: results.length,
+      failed: results.filter(result => !result.success).length,
+      results
+    });
+  } catch (error) {
+    logger.error('Error replaying webhook events', { error });
+
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -7,11 +7,29 @@
  */
 import { program } from 'commander';
 import dotenv from 'dotenv';
+import { promises as fs } from 'fs';
 import { SyncManager, SyncOptions } from '../sync/sync-manager';
 import { getAccessToken, getConfluenceAccessToken, getConfluenceToken } from '../db/models';
 import { PlanningExtractor } from '../planning/extractor';
 import { ConfluenceClient } from '../confluence/client';
 import { LinearIssueCreatorFromPlanning } from '../planning/linear-issue-creator';
+import { getDeadLetteredWebhookEvents } from '../db/models';
+import { WebhookEventQueue, WebhookReplayResult } from '../webhooks/queue';
+import { processWebhookEvent } from '../webhooks/handler';
+import { loadWebhookFixtures, replayWebhookFixtures } from '../webhooks/fixture-replay';
+import { RecordingLinearClient } from '../linear/recording-client';
+import { LinearClientWrapper } from '../linear/client';
+import { ActionJournal } from '../linear/action-journal';
+import { shutdownGlobalRegistry } from '../agent/behavior-registry';
+import { evaluateParser, formatEvaluationReport, loadMentionCorpus, EvaluationThresholds } from '../agent/parser-evaluation';
+import {
+  captureWorkspaceSnapshot,
+  formatSimulationReport,
+  loadWorkspaceSnapshot,
+  simulateBehaviors,
+  SimulationTriggerKind,
+  WorkspaceSnapshot
+} from '../agent/behavior-simulation';
 import * as logger from '../utils/logger';
 
 // Load environment variables
@@ -37,6 +55,9 @@ const addConfluenceOptions = (command: any) => {
     .option('--confluence-id <id>', 'Confluence page ID');
 };
 
+// Split a comma-separated option value
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
 // Create a synchronization manager
 const createSyncManager = async (options: any): Promise<SyncManager> => {
   const { orgId, teamId, confluenceUrl, confluenceId, interval, autoResolve } = options;
@@ -304,6 +325,229 @@ addConfluenceOptions(
     }
   });
 
+// Webhook commands
+const webhooksCommand = program
+  .command('webhooks')
+  .description('Inspect and replay queued or captured webhook events');
+
+// List dead-lettered webhook events command
+webhooksCommand
+  .command('dead-letters')
+  .description('List dead-lettered webhook events')
+  .option('--include-replayed', 'Include events that were already replayed')
+  .option('--limit <count>', 'Maximum number of events to list', '100')
+  .action(async (options: any) => {
+    try {
+      const deadLetters = await getDeadLetteredWebhookEvents(
+        !!options.includeReplayed,
+        parseInt(options.limit, 10)
+      );
+
+      console.log(JSON.stringify({ success: true, deadLetters }, null, 2));
+      process.exit(0);
+    } catch (error) {
+      logger.error('Error listing dead-lettered webhook events', { error });
+      console.error('Error:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Replay webhook events command
+webhooksCommand
+  .command('replay')
+  .description('Replay dead-lettered or historical webhook events through the processors')
+  .option('--dead-letter <id>', 'Dead-letter ID to replay')
+  .option('--event-id <id>', 'Stored webhook event ID to replay')
+  .option('--since <timestamp>', 'Replay events received after this ISO timestamp')
+  .option('--until <timestamp>', 'Replay events received before this ISO timestamp')
+  .option('--type <type>', 'Only replay events of this type (e.g. Issue, AppUserNotification)')
+  .action(async (options: any) => {
+    try {
+      const queue = new WebhookEventQueue(processWebhookEvent);
+      let results: WebhookReplayResult[];
+
+      if (options.deadLetter) {
+        results = [await queue.replayDeadLetter(parseInt(options.deadLetter, 10))];
+      } else if (options.eventId) {
+        results = [await queue.replayEvent(parseInt(options.eventId, 10))];
+      } else if (options.since) {
+        results = await queue.replayEvents({
+          since: new Date(options.since),
+          until: options.until ? new Date(options.until) : undefined,
+          eventType: options.type
+        });
+      } else {
+        throw new Error('Provide --dead-letter, --event-id or --since');
+      }
+
+      const failed = results.filter(result => !result.success).length;
+
+      logger.info('Webhook replay completed', { replayed: results.length, failed });
+      console.log(JSON.stringify({ success: failed === 0, replayed: results.length, failed, results }, null, 2));
+      process.exit(failed === 0 ? 0 : 1);
+    } catch (error) {
+      logger.error('Error replaying webhook events', { error });
+      console.error('Error:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Replay captured webhook fixtures command
+webhooksCommand
+  .command('replay-fixture <path>')
+  .description('Replay a captured webhook fixture (or a directory of fixtures) without calling Linear')
+  .option('--live', 'Read from Linear instead of in-memory data (mutations are still only recorded)')
+  .option('--org-id <id>', 'Linear organization ID for live reads')
+  .action(async (fixturePath: string, options: any) => {
+    try {
+      let linearClient: RecordingLinearClient;
+
+      if (options.live) {
+        const organizationId = options.orgId || process.env.LINEAR_ORGANIZATION_ID;
+        if (!organizationId) {
+          throw new Error('Provide --org-id or set LINEAR_ORGANIZATION_ID for live replay');
+        }
+
+        const accessToken = await getAccessToken(organizationId) || process.env.LINEAR_ACCESS_TOKEN;
+        if (!accessToken) {
+          throw new Error(`Linear access token not found for organization: ${organizationId}`);
+        }
+
+        linearClient = new RecordingLinearClient({ live: true, accessToken, organizationId });
+      } else {
+        linearClient = new RecordingLinearClient();
+      }
+
+      const fixtures = await loadWebhookFixtures(fixturePath);
+      const results = await replayWebhookFixtures(fixtures, linearClient);
+      await shutdownGlobalRegistry();
+
+      const failed = results.filter(result => !result.success).length;
+
+      logger.info('Webhook fixture replay completed', { replayed: results.length, failed });
+      console.log(JSON.stringify({ success: failed === 0, replayed: results.length, failed, results }, null, 2));
+      process.exit(failed === 0 ? 0 : 1);
+    } catch (error) {
+      logger.error('Error replaying webhook fixtures', { error });
+      console.error('Error:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Evaluate the command parser against a labeled mention corpus
+program
+  .command('evaluate-parser <corpus>')
+  .description('Evaluate command recognition against a labeled mention corpus; exits non-zero below the thresholds')
+  .option('--min-confidence <value>', 'Parser minimum confidence to evaluate')
+  .option('--min-accuracy <value>', 'Minimum share of mentions with the expected intent')
+  .option('--min-precision <value>', 'Minimum precision for every predicted intent')
+  .option('--min-recall <value>', 'Minimum recall for every labeled intent')
+  .option('--min-parameter-accuracy <value>', 'Minimum share of mentions whose expected parameters match')
+  .option('--json', 'Print the report as JSON')
+  .action(async (corpusPath: string, options: any) => {
+    try {
+      const corpus = await loadMentionCorpus(corpusPath);
+
+      const thresholds: Partial<EvaluationThresholds> = {};
+      if (options.minAccuracy) thresholds.minAccuracy = parseFloat(options.minAccuracy);
+      if (options.minPrecision) thresholds.minPrecision = parseFloat(options.minPrecision);
+      if (options.minRecall) thresholds.minRecall = parseFloat(options.minRecall);
+      if (options.minParameterAccuracy) thresholds.minParameterAccuracy = parseFloat(options.minParameterAccuracy);
+
+      const report = evaluateParser(
+        corpus,
+        options.minConfidence ? { minConfidence: parseFloat(options.minConfidence) } : {},
+        thresholds
+      );
+
+      console.log(options.json ? JSON.stringify(report, null, 2) : formatEvaluationReport(report));
+      process.exit(report.passed ? 0 : 1);
+    } catch (error) {
+      logger.error('Error evaluating command parser', { error });
+      console.error('Error:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Dry-run behaviors against a team snapshot
+program
+  .command('simulate-behaviors')
+  .description('Show what behaviors would do for a team, from a snapshot file or live Linear, without changing anything')
+  .requiredOption('--behaviors <ids>', 'Comma-separated behavior IDs (e.g. workflow_automation,anomaly_detection)')
+  .option('--snapshot <path>', 'Workspace snapshot JSON file')
+  .option('--team-id <id>', 'Capture a snapshot of this team from Linear')
+  .option('--org-id <id>', 'Linear organization ID for the capture')
+  .option('--lookback-days <days>', 'Capture issues updated within this many days', '90')
+  .option('--save-snapshot <path>', 'Write the captured snapshot to a file')
+  .option('--triggers <kinds>', 'Comma-separated synthetic triggers (schedule, issue_update)', 'schedule,issue_update')
+  .option('--json', 'Print the report as JSON')
+  .action(async (options: any) => {
+    try {
+      let snapshot: WorkspaceSnapshot;
+
+      if (options.snapshot) {
+        snapshot = await loadWorkspaceSnapshot(options.snapshot);
+      } else if (options.teamId) {
+        const organizationId = options.orgId || process.env.LINEAR_ORGANIZATION_ID;
+        if (!organizationId) {
+          throw new Error('Provide --org-id or set LINEAR_ORGANIZATION_ID to capture a snapshot');
+        }
+
+        const accessToken = await getAccessToken(organizationId) || process.env.LINEAR_ACCESS_TOKEN;
+        if (!accessToken) {
+          throw new Error(`Linear access token not found for organization: ${organizationId}`);
+        }
+
+        snapshot = await captureWorkspaceSnapshot(
+          new LinearClientWrapper(accessToken, organizationId),
+          options.teamId,
+          parseInt(options.lookbackDays, 10)
+        );
+        if (options.saveSnapshot) {
+          await fs.writeFile(options.saveSnapshot, JSON.stringify(snapshot, null, 2), 'utf8');
+        }
+      } else {
+        throw new Error('Provide --snapshot or --team-id');
+      }
+
+      const report = await simulateBehaviors(snapshot, {
+        behaviors: splitList(options.behaviors),
+        triggers: splitList(options.triggers) as SimulationTriggerKind[]
+      });
+
+      console.log(options.json ? JSON.stringify(report, null, 2) : formatSimulationReport(report));
+      process.exit(0);
+    } catch (error) {
+      logger.error('Error simulating behaviors', { error });
+      console.error('Error:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Revert the Linear changes of an agent execution
+program
+  .command('undo <executionId>')
+  .description('Revert every change an agent execution made in Linear, newest first; exits non-zero if a step could not be reverted')
+  .requiredOption('--org-id <id>', 'Linear organization ID')
+  .action(async (executionId: string, options: any) => {
+    try {
+      const linearAccessToken = await getAccessToken(options.orgId);
+      if (!linearAccessToken) {
+        throw new Error(`Linear access token not found for organization: ${options.orgId}`);
+      }
+
+      const journal = new ActionJournal(new LinearClientWrapper(linearAccessToken, options.orgId));
+      const report = await journal.revert(executionId);
+
+      console.log(JSON.stringify(report, null, 2));
+      process.exit(report.failed.length === 0 ? 0 : 1);
+    } catch (error) {
+      logger.error('Error reverting execution', { error, executionId });
+      console.error('Error:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
 // Parse command-line arguments
 program.parse(process.argv);
 
@@ -0,0 +1,43 @@
+-- Migration 008: Durable webhook event queue
+-- Webhooks are persisted on receipt and processed asynchronously by a worker.
+-- Events that exhaust their retries are moved to the dead-letter table.
+
+-- Webhook events table
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id SERIAL PRIMARY KEY,
+  delivery_id TEXT,
+  event_type TEXT NOT NULL,
+  action TEXT,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT webhook_events_status_check CHECK (
+    status IN ('pending', 'processing', 'completed', 'failed', 'dead_lettered')
+  )
+);
+
+-- Webhook dead-letter table
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id SERIAL PRIMARY KEY,
+  event_id INTEGER NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  action TEXT,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL,
+  last_error TEXT,
+  failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  replayed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status_next_attempt ON webhook_events(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_created_at ON webhook_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_event_type ON webhook_events(event_type);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_event_id ON webhook_dead_letters(event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_replayed_at ON webhook_dead_letters(replayed_at);
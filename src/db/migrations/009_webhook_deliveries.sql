@@ -0,0 +1,16 @@
+-- Migration 009: Webhook delivery deduplication
+-- Linear retries webhook deliveries; each delivery is claimed once by its
+-- delivery ID and payload hash so processors run exactly once per delivery.
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  dedup_key TEXT PRIMARY KEY,
+  delivery_id TEXT,
+  payload_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('processing', 'completed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_expires_at ON webhook_deliveries(expires_at);
@@ -0,0 +1,17 @@
+-- Migration 010: ROAM risk management
+-- PI risks are ROAMed (Resolved, Owned, Accepted, Mitigated) from Linear;
+-- the owner is tracked alongside the status and each risk issue has one row
+-- per program increment.
+
+ALTER TABLE pi_risks ADD COLUMN IF NOT EXISTS owner TEXT;
+
+-- Keep the most recently updated row where a risk was recorded more than once
+DELETE FROM pi_risks older
+USING pi_risks newer
+WHERE older.program_increment_id = newer.program_increment_id
+  AND older.risk_id = newer.risk_id
+  AND (older.updated_at < newer.updated_at
+    OR (older.updated_at = newer.updated_at AND older.id < newer.id));
+
+CREATE UNIQUE INDEX IF NOT EXISTS pi_risks_program_increment_risk_idx ON pi_risks(program_increment_id, risk_id);
+CREATE INDEX IF NOT EXISTS pi_risks_risk_id_idx ON pi_risks(risk_id);
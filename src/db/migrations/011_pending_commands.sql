@@ -0,0 +1,20 @@
+-- Migration 011: Pending commands awaiting clarification
+-- When a command from an issue comment is missing a parameter, the agent asks
+-- a follow-up question in the comment thread and keeps the command here until
+-- a reply in the same thread completes it or the state expires.
+
+CREATE TABLE IF NOT EXISTS pending_commands (
+  thread_id TEXT PRIMARY KEY,
+  issue_id TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  raw_text TEXT NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '{}',
+  context JSONB NOT NULL DEFAULT '{}',
+  parameter TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '[]',
+  question TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_commands_expires_at ON pending_commands(expires_at);
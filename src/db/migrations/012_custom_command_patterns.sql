@@ -0,0 +1,19 @@
+-- Migration 012: Organization command patterns
+-- Organizations add their own phrasings to the built-in command intents; each
+-- row is one regex with the keywords and examples that go with it.
+
+CREATE TABLE IF NOT EXISTS custom_command_patterns (
+  id SERIAL PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  pattern TEXT NOT NULL,
+  flags TEXT NOT NULL DEFAULT 'i',
+  keywords JSONB NOT NULL DEFAULT '[]',
+  examples JSONB NOT NULL DEFAULT '[]',
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(organization_id, intent, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_command_patterns_organization_id ON custom_command_patterns(organization_id);
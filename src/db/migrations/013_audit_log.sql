@@ -0,0 +1,22 @@
+-- Migration 013: Agent audit log
+-- Records what the agent decided and why, such as commands refused by the
+-- permission policy, so they can be reviewed after the fact.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id SERIAL PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  outcome TEXT NOT NULL,
+  actor_id TEXT,
+  actor_name TEXT,
+  issue_id TEXT,
+  team_id TEXT,
+  intent TEXT,
+  execution_id TEXT,
+  reason TEXT,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_issue_id ON audit_log(issue_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_team_id ON audit_log(team_id);
@@ -0,0 +1,18 @@
+-- Migration 014: Command previews awaiting confirmation
+-- Commands that change Linear post a preview comment first. The proposed
+-- changes are kept here, keyed by the preview comment, until a ✅ reaction
+-- applies them or a ❌ reaction or expiry discards them.
+
+CREATE TABLE IF NOT EXISTS pending_plans (
+  comment_id TEXT PRIMARY KEY,
+  thread_id TEXT NOT NULL,
+  issue_id TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  command JSONB NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]',
+  requester_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_plans_expires_at ON pending_plans(expires_at);
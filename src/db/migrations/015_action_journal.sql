@@ -0,0 +1,22 @@
+-- Migration 015: Action journal
+-- Every change the agent makes in Linear is recorded with the state needed
+-- to revert it, grouped by the command execution that made it, so a whole
+-- execution can be undone later.
+
+CREATE TABLE IF NOT EXISTS action_journal (
+  id SERIAL PRIMARY KEY,
+  execution_id TEXT NOT NULL,
+  sequence INTEGER NOT NULL,
+  action_type TEXT NOT NULL,
+  target_id TEXT NOT NULL,
+  target_identifier TEXT,
+  before_state JSONB,
+  after_state JSONB,
+  origin_issue_id TEXT,
+  actor_id TEXT,
+  reverted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_journal_execution_id ON action_journal(execution_id, sequence);
+CREATE INDEX IF NOT EXISTS idx_action_journal_origin_issue_id ON action_journal(origin_issue_id, created_at);
@@ -0,0 +1,13 @@
+-- Migration 016: Audit trail for behaviors and commands
+-- Extends the agent audit log so every behavior trigger, decision, action and
+-- outcome, and every command result, can be traced back to the webhook or
+-- schedule that started it.
+
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS behavior_id TEXT;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS trigger_id TEXT;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS trigger_type TEXT;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS source TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_behavior_id ON audit_log(behavior_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_intent ON audit_log(intent);
+CREATE INDEX IF NOT EXISTS idx_audit_log_trigger_id ON audit_log(trigger_id);
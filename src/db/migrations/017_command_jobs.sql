@@ -0,0 +1,25 @@
+-- Migration 017: Long-running command jobs
+-- Commands such as ART planning run as background jobs. Each job keeps its
+-- progress comment, current stage and outcome here so `job status` can
+-- report on it and `cancel` can stop it.
+
+CREATE TABLE IF NOT EXISTS command_jobs (
+  id TEXT PRIMARY KEY,
+  issue_id TEXT NOT NULL,
+  thread_id TEXT NOT NULL,
+  comment_id TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  command JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  stage TEXT,
+  progress INTEGER NOT NULL DEFAULT 0,
+  requester_id TEXT,
+  cancelled_by TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_command_jobs_issue_id ON command_jobs(issue_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_command_jobs_status ON command_jobs(status);
@@ -0,0 +1,23 @@
+-- Migration 018: Daily team metric snapshots
+-- A scheduled job records each team's delivery metrics once a day. Anomaly
+-- detection compares current metrics against these snapshots instead of
+-- recomputing a baseline from Linear, and /api/team-metrics returns them as
+-- a time series.
+
+CREATE TABLE IF NOT EXISTS team_metric_snapshots (
+  id SERIAL PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  snapshot_date DATE NOT NULL,
+  velocity DOUBLE PRECISION NOT NULL DEFAULT 0,
+  wip_count INTEGER NOT NULL DEFAULT 0,
+  avg_cycle_time DOUBLE PRECISION NOT NULL DEFAULT 0,
+  blockage_rate DOUBLE PRECISION NOT NULL DEFAULT 0,
+  stale_count INTEGER NOT NULL DEFAULT 0,
+  completed_count INTEGER NOT NULL DEFAULT 0,
+  estimation_variance DOUBLE PRECISION NOT NULL DEFAULT 0,
+  member_workloads JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (team_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_metric_snapshots_team_date ON team_metric_snapshots(team_id, snapshot_date);
@@ -0,0 +1,9 @@
+-- Migration 019: Behavior schedule runs
+-- Remembers when the behavior scheduler last checked each cron schedule, so
+-- runs missed while the agent was down can be caught up after a restart.
+
+CREATE TABLE IF NOT EXISTS behavior_schedule_runs (
+  behavior_id TEXT PRIMARY KEY,
+  last_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
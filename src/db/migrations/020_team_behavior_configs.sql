@@ -0,0 +1,14 @@
+-- Migration 020: Team behavior configs
+-- Per-team autonomous behavior configuration, managed through
+-- /api/behavior-configs. Every update adds a version; a team's highest
+-- version is its current configuration and older versions are kept as history.
+
+CREATE TABLE IF NOT EXISTS team_behavior_configs (
+  id SERIAL PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}',
+  updated_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (team_id, version)
+);
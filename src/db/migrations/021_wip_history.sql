@@ -0,0 +1,18 @@
+-- Migration 021: WIP history
+-- Issue counts per team and workflow state, recorded by the WIP limits
+-- behavior whenever an issue webhook can change them and with each daily
+-- summary. /api/team-metrics/:teamId/wip returns them for flow analytics.
+
+CREATE TABLE IF NOT EXISTS wip_history (
+  id SERIAL PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  state_name TEXT NOT NULL,
+  issue_count INTEGER NOT NULL,
+  wip_limit INTEGER,
+  assignee_counts JSONB NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL,
+  issue_id TEXT,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wip_history_team_recorded ON wip_history(team_id, recorded_at);
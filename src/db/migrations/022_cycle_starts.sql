@@ -0,0 +1,11 @@
+-- Migration 022: Cycle starts
+-- Linear sends no webhook when a cycle starts on schedule, so the agent also
+-- checks for started cycles periodically. Each cycle's start is recorded once
+-- so CYCLE_STARTED fires once, whether the webhook or the check sees it first.
+
+CREATE TABLE IF NOT EXISTS cycle_starts (
+  cycle_id TEXT PRIMARY KEY,
+  team_id TEXT,
+  source TEXT NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -150,6 +150,7 @@ export interface PIRiskDB {
   likelihood: number;
   status: string;
   mitigation_plan?: string;
+  owner?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -198,6 +199,241 @@ export interface SyncHistory {
   created_at: Date;
 }
 
+/**
+ * Webhook event in the durable processing queue
+ */
+export interface WebhookEventDB {
+  id: number;
+  delivery_id?: string;
+  event_type: string;
+  action?: string;
+  payload: any;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'dead_lettered';
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  last_error?: string;
+  processed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Webhook event that exhausted its retries
+ */
+export interface WebhookDeadLetterDB {
+  id: number;
+  event_id: number;
+  event_type: string;
+  action?: string;
+  payload: any;
+  attempts: number;
+  last_error?: string;
+  failed_at: Date;
+  replayed_at?: Date;
+}
+
+/**
+ * Claimed webhook delivery used for deduplication
+ */
+export interface WebhookDeliveryDB {
+  dedup_key: string;
+  delivery_id?: string;
+  payload_hash: string;
+  status: 'processing' | 'completed';
+  created_at: Date;
+  completed_at?: Date;
+  expires_at: Date;
+}
+
+/**
+ * Command waiting for a clarification reply in an issue comment thread
+ */
+export interface PendingCommandDB {
+  thread_id: string;
+  issue_id: string;
+  intent: string;
+  raw_text: string;
+  parameters: Record<string, any>;
+  context: Record<string, any>;
+  parameter: string;
+  options: string[];
+  question: string;
+  created_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * Organization-defined pattern for a command intent
+ */
+export interface CustomCommandPatternDB {
+  id: number;
+  organization_id: string;
+  intent: string;
+  pattern: string;
+  flags: string;
+  keywords: string[];
+  examples: string[];
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Audit log entry for an agent decision
+ */
+export interface AuditLogEntryDB {
+  id: number;
+  event_type: string;
+  outcome: string;
+  actor_id?: string;
+  actor_name?: string;
+  issue_id?: string;
+  team_id?: string;
+  intent?: string;
+  execution_id?: string;
+  reason?: string;
+  details: Record<string, any>;
+  behavior_id?: string;
+  trigger_id?: string;
+  trigger_type?: string;
+  /** Webhook or schedule that started the event, e.g. "webhook Issue.update" */
+  source?: string;
+  created_at: Date;
+}
+
+/**
+ * Filter for audit log queries
+ */
+export interface AuditLogFilter {
+  issueId?: string;
+  teamId?: string;
+  behaviorId?: string;
+  intent?: string;
+  eventType?: string;
+  executionId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Proposed changes of a command, awaiting confirmation on their preview comment
+ */
+export interface PendingPlanDB {
+  comment_id: string;
+  thread_id: string;
+  issue_id: string;
+  intent: string;
+  command: Record<string, any>;
+  changes: Record<string, any>[];
+  requester_id?: string;
+  created_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * A change the agent made in Linear, with the state needed to revert it
+ */
+export interface ActionJournalEntryDB {
+  id: number;
+  execution_id: string;
+  sequence: number;
+  action_type: string;
+  target_id: string;
+  target_identifier?: string;
+  before_state: Record<string, any> | null;
+  after_state: Record<string, any> | null;
+  origin_issue_id?: string;
+  actor_id?: string;
+  reverted_at?: Date;
+  created_at: Date;
+}
+
+/**
+ * Lifecycle of a long-running command job
+ */
+export type CommandJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A long-running command run in the background, with its progress comment
+ */
+export interface CommandJobDB {
+  id: string;
+  issue_id: string;
+  thread_id: string;
+  comment_id: string;
+  intent: string;
+  command: Record<string, any>;
+  status: CommandJobStatus;
+  stage?: string;
+  progress: number;
+  requester_id?: string;
+  cancelled_by?: string;
+  error?: string;
+  created_at: Date;
+  started_at?: Date;
+  finished_at?: Date;
+}
+
+/**
+ * Interface for a team's daily metric snapshot
+ */
+export interface TeamMetricSnapshotDB {
+  id: number;
+  team_id: string;
+  /** Day the snapshot describes (YYYY-MM-DD, UTC) */
+  snapshot_date: string;
+  /** Completed points per week over the lookback window */
+  velocity: number;
+  wip_count: number;
+  /** Average days from creation to completion */
+  avg_cycle_time: number;
+  /** Percentage of recently updated issues that are blocked */
+  blockage_rate: number;
+  stale_count: number;
+  completed_count: number;
+  /** Average percentage by which completed work missed its estimate */
+  estimation_variance: number;
+  /** In-progress points by assignee ID */
+  member_workloads: Record<string, number>;
+  created_at: Date;
+}
+
+/**
+ * Interface for a version of a team's behavior configuration
+ */
+export interface TeamBehaviorConfigDB {
+  id: number;
+  team_id: string;
+  /** Starts at 1 and increases with every update */
+  version: number;
+  /** TeamBehaviorConfig (src/agent/behavior-config.ts) */
+  config: Record<string, any>;
+  updated_by?: string;
+  created_at: Date;
+}
+
+/**
+ * Interface for a recorded count of a team's issues in a workflow state
+ */
+export interface WipHistoryDB {
+  id: number;
+  team_id: string;
+  state_name: string;
+  issue_count: number;
+  /** Team limit for the state when it was recorded; null if it had none */
+  wip_limit: number | null;
+  /** Issues in the state by assignee ID */
+  assignee_counts: Record<string, number>;
+  /** 'webhook' for counts taken after an issue changed, 'daily' for the daily summary */
+  source: 'webhook' | 'daily';
+  /** Issue whose webhook led to the count */
+  issue_id?: string;
+  recorded_at: Date;
+}
+
 /**
  * Initializes the database schema by running migrations
  */
@@ -1880,6 +2116,1416 @@ export const deletePIFeature = async (featureId: number): Promise<boolean> => {
   }
 };
 
+// PI Risk CRUD Operations
+
+/**
+ * Creates or updates the ROAM status of a PI risk
+ */
+export const upsertPIRisk = async (
+  programIncrementId: number,
+  riskId: string,
+  description: string,
+  status: string,
+  owner?: string
+): Promise<PIRiskDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO pi_risks (
+          program_increment_id, risk_id, description, status, owner
+        ) VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (program_increment_id, risk_id) DO UPDATE SET
+          description = EXCLUDED.description,
+          status = EXCLUDED.status,
+          owner = COALESCE(EXCLUDED.owner, pi_risks.owner),
+          updated_at = NOW()
+        RETURNING *
+      `,
+      [programIncrementId, riskId, description, status, owner || null]
+    );
+
+    logger.info('PI risk stored', { programIncrementId, riskId, status });
+
+    return result.rows[0] as PIRiskDB;
+  } catch (error) {
+    logger.error('Error storing PI risk', { error, programIncrementId, riskId });
+    throw error;
+  }
+};
+
+/**
+ * Gets all PI risks for a program increment
+ */
+export const getPIRisksByProgramIncrement = async (
+  programIncrementId: number
+): Promise<PIRiskDB[]> => {
+  try {
+    const result = await query(
+      'SELECT * FROM pi_risks WHERE program_increment_id = $1 ORDER BY updated_at DESC',
+      [programIncrementId]
+    );
+
+    return result.rows as PIRiskDB[];
+  } catch (error) {
+    logger.error('Error retrieving PI risks', { error, programIncrementId });
+    throw error;
+  }
+};
+
+/**
+ * Gets the stored PI risks for a set of Linear risk issues
+ */
+export const getPIRisksByRiskIds = async (riskIds: string[]): Promise<PIRiskDB[]> => {
+  if (riskIds.length === 0) {
+    return [];
+  }
+
+  try {
+    const result = await query(
+      'SELECT * FROM pi_risks WHERE risk_id = ANY($1) ORDER BY updated_at DESC',
+      [riskIds]
+    );
+
+    return result.rows as PIRiskDB[];
+  } catch (error) {
+    logger.error('Error retrieving PI risks by risk ID', { error, count: riskIds.length });
+    throw error;
+  }
+};
+
+// Webhook Event Queue CRUD Operations
+
+/**
+ * Persists a received webhook event for asynchronous processing
+ */
+export const enqueueWebhookEvent = async (
+  eventType: string,
+  action: string | undefined,
+  payload: any,
+  deliveryId?: string,
+  maxAttempts: number = 5
+): Promise<WebhookEventDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO webhook_events (
+          delivery_id, event_type, action, payload, max_attempts
+        ) VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      `,
+      [deliveryId, eventType, action, JSON.stringify(payload), maxAttempts]
+    );
+
+    logger.info('Webhook event enqueued', {
+      eventId: result.rows[0].id,
+      eventType,
+      action,
+      deliveryId
+    });
+
+    return result.rows[0] as WebhookEventDB;
+  } catch (error) {
+    logger.error('Error enqueuing webhook event', { error, eventType, action, deliveryId });
+    throw error;
+  }
+};
+
+/**
+ * Claims due webhook events for processing
+ *
+ * Rows are locked with SKIP LOCKED so several workers can poll the same table
+ * without processing an event twice. A claim is a lease: an event still
+ * 'processing' after processingTimeoutMs (its worker crashed or hung) is
+ * claimed again.
+ */
+export const claimPendingWebhookEvents = async (
+  limit: number = 10,
+  processingTimeoutMs: number = 5 * 60 * 1000
+): Promise<WebhookEventDB[]> => {
+  try {
+    const result = await query(
+      `
+        UPDATE webhook_events
+        SET status = 'processing', attempts = attempts + 1, updated_at = NOW()
+        WHERE id IN (
+          SELECT id FROM webhook_events
+          WHERE (status IN ('pending', 'failed') AND next_attempt_at <= NOW())
+            OR (status = 'processing' AND updated_at < NOW() - $2 * INTERVAL '1 millisecond')
+          ORDER BY next_attempt_at ASC, id ASC
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `,
+      [limit, processingTimeoutMs]
+    );
+
+    return result.rows as WebhookEventDB[];
+  } catch (error) {
+    logger.error('Error claiming pending webhook events', { error, limit });
+    throw error;
+  }
+};
+
+/**
+ * Marks a webhook event as successfully processed
+ */
+export const markWebhookEventCompleted = async (eventId: number): Promise<void> => {
+  try {
+    await query(
+      `
+        UPDATE webhook_events
+        SET status = 'completed', last_error = NULL, processed_at = NOW(), updated_at = NOW()
+        WHERE id = $1
+      `,
+      [eventId]
+    );
+  } catch (error) {
+    logger.error('Error marking webhook event completed', { error, eventId });
+    throw error;
+  }
+};
+
+/**
+ * Records a failed attempt and schedules the next retry
+ */
+export const markWebhookEventFailed = async (
+  eventId: number,
+  errorMessage: string,
+  nextAttemptAt: Date
+): Promise<void> => {
+  try {
+    await query(
+      `
+        UPDATE webhook_events
+        SET status = 'failed', last_error = $2, next_attempt_at = $3, updated_at = NOW()
+        WHERE id = $1
+      `,
+      [eventId, errorMessage, nextAttemptAt]
+    );
+
+    logger.warn('Webhook event failed, retry scheduled', { eventId, nextAttemptAt });
+  } catch (error) {
+    logger.error('Error marking webhook event failed', { error, eventId });
+    throw error;
+  }
+};
+
+/**
+ * Moves a webhook event that exhausted its retries to the dead-letter table
+ */
+export const moveWebhookEventToDeadLetter = async (
+  eventId: number,
+  errorMessage: string
+): Promise<WebhookDeadLetterDB> => {
+  try {
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const eventResult = await client.query(
+        `
+          UPDATE webhook_events
+          SET status = 'dead_lettered', last_error = $2, updated_at = NOW()
+          WHERE id = $1
+          RETURNING *
+        `,
+        [eventId, errorMessage]
+      );
+
+      const event = eventResult.rows[0] as WebhookEventDB;
+
+      const result = await client.query(
+        `
+          INSERT INTO webhook_dead_letters (
+            event_id, event_type, action, payload, attempts, last_error
+          ) VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING *
+        `,
+        [event.id, event.event_type, event.action, JSON.stringify(event.payload), event.attempts, errorMessage]
+      );
+
+      await client.query('COMMIT');
+
+      logger.error('Webhook event moved to dead-letter queue', {
+        eventId,
+        eventType: event.event_type,
+        attempts: event.attempts
+      });
+
+      return result.rows[0] as WebhookDeadLetterDB;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    logger.error('Error moving webhook event to dead-letter queue', { error, eventId });
+    throw error;
+  }
+};
+
+/**
+ * Gets a webhook event by ID
+ */
+export const getWebhookEvent = async (eventId: number): Promise<WebhookEventDB | null> => {
+  try {
+    const result = await query(
+      'SELECT * FROM webhook_events WHERE id = $1',
+      [eventId]
+    );
+
+    if (result.rows.length === 0) {
+      logger.warn('No webhook event found with ID', { eventId });
+      return null;
+    }
+
+    return result.rows[0] as WebhookEventDB;
+  } catch (error) {
+    logger.error('Error retrieving webhook event', { error, eventId });
+    throw error;
+  }
+};
+
+/**
+ * Gets webhook events received within a time range, optionally filtered by type
+ */
+export const getWebhookEventsByTimeRange = async (
+  since: Date,
+  until: Date = new Date(),
+  eventType?: string
+): Promise<WebhookEventDB[]> => {
+  try {
+    const params: any[] = [since, until];
+    let sql = 'SELECT * FROM webhook_events WHERE created_at >= $1 AND created_at <= $2';
+
+    if (eventType) {
+      params.push(eventType);
+      sql += ` AND event_type = $${params.length}`;
+    }
+
+    sql += ' ORDER BY created_at ASC, id ASC';
+
+    const result = await query(sql, params);
+
+    return result.rows as WebhookEventDB[];
+  } catch (error) {
+    logger.error('Error retrieving webhook events by time range', { error, since, until, eventType });
+    throw error;
+  }
+};
+
+/**
+ * Gets dead-lettered webhook events
+ */
+export const getDeadLetteredWebhookEvents = async (
+  includeReplayed: boolean = false,
+  limit: number = 100
+): Promise<WebhookDeadLetterDB[]> => {
+  try {
+    const result = await query(
+      `
+        SELECT * FROM webhook_dead_letters
+        WHERE ($1::boolean OR replayed_at IS NULL)
+        ORDER BY failed_at DESC
+        LIMIT $2
+      `,
+      [includeReplayed, limit]
+    );
+
+    return result.rows as WebhookDeadLetterDB[];
+  } catch (error) {
+    logger.error('Error retrieving dead-lettered webhook events', { error });
+    throw error;
+  }
+};
+
+/**
+ * Gets a dead-lettered webhook event by ID
+ */
+export const getDeadLetteredWebhookEvent = async (
+  deadLetterId: number
+): Promise<WebhookDeadLetterDB | null> => {
+  try {
+    const result = await query(
+      'SELECT * FROM webhook_dead_letters WHERE id = $1',
+      [deadLetterId]
+    );
+
+    if (result.rows.length === 0) {
+      logger.warn('No dead-lettered webhook event found with ID', { deadLetterId });
+      return null;
+    }
+
+    return result.rows[0] as WebhookDeadLetterDB;
+  } catch (error) {
+    logger.error('Error retrieving dead-lettered webhook event', { error, deadLetterId });
+    throw error;
+  }
+};
+
+/**
+ * Marks a dead-lettered webhook event as replayed
+ */
+export const markDeadLetterReplayed = async (deadLetterId: number): Promise<void> => {
+  try {
+    await query(
+      'UPDATE webhook_dead_letters SET replayed_at = NOW() WHERE id = $1',
+      [deadLetterId]
+    );
+
+    logger.info('Dead-lettered webhook event marked as replayed', { deadLetterId });
+  } catch (error) {
+    logger.error('Error marking dead-lettered webhook event replayed', { error, deadLetterId });
+    throw error;
+  }
+};
+
+// Webhook Delivery Deduplication CRUD Operations
+
+/**
+ * Claims a webhook delivery for processing
+ *
+ * Returns false if the delivery was already claimed and has not expired.
+ * Expired claims are taken over so the key can be reused after the TTL, and
+ * so are claims still 'processing' after processingLeaseMs, whose process
+ * crashed before completing or releasing them.
+ */
+export const claimWebhookDelivery = async (
+  dedupKey: string,
+  deliveryId: string | undefined,
+  payloadHash: string,
+  expiresAt: Date,
+  processingLeaseMs: number = 2 * 60 * 1000
+): Promise<boolean> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO webhook_deliveries (
+          dedup_key, delivery_id, payload_hash, status, expires_at
+        ) VALUES ($1, $2, $3, 'processing', $4)
+        ON CONFLICT (dedup_key) DO UPDATE SET
+          delivery_id = EXCLUDED.delivery_id,
+          status = 'processing',
+          created_at = NOW(),
+          completed_at = NULL,
+          expires_at = EXCLUDED.expires_at
+        WHERE webhook_deliveries.expires_at < NOW()
+          OR (
+            webhook_deliveries.status = 'processing'
+            AND webhook_deliveries.created_at < NOW() - $5 * INTERVAL '1 millisecond'
+          )
+        RETURNING dedup_key
+      `,
+      [dedupKey, deliveryId, payloadHash, expiresAt, processingLeaseMs]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    logger.error('Error claiming webhook delivery', { error, dedupKey, deliveryId });
+    throw error;
+  }
+};
+
+/**
+ * Marks a claimed webhook delivery as completed
+ */
+export const completeWebhookDelivery = async (dedupKey: string): Promise<void> => {
+  try {
+    await query(
+      `
+        UPDATE webhook_deliveries
+        SET status = 'completed', completed_at = NOW()
+        WHERE dedup_key = $1
+      `,
+      [dedupKey]
+    );
+  } catch (error) {
+    logger.error('Error completing webhook delivery', { error, dedupKey });
+    throw error;
+  }
+};
+
+/**
+ * Releases a webhook delivery claim so a retried delivery can be processed
+ */
+export const releaseWebhookDelivery = async (dedupKey: string): Promise<void> => {
+  try {
+    await query(
+      'DELETE FROM webhook_deliveries WHERE dedup_key = $1',
+      [dedupKey]
+    );
+  } catch (error) {
+    logger.error('Error releasing webhook delivery', { error, dedupKey });
+    throw error;
+  }
+};
+
+/**
+ * Deletes expired webhook delivery claims
+ */
+export const purgeExpiredWebhookDeliveries = async (): Promise<number> => {
+  try {
+    const result = await query(
+      'DELETE FROM webhook_deliveries WHERE expires_at < NOW()'
+    );
+
+    const purged = result.rowCount ?? 0;
+    if (purged > 0) {
+      logger.info('Expired webhook deliveries purged', { purged });
+    }
+
+    return purged;
+  } catch (error) {
+    logger.error('Error purging expired webhook deliveries', { error });
+    throw error;
+  }
+};
+
+// Pending Command CRUD Operations
+
+/**
+ * Saves the pending command of a comment thread, replacing any previous one
+ */
+export const savePendingCommand = async (
+  threadId: string,
+  issueId: string,
+  intent: string,
+  rawText: string,
+  parameters: Record<string, any>,
+  context: Record<string, any>,
+  parameter: string,
+  options: string[],
+  question: string,
+  expiresAt: Date
+): Promise<PendingCommandDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO pending_commands (
+          thread_id, issue_id, intent, raw_text, parameters, context,
+          parameter, options, question, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (thread_id) DO UPDATE SET
+          issue_id = EXCLUDED.issue_id,
+          intent = EXCLUDED.intent,
+          raw_text = EXCLUDED.raw_text,
+          parameters = EXCLUDED.parameters,
+          context = EXCLUDED.context,
+          parameter = EXCLUDED.parameter,
+          options = EXCLUDED.options,
+          question = EXCLUDED.question,
+          created_at = NOW(),
+          expires_at = EXCLUDED.expires_at
+        RETURNING *
+      `,
+      [
+        threadId,
+        issueId,
+        intent,
+        rawText,
+        JSON.stringify(parameters),
+        JSON.stringify(context),
+        parameter,
+        JSON.stringify(options),
+        question,
+        expiresAt
+      ]
+    );
+
+    logger.info('Pending command saved', { threadId, issueId, intent, parameter });
+    return result.rows[0] as PendingCommandDB;
+  } catch (error) {
+    logger.error('Error saving pending command', { error, threadId, issueId });
+    throw error;
+  }
+};
+
+/**
+ * Gets the unexpired pending command of a comment thread
+ */
+export const getPendingCommand = async (threadId: string): Promise<PendingCommandDB | null> => {
+  try {
+    const result = await query(
+      'SELECT * FROM pending_commands WHERE thread_id = $1 AND expires_at > NOW()',
+      [threadId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as PendingCommandDB : null;
+  } catch (error) {
+    logger.error('Error getting pending command', { error, threadId });
+    throw error;
+  }
+};
+
+/**
+ * Deletes the pending command of a comment thread
+ */
+export const deletePendingCommand = async (threadId: string): Promise<void> => {
+  try {
+    await query(
+      'DELETE FROM pending_commands WHERE thread_id = $1',
+      [threadId]
+    );
+  } catch (error) {
+    logger.error('Error deleting pending command', { error, threadId });
+    throw error;
+  }
+};
+
+/**
+ * Deletes expired pending commands
+ */
+export const purgeExpiredPendingCommands = async (): Promise<number> => {
+  try {
+    const result = await query(
+      'DELETE FROM pending_commands WHERE expires_at < NOW()'
+    );
+
+    const purged = result.rowCount ?? 0;
+    if (purged > 0) {
+      logger.info('Expired pending commands purged', { purged });
+    }
+
+    return purged;
+  } catch (error) {
+    logger.error('Error purging expired pending commands', { error });
+    throw error;
+  }
+};
+
+// Custom Command Pattern CRUD Operations
+
+/**
+ * Creates a custom command pattern for an organization
+ */
+export const createCustomCommandPattern = async (
+  organizationId: string,
+  intent: string,
+  pattern: string,
+  flags: string,
+  keywords: string[],
+  examples: string[],
+  createdBy?: string
+): Promise<CustomCommandPatternDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO custom_command_patterns (
+          organization_id, intent, pattern, flags, keywords, examples, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      `,
+      [organizationId, intent, pattern, flags, JSON.stringify(keywords), JSON.stringify(examples), createdBy]
+    );
+
+    logger.info('Custom command pattern created', { organizationId, intent, patternId: result.rows[0].id });
+    return result.rows[0] as CustomCommandPatternDB;
+  } catch (error) {
+    logger.error('Error creating custom command pattern', { error, organizationId, intent });
+    throw error;
+  }
+};
+
+/**
+ * Gets an organization's custom command patterns
+ */
+export const getCustomCommandPatternsByOrganization = async (
+  organizationId: string
+): Promise<CustomCommandPatternDB[]> => {
+  try {
+    const result = await query(
+      'SELECT * FROM custom_command_patterns WHERE organization_id = $1 ORDER BY intent, id',
+      [organizationId]
+    );
+
+    return result.rows as CustomCommandPatternDB[];
+  } catch (error) {
+    logger.error('Error getting custom command patterns', { error, organizationId });
+    throw error;
+  }
+};
+
+/**
+ * Replaces a custom command pattern
+ */
+export const updateCustomCommandPattern = async (
+  patternId: number,
+  intent: string,
+  pattern: string,
+  flags: string,
+  keywords: string[],
+  examples: string[]
+): Promise<CustomCommandPatternDB | null> => {
+  try {
+    const result = await query(
+      `
+        UPDATE custom_command_patterns
+        SET intent = $1, pattern = $2, flags = $3, keywords = $4, examples = $5, updated_at = NOW()
+        WHERE id = $6
+        RETURNING *
+      `,
+      [intent, pattern, flags, JSON.stringify(keywords), JSON.stringify(examples), patternId]
+    );
+
+    if (result.rows.length === 0) {
+      logger.warn('No custom command pattern found to update', { patternId });
+      return null;
+    }
+
+    logger.info('Custom command pattern updated', { patternId, intent });
+    return result.rows[0] as CustomCommandPatternDB;
+  } catch (error) {
+    logger.error('Error updating custom command pattern', { error, patternId });
+    throw error;
+  }
+};
+
+/**
+ * Deletes a custom command pattern
+ */
+export const deleteCustomCommandPattern = async (patternId: number): Promise<boolean> => {
+  try {
+    const result = await query(
+      'DELETE FROM custom_command_patterns WHERE id = $1',
+      [patternId]
+    );
+
+    const deleted = (result.rowCount ?? 0) > 0;
+    if (deleted) {
+      logger.info('Custom command pattern deleted', { patternId });
+    }
+
+    return deleted;
+  } catch (error) {
+    logger.error('Error deleting custom command pattern', { error, patternId });
+    throw error;
+  }
+};
+
+// Audit Log CRUD Operations
+
+/**
+ * Records an agent decision in the audit log
+ */
+export const createAuditLogEntry = async (
+  entry: Omit<AuditLogEntryDB, 'id' | 'created_at' | 'details'> & { details?: Record<string, any> }
+): Promise<AuditLogEntryDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO audit_log (
+          event_type, outcome, actor_id, actor_name, issue_id, team_id, intent, execution_id, reason, details,
+          behavior_id, trigger_id, trigger_type, source
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        RETURNING *
+      `,
+      [
+        entry.event_type,
+        entry.outcome,
+        entry.actor_id || null,
+        entry.actor_name || null,
+        entry.issue_id || null,
+        entry.team_id || null,
+        entry.intent || null,
+        entry.execution_id || null,
+        entry.reason || null,
+        JSON.stringify(entry.details || {}),
+        entry.behavior_id || null,
+        entry.trigger_id || null,
+        entry.trigger_type || null,
+        entry.source || null
+      ]
+    );
+
+    logger.info('Audit log entry created', { eventType: entry.event_type, outcome: entry.outcome });
+    return result.rows[0] as AuditLogEntryDB;
+  } catch (error) {
+    logger.error('Error creating audit log entry', { error, eventType: entry.event_type });
+    throw error;
+  }
+};
+
+/**
+ * Gets audit log entries matching a filter, newest first
+ */
+export const getAuditLogEntries = async (
+  filter: AuditLogFilter = {}
+): Promise<AuditLogEntryDB[]> => {
+  try {
+    const columns: [string, any][] = [
+      ['issue_id', filter.issueId],
+      ['team_id', filter.teamId],
+      ['behavior_id', filter.behaviorId],
+      ['intent', filter.intent],
+      ['event_type', filter.eventType],
+      ['execution_id', filter.executionId]
+    ];
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    columns
+      .filter(([, value]) => value !== undefined)
+      .forEach(([column, value]) => {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      });
+
+    if (filter.from) {
+      params.push(filter.from);
+      conditions.push(`created_at >= $${params.length}`);
+    }
+    if (filter.to) {
+      params.push(filter.to);
+      conditions.push(`created_at <= $${params.length}`);
+    }
+
+    params.push(filter.limit ?? 100, filter.offset ?? 0);
+
+    const result = await query(
+      `
+        SELECT * FROM audit_log
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${params.length - 1} OFFSET $${params.length}
+      `,
+      params
+    );
+
+    return result.rows as AuditLogEntryDB[];
+  } catch (error) {
+    logger.error('Error getting audit log entries', { error, filter });
+    throw error;
+  }
+};
+
+// Pending Plan CRUD Operations
+
+/**
+ * Saves the proposed changes shown in a preview comment
+ */
+export const savePendingPlan = async (
+  commentId: string,
+  threadId: string,
+  issueId: string,
+  intent: string,
+  command: Record<string, any>,
+  changes: Record<string, any>[],
+  requesterId: string | undefined,
+  expiresAt: Date
+): Promise<PendingPlanDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO pending_plans (
+          comment_id, thread_id, issue_id, intent, command, changes, requester_id, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *
+      `,
+      [
+        commentId,
+        threadId,
+        issueId,
+        intent,
+        JSON.stringify(command),
+        JSON.stringify(changes),
+        requesterId || null,
+        expiresAt
+      ]
+    );
+
+    logger.info('Pending plan saved', { commentId, issueId, intent, changes: changes.length });
+    return result.rows[0] as PendingPlanDB;
+  } catch (error) {
+    logger.error('Error saving pending plan', { error, commentId, issueId });
+    throw error;
+  }
+};
+
+/**
+ * Gets the pending plan of a preview comment, including expired plans not yet purged
+ */
+export const getPendingPlan = async (commentId: string): Promise<PendingPlanDB | null> => {
+  try {
+    const result = await query(
+      'SELECT * FROM pending_plans WHERE comment_id = $1',
+      [commentId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as PendingPlanDB : null;
+  } catch (error) {
+    logger.error('Error getting pending plan', { error, commentId });
+    throw error;
+  }
+};
+
+/**
+ * Deletes the pending plan of a preview comment
+ *
+ * @returns Whether a plan was deleted; false if another reaction already took it
+ */
+export const deletePendingPlan = async (commentId: string): Promise<boolean> => {
+  try {
+    const result = await query(
+      'DELETE FROM pending_plans WHERE comment_id = $1',
+      [commentId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    logger.error('Error deleting pending plan', { error, commentId });
+    throw error;
+  }
+};
+
+/**
+ * Deletes expired pending plans
+ */
+export const purgeExpiredPendingPlans = async (): Promise<number> => {
+  try {
+    const result = await query(
+      'DELETE FROM pending_plans WHERE expires_at < NOW()'
+    );
+
+    const purged = result.rowCount ?? 0;
+    if (purged > 0) {
+      logger.info('Expired pending plans purged', { purged });
+    }
+
+    return purged;
+  } catch (error) {
+    logger.error('Error purging expired pending plans', { error });
+    throw error;
+  }
+};
+
+// Action Journal CRUD Operations
+
+/**
+ * Records a change the agent made in Linear
+ */
+export const recordJournalAction = async (
+  entry: Omit<ActionJournalEntryDB, 'id' | 'reverted_at' | 'created_at'>
+): Promise<ActionJournalEntryDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO action_journal (
+          execution_id, sequence, action_type, target_id, target_identifier,
+          before_state, after_state, origin_issue_id, actor_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *
+      `,
+      [
+        entry.execution_id,
+        entry.sequence,
+        entry.action_type,
+        entry.target_id,
+        entry.target_identifier || null,
+        entry.before_state ? JSON.stringify(entry.before_state) : null,
+        entry.after_state ? JSON.stringify(entry.after_state) : null,
+        entry.origin_issue_id || null,
+        entry.actor_id || null
+      ]
+    );
+
+    logger.info('Journal action recorded', {
+      executionId: entry.execution_id,
+      actionType: entry.action_type,
+      targetId: entry.target_id
+    });
+    return result.rows[0] as ActionJournalEntryDB;
+  } catch (error) {
+    logger.error('Error recording journal action', { error, executionId: entry.execution_id });
+    throw error;
+  }
+};
+
+/**
+ * Gets the recorded changes of an execution in the order they were made
+ */
+export const getJournalActions = async (executionId: string): Promise<ActionJournalEntryDB[]> => {
+  try {
+    const result = await query(
+      'SELECT * FROM action_journal WHERE execution_id = $1 ORDER BY sequence ASC',
+      [executionId]
+    );
+
+    return result.rows as ActionJournalEntryDB[];
+  } catch (error) {
+    logger.error('Error getting journal actions', { error, executionId });
+    throw error;
+  }
+};
+
+/**
+ * Gets the latest execution started from an issue that still has changes to revert
+ */
+export const getLatestJournalExecution = async (originIssueId: string): Promise<string | null> => {
+  try {
+    const result = await query(
+      `
+        SELECT execution_id FROM action_journal
+        WHERE origin_issue_id = $1 AND reverted_at IS NULL
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1
+      `,
+      [originIssueId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0].execution_id : null;
+  } catch (error) {
+    logger.error('Error getting latest journal execution', { error, originIssueId });
+    throw error;
+  }
+};
+
+/**
+ * Marks a recorded change as reverted
+ */
+export const markJournalActionReverted = async (id: number): Promise<void> => {
+  try {
+    await query(
+      'UPDATE action_journal SET reverted_at = NOW() WHERE id = $1',
+      [id]
+    );
+  } catch (error) {
+    logger.error('Error marking journal action reverted', { error, id });
+    throw error;
+  }
+};
+
+// Command Job CRUD Operations
+
+/**
+ * Creates a queued command job
+ */
+export const createCommandJob = async (
+  job: Pick<CommandJobDB, 'id' | 'issue_id' | 'thread_id' | 'comment_id' | 'intent' | 'command' | 'requester_id'>
+): Promise<CommandJobDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO command_jobs (
+          id, issue_id, thread_id, comment_id, intent, command, requester_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      `,
+      [
+        job.id,
+        job.issue_id,
+        job.thread_id,
+        job.comment_id,
+        job.intent,
+        JSON.stringify(job.command),
+        job.requester_id || null
+      ]
+    );
+
+    logger.info('Command job created', { jobId: job.id, issueId: job.issue_id, intent: job.intent });
+    return result.rows[0] as CommandJobDB;
+  } catch (error) {
+    logger.error('Error creating command job', { error, jobId: job.id });
+    throw error;
+  }
+};
+
+/**
+ * Updates the status, stage or outcome of a command job
+ */
+export const updateCommandJob = async (
+  jobId: string,
+  updates: Partial<Pick<
+    CommandJobDB,
+    'status' | 'stage' | 'progress' | 'cancelled_by' | 'error' | 'started_at' | 'finished_at'
+  >>
+): Promise<CommandJobDB | null> => {
+  try {
+    const columns = Object.keys(updates).filter(column => (updates as any)[column] !== undefined);
+    if (columns.length === 0) {
+      return getCommandJob(jobId);
+    }
+
+    const result = await query(
+      `
+        UPDATE command_jobs
+        SET ${columns.map((column, index) => `${column} = $${index + 1}`).join(', ')}
+        WHERE id = $${columns.length + 1}
+        RETURNING *
+      `,
+      [...columns.map(column => (updates as any)[column]), jobId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as CommandJobDB : null;
+  } catch (error) {
+    logger.error('Error updating command job', { error, jobId });
+    throw error;
+  }
+};
+
+/**
+ * Gets a command job by ID
+ */
+export const getCommandJob = async (jobId: string): Promise<CommandJobDB | null> => {
+  try {
+    const result = await query(
+      'SELECT * FROM command_jobs WHERE id = $1',
+      [jobId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as CommandJobDB : null;
+  } catch (error) {
+    logger.error('Error getting command job', { error, jobId });
+    throw error;
+  }
+};
+
+/**
+ * Gets the latest command job started from an issue
+ */
+export const getLatestCommandJob = async (issueId: string): Promise<CommandJobDB | null> => {
+  try {
+    const result = await query(
+      'SELECT * FROM command_jobs WHERE issue_id = $1 ORDER BY created_at DESC LIMIT 1',
+      [issueId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as CommandJobDB : null;
+  } catch (error) {
+    logger.error('Error getting latest command job', { error, issueId });
+    throw error;
+  }
+};
+
+// Team Metric Snapshot CRUD Operations
+
+/** Snapshot columns, with the date as YYYY-MM-DD */
+const TEAM_METRIC_SNAPSHOT_COLUMNS = `
+  id, team_id, to_char(snapshot_date, 'YYYY-MM-DD') AS snapshot_date, velocity, wip_count,
+  avg_cycle_time, blockage_rate, stale_count, completed_count, estimation_variance,
+  member_workloads, created_at
+`;
+
+/**
+ * Saves a team's metric snapshot, replacing any snapshot for the same day
+ */
+export const saveTeamMetricSnapshot = async (
+  snapshot: Omit<TeamMetricSnapshotDB, 'id' | 'created_at'>
+): Promise<TeamMetricSnapshotDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO team_metric_snapshots (
+          team_id, snapshot_date, velocity, wip_count, avg_cycle_time, blockage_rate,
+          stale_count, completed_count, estimation_variance, member_workloads
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (team_id, snapshot_date) DO UPDATE SET
+          velocity = EXCLUDED.velocity,
+          wip_count = EXCLUDED.wip_count,
+          avg_cycle_time = EXCLUDED.avg_cycle_time,
+          blockage_rate = EXCLUDED.blockage_rate,
+          stale_count = EXCLUDED.stale_count,
+          completed_count = EXCLUDED.completed_count,
+          estimation_variance = EXCLUDED.estimation_variance,
+          member_workloads = EXCLUDED.member_workloads,
+          created_at = NOW()
+        RETURNING ${TEAM_METRIC_SNAPSHOT_COLUMNS}
+      `,
+      [
+        snapshot.team_id,
+        snapshot.snapshot_date,
+        snapshot.velocity,
+        snapshot.wip_count,
+        snapshot.avg_cycle_time,
+        snapshot.blockage_rate,
+        snapshot.stale_count,
+        snapshot.completed_count,
+        snapshot.estimation_variance,
+        JSON.stringify(snapshot.member_workloads)
+      ]
+    );
+
+    logger.info('Team metric snapshot saved', { teamId: snapshot.team_id, date: snapshot.snapshot_date });
+    return result.rows[0] as TeamMetricSnapshotDB;
+  } catch (error) {
+    logger.error('Error saving team metric snapshot', { error, teamId: snapshot.team_id });
+    throw error;
+  }
+};
+
+/**
+ * Gets a team's metric snapshots between two days (inclusive), oldest first
+ *
+ * @param from First day (YYYY-MM-DD); no lower bound if omitted
+ * @param to Last day (YYYY-MM-DD); no upper bound if omitted
+ */
+export const getTeamMetricSnapshots = async (
+  teamId: string,
+  from?: string,
+  to?: string
+): Promise<TeamMetricSnapshotDB[]> => {
+  try {
+    const result = await query(
+      `
+        SELECT ${TEAM_METRIC_SNAPSHOT_COLUMNS}
+        FROM team_metric_snapshots
+        WHERE team_id = $1
+          AND ($2::date IS NULL OR snapshot_date >= $2::date)
+          AND ($3::date IS NULL OR snapshot_date <= $3::date)
+        ORDER BY snapshot_date
+      `,
+      [teamId, from || null, to || null]
+    );
+
+    return result.rows as TeamMetricSnapshotDB[];
+  } catch (error) {
+    logger.error('Error getting team metric snapshots', { error, teamId });
+    throw error;
+  }
+};
+
+/**
+ * Gets the IDs of teams that already have a snapshot for a day
+ */
+export const getSnapshottedTeamIds = async (snapshotDate: string): Promise<string[]> => {
+  try {
+    const result = await query(
+      'SELECT team_id FROM team_metric_snapshots WHERE snapshot_date = $1::date',
+      [snapshotDate]
+    );
+
+    return result.rows.map(row => row.team_id);
+  } catch (error) {
+    logger.error('Error getting snapshotted teams', { error, snapshotDate });
+    throw error;
+  }
+};
+
+// Behavior Schedule Run CRUD Operations
+
+/**
+ * Gets when the scheduler last checked a behavior's cron schedule
+ */
+export const getBehaviorScheduleLastRun = async (behaviorId: string): Promise<Date | null> => {
+  try {
+    const result = await query(
+      'SELECT last_run_at FROM behavior_schedule_runs WHERE behavior_id = $1',
+      [behaviorId]
+    );
+
+    return result.rows.length > 0 ? new Date(result.rows[0].last_run_at) : null;
+  } catch (error) {
+    logger.error('Error getting behavior schedule last run', { error, behaviorId });
+    throw error;
+  }
+};
+
+/**
+ * Records when the scheduler last checked a behavior's cron schedule
+ */
+export const saveBehaviorScheduleLastRun = async (behaviorId: string, lastRunAt: Date): Promise<void> => {
+  try {
+    await query(
+      `
+        INSERT INTO behavior_schedule_runs (behavior_id, last_run_at, updated_at)
+        VALUES ($1, $2, NOW())
+        ON CONFLICT (behavior_id) DO UPDATE SET
+          last_run_at = EXCLUDED.last_run_at,
+          updated_at = NOW()
+      `,
+      [behaviorId, lastRunAt]
+    );
+  } catch (error) {
+    logger.error('Error saving behavior schedule last run', { error, behaviorId });
+    throw error;
+  }
+};
+
+// Team Behavior Config CRUD Operations
+
+/**
+ * Gets the current behavior configuration of a team
+ */
+export const getTeamBehaviorConfig = async (teamId: string): Promise<TeamBehaviorConfigDB | null> => {
+  try {
+    const result = await query(
+      'SELECT * FROM team_behavior_configs WHERE team_id = $1 ORDER BY version DESC LIMIT 1',
+      [teamId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as TeamBehaviorConfigDB : null;
+  } catch (error) {
+    logger.error('Error getting team behavior config', { error, teamId });
+    throw error;
+  }
+};
+
+/**
+ * Gets every version of a team's behavior configuration, newest first
+ */
+export const getTeamBehaviorConfigHistory = async (teamId: string): Promise<TeamBehaviorConfigDB[]> => {
+  try {
+    const result = await query(
+      'SELECT * FROM team_behavior_configs WHERE team_id = $1 ORDER BY version DESC',
+      [teamId]
+    );
+
+    return result.rows as TeamBehaviorConfigDB[];
+  } catch (error) {
+    logger.error('Error getting team behavior config history', { error, teamId });
+    throw error;
+  }
+};
+
+/**
+ * Gets the current behavior configuration of every team that has one
+ */
+export const getCurrentTeamBehaviorConfigs = async (): Promise<TeamBehaviorConfigDB[]> => {
+  try {
+    const result = await query(
+      'SELECT DISTINCT ON (team_id) * FROM team_behavior_configs ORDER BY team_id, version DESC'
+    );
+
+    return result.rows as TeamBehaviorConfigDB[];
+  } catch (error) {
+    logger.error('Error getting team behavior configs', { error });
+    throw error;
+  }
+};
+
+/**
+ * Saves a new version of a team's behavior configuration
+ *
+ * @param expectedVersion Version the update was based on (0 for a team without one)
+ * @returns The saved version, or null if the current version is no longer expectedVersion
+ */
+export const saveTeamBehaviorConfig = async (
+  teamId: string,
+  config: Record<string, any>,
+  expectedVersion: number,
+  updatedBy?: string
+): Promise<TeamBehaviorConfigDB | null> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO team_behavior_configs (team_id, version, config, updated_by)
+        SELECT $1, $2 + 1, $3, $4
+        WHERE COALESCE((SELECT MAX(version) FROM team_behavior_configs WHERE team_id = $1), 0) = $2
+        ON CONFLICT (team_id, version) DO NOTHING
+        RETURNING *
+      `,
+      [teamId, expectedVersion, JSON.stringify(config), updatedBy]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    logger.info('Team behavior config saved', { teamId, version: expectedVersion + 1 });
+    return result.rows[0] as TeamBehaviorConfigDB;
+  } catch (error) {
+    logger.error('Error saving team behavior config', { error, teamId });
+    throw error;
+  }
+};
+
+// WIP History CRUD Operations
+
+/**
+ * Records a count of a team's issues in a workflow state
+ */
+export const saveWipCount = async (
+  entry: Omit<WipHistoryDB, 'id' | 'recorded_at'>
+): Promise<WipHistoryDB> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO wip_history (
+          team_id, state_name, issue_count, wip_limit, assignee_counts, source, issue_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      `,
+      [
+        entry.team_id,
+        entry.state_name,
+        entry.issue_count,
+        entry.wip_limit,
+        JSON.stringify(entry.assignee_counts),
+        entry.source,
+        entry.issue_id
+      ]
+    );
+
+    return result.rows[0] as WipHistoryDB;
+  } catch (error) {
+    logger.error('Error saving WIP count', { error, teamId: entry.team_id, state: entry.state_name });
+    throw error;
+  }
+};
+
+/**
+ * Gets a team's recorded WIP counts between two days (inclusive, UTC), oldest first
+ *
+ * @param from First day (YYYY-MM-DD); no lower bound if omitted
+ * @param to Last day (YYYY-MM-DD); no upper bound if omitted
+ */
+export const getWipHistory = async (
+  teamId: string,
+  from?: string,
+  to?: string
+): Promise<WipHistoryDB[]> => {
+  try {
+    const result = await query(
+      `
+        SELECT *
+        FROM wip_history
+        WHERE team_id = $1
+          AND ($2::date IS NULL OR recorded_at >= $2::date::timestamp AT TIME ZONE 'UTC')
+          AND ($3::date IS NULL OR recorded_at < ($3::date + 1)::timestamp AT TIME ZONE 'UTC')
+        ORDER BY recorded_at, id
+      `,
+      [teamId, from || null, to || null]
+    );
+
+    return result.rows as WipHistoryDB[];
+  } catch (error) {
+    logger.error('Error getting WIP history', { error, teamId });
+    throw error;
+  }
+};
+
+// Cycle Start CRUD Operations
+
+/**
+ * Records that a cycle's start was handled
+ *
+ * @returns False if the start was already recorded
+ */
+export const recordCycleStart = async (
+  cycleId: string,
+  teamId: string | undefined,
+  source: 'webhook' | 'schedule'
+): Promise<boolean> => {
+  try {
+    const result = await query(
+      `
+        INSERT INTO cycle_starts (cycle_id, team_id, source)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (cycle_id) DO NOTHING
+        RETURNING cycle_id
+      `,
+      [cycleId, teamId || null, source]
+    );
+
+    return result.rows.length > 0;
+  } catch (error) {
+    logger.error('Error recording cycle start', { error, cycleId });
+    throw error;
+  }
+};
+
 /**
  * Gets a database interface for testing purposes
  * This function is primarily used by tests to mock database operations
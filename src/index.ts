@@ -3,7 +3,12 @@ import session from 'express-session';
 import dotenv from 'dotenv';
 import { initiateOAuth, handleOAuthCallback } from './auth/oauth';
 import { initiateConfluenceOAuth, handleConfluenceCallback } from './auth/confluence-oauth';
-import { handleWebhook } from './webhooks/handler';
+import { handleWebhook, processWebhookEvent } from './webhooks/handler';
+import { startWebhookQueue } from './webhooks/queue';
+import { startDeliveryCleanup } from './webhooks/deduplication';
+import { rawBodyJsonParser } from './webhooks/raw-body';
+import { captureWebhookFixture } from './webhooks/capture';
+import { requireWebhookSignature } from './webhooks/verification';
 import { initializeDatabase } from './db/models';
 import * as logger from './utils/logger';
 import planningRoutes from './api/planning';
@@ -11,7 +16,9 @@ import healthRoutes from './api/health';
 import apiRoutes from './routes';
 import { LinearClientWrapper } from './linear/client';
 import { initializeGlobalRegistry } from './agent/behavior-registry';
+import { startCycleStartChecks } from './webhooks/processors';
 import { processBehaviorWebhook } from './agent/webhook-integration';
+import { startMetricSnapshots } from './agent/team-metrics';
 
 // Load environment variables
 dotenv.config();
@@ -20,6 +27,8 @@ const app = express();
 const port = process.env.PORT || 3000;
 
 // Middleware
+// Webhook routes keep the raw body for signature verification
+app.use('/webhook', rawBodyJsonParser());
 app.use(express.json());
 
 // Session middleware for OAuth state management
@@ -80,8 +89,9 @@ app.get('/auth/confluence/success', (req, res) => {
 });
 
 // Webhook endpoints
-app.post('/webhook', handleWebhook);
-app.post('/webhook/behaviors', processBehaviorWebhook);
+// Sanitized fixtures are stored (when WEBHOOK_CAPTURE_DIR is set) only for verified deliveries
+app.post('/webhook', requireWebhookSignature, captureWebhookFixture, handleWebhook);
+app.post('/webhook/behaviors', requireWebhookSignature, captureWebhookFixture, processBehaviorWebhook);
 
 // Planning API routes
 app.use('/api/planning', planningRoutes);
@@ -99,6 +109,18 @@ app.use('/api', apiRoutes);
     await initializeDatabase();
     logger.info('Database initialized successfully');
 
+    // Start the webhook event queue worker unless disabled
+    if (process.env.WEBHOOK_QUEUE_ENABLED !== 'false') {
+      startWebhookQueue(processWebhookEvent, {
+        pollInterval: parseInt(process.env.WEBHOOK_QUEUE_POLL_INTERVAL || '1000', 10),
+        maxAttempts: parseInt(process.env.WEBHOOK_QUEUE_MAX_ATTEMPTS || '5', 10),
+        processingTimeout: parseInt(process.env.WEBHOOK_QUEUE_PROCESSING_TIMEOUT || '300000', 10)
+      });
+    }
+
+    // Purge expired webhook delivery claims
+    startDeliveryCleanup();
+
     // Initialize behavior registry if Linear token is available
     if (process.env.LINEAR_ACCESS_TOKEN) {
       try {
@@ -107,7 +129,8 @@ app.use('/api', apiRoutes);
           process.env.LINEAR_ORGANIZATION_ID || ''
         );
         
-        await initializeGlobalRegistry({
+        // Process-wide defaults; teams override them through /api/behavior-configs
+        const registry = await initializeGlobalRegistry({
           linearClient,
           enabledBehaviors: {
             storyMonitoring: process.env.ENABLE_STORY_MONITORING !== 'false',
@@ -115,11 +138,33 @@ app.use('/api', apiRoutes);
             dependencyDetection: process.env.ENABLE_DEPENDENCY_DETECTION !== 'false',
             workflowAutomation: process.env.ENABLE_WORKFLOW_AUTOMATION !== 'false',
             periodicReporting: process.env.ENABLE_PERIODIC_REPORTING === 'true',
-            anomalyDetection: process.env.ENABLE_ANOMALY_DETECTION === 'true'
-          }
+            anomalyDetection: process.env.ENABLE_ANOMALY_DETECTION === 'true',
+            definitionOfReady: process.env.ENABLE_DEFINITION_OF_READY === 'true',
+            wipLimits: process.env.ENABLE_WIP_LIMITS === 'true'
+          },
+          schedules: [
+            // Daily WIP summary, added only if WIP limits are enabled globally or for a team
+            {
+              behaviorId: 'wip_limits',
+              cronExpression: process.env.WIP_SUMMARY_SCHEDULE || '0 9 * * *',
+              active: true
+            }
+          ]
         });
         
         logger.info('Behavior registry initialized successfully');
+
+        // Linear sends no webhook when a cycle starts on schedule
+        startCycleStartChecks(
+          registry.getEngine(),
+          linearClient,
+          parseInt(process.env.CYCLE_START_CHECK_INTERVAL || '900000', 10)
+        );
+
+        // Record daily team metric snapshots for anomaly baselines
+        if (process.env.TEAM_METRIC_SNAPSHOTS_ENABLED !== 'false') {
+          startMetricSnapshots(linearClient);
+        }
       } catch (error) {
         logger.error('Failed to initialize behavior registry', { error });
         // Continue without behavior system - don't crash the app
@@ -0,0 +1,372 @@
+/**
+ * Linear Action Journal
+ *
+ * Records every change the agent makes in Linear so that a whole command
+ * execution can be undone. Changes made through LinearClientWrapper while an
+ * execution runs inside runWithJournal() are stored with the state needed to
+ * revert them; ActionJournal.revert() undoes an execution in reverse order.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LinearClientWrapper } from './client';
+import type { ActionJournalEntryDB } from '../db/models';
+import * as logger from '../utils/logger';
+
+/**
+ * Kinds of recorded changes
+ */
+export type JournalActionType =
+  | 'issue_create'
+  | 'issue_update'
+  | 'label_add'
+  | 'label_remove'
+  | 'relation_create'
+  | 'cycle_assign'
+  | 'priority_change';
+
+/**
+ * Execution whose changes are being recorded
+ */
+export interface JournalScope {
+  executionId: string;
+  /** Issue the execution was started from; `undo` on that issue finds it */
+  originIssueId?: string;
+  /** User who started the execution */
+  actorId?: string;
+}
+
+/**
+ * A reverted or failed step of an undo
+ */
+export interface RevertStep {
+  actionId: number;
+  actionType: JournalActionType;
+  description: string;
+  error?: string;
+}
+
+/**
+ * Result of undoing an execution
+ */
+export interface RevertReport {
+  executionId: string;
+  reverted: RevertStep[];
+  failed: RevertStep[];
+  /** Steps a previous undo already reverted */
+  alreadyReverted: number;
+}
+
+/** Issue fields whose previous values are recorded before an update */
+const JOURNALED_FIELDS = [
+  'title',
+  'description',
+  'priority',
+  'estimate',
+  'assigneeId',
+  'cycleId',
+  'stateId',
+  'labelIds',
+  'parentId'
+];
+
+const journalStorage = new AsyncLocalStorage<JournalScope & { sequence: number }>();
+
+/**
+ * Creates an ID for a command execution
+ */
+export function createExecutionId(): string {
+  return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Runs an execution, recording the Linear changes it makes under its ID
+ */
+export function runWithJournal<T>(scope: JournalScope, fn: () => Promise<T>): Promise<T> {
+  return journalStorage.run({ ...scope, sequence: 0 }, fn);
+}
+
+/**
+ * Whether changes made now are recorded
+ */
+export function isJournaling(): boolean {
+  return journalStorage.getStore() !== undefined;
+}
+
+/**
+ * Records a change of the current execution
+ *
+ * The change has already been made, so failing to record it is logged
+ * instead of failing the execution.
+ */
+export async function recordAction(
+  actionType: JournalActionType,
+  target: { id: string; identifier?: string },
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): Promise<void> {
+  const scope = journalStorage.getStore();
+  if (!scope) {
+    return;
+  }
+
+  scope.sequence += 1;
+
+  try {
+    // Loaded on first use so the client does not open a database pool
+    const { recordJournalAction } = await import('../db/models');
+    await recordJournalAction({
+      execution_id: scope.executionId,
+      sequence: scope.sequence,
+      action_type: actionType,
+      target_id: target.id,
+      target_identifier: target.identifier,
+      before_state: before,
+      after_state: after,
+      origin_issue_id: scope.originIssueId,
+      actor_id: scope.actorId
+    });
+  } catch (error) {
+    logger.error('Failed to journal Linear change; it cannot be undone', {
+      executionId: scope.executionId,
+      actionType,
+      targetId: target.id,
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Makes an issue update, recording the previous values of the fields it changes
+ *
+ * @param linearClient Client used to read the issue before the update
+ * @param issueId Issue to update
+ * @param input Fields being changed
+ * @param update Performs the update
+ */
+export async function journalIssueUpdate<T>(
+  linearClient: LinearClientWrapper,
+  issueId: string,
+  input: Record<string, any>,
+  update: () => Promise<T>
+): Promise<T> {
+  if (!isJournaling()) {
+    return update();
+  }
+
+  const after: Record<string, any> = {};
+  Object.keys(input)
+    .filter(field => input[field] !== undefined && JOURNALED_FIELDS.includes(field))
+    .forEach(field => {
+      after[field] = input[field];
+    });
+
+  let before: Record<string, any> | null = null;
+  let identifier: string | undefined;
+  try {
+    const issue = await linearClient.getIssue(issueId);
+    identifier = issue?.identifier;
+    before = issue ? await captureIssueFields(issue, Object.keys(after)) : null;
+  } catch (error) {
+    logger.warn('Could not read issue before update; the update cannot be undone', {
+      issueId,
+      error: (error as Error).message
+    });
+  }
+
+  const result = await update();
+
+  if (Object.keys(after).length > 0) {
+    await recordAction(classifyUpdate(before, after), { id: issueId, identifier }, before, after);
+  }
+
+  return result;
+}
+
+/**
+ * Describes a recorded change for people
+ */
+export function describeJournalAction(entry: ActionJournalEntryDB): string {
+  const target = entry.target_identifier || entry.target_id;
+  const after = entry.after_state || {};
+
+  switch (entry.action_type as JournalActionType) {
+    case 'issue_create':
+      return `Create ${target}${after.title ? ` "${after.title}"` : ''}`;
+    case 'relation_create':
+      return `Link ${target} to ${after.relatedIssueId}`;
+    case 'label_add':
+      return `Add labels to ${target}`;
+    case 'label_remove':
+      return `Remove labels from ${target}`;
+    case 'cycle_assign':
+      return `Move ${target} to another cycle`;
+    case 'priority_change':
+      return `Change the priority of ${target}`;
+    default:
+      return `Update ${Object.keys(after).join(', ')} of ${target}`;
+  }
+}
+
+/**
+ * Reverts recorded executions
+ */
+export class ActionJournal {
+  constructor(private linearClient: LinearClientWrapper) {}
+
+  /**
+   * Reverts every change of an execution that is not reverted yet, newest first
+   *
+   * Steps that fail are reported and stay in the journal, so a later undo
+   * can retry them.
+   *
+   * @throws If nothing was recorded for the execution
+   */
+  async revert(executionId: string): Promise<RevertReport> {
+    const { getJournalActions, markJournalActionReverted } = await import('../db/models');
+    const actions = await getJournalActions(executionId);
+    if (actions.length === 0) {
+      throw new Error(`No recorded changes for execution ${executionId}`);
+    }
+
+    const pending = actions.filter(action => !action.reverted_at).reverse();
+    const report: RevertReport = {
+      executionId,
+      reverted: [],
+      failed: [],
+      alreadyReverted: actions.length - pending.length
+    };
+
+    // Reverting is not itself an execution to undo
+    await journalStorage.exit(async () => {
+      for (const action of pending) {
+        const step: RevertStep = {
+          actionId: action.id,
+          actionType: action.action_type as JournalActionType,
+          description: describeJournalAction(action)
+        };
+
+        try {
+          await this.revertAction(action);
+          await markJournalActionReverted(action.id);
+          report.reverted.push(step);
+        } catch (error) {
+          logger.warn('Could not revert journal action', {
+            executionId,
+            actionId: action.id,
+            error: (error as Error).message
+          });
+          report.failed.push({ ...step, error: (error as Error).message });
+        }
+      }
+    });
+
+    logger.info('Execution reverted', {
+      executionId,
+      reverted: report.reverted.length,
+      failed: report.failed.length
+    });
+
+    return report;
+  }
+
+  private async revertAction(action: ActionJournalEntryDB): Promise<void> {
+    const before = action.before_state;
+    const after = action.after_state || {};
+
+    switch (action.action_type as JournalActionType) {
+      case 'issue_create':
+        await this.linearClient.archiveIssue(action.target_id);
+        return;
+
+      case 'relation_create':
+        if (after.relationId) {
+          await this.linearClient.deleteIssueRelation(after.relationId);
+        } else if (after.commentId) {
+          await this.linearClient.deleteComment(after.commentId);
+        } else {
+          throw new Error('The created relation was not recorded');
+        }
+        return;
+
+      case 'label_add':
+      case 'label_remove': {
+        if (!before) {
+          throw new Error('The previous labels were not recorded');
+        }
+        // Only undo this change, keeping labels changed since
+        const added = after.labelIds.filter((id: string) => !before.labelIds.includes(id));
+        const removed = before.labelIds.filter((id: string) => !after.labelIds.includes(id));
+        const issue = await this.linearClient.getIssue(action.target_id);
+        const current = await captureIssueFields(issue, ['labelIds']);
+        const labelIds = current.labelIds.filter((id: string) => !added.includes(id));
+        removed.filter((id: string) => !labelIds.includes(id)).forEach((id: string) => labelIds.push(id));
+        await this.linearClient.updateIssueLegacy(action.target_id, { labelIds });
+        return;
+      }
+
+      default:
+        if (!before) {
+          throw new Error('The previous values were not recorded');
+        }
+        await this.linearClient.updateIssueLegacy(action.target_id, before);
+    }
+  }
+}
+
+/**
+ * Reads the current values of issue fields, with relations as IDs
+ */
+async function captureIssueFields(issue: any, fields: string[]): Promise<Record<string, any>> {
+  const values: Record<string, any> = {};
+
+  for (const field of fields) {
+    switch (field) {
+      case 'assigneeId':
+        values.assigneeId = (await issue.assignee)?.id ?? null;
+        break;
+      case 'cycleId':
+        values.cycleId = (await issue.cycle)?.id ?? null;
+        break;
+      case 'stateId':
+        values.stateId = (await issue.state)?.id ?? null;
+        break;
+      case 'parentId':
+        values.parentId = (await issue.parent)?.id ?? null;
+        break;
+      case 'labelIds':
+        values.labelIds = ((await issue.labels())?.nodes || []).map((label: any) => label.id);
+        break;
+      default:
+        values[field] = issue[field] ?? null;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Names an update after the single field it changes
+ */
+function classifyUpdate(before: Record<string, any> | null, after: Record<string, any>): JournalActionType {
+  const fields = Object.keys(after);
+  if (fields.length !== 1) {
+    return 'issue_update';
+  }
+
+  switch (fields[0]) {
+    case 'cycleId':
+      return 'cycle_assign';
+    case 'priority':
+      return 'priority_change';
+    case 'labelIds': {
+      const previous: string[] = before?.labelIds || [];
+      const added = after.labelIds.filter((id: string) => !previous.includes(id));
+      const removed = previous.filter(id => !after.labelIds.includes(id));
+      if (removed.length === 0) {
+        return 'label_add';
+      }
+      return added.length === 0 ? 'label_remove' : 'issue_update';
+    }
+    default:
+      return 'issue_update';
+  }
+}
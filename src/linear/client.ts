@@ -11,9 +11,13 @@ import { handleLinearError } from './error-handler';
 import { RateLimiter } from './rate-limiter';
 import { retry, RetryOptions } from './retry';
 import { refreshToken } from '../auth/tokens';
+import { isJournaling, journalIssueUpdate, recordAction } from './action-journal';
 
 /**
  * Wrapper around the Linear SDK that includes error handling, rate limiting, and retry logic
+ *
+ * Issue changes made inside an execution started with runWithJournal() are
+ * recorded in the action journal so they can be undone.
  */
 export class LinearClientWrapper {
   /**
@@ -116,10 +120,19 @@ export class LinearClientWrapper {
    * @returns The created issue
    */
   async createIssue(input: any): Promise<any> {
-    return this.executeQuery(
+    const payload = await this.executeQuery(
       () => this.linearClient.createIssue(input),
       'createIssue'
     );
+
+    if (isJournaling()) {
+      const issue = await payload?.issue;
+      if (issue) {
+        await recordAction('issue_create', issue, null, { title: issue.title, teamId: input.teamId });
+      }
+    }
+
+    return payload;
   }
 
   /**
@@ -130,10 +143,10 @@ export class LinearClientWrapper {
    * @returns The updated issue
    */
   async updateIssueLegacy(issueId: string, input: any): Promise<any> {
-    return this.executeQuery(
+    return journalIssueUpdate(this, issueId, input, () => this.executeQuery(
       () => this.linearClient.updateIssue(issueId, input),
       'updateIssue'
-    );
+    ));
   }
 
   /**
@@ -202,18 +215,34 @@ export class LinearClientWrapper {
    *
    * @param issueId The issue ID
    * @param body The comment body
+   * @param parentId Optional comment to reply to in its thread
    * @returns The created comment
    */
-  async createComment(issueId: string, body: string): Promise<any> {
+  async createComment(issueId: string, body: string, parentId?: string): Promise<any> {
     return this.executeQuery(
       () => this.linearClient.createComment({
         issueId,
-        body
+        body,
+        ...(parentId ? { parentId } : {})
       }),
       'createComment'
     );
   }
 
+  /**
+   * Updates the body of a comment
+   *
+   * @param commentId The comment ID
+   * @param body The new comment body
+   * @returns The updated comment
+   */
+  async updateComment(commentId: string, body: string): Promise<any> {
+    return this.executeQuery(
+      () => this.linearClient.updateComment(commentId, { body }),
+      'updateComment'
+    );
+  }
+
   /**
    * Gets the current user
    *
@@ -268,14 +297,16 @@ export class LinearClientWrapper {
    * Gets comments for an issue
    *
    * @param issueId The issue ID
+   * @param after Cursor of the page to start after
    * @returns The comments
    */
-  async getComments(issueId: string): Promise<any> {
+  async getComments(issueId: string, after?: string): Promise<any> {
     return this.executeQuery(
       () => this.linearClient.comments({
         filter: {
           issue: { id: { eq: issueId } }
-        }
+        },
+        after
       }),
       'getComments'
     );
@@ -402,7 +433,8 @@ export class LinearClientWrapper {
     priority?: number;
     stateId?: string;
   }): Promise<any> {
-    return this.executeQuery(
+    const { id, ...changes } = input;
+    return journalIssueUpdate(this, id, changes, () => this.executeQuery(
       () => this.linearClient.updateIssue(input.id, {
         assigneeId: input.assigneeId,
         cycleId: input.cycleId,
@@ -414,7 +446,7 @@ export class LinearClientWrapper {
         stateId: input.stateId
       }),
       'updateIssue'
-    );
+    ));
   }
 
   /**
@@ -513,12 +545,62 @@ export class LinearClientWrapper {
     // Use comment-based approach for dependency tracking (SAFe best practice)
     const relationComment = `🔗 **${input.type.toUpperCase()} RELATIONSHIP**: This issue ${input.type} issue ${input.relatedIssueId}`;
     
-    return this.executeQuery(
+    const payload = await this.executeQuery(
       () => this.linearClient.createComment({
         issueId: input.issueId,
         body: relationComment
       }),
       'createIssueRelation'
     );
+
+    if (isJournaling()) {
+      const comment = await payload?.comment;
+      await recordAction('relation_create', { id: input.issueId }, null, {
+        commentId: comment?.id,
+        relatedIssueId: input.relatedIssueId,
+        type: input.type
+      });
+    }
+
+    return payload;
+  }
+
+  /**
+   * Archives an issue
+   * 
+   * @param issueId The issue ID
+   * @returns The archive result
+   */
+  async archiveIssue(issueId: string): Promise<any> {
+    return this.executeQuery(
+      () => this.linearClient.archiveIssue(issueId),
+      'archiveIssue'
+    );
+  }
+
+  /**
+   * Deletes a comment
+   * 
+   * @param commentId The comment ID
+   * @returns The deletion result
+   */
+  async deleteComment(commentId: string): Promise<any> {
+    return this.executeQuery(
+      () => this.linearClient.deleteComment(commentId),
+      'deleteComment'
+    );
+  }
+
+  /**
+   * Deletes an issue relation
+   * 
+   * @param relationId The issue relation ID
+   * @returns The deletion result
+   */
+  async deleteIssueRelation(relationId: string): Promise<any> {
+    return this.executeQuery(
+      () => this.linearClient.deleteIssueRelation(relationId),
+      'deleteIssueRelation'
+    );
   }
 }
@@ -0,0 +1,159 @@
+/**
+ * Per-Organization Linear Clients
+ *
+ * Resolves the Linear organization a webhook belongs to and provides a
+ * LinearClientWrapper authenticated with that organization's stored OAuth
+ * token. One client is cached per organization and rebuilt when its token is
+ * refreshed.
+ */
+import { LinearClientWrapper } from './client';
+import { getLinearToken } from '../db/models';
+import { refreshToken } from '../auth/tokens';
+import * as logger from '../utils/logger';
+
+/** Refresh tokens this long before they expire */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Error thrown when a webhook targets an organization without stored credentials
+ */
+export class UnknownOrganizationError extends Error {
+  /**
+   * Creates a new UnknownOrganizationError
+   *
+   * @param organizationId The organization ID from the payload
+   */
+  constructor(public organizationId: string) {
+    super(`Unknown Linear organization: ${organizationId}`);
+    this.name = 'UnknownOrganizationError';
+  }
+}
+
+interface CachedClient {
+  client: LinearClientWrapper;
+  accessToken: string;
+  expiresAt: Date;
+}
+
+const clientCache = new Map<string, CachedClient>();
+
+/**
+ * Resolves the organization ID from a webhook payload
+ */
+export const resolveOrganizationId = (payload: any): string | undefined => {
+  return payload?.organizationId ||
+    payload?.notification?.organizationId ||
+    payload?.data?.organizationId ||
+    undefined;
+};
+
+/**
+ * Gets a Linear client for an organization, refreshing its token if needed
+ *
+ * Falls back to LINEAR_ACCESS_TOKEN when the organization matches
+ * LINEAR_ORGANIZATION_ID and no OAuth token is stored.
+ *
+ * @param organizationId The Linear organization ID
+ * @returns A cached or newly created client
+ * @throws UnknownOrganizationError if no credentials exist for the organization
+ */
+export const getLinearClientForOrganization = async (
+  organizationId: string
+): Promise<LinearClientWrapper> => {
+  const now = Date.now();
+  const cached = clientCache.get(organizationId);
+
+  if (cached && cached.expiresAt.getTime() - TOKEN_EXPIRY_MARGIN_MS > now) {
+    return cached.client;
+  }
+
+  const token = await getLinearToken(organizationId);
+
+  if (!token) {
+    const envClient = getEnvironmentClient(organizationId);
+    if (envClient) {
+      return envClient;
+    }
+
+    logger.warn('No stored credentials for organization', { organizationId });
+    throw new UnknownOrganizationError(organizationId);
+  }
+
+  let accessToken = token.access_token;
+  let expiresAt = new Date(token.expires_at);
+
+  if (expiresAt.getTime() - TOKEN_EXPIRY_MARGIN_MS <= now) {
+    logger.info('Refreshing expired token for organization', { organizationId });
+
+    const refreshed = await refreshToken(organizationId);
+    if (!refreshed) {
+      clientCache.delete(organizationId);
+      throw new Error(`Unable to refresh Linear token for organization: ${organizationId}`);
+    }
+
+    const refreshedToken = await getLinearToken(organizationId);
+    accessToken = refreshed;
+    expiresAt = refreshedToken ? new Date(refreshedToken.expires_at) : new Date(now + 5 * 60 * 1000);
+  }
+
+  if (cached && cached.accessToken === accessToken) {
+    cached.expiresAt = expiresAt;
+    return cached.client;
+  }
+
+  const client = new LinearClientWrapper(accessToken, organizationId);
+  clientCache.set(organizationId, { client, accessToken, expiresAt });
+
+  logger.info('Linear client created for organization', { organizationId });
+
+  return client;
+};
+
+/**
+ * Removes cached clients (all, or for one organization)
+ */
+export const clearOrganizationClients = (organizationId?: string): void => {
+  if (organizationId) {
+    clientCache.delete(organizationId);
+  } else {
+    clientCache.clear();
+  }
+};
+
+/**
+ * Gets the client for the environment credentials (LINEAR_ACCESS_TOKEN)
+ *
+ * Used for payloads that do not identify their organization.
+ *
+ * @returns The client, or null if environment credentials are not configured
+ */
+export const getDefaultLinearClient = (): LinearClientWrapper | null => {
+  const organizationId = process.env.LINEAR_ORGANIZATION_ID;
+  return organizationId ? getEnvironmentClient(organizationId) : null;
+};
+
+/**
+ * Builds a client from environment credentials for the configured organization
+ */
+const getEnvironmentClient = (organizationId: string): LinearClientWrapper | null => {
+  const accessToken = process.env.LINEAR_ACCESS_TOKEN;
+
+  if (!accessToken || organizationId !== process.env.LINEAR_ORGANIZATION_ID) {
+    return null;
+  }
+
+  const cached = clientCache.get(organizationId);
+  if (cached && cached.accessToken === accessToken) {
+    return cached.client;
+  }
+
+  const client = new LinearClientWrapper(accessToken, organizationId);
+  // Environment tokens do not expire; revalidate against stored tokens periodically
+  clientCache.set(organizationId, {
+    client,
+    accessToken,
+    expiresAt: new Date(Date.now() + 10 * 60 * 1000)
+  });
+
+  return client;
+};
@@ -0,0 +1,375 @@
+/**
+ * Recording Linear Client
+ *
+ * A LinearClientWrapper stand-in used to replay webhook fixtures locally.
+ * Mutations are never sent to Linear; they are recorded so the replay can
+ * report the comments and changes the agent would have made. Reads are served
+ * from in-memory data, or from Linear when the client runs in live mode.
+ */
+import { LinearClientWrapper } from './client';
+import { RetryOptions } from './retry';
+
+/**
+ * A mutation captured instead of being executed
+ */
+export interface RecordedMutation {
+  /** Client method that was called */
+  operation: string;
+  /** Arguments the method was called with */
+  input: Record<string, any>;
+  /** When the mutation was recorded */
+  timestamp: string;
+}
+
+/**
+ * Linear state served by the in-memory client
+ */
+export interface InMemoryLinearData {
+  viewer?: any;
+  issues?: any[];
+  teams?: any[];
+  users?: any[];
+  cycles?: any[];
+  labels?: any[];
+  comments?: any[];
+}
+
+/**
+ * Recording client options
+ */
+export interface RecordingLinearClientOptions {
+  /** Serve reads from Linear instead of in-memory data */
+  live?: boolean;
+  /** Access token for live mode */
+  accessToken?: string;
+  /** Organization ID for live mode */
+  organizationId?: string;
+  /** Initial in-memory data */
+  data?: InMemoryLinearData;
+}
+
+/** Viewer returned by the in-memory client */
+const REPLAY_VIEWER = { id: 'replay-agent', name: 'SAFe PULSE', displayName: 'saafepulse' };
+
+/**
+ * Linear client that records mutations instead of executing them
+ */
+export class RecordingLinearClient extends LinearClientWrapper {
+  private readonly live: boolean;
+  private data: InMemoryLinearData;
+  private mutations: RecordedMutation[] = [];
+
+  /**
+   * Creates a new RecordingLinearClient
+   *
+   * @param options Client options
+   */
+  constructor(options: RecordingLinearClientOptions = {}) {
+    super(options.accessToken || 'replay-token', options.organizationId || 'replay-organization');
+    this.live = options.live === true;
+    this.data = { ...options.data };
+  }
+
+  /**
+   * Whether reads are served from Linear
+   */
+  isLive(): boolean {
+    return this.live;
+  }
+
+  /**
+   * Replaces the in-memory data served to reads
+   */
+  setData(data: InMemoryLinearData = {}): void {
+    this.data = { ...data };
+  }
+
+  /**
+   * Gets the mutations recorded since the last reset
+   */
+  getRecordedMutations(): RecordedMutation[] {
+    return [...this.mutations];
+  }
+
+  /**
+   * Gets the comments the agent would have posted
+   */
+  getRecordedComments(): Array<{ issueId: string; body: string }> {
+    return this.mutations
+      .filter(mutation => mutation.operation === 'createComment')
+      .map(mutation => ({ issueId: mutation.input.issueId, body: mutation.input.body }));
+  }
+
+  /**
+   * Clears recorded mutations
+   */
+  resetRecordedMutations(): void {
+    this.mutations = [];
+  }
+
+  /**
+   * Executes live queries, or answers reads from in-memory data
+   */
+  async executeQuery<T>(
+    queryFn: () => Promise<T>,
+    endpoint: string,
+    retryOptions?: Partial<RetryOptions>
+  ): Promise<T> {
+    if (this.live) {
+      return super.executeQuery(queryFn, endpoint, retryOptions);
+    }
+
+    return this.readInMemory(endpoint) as T;
+  }
+
+  async getIssue(issueId: string): Promise<any> {
+    if (this.live) {
+      return super.getIssue(issueId);
+    }
+
+    const issue = (this.data.issues || []).find(
+      candidate => candidate.id === issueId || candidate.identifier === issueId
+    );
+    return issue || { id: issueId, identifier: issueId, title: '', description: '' };
+  }
+
+  async getIssues(filter?: any): Promise<any> {
+    if (this.live) {
+      return super.getIssues(filter);
+    }
+
+    return { nodes: (this.data.issues || []).filter(issue => matchesFilter(issue, filter?.filter)) };
+  }
+
+  async getTeam(teamId: string): Promise<any> {
+    if (this.live) {
+      return super.getTeam(teamId);
+    }
+
+    const team = (this.data.teams || []).find(candidate => candidate.id === teamId);
+    // Callable like the SDK's connections, with the nodes also readable directly
+    const connection = (nodes: any[] = []) => Object.assign(async () => ({ nodes }), { nodes });
+
+    return {
+      id: teamId,
+      name: team?.name || 'Replay Team',
+      key: team?.key || 'RPL',
+      ...team,
+      states: connection(team?.states),
+      labels: connection(team?.labels),
+      members: connection(team?.members)
+    };
+  }
+
+  async getViewer(): Promise<any> {
+    if (this.live) {
+      return super.getViewer();
+    }
+
+    return this.data.viewer || REPLAY_VIEWER;
+  }
+
+  async getUser(): Promise<any> {
+    return this.live ? super.getUser() : this.getViewer();
+  }
+
+  async createIssue(input: any): Promise<any> {
+    return this.record('createIssue', { input }, { issue: { id: this.generateId('issue'), ...input } });
+  }
+
+  async updateIssueLegacy(issueId: string, input: any): Promise<any> {
+    return this.record('updateIssueLegacy', { issueId, input }, { issue: { id: issueId, ...input } });
+  }
+
+  async createComment(issueId: string, body: string): Promise<any> {
+    return this.record('createComment', { issueId, body }, { comment: { id: this.generateId('comment'), body } });
+  }
+
+  async updateComment(commentId: string, body: string): Promise<any> {
+    return this.record('updateComment', { commentId, body }, { comment: { id: commentId, body } });
+  }
+
+  async createCycle(input: {
+    name: string;
+    description?: string;
+    startsAt: Date;
+    endsAt: Date;
+    teamId: string;
+  }): Promise<any> {
+    return this.record('createCycle', { input }, { cycle: { id: this.generateId('cycle'), ...input } });
+  }
+
+  async updateCycle(input: {
+    id: string;
+    name?: string;
+    description?: string;
+    startsAt?: Date;
+    endsAt?: Date;
+  }): Promise<any> {
+    return this.record('updateCycle', { input }, { cycle: { ...input } });
+  }
+
+  async archiveCycle(cycleId: string): Promise<any> {
+    return this.record('archiveCycle', { cycleId }, {});
+  }
+
+  async createCycleGoal(input: {
+    cycleId: string;
+    name: string;
+  }): Promise<any> {
+    return this.record('createCycleGoal', { input }, { id: this.generateId('goal'), ...input });
+  }
+
+  async updateIssue(input: {
+    id: string;
+    assigneeId?: string;
+    cycleId?: string | null;
+    estimate?: number;
+    labelIds?: string[];
+    title?: string;
+    description?: string;
+    priority?: number;
+    stateId?: string;
+  }): Promise<any> {
+    return this.record('updateIssue', { input }, { issue: { ...input } });
+  }
+
+  async createLabel(input: {
+    name: string;
+    teamId: string;
+    color?: string;
+    description?: string;
+  }): Promise<any> {
+    const label = { id: this.generateId('label'), ...input };
+    if (!this.live) {
+      // Later reads find the label, as they would in Linear
+      this.data.labels = [...(this.data.labels || []), label];
+    }
+    return this.record('createLabel', { input }, { issueLabel: label });
+  }
+
+  async createIssueRelation(input: {
+    issueId: string;
+    relatedIssueId: string;
+    type: string;
+  }): Promise<any> {
+    return this.record('createIssueRelation', { input }, { id: this.generateId('relation') });
+  }
+
+  async archiveIssue(issueId: string): Promise<any> {
+    return this.record('archiveIssue', { issueId }, {});
+  }
+
+  async deleteComment(commentId: string): Promise<any> {
+    return this.record('deleteComment', { commentId }, {});
+  }
+
+  async deleteIssueRelation(relationId: string): Promise<any> {
+    return this.record('deleteIssueRelation', { relationId }, {});
+  }
+
+  /**
+   * Records a mutation and returns a successful payload
+   */
+  private record(operation: string, input: Record<string, any>, result: Record<string, any>): any {
+    this.mutations.push({ operation, input, timestamp: new Date().toISOString() });
+    return { success: true, ...result };
+  }
+
+  /**
+   * Answers a read endpoint from in-memory data
+   */
+  private readInMemory(endpoint: string): any {
+    switch (endpoint) {
+      case 'getTeams':
+        return { nodes: this.data.teams || [] };
+      case 'getIssues':
+      case 'getTeamIssues':
+      case 'searchIssues':
+        return { nodes: this.data.issues || [] };
+      case 'getTeamMembers':
+        return { nodes: this.data.users || [] };
+      case 'getTeamCycles':
+        return { nodes: this.data.cycles || [] };
+      case 'getTeamLabels':
+      case 'getLabels':
+        return { nodes: this.data.labels || [] };
+      case 'getComments':
+        return { nodes: this.data.comments || [] };
+      default:
+        return { nodes: [] };
+    }
+  }
+
+  /**
+   * Generates an ID for records created during replay
+   */
+  private generateId(prefix: string): string {
+    return `replay-${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+/** Comparators of Linear's GraphQL filters, applied to a field value */
+const COMPARATORS: Record<string, (value: any, operand: any) => boolean> = {
+  eq: (value, operand) => comparable(value) === comparable(operand),
+  neq: (value, operand) => comparable(value) !== comparable(operand),
+  in: (value, operand) => operand.map(comparable).includes(comparable(value)),
+  nin: (value, operand) => !operand.map(comparable).includes(comparable(value)),
+  lt: (value, operand) => value != null && comparable(value) < comparable(operand),
+  lte: (value, operand) => value != null && comparable(value) <= comparable(operand),
+  gt: (value, operand) => value != null && comparable(value) > comparable(operand),
+  gte: (value, operand) => value != null && comparable(value) >= comparable(operand),
+  contains: (value, operand) => typeof value === 'string' && value.includes(operand),
+  containsIgnoreCase: (value, operand) =>
+    typeof value === 'string' && value.toLowerCase().includes(String(operand).toLowerCase()),
+  startsWith: (value, operand) => typeof value === 'string' && value.startsWith(operand),
+  null: (value, operand) => (value == null) === operand
+};
+
+/**
+ * Checks an in-memory record against a Linear filter: nested fields,
+ * `and`/`or`, `some`/`every` on connections and the comparators above
+ */
+function matchesFilter(record: any, filter: any): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, condition]: [string, any]) => {
+    if (condition === undefined) {
+      return true;
+    }
+    if (key === 'and') {
+      return condition.every((part: any) => matchesFilter(record, part));
+    }
+    if (key === 'or') {
+      return condition.some((part: any) => matchesFilter(record, part));
+    }
+    if (COMPARATORS[key]) {
+      return COMPARATORS[key](record, condition);
+    }
+    if (key === 'some' || key === 'every') {
+      const nodes: any[] = Array.isArray(record) ? record : record?.nodes || [];
+      return key === 'some'
+        ? nodes.some(node => matchesFilter(node, condition))
+        : nodes.every(node => matchesFilter(node, condition));
+    }
+    if (typeof condition !== 'object' || condition === null) {
+      return comparable(record?.[key]) === comparable(condition);
+    }
+    return matchesFilter(record?.[key], condition);
+  });
+}
+
+/**
+ * Compares dates and ISO timestamps by time
+ */
+function comparable(value: any): any {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return Date.parse(value);
+  }
+  return value;
+}
@@ -5,10 +5,30 @@
  */
 import express from 'express';
 import syncRoutes from './api/sync';
+import webhookRoutes from './api/webhooks';
+import commandPatternRoutes from './api/command-patterns';
+import auditRoutes from './api/audit';
+import teamMetricsRoutes from './api/team-metrics';
+import behaviorConfigRoutes from './api/behavior-configs';
 
 const router = express.Router();
 
 // Sync routes
 router.use('/sync', syncRoutes);
 
+// Webhook administration routes
+router.use('/webhooks', webhookRoutes);
+
+// Organization command pattern registry
+router.use('/command-patterns', commandPatternRoutes);
+
+// Agent audit log
+router.use('/audit', auditRoutes);
+
+// Daily team metric snapshots and WIP history
+router.use('/team-metrics', teamMetricsRoutes);
+
+// Per-team autonomous behavior configuration
+router.use('/behavior-configs', behaviorConfigRoutes);
+
 export default router;
@@ -33,7 +33,7 @@ import * as logger from '../utils/logger';
 /**
  * Default configuration for ART planning
  */
-const DEFAULT_ART_CONFIG: ARTPlanningConfig = {
+export const DEFAULT_ART_CONFIG: ARTPlanningConfig = {
   defaultIterationLength: 14, // 2 weeks
   bufferCapacity: 0.2, // 20% buffer
   minValueDeliveryThreshold: 0.8, // 80% confidence
@@ -12,6 +12,7 @@ import {
   DecompositionAuditEntry,
   StoryDecompositionError
 } from '../types/decomposition-types';
+import { recordAction } from '../linear/action-journal';
 import * as logger from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -282,6 +283,8 @@ export class LinearStoryDecomposer {
         throw new Error('Failed to retrieve created issue');
       }
 
+      await recordAction('issue_create', issue, null, { title: issue.title, teamId: options.teamId });
+
       return {
         id: issue.id,
         number: issue.number,
@@ -351,6 +354,8 @@ export class LinearStoryDecomposer {
         throw new Error('Failed to retrieve created sub-story');
       }
 
+      await recordAction('issue_create', issue, null, { title: issue.title, teamId: options.teamId });
+
       return {
         id: issue.id,
         number: issue.number,
@@ -410,6 +415,14 @@ export class LinearStoryDecomposer {
             });
           }
 
+          const relation = relationResponse.success ? await relationResponse.issueRelation : undefined;
+          if (relation) {
+            await recordAction('relation_create', { id: parentIssueId }, null, {
+              relationId: relation.id,
+              relatedIssueId: childIssueId
+            });
+          }
+
           return relationResponse.success;
         } catch (error) {
           logger.warn('Error creating issue relationship', {
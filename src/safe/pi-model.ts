@@ -169,9 +169,12 @@ export interface PIRisk {
   /** Likelihood of the risk occurring (1-5) */
   likelihood: 1 | 2 | 3 | 4 | 5;
   
-  /** Status of the risk */
-  status: 'identified' | 'mitigated' | 'accepted' | 'avoided';
+  /** Status of the risk (ROAM: resolved, owned, accepted, mitigated) */
+  status: 'identified' | 'resolved' | 'owned' | 'accepted' | 'mitigated' | 'avoided';
   
   /** Mitigation plan for the risk */
   mitigationPlan?: string;
+  
+  /** Person who owns the risk (ROAM "owned") */
+  owner?: string;
 }
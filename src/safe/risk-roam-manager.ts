@@ -0,0 +1,316 @@
+/**
+ * Risk ROAM Manager
+ *
+ * Manages PI risks with the SAFe ROAM technique (Resolved, Owned, Accepted,
+ * Mitigated). A risk is a Linear issue labeled "PI Risk"; its ROAM status is
+ * kept as a "ROAM: <status>" label on the issue and in the pi_risks table.
+ */
+
+import { LinearClientWrapper } from '../linear/client';
+import { getProgramIncrementByPiId, getPIRisksByRiskIds, upsertPIRisk } from '../db/models';
+import * as logger from '../utils/logger';
+
+/**
+ * ROAM status of a PI risk
+ */
+export type ROAMStatus = 'resolved' | 'owned' | 'accepted' | 'mitigated';
+
+/**
+ * ROAM statuses in board order
+ */
+export const ROAM_STATUSES: ROAMStatus[] = ['resolved', 'owned', 'accepted', 'mitigated'];
+
+/**
+ * Label that marks an issue as a PI risk
+ */
+export const PI_RISK_LABEL = 'PI Risk';
+
+/**
+ * Linear label for each ROAM status
+ */
+export const ROAM_LABELS: Record<ROAMStatus, string> = {
+  resolved: 'ROAM: Resolved',
+  owned: 'ROAM: Owned',
+  accepted: 'ROAM: Accepted',
+  mitigated: 'ROAM: Mitigated'
+};
+
+const ROAM_LABEL_COLORS: Record<ROAMStatus, string> = {
+  resolved: '#4CB782',
+  owned: '#5E6AD2',
+  accepted: '#F2C94C',
+  mitigated: '#26B5CE'
+};
+
+/**
+ * A risk on the ROAM board
+ */
+export interface RiskBoardItem {
+  id: string;
+  identifier: string;
+  title: string;
+  status: ROAMStatus | 'unroamed';
+  owner?: string;
+  url?: string;
+}
+
+/**
+ * Risks grouped by ROAM status
+ */
+export interface ROAMBoard {
+  resolved: RiskBoardItem[];
+  owned: RiskBoardItem[];
+  accepted: RiskBoardItem[];
+  mitigated: RiskBoardItem[];
+  /** Risks that have not been ROAMed yet */
+  unroamed: RiskBoardItem[];
+  total: number;
+}
+
+/**
+ * Result of ROAMing a risk
+ */
+export interface RiskUpdateResult {
+  riskId: string;
+  identifier: string;
+  title: string;
+  status: ROAMStatus;
+  owner?: string;
+  assigneeId?: string;
+  /** Whether the status was stored in pi_risks */
+  persisted: boolean;
+  warnings: string[];
+}
+
+/**
+ * Manages ROAM status of PI risks in Linear and the database
+ */
+export class RiskROAMManager {
+  constructor(private linearClient: LinearClientWrapper) {}
+
+  /**
+   * ROAMs a risk: applies the status label, assigns the owner and stores the status
+   *
+   * @param riskId Linear issue ID of the risk
+   * @param status ROAM status to apply
+   * @param options Owner name and PI used when the issue has no cycle
+   * @returns The update result
+   */
+  async updateRiskStatus(
+    riskId: string,
+    status: ROAMStatus,
+    options: { owner?: string; piId?: string } = {}
+  ): Promise<RiskUpdateResult> {
+    const issue = await this.linearClient.getIssue(riskId);
+    if (!issue) {
+      throw new Error(`Risk not found: ${riskId}`);
+    }
+
+    const warnings: string[] = [];
+    const teamId = issue.team?.id;
+
+    // Replace any previous ROAM label and make sure the issue is marked as a risk
+    const roamLabelNames = Object.values(ROAM_LABELS);
+    const currentLabels: any[] = issue.labels?.nodes || [];
+    const labelIds = currentLabels
+      .filter(label => !roamLabelNames.includes(label.name))
+      .map(label => label.id);
+
+    if (!currentLabels.some(label => label.name === PI_RISK_LABEL)) {
+      labelIds.push(await this.ensureLabel(PI_RISK_LABEL, teamId, '#EB5757'));
+    }
+    labelIds.push(await this.ensureLabel(ROAM_LABELS[status], teamId, ROAM_LABEL_COLORS[status]));
+
+    let assigneeId: string | undefined;
+    if (options.owner) {
+      assigneeId = await this.findUserId(options.owner, teamId);
+      if (!assigneeId) {
+        warnings.push(`Could not find a user named @${options.owner}; the risk was not assigned`);
+      }
+    }
+
+    await this.linearClient.updateIssue({
+      id: issue.id,
+      labelIds,
+      ...(assigneeId ? { assigneeId } : {})
+    });
+
+    const persisted = await this.persistRisk(issue, status, options.owner, options.piId, warnings);
+
+    logger.info('PI risk ROAMed', {
+      riskId: issue.id,
+      status,
+      owner: options.owner,
+      persisted
+    });
+
+    return {
+      riskId: issue.id,
+      identifier: issue.identifier,
+      title: issue.title,
+      status,
+      owner: options.owner,
+      assigneeId,
+      persisted,
+      warnings
+    };
+  }
+
+  /**
+   * Builds the ROAM board for the risks of a team (or all teams)
+   *
+   * @param teamId Optional team to limit the board to
+   * @returns Risks grouped by ROAM status
+   */
+  async getRiskBoard(teamId?: string): Promise<ROAMBoard> {
+    const issues = await this.linearClient.getIssues({
+      filter: {
+        labels: { some: { name: { eq: PI_RISK_LABEL } } },
+        team: teamId ? { id: { eq: teamId } } : undefined
+      }
+    });
+
+    const risks: any[] = issues?.nodes || [];
+    const owners = await this.getStoredOwners(risks.map(risk => risk.id));
+
+    const board: ROAMBoard = {
+      resolved: [],
+      owned: [],
+      accepted: [],
+      mitigated: [],
+      unroamed: [],
+      total: risks.length
+    };
+
+    for (const risk of risks) {
+      const status = this.getROAMStatus(risk);
+      board[status].push({
+        id: risk.id,
+        identifier: risk.identifier,
+        title: risk.title,
+        status,
+        owner: owners.get(risk.id) || risk.assignee?.name,
+        url: risk.url
+      });
+    }
+
+    return board;
+  }
+
+  /**
+   * Reads the ROAM status from an issue's labels
+   */
+  getROAMStatus(issue: any): ROAMStatus | 'unroamed' {
+    const labelNames: string[] = (issue.labels?.nodes || []).map((label: any) => label.name);
+    return ROAM_STATUSES.find(status => labelNames.includes(ROAM_LABELS[status])) || 'unroamed';
+  }
+
+  /**
+   * Finds or creates a team label
+   */
+  private async ensureLabel(name: string, teamId: string | undefined, color: string): Promise<string> {
+    const labels = await this.linearClient.getLabels({ teamId });
+    const existing = (labels?.nodes || []).find((label: any) => label.name === name);
+
+    if (existing) {
+      return existing.id;
+    }
+
+    if (!teamId) {
+      throw new Error(`Label "${name}" does not exist and the risk has no team to create it in`);
+    }
+
+    const created = await this.linearClient.createLabel({ name, teamId, color });
+    const label = await created?.issueLabel;
+    const labelId = label?.id || created?.id;
+
+    if (!labelId) {
+      throw new Error(`Failed to create label: ${name}`);
+    }
+
+    return labelId;
+  }
+
+  /**
+   * Finds a Linear user by name, display name or email prefix
+   */
+  private async findUserId(owner: string, teamId?: string): Promise<string | undefined> {
+    if (!teamId) {
+      return undefined;
+    }
+
+    try {
+      const members = await this.linearClient.getTeamMembers(teamId);
+      const name = owner.toLowerCase();
+      const user = (members?.nodes || []).find((member: any) =>
+        member.name?.toLowerCase() === name ||
+        member.displayName?.toLowerCase() === name ||
+        member.email?.toLowerCase().split('@')[0] === name
+      );
+
+      return user?.id;
+    } catch (error) {
+      logger.warn('Unable to look up risk owner', { owner, error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores the ROAM status in pi_risks for the risk's program increment
+   *
+   * Linear labels remain the source of truth, so storage failures are reported
+   * as warnings rather than failing the update.
+   */
+  private async persistRisk(
+    issue: any,
+    status: ROAMStatus,
+    owner: string | undefined,
+    piId: string | undefined,
+    warnings: string[]
+  ): Promise<boolean> {
+    const candidates = [issue.cycle?.id, piId].filter(Boolean) as string[];
+
+    try {
+      for (const candidate of candidates) {
+        const programIncrement = await getProgramIncrementByPiId(candidate);
+        if (programIncrement) {
+          await upsertPIRisk(
+            programIncrement.id,
+            issue.id,
+            issue.title.replace(/^\[RISK\]\s*/i, ''),
+            status,
+            owner
+          );
+          return true;
+        }
+      }
+
+      warnings.push('No program increment found for this risk; the ROAM status is only stored in Linear');
+      return false;
+    } catch (error) {
+      logger.warn('Unable to store PI risk', { riskId: issue.id, error: (error as Error).message });
+      warnings.push('The ROAM status could not be stored in the database');
+      return false;
+    }
+  }
+
+  /**
+   * Gets owners stored in pi_risks, keyed by risk ID
+   */
+  private async getStoredOwners(riskIds: string[]): Promise<Map<string, string>> {
+    const owners = new Map<string, string>();
+
+    try {
+      const stored = await getPIRisksByRiskIds(riskIds);
+      for (const risk of stored) {
+        if (risk.owner && !owners.has(risk.risk_id)) {
+          owners.set(risk.risk_id, risk.owner);
+        }
+      }
+    } catch (error) {
+      logger.warn('Unable to load stored PI risk owners', { error: (error as Error).message });
+    }
+
+    return owners;
+  }
+}
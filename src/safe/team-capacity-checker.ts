@@ -0,0 +1,360 @@
+/**
+ * Team Capacity Checker
+ *
+ * Loads a team's members, cycle history and planned cycle work from Linear
+ * and runs them through the CapacityManager to report utilization per
+ * iteration, the overcommitment risk and capacity recommendations.
+ */
+
+import { LinearClientWrapper } from '../linear/client';
+import { CapacityManager } from './capacity-manager';
+import { DEFAULT_ART_CONFIG } from './art-planner';
+import {
+  ARTPlanningConfig,
+  ARTTeam,
+  AllocatedWorkItem,
+  Iteration
+} from '../types/art-planning-types';
+import * as logger from '../utils/logger';
+
+/**
+ * Story points per member per iteration assumed when a team has no cycle history
+ */
+const DEFAULT_POINTS_PER_MEMBER = 8;
+
+/**
+ * Number of completed cycles used to calculate the average velocity
+ */
+const VELOCITY_HISTORY_CYCLES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Overcommitment risk level
+ */
+export type OvercommitmentRisk = 'low' | 'medium' | 'high';
+
+/**
+ * Capacity and planned work of a single iteration
+ */
+export interface IterationCapacityReport {
+  iterationId: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  /** Whether this is the iteration the check was asked about */
+  isFocus: boolean;
+  /** Story points the team can take on after capacity factors */
+  availableCapacity: number;
+  /** Story points planned in the cycle */
+  allocatedPoints: number;
+  /** Allocated points divided by available capacity */
+  utilizationRate: number;
+  bufferCapacity: number;
+  isOverAllocated: boolean;
+  overcommitmentRisk: OvercommitmentRisk;
+  issueCount: number;
+  unestimatedCount: number;
+}
+
+/**
+ * Result of a team capacity check
+ */
+export interface TeamCapacityReport {
+  team: {
+    id: string;
+    name: string;
+    memberCount: number;
+    averageVelocity: number;
+    /** Whether the velocity comes from completed cycles or the per-member default */
+    velocitySource: 'history' | 'default';
+  };
+  iterations: IterationCapacityReport[];
+  /** Overcommitment risk of the focus iteration */
+  overcommitmentRisk: OvercommitmentRisk;
+  confidenceScore: number;
+  recommendations: string[];
+  risks: string[];
+  warnings: string[];
+}
+
+/**
+ * Options for a capacity check
+ */
+export interface CapacityCheckOptions {
+  /** Check the next iteration instead of the current one */
+  next?: boolean;
+  /** Number of iterations to report, starting with the current one */
+  iterations?: number;
+  /** Planning configuration overrides */
+  config?: Partial<ARTPlanningConfig>;
+}
+
+/**
+ * Checks team capacity against planned Linear cycle work
+ */
+export class TeamCapacityChecker {
+  constructor(private linearClient: LinearClientWrapper) {}
+
+  /**
+   * Checks the capacity of a team for its current and upcoming iterations
+   *
+   * @param teamRef Team ID, key or name
+   * @param options Capacity check options
+   * @returns The capacity report
+   */
+  async checkCapacity(teamRef: string, options: CapacityCheckOptions = {}): Promise<TeamCapacityReport> {
+    const config: ARTPlanningConfig = { ...DEFAULT_ART_CONFIG, ...options.config };
+    const capacityManager = new CapacityManager(config);
+    const warnings: string[] = [];
+
+    const team = await this.resolveTeam(teamRef);
+    const members = await this.getMembers(team);
+    const cycles = await this.getCycles(team.id);
+
+    const now = Date.now();
+    const current = cycles.find(cycle => cycle.startsAt.getTime() <= now && cycle.endsAt.getTime() > now);
+    const upcoming = cycles.filter(cycle => cycle.startsAt.getTime() > now);
+    const completed = cycles
+      .filter(cycle => cycle.endsAt.getTime() <= now)
+      .reverse()
+      .slice(0, VELOCITY_HISTORY_CYCLES);
+
+    const planned = [...(current ? [current] : []), ...upcoming].slice(0, Math.max(options.iterations || 2, 1));
+    if (planned.length === 0) {
+      throw new Error(`Team ${team.name} has no current or upcoming cycles to check capacity for`);
+    }
+
+    const focus = options.next ? upcoming[0] : current;
+    if (!focus) {
+      warnings.push(options.next
+        ? 'The team has no upcoming cycle; showing the current cycle instead'
+        : 'The team has no active cycle; showing the next cycle instead');
+    }
+    const focusId = (focus || planned[0]).id;
+
+    const memberCount = members.length;
+    const historicalVelocity = await this.calculateVelocity(team.id, completed);
+    const averageVelocity = historicalVelocity ?? memberCount * DEFAULT_POINTS_PER_MEMBER;
+    if (historicalVelocity === undefined) {
+      warnings.push(`No completed cycles found; assuming ${DEFAULT_POINTS_PER_MEMBER} points per member per iteration`);
+    }
+
+    const artTeam: ARTTeam = {
+      id: team.id,
+      name: team.name,
+      memberCount,
+      averageVelocity,
+      specializations: [],
+      capacityFactor: 1
+    };
+
+    const iterations: IterationCapacityReport[] = [];
+    const recommendations: string[] = [];
+    const risks: string[] = [];
+    let confidenceScore = 1;
+
+    for (const cycle of planned) {
+      const iteration: Iteration = {
+        id: cycle.id,
+        name: cycle.name,
+        startDate: cycle.startsAt,
+        endDate: cycle.endsAt,
+        duration: Math.max(1, Math.round((cycle.endsAt.getTime() - cycle.startsAt.getTime()) / DAY_MS)),
+        linearCycleId: cycle.id,
+        teams: [team.id],
+        capacity: []
+      };
+
+      const capacity = await capacityManager.calculateIterationCapacity(iteration, [artTeam]);
+      const issues = await this.getCycleIssues(team.id, cycle.id);
+      const allocatedWork = issues.map(issue => this.toAllocatedWork(issue, team.id));
+      const utilizations = await capacityManager.calculateCapacityUtilization(allocatedWork, capacity.teamCapacities);
+      const [utilization] = utilizations;
+
+      const cycleRecommendations = await capacityManager.getCapacityRecommendations(
+        utilizations,
+        capacity.teamCapacities
+      );
+      recommendations.push(...cycleRecommendations.map(recommendation => `${cycle.name}: ${recommendation}`));
+      risks.push(...capacity.risks.filter(risk => !risks.includes(risk)));
+      confidenceScore = Math.min(confidenceScore, capacity.confidenceScore);
+
+      const unestimatedCount = issues.filter(issue => !issue.estimate).length;
+      if (unestimatedCount > 0) {
+        warnings.push(`${cycle.name} has ${unestimatedCount} unestimated issue(s); utilization may be understated`);
+      }
+
+      iterations.push({
+        iterationId: cycle.id,
+        name: cycle.name,
+        startDate: cycle.startsAt,
+        endDate: cycle.endsAt,
+        isFocus: cycle.id === focusId,
+        availableCapacity: capacity.teamCapacities[0]?.availableCapacity || 0,
+        allocatedPoints: utilization?.allocatedCapacity || 0,
+        utilizationRate: utilization?.utilizationRate || 0,
+        bufferCapacity: utilization?.bufferCapacity || 0,
+        isOverAllocated: utilization?.isOverAllocated || false,
+        overcommitmentRisk: this.assessOvercommitmentRisk(utilization?.utilizationRate || 0, config),
+        issueCount: issues.length,
+        unestimatedCount
+      });
+    }
+
+    const focusIteration = iterations.find(iteration => iteration.isFocus) || iterations[0];
+
+    logger.info('Team capacity checked', {
+      teamId: team.id,
+      iterations: iterations.length,
+      focusIteration: focusIteration.name,
+      utilizationRate: focusIteration.utilizationRate.toFixed(2),
+      overcommitmentRisk: focusIteration.overcommitmentRisk
+    });
+
+    return {
+      team: {
+        id: team.id,
+        name: team.name,
+        memberCount,
+        averageVelocity,
+        velocitySource: historicalVelocity === undefined ? 'default' : 'history'
+      },
+      iterations,
+      overcommitmentRisk: focusIteration.overcommitmentRisk,
+      confidenceScore,
+      recommendations,
+      risks,
+      warnings
+    };
+  }
+
+  /**
+   * Rates overcommitment from utilization against the configured maximum
+   */
+  assessOvercommitmentRisk(utilizationRate: number, config: ARTPlanningConfig = DEFAULT_ART_CONFIG): OvercommitmentRisk {
+    if (utilizationRate > 1) {
+      return 'high';
+    }
+
+    if (utilizationRate > config.maxCapacityUtilization) {
+      return 'medium';
+    }
+
+    return 'low';
+  }
+
+  /**
+   * Finds a team by ID, key or name ("Phoenix" matches "Team Phoenix")
+   */
+  private async resolveTeam(teamRef: string): Promise<any> {
+    const ref = teamRef.toLowerCase();
+    const teams = await this.linearClient.getTeams();
+    const team = (teams?.nodes || []).find((candidate: any) =>
+      candidate.id === teamRef ||
+      candidate.key?.toLowerCase() === ref ||
+      candidate.name?.toLowerCase() === ref ||
+      candidate.name?.toLowerCase() === `team ${ref}`
+    );
+
+    if (!team) {
+      throw new Error(`Team not found: ${teamRef}`);
+    }
+
+    return team;
+  }
+
+  /**
+   * Gets the active members of a team
+   */
+  private async getMembers(team: any): Promise<any[]> {
+    const members = typeof team.members === 'function'
+      ? await team.members()
+      : await this.linearClient.getTeamMembers(team.id);
+
+    return (members?.nodes || []).filter((member: any) => member.active !== false);
+  }
+
+  /**
+   * Gets a team's cycles sorted by start date
+   */
+  private async getCycles(teamId: string): Promise<Array<{ id: string; name: string; startsAt: Date; endsAt: Date }>> {
+    const cycles = await this.linearClient.getTeamCycles(teamId);
+
+    return (cycles?.nodes || [])
+      .filter((cycle: any) => cycle.startsAt && cycle.endsAt)
+      .map((cycle: any) => ({
+        id: cycle.id,
+        name: cycle.name || `Cycle ${cycle.number}`,
+        startsAt: new Date(cycle.startsAt),
+        endsAt: new Date(cycle.endsAt)
+      }))
+      .sort((a: any, b: any) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  /**
+   * Gets the issues planned in a cycle, excluding canceled ones
+   */
+  private async getCycleIssues(teamId: string, cycleId: string): Promise<any[]> {
+    const issues = await this.linearClient.getTeamIssues(teamId, {
+      cycle: { id: { eq: cycleId } }
+    });
+
+    return (issues?.nodes || []).filter((issue: any) => !issue.canceledAt);
+  }
+
+  /**
+   * Calculates the average points completed over recent cycles
+   *
+   * @returns The average velocity, or undefined without history
+   */
+  private async calculateVelocity(
+    teamId: string,
+    cycles: Array<{ id: string }>
+  ): Promise<number | undefined> {
+    if (cycles.length === 0) {
+      return undefined;
+    }
+
+    let completedPoints = 0;
+    for (const cycle of cycles) {
+      const issues = await this.getCycleIssues(teamId, cycle.id);
+      completedPoints += issues
+        .filter((issue: any) => issue.completedAt)
+        .reduce((sum: number, issue: any) => sum + (issue.estimate || 0), 0);
+    }
+
+    const velocity = Math.round(completedPoints / cycles.length);
+    return velocity > 0 ? velocity : undefined;
+  }
+
+  /**
+   * Converts a Linear issue into allocated work for utilization
+   */
+  private toAllocatedWork(issue: any, teamId: string): AllocatedWorkItem {
+    const points = issue.estimate || 0;
+
+    return {
+      workItem: {
+        id: issue.id,
+        type: 'story',
+        title: issue.title,
+        description: issue.description || '',
+        acceptanceCriteria: [],
+        storyPoints: points,
+        attributes: { identifier: issue.identifier }
+      },
+      assignedTeam: teamId,
+      allocatedPoints: points,
+      isComplete: Boolean(issue.completedAt),
+      estimatedEffort: 0,
+      dependencies: [],
+      riskLevel: 'low',
+      valueContribution: 0,
+      confidence: 1,
+      rationale: 'Planned in Linear cycle',
+      blockedBy: [],
+      enables: []
+    };
+  }
+}
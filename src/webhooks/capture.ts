@@ -0,0 +1,144 @@
+/**
+ * Webhook Fixture Capture
+ *
+ * When WEBHOOK_CAPTURE_DIR is set, every verified payload received on the
+ * webhook routes is sanitized and written to that directory as a JSON fixture. The
+ * fixtures can be replayed locally with `webhooks replay-fixture`.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as logger from '../utils/logger';
+
+/** Value written in place of redacted fields */
+export const REDACTED = '[REDACTED]';
+
+/** Payload keys whose values are redacted (matched case-insensitively) */
+const SENSITIVE_KEYS = [
+  'email',
+  'avatarurl',
+  'ipaddress',
+  'accesstoken',
+  'refreshtoken',
+  'token',
+  'secret',
+  'password',
+  'signature',
+  'webhooksecret'
+];
+
+/** Headers kept in captured fixtures */
+const CAPTURED_HEADERS = ['linear-event', 'linear-delivery'];
+
+/**
+ * A captured webhook delivery
+ */
+export interface WebhookFixture {
+  /** When the delivery was captured */
+  capturedAt: string;
+  /** Route the delivery was received on */
+  route: string;
+  /** Non-sensitive delivery headers */
+  headers: Record<string, string>;
+  /** Sanitized webhook payload */
+  payload: any;
+  /** Optional Linear state used by the in-memory client during replay */
+  linearData?: Record<string, any>;
+}
+
+/**
+ * Recursively redacts sensitive fields from a payload
+ *
+ * @param value The payload (or part of it) to sanitize
+ * @returns A sanitized copy
+ */
+export const sanitizePayload = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(item => sanitizePayload(item));
+  }
+
+  if (value && typeof value === 'object') {
+    const sanitized: Record<string, any> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      sanitized[key] = SENSITIVE_KEYS.includes(key.toLowerCase()) && entry !== null
+        ? REDACTED
+        : sanitizePayload(entry);
+    }
+    return sanitized;
+  }
+
+  return value;
+};
+
+/**
+ * Builds a sanitized fixture from a webhook request
+ */
+export const createWebhookFixture = (req: Request): WebhookFixture => {
+  const headers: Record<string, string> = {};
+  for (const name of CAPTURED_HEADERS) {
+    const header = req.headers[name];
+    if (typeof header === 'string') {
+      headers[name] = header;
+    }
+  }
+
+  return {
+    capturedAt: new Date().toISOString(),
+    route: req.originalUrl.split('?')[0],
+    headers,
+    payload: sanitizePayload(req.body)
+  };
+};
+
+/**
+ * Generates a sortable, descriptive file name for a fixture
+ */
+export const getFixtureFileName = (fixture: WebhookFixture): string => {
+  const timestamp = fixture.capturedAt.replace(/[:.]/g, '-');
+  const label = [fixture.payload?.type, fixture.payload?.action]
+    .filter(Boolean)
+    .join('-')
+    .replace(/[^a-zA-Z0-9-]/g, '_') || 'unknown';
+  const suffix = Math.random().toString(36).substr(2, 6);
+
+  return `${timestamp}-${label}-${suffix}.json`;
+};
+
+/**
+ * Writes a fixture to the capture directory
+ *
+ * @returns The path of the written fixture
+ */
+export const writeWebhookFixture = async (
+  fixture: WebhookFixture,
+  directory: string
+): Promise<string> => {
+  await fs.mkdir(directory, { recursive: true });
+  const filePath = path.join(directory, getFixtureFileName(fixture));
+  await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), 'utf8');
+  return filePath;
+};
+
+/**
+ * Middleware that captures webhook deliveries when WEBHOOK_CAPTURE_DIR is set
+ *
+ * Mount after requireWebhookSignature so only verified deliveries are written.
+ * Capture never blocks or fails the webhook; write errors are only logged.
+ */
+export const captureWebhookFixture = (req: Request, _res: Response, next: NextFunction) => {
+  const directory = process.env.WEBHOOK_CAPTURE_DIR;
+
+  if (directory && req.method === 'POST' && req.body && typeof req.body === 'object') {
+    const fixture = createWebhookFixture(req);
+
+    writeWebhookFixture(fixture, directory)
+      .then(filePath => {
+        logger.debug('Captured webhook fixture', { filePath, route: fixture.route });
+      })
+      .catch(error => {
+        logger.warn('Failed to capture webhook fixture', { error: (error as Error).message });
+      });
+  }
+
+  next();
+};
@@ -0,0 +1,191 @@
+/**
+ * Webhook Delivery Deduplication
+ *
+ * Linear retries webhook deliveries that are not acknowledged in time. Each
+ * delivery is claimed in the database by its delivery ID plus a hash of its
+ * payload, so a retried delivery is recognised and skipped instead of being
+ * processed a second time. The hash ignores fields that change between
+ * attempts, such as webhookTimestamp. Claims expire after a TTL; a claim still
+ * 'processing' after a short lease (its process crashed) can be taken over.
+ */
+import * as crypto from 'crypto';
+import {
+  claimWebhookDelivery,
+  completeWebhookDelivery,
+  releaseWebhookDelivery,
+  purgeExpiredWebhookDeliveries
+} from '../db/models';
+import * as logger from '../utils/logger';
+
+/** Default time a delivery claim is kept (24 hours) */
+const DEFAULT_DEDUP_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Default time a delivery may stay 'processing' before its claim can be taken over (2 minutes) */
+const DEFAULT_PROCESSING_LEASE_MS = 2 * 60 * 1000;
+
+/** Top-level payload fields Linear sets anew on every delivery attempt */
+const VOLATILE_PAYLOAD_FIELDS = ['webhookTimestamp'];
+
+/**
+ * Outcome of processing a delivery at most once
+ */
+export interface DeduplicatedResult<T> {
+  duplicate: boolean;
+  result?: T;
+}
+
+/**
+ * Computes a stable hash of a webhook payload
+ *
+ * Volatile fields are left out and object keys are sorted, so every attempt
+ * of a delivery hashes the same.
+ */
+export const computePayloadHash = (payload: any): string => {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(canonicalize(parsePayload(payload), true)))
+    .digest('hex');
+};
+
+/**
+ * Builds the deduplication key for a delivery
+ */
+export const getDeduplicationKey = (deliveryId: string | undefined, payloadHash: string): string => {
+  return `${deliveryId || 'no-delivery-id'}:${payloadHash}`;
+};
+
+/**
+ * Parses a raw JSON payload; anything else is hashed as it is
+ */
+const parsePayload = (payload: any): any => {
+  if (typeof payload !== 'string') {
+    return payload;
+  }
+
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return payload;
+  }
+};
+
+/**
+ * Sorts object keys recursively, dropping volatile fields at the top level
+ */
+const canonicalize = (value: any, topLevel = false): any => {
+  if (Array.isArray(value)) {
+    return value.map(item => canonicalize(item));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const canonical: Record<string, any> = {};
+  for (const key of Object.keys(value).sort()) {
+    if (!(topLevel && VOLATILE_PAYLOAD_FIELDS.includes(key))) {
+      canonical[key] = canonicalize(value[key]);
+    }
+  }
+  return canonical;
+};
+
+/**
+ * Gets the configured processing lease in milliseconds
+ */
+const getProcessingLease = (): number => {
+  const leaseMs = parseInt(process.env.WEBHOOK_DEDUP_PROCESSING_TIMEOUT || '', 10);
+  return isNaN(leaseMs) || leaseMs <= 0 ? DEFAULT_PROCESSING_LEASE_MS : leaseMs;
+};
+
+/**
+ * Gets the configured claim TTL in milliseconds
+ */
+const getDedupTtl = (): number => {
+  const ttlHours = parseFloat(process.env.WEBHOOK_DEDUP_TTL_HOURS || '');
+  return isNaN(ttlHours) || ttlHours <= 0 ? DEFAULT_DEDUP_TTL_MS : ttlHours * 60 * 60 * 1000;
+};
+
+/**
+ * Runs a handler at most once per webhook delivery
+ *
+ * The claim is released if the handler throws so Linear's retry is processed.
+ * If the deduplication store is unavailable the handler still runs, trading
+ * a possible duplicate for not dropping the event.
+ *
+ * @param deliveryId Linear delivery ID (Linear-Delivery header)
+ * @param payload Webhook payload
+ * @param handler Work to perform for the delivery
+ */
+export const processOnce = async <T>(
+  deliveryId: string | undefined,
+  payload: any,
+  handler: () => Promise<T>
+): Promise<DeduplicatedResult<T>> => {
+  const payloadHash = computePayloadHash(payload);
+  const dedupKey = getDeduplicationKey(deliveryId, payloadHash);
+
+  let claimed: boolean | null;
+  try {
+    claimed = await claimWebhookDelivery(
+      dedupKey,
+      deliveryId,
+      payloadHash,
+      new Date(Date.now() + getDedupTtl()),
+      getProcessingLease()
+    );
+  } catch (error) {
+    logger.warn('Webhook deduplication unavailable, processing without it', {
+      error: (error as Error).message,
+      deliveryId
+    });
+    claimed = null;
+  }
+
+  if (claimed === false) {
+    logger.info('Duplicate webhook delivery skipped', {
+      deliveryId,
+      type: payload?.type,
+      action: payload?.action
+    });
+    return { duplicate: true };
+  }
+
+  let result: T;
+  try {
+    result = await handler();
+  } catch (error) {
+    if (claimed) {
+      await releaseWebhookDelivery(dedupKey).catch(releaseError => {
+        logger.error('Failed to release webhook delivery claim', {
+          error: (releaseError as Error).message,
+          dedupKey
+        });
+      });
+    }
+    throw error;
+  }
+
+  if (claimed) {
+    await completeWebhookDelivery(dedupKey).catch(completeError => {
+      logger.error('Failed to mark webhook delivery completed', {
+        error: (completeError as Error).message,
+        dedupKey
+      });
+    });
+  }
+
+  return { duplicate: false, result };
+};
+
+/**
+ * Periodically purges expired delivery claims
+ *
+ * @returns Interval handle to clear on shutdown
+ */
+export const startDeliveryCleanup = (intervalMs: number = 60 * 60 * 1000): NodeJS.Timeout => {
+  return setInterval(() => {
+    purgeExpiredWebhookDeliveries().catch(error => {
+      logger.error('Webhook delivery cleanup failed', { error: (error as Error).message });
+    });
+  }, intervalMs);
+};
@@ -0,0 +1,204 @@
+/**
+ * Webhook Fixture Replay
+ *
+ * Replays captured webhook fixtures through the webhook processors and the
+ * behavior engine without touching Linear or Slack. Mutations and
+ * notifications are recorded by a RecordingLinearClient and reported per
+ * fixture, so payload shapes and agent responses can be debugged offline.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RecordingLinearClient, RecordedMutation } from '../linear/recording-client';
+import { OperationalNotificationCoordinator } from '../utils/operational-notification-coordinator';
+import { getGlobalRegistry, initializeGlobalRegistry } from '../agent/behavior-registry';
+import { processBehaviorEvent } from '../agent/webhook-integration';
+import { processWebhookEvent } from './handler';
+import { WebhookFixture } from './capture';
+import * as logger from '../utils/logger';
+
+/** Route that delivers payloads straight to the behavior system */
+const BEHAVIOR_ROUTE = '/webhook/behaviors';
+
+/**
+ * A fixture loaded from disk
+ */
+export interface LoadedWebhookFixture extends WebhookFixture {
+  /** File the fixture was loaded from */
+  file: string;
+}
+
+/**
+ * A Slack notification captured during replay
+ */
+export interface RecordedNotification {
+  method: string;
+  args: any[];
+}
+
+/**
+ * Outcome of replaying a single fixture
+ */
+export interface FixtureReplayResult {
+  file: string;
+  route: string;
+  type?: string;
+  action?: string;
+  success: boolean;
+  error?: string;
+  comments: Array<{ issueId: string; body: string }>;
+  mutations: RecordedMutation[];
+  notifications: RecordedNotification[];
+}
+
+/**
+ * Loads a fixture file, or every *.json fixture in a directory
+ *
+ * Plain webhook payloads (without the fixture envelope) are accepted and
+ * treated as deliveries to /webhook.
+ *
+ * @param fixturePath Path to a fixture file or directory
+ * @returns Fixtures sorted by file name
+ */
+export const loadWebhookFixtures = async (fixturePath: string): Promise<LoadedWebhookFixture[]> => {
+  const stats = await fs.stat(fixturePath);
+
+  const files = stats.isDirectory()
+    ? (await fs.readdir(fixturePath))
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => path.join(fixturePath, file))
+    : [fixturePath];
+
+  const fixtures: LoadedWebhookFixture[] = [];
+  for (const file of files) {
+    const content = JSON.parse(await fs.readFile(file, 'utf8'));
+    fixtures.push(normalizeFixture(content, file));
+  }
+
+  return fixtures;
+};
+
+/**
+ * Replays fixtures in order through the processors and behavior engine
+ *
+ * The behavior registry is initialized with the recording client if it is not
+ * already running.
+ *
+ * @param fixtures Fixtures to replay
+ * @param linearClient Client that records mutations (in-memory or live reads)
+ * @returns One result per fixture
+ */
+export const replayWebhookFixtures = async (
+  fixtures: LoadedWebhookFixture[],
+  linearClient: RecordingLinearClient
+): Promise<FixtureReplayResult[]> => {
+  await ensureBehaviorRegistry(linearClient);
+
+  const results: FixtureReplayResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await replayWebhookFixture(fixture, linearClient));
+  }
+
+  return results;
+};
+
+/**
+ * Replays a single fixture
+ */
+export const replayWebhookFixture = async (
+  fixture: LoadedWebhookFixture,
+  linearClient: RecordingLinearClient
+): Promise<FixtureReplayResult> => {
+  const notifications: RecordedNotification[] = [];
+  const { type, action } = fixture.payload || {};
+
+  linearClient.resetRecordedMutations();
+  if (!linearClient.isLive()) {
+    linearClient.setData(fixture.linearData);
+  }
+
+  let error: string | undefined;
+  try {
+    if (fixture.route === BEHAVIOR_ROUTE) {
+      await processBehaviorEvent(fixture.payload);
+    } else {
+      await processWebhookEvent(fixture.payload, {
+        linearClient,
+        notificationCoordinator: createRecordingNotificationCoordinator(notifications)
+      });
+    }
+  } catch (replayError) {
+    error = (replayError as Error).message;
+    logger.warn('Fixture replay failed', { file: fixture.file, error });
+  }
+
+  return {
+    file: fixture.file,
+    route: fixture.route,
+    type,
+    action,
+    success: !error,
+    error,
+    comments: linearClient.getRecordedComments(),
+    mutations: linearClient.getRecordedMutations(),
+    notifications
+  };
+};
+
+/**
+ * Wraps raw payloads in a fixture envelope
+ */
+const normalizeFixture = (content: any, file: string): LoadedWebhookFixture => {
+  if (content && content.payload && typeof content.payload === 'object') {
+    return {
+      file,
+      capturedAt: content.capturedAt || '',
+      route: content.route || '/webhook',
+      headers: content.headers || {},
+      payload: content.payload,
+      linearData: content.linearData
+    };
+  }
+
+  return { file, capturedAt: '', route: '/webhook', headers: {}, payload: content };
+};
+
+/**
+ * Initializes the behavior registry with the recording client
+ */
+const ensureBehaviorRegistry = async (linearClient: RecordingLinearClient): Promise<void> => {
+  if (getGlobalRegistry()) {
+    return;
+  }
+
+  await initializeGlobalRegistry({
+    linearClient,
+    enabledBehaviors: {
+      storyMonitoring: process.env.ENABLE_STORY_MONITORING !== 'false',
+      artHealthMonitoring: process.env.ENABLE_ART_MONITORING !== 'false',
+      dependencyDetection: process.env.ENABLE_DEPENDENCY_DETECTION !== 'false',
+      workflowAutomation: process.env.ENABLE_WORKFLOW_AUTOMATION !== 'false',
+      periodicReporting: process.env.ENABLE_PERIODIC_REPORTING === 'true',
+      anomalyDetection: process.env.ENABLE_ANOMALY_DETECTION === 'true'
+    }
+  });
+};
+
+/**
+ * Creates a notification coordinator stand-in that records Slack notifications
+ */
+const createRecordingNotificationCoordinator = (
+  notifications: RecordedNotification[]
+): OperationalNotificationCoordinator => {
+  const record = (method: string) => async (...args: any[]) => {
+    notifications.push({ method, args });
+    return true;
+  };
+
+  return {
+    notifyAgentUpdate: record('notifyAgentUpdate'),
+    notifyWorkflowUpdate: record('notifyWorkflowUpdate'),
+    notifyPlanningCompletion: record('notifyPlanningCompletion'),
+    notifySyncStatus: record('notifySyncStatus')
+  } as unknown as OperationalNotificationCoordinator;
+};
@@ -1,34 +1,46 @@
 import { Request, Response } from 'express';
 import { verifyWebhookSignature } from './verification';
+import { RawBodyRequest } from './raw-body';
 import { OperationalNotificationCoordinator } from '../utils/operational-notification-coordinator';
 import { LinearClientWrapper } from '../linear/client';
+import {
+  getLinearClientForOrganization,
+  getDefaultLinearClient,
+  resolveOrganizationId,
+  UnknownOrganizationError
+} from '../linear/organization-clients';
 import { 
   IssueMentionProcessor, 
   IssueCommentMentionProcessor,
   IssueAssignmentProcessor,
   IssueStatusChangeProcessor,
   IssueReactionProcessor,
-  IssueNewCommentProcessor
+  IssueNewCommentProcessor,
+  CycleProcessor,
+  ProjectProcessor,
+  ProjectUpdateProcessor
 } from './processors';
 import * as logger from '../utils/logger';
 import { getGlobalRegistry } from '../agent/behavior-registry';
-import { processBehaviorWebhook } from '../agent/webhook-integration';
+import { processBehaviorEvent } from '../agent/webhook-integration';
+import { getWebhookQueue } from './queue';
+import { processOnce } from './deduplication';
 
 /**
  * Handles incoming webhook events from Linear
+ *
+ * Retried deliveries are detected and acknowledged without reprocessing.
+ * When the webhook event queue is running, events are persisted and
+ * acknowledged immediately; the queue worker processes them asynchronously.
+ * Otherwise (or if the event cannot be persisted) events are processed inline.
  */
 export const handleWebhook = async (req: Request, res: Response) => {
   try {
-    // Initialize operational notification coordinator
-    const coordinatorConfig = OperationalNotificationCoordinator.createDefaultConfig(
-      (process.env.NODE_ENV as 'development' | 'staging' | 'production') || 'development'
-    );
-    const notificationCoordinator = OperationalNotificationCoordinator.getInstance(coordinatorConfig);
-
     // Verify the webhook signature
     const isValid = verifyWebhookSignature(
       req.headers['linear-signature'] as string,
-      req.body
+      req.body,
+      (req as RawBodyRequest).rawBody
     );
 
     if (!isValid) {
@@ -36,54 +48,36 @@ export const handleWebhook = async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Invalid signature' });
     }
 
-    // Process the webhook event
-    const { type, action, data } = req.body;
+    const { type, action } = req.body;
 
     logger.info(`Received webhook: ${type} - ${action}`, { type, action });
 
-    // Handle different event types
-    switch (type) {
-      case 'AppUserNotification':
-        // Process app user notifications
-        await processAppUserNotification(req.body, notificationCoordinator);
-        break;
+    const deliveryId = req.headers['linear-delivery'] as string | undefined;
 
-      case 'Issue':
-      case 'Comment':
-      case 'IssueLabel':
-        // Check if behavior registry is initialized
-        const registry = getGlobalRegistry();
-        if (registry) {
-          try {
-            // Process through behavior system
-            await processBehaviorWebhook(req, res);
-            return; // processBehaviorWebhook handles the response
-          } catch (error) {
-            logger.error('Error processing behavior webhook:', error);
-            // Fall through to default response
-          }
-        } else {
-          logger.debug(`Behavior system not initialized, skipping ${type} event`);
-        }
-        break;
+    // Process each delivery once; Linear retries deliveries it considers failed
+    const { duplicate, result } = await processOnce(deliveryId, req.body, () =>
+      dispatchWebhook(req.body, deliveryId)
+    );
 
-      default:
-        logger.info(`Unhandled webhook type: ${type}`, { type, action });
+    if (duplicate) {
+      return res.status(200).json({ success: true, duplicate: true });
     }
 
     // Respond with success
-    res.status(200).json({ success: true });
+    res.status(200).json(result);
   } catch (error) {
+    if (error instanceof UnknownOrganizationError) {
+      logger.warn('Rejected webhook for unknown organization', {
+        organizationId: error.organizationId
+      });
+      return res.status(403).json({ error: 'Unknown organization' });
+    }
+
     logger.error('Error handling webhook:', error);
 
     // Try to send workflow notification for webhook processing error
     try {
-      const coordinatorConfig = OperationalNotificationCoordinator.createDefaultConfig(
-        (process.env.NODE_ENV as 'development' | 'staging' | 'production') || 'development'
-      );
-      const notificationCoordinator = OperationalNotificationCoordinator.getInstance(coordinatorConfig);
-
-      await notificationCoordinator.notifyWorkflowUpdate(
+      await getNotificationCoordinator().notifyWorkflowUpdate(
         'build',
         'Webhook Processing Error',
         `Error processing webhook: ${(error as Error).message}`,
@@ -100,24 +94,146 @@ export const handleWebhook = async (req: Request, res: Response) => {
 };
 
 /**
- * Process AppUserNotification events
+ * Enqueues a webhook payload, or processes it inline if the queue is unavailable
+ *
+ * @returns Response body for the webhook request
  */
-const processAppUserNotification = async (payload: any, notificationCoordinator: OperationalNotificationCoordinator) => {
-  const { action, notification } = payload;
+const dispatchWebhook = async (payload: any, deliveryId?: string): Promise<Record<string, any>> => {
+  // Persist the event and acknowledge immediately if the queue is running
+  const queue = getWebhookQueue();
+  if (queue) {
+    // Queued events are acknowledged before processing, so unknown organizations are rejected here
+    if (payload.type === 'AppUserNotification') {
+      await getLinearClientForPayload(payload);
+    }
 
-  logger.info(`Processing notification: ${action}`, { action, notification });
+    try {
+      const event = await queue.enqueue(payload, deliveryId);
+      return { success: true, queued: true, eventId: event.id };
+    } catch (error) {
+      logger.error('Failed to enqueue webhook event, processing inline', {
+        error: (error as Error).message,
+        type: payload.type,
+        action: payload.action
+      });
+    }
+  }
 
-  // Get Linear client from environment
-  const accessToken = process.env.LINEAR_ACCESS_TOKEN;
-  const organizationId = process.env.LINEAR_ORGANIZATION_ID;
+  await processWebhookEvent(payload);
+  return { success: true };
+};
 
-  if (!accessToken || !organizationId) {
-    logger.error('Missing Linear credentials in environment');
-    throw new Error('Linear credentials not configured');
+/**
+ * Overrides used when processing a webhook payload
+ */
+export interface WebhookProcessingOptions {
+  /** Linear client to use instead of the organization's client */
+  linearClient?: LinearClientWrapper;
+  /** Notification coordinator to use instead of the environment default */
+  notificationCoordinator?: OperationalNotificationCoordinator;
+}
+
+/**
+ * Processes a webhook payload
+ *
+ * Shared by the HTTP handler, the webhook event queue worker and replay
+ * tooling. Errors are propagated so callers can retry or dead-letter the event.
+ *
+ * @param payload The webhook payload
+ * @param options Client and coordinator overrides (used by fixture replay)
+ */
+export const processWebhookEvent = async (
+  payload: any,
+  options: WebhookProcessingOptions = {}
+): Promise<void> => {
+  const { type, action } = payload;
+
+  // Handle different event types
+  switch (type) {
+    case 'AppUserNotification':
+      // Process app user notifications
+      await processAppUserNotification(
+        payload,
+        options.notificationCoordinator || getNotificationCoordinator(),
+        options.linearClient
+      );
+      break;
+
+    case 'Issue':
+    case 'Comment':
+    case 'IssueLabel':
+      // Check if behavior registry is initialized
+      if (getGlobalRegistry()) {
+        // Process through behavior system
+        await processBehaviorEvent(payload);
+      } else {
+        logger.debug(`Behavior system not initialized, skipping ${type} event`);
+      }
+      break;
+
+    case 'Cycle':
+    case 'Project':
+    case 'ProjectUpdate':
+      // Lifecycle events raise dedicated behavior triggers
+      await processEntityEvent(payload);
+      break;
+
+    default:
+      logger.info(`Unhandled webhook type: ${type}`, { type, action });
+  }
+};
+
+/**
+ * Process Cycle, Project and ProjectUpdate events
+ */
+const processEntityEvent = async (payload: any) => {
+  const registry = getGlobalRegistry();
+  if (!registry) {
+    logger.debug(`Behavior system not initialized, skipping ${payload.type} event`);
+    return;
+  }
+
+  const engine = registry.getEngine();
+
+  switch (payload.type) {
+    case 'Cycle':
+      await new CycleProcessor(engine).process(payload);
+      break;
+
+    case 'Project':
+      await new ProjectProcessor(engine).process(payload);
+      break;
+
+    case 'ProjectUpdate':
+      await new ProjectUpdateProcessor(engine).process(payload);
+      break;
   }
+};
+
+/**
+ * Gets the operational notification coordinator for the current environment
+ */
+const getNotificationCoordinator = (): OperationalNotificationCoordinator => {
+  const coordinatorConfig = OperationalNotificationCoordinator.createDefaultConfig(
+    (process.env.NODE_ENV as 'development' | 'staging' | 'production') || 'development'
+  );
+  return OperationalNotificationCoordinator.getInstance(coordinatorConfig);
+};
+
+/**
+ * Process AppUserNotification events
+ */
+const processAppUserNotification = async (
+  payload: any,
+  notificationCoordinator: OperationalNotificationCoordinator,
+  clientOverride?: LinearClientWrapper
+) => {
+  const { action, notification } = payload;
+
+  logger.info(`Processing notification: ${action}`, { action, notification });
 
-  // Create Linear client wrapper
-  const linearClient = new LinearClientWrapper(accessToken, organizationId);
+  // Route to the organization's credentials
+  const linearClient = clientOverride || await getLinearClientForPayload(payload);
 
   // Handle different notification types with processors
   try {
@@ -190,3 +306,25 @@ const processAppUserNotification = async (payload: any, notificationCoordinator:
     throw error;
   }
 };
+
+/**
+ * Gets the Linear client for the organization a payload belongs to
+ *
+ * Payloads without an organization ID use the environment credentials.
+ */
+const getLinearClientForPayload = async (payload: any): Promise<LinearClientWrapper> => {
+  const organizationId = resolveOrganizationId(payload);
+
+  if (organizationId) {
+    return getLinearClientForOrganization(organizationId);
+  }
+
+  const linearClient = getDefaultLinearClient();
+
+  if (!linearClient) {
+    logger.error('Missing Linear credentials in environment');
+    throw new Error('Linear credentials not configured');
+  }
+
+  return linearClient;
+};
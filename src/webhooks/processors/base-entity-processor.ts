@@ -0,0 +1,114 @@
+/**
+ * Base Entity Processor
+ * 
+ * Abstract base class for processors of Linear data-change webhooks
+ * (Cycle, Project, ProjectUpdate). These processors detect lifecycle
+ * transitions in the payload and raise behavior triggers for them.
+ */
+
+import { AutonomousBehaviorEngine } from '../../agent/autonomous-engine';
+import {
+  BehaviorContext,
+  BehaviorResult,
+  BehaviorTrigger,
+  BehaviorTriggerType
+} from '../../agent/types/autonomous-types';
+import * as logger from '../../utils/logger';
+
+/**
+ * Data-change webhook payload structure from Linear
+ */
+export interface EntityWebhookPayload {
+  action: 'create' | 'update' | 'remove';
+  type: string;
+  data: any;
+  /** Previous values of the fields changed by an update */
+  updatedFrom?: Record<string, any>;
+  url?: string;
+  createdAt?: string;
+  organizationId?: string;
+}
+
+/**
+ * Abstract base class for data-change webhook processors
+ */
+export abstract class BaseEntityProcessor {
+  protected engine: AutonomousBehaviorEngine;
+
+  constructor(engine: AutonomousBehaviorEngine) {
+    this.engine = engine;
+  }
+
+  /**
+   * Process the webhook payload
+   * 
+   * @param payload The data-change payload from Linear
+   * @returns Results of the behaviors that ran
+   */
+  abstract process(payload: EntityWebhookPayload): Promise<BehaviorResult[]>;
+
+  /**
+   * Raises a behavior trigger for a lifecycle transition
+   * 
+   * @param type The lifecycle trigger type
+   * @param context Behavior context for the transition
+   * @param payload The originating webhook payload
+   */
+  protected async dispatchTrigger(
+    type: BehaviorTriggerType,
+    context: Omit<BehaviorContext, 'timestamp' | 'triggerType'>,
+    payload: EntityWebhookPayload
+  ): Promise<BehaviorResult[]> {
+    const trigger: BehaviorTrigger = {
+      id: `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      payload,
+      context: {
+        ...context,
+        triggerType: type,
+        timestamp: new Date(),
+        metadata: {
+          ...context.metadata,
+          webhookType: payload.type,
+          webhookAction: payload.action
+        }
+      },
+      timestamp: new Date(payload.createdAt || Date.now())
+    };
+
+    logger.info('Dispatching lifecycle trigger', {
+      triggerId: trigger.id,
+      type,
+      teamId: context.team?.id
+    });
+
+    return this.engine.processTrigger(trigger);
+  }
+
+  /**
+   * Checks whether an update changed one of the given fields
+   * 
+   * @param payload The data-change payload from Linear
+   * @param fields Field names to check in `updatedFrom`
+   */
+  protected fieldChanged(payload: EntityWebhookPayload, ...fields: string[]): boolean {
+    return payload.action === 'update' &&
+      !!payload.updatedFrom &&
+      fields.some(field => field in payload.updatedFrom!);
+  }
+
+  /**
+   * Builds the team context from a payload's team data
+   * 
+   * @param data The entity data from the payload
+   */
+  protected extractTeam(data: any): BehaviorContext['team'] | undefined {
+    const team = data?.team || data?.teams?.[0];
+    if (team?.id) {
+      return { id: team.id, name: team.name || '', key: team.key || '' };
+    }
+
+    const teamId = data?.teamId || data?.teamIds?.[0];
+    return teamId ? { id: teamId, name: '', key: '' } : undefined;
+  }
+}
@@ -7,6 +7,12 @@
 
 import { LinearClientWrapper } from '../../linear/client';
 import { OperationalNotificationCoordinator } from '../../utils/operational-notification-coordinator';
+import { ClarificationManager, CommandThread, getClarificationTtl } from '../../agent/clarification-manager';
+import { ChainStepResult, CLIExecutor, ExecutionResult } from '../../agent/cli-executor';
+import { ChangePlan, CommandConfirmationManager, PlannedChange, requiresConfirmation } from '../../agent/command-confirmation';
+import { CommandJobManager, isJobIntent } from '../../agent/command-jobs';
+import { createCommandParser } from '../../agent/patterns/custom-patterns';
+import { IssueContext, ParsedCommand } from '../../agent/types/command-types';
 import * as logger from '../../utils/logger';
 
 /**
@@ -65,10 +71,17 @@ export interface AppUserNotification {
       createdAt: string;
       updatedAt?: string;
       url?: string;
+      /** Root comment of the thread when this comment is a reply */
+      parentId?: string;
     };
+    /** Emoji of a reaction notification */
+    reactionEmoji?: string;
   };
 }
 
+/** Appended to dry runs of commands that change Linear */
+const DRY_RUN_NOTE = '\n\n_Dry run: nothing will be changed in Linear._';
+
 /**
  * Abstract base class for webhook event processors
  */
@@ -111,6 +124,31 @@ export abstract class BaseWebhookProcessor {
     }
   }
 
+  /**
+   * Replies to a comment thread on an issue
+   * 
+   * @param issueId The Linear issue ID
+   * @param parentId The root comment of the thread
+   * @param body The comment body (supports markdown)
+   * @returns The ID of the reply, if Linear returned it
+   */
+  protected async createLinearReply(issueId: string, parentId: string, body: string): Promise<string | undefined> {
+    try {
+      const payload = await this.linearClient.createComment(issueId, body, parentId);
+      const reply = await payload?.comment;
+      
+      logger.info('Created Linear reply', { issueId, parentId, bodyLength: body.length });
+      return reply?.id;
+    } catch (error) {
+      logger.error('Failed to create Linear reply', { 
+        error: (error as Error).message, 
+        issueId,
+        parentId
+      });
+      throw error;
+    }
+  }
+
   /**
    * Sends a notification to Slack via the operational notification coordinator
    * 
@@ -160,4 +198,273 @@ export abstract class BaseWebhookProcessor {
     return match ? match[1].trim() : null;
   }
 
+  /**
+   * Continues or starts a clarification dialog in a comment thread
+   * 
+   * Runs complete commands right away. Asks a follow-up question when a
+   * command is missing a parameter and runs the command once a reply in the
+   * same thread completes it. Chained commands run in order and get one
+   * combined reply; chains with job commands are refused. Replies go to the
+   * comment's thread.
+   * 
+   * @param issue The Linear issue
+   * @param comment The comment
+   * @param actor User who wrote the comment; their permissions apply to the command
+   * @param text The command text
+   * @param mentioned Whether the comment mentions the agent; plain replies only continue a pending command
+   * @param organizationId Organization whose custom command patterns apply
+   * @returns Whether the comment was handled by the dialog
+   */
+  protected async handleCommandDialog(
+    issue: NonNullable<AppUserNotification['notification']['issue']>,
+    comment: NonNullable<AppUserNotification['notification']['comment']>,
+    actor: AppUserNotification['notification']['actor'],
+    text: string,
+    mentioned: boolean,
+    organizationId?: string
+  ): Promise<boolean> {
+    const thread: CommandThread = {
+      issueId: issue.id,
+      threadId: comment.parentId || comment.id
+    };
+
+    let outcome;
+    try {
+      const clarificationManager = new ClarificationManager(
+        this.linearClient,
+        mentioned ? await createCommandParser(organizationId) : undefined
+      );
+      outcome = mentioned
+        ? await clarificationManager.handleComment(text, thread, this.buildIssueContext(issue))
+        : await clarificationManager.handleReply(text, thread);
+    } catch (error) {
+      // Without dialog state the comment is handled as before
+      logger.warn('Clarification dialog unavailable', {
+        error: (error as Error).message,
+        issueId: issue.id,
+        threadId: thread.threadId
+      });
+      return false;
+    }
+
+    if (outcome.status === 'none') {
+      return false;
+    }
+
+    if (outcome.status === 'clarify') {
+      const minutes = Math.round(getClarificationTtl() / 60000);
+      let body = `❓ ${outcome.question}\n\n`;
+      body += `_Reply in this thread to continue. I'll hold this request for ${minutes} minutes._`;
+      await this.createLinearReply(issue.id, thread.threadId, body);
+    } else if (outcome.status === 'reply') {
+      await this.createLinearReply(issue.id, thread.threadId, outcome.message);
+    } else if (outcome.status === 'chain') {
+      const requester = actor ? { id: actor.id, name: actor.name, email: actor.email } : undefined;
+      const jobStep = outcome.commands.find(command => isJobIntent(command.intent));
+      if (jobStep) {
+        await this.createLinearReply(issue.id, thread.threadId,
+          `⏳ **${jobStep.rawText}** runs as a background job, so it can't be part of a command chain. ` +
+          `Mention me with it on its own, then with the other steps.`);
+      } else {
+        await this.runDialogChain(thread, outcome.commands.map(command => ({ ...command, requester })));
+      }
+    } else {
+      await this.runDialogCommand(issue, thread, {
+        ...outcome.command,
+        requester: actor ? { id: actor.id, name: actor.name, email: actor.email } : undefined
+      });
+    }
+
+    logger.info('Handled command dialog comment', {
+      issueId: issue.id,
+      threadId: thread.threadId,
+      status: outcome.status
+    });
+
+    return true;
+  }
+
+  /**
+   * Runs a complete command from a comment or dialog and replies with its result
+   * 
+   * Commands that change Linear reply with a preview of their changes
+   * instead; the changes are applied when the preview is confirmed. Dry runs
+   * (`--dry-run`) only reply with the result. Long-running commands run as
+   * jobs whose progress comment is replaced by the result or preview.
+   */
+  private async runDialogCommand(
+    issue: NonNullable<AppUserNotification['notification']['issue']>,
+    thread: CommandThread,
+    command: ParsedCommand
+  ): Promise<void> {
+    const executor = new CLIExecutor(this.linearClient);
+
+    if (isJobIntent(command.intent)) {
+      const job = await new CommandJobManager(this.linearClient, executor).start(
+        command,
+        thread,
+        async (result, commentId) => {
+          const { body, changes } = await this.presentDialogResult(executor, command, result);
+          if (changes.length > 0) {
+            await this.savePreview(issue, thread, command, commentId, changes);
+          }
+          return body;
+        }
+      );
+
+      logger.info('Started command job', { issueId: issue.id, jobId: job.id, intent: command.intent });
+      return;
+    }
+
+    if (!requiresConfirmation(command.intent) || command.parameters?.dryRun) {
+      const response = await executor.executeAndFormat(command);
+      const note = requiresConfirmation(command.intent) ? DRY_RUN_NOTE : '';
+      await this.createLinearReply(issue.id, thread.threadId, response.message + note);
+      return;
+    }
+
+    const result = await executor.execute(command);
+    const { body, changes } = await this.presentDialogResult(executor, command, result);
+    const replyId = await this.createLinearReply(issue.id, thread.threadId, body);
+
+    if (changes.length === 0) {
+      return;
+    }
+    if (!replyId) {
+      logger.error('Preview comment has no ID; changes cannot be confirmed', { issueId: issue.id, intent: command.intent });
+      return;
+    }
+
+    await this.savePreview(issue, thread, command, replyId, changes);
+  }
+
+  /**
+   * Runs chained commands from a comment and replies once with their results
+   * 
+   * The chain waits at a step whose changes need confirmation: the reply ends
+   * with the step's preview, and the remaining steps are kept with it to run
+   * once the changes are applied. Dry runs do not wait.
+   * 
+   * @param thread Thread to reply in
+   * @param commands Commands to run, in order
+   * @param previous Step run before these commands, such as an applied preview
+   */
+  protected async runDialogChain(
+    thread: CommandThread,
+    commands: ParsedCommand[],
+    previous?: ChainStepResult
+  ): Promise<void> {
+    const executor = new CLIExecutor(this.linearClient);
+    const chain = await executor.executeChain(commands, {
+      previous,
+      pauseAfter: command => requiresConfirmation(command.intent) && !command.parameters?.dryRun
+    });
+
+    const paused = chain.steps.find(step => step.step === chain.pausedStep);
+    if (!paused) {
+      await this.createLinearReply(thread.issueId, thread.threadId, executor.formatChain(chain).message);
+      return;
+    }
+
+    const confirmationManager = new CommandConfirmationManager(this.linearClient);
+    const plan: ChangePlan = { changes: [], warnings: [] };
+    for (const result of paused.results) {
+      const stepPlan = await confirmationManager.planChanges(paused.command, result);
+      plan.changes.push(...stepPlan.changes);
+      plan.warnings.push(...stepPlan.warnings);
+    }
+
+    if (plan.changes.length === 0) {
+      // Nothing to confirm, so nothing was created for the remaining steps to use
+      const stopped = { ...chain, pausedStep: undefined, pending: [], skipped: chain.pending };
+      await this.createLinearReply(thread.issueId, thread.threadId, executor.formatChain(stopped).message);
+      return;
+    }
+
+    const command: ParsedCommand = {
+      ...paused.command,
+      metadata: {
+        ...paused.command.metadata,
+        continuation: chain.pending.length > 0 ? { step: paused.step, commands: chain.pending } : undefined
+      }
+    };
+    const body = `${executor.formatChain(chain).message}\n\n${confirmationManager.formatPreview(command, plan)}`;
+    const replyId = await this.createLinearReply(thread.issueId, thread.threadId, body);
+
+    if (!replyId) {
+      logger.error('Preview comment has no ID; changes cannot be confirmed', { issueId: thread.issueId, intent: command.intent });
+      return;
+    }
+
+    await confirmationManager.savePreview(replyId, thread.threadId, command, plan.changes);
+
+    logger.info('Posted command chain preview', {
+      issueId: thread.issueId,
+      previewId: replyId,
+      step: paused.step,
+      pending: chain.pending.length
+    });
+  }
+
+  /**
+   * Formats the result of a dialog command, or the preview of the changes it proposes
+   */
+  private async presentDialogResult(
+    executor: CLIExecutor,
+    command: ParsedCommand,
+    result: ExecutionResult
+  ): Promise<{ body: string; changes: PlannedChange[] }> {
+    if (!requiresConfirmation(command.intent) || command.parameters?.dryRun) {
+      const note = requiresConfirmation(command.intent) ? DRY_RUN_NOTE : '';
+      return { body: executor.format(result, command).message + note, changes: [] };
+    }
+
+    const confirmationManager = new CommandConfirmationManager(this.linearClient);
+    const plan = await confirmationManager.planChanges(command, result);
+
+    return plan.changes.length === 0
+      ? { body: executor.format(result, command).message, changes: [] }
+      : { body: confirmationManager.formatPreview(command, plan), changes: plan.changes };
+  }
+
+  /**
+   * Keeps the proposed changes with their preview comment until they are confirmed
+   */
+  private async savePreview(
+    issue: NonNullable<AppUserNotification['notification']['issue']>,
+    thread: CommandThread,
+    command: ParsedCommand,
+    previewId: string,
+    changes: PlannedChange[]
+  ): Promise<void> {
+    await new CommandConfirmationManager(this.linearClient).savePreview(previewId, thread.threadId, command, changes);
+
+    logger.info('Posted command preview', {
+      issueId: issue.id,
+      previewId,
+      intent: command.intent,
+      changes: changes.length
+    });
+  }
+
+  /**
+   * Builds the command context for an issue
+   */
+  private buildIssueContext(issue: NonNullable<AppUserNotification['notification']['issue']>): IssueContext {
+    return {
+      issueId: issue.id,
+      issueIdentifier: issue.identifier,
+      issueTitle: issue.title,
+      teamId: issue.team?.id || '',
+      teamKey: issue.team?.key,
+      teamName: issue.team?.name,
+      labels: [],
+      state: issue.state?.name,
+      assigneeId: issue.assignee?.id,
+      assigneeName: issue.assignee?.name,
+      priority: issue.priority?.value,
+      estimate: issue.estimate?.value
+    };
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,220 @@
+/**
+ * Cycle Processor
+ * 
+ * Handles Cycle data-change webhooks. Raises CYCLE_STARTED when a cycle
+ * becomes active and CYCLE_COMPLETED when a cycle is completed, so
+ * behaviors can kick off iteration health checks and summaries.
+ *
+ * Linear sends no webhook when a cycle starts on schedule, so started cycles
+ * are also checked for periodically. Each start is recorded and raised once.
+ */
+
+import { BaseEntityProcessor, EntityWebhookPayload } from './base-entity-processor';
+import { AutonomousBehaviorEngine } from '../../agent/autonomous-engine';
+import { BehaviorResult, BehaviorTriggerType } from '../../agent/types/autonomous-types';
+import { LinearClientWrapper } from '../../linear/client';
+import { recordCycleStart } from '../../db/models';
+import * as logger from '../../utils/logger';
+
+/** Cycles that started longer ago than this are not announced by the check */
+const MAX_START_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Processor for handling cycle lifecycle events
+ */
+export class CycleProcessor extends BaseEntityProcessor {
+  /**
+   * Process a cycle webhook
+   * 
+   * @param payload The Cycle payload from Linear
+   */
+  async process(payload: EntityWebhookPayload): Promise<BehaviorResult[]> {
+    const cycle = payload.data;
+
+    if (!cycle?.id) {
+      logger.warn('Cycle webhook missing cycle data');
+      return [];
+    }
+
+    const triggerType = this.detectTransition(payload);
+
+    if (!triggerType) {
+      logger.debug('Cycle webhook is not a lifecycle transition', {
+        cycleId: cycle.id,
+        action: payload.action
+      });
+      return [];
+    }
+
+    if (triggerType === BehaviorTriggerType.CYCLE_STARTED && !(await this.claimStart(cycle, 'webhook'))) {
+      return [];
+    }
+
+    logger.info('Processing cycle transition', {
+      cycleId: cycle.id,
+      cycleNumber: cycle.number,
+      transition: triggerType
+    });
+
+    return this.dispatchCycleTrigger(triggerType, payload);
+  }
+
+  /**
+   * Raises CYCLE_STARTED for cycles that started on schedule
+   *
+   * Cycles whose start was already handled, or that started more than a day
+   * ago, are skipped.
+   *
+   * @param linearClient Client used to list teams and their cycles
+   * @returns Results of the behaviors that ran
+   */
+  async checkStartedCycles(linearClient: LinearClientWrapper): Promise<BehaviorResult[]> {
+    const teams = await linearClient.getTeams();
+    const results: BehaviorResult[] = [];
+
+    for (const team of teams?.nodes || []) {
+      try {
+        const cycles = await linearClient.getTeamCycles(team.id);
+
+        for (const cycle of cycles?.nodes || []) {
+          const startsAt = Date.parse(cycle.startsAt);
+          if (cycle.completedAt || !this.isActive(cycle) || Date.now() - startsAt > MAX_START_DELAY_MS) {
+            continue;
+          }
+
+          const data = { ...cycle, team: { id: team.id, name: team.name, key: team.key } };
+          if (!(await this.claimStart(data, 'schedule'))) {
+            continue;
+          }
+
+          logger.info('Processing scheduled cycle start', { cycleId: cycle.id, teamId: team.id });
+
+          results.push(...await this.dispatchCycleTrigger(BehaviorTriggerType.CYCLE_STARTED, {
+            action: 'update',
+            type: 'Cycle',
+            data
+          }));
+        }
+      } catch (error) {
+        logger.error('Failed to check team cycles for starts', {
+          teamId: team.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Raises a cycle lifecycle trigger
+   */
+  private dispatchCycleTrigger(
+    triggerType: BehaviorTriggerType,
+    payload: EntityWebhookPayload
+  ): Promise<BehaviorResult[]> {
+    const cycle = payload.data;
+
+    return this.dispatchTrigger(
+      triggerType,
+      {
+        team: this.extractTeam(cycle),
+        currentIteration: cycle.id,
+        metadata: {
+          cycle: {
+            id: cycle.id,
+            number: cycle.number,
+            name: cycle.name,
+            startsAt: cycle.startsAt,
+            endsAt: cycle.endsAt,
+            completedAt: cycle.completedAt,
+            progress: cycle.progress
+          }
+        }
+      },
+      payload
+    );
+  }
+
+  /**
+   * Detects whether the payload starts or completes a cycle
+   * 
+   * @param payload The Cycle payload from Linear
+   */
+  private detectTransition(payload: EntityWebhookPayload): BehaviorTriggerType | null {
+    const { action, data, updatedFrom } = payload;
+
+    // Completed: completedAt set by this update
+    if (this.fieldChanged(payload, 'completedAt') && data.completedAt && !updatedFrom!.completedAt) {
+      return BehaviorTriggerType.CYCLE_COMPLETED;
+    }
+
+    if (data.completedAt || !this.isActive(data)) {
+      return null;
+    }
+
+    // Started: created already active, or rescheduled to start now
+    if (action === 'create') {
+      return BehaviorTriggerType.CYCLE_STARTED;
+    }
+
+    if (this.fieldChanged(payload, 'startsAt') && Date.parse(updatedFrom!.startsAt) > Date.now()) {
+      return BehaviorTriggerType.CYCLE_STARTED;
+    }
+
+    return null;
+  }
+
+  /**
+   * Records a cycle's start, returning false if it was already handled
+   *
+   * The start is still raised if it cannot be recorded.
+   */
+  private async claimStart(cycle: any, source: 'webhook' | 'schedule'): Promise<boolean> {
+    try {
+      const claimed = await recordCycleStart(cycle.id, this.extractTeam(cycle)?.id, source);
+      if (!claimed) {
+        logger.debug('Cycle start already handled', { cycleId: cycle.id, source });
+      }
+      return claimed;
+    } catch (error) {
+      logger.warn('Could not record cycle start', {
+        cycleId: cycle.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Checks whether a cycle is currently running
+   */
+  private isActive(cycle: any): boolean {
+    const now = Date.now();
+    const startsAt = Date.parse(cycle.startsAt);
+    const endsAt = Date.parse(cycle.endsAt);
+
+    return !isNaN(startsAt) && startsAt <= now && (isNaN(endsAt) || now < endsAt);
+  }
+}
+
+/**
+ * Checks for cycles that started on schedule now and then every interval
+ *
+ * @returns Interval handle to clear on shutdown
+ */
+export function startCycleStartChecks(
+  engine: AutonomousBehaviorEngine,
+  linearClient: LinearClientWrapper,
+  intervalMs: number = 15 * 60 * 1000
+): NodeJS.Timeout {
+  const processor = new CycleProcessor(engine);
+  const run = () => {
+    processor.checkStartedCycles(linearClient).catch(error => {
+      logger.error('Cycle start check failed', { error: (error as Error).message });
+    });
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+}
@@ -10,4 +10,8 @@ export { IssueCommentMentionProcessor } from './issue-comment-mention.processor'
 export { IssueAssignmentProcessor } from './issue-assignment.processor';
 export { IssueStatusChangeProcessor } from './issue-status-change.processor';
 export { IssueReactionProcessor } from './issue-reaction.processor';
-export { IssueNewCommentProcessor } from './issue-new-comment.processor';
\ No newline at end of file
+export { IssueNewCommentProcessor } from './issue-new-comment.processor';
+export { BaseEntityProcessor, EntityWebhookPayload } from './base-entity-processor';
+export { CycleProcessor, startCycleStartChecks } from './cycle.processor';
+export { ProjectProcessor } from './project.processor';
+export { ProjectUpdateProcessor } from './project-update.processor';
@@ -6,6 +6,7 @@
  */
 
 import { BaseWebhookProcessor, AppUserNotification } from './base-processor';
+import { resolveOrganizationId } from '../../linear/organization-clients';
 import * as logger from '../../utils/logger';
 
 /**
@@ -36,20 +37,32 @@ export class IssueCommentMentionProcessor extends BaseWebhookProcessor {
       // Extract mention text from comment body
       const mentionText = this.extractMentionText(comment.body);
 
-      // Analyze conversation context
-      const context = await this.analyzeConversationContext(issue, comment);
-
-      // Generate appropriate response based on context and mention
-      const response = this.generateContextAwareResponse(
-        actor?.name || 'there',
+      // Answer a pending question or ask for missing command parameters in the thread
+      const handledByDialog = !!mentionText && await this.handleCommandDialog(
         issue,
         comment,
+        actor,
         mentionText,
-        context
+        true,
+        resolveOrganizationId(notification)
       );
 
-      // Send response to Linear as a comment
-      await this.createLinearComment(issue.id, response);
+      if (!handledByDialog) {
+        // Analyze conversation context
+        const context = await this.analyzeConversationContext(issue, comment);
+
+        // Generate appropriate response based on context and mention
+        const response = this.generateContextAwareResponse(
+          actor?.name || 'there',
+          issue,
+          comment,
+          mentionText,
+          context
+        );
+
+        // Send response to Linear as a comment
+        await this.createLinearComment(issue.id, response);
+      }
 
       // Send notification to Slack
       await this.notifySlack(
@@ -63,7 +76,7 @@ export class IssueCommentMentionProcessor extends BaseWebhookProcessor {
       logger.info('Successfully processed comment mention', {
         issueId: issue.id,
         commentId: comment.id,
-        responseLength: response.length
+        handledByDialog
       });
     } catch (error) {
       logger.error('Failed to process comment mention', {
@@ -259,11 +272,11 @@ export class IssueCommentMentionProcessor extends BaseWebhookProcessor {
     help += `• \`@saafepulse help\` - Show this help message\n`;
     help += `• \`@saafepulse status\` - Get current issue status\n`;
     help += `• \`@saafepulse update\` - Show progress information\n\n`;
-    help += `**Coming Soon:**\n`;
-    help += `• \`@saafepulse plan this\` - Create implementation plan\n`;
-    help += `• \`@saafepulse decompose\` - Break down into subtasks\n`;
-    help += `• \`@saafepulse analyze dependencies\` - Map relationships\n`;
-    help += `• \`@saafepulse estimate\` - Provide effort estimates\n\n`;
+    help += `**Planning Commands:**\n`;
+    help += `• \`@saafepulse decompose this story\` - Preview sub-stories to create\n`;
+    help += `• \`@saafepulse map dependencies\` - Map relationships\n`;
+    help += `• \`@saafepulse check capacity for <team>\` - Compare capacity with planned work\n`;
+    help += `• \`@saafepulse plan this PI\` - Preview cycle assignments\n\n`;
     
     return help;
   }
@@ -43,6 +43,16 @@ export class IssueNewCommentProcessor extends BaseWebhookProcessor {
     });
 
     try {
+      // A plain reply can answer the agent's question in this thread
+      if (comment.parentId && !comment.body?.toLowerCase().includes('@saafepulse') &&
+          await this.handleCommandDialog(issue, comment, actor, comment.body, false)) {
+        logger.info('Comment answered a pending command', {
+          issueId: issue.id,
+          commentId: comment.id
+        });
+        return;
+      }
+
       // Determine if we should respond to this comment
       const shouldRespond = await this.shouldRespondToComment(
         issue,
@@ -2,10 +2,15 @@
  * Issue Reaction Processor
  * 
  * Handles webhook events for emoji reactions on issues and comments.
- * Provides engagement tracking and acknowledgment.
+ * Provides engagement tracking and acknowledgment, and applies or discards
+ * command previews confirmed by reaction, continuing any command chain
+ * that waited for them.
  */
 
 import { BaseWebhookProcessor, AppUserNotification } from './base-processor';
+import { ChainStepResult } from '../../agent/cli-executor';
+import { ChangeOutcome, CommandConfirmationManager } from '../../agent/command-confirmation';
+import { ParsedCommand } from '../../agent/types/command-types';
 import * as logger from '../../utils/logger';
 
 /**
@@ -35,6 +40,12 @@ export class IssueReactionProcessor extends BaseWebhookProcessor {
     });
 
     try {
+      // Reactions on a command preview apply or discard its changes
+      if (isCommentReaction && comment &&
+          await this.handlePreviewReaction(issue, comment, notification.notification.reactionEmoji, actor)) {
+        return;
+      }
+
       // Determine if we should respond to this reaction
       const shouldRespond = await this.shouldRespondToReaction(
         issue, 
@@ -106,6 +117,99 @@ export class IssueReactionProcessor extends BaseWebhookProcessor {
     }
   }
 
+  /**
+   * Applies or discards the changes of a command preview
+   * 
+   * @param issue The Linear issue
+   * @param comment The comment that received the reaction
+   * @param emoji The reaction emoji
+   * @param actor User who reacted
+   * @returns Whether the reaction was handled as a preview decision
+   */
+  private async handlePreviewReaction(
+    issue: NonNullable<AppUserNotification['notification']['issue']>,
+    comment: NonNullable<AppUserNotification['notification']['comment']>,
+    emoji: string | undefined,
+    actor: AppUserNotification['notification']['actor']
+  ): Promise<boolean> {
+    let outcome;
+    try {
+      outcome = await new CommandConfirmationManager(this.linearClient).handleReaction(
+        comment.id,
+        emoji,
+        actor ? { id: actor.id, name: actor.name, email: actor.email } : undefined
+      );
+    } catch (error) {
+      // Without preview state the reaction is handled as before
+      logger.warn('Command previews unavailable', {
+        error: (error as Error).message,
+        issueId: issue.id,
+        commentId: comment.id
+      });
+      return false;
+    }
+
+    if (outcome.status === 'none') {
+      return false;
+    }
+
+    await this.createLinearReply(outcome.issueId, outcome.threadId, outcome.message);
+
+    if (outcome.status === 'applied' && outcome.command?.metadata?.continuation) {
+      await this.resumeChain(outcome.issueId, outcome.threadId, outcome.command, outcome.outcomes || []);
+    }
+
+    logger.info('Handled command preview reaction', {
+      issueId: issue.id,
+      commentId: comment.id,
+      status: outcome.status
+    });
+
+    return true;
+  }
+
+  /**
+   * Runs the rest of a command chain once its previewed step's changes are applied
+   * 
+   * Later steps that refer to the previous output run for the issues the
+   * changes created.
+   */
+  private async resumeChain(
+    issueId: string,
+    threadId: string,
+    command: ParsedCommand,
+    outcomes: ChangeOutcome[]
+  ): Promise<void> {
+    const continuation = command.metadata.continuation!;
+    const createdIssueIds = outcomes
+      .filter(outcome => outcome.success && outcome.issueId)
+      .map(outcome => outcome.issueId!);
+
+    if (createdIssueIds.length === 0) {
+      await this.createLinearReply(issueId, threadId, '_Nothing was created, so the rest of the command chain did not run._');
+      return;
+    }
+
+    const previous: ChainStepResult = {
+      step: continuation.step,
+      command,
+      success: true,
+      results: [{
+        success: true,
+        data: { createdIssueIds },
+        executionTime: 0,
+        command: command.intent,
+        parameters: command.parameters || {}
+      }]
+    };
+
+    await this.runDialogChain(
+      { issueId, threadId },
+      continuation.commands.map(step => ({ ...step, timestamp: new Date(step.timestamp) })),
+      previous
+    );
+  }
+
   /**
    * Determines if the agent should respond to this reaction
    * 
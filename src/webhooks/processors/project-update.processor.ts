@@ -0,0 +1,62 @@
+/**
+ * Project Update Processor
+ * 
+ * Handles ProjectUpdate webhooks. Raises PROJECT_UPDATE_POSTED when a
+ * project status update is posted, including its health (onTrack, atRisk,
+ * offTrack).
+ */
+
+import { BaseEntityProcessor, EntityWebhookPayload } from './base-entity-processor';
+import { BehaviorResult, BehaviorTriggerType } from '../../agent/types/autonomous-types';
+import * as logger from '../../utils/logger';
+
+/**
+ * Processor for handling posted project updates
+ */
+export class ProjectUpdateProcessor extends BaseEntityProcessor {
+  /**
+   * Process a project update webhook
+   * 
+   * @param payload The ProjectUpdate payload from Linear
+   */
+  async process(payload: EntityWebhookPayload): Promise<BehaviorResult[]> {
+    const projectUpdate = payload.data;
+
+    if (!projectUpdate?.id) {
+      logger.warn('ProjectUpdate webhook missing update data');
+      return [];
+    }
+
+    if (payload.action !== 'create') {
+      logger.debug('Ignoring project update edit', {
+        projectUpdateId: projectUpdate.id,
+        action: payload.action
+      });
+      return [];
+    }
+
+    logger.info('Processing project update', {
+      projectUpdateId: projectUpdate.id,
+      projectId: projectUpdate.project?.id || projectUpdate.projectId,
+      health: projectUpdate.health
+    });
+
+    return this.dispatchTrigger(
+      BehaviorTriggerType.PROJECT_UPDATE_POSTED,
+      {
+        team: this.extractTeam(projectUpdate.project),
+        user: projectUpdate.user,
+        metadata: {
+          projectUpdate: {
+            id: projectUpdate.id,
+            body: projectUpdate.body,
+            health: projectUpdate.health,
+            url: projectUpdate.url
+          },
+          project: projectUpdate.project || { id: projectUpdate.projectId }
+        }
+      },
+      payload
+    );
+  }
+}
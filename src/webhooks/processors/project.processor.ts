@@ -0,0 +1,66 @@
+/**
+ * Project Processor
+ * 
+ * Handles Project data-change webhooks. Raises PROJECT_STATE_CHANGED when a
+ * project moves between states (e.g. planned → started → completed).
+ */
+
+import { BaseEntityProcessor, EntityWebhookPayload } from './base-entity-processor';
+import { BehaviorResult, BehaviorTriggerType } from '../../agent/types/autonomous-types';
+import * as logger from '../../utils/logger';
+
+/**
+ * Processor for handling project state changes
+ */
+export class ProjectProcessor extends BaseEntityProcessor {
+  /**
+   * Process a project webhook
+   * 
+   * @param payload The Project payload from Linear
+   */
+  async process(payload: EntityWebhookPayload): Promise<BehaviorResult[]> {
+    const project = payload.data;
+
+    if (!project?.id) {
+      logger.warn('Project webhook missing project data');
+      return [];
+    }
+
+    if (!this.fieldChanged(payload, 'state', 'statusId')) {
+      logger.debug('Project webhook is not a state change', {
+        projectId: project.id,
+        action: payload.action
+      });
+      return [];
+    }
+
+    const previousState = payload.updatedFrom!.state ?? payload.updatedFrom!.statusId;
+
+    logger.info('Processing project state change', {
+      projectId: project.id,
+      projectName: project.name,
+      previousState,
+      newState: project.state
+    });
+
+    return this.dispatchTrigger(
+      BehaviorTriggerType.PROJECT_STATE_CHANGED,
+      {
+        team: this.extractTeam(project),
+        previousState: { state: previousState },
+        metadata: {
+          project: {
+            id: project.id,
+            name: project.name,
+            state: project.state,
+            statusId: project.statusId,
+            targetDate: project.targetDate,
+            progress: project.progress,
+            teamIds: project.teamIds
+          }
+        }
+      },
+      payload
+    );
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Durable Webhook Event Queue
+ *
+ * Persists incoming webhook events so they can be acknowledged immediately and
+ * processed asynchronously by a polling worker. Failed events are retried with
+ * exponential backoff and moved to a dead-letter table once their attempts are
+ * exhausted. An event whose worker dies mid-processing is claimed again once
+ * its processing timeout passes. Dead-lettered and historical events can be
+ * replayed.
+ */
+import {
+  enqueueWebhookEvent,
+  claimPendingWebhookEvents,
+  markWebhookEventCompleted,
+  markWebhookEventFailed,
+  moveWebhookEventToDeadLetter,
+  getWebhookEvent,
+  getWebhookEventsByTimeRange,
+  getDeadLetteredWebhookEvent,
+  markDeadLetterReplayed,
+  WebhookEventDB
+} from '../db/models';
+import { UnknownOrganizationError } from '../linear/organization-clients';
+import * as logger from '../utils/logger';
+
+/**
+ * Function that processes a webhook payload
+ */
+export type WebhookEventProcessor = (payload: any) => Promise<void>;
+
+/**
+ * Webhook event queue configuration
+ */
+export interface WebhookQueueConfig {
+  /** Interval between polls in milliseconds */
+  pollInterval: number;
+  /** Maximum number of events claimed per poll */
+  batchSize: number;
+  /** Attempts before an event is dead-lettered */
+  maxAttempts: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseRetryDelay: number;
+  /** Upper bound for the retry delay in milliseconds */
+  maxRetryDelay: number;
+  /** How long a claimed event may stay 'processing' before it is claimed again */
+  processingTimeout: number;
+}
+
+/**
+ * Outcome of replaying a single event
+ */
+export interface WebhookReplayResult {
+  eventId: number;
+  eventType: string;
+  action?: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Filters for replaying historical events
+ */
+export interface WebhookReplayFilter {
+  since: Date;
+  until?: Date;
+  eventType?: string;
+}
+
+export const DEFAULT_WEBHOOK_QUEUE_CONFIG: WebhookQueueConfig = {
+  pollInterval: 1000,
+  batchSize: 10,
+  maxAttempts: 5,
+  baseRetryDelay: 5000,
+  maxRetryDelay: 15 * 60 * 1000,
+  processingTimeout: 5 * 60 * 1000
+};
+
+/**
+ * Webhook event queue with a polling worker
+ */
+export class WebhookEventQueue {
+  private config: WebhookQueueConfig;
+  private processor: WebhookEventProcessor;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * Creates a new webhook event queue
+   *
+   * @param processor Function used to process each event payload
+   * @param config Queue configuration overrides
+   */
+  constructor(processor: WebhookEventProcessor, config: Partial<WebhookQueueConfig> = {}) {
+    this.processor = processor;
+    this.config = { ...DEFAULT_WEBHOOK_QUEUE_CONFIG, ...config };
+  }
+
+  /**
+   * Persists a webhook payload for asynchronous processing
+   */
+  async enqueue(payload: any, deliveryId?: string): Promise<WebhookEventDB> {
+    return enqueueWebhookEvent(
+      payload.type,
+      payload.action,
+      payload,
+      deliveryId,
+      this.config.maxAttempts
+    );
+  }
+
+  /**
+   * Starts the worker loop
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.poll().catch(error => {
+        logger.error('Webhook queue poll failed', { error: (error as Error).message });
+      });
+    }, this.config.pollInterval);
+
+    logger.info('Webhook event queue started', { pollInterval: this.config.pollInterval });
+  }
+
+  /**
+   * Stops the worker loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Webhook event queue stopped');
+    }
+  }
+
+  /**
+   * Whether the worker loop is running
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Claims and processes one batch of due events
+   *
+   * @returns Number of events processed
+   */
+  async poll(): Promise<number> {
+    if (this.polling) {
+      return 0;
+    }
+
+    this.polling = true;
+    try {
+      const events = await claimPendingWebhookEvents(this.config.batchSize, this.config.processingTimeout);
+
+      for (const event of events) {
+        await this.processEvent(event);
+      }
+
+      return events.length;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Replays a dead-lettered event through the processors
+   */
+  async replayDeadLetter(deadLetterId: number): Promise<WebhookReplayResult> {
+    const deadLetter = await getDeadLetteredWebhookEvent(deadLetterId);
+    if (!deadLetter) {
+      throw new Error(`Dead-lettered webhook event not found: ${deadLetterId}`);
+    }
+
+    const result = await this.replayPayload(
+      deadLetter.event_id,
+      deadLetter.event_type,
+      deadLetter.action,
+      deadLetter.payload
+    );
+
+    if (result.success) {
+      await markDeadLetterReplayed(deadLetterId);
+      await markWebhookEventCompleted(deadLetter.event_id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Replays a stored event through the processors
+   */
+  async replayEvent(eventId: number): Promise<WebhookReplayResult> {
+    const event = await getWebhookEvent(eventId);
+    if (!event) {
+      throw new Error(`Webhook event not found: ${eventId}`);
+    }
+
+    return this.replayPayload(event.id, event.event_type, event.action, event.payload);
+  }
+
+  /**
+   * Replays historical events received within a time range
+   */
+  async replayEvents(filter: WebhookReplayFilter): Promise<WebhookReplayResult[]> {
+    const events = await getWebhookEventsByTimeRange(
+      filter.since,
+      filter.until,
+      filter.eventType
+    );
+
+    logger.info('Replaying webhook events', {
+      count: events.length,
+      since: filter.since,
+      until: filter.until,
+      eventType: filter.eventType
+    });
+
+    const results: WebhookReplayResult[] = [];
+    for (const event of events) {
+      results.push(
+        await this.replayPayload(event.id, event.event_type, event.action, event.payload)
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Processes a claimed event, scheduling a retry or dead-lettering on failure
+   */
+  private async processEvent(event: WebhookEventDB): Promise<void> {
+    // Reclaimed after its last attempt never finished, e.g. because it crashed the worker
+    if (event.attempts > event.max_attempts) {
+      await moveWebhookEventToDeadLetter(event.id, 'Processing did not finish within the processing timeout');
+      return;
+    }
+
+    try {
+      await this.processor(this.parsePayload(event.payload));
+      await markWebhookEventCompleted(event.id);
+
+      logger.debug('Webhook event processed', {
+        eventId: event.id,
+        eventType: event.event_type,
+        attempts: event.attempts
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+
+      // Retrying will not help an organization that has no stored credentials
+      if (event.attempts >= event.max_attempts || error instanceof UnknownOrganizationError) {
+        await moveWebhookEventToDeadLetter(event.id, message);
+        return;
+      }
+
+      await markWebhookEventFailed(event.id, message, this.getNextAttemptAt(event.attempts));
+    }
+  }
+
+  /**
+   * Runs a stored payload through the processor without retry bookkeeping
+   */
+  private async replayPayload(
+    eventId: number,
+    eventType: string,
+    action: string | undefined,
+    payload: any
+  ): Promise<WebhookReplayResult> {
+    try {
+      await this.processor(this.parsePayload(payload));
+      logger.info('Webhook event replayed', { eventId, eventType, action });
+      return { eventId, eventType, action, success: true };
+    } catch (error) {
+      logger.error('Webhook event replay failed', {
+        eventId,
+        eventType,
+        action,
+        error: (error as Error).message
+      });
+      return { eventId, eventType, action, success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Calculates the next attempt time using exponential backoff
+   */
+  private getNextAttemptAt(attempts: number): Date {
+    const delay = Math.min(
+      this.config.baseRetryDelay * Math.pow(2, Math.max(attempts - 1, 0)),
+      this.config.maxRetryDelay
+    );
+    return new Date(Date.now() + delay);
+  }
+
+  /**
+   * Normalizes a stored payload (JSONB columns come back parsed, TEXT does not)
+   */
+  private parsePayload(payload: any): any {
+    return typeof payload === 'string' ? JSON.parse(payload) : payload;
+  }
+}
+
+// Global queue instance
+let globalQueue: WebhookEventQueue | null = null;
+
+/**
+ * Creates and starts the global webhook event queue
+ */
+export const startWebhookQueue = (
+  processor: WebhookEventProcessor,
+  config: Partial<WebhookQueueConfig> = {}
+): WebhookEventQueue => {
+  if (globalQueue) {
+    globalQueue.stop();
+  }
+
+  globalQueue = new WebhookEventQueue(processor, config);
+  globalQueue.start();
+  return globalQueue;
+};
+
+/**
+ * Gets the global webhook event queue if it is running
+ */
+export const getWebhookQueue = (): WebhookEventQueue | null => {
+  return globalQueue && globalQueue.isRunning() ? globalQueue : null;
+};
+
+/**
+ * Stops the global webhook event queue
+ */
+export const stopWebhookQueue = (): void => {
+  if (globalQueue) {
+    globalQueue.stop();
+    globalQueue = null;
+  }
+};
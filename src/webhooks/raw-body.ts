@@ -0,0 +1,30 @@
+/**
+ * Raw Body Capture Middleware
+ *
+ * Parses JSON webhook requests while keeping the exact bytes received, so the
+ * signature can be verified over the raw body rather than a re-serialization.
+ */
+import express, { Request } from 'express';
+import { IncomingMessage, ServerResponse } from 'http';
+
+/**
+ * Request with the raw body captured by the webhook JSON parser
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * Stores the raw request bytes on the request before JSON parsing
+ */
+export const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer): void => {
+  (req as RawBodyRequest).rawBody = Buffer.from(buf);
+};
+
+/**
+ * JSON body parser that also captures the raw body
+ *
+ * Must be mounted on the webhook routes before the application-wide JSON
+ * parser, which skips bodies that have already been parsed.
+ */
+export const rawBodyJsonParser = () => express.json({ verify: captureRawBody });
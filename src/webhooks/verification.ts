@@ -1,66 +1,153 @@
 import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { RawBodyRequest } from './raw-body';
+import * as logger from '../utils/logger';
+
+/**
+ * Webhook signing secret with an optional expiry
+ */
+export interface WebhookSecret {
+  secret: string;
+  expiresAt?: Date;
+}
+
+/**
+ * Parses the configured webhook signing secrets
+ *
+ * WEBHOOK_SECRETS is a comma-separated list of secrets, each optionally
+ * followed by `|<ISO expiry>`, tried in order. This allows a new secret to be
+ * added before the old one is retired. WEBHOOK_SECRET is still honoured as a
+ * secret without expiry, tried last.
+ *
+ * @returns The configured secrets in the order they should be tried
+ */
+export const getWebhookSecrets = (): WebhookSecret[] => {
+  const secrets: WebhookSecret[] = [];
+
+  for (const entry of (process.env.WEBHOOK_SECRETS || '').split(',')) {
+    const [secret, expiry] = entry.trim().split('|').map(part => part.trim());
+
+    if (!secret) {
+      continue;
+    }
+
+    const expiresAt = expiry ? new Date(expiry) : undefined;
+    if (expiresAt && isNaN(expiresAt.getTime())) {
+      logger.error('Ignoring webhook secret with invalid expiry', { expiry });
+      continue;
+    }
+
+    secrets.push({ secret, expiresAt });
+  }
+
+  if (process.env.WEBHOOK_SECRET && !secrets.some(s => s.secret === process.env.WEBHOOK_SECRET)) {
+    secrets.push({ secret: process.env.WEBHOOK_SECRET });
+  }
+
+  return secrets;
+};
+
+/**
+ * Gets the secrets that have not expired
+ */
+export const getActiveWebhookSecrets = (now: Date = new Date()): WebhookSecret[] => {
+  return getWebhookSecrets().filter(s => !s.expiresAt || s.expiresAt > now);
+};
 
 /**
  * Verifies the Linear webhook signature
- * 
+ *
  * @param signature The signature from the Linear-Signature header
- * @param body The request body
+ * @param body The parsed request body
+ * @param rawBody The raw request bytes; used for the HMAC when available
  * @returns boolean indicating if the signature is valid
  */
-export const verifyWebhookSignature = (signature: string, body: any): boolean => {
+export const verifyWebhookSignature = (
+  signature: string,
+  body: any,
+  rawBody?: Buffer | string
+): boolean => {
   if (!signature) {
     return false;
   }
 
-  const webhookSecret = process.env.WEBHOOK_SECRET;
-  
-  if (!webhookSecret) {
-    console.error('WEBHOOK_SECRET environment variable is not set');
+  const secrets = getActiveWebhookSecrets();
+
+  if (secrets.length === 0) {
+    logger.error('No active webhook secret configured (WEBHOOK_SECRETS or WEBHOOK_SECRET)');
     return false;
   }
 
   try {
     // Extract timestamp and signature from the header
     const [timestamp, signatureHash] = signature.split(',');
-    
+
     if (!timestamp || !signatureHash) {
       return false;
     }
-    
+
     // Extract the actual values
     const timestampValue = timestamp.split('=')[1];
     const signatureValue = signatureHash.split('=')[1];
-    
+
     if (!timestampValue || !signatureValue) {
       return false;
     }
-    
+
     // Check if the timestamp is recent (within 5 minutes)
     const timestampDate = new Date(parseInt(timestampValue) * 1000);
     const now = new Date();
     const fiveMinutesAgo = new Date(now.getTime() - 5 * 60 * 1000);
-    
+
     if (timestampDate < fiveMinutesAgo) {
-      console.error('Webhook timestamp is too old');
+      logger.error('Webhook timestamp is too old');
       return false;
     }
-    
-    // Create the signature payload
-    const payload = `${timestampValue}.${JSON.stringify(body)}`;
-    
-    // Calculate the expected signature
-    const expectedSignature = crypto
-      .createHmac('sha256', webhookSecret)
-      .update(payload)
-      .digest('hex');
-    
-    // Compare the signatures
-    return crypto.timingSafeEqual(
-      Buffer.from(signatureValue),
-      Buffer.from(expectedSignature)
-    );
+
+    // Create the signature payload over the exact bytes received
+    const bodyContent = rawBody !== undefined ? rawBody.toString() : JSON.stringify(body);
+    const payload = `${timestampValue}.${bodyContent}`;
+
+    // Try each active secret in order
+    return secrets.some(({ secret }) => {
+      const expectedSignature = crypto
+        .createHmac('sha256', secret)
+        .update(payload)
+        .digest('hex');
+
+      return safeCompare(signatureValue, expectedSignature);
+    });
   } catch (error) {
-    console.error('Error verifying webhook signature:', error);
+    logger.error('Error verifying webhook signature:', error);
     return false;
   }
 };
+
+/**
+ * Express middleware rejecting requests without a valid webhook signature
+ */
+export const requireWebhookSignature = (req: RawBodyRequest, res: Response, next: NextFunction) => {
+  const isValid = verifyWebhookSignature(
+    req.headers['linear-signature'] as string,
+    req.body,
+    req.rawBody
+  );
+
+  if (!isValid) {
+    logger.error('Invalid webhook signature', { path: req.path });
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  next();
+};
+
+/**
+ * Compares two signatures in constant time
+ */
+const safeCompare = (actual: string, expected: string): boolean => {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+
+  return actualBuffer.length === expectedBuffer.length &&
+    crypto.timingSafeEqual(actualBuffer, expectedBuffer);
+};
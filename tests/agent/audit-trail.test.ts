@@ -0,0 +1,138 @@
+/**
+ * Unit Tests for the Agent Audit Trail
+ */
+
+import {
+  describeTriggerOrigin,
+  recordAuditEvent,
+  recordBehaviorResult
+} from '../../src/agent/audit-trail';
+import { BehaviorTrigger, BehaviorTriggerType } from '../../src/agent/types/autonomous-types';
+import { createAuditLogEntry } from '../../src/db/models';
+import * as logger from '../../src/utils/logger';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+const mockedCreateAuditLogEntry = createAuditLogEntry as jest.MockedFunction<typeof createAuditLogEntry>;
+
+describe('Audit Trail', () => {
+  const scheduleTrigger: BehaviorTrigger = {
+    id: 'schedule_workflow_automation_1',
+    type: BehaviorTriggerType.SCHEDULE,
+    payload: {
+      behaviorId: 'workflow_automation',
+      schedule: { behaviorId: 'workflow_automation', cronExpression: '0 2 * * *', active: true }
+    },
+    context: { team: { id: 'team-1', name: 'Phoenix', key: 'PHX' }, timestamp: new Date() },
+    timestamp: new Date()
+  };
+
+  const behavior = {
+    id: 'workflow_automation',
+    name: 'Workflow Automation',
+    description: 'Automates routine tasks',
+    enabled: true,
+    priority: 50,
+    shouldTrigger: jest.fn(),
+    execute: jest.fn(),
+    validate: jest.fn()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('describeTriggerOrigin', () => {
+    it('should name the schedule a trigger came from', () => {
+      expect(describeTriggerOrigin(scheduleTrigger)).toEqual({
+        source: 'schedule workflow_automation (0 2 * * *)',
+        origin: { behaviorId: 'workflow_automation', cronExpression: '0 2 * * *' }
+      });
+
+      expect(describeTriggerOrigin({
+        ...scheduleTrigger,
+        payload: { behaviorId: 'periodic_reporting', schedule: { interval: 3600000 } }
+      }).source).toBe('schedule periodic_reporting (every 3600s)');
+
+      expect(describeTriggerOrigin({
+        ...scheduleTrigger,
+        payload: {
+          behaviorId: 'periodic_reporting',
+          schedule: { cronExpression: '0 9 * * MON', timeZone: 'Europe/Berlin' },
+          scheduledTime: new Date('2025-07-28T07:00:00Z'),
+          catchUp: true
+        }
+      })).toEqual({
+        source: 'schedule periodic_reporting (0 9 * * MON Europe/Berlin)',
+        origin: {
+          behaviorId: 'periodic_reporting',
+          cronExpression: '0 9 * * MON',
+          timeZone: 'Europe/Berlin',
+          scheduledTime: new Date('2025-07-28T07:00:00Z'),
+          catchUp: true
+        }
+      });
+    });
+
+    it('should name the webhook a trigger came from', () => {
+      expect(describeTriggerOrigin({
+        ...scheduleTrigger,
+        type: BehaviorTriggerType.CYCLE_COMPLETED,
+        payload: { type: 'Cycle', action: 'update', createdAt: '2025-07-06T02:00:00Z' }
+      })).toEqual({
+        source: 'webhook Cycle.update',
+        origin: { type: 'Cycle', action: 'update', createdAt: '2025-07-06T02:00:00Z' }
+      });
+    });
+
+    it('should fall back to the trigger type', () => {
+      expect(describeTriggerOrigin({ ...scheduleTrigger, type: BehaviorTriggerType.MANUAL, payload: {} }).source)
+        .toBe('manual');
+    });
+  });
+
+  it('should record each action against the issue it changed, then the outcome', async () => {
+    await recordBehaviorResult(scheduleTrigger, behavior, {
+      success: true,
+      actions: [
+        { type: 'update', target: 'issue-1', description: 'Added label needs-estimate', result: 'success' },
+        { type: 'update', target: 'issue-2', description: 'Added label needs-estimate', result: 'failed' }
+      ],
+      executionTime: 40,
+      shouldNotify: false
+    }, 'exec_1_abc');
+
+    const events = mockedCreateAuditLogEntry.mock.calls.map(call => call[0]);
+    expect(events).toEqual([
+      expect.objectContaining({
+        event_type: 'behavior_action',
+        outcome: 'success',
+        behavior_id: 'workflow_automation',
+        execution_id: 'exec_1_abc',
+        trigger_id: 'schedule_workflow_automation_1',
+        trigger_type: 'schedule',
+        issue_id: 'issue-1',
+        team_id: 'team-1',
+        reason: 'Added label needs-estimate'
+      }),
+      expect.objectContaining({ event_type: 'behavior_action', outcome: 'failed', issue_id: 'issue-2' }),
+      expect.objectContaining({
+        event_type: 'behavior_outcome',
+        outcome: 'success',
+        details: { actionCount: 2, executionTime: 40, notified: false }
+      })
+    ]);
+  });
+
+  it('should not fail the audited work when an event cannot be recorded', async () => {
+    mockedCreateAuditLogEntry.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(recordAuditEvent({ event_type: 'behavior_trigger', outcome: 'received' })).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith('Failed to record audit event', expect.objectContaining({
+      eventType: 'behavior_trigger',
+      error: 'database unavailable'
+    }));
+  });
+});
@@ -11,11 +11,13 @@ import {
   BehaviorTriggerType
 } from '../../src/agent/types/autonomous-types';
 import * as logger from '../../src/utils/logger';
+import { createAuditLogEntry } from '../../src/db/models';
 
 // Mock dependencies
 jest.mock('../../src/utils/logger');
 jest.mock('../../src/agent/monitoring/behavior-scheduler');
 jest.mock('../../src/agent/monitoring/health-monitor');
+jest.mock('../../src/db/models');
 
 // Mock behavior implementation
 class MockBehavior implements AutonomousBehavior {
@@ -247,6 +249,38 @@ describe('AutonomousBehaviorEngine', () => {
       expect(results[0].actions).toHaveLength(0);
       expect(mockBehavior.executeMock).not.toHaveBeenCalled();
     });
+
+    it('should record the trigger, decision, actions and outcome in the audit log', async () => {
+      const trigger: BehaviorTrigger = {
+        id: 'test-trigger-6',
+        type: BehaviorTriggerType.WEBHOOK,
+        payload: { type: 'Issue', action: 'update', webhookId: 'hook-1' },
+        context: { issue: { id: 'issue-1', teamId: 'team-1' }, timestamp: new Date() },
+        timestamp: new Date()
+      };
+
+      await engine.processTrigger(trigger);
+
+      const events = (createAuditLogEntry as jest.Mock).mock.calls.map(call => call[0]);
+      expect(events.map(event => [event.event_type, event.outcome])).toEqual([
+        ['behavior_trigger', 'received'],
+        ['behavior_decision', 'triggered'],
+        ['behavior_action', 'success'],
+        ['behavior_outcome', 'success']
+      ]);
+      expect(events[0]).toEqual(expect.objectContaining({
+        trigger_id: 'test-trigger-6',
+        source: 'webhook Issue.update',
+        issue_id: 'issue-1',
+        team_id: 'team-1',
+        details: { origin: { type: 'Issue', action: 'update', webhookId: 'hook-1' }, behaviors: ['mock_behavior'] }
+      }));
+      expect(events[2]).toEqual(expect.objectContaining({
+        behavior_id: 'mock_behavior',
+        execution_id: events[1].execution_id,
+        reason: 'Test action'
+      }));
+    });
   });
 
   describe('rate limiting', () => {
@@ -0,0 +1,75 @@
+/**
+ * Unit Tests for Behavior Configuration
+ */
+
+import { mergeBehaviorSettings, validateTeamBehaviorConfig } from '../../src/agent/behavior-config';
+
+describe('Behavior Configuration', () => {
+  describe('validateTeamBehaviorConfig', () => {
+    it('should accept enabled behaviors and typed settings', () => {
+      expect(validateTeamBehaviorConfig({
+        enabledBehaviors: { periodicReporting: true, dependencyDetection: false },
+        settings: {
+          storyMonitoring: { maxStoryPoints: 8, monitorStates: ['backlog', 'unstarted'] },
+          anomalyDetection: { sensitivityLevel: 'high', thresholds: { velocityDeviation: 20 } },
+          periodicReporting: {
+            reportTypes: ['weekly_summary', 'blockers_report'],
+            schedules: { weekly_summary: '0 9 * * FRI' },
+            timeZone: 'Europe/Berlin'
+          },
+          workflowAutomation: {
+            stateTransitions: { 'In Review': [{ trigger: 'state_change', actions: [{ type: 'add_label', value: 'qa' }] }] }
+          },
+          wipLimits: { stateLimits: { Doing: 4, 'In Review': 0 }, assigneeLimits: { Doing: 2 }, enforcement: 'move_back' }
+        }
+      })).toEqual([]);
+    });
+
+    it('should report every invalid behavior and setting', () => {
+      expect(validateTeamBehaviorConfig({
+        enabledBehaviors: { storyMonitoring: 'yes', standupDigest: true },
+        settings: {
+          storyMonitoring: { maxStoryPoints: -1, monitorStates: 'backlog', maxPoints: 8 },
+          anomalyDetection: { sensitivityLevel: 'extreme', thresholds: { velocity: 20 } },
+          periodicReporting: { teamIds: ['team-2'], schedules: { weekly_summary: '0 25 * * *' }, timeZone: 'Mars/Olympus' },
+          workflowAutomation: { stateTransitions: { Done: [{ trigger: 'moved', actions: [] }] } },
+          wipLimits: { stateLimits: { Doing: 'four' }, enforcement: 'block' }
+        },
+        owner: 'alice'
+      })).toEqual([
+        'owner is not part of a behavior configuration (expected enabledBehaviors, settings)',
+        'enabledBehaviors.storyMonitoring must be true or false',
+        'enabledBehaviors.standupDigest is not a behavior (expected storyMonitoring, artHealthMonitoring, ' +
+          'dependencyDetection, workflowAutomation, periodicReporting, anomalyDetection, definitionOfReady, wipLimits)',
+        'settings.storyMonitoring.maxStoryPoints must be a number of at least 0',
+        'settings.storyMonitoring.monitorStates must be a list of strings',
+        'settings.storyMonitoring.maxPoints is not a setting',
+        'settings.anomalyDetection.sensitivityLevel must be one of low, medium, high',
+        'settings.anomalyDetection.thresholds.velocity is not a setting',
+        'settings.periodicReporting.teamIds cannot be set per team',
+        'settings.periodicReporting.schedules.weekly_summary: Invalid cron expression "0 25 * * *": ' +
+          'hour value "25" is not between 0 and 23',
+        'settings.periodicReporting.timeZone must be an IANA time zone such as America/New_York',
+        'settings.workflowAutomation.stateTransitions.Done[0] has unknown trigger: moved ' +
+          '(expected state_change, label_added, assignee_changed, priority_changed)',
+        'settings.workflowAutomation.stateTransitions.Done[0] must have at least one action',
+        'settings.wipLimits.stateLimits.Doing must be a number of at least 0',
+        'settings.wipLimits.enforcement must be one of warn, move_back'
+      ]);
+    });
+
+    it('should require an object', () => {
+      expect(validateTeamBehaviorConfig(['storyMonitoring'])).toEqual([
+        'Behavior configuration must be an object with enabledBehaviors and/or settings'
+      ]);
+    });
+  });
+
+  it('should merge object settings one level deep', () => {
+    expect(mergeBehaviorSettings(
+      { maxStoryPoints: 5, thresholds: { velocityDeviation: 30, blockageRate: 20 } },
+      { thresholds: { blockageRate: 10 } },
+      { maxStoryPoints: 8 }
+    )).toEqual({ maxStoryPoints: 8, thresholds: { velocityDeviation: 30, blockageRate: 10 } });
+  });
+});
@@ -19,6 +19,14 @@ import * as logger from '../../src/utils/logger';
 jest.mock('../../src/linear/client');
 jest.mock('../../src/utils/logger');
 
+// Process every delivery without touching the deduplication store
+jest.mock('../../src/webhooks/deduplication', () => ({
+  processOnce: jest.fn(async (_deliveryId: string, _payload: any, handler: () => Promise<any>) => ({
+    duplicate: false,
+    result: await handler()
+  }))
+}));
+
 // Mock express request/response
 const mockRequest = (body: any) => ({ body } as any);
 const mockResponse = () => {
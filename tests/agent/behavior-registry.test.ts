@@ -0,0 +1,186 @@
+/**
+ * Unit Tests for Behavior Registry team configuration
+ */
+
+import { BehaviorRegistry } from '../../src/agent/behavior-registry';
+import { AutonomousBehaviorEngine } from '../../src/agent/autonomous-engine';
+import { BehaviorTrigger, BehaviorTriggerType } from '../../src/agent/types/autonomous-types';
+import { getCurrentTeamBehaviorConfigs } from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+const mockedGetCurrentTeamBehaviorConfigs = getCurrentTeamBehaviorConfigs as jest.MockedFunction<
+  typeof getCurrentTeamBehaviorConfigs
+>;
+
+describe('BehaviorRegistry team configuration', () => {
+  let mockLinearClient: any;
+  let registry: BehaviorRegistry;
+
+  const issueTrigger = (teamId: string): BehaviorTrigger => {
+    const now = new Date();
+    return {
+      id: `trigger-${teamId}`,
+      type: BehaviorTriggerType.WEBHOOK,
+      payload: {},
+      timestamp: now,
+      context: {
+        issue: {
+          id: `issue-${teamId}`,
+          estimate: 8,
+          state: { name: 'Backlog' },
+          team: { id: teamId },
+          createdAt: now.toISOString(),
+          updatedAt: now.toISOString()
+        },
+        timestamp: now
+      }
+    };
+  };
+
+  const storyMonitoringRun = async (teamId: string) => {
+    const runs = await registry.getEngine().simulateTrigger(issueTrigger(teamId));
+    return runs.find(run => run.behaviorId === 'story_monitoring');
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLinearClient = {
+      getViewer: jest.fn().mockResolvedValue({ id: 'user-1' }),
+      getIssues: jest.fn().mockResolvedValue({ nodes: [] }),
+      getComments: jest.fn().mockResolvedValue({ nodes: [] }),
+      getTeams: jest.fn().mockResolvedValue({ nodes: [] }),
+      getTeam: jest.fn().mockResolvedValue({ id: 'team-1', name: 'Phoenix', key: 'PHX' })
+    };
+    mockedGetCurrentTeamBehaviorConfigs.mockResolvedValue([{
+      id: 1,
+      team_id: 'team-1',
+      version: 2,
+      config: { settings: { storyMonitoring: { maxStoryPoints: 13 } } },
+      created_at: new Date()
+    }]);
+
+    registry = new BehaviorRegistry({
+      linearClient: mockLinearClient,
+      enabledBehaviors: { periodicReporting: false, anomalyDetection: false }
+    });
+  });
+
+  afterEach(async () => {
+    await registry.shutdown();
+  });
+
+  it("should run a team's triggers with its saved settings", async () => {
+    await registry.initialize();
+
+    expect((await storyMonitoringRun('team-1'))?.triggered).toBe(false);
+    expect((await storyMonitoringRun('team-2'))?.triggered).toBe(true);
+  });
+
+  it('should apply an updated configuration without reinitializing', async () => {
+    await registry.initialize();
+
+    registry.applyTeamConfig('team-1', { enabledBehaviors: { storyMonitoring: false } });
+    registry.applyTeamConfig('team-2', { settings: { storyMonitoring: { maxStoryPoints: 8 } } });
+
+    expect(await storyMonitoringRun('team-1')).toBeUndefined();
+    expect((await storyMonitoringRun('team-2'))?.triggered).toBe(false);
+
+    registry.applyTeamConfig('team-2', {});
+    expect((await storyMonitoringRun('team-2'))?.triggered).toBe(true);
+  });
+
+  it('should run a behavior disabled for everyone only for the teams that enable it', async () => {
+    await registry.initialize();
+    registry.applyTeamConfig('team-1', { enabledBehaviors: { periodicReporting: true } });
+
+    const runs = await registry.getEngine().simulateTrigger({
+      id: 'trigger-schedule',
+      type: BehaviorTriggerType.SCHEDULE,
+      payload: { behaviorId: 'periodic_reporting' },
+      timestamp: new Date(),
+      context: { triggerType: 'schedule', timestamp: new Date() }
+    });
+
+    expect(runs.map(run => run.behaviorId)).toEqual(['periodic_reporting']);
+    expect(mockLinearClient.getTeam).toHaveBeenCalledWith('team-1');
+    expect(mockLinearClient.getTeams).not.toHaveBeenCalled();
+  });
+
+  it('should register behaviors that are off by default once a team enables them', async () => {
+    await registry.initialize();
+    expect(registry.getRegisteredBehaviorCount()).toBe(4);
+
+    registry.applyTeamConfig('team-2', { enabledBehaviors: { definitionOfReady: true } });
+
+    expect(registry.getRegisteredBehaviorCount()).toBe(5);
+  });
+
+  it('should only add the schedules of behaviors enabled globally or for a team', async () => {
+    const addSchedule = jest.spyOn(AutonomousBehaviorEngine.prototype, 'addSchedule');
+    registry = new BehaviorRegistry({
+      linearClient: mockLinearClient,
+      enabledBehaviors: { periodicReporting: false, anomalyDetection: false },
+      schedules: [
+        { behaviorId: 'wip_limits', cronExpression: '0 9 * * *', active: true },
+        { behaviorId: 'story_monitoring', interval: 60 * 60 * 1000, active: true }
+      ]
+    });
+
+    await registry.initialize();
+    expect(addSchedule.mock.calls.map(([schedule]) => schedule.behaviorId)).toEqual(['story_monitoring']);
+
+    registry.applyTeamConfig('team-2', { enabledBehaviors: { wipLimits: true } });
+    expect(addSchedule).toHaveBeenLastCalledWith(expect.objectContaining({ behaviorId: 'wip_limits' }));
+
+    addSchedule.mockRestore();
+  });
+
+  it('should pick up configurations saved through another instance', async () => {
+    registry = new BehaviorRegistry({
+      linearClient: mockLinearClient,
+      enabledBehaviors: { periodicReporting: false, anomalyDetection: false },
+      teamConfigRefreshInterval: 0
+    });
+    await registry.initialize();
+    expect((await storyMonitoringRun('team-1'))?.triggered).toBe(false);
+
+    mockedGetCurrentTeamBehaviorConfigs.mockResolvedValue([{
+      id: 2,
+      team_id: 'team-1',
+      version: 3,
+      config: { enabledBehaviors: { storyMonitoring: false } },
+      created_at: new Date()
+    }]);
+
+    expect(await storyMonitoringRun('team-1')).toBeUndefined();
+  });
+
+  it('should not rebuild a team configuration whose version is unchanged', async () => {
+    registry = new BehaviorRegistry({
+      linearClient: mockLinearClient,
+      enabledBehaviors: { periodicReporting: false, anomalyDetection: false },
+      teamConfigRefreshInterval: 0
+    });
+    await registry.initialize();
+    const applyTeamConfig = jest.spyOn(registry, 'applyTeamConfig');
+
+    mockedGetCurrentTeamBehaviorConfigs.mockClear();
+
+    await storyMonitoringRun('team-1');
+
+    expect(mockedGetCurrentTeamBehaviorConfigs).toHaveBeenCalled();
+    expect(applyTeamConfig).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the registry configuration when team configurations cannot be loaded', async () => {
+    mockedGetCurrentTeamBehaviorConfigs.mockRejectedValue(new Error('Connection refused'));
+
+    await registry.initialize();
+
+    expect((await storyMonitoringRun('team-1'))?.triggered).toBe(true);
+  });
+});
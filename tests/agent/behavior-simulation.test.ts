@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for Behavior Simulation
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  WorkspaceSnapshot,
+  formatSimulationReport,
+  loadWorkspaceSnapshot,
+  simulateBehaviors
+} from '../../src/agent/behavior-simulation';
+
+jest.mock('../../src/utils/logger');
+
+describe('Behavior Simulation', () => {
+  const labels = [
+    { id: 'label-1', name: 'ready-for-dev' },
+    { id: 'label-2', name: 'in-development' },
+    { id: 'label-3', name: 'needs-review' }
+  ];
+
+  const snapshot: WorkspaceSnapshot = {
+    capturedAt: '2025-07-31T12:00:00.000Z',
+    team: { id: 'team-1', name: 'Phoenix', key: 'PHX' },
+    labels,
+    issues: [
+      {
+        id: 'issue-1',
+        identifier: 'PHX-1',
+        title: 'Checkout flow',
+        state: { name: 'In Progress' },
+        labels: { nodes: [labels[0]] }
+      },
+      {
+        id: 'issue-2',
+        identifier: 'PHX-2',
+        title: 'Login page',
+        state: { name: 'Todo' },
+        labels: { nodes: [] },
+        // Simulate a label change rather than a state change
+        previousState: { state: { name: 'Todo' }, labels: { nodes: [labels[2]] } }
+      }
+    ]
+  };
+
+  it('should record the changes a behavior would make without executing them', async () => {
+    const report = await simulateBehaviors(snapshot, {
+      behaviors: ['workflow_automation'],
+      triggers: ['issue_update']
+    });
+
+    expect(report.triggerCount).toBe(2);
+    expect(report.runs.map(run => run.trigger)).toEqual(['issue_update PHX-1', 'issue_update PHX-2']);
+    expect(report.changes.map(change => [change.issue, change.kind, change.description])).toEqual([
+      ['PHX-1', 'label_change', 'Add label in-development'],
+      ['PHX-1', 'label_change', 'Remove label ready-for-dev'],
+      ['PHX-1', 'comment', 'Comment: ## 🔄 Workflow Update: Unknown → In Progress']
+    ]);
+    expect(report.summary).toEqual(expect.objectContaining({ comment: 1, label_change: 2, assignment: 0 }));
+    expect(report.changes[2].mutation).toEqual(expect.objectContaining({
+      operation: 'createComment',
+      input: expect.objectContaining({ issueId: 'issue-1' })
+    }));
+  });
+
+  it('should run scheduled behaviors once for the team', async () => {
+    const report = await simulateBehaviors(snapshot, {
+      behaviors: ['workflow_automation'],
+      triggers: ['schedule']
+    });
+
+    // Workflow automation only reacts to issue updates
+    expect(report.triggerCount).toBe(1);
+    expect(report.runs).toEqual([]);
+    expect(report.changes).toEqual([]);
+  });
+
+  it('should reject unknown behaviors and trigger kinds', async () => {
+    await expect(simulateBehaviors(snapshot, { behaviors: ['standup_digest'] }))
+      .rejects.toThrow('Unknown behavior: standup_digest');
+    await expect(simulateBehaviors(snapshot, { behaviors: ['workflow_automation'], triggers: ['hourly' as any] }))
+      .rejects.toThrow('Unknown trigger kind: hourly (expected schedule, issue_update)');
+  });
+
+  it('should format the report by behavior', async () => {
+    const report = await simulateBehaviors(snapshot, {
+      behaviors: ['workflow_automation'],
+      triggers: ['issue_update']
+    });
+
+    const text = formatSimulationReport(report);
+
+    expect(text).toContain('Behavior simulation for Phoenix (PHX)');
+    expect(text).toContain('Triggers: 2 per behavior, 2 acted on, 0 failed');
+    expect(text).toContain('Would have made 3 changes (comments: 1, label changes: 2)');
+    expect(text).toContain('- PHX-1: Add label in-development [issue_update PHX-1]');
+  });
+
+  describe('loadWorkspaceSnapshot', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-snapshot-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load a snapshot file', async () => {
+      const file = path.join(directory, 'snapshot.json');
+      await fs.writeFile(file, JSON.stringify(snapshot), 'utf8');
+
+      const loaded = await loadWorkspaceSnapshot(file);
+
+      expect(loaded.team.key).toBe('PHX');
+      expect(loaded.issues).toHaveLength(2);
+    });
+
+    it('should reject invalid snapshots with every error', async () => {
+      const file = path.join(directory, 'snapshot.json');
+      await fs.writeFile(file, JSON.stringify({ team: { id: 'team-1' }, issues: [{ title: 'No id' }], labels: {} }), 'utf8');
+
+      await expect(loadWorkspaceSnapshot(file)).rejects.toThrow(
+        `Invalid workspace snapshot ${file}: team must have an id, name and key; issues[0] must have an id; labels must be a list`
+      );
+    });
+  });
+});
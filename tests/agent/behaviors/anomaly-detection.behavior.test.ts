@@ -0,0 +1,85 @@
+/**
+ * Tests for Anomaly Detection Behavior (LIN-59)
+ */
+
+import { AnomalyDetectionBehavior } from '../../../src/agent/behaviors/anomaly-detection.behavior';
+import { BehaviorContext, BehaviorTriggerType } from '../../../src/agent/types/autonomous-types';
+import { getTeamMetricSnapshots } from '../../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../../src/db/models');
+jest.mock('../../../src/utils/logger');
+
+const mockedGetTeamMetricSnapshots = getTeamMetricSnapshots as jest.MockedFunction<typeof getTeamMetricSnapshots>;
+
+describe('AnomalyDetectionBehavior', () => {
+  let behavior: AnomalyDetectionBehavior;
+  let mockLinearClient: any;
+
+  const context: BehaviorContext = {
+    team: { id: 'team-1', key: 'PHX', name: 'Phoenix' },
+    triggerType: BehaviorTriggerType.SCHEDULE,
+    timestamp: new Date()
+  };
+
+  const snapshots = (count: number, velocity: number) =>
+    Array.from({ length: count }, () => ({
+      velocity,
+      avg_cycle_time: 5,
+      blockage_rate: 5,
+      wip_count: 4,
+      stale_count: 0,
+      estimation_variance: 20
+    })) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLinearClient = {
+      getIssues: jest.fn().mockResolvedValue({
+        nodes: [{
+          id: 'issue-1',
+          estimate: 3,
+          priority: 3,
+          state: { name: 'In Progress' },
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        }]
+      }),
+      createComment: jest.fn().mockResolvedValue({ id: 'comment-1' }),
+      createIssue: jest.fn()
+    };
+
+    behavior = new AnomalyDetectionBehavior(mockLinearClient, {
+      anomalyTypes: ['velocity_drop', 'cycle_time_spike'] as any
+    });
+  });
+
+  it('should compare velocity with the baseline from daily snapshots', async () => {
+    mockedGetTeamMetricSnapshots.mockResolvedValue(snapshots(10, 20));
+
+    const result = await behavior.execute(context);
+
+    expect(mockedGetTeamMetricSnapshots).toHaveBeenCalledWith('team-1', expect.any(String), expect.any(String));
+    expect(mockLinearClient.getIssues).not.toHaveBeenCalledWith(expect.objectContaining({
+      filter: expect.objectContaining({ completedAt: expect.anything() })
+    }));
+    expect(result.actions[0].data.anomalies).toEqual([
+      expect.objectContaining({
+        type: 'velocity_drop',
+        metrics: expect.objectContaining({ currentVelocity: 0, historicalAverage: 20 })
+      })
+    ]);
+    expect(mockLinearClient.createComment).toHaveBeenCalledWith('issue-1', expect.stringContaining('Velocity Drop'));
+  });
+
+  it('should not compare with a baseline of too few snapshots', async () => {
+    mockedGetTeamMetricSnapshots.mockResolvedValue(snapshots(3, 20));
+
+    const result = await behavior.execute(context);
+
+    expect(result.success).toBe(true);
+    expect(result.actions).toHaveLength(0);
+    expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+  });
+});
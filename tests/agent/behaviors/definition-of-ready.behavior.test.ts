@@ -0,0 +1,191 @@
+/**
+ * Tests for Definition of Ready Behavior
+ */
+
+import { DefinitionOfReadyBehavior } from '../../../src/agent/behaviors/definition-of-ready.behavior';
+import { BehaviorContext } from '../../../src/agent/types/autonomous-types';
+
+// Mock dependencies
+jest.mock('../../../src/linear/client');
+jest.mock('../../../src/utils/logger');
+
+describe('DefinitionOfReadyBehavior', () => {
+  let behavior: DefinitionOfReadyBehavior;
+  let mockLinearClient: any;
+
+  const readyIssue = {
+    id: 'issue-1',
+    identifier: 'PHX-12',
+    title: 'Export invoices',
+    description: '## Acceptance Criteria\n- [ ] Users should download invoices as CSV\n- [ ] The export must include taxes',
+    estimate: 3,
+    parentId: 'feature-1',
+    state: { name: 'Todo' },
+    labels: { nodes: [{ name: 'backend' }] }
+  };
+
+  const context = (issue: any, metadata: Record<string, any> = {}): BehaviorContext => ({
+    issue,
+    metadata: { webhookType: 'Issue', webhookAction: 'update', ...metadata },
+    timestamp: new Date()
+  });
+
+  // The SDK resolves a relation's issue and the issue's state lazily
+  const relation = (type: string, blocker: any) => ({
+    type,
+    issue: Promise.resolve({ ...blocker, state: Promise.resolve(blocker.state) })
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLinearClient = {
+      getViewer: jest.fn().mockResolvedValue({ id: 'agent' }),
+      getComments: jest.fn().mockResolvedValue({ nodes: [] }),
+      getIssue: jest.fn().mockResolvedValue({
+        inverseRelations: jest.fn().mockResolvedValue({ nodes: [], pageInfo: { hasNextPage: false } })
+      }),
+      createComment: jest.fn().mockResolvedValue({ id: 'comment-1' }),
+      updateComment: jest.fn().mockResolvedValue({ id: 'comment-1' })
+    };
+
+    behavior = new DefinitionOfReadyBehavior(mockLinearClient);
+  });
+
+  describe('shouldTrigger', () => {
+    it('should trigger when an issue moves into Todo or is added to a cycle', async () => {
+      expect(await behavior.shouldTrigger(context(readyIssue, { updatedFrom: { stateId: 'state-backlog' } }))).toBe(true);
+      expect(await behavior.shouldTrigger(context(
+        { ...readyIssue, state: { name: 'Backlog' }, cycleId: 'cycle-2' },
+        { updatedFrom: { cycleId: null } }
+      ))).toBe(true);
+      expect(await behavior.shouldTrigger(context(readyIssue, { webhookAction: 'create' }))).toBe(true);
+    });
+
+    it('should trigger when a checked field of a ready story is edited', async () => {
+      expect(await behavior.shouldTrigger(context(readyIssue, { updatedFrom: { estimate: null } }))).toBe(true);
+      expect(await behavior.shouldTrigger(context(readyIssue, { updatedFrom: { title: 'Old title' } }))).toBe(false);
+    });
+
+    it('should not trigger for other states, other changes or ignored labels', async () => {
+      expect(await behavior.shouldTrigger(context(
+        { ...readyIssue, state: { name: 'In Progress' } },
+        { updatedFrom: { stateId: 'state-todo' } }
+      ))).toBe(false);
+      expect(await behavior.shouldTrigger(context(readyIssue, { updatedFrom: { priority: 2 } }))).toBe(false);
+      expect(await behavior.shouldTrigger(context(
+        { ...readyIssue, labels: { nodes: [{ name: 'Epic' }] } },
+        { webhookAction: 'create' }
+      ))).toBe(false);
+    });
+  });
+
+  describe('execute', () => {
+    it('should post a checklist listing the gaps', async () => {
+      const inverseRelations = jest.fn()
+        .mockResolvedValueOnce({
+          nodes: [
+            relation('blocks', { id: 'issue-2', identifier: 'PHX-7', state: { name: 'In Progress', type: 'started' } }),
+            relation('related', { id: 'issue-4', identifier: 'PHX-9', state: { name: 'Todo', type: 'unstarted' } })
+          ],
+          pageInfo: { hasNextPage: true, endCursor: 'cursor-1' }
+        })
+        .mockResolvedValueOnce({
+          nodes: [relation('blocks', { id: 'issue-3', identifier: 'PHX-8', state: { name: 'Done', type: 'completed' } })],
+          pageInfo: { hasNextPage: false }
+        });
+      mockLinearClient.getIssue.mockResolvedValue({ id: 'issue-1', inverseRelations });
+      behavior = new DefinitionOfReadyBehavior(mockLinearClient, { requiredLabels: ['backend', 'security-reviewed'] });
+
+      const result = await behavior.execute(context({
+        ...readyIssue,
+        description: 'Make exports faster',
+        estimate: null,
+        parentId: undefined
+      }));
+
+      expect(result.success).toBe(true);
+      expect(mockLinearClient.getIssue).toHaveBeenCalledWith('issue-1');
+      expect(inverseRelations).toHaveBeenLastCalledWith({ after: 'cursor-1' });
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith('issue-1', [
+        '## Definition of Ready',
+        '',
+        '⚠️ This story is not ready yet: 5 of 5 checks failed.',
+        '',
+        '- [ ] Acceptance criteria (0 found, at least 1 needed)',
+        '- [ ] Estimate (not estimated)',
+        '- [ ] Parent feature (no parent)',
+        '- [ ] No unresolved blockers (blocked by PHX-7)',
+        '- [ ] Required labels (missing security-reviewed)',
+        '',
+        '_This checklist is updated when the story moves to a ready state or joins a cycle._'
+      ].join('\n'));
+      expect(result.actions[0]).toMatchObject({
+        description: 'Posted Definition of Ready checklist',
+        data: { gaps: ['Acceptance criteria', 'Estimate', 'Parent feature', 'No unresolved blockers', 'Required labels'] }
+      });
+    });
+
+    it('should update the existing checklist in place once the story is ready', async () => {
+      mockLinearClient.getComments.mockResolvedValue({
+        nodes: [
+          { id: 'comment-0', body: 'Looks good to me', user: { id: 'user-1' } },
+          {
+            id: 'comment-9',
+            body: '## Definition of Ready\n\n⚠️ This story is not ready yet: 1 of 4 checks failed.',
+            _user: { id: 'agent' }
+          }
+        ]
+      });
+
+      const result = await behavior.execute(context(readyIssue));
+
+      expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+      expect(mockLinearClient.updateComment).toHaveBeenCalledWith(
+        'comment-9',
+        expect.stringContaining('✅ This story meets the Definition of Ready.')
+      );
+      expect(mockLinearClient.updateComment.mock.calls[0][1]).toContain('- [x] Acceptance criteria (2 found)');
+      expect(result.actions[0].description).toBe('Updated Definition of Ready checklist');
+    });
+
+    it("should look past other users' comments and earlier pages for the agent's checklist", async () => {
+      const quoted = { id: 'comment-1', body: '## Definition of Ready\n\nQuoting the bot here', user: { id: 'user-1' } };
+      mockLinearClient.getComments
+        .mockResolvedValueOnce({ nodes: [quoted], pageInfo: { hasNextPage: true, endCursor: 'cursor-1' } })
+        .mockResolvedValueOnce({
+          nodes: [{ id: 'comment-9', body: '## Definition of Ready\n\n✅ Ready', user: { id: 'agent' } }],
+          pageInfo: { hasNextPage: false }
+        });
+
+      await behavior.execute(context(readyIssue));
+
+      expect(mockLinearClient.getComments).toHaveBeenLastCalledWith('issue-1', 'cursor-1');
+      expect(mockLinearClient.updateComment).toHaveBeenCalledWith('comment-9', expect.any(String));
+      expect(mockLinearClient.updateComment).not.toHaveBeenCalledWith('comment-1', expect.anything());
+    });
+
+    it('should not comment on a ready story without an earlier checklist', async () => {
+      const result = await behavior.execute(context(readyIssue));
+
+      expect(result).toMatchObject({ success: true, actions: [] });
+      expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+      expect(mockLinearClient.updateComment).not.toHaveBeenCalled();
+    });
+
+    it('should only run the checks a team enables', async () => {
+      behavior = new DefinitionOfReadyBehavior(mockLinearClient, {
+        minAcceptanceCriteria: 0,
+        requireParent: false,
+        requireNoBlockers: false
+      });
+
+      await behavior.execute(context({ ...readyIssue, estimate: undefined, parentId: undefined }));
+
+      expect(mockLinearClient.getIssue).not.toHaveBeenCalled();
+      expect(mockLinearClient.createComment.mock.calls[0][1]).toContain(
+        '⚠️ This story is not ready yet: 1 of 1 checks failed.\n\n- [ ] Estimate (not estimated)\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tests for WIP Limits Behavior
+ */
+
+import { WipLimitsBehavior } from '../../../src/agent/behaviors/wip-limits.behavior';
+import { BehaviorContext, BehaviorTriggerType } from '../../../src/agent/types/autonomous-types';
+import { saveWipCount } from '../../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../../src/linear/client');
+jest.mock('../../../src/db/models');
+jest.mock('../../../src/utils/logger');
+
+const mockedSaveWipCount = saveWipCount as jest.MockedFunction<typeof saveWipCount>;
+
+describe('WipLimitsBehavior', () => {
+  let behavior: WipLimitsBehavior;
+  let mockLinearClient: any;
+
+  const alice = { id: 'user-1', name: 'Alice' };
+  const bob = { id: 'user-2', name: 'Bob' };
+  const team = { id: 'team-1', name: 'Phoenix', key: 'PHX' };
+
+  const issue = {
+    id: 'issue-1',
+    identifier: 'PHX-12',
+    state: { name: 'In Progress' },
+    assignee: alice,
+    team
+  };
+
+  const teamIssues = [
+    { id: 'issue-1', state: { name: 'In Progress' }, assignee: alice },
+    { id: 'issue-2', state: { name: 'In Progress' }, assignee: alice },
+    { id: 'issue-3', state: { name: 'In Progress' }, assignee: bob },
+    { id: 'issue-4', state: { name: 'In Review' }, assignee: bob }
+  ];
+
+  const context = (metadata: Record<string, any>, overrides: Partial<BehaviorContext> = {}): BehaviorContext => ({
+    issue,
+    team,
+    triggerType: BehaviorTriggerType.WEBHOOK,
+    metadata: { webhookType: 'Issue', webhookAction: 'update', ...metadata },
+    timestamp: new Date(),
+    ...overrides
+  });
+
+  const scheduleContext: BehaviorContext = {
+    team,
+    triggerType: 'schedule',
+    timestamp: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLinearClient = {
+      getViewer: jest.fn().mockResolvedValue({ id: 'agent' }),
+      getTeams: jest.fn().mockResolvedValue({ nodes: [team] }),
+      getIssues: jest.fn().mockResolvedValue({ nodes: teamIssues }),
+      createIssue: jest.fn().mockResolvedValue({ id: 'summary-1' }),
+      createComment: jest.fn().mockResolvedValue({ id: 'comment-1' }),
+      updateIssue: jest.fn().mockResolvedValue({ id: 'issue-1' })
+    };
+    mockedSaveWipCount.mockResolvedValue({} as any);
+
+    behavior = new WipLimitsBehavior(mockLinearClient, {
+      stateLimits: { 'In Progress': 2, 'In Review': 3 },
+      assigneeLimits: { 'In Progress': 1 }
+    });
+  });
+
+  describe('shouldTrigger', () => {
+    it('should trigger when an issue is created, moved, reassigned or removed', async () => {
+      expect(await behavior.shouldTrigger(context({ webhookAction: 'create' }))).toBe(true);
+      expect(await behavior.shouldTrigger(context({ updatedFrom: { stateId: 'state-todo' } }))).toBe(true);
+      expect(await behavior.shouldTrigger(context({ updatedFrom: { assigneeId: 'user-2' } }))).toBe(true);
+      expect(await behavior.shouldTrigger(context({ webhookAction: 'remove' }))).toBe(true);
+    });
+
+    it('should not trigger for changes that leave the counts alone', async () => {
+      expect(await behavior.shouldTrigger(context({ updatedFrom: { title: 'Old title' } }))).toBe(false);
+      expect(await behavior.shouldTrigger(context({ webhookAction: 'create' }, { team: undefined, issue: { id: 'issue-9' } })))
+        .toBe(false);
+    });
+
+    it('should only run scheduled summaries when enabled and limits are set', async () => {
+      expect(await behavior.shouldTrigger(scheduleContext)).toBe(true);
+      expect(await new WipLimitsBehavior(mockLinearClient, { dailySummary: false }).shouldTrigger(scheduleContext))
+        .toBe(false);
+      expect(await new WipLimitsBehavior(mockLinearClient, {
+        stateLimits: { 'In Progress': 0 },
+        assigneeLimits: {}
+      }).shouldTrigger(scheduleContext)).toBe(false);
+    });
+
+    it('should only summarize every team when limits are configured for them', async () => {
+      const allTeams = { ...scheduleContext, team: undefined };
+
+      expect(await behavior.shouldTrigger(allTeams)).toBe(true);
+      expect(await new WipLimitsBehavior(mockLinearClient).shouldTrigger(allTeams)).toBe(false);
+      expect(await new WipLimitsBehavior(mockLinearClient).shouldTrigger(scheduleContext)).toBe(true);
+    });
+  });
+
+  describe('execute', () => {
+    it('should warn on an issue that takes its state and assignee over their limits', async () => {
+      const result = await behavior.execute(context({ updatedFrom: { stateId: 'state-todo' } }));
+
+      expect(mockLinearClient.getIssues).toHaveBeenCalledWith({
+        first: 250,
+        after: undefined,
+        filter: {
+          team: { id: { eq: 'team-1' } },
+          state: { name: { in: ['In Progress', 'In Review'] } }
+        }
+      });
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith('issue-1', [
+        '⚠️ **WIP limit exceeded**',
+        '',
+        '- In Progress has 3 issues for a limit of 2',
+        '- Alice has 2 issues in In Progress for a limit of 1',
+        '',
+        'Consider finishing work in progress before starting more.'
+      ].join('\n'));
+      expect(mockLinearClient.updateIssue).not.toHaveBeenCalled();
+      expect(result.actions[0]).toMatchObject({ type: 'comment', result: 'success' });
+    });
+
+    it('should move the issue back to its previous state when the team chose to', async () => {
+      behavior = new WipLimitsBehavior(mockLinearClient, {
+        stateLimits: { 'In Progress': 2 },
+        enforcement: 'move_back'
+      });
+
+      const result = await behavior.execute(context({ updatedFrom: { stateId: 'state-todo' } }));
+
+      expect(mockLinearClient.updateIssue).toHaveBeenCalledWith({ id: 'issue-1', stateId: 'state-todo' });
+      expect(mockLinearClient.createComment.mock.calls[0][1]).toContain('This issue was moved back to its previous state.');
+      expect(result.actions[0]).toMatchObject({ type: 'status_change', data: { stateId: 'state-todo' } });
+    });
+
+    it('should record the counts without warning when every limit holds', async () => {
+      behavior = new WipLimitsBehavior(mockLinearClient, { stateLimits: { 'In Progress': 3 } });
+
+      const result = await behavior.execute(context({ updatedFrom: { stateId: 'state-todo' } }));
+
+      expect(result).toMatchObject({ success: true, actions: [] });
+      expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+      expect(mockedSaveWipCount).toHaveBeenCalledWith({
+        team_id: 'team-1',
+        state_name: 'In Progress',
+        issue_count: 3,
+        wip_limit: 3,
+        assignee_counts: { 'user-1': 2, 'user-2': 1 },
+        source: 'webhook',
+        issue_id: 'issue-1'
+      });
+    });
+
+    it('should count the issues on every page', async () => {
+      behavior = new WipLimitsBehavior(mockLinearClient, { stateLimits: { 'In Progress': 3 } });
+      mockLinearClient.getIssues
+        .mockResolvedValueOnce({ nodes: teamIssues, pageInfo: { hasNextPage: true, endCursor: 'cursor-1' } })
+        .mockResolvedValueOnce({
+          nodes: [{ id: 'issue-5', state: { name: 'In Progress' }, assignee: bob }],
+          pageInfo: { hasNextPage: false }
+        });
+
+      await behavior.execute(context({ updatedFrom: { stateId: 'state-todo' } }));
+
+      expect(mockLinearClient.getIssues).toHaveBeenLastCalledWith(expect.objectContaining({ first: 250, after: 'cursor-1' }));
+      expect(mockLinearClient.createComment.mock.calls[0][1]).toContain('- In Progress has 4 issues for a limit of 3');
+      expect(mockedSaveWipCount).toHaveBeenCalledWith(expect.objectContaining({
+        issue_count: 4,
+        assignee_counts: { 'user-1': 2, 'user-2': 2 }
+      }));
+    });
+
+    it('should still enforce the limits when the history cannot be recorded', async () => {
+      mockedSaveWipCount.mockRejectedValue(new Error('Connection refused'));
+
+      const result = await behavior.execute(context({ webhookAction: 'create' }));
+
+      expect(result.success).toBe(true);
+      expect(mockLinearClient.createComment).toHaveBeenCalled();
+    });
+
+    it('should post and record a daily summary', async () => {
+      mockLinearClient.getIssues
+        .mockResolvedValueOnce({ nodes: teamIssues })
+        .mockResolvedValueOnce({ nodes: [] });
+
+      const result = await behavior.execute(scheduleContext);
+
+      expect(mockedSaveWipCount).toHaveBeenCalledTimes(2);
+      expect(mockedSaveWipCount.mock.calls[0][0]).toMatchObject({ state_name: 'In Progress', source: 'daily' });
+      expect(mockLinearClient.createIssue).toHaveBeenCalledWith(expect.objectContaining({
+        teamId: 'team-1',
+        title: '📊 Daily WIP Summary'
+      }));
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith('summary-1', [
+        '## Daily WIP Summary: Phoenix',
+        '',
+        '| State | Issues | Limit |',
+        '| --- | --- | --- |',
+        '| In Progress | 3 | 2 ⚠️ |',
+        '| In Review | 1 | 3 |',
+        '',
+        '**Assignees over their limit:**',
+        '- Alice: 2 in In Progress (limit 1)'
+      ].join('\n'));
+      expect(result.actions[0]).toMatchObject({
+        type: 'report',
+        data: { teamId: 'team-1', counts: { 'In Progress': 3, 'In Review': 1 } }
+      });
+    });
+
+    it('should not record history during a simulation', async () => {
+      await behavior.execute(context({ webhookAction: 'create' }, { simulated: true }));
+
+      expect(mockedSaveWipCount).not.toHaveBeenCalled();
+      expect(mockLinearClient.createComment).toHaveBeenCalled();
+    });
+  });
+});
@@ -2,8 +2,11 @@
  * Tests for Workflow Automation Behavior (LIN-59)
  */
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { WorkflowAutomationBehavior } from '../../../src/agent/behaviors/workflow-automation.behavior';
-import { BehaviorContext } from '../../../src/agent/types/autonomous-types';
+import { BehaviorContext, BehaviorTriggerType } from '../../../src/agent/types/autonomous-types';
 import { LinearClientWrapper } from '../../../src/linear/client';
 import * as logger from '../../../src/utils/logger';
 
@@ -452,5 +455,112 @@ describe('WorkflowAutomationBehavior', () => {
         expect.objectContaining({ name: 'custom-label' })
       );
     });
+
+    it('should apply rules from the rules file for the issue team', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-rules-'));
+      const rulesFile = path.join(directory, 'rules.yaml');
+      fs.writeFileSync(rulesFile, `
+teams:
+  PHX:
+    - trigger: label_added
+      label: bug
+      conditions:
+        - priority: { lte: 2 }
+      actions:
+        - type: update_priority
+          value: 1
+`);
+
+      try {
+        const fileBehavior = new WorkflowAutomationBehavior(mockLinearClient, { rulesFile });
+        const context = (team: any): BehaviorContext => ({
+          issue: {
+            id: 'issue-1',
+            priority: 2,
+            state: { name: 'In Progress' },
+            team,
+            labels: { nodes: [{ id: 'label-bug', name: 'Bug' }] }
+          },
+          previousState: {
+            state: { name: 'In Progress' },
+            labels: { nodes: [] }
+          },
+          timestamp: new Date()
+        });
+
+        await fileBehavior.execute(context({ id: 'team-2', key: 'ATL' }));
+        expect(mockLinearClient.updateIssue).not.toHaveBeenCalled();
+
+        const result = await fileBehavior.execute(context({ id: 'team-1', key: 'PHX' }));
+        expect(mockLinearClient.updateIssue).toHaveBeenCalledWith({ id: 'issue-1', priority: 1 });
+        expect(result.actions).toContainEqual(expect.objectContaining({ description: 'Updated priority to: 1' }));
+        expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should apply rules to a webhook update from the fields it changed', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-rules-'));
+      const rulesFile = path.join(directory, 'rules.yaml');
+      fs.writeFileSync(rulesFile, `
+rules:
+  - trigger: label_added
+    label: bug
+    actions:
+      - type: update_priority
+        value: 1
+  - trigger: assignee_changed
+    actions:
+      - type: add_label
+        value: triaged
+`);
+
+      try {
+        const fileBehavior = new WorkflowAutomationBehavior(mockLinearClient, { rulesFile });
+        // Issue update as Linear sends it: the new issue and the previous values of changed fields
+        const context: BehaviorContext = {
+          issue: {
+            id: 'issue-1',
+            identifier: 'PHX-7',
+            priority: 3,
+            stateId: 'state-2',
+            state: { id: 'state-2', name: 'Todo', color: '#e2e2e2', type: 'unstarted' },
+            assigneeId: 'user-2',
+            assignee: { id: 'user-2', name: 'Bob' },
+            labelIds: ['label-ui', 'label-bug'],
+            labels: [{ id: 'label-ui', name: 'UI', color: '#000' }, { id: 'label-bug', name: 'Bug', color: '#f00' }],
+            team: { id: 'team-1', key: 'PHX', name: 'Phoenix' }
+          },
+          team: { id: 'team-1', key: 'PHX', name: 'Phoenix' },
+          triggerType: BehaviorTriggerType.WEBHOOK,
+          metadata: {
+            webhookType: 'Issue',
+            webhookAction: 'update',
+            updatedFrom: { labelIds: ['label-ui'], assigneeId: null, updatedAt: '2025-08-14T09:00:00.000Z' }
+          },
+          timestamp: new Date()
+        };
+        (mockLinearClient.getLabels as jest.Mock).mockResolvedValue({ nodes: [{ id: 'label-triaged', name: 'triaged' }] });
+
+        expect(await fileBehavior.shouldTrigger(context)).toBe(true);
+        expect(await fileBehavior.shouldTrigger({
+          ...context,
+          metadata: { ...context.metadata, updatedFrom: { title: 'Old title' } }
+        })).toBe(false);
+
+        const result = await fileBehavior.execute(context);
+
+        expect(mockLinearClient.updateIssue).toHaveBeenCalledWith({ id: 'issue-1', priority: 1 });
+        expect(mockLinearClient.updateIssue).toHaveBeenCalledWith({
+          id: 'issue-1',
+          labelIds: ['label-ui', 'label-bug', 'label-triaged']
+        });
+        expect(result.actions).toContainEqual(expect.objectContaining({ description: 'Added label: triaged' }));
+        expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
   });
-});
\ No newline at end of file
+});
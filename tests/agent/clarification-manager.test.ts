@@ -0,0 +1,247 @@
+/**
+ * Unit Tests for Clarification Manager
+ */
+
+import { ClarificationManager, getClarificationTtl, getUpcomingPIs } from '../../src/agent/clarification-manager';
+import { CommandIntent, IssueContext } from '../../src/agent/types/command-types';
+import {
+  savePendingCommand,
+  getPendingCommand,
+  deletePendingCommand,
+  purgeExpiredPendingCommands
+} from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+const mockedSavePendingCommand = savePendingCommand as jest.MockedFunction<typeof savePendingCommand>;
+const mockedGetPendingCommand = getPendingCommand as jest.MockedFunction<typeof getPendingCommand>;
+const mockedDeletePendingCommand = deletePendingCommand as jest.MockedFunction<typeof deletePendingCommand>;
+const mockedPurgeExpiredPendingCommands = purgeExpiredPendingCommands as jest.MockedFunction<typeof purgeExpiredPendingCommands>;
+
+describe('ClarificationManager', () => {
+  let mockLinearClient: any;
+  let manager: ClarificationManager;
+
+  const thread = { issueId: 'issue-1', threadId: 'comment-1' };
+  const context: IssueContext = {
+    issueId: 'issue-1',
+    issueIdentifier: 'PHX-1',
+    issueTitle: 'Checkout flow',
+    teamId: '',
+    labels: []
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-08-15T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+
+    mockLinearClient = {
+      getTeams: jest.fn().mockResolvedValue({
+        nodes: [
+          { id: 'team-1', key: 'PHX', name: 'Team Phoenix' },
+          { id: 'team-2', key: 'ATL', name: 'Team Atlas' }
+        ]
+      }),
+      getIssue: jest.fn().mockResolvedValue({ id: 'issue-1' })
+    };
+
+    mockedGetPendingCommand.mockResolvedValue(null);
+    mockedSavePendingCommand.mockResolvedValue({} as any);
+    mockedPurgeExpiredPendingCommands.mockResolvedValue(0);
+
+    manager = new ClarificationManager(mockLinearClient);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('handleComment', () => {
+    it('should ask which team when a required team is missing', async () => {
+      const outcome = await manager.handleComment('check capacity', thread, context);
+
+      expect(outcome).toEqual({ status: 'clarify', question: 'Which team: Team Phoenix or Team Atlas?' });
+      expect(mockedSavePendingCommand).toHaveBeenCalledWith(
+        'comment-1',
+        'issue-1',
+        CommandIntent.CAPACITY_CHECK,
+        'check capacity',
+        expect.objectContaining({ iterations: 2 }),
+        context,
+        'teamId',
+        ['Team Phoenix', 'Team Atlas'],
+        'Which team: Team Phoenix or Team Atlas?',
+        new Date(Date.now() + 30 * 60 * 1000)
+      );
+    });
+
+    it('should ask a free-form question when there is nothing to offer', async () => {
+      const outcome = await manager.handleComment('score this story', thread, context);
+
+      expect(outcome).toEqual({ status: 'clarify', question: 'Which story should I use?' });
+      expect(mockedSavePendingCommand).toHaveBeenCalledWith(
+        'comment-1', 'issue-1', CommandIntent.STORY_SCORE, 'score this story',
+        expect.anything(), context, 'storyId', [], 'Which story should I use?', expect.any(Date)
+      );
+    });
+
+    it('should run commands that need no clarification right away', async () => {
+      const outcome = await manager.handleComment('check capacity for team PHX', thread, context);
+
+      expect(outcome).toEqual({
+        status: 'ready',
+        command: expect.objectContaining({ intent: CommandIntent.CAPACITY_CHECK })
+      });
+      expect(mockedSavePendingCommand).not.toHaveBeenCalled();
+    });
+
+    it('should leave help questions to the caller', async () => {
+      const outcome = await manager.handleComment('help', thread, context);
+
+      expect(outcome).toEqual({ status: 'none' });
+    });
+
+    it('should return chained commands in order', async () => {
+      const outcome = await manager.handleComment('decompose this story and then score the sub-stories', thread, context);
+
+      expect(outcome).toEqual({
+        status: 'chain',
+        commands: [
+          expect.objectContaining({ intent: CommandIntent.STORY_DECOMPOSE }),
+          expect.objectContaining({ intent: CommandIntent.STORY_SCORE })
+        ]
+      });
+      expect(mockedSavePendingCommand).not.toHaveBeenCalled();
+    });
+
+    it('should run complete undo commands right away', async () => {
+      const outcome = await manager.handleComment('undo', thread, context);
+
+      expect(outcome).toEqual({ status: 'ready', command: expect.objectContaining({ intent: CommandIntent.UNDO }) });
+    });
+
+    it('should run valid structured commands right away', async () => {
+      const outcome = await manager.handleComment(
+        '@saafepulse /decompose --max-points 3 --strategy workflow --team PHX',
+        thread,
+        context
+      );
+
+      expect(outcome).toEqual({
+        status: 'ready',
+        command: expect.objectContaining({
+          intent: CommandIntent.STORY_DECOMPOSE,
+          parameters: expect.objectContaining({ targetSize: 3, decompositionStrategy: 'workflow', teamId: 'PHX' })
+        })
+      });
+    });
+
+    it('should reply with the usage when a structured command is invalid', async () => {
+      const syntax = await manager.handleComment('@saafepulse /decompose --max-points many', thread, context);
+      const range = await manager.handleComment('@saafepulse /plan PI-2025-Q4 --iterations 20 --team PHX', thread, context);
+
+      expect(syntax).toEqual({ status: 'reply', message: expect.stringContaining('--max-points must be a number, not "many"') });
+      expect(syntax).toEqual({ status: 'reply', message: expect.stringContaining('**Usage**: `@saafepulse /decompose') });
+      expect(range).toEqual({ status: 'reply', message: expect.stringContaining('Iterations must be a whole number between 1 and 12') });
+      expect(mockedSavePendingCommand).not.toHaveBeenCalled();
+    });
+
+    it('should replace an unanswered question with a new command', async () => {
+      mockedGetPendingCommand.mockResolvedValue({ thread_id: 'comment-1' } as any);
+
+      await manager.handleComment('check capacity', thread, context);
+
+      expect(mockedDeletePendingCommand).toHaveBeenCalledWith('comment-1');
+      expect(mockedSavePendingCommand).toHaveBeenCalled();
+    });
+  });
+
+  describe('handleReply', () => {
+    const pending: any = {
+      thread_id: 'comment-1',
+      issue_id: 'issue-1',
+      intent: CommandIntent.ART_OPTIMIZE,
+      raw_text: 'optimize ART for PI 2025 Q7',
+      parameters: { piId: 'PI-2025-Q7', teamId: 'team-1', explicit: { piId: true, teamId: false } },
+      context: { ...context, teamId: 'team-1' },
+      parameter: 'piId',
+      options: ['PI-2025-Q3', 'PI-2025-Q4'],
+      question: 'Invalid PI format: PI-2025-Q7. Expected format: PI-YYYY-QN\n\nWhich PI: PI-2025-Q3 or PI-2025-Q4?'
+    };
+
+    it('should complete the pending command with a short reply', async () => {
+      mockedGetPendingCommand.mockResolvedValue(pending);
+
+      const outcome = await manager.handleReply('Q4', thread);
+
+      expect(outcome.status).toBe('ready');
+      const { command } = outcome as any;
+      expect(command.intent).toBe(CommandIntent.ART_OPTIMIZE);
+      expect(command.rawText).toBe('optimize ART for PI 2025 Q7');
+      expect(command.parameters).toEqual(expect.objectContaining({ piId: 'PI-2025-Q4', teamId: 'team-1' }));
+      expect(command.parameters.explicit.piId).toBe(true);
+      expect(mockedDeletePendingCommand).toHaveBeenCalledWith('comment-1');
+    });
+
+    it('should ask again when the reply does not answer the question', async () => {
+      mockedGetPendingCommand.mockResolvedValue(pending);
+
+      const outcome = await manager.handleReply('not sure yet', thread);
+
+      expect(outcome).toEqual({
+        status: 'clarify',
+        question: "Sorry, I didn't catch that. Which PI: PI-2025-Q3 or PI-2025-Q4?"
+      });
+      expect(mockedDeletePendingCommand).not.toHaveBeenCalled();
+    });
+
+    it('should ignore replies in threads without a pending command', async () => {
+      const outcome = await manager.handleReply('Q4', thread);
+
+      expect(outcome).toEqual({ status: 'none' });
+    });
+  });
+
+  describe('resolveReply', () => {
+    it('should pick options by number, full value or a distinctive part', () => {
+      const pending = { parameter: 'teamId', options: ['Team Phoenix', 'Team Atlas'] };
+
+      expect(manager.resolveReply(pending, '2')).toBe('Team Atlas');
+      expect(manager.resolveReply(pending, '@saafepulse team phoenix')).toBe('Team Phoenix');
+      expect(manager.resolveReply(pending, 'atlas.')).toBe('Team Atlas');
+      expect(manager.resolveReply(pending, 'team')).toBeUndefined();
+    });
+
+    it('should take free-form answers as the parameter value', () => {
+      expect(manager.resolveReply({ parameter: 'storyId', options: [] }, 'use phx-42 please')).toBe('PHX-42');
+      expect(manager.resolveReply({ parameter: 'targetSize', options: [] }, '3')).toBe(3);
+      expect(manager.resolveReply({ parameter: 'targetSize', options: [] }, 'small')).toBeUndefined();
+    });
+  });
+
+  describe('configuration', () => {
+    const originalTtl = process.env.CLARIFICATION_TTL_MINUTES;
+
+    afterEach(() => {
+      if (originalTtl === undefined) {
+        delete process.env.CLARIFICATION_TTL_MINUTES;
+      } else {
+        process.env.CLARIFICATION_TTL_MINUTES = originalTtl;
+      }
+    });
+
+    it('should read the TTL from the environment', () => {
+      process.env.CLARIFICATION_TTL_MINUTES = '5';
+      expect(getClarificationTtl()).toBe(5 * 60 * 1000);
+
+      process.env.CLARIFICATION_TTL_MINUTES = 'invalid';
+      expect(getClarificationTtl()).toBe(30 * 60 * 1000);
+    });
+
+    it('should roll upcoming PIs over the year end', () => {
+      expect(getUpcomingPIs(new Date(2025, 10, 1))).toEqual(['PI-2025-Q4', 'PI-2026-Q1']);
+    });
+  });
+});
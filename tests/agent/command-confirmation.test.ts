@@ -0,0 +1,215 @@
+/**
+ * Unit Tests for Command Confirmation
+ */
+
+import {
+  CommandConfirmationManager,
+  getReactionDecision,
+  requiresConfirmation
+} from '../../src/agent/command-confirmation';
+import { CommandPermissions } from '../../src/agent/command-permissions';
+import { ExecutionResult } from '../../src/agent/cli-executor';
+import { CommandIntent, ParsedCommand } from '../../src/agent/types/command-types';
+import { deletePendingPlan, getPendingPlan, purgeExpiredPendingPlans, savePendingPlan } from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/db/models');
+
+const mockedSavePendingPlan = savePendingPlan as jest.MockedFunction<typeof savePendingPlan>;
+const mockedGetPendingPlan = getPendingPlan as jest.MockedFunction<typeof getPendingPlan>;
+const mockedDeletePendingPlan = deletePendingPlan as jest.MockedFunction<typeof deletePendingPlan>;
+const mockedPurgeExpiredPendingPlans = purgeExpiredPendingPlans as jest.MockedFunction<typeof purgeExpiredPendingPlans>;
+
+describe('CommandConfirmationManager', () => {
+  let linearClient: any;
+  let manager: CommandConfirmationManager;
+
+  const createCommand = (intent: CommandIntent): ParsedCommand => ({
+    intent,
+    confidence: 0.9,
+    rawText: intent,
+    normalizedText: intent,
+    context: { issueId: 'issue-1', issueIdentifier: 'PHX-1', issueTitle: 'Checkout', teamId: 'team-phx', labels: [] },
+    timestamp: new Date('2024-01-01T12:00:00Z'),
+    metadata: { processingTime: 1 },
+    requester: { id: 'user-1', name: 'Jane Doe' }
+  });
+
+  const createResult = (data: any): ExecutionResult => ({
+    success: true,
+    command: 'command',
+    parameters: {},
+    executionTime: 5,
+    data
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    linearClient = {
+      getIssue: jest.fn().mockResolvedValue({ id: 'issue-1', team: Promise.resolve({ id: 'team-phx' }) }),
+      getTeamCycles: jest.fn().mockResolvedValue({
+        nodes: [
+          { id: 'cycle-old', number: 10, startsAt: '2020-01-01', endsAt: '2020-01-14', completedAt: '2020-01-14' },
+          { id: 'cycle-12', number: 12, startsAt: '2999-01-15', endsAt: '2999-01-28' },
+          { id: 'cycle-11', number: 11, name: 'Sprint 11', startsAt: '2999-01-01', endsAt: '2999-01-14' }
+        ]
+      }),
+      createIssue: jest.fn().mockResolvedValue({ issue: Promise.resolve({ id: 'issue-new' }) }),
+      updateIssue: jest.fn().mockResolvedValue({ success: true })
+    };
+    manager = new CommandConfirmationManager(linearClient, new CommandPermissions(null));
+    mockedPurgeExpiredPendingPlans.mockResolvedValue(0);
+  });
+
+  it('should only confirm commands that change Linear', () => {
+    expect(requiresConfirmation(CommandIntent.STORY_DECOMPOSE)).toBe(true);
+    expect(requiresConfirmation(CommandIntent.ART_PLAN)).toBe(true);
+    expect(requiresConfirmation(CommandIntent.STATUS_CHECK)).toBe(false);
+
+    expect(getReactionDecision(':white_check_mark:')).toBe('confirm');
+    expect(getReactionDecision('❌')).toBe('discard');
+    expect(getReactionDecision('tada')).toBeUndefined();
+  });
+
+  describe('planChanges', () => {
+    it('should propose sub-stories under the decomposed story', async () => {
+      const plan = await manager.planChanges(createCommand(CommandIntent.STORY_DECOMPOSE), createResult({
+        decomposition: {
+          originalStoryId: 'issue-1',
+          originalIdentifier: 'PHX-1',
+          subStories: [{ title: 'Cart', points: 3, acceptanceCriteria: ['Items can be added'] }]
+        }
+      }));
+
+      expect(plan).toEqual({
+        changes: [{
+          type: 'create_issue',
+          teamId: 'team-phx',
+          parentId: 'issue-1',
+          parentIdentifier: 'PHX-1',
+          title: 'Cart',
+          description: '## Acceptance Criteria\n\n- [ ] Items can be added',
+          estimate: 3
+        }],
+        warnings: []
+      });
+    });
+
+    it('should map iterations to the team\'s upcoming cycles in order', async () => {
+      const plan = await manager.planChanges(createCommand(CommandIntent.ART_PLAN), createResult({
+        plan: {
+          assignments: [1, 2, 3].map(iteration => ({
+            iteration,
+            name: `Iteration ${iteration}`,
+            workItems: [{ id: `issue-${iteration}`, identifier: `PHX-${iteration}`, title: 'Work' }]
+          }))
+        }
+      }));
+
+      expect(linearClient.getTeamCycles).toHaveBeenCalledTimes(1);
+      expect(plan.changes).toEqual([
+        expect.objectContaining({ issueId: 'issue-1', cycleId: 'cycle-11', cycleName: 'Sprint 11' }),
+        expect.objectContaining({ issueId: 'issue-2', cycleId: 'cycle-12', cycleName: 'Cycle 12' })
+      ]);
+      expect(plan.warnings).toEqual(['PHX-3 Work: no Linear cycle for iteration 3']);
+    });
+  });
+
+  it('should format a preview that explains how to confirm', () => {
+    const preview = manager.formatPreview(createCommand(CommandIntent.ART_PLAN), {
+      changes: [{ type: 'assign_cycle', issueId: 'issue-2', identifier: 'PHX-2', title: 'Work', cycleId: 'c', cycleName: 'Cycle 12' }],
+      warnings: ['PHX-3 Work: no Linear cycle for iteration 3']
+    });
+
+    expect(preview).toContain('## 👀 Preview: ART Plan');
+    expect(preview).toContain('### Assign 1 issue to cycles\n\n- PHX-2 Work → Cycle 12');
+    expect(preview).toContain('- PHX-3 Work: no Linear cycle for iteration 3');
+    expect(preview).toContain('React with ✅ to apply these changes or ❌ to discard them. This preview expires in 60 minutes.');
+  });
+
+  it('should keep the changes with the preview comment until they expire', async () => {
+    const command = createCommand(CommandIntent.STORY_DECOMPOSE);
+
+    await manager.savePreview('preview-1', 'comment-1', command, []);
+
+    const expiresAt = mockedSavePendingPlan.mock.calls[0][7];
+    expect(mockedSavePendingPlan).toHaveBeenCalledWith(
+      'preview-1', 'comment-1', 'issue-1', CommandIntent.STORY_DECOMPOSE, command, [], 'user-1', expect.any(Date)
+    );
+    expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+  });
+
+  describe('handleReaction', () => {
+    const pendingPlan = (expiresAt: Date) => ({
+      comment_id: 'preview-1',
+      thread_id: 'comment-1',
+      issue_id: 'issue-1',
+      intent: CommandIntent.ART_PLAN,
+      command: { ...createCommand(CommandIntent.ART_PLAN), timestamp: '2024-01-01T12:00:00Z' },
+      changes: [
+        { type: 'assign_cycle', issueId: 'issue-2', identifier: 'PHX-2', cycleId: 'cycle-11', cycleName: 'Sprint 11' },
+        { type: 'assign_cycle', issueId: 'issue-3', identifier: 'PHX-3', cycleId: 'cycle-12', cycleName: 'Cycle 12' }
+      ],
+      requester_id: 'user-1',
+      created_at: new Date(),
+      expires_at: expiresAt
+    });
+
+    beforeEach(() => {
+      mockedGetPendingPlan.mockResolvedValue(pendingPlan(new Date(Date.now() + 60000)) as any);
+      mockedDeletePendingPlan.mockResolvedValue(true);
+    });
+
+    it('should apply every change and report the ones that failed', async () => {
+      linearClient.updateIssue
+        .mockResolvedValueOnce({ success: true })
+        .mockRejectedValueOnce(new Error('Cycle is locked'));
+
+      const outcome = await manager.handleReaction('preview-1', '✅', { id: 'user-2', name: 'Sam' });
+
+      expect(linearClient.updateIssue).toHaveBeenCalledWith({ id: 'issue-2', cycleId: 'cycle-11' });
+      expect(outcome).toEqual(expect.objectContaining({ status: 'applied', issueId: 'issue-1', threadId: 'comment-1' }));
+      expect(outcome.status !== 'none' && outcome.message).toContain('Applied 1 of 2 changes for Sam.');
+      expect(outcome.status !== 'none' && outcome.message).toContain('- Could not assign PHX-3 to Cycle 12: Cycle is locked');
+    });
+
+    it('should not apply a plan twice', async () => {
+      mockedDeletePendingPlan.mockResolvedValue(false);
+
+      await expect(manager.handleReaction('preview-1', '✅', { id: 'user-2' })).resolves.toEqual({ status: 'none' });
+      expect(linearClient.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should discard expired plans without applying them', async () => {
+      mockedGetPendingPlan.mockResolvedValue(pendingPlan(new Date(Date.now() - 1000)) as any);
+
+      const outcome = await manager.handleReaction('preview-1', '✅', { id: 'user-2' });
+
+      expect(outcome.status).toBe('expired');
+      expect(mockedDeletePendingPlan).toHaveBeenCalledWith('preview-1');
+      expect(linearClient.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should only let users who may run the command decide', async () => {
+      const restricted = new CommandConfirmationManager(linearClient, new CommandPermissions({
+        roles: { rte: { intents: ['*'] } },
+        users: { 'user-rte': ['rte'] }
+      }));
+
+      const outcome = await restricted.handleReaction('preview-1', '❌', { id: 'user-2', name: 'Sam' });
+
+      expect(outcome).toEqual(expect.objectContaining({
+        status: 'denied',
+        message: '🔒 Sorry, Sam, only people who may run **art_plan** can discard this plan.'
+      }));
+      expect(mockedDeletePendingPlan).not.toHaveBeenCalled();
+    });
+
+    it('should ignore reactions that are not decisions', async () => {
+      await expect(manager.handleReaction('preview-1', 'eyes', { id: 'user-2' })).resolves.toEqual({ status: 'none' });
+      expect(mockedGetPendingPlan).not.toHaveBeenCalled();
+    });
+  });
+});
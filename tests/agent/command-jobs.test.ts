@@ -0,0 +1,224 @@
+/**
+ * Unit Tests for Command Jobs
+ */
+
+import {
+  CommandJobManager,
+  JobCancelledError,
+  formatJobProgress,
+  isJobIntent,
+  reportJobProgress,
+  waitForCommandJobs
+} from '../../src/agent/command-jobs';
+import { ExecutionResult } from '../../src/agent/cli-executor';
+import { CommandIntent, ParsedCommand } from '../../src/agent/types/command-types';
+import { createCommandJob, getCommandJob, updateCommandJob } from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+const mockedCreateCommandJob = createCommandJob as jest.MockedFunction<typeof createCommandJob>;
+const mockedGetCommandJob = getCommandJob as jest.MockedFunction<typeof getCommandJob>;
+const mockedUpdateCommandJob = updateCommandJob as jest.MockedFunction<typeof updateCommandJob>;
+
+describe('Command Jobs', () => {
+  let mockLinearClient: any;
+  let runner: { execute: jest.Mock; format: jest.Mock };
+  let manager: CommandJobManager;
+  let commentCount: number;
+
+  const thread = { issueId: 'issue-1', threadId: 'comment-1' };
+  const command: ParsedCommand = {
+    intent: CommandIntent.ART_PLAN,
+    confidence: 1,
+    rawText: 'plan PI-2025-Q4',
+    normalizedText: 'plan pi-2025-q4',
+    context: { issueId: 'issue-1', issueIdentifier: 'PHX-1', issueTitle: 'PI planning', teamId: 'team-1', labels: [] },
+    timestamp: new Date(),
+    parameters: { piId: 'PI-2025-Q4', explicit: { piId: true } },
+    requester: { id: 'user-1', name: 'Jane Doe' },
+    metadata: { processingTime: 1 }
+  };
+
+  const success: ExecutionResult = {
+    success: true,
+    data: { plan: { piId: 'PI-2025-Q4' } },
+    executionTime: 10,
+    command: 'art-plan',
+    parameters: {}
+  };
+
+  const commentBodies = () => mockLinearClient.updateComment.mock.calls.map((call: any[]) => call[1]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    commentCount = 0;
+
+    mockLinearClient = {
+      createComment: jest.fn().mockImplementation(async () => ({
+        comment: Promise.resolve({ id: `progress-${++commentCount}` })
+      })),
+      updateComment: jest.fn().mockResolvedValue({})
+    };
+    runner = {
+      execute: jest.fn().mockImplementation(async () => {
+        await reportJobProgress('Fetching work items');
+        await reportJobProgress('Planning iterations');
+        return success;
+      }),
+      format: jest.fn().mockReturnValue({ message: '## ❌ ART planning failed' })
+    };
+
+    mockedCreateCommandJob.mockImplementation(async job => job as any);
+    mockedUpdateCommandJob.mockResolvedValue(null);
+
+    manager = new CommandJobManager(mockLinearClient, runner);
+  });
+
+  afterEach(async () => {
+    await waitForCommandJobs();
+  });
+
+  it('should run ART planning and optimization as jobs', () => {
+    expect(isJobIntent(CommandIntent.ART_PLAN)).toBe(true);
+    expect(isJobIntent(CommandIntent.ART_OPTIMIZE)).toBe(true);
+    expect(isJobIntent(CommandIntent.STORY_SCORE)).toBe(false);
+  });
+
+  it('should edit one progress comment as stages finish, then replace it with the result', async () => {
+    const present = jest.fn().mockResolvedValue('## 🎯 ART Plan Preview');
+
+    const job = await manager.start(command, thread, present);
+    await waitForCommandJobs();
+
+    expect(job.id).toMatch(/^job_\d+_[a-z0-9]+$/);
+    expect(mockLinearClient.createComment).toHaveBeenCalledTimes(1);
+    expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+      'issue-1',
+      expect.stringContaining(`## ⏳ ART Plan queued\n\n**Job**: \`${job.id}\``),
+      'comment-1'
+    );
+    expect(mockedCreateCommandJob).toHaveBeenCalledWith(expect.objectContaining({
+      id: job.id,
+      comment_id: 'progress-1',
+      intent: CommandIntent.ART_PLAN,
+      requester_id: 'user-1'
+    }));
+
+    expect(runner.execute).toHaveBeenCalledWith(command, { timeout: 30 * 60 * 1000 });
+    expect(mockLinearClient.updateComment.mock.calls.every((call: any[]) => call[0] === 'progress-1')).toBe(true);
+
+    const bodies = commentBodies();
+    expect(bodies[1]).toContain('**Progress**: 0%\n\n- 🔄 Fetching work items\n- ⬜ Building dependency graph');
+    expect(bodies[2]).toContain('**Progress**: 75%');
+    expect(bodies[2]).toContain('- ✅ Loading ART teams\n- 🔄 Planning iterations');
+    expect(bodies[bodies.length - 1]).toBe('## 🎯 ART Plan Preview');
+
+    expect(present).toHaveBeenCalledWith(success, 'progress-1');
+    expect(mockedUpdateCommandJob).toHaveBeenLastCalledWith(job.id, expect.objectContaining({
+      status: 'succeeded',
+      progress: 100
+    }));
+  });
+
+  it('should replace the progress comment with the error when the command fails', async () => {
+    runner.execute.mockResolvedValue({ ...success, success: false, error: 'Execution timeout after 1800000ms' });
+
+    const job = await manager.start(command, thread, jest.fn());
+    await waitForCommandJobs();
+
+    expect(commentBodies().pop()).toBe('## ❌ ART planning failed');
+    expect(mockedUpdateCommandJob).toHaveBeenLastCalledWith(job.id, expect.objectContaining({
+      status: 'failed',
+      error: 'Execution timeout after 1800000ms'
+    }));
+  });
+
+  it('should queue jobs beyond the concurrency limit', async () => {
+    process.env.COMMAND_JOB_CONCURRENCY = '1';
+    let release: () => void = () => undefined;
+    runner.execute.mockImplementationOnce(() => new Promise(resolve => {
+      release = () => resolve(success);
+    }));
+
+    try {
+      await manager.start(command, thread, jest.fn().mockResolvedValue('first'));
+      await manager.start(command, thread, jest.fn().mockResolvedValue('second'));
+
+      expect(runner.execute).toHaveBeenCalledTimes(1);
+
+      release();
+      await waitForCommandJobs();
+
+      expect(runner.execute).toHaveBeenCalledTimes(2);
+    } finally {
+      delete process.env.COMMAND_JOB_CONCURRENCY;
+    }
+  });
+
+  describe('cancel', () => {
+    it('should stop a running job at its next stage and discard its result', async () => {
+      const present = jest.fn();
+      let job: any;
+      runner.execute.mockImplementation(async () => {
+        await reportJobProgress('Fetching work items');
+        mockedGetCommandJob.mockResolvedValue({ ...job, status: 'running', cancelled_by: 'Sam Lee' });
+        const cancellation = await manager.cancel(job.id, 'Sam Lee');
+        expect(cancellation.stopped).toBe(false);
+        await expect(reportJobProgress('Building dependency graph')).rejects.toThrow(JobCancelledError);
+        return success;
+      });
+
+      job = await manager.start(command, thread, present);
+      await waitForCommandJobs();
+
+      expect(present).not.toHaveBeenCalled();
+      expect(commentBodies().pop()).toContain('## 🛑 ART Plan cancelled');
+      expect(commentBodies().pop()).toContain('Cancelled by Sam Lee. Nothing was changed in Linear.');
+      expect(mockedUpdateCommandJob).toHaveBeenLastCalledWith(job.id, expect.objectContaining({
+        status: 'cancelled',
+        cancelled_by: 'Sam Lee'
+      }));
+    });
+
+    it('should cancel jobs no process is running', async () => {
+      mockedGetCommandJob.mockResolvedValue({
+        id: 'job_1_orphan',
+        comment_id: 'progress-9',
+        intent: CommandIntent.ART_PLAN,
+        status: 'running'
+      } as any);
+
+      const cancellation = await manager.cancel('job_1_orphan', 'Sam Lee');
+
+      expect(cancellation.stopped).toBe(true);
+      expect(cancellation.job.status).toBe('cancelled');
+      expect(mockLinearClient.updateComment).toHaveBeenCalledWith('progress-9', expect.stringContaining('🛑'));
+    });
+
+    it('should refuse to cancel unknown or finished jobs', async () => {
+      mockedGetCommandJob.mockResolvedValueOnce(null);
+      await expect(manager.cancel('job_1_missing')).rejects.toThrow('Job not found: job_1_missing');
+
+      mockedGetCommandJob.mockResolvedValueOnce({ id: 'job_1_done', status: 'succeeded' } as any);
+      await expect(manager.cancel('job_1_done')).rejects.toThrow('Job job_1_done has already succeeded');
+    });
+  });
+
+  it('should do nothing when progress is reported outside a job', async () => {
+    await expect(reportJobProgress('Fetching work items')).resolves.toBeUndefined();
+  });
+
+  it('should format a failed job with its error', () => {
+    const message = formatJobProgress({
+      id: 'job_1_abc',
+      intent: CommandIntent.ART_OPTIMIZE,
+      status: 'failed',
+      error: 'Linear API unavailable',
+      progress: 40
+    } as any);
+
+    expect(message).toBe('## ❌ ART Optimization failed\n\n**Job**: `job_1_abc`\n\nLinear API unavailable\n');
+  });
+});
@@ -170,6 +170,100 @@ describe('AgentCommandParser', () => {
     });
   });
 
+  describe('Risk Management Commands', () => {
+    it('should recognize "roam this risk as owned by @alice" command', () => {
+      const result = parser.parseCommand('@saafepulse roam this risk as owned by @alice', mockContext);
+
+      expect(result.intent).toBe(CommandIntent.RISK_MANAGE);
+      expect(result.confidence).toBeGreaterThan(0.8);
+    });
+
+    it('should recognize "show PI risks" variation', () => {
+      const result = parser.parseCommand('@saafepulse show PI risks', mockContext);
+
+      expect(result.intent).toBe(CommandIntent.RISK_MANAGE);
+    });
+
+    it('should recognize "mark this risk as mitigated" variation', () => {
+      const result = parser.parseCommand('@saafepulse mark this risk as mitigated', mockContext);
+
+      expect(result.intent).toBe(CommandIntent.RISK_MANAGE);
+    });
+  });
+
+  describe('Capacity Check Commands', () => {
+    it('should recognize "check capacity for Team Phoenix next iteration" command', () => {
+      const result = parser.parseCommand('@saafepulse check capacity for Team Phoenix next iteration', mockContext);
+
+      expect(result.intent).toBe(CommandIntent.CAPACITY_CHECK);
+      expect(result.confidence).toBeGreaterThan(0.8);
+    });
+
+    it('should recognize "are we overcommitted?" question', () => {
+      const result = parser.parseCommand('@saafepulse are we overcommitted?', mockContext);
+
+      expect(result.intent).toBe(CommandIntent.CAPACITY_CHECK);
+    });
+  });
+
+  describe('Undo Commands', () => {
+    it('should recognize "undo" and "revert your last changes"', () => {
+      expect(parser.parseCommand('@saafepulse undo', mockContext).intent).toBe(CommandIntent.UNDO);
+      expect(parser.parseCommand('@saafepulse revert your last changes', mockContext).intent).toBe(CommandIntent.UNDO);
+    });
+  });
+
+  describe('Job Commands', () => {
+    it('should recognize job status and cancel requests', () => {
+      expect(parser.parseCommand('@saafepulse job status job_1718000000000_abc123def', mockContext).intent)
+        .toBe(CommandIntent.JOB_STATUS);
+      expect(parser.parseCommand('@saafepulse how is my job doing?', mockContext).intent).toBe(CommandIntent.JOB_STATUS);
+      expect(parser.parseCommand('@saafepulse cancel job_1718000000000_abc123def', mockContext).intent)
+        .toBe(CommandIntent.JOB_CANCEL);
+      expect(parser.parseCommand('@saafepulse stop the running job', mockContext).intent).toBe(CommandIntent.JOB_CANCEL);
+    });
+  });
+
+  describe('Command Chains', () => {
+    it('should split "and then" into pipeline steps', () => {
+      const steps = parser.parseCommandChain('@saafepulse decompose this story and then score the sub-stories', mockContext);
+
+      expect(steps.map(step => step.intent)).toEqual([CommandIntent.STORY_DECOMPOSE, CommandIntent.STORY_SCORE]);
+      expect(steps[1].rawText).toBe('score the sub-stories');
+    });
+
+    it('should split "then" into pipeline steps', () => {
+      const steps = parser.parseCommandChain('@saafepulse map dependencies then optimize ART', mockContext);
+
+      expect(steps.map(step => step.intent)).toEqual([CommandIntent.DEPENDENCY_MAP, CommandIntent.ART_OPTIMIZE]);
+    });
+
+    it('should keep "and" inside a single command', () => {
+      const steps = parser.parseCommandChain('@saafepulse check capacity for Team Phoenix and Team Atlas', mockContext);
+
+      expect(steps).toHaveLength(1);
+      expect(steps[0].intent).toBe(CommandIntent.CAPACITY_CHECK);
+    });
+
+    it('should never split structured commands', () => {
+      const steps = parser.parseCommandChain('@saafepulse /roam owned --owner "then and"', mockContext);
+
+      expect(steps).toHaveLength(1);
+      expect(steps[0].parameters?.riskOwner).toBe('then and');
+    });
+  });
+
+  describe('Structured Commands', () => {
+    it('should bypass pattern matching for slash commands', () => {
+      const result = parser.parseCommand('@saafepulse /plan PI-2025-Q4 --iterations 5 --dry-run', mockContext);
+
+      expect(result.intent).toBe(CommandIntent.ART_PLAN);
+      expect(result.confidence).toBe(1);
+      expect(result.matchedPattern).toBe('/plan');
+      expect(result.parameters).toMatchObject({ piId: 'PI-2025-Q4', iterations: 5, dryRun: true });
+    });
+  });
+
   describe('Help Commands', () => {
     it('should recognize simple "help" command', () => {
       const result = parser.parseCommand('@saafepulse help', mockContext);
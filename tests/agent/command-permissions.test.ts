@@ -0,0 +1,158 @@
+/**
+ * Unit Tests for Command Permissions
+ */
+
+import fsSync, { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CommandPermissions,
+  loadPermissionPolicy,
+  PermissionPolicy,
+  validatePermissionPolicy
+} from '../../src/agent/command-permissions';
+import { CommandIntent, ParsedCommand } from '../../src/agent/types/command-types';
+
+describe('CommandPermissions', () => {
+  const policy: PermissionPolicy = {
+    roles: {
+      rte: { intents: ['*'] },
+      'product-manager': { intents: [CommandIntent.VALUE_ANALYZE, CommandIntent.STORY_SCORE] },
+      'team-member': { intents: [CommandIntent.STATUS_CHECK, CommandIntent.STORY_DECOMPOSE, CommandIntent.HELP] }
+    },
+    users: {
+      'user-rte': ['rte'],
+      'Pat@Example.com': [{ role: 'product-manager', teams: ['PHX'] }]
+    },
+    teams: {
+      PHX: ['team-member']
+    },
+    defaultRoles: [{ role: 'team-member', teams: ['ATL'] }]
+  };
+
+  const createCommand = (
+    intent: CommandIntent,
+    requester?: ParsedCommand['requester'],
+    team: { teamId: string; teamKey?: string; teamName?: string } = { teamId: 'team-phx', teamKey: 'PHX', teamName: 'Phoenix' },
+    parameters: any = { explicit: {} }
+  ): ParsedCommand => ({
+    intent,
+    confidence: 0.9,
+    rawText: intent,
+    normalizedText: intent,
+    context: { issueId: 'issue-1', issueIdentifier: 'PHX-1', issueTitle: 'Story', labels: [], ...team },
+    timestamp: new Date(),
+    metadata: { processingTime: 1 },
+    parameters,
+    requester
+  });
+
+  const permissions = new CommandPermissions(policy);
+
+  it('should allow everything a role with all intents is granted', () => {
+    const decision = permissions.check(createCommand(CommandIntent.ART_PLAN, { id: 'user-rte' }));
+
+    expect(decision).toEqual({ allowed: true, reason: 'Allowed by role rte', role: 'rte', team: 'PHX' });
+  });
+
+  it('should refuse intents none of the requester\'s roles allow', () => {
+    const decision = permissions.check(createCommand(CommandIntent.ART_OPTIMIZE, { id: 'user-dev' }));
+
+    expect(decision).toEqual({ allowed: false, reason: 'No role allows art_optimize', team: 'PHX' });
+  });
+
+  it('should grant team roles to everyone working on that team', () => {
+    expect(permissions.check(createCommand(CommandIntent.STORY_DECOMPOSE, { id: 'user-dev' })).allowed).toBe(true);
+
+    const otherTeam = { teamId: 'team-sol', teamKey: 'SOL' };
+    const decision = permissions.check(createCommand(CommandIntent.STORY_DECOMPOSE, { id: 'user-dev' }, otherTeam));
+    expect(decision).toEqual({ allowed: false, reason: 'No role allows story_decompose for team SOL', team: 'SOL' });
+  });
+
+  it('should limit user grants to their teams and match emails case-insensitively', () => {
+    const pm = { id: 'user-pm', email: 'pat@example.com' };
+
+    expect(permissions.check(createCommand(CommandIntent.VALUE_ANALYZE, pm)).allowed).toBe(true);
+    expect(permissions.check(createCommand(CommandIntent.VALUE_ANALYZE, pm, { teamId: 'team-atl', teamKey: 'ATL' })).allowed)
+      .toBe(false);
+  });
+
+  it('should check the explicitly requested team instead of the issue team', () => {
+    const command = createCommand(
+      CommandIntent.STATUS_CHECK,
+      { id: 'user-dev' },
+      undefined,
+      { teamId: 'atl', explicit: { teamId: true } }
+    );
+
+    expect(permissions.check(command)).toEqual(expect.objectContaining({ allowed: true, role: 'team-member', team: 'atl' }));
+  });
+
+  it('should not restrict system commands or deployments without a policy', () => {
+    expect(permissions.check(createCommand(CommandIntent.ART_PLAN)).reason).toBe('System command');
+    expect(new CommandPermissions(null).check(createCommand(CommandIntent.ART_PLAN, { id: 'user-dev' })).allowed).toBe(true);
+  });
+
+  describe('policy loading', () => {
+    const originalFile = process.env.AGENT_PERMISSIONS_FILE;
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'permissions-'));
+    });
+
+    afterEach(async () => {
+      if (originalFile === undefined) {
+        delete process.env.AGENT_PERMISSIONS_FILE;
+      } else {
+        process.env.AGENT_PERMISSIONS_FILE = originalFile;
+      }
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should reload the policy named by AGENT_PERMISSIONS_FILE when the file changes', async () => {
+      const file = path.join(tempDir, 'permissions.json');
+      await fs.writeFile(file, JSON.stringify({ roles: { rte: { intents: ['*'] } }, users: { 'user-rte': ['rte'] } }));
+      await fs.utimes(file, new Date('2025-01-01T00:00:00Z'), new Date('2025-01-01T00:00:00Z'));
+      process.env.AGENT_PERMISSIONS_FILE = file;
+
+      const configured = new CommandPermissions();
+      expect(configured.check(createCommand(CommandIntent.ART_PLAN, { id: 'user-dev' })).allowed).toBe(false);
+
+      await fs.writeFile(file, JSON.stringify({ roles: { rte: { intents: ['*'] } }, defaultRoles: ['rte'] }));
+      await fs.utimes(file, new Date('2025-01-02T00:00:00Z'), new Date('2025-01-02T00:00:00Z'));
+      expect(configured.check(createCommand(CommandIntent.ART_PLAN, { id: 'user-dev' })).allowed).toBe(true);
+    });
+
+    it('should reuse the loaded policy while the file is unchanged', async () => {
+      const file = path.join(tempDir, 'permissions.json');
+      await fs.writeFile(file, JSON.stringify({ roles: { rte: { intents: ['*'] } }, defaultRoles: ['rte'] }));
+      const readFileSync = jest.spyOn(fsSync, 'readFileSync');
+
+      try {
+        const first = loadPermissionPolicy(file);
+        const second = loadPermissionPolicy(file);
+
+        expect(second).toBe(first);
+        expect(readFileSync).toHaveBeenCalledTimes(1);
+      } finally {
+        readFileSync.mockRestore();
+      }
+    });
+
+    it('should reject invalid policies', async () => {
+      const file = path.join(tempDir, 'permissions.json');
+      await fs.writeFile(file, JSON.stringify({ roles: { rte: { intents: ['plan_everything'] } }, users: { bob: ['admin'] } }));
+
+      expect(() => loadPermissionPolicy(file)).toThrow(
+        'Role rte has unknown intent: plan_everything; Grant for user bob refers to unknown role: admin'
+      );
+      expect(loadPermissionPolicy('')).toBeNull();
+    });
+
+    it('should require role definitions', () => {
+      expect(validatePermissionPolicy({ users: {} })).toEqual(['roles must be an object of role definitions']);
+      expect(validatePermissionPolicy(policy)).toEqual([]);
+    });
+  });
+});
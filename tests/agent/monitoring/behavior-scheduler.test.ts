@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Behavior Scheduler
+ */
+
+import { BehaviorScheduler } from '../../../src/agent/monitoring/behavior-scheduler';
+import { BehaviorSchedule } from '../../../src/agent/types/autonomous-types';
+import { getBehaviorScheduleLastRun, saveBehaviorScheduleLastRun } from '../../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../../src/db/models');
+jest.mock('../../../src/utils/logger');
+
+const mockedGetLastRun = getBehaviorScheduleLastRun as jest.MockedFunction<typeof getBehaviorScheduleLastRun>;
+const mockedSaveLastRun = saveBehaviorScheduleLastRun as jest.MockedFunction<typeof saveBehaviorScheduleLastRun>;
+
+describe('BehaviorScheduler', () => {
+  let engine: any;
+  let scheduler: BehaviorScheduler;
+
+  const hourly: BehaviorSchedule = {
+    behaviorId: 'periodic_reporting',
+    cronExpression: '0 * * * *',
+    timeZone: 'UTC',
+    active: true
+  };
+
+  const triggeredTimes = () =>
+    engine.processTrigger.mock.calls.map(([trigger]: any[]) => trigger.payload.scheduledTime.toISOString());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BEHAVIOR_SCHEDULE_CATCH_UP;
+
+    engine = { processTrigger: jest.fn().mockResolvedValue([]) };
+    scheduler = new BehaviorScheduler(engine);
+    mockedGetLastRun.mockResolvedValue(null);
+    mockedSaveLastRun.mockResolvedValue(undefined);
+  });
+
+  it('should run an occurrence the check landed after and persist the check time', async () => {
+    scheduler.addSchedule(hourly);
+
+    await scheduler.checkCronSchedules(new Date('2025-07-31T09:00:40Z'));
+    await scheduler.checkCronSchedules(new Date('2025-07-31T09:02:10Z'));
+    // A late check still runs the 10:00 occurrence
+    await scheduler.checkCronSchedules(new Date('2025-07-31T10:03:00Z'));
+
+    expect(triggeredTimes()).toEqual(['2025-07-31T09:00:00.000Z', '2025-07-31T10:00:00.000Z']);
+    expect(engine.processTrigger.mock.calls[0][0]).toMatchObject({
+      type: 'schedule',
+      payload: { behaviorId: 'periodic_reporting', catchUp: false }
+    });
+    expect(mockedSaveLastRun).toHaveBeenLastCalledWith('periodic_reporting', new Date('2025-07-31T10:03:00Z'));
+  });
+
+  it('should catch up missed runs once by default', async () => {
+    mockedGetLastRun.mockResolvedValue(new Date('2025-07-31T05:30:00Z'));
+    scheduler.addSchedule(hourly);
+
+    await scheduler.checkCronSchedules(new Date('2025-07-31T09:30:00Z'));
+
+    expect(triggeredTimes()).toEqual(['2025-07-31T09:00:00.000Z']);
+    expect(engine.processTrigger.mock.calls[0][0].payload.catchUp).toBe(true);
+  });
+
+  it('should run every missed run or skip them by policy', async () => {
+    mockedGetLastRun.mockResolvedValue(new Date('2025-07-31T05:30:00Z'));
+    scheduler.addSchedule({ ...hourly, catchUp: 'all' });
+    scheduler.addSchedule({ ...hourly, behaviorId: 'progress_monitoring', catchUp: 'skip' });
+
+    await scheduler.checkCronSchedules(new Date('2025-07-31T09:30:00Z'));
+
+    expect(triggeredTimes()).toEqual([
+      '2025-07-31T06:00:00.000Z',
+      '2025-07-31T07:00:00.000Z',
+      '2025-07-31T08:00:00.000Z',
+      '2025-07-31T09:00:00.000Z'
+    ]);
+    expect(engine.processTrigger.mock.calls.every(([trigger]: any[]) =>
+      trigger.payload.behaviorId === 'periodic_reporting')).toBe(true);
+  });
+
+  it('should take the default catch-up policy from the environment', async () => {
+    process.env.BEHAVIOR_SCHEDULE_CATCH_UP = 'skip';
+    mockedGetLastRun.mockResolvedValue(new Date('2025-07-31T05:30:00Z'));
+    scheduler.addSchedule(hourly);
+
+    await scheduler.checkCronSchedules(new Date('2025-07-31T09:30:00Z'));
+
+    expect(engine.processTrigger).not.toHaveBeenCalled();
+    expect(mockedSaveLastRun).toHaveBeenCalledWith('periodic_reporting', new Date('2025-07-31T09:30:00Z'));
+  });
+
+  it('should keep scheduling in memory when the last run cannot be loaded or saved', async () => {
+    mockedGetLastRun.mockRejectedValue(new Error('connection refused'));
+    mockedSaveLastRun.mockRejectedValue(new Error('connection refused'));
+    scheduler.addSchedule(hourly);
+
+    await scheduler.checkCronSchedules(new Date('2025-07-31T09:00:10Z'));
+    await scheduler.checkCronSchedules(new Date('2025-07-31T10:00:10Z'));
+
+    expect(triggeredTimes()).toEqual(['2025-07-31T09:00:00.000Z', '2025-07-31T10:00:00.000Z']);
+  });
+
+  it('should reject invalid schedules', () => {
+    expect(() => scheduler.addSchedule({ ...hourly, cronExpression: '0 25 * * *' })).toThrow('Invalid cron expression');
+    expect(() => scheduler.addSchedule({ ...hourly, timeZone: 'Eastern' })).toThrow('Invalid time zone "Eastern"');
+    expect(() => scheduler.addSchedule({ ...hourly, catchUp: 'twice' as any })).toThrow('Invalid catch-up policy "twice"');
+    expect(scheduler.getScheduledCount()).toBe(0);
+  });
+});
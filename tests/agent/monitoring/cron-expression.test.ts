@@ -0,0 +1,57 @@
+/**
+ * Unit Tests for Cron Expressions
+ */
+
+import { CronExpression, isValidTimeZone } from '../../../src/agent/monitoring/cron-expression';
+
+describe('CronExpression', () => {
+  const next = (expression: string, after: string, timeZone = 'UTC') =>
+    new CronExpression(expression, timeZone).next(new Date(after))?.toISOString();
+
+  it('should combine lists, ranges, steps and names', () => {
+    const cron = new CronExpression('0,30 9-17/4 * JAN-MAR,DEC MON-FRI', 'UTC');
+
+    expect(cron.between(new Date('2025-01-06T00:00:00Z'), new Date('2025-01-06T23:59:00Z')).map(d => d.toISOString()))
+      .toEqual([
+        '2025-01-06T09:00:00.000Z',
+        '2025-01-06T09:30:00.000Z',
+        '2025-01-06T13:00:00.000Z',
+        '2025-01-06T13:30:00.000Z',
+        '2025-01-06T17:00:00.000Z',
+        '2025-01-06T17:30:00.000Z'
+      ]);
+    expect(cron.matches(new Date('2025-01-04T09:00:00Z'))).toBe(false); // Saturday
+    expect(cron.matches(new Date('2025-04-07T09:00:00Z'))).toBe(false); // April
+  });
+
+  it('should support macros, Sunday as 7 and the day-of-month or day-of-week rule', () => {
+    expect(next('@weekly', '2025-07-30T12:00:00Z')).toBe('2025-08-03T00:00:00.000Z');
+    expect(next('0 0 * * 7', '2025-07-30T12:00:00Z')).toBe('2025-08-03T00:00:00.000Z');
+    // The 15th or any Friday
+    expect(next('0 0 15 * FRI', '2025-07-30T12:00:00Z')).toBe('2025-08-01T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2025-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    expect(next('0 0 30 2 *', '2025-03-01T00:00:00Z')).toBeUndefined();
+  });
+
+  it('should evaluate in the schedule time zone across daylight saving changes', () => {
+    expect(next('0 9 * * *', '2025-07-30T12:00:00Z', 'America/Los_Angeles')).toBe('2025-07-30T16:00:00.000Z');
+    expect(next('0 9 * * *', '2025-07-30T12:00:00Z', 'Asia/Kolkata')).toBe('2025-07-31T03:30:00.000Z');
+    // 02:30 does not exist on the spring-forward day and runs at 03:30
+    expect(next('30 2 * * *', '2025-03-09T00:00:00Z', 'America/New_York')).toBe('2025-03-09T07:30:00.000Z');
+
+    // 01:30 happens twice on the fall-back day and runs once
+    const fallBack = new CronExpression('30 1 * * *', 'America/New_York')
+      .between(new Date('2025-11-02T00:00:00Z'), new Date('2025-11-03T00:00:00Z'));
+    expect(fallBack.map(d => d.toISOString())).toEqual(['2025-11-02T05:30:00.000Z']);
+  });
+
+  it('should reject invalid expressions and time zones', () => {
+    expect(() => new CronExpression('0 9 * *', 'UTC')).toThrow('expected 5 fields, got 4');
+    expect(() => new CronExpression('60 9 * * *', 'UTC')).toThrow('minute value "60" is not between 0 and 59');
+    expect(() => new CronExpression('0 17-9 * * *', 'UTC')).toThrow('hour has a reversed range "17-9"');
+    expect(() => new CronExpression('*/0 * * * *', 'UTC')).toThrow('minute has an invalid step "0"');
+    expect(() => new CronExpression('0 9 * * FUN', 'UTC')).toThrow('day-of-week value "FUN"');
+    expect(() => new CronExpression('0 9 * * *', 'Mars/Olympus')).toThrow('Invalid time zone "Mars/Olympus"');
+    expect(isValidTimeZone('Europe/London')).toBe(true);
+  });
+});
@@ -343,6 +343,91 @@ describe('ParameterExtractor', () => {
     });
   });
 
+  describe('Risk Parameters', () => {
+    it('should extract ROAM status and owner without treating the owner as a team', () => {
+      const result = extractor.extractParameters(
+        'roam this risk as owned by @alice',
+        CommandIntent.RISK_MANAGE,
+        mockContext
+      );
+
+      expect(result.roamStatus).toBe('owned');
+      expect(result.riskOwner).toBe('alice');
+      expect(result.riskId).toBe('issue-123');
+      expect(result.teamId).toBe('team-alpha');
+      expect(result.explicit.teamId).toBe(false);
+    });
+
+    it('should normalize ROAM status verbs', () => {
+      const result = extractor.extractParameters(
+        'mitigate this risk',
+        CommandIntent.RISK_MANAGE,
+        mockContext
+      );
+
+      expect(result.roamStatus).toBe('mitigated');
+    });
+
+    it('should not set a status for board requests', () => {
+      const result = extractor.extractParameters(
+        'show accepted pi risks',
+        CommandIntent.RISK_MANAGE,
+        mockContext
+      );
+
+      expect(result.roamStatus).toBeUndefined();
+    });
+
+    it('should keep a status change that also asks for the board', () => {
+      const result = extractor.extractParameters(
+        'mark this risk as owned and show the board',
+        CommandIntent.RISK_MANAGE,
+        mockContext
+      );
+
+      expect(result.roamStatus).toBe('owned');
+    });
+  });
+
+  describe('Capacity Parameters', () => {
+    it('should extract the team and next iteration', () => {
+      const result = extractor.extractParameters(
+        'check capacity for Team Phoenix next iteration',
+        CommandIntent.CAPACITY_CHECK,
+        mockContext
+      );
+
+      expect(result.teamId).toBe('Phoenix');
+      expect(result.explicit.teamId).toBe(true);
+      expect(result.timeframe).toEqual(expect.objectContaining({ type: 'next', period: 'iteration' }));
+      expect(result.iterations).toBe(2);
+    });
+  });
+
+  describe('Undo Parameters', () => {
+    it('should extract the execution to revert', () => {
+      const result = extractor.extractParameters(
+        'undo exec_1718000000000_abc123def',
+        CommandIntent.UNDO,
+        mockContext
+      );
+
+      expect(result.executionId).toBe('exec_1718000000000_abc123def');
+      expect(result.explicit.executionId).toBe(true);
+    });
+  });
+
+  describe('Job Parameters', () => {
+    it('should extract the job to report on or cancel', () => {
+      const status = extractor.extractParameters('job status JOB_1718000000000_ABC123DEF', CommandIntent.JOB_STATUS, mockContext);
+      const cancel = extractor.extractParameters('cancel job_1718000000000_abc123def', CommandIntent.JOB_CANCEL, mockContext);
+
+      expect(status.jobId).toBe('job_1718000000000_abc123def');
+      expect(cancel.jobId).toBe('job_1718000000000_abc123def');
+      expect(cancel.explicit.jobId).toBe(true);
+    });
+  });
+
   describe('Context Inference', () => {
     it('should infer scope from project context', () => {
       const result = extractor.extractParameters(
@@ -307,6 +307,22 @@ describe('ParameterValidator', () => {
 
       expect(result.valid).toBe(true);
     });
+
+    it('should reject iterations and buffer capacity out of range', async () => {
+      const params: CommandParameters = {
+        iterations: 20,
+        bufferCapacity: 0.8,
+        explicit: { iterations: true, bufferCapacity: true }
+      };
+
+      const result = await validator.validate(params, CommandIntent.ART_PLAN);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(error => [error.parameter, error.code])).toEqual([
+        ['iterations', ValidationErrorCode.OUT_OF_RANGE],
+        ['bufferCapacity', ValidationErrorCode.OUT_OF_RANGE]
+      ]);
+    });
   });
 
   describe('Mutually Exclusive Parameters', () => {
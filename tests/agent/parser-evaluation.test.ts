@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for Command Parser Evaluation
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  evaluateParser,
+  formatEvaluationReport,
+  loadMentionCorpus,
+  MentionCorpus
+} from '../../src/agent/parser-evaluation';
+import { CommandIntent } from '../../src/agent/types/command-types';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+const CORPUS_PATH = path.join(__dirname, '../../src/agent/patterns/mention-corpus.json');
+
+describe('Parser Evaluation', () => {
+  const corpus: MentionCorpus = {
+    mentions: [
+      { text: 'decompose this story', intent: CommandIntent.STORY_DECOMPOSE },
+      { text: 'check capacity for team PHX', intent: CommandIntent.CAPACITY_CHECK, parameters: { teamId: 'phx' } },
+      { text: 'check capacity for team PHX for 3 iterations', intent: CommandIntent.CAPACITY_CHECK, parameters: { iterations: 3 } },
+      { text: 'calculate WSJF', intent: CommandIntent.STORY_SCORE },
+      { text: 'thanks for the update', intent: CommandIntent.UNKNOWN }
+    ]
+  };
+
+  describe('evaluateParser', () => {
+    it('should report precision, recall and the confusion matrix per intent', () => {
+      const report = evaluateParser(corpus);
+
+      expect(report.total).toBe(5);
+      expect(report.accuracy).toBeCloseTo(0.8);
+      expect(report.confusionMatrix[CommandIntent.STORY_SCORE]).toEqual({ [CommandIntent.UNKNOWN]: 1 });
+
+      const score = report.intents.find(metrics => metrics.intent === CommandIntent.STORY_SCORE);
+      expect(score).toEqual(expect.objectContaining({ recall: 0, precision: null, falseNegatives: 1 }));
+
+      const unknown = report.intents.find(metrics => metrics.intent === CommandIntent.UNKNOWN);
+      expect(unknown).toEqual(expect.objectContaining({ precision: 0.5, recall: 1, falsePositives: 1 }));
+    });
+
+    it('should list misclassified intents and mismatched parameters', () => {
+      const report = evaluateParser(corpus);
+
+      expect(report.parameterAccuracy).toBe(0.5);
+      expect(report.misclassified).toEqual([
+        expect.objectContaining({
+          text: 'check capacity for team PHX for 3 iterations',
+          actualIntent: CommandIntent.CAPACITY_CHECK,
+          parameterMismatches: [{ parameter: 'iterations', expected: 3, actual: 2 }]
+        }),
+        expect.objectContaining({
+          text: 'calculate WSJF',
+          expectedIntent: CommandIntent.STORY_SCORE,
+          actualIntent: CommandIntent.UNKNOWN,
+          parameterMismatches: []
+        })
+      ]);
+    });
+
+    it('should fail when results fall below the thresholds', () => {
+      const report = evaluateParser(corpus, {}, { minAccuracy: 0.9, minParameterAccuracy: 0.5 });
+
+      expect(report.passed).toBe(false);
+      expect(report.failures).toContain('Intent accuracy 0.80 is below 0.90');
+      expect(report.failures).toContain('Recall for story_score 0.00 is below 0.80');
+      // Unknown precision only mirrors the recall of the intents it absorbed
+      expect(report.failures.some(failure => failure.startsWith('Precision for unknown'))).toBe(false);
+      expect(report.failures.some(failure => failure.startsWith('Parameter accuracy'))).toBe(false);
+    });
+
+    it('should let thresholds override the corpus thresholds', () => {
+      const lenient = { ...corpus, thresholds: { minAccuracy: 0.5, minRecall: 0, minParameterAccuracy: 0 } };
+
+      expect(evaluateParser(lenient).passed).toBe(true);
+      expect(evaluateParser(lenient, {}, { minAccuracy: 0.9 }).passed).toBe(false);
+    });
+  });
+
+  describe('formatEvaluationReport', () => {
+    it('should summarize the results for the terminal', () => {
+      const output = formatEvaluationReport(evaluateParser(corpus));
+
+      expect(output).toContain('Intent accuracy: 0.80');
+      expect(output).toContain('Confusion matrix (rows: expected, columns: predicted)');
+      expect(output).toContain('- "calculate WSJF": expected story_score, got unknown (confidence 0.00)');
+      expect(output).toContain('    iterations: expected 3, got 2');
+      expect(output).toMatch(/FAILED\n- Intent accuracy 0.80 is below 0.90/);
+    });
+  });
+
+  describe('loadMentionCorpus', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mention-corpus-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should accept a plain list of mentions', async () => {
+      const file = path.join(tempDir, 'corpus.json');
+      await fs.writeFile(file, JSON.stringify([{ text: 'help', intent: 'help' }]));
+
+      await expect(loadMentionCorpus(file)).resolves.toEqual({ mentions: [{ text: 'help', intent: 'help' }] });
+    });
+
+    it('should reject mentions with unknown intents', async () => {
+      const file = path.join(tempDir, 'corpus.json');
+      await fs.writeFile(file, JSON.stringify({ mentions: [{ text: 'help', intent: 'assist' }] }));
+
+      await expect(loadMentionCorpus(file)).rejects.toThrow('Mention 1 in');
+    });
+
+    it('should keep the bundled corpus above its thresholds', async () => {
+      const report = evaluateParser(await loadMentionCorpus(CORPUS_PATH));
+
+      expect(report.failures).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for Organization Command Patterns
+ */
+
+import {
+  validateCustomPattern,
+  toPatternExtensions,
+  loadCustomPatterns,
+  createCommandParser
+} from '../../../src/agent/patterns/custom-patterns';
+import { getPatternsByPriority, STORY_DECOMPOSE_PATTERNS } from '../../../src/agent/patterns/command-patterns';
+import { AgentCommandParser } from '../../../src/agent/command-parser';
+import { CommandIntent, IssueContext } from '../../../src/agent/types/command-types';
+import { getCustomCommandPatternsByOrganization } from '../../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../../src/db/models');
+jest.mock('../../../src/utils/logger');
+
+const mockedGetCustomCommandPatterns = getCustomCommandPatternsByOrganization as jest.MockedFunction<
+  typeof getCustomCommandPatternsByOrganization
+>;
+
+describe('Organization Command Patterns', () => {
+  const context: IssueContext = {
+    issueId: 'issue-1',
+    issueIdentifier: 'PHX-1',
+    issueTitle: 'Checkout flow',
+    teamId: 'team-1',
+    labels: []
+  };
+
+  const storedPattern = (overrides: Record<string, any> = {}): any => ({
+    id: 1,
+    organization_id: 'org-1',
+    intent: CommandIntent.STORY_DECOMPOSE,
+    pattern: '\\bcarve\\s+(this|it)\\s+up\\b',
+    flags: 'i',
+    keywords: ['carve'],
+    examples: ['carve this up'],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('validateCustomPattern', () => {
+    it('should accept a valid pattern', () => {
+      expect(validateCustomPattern({
+        intent: 'art_plan',
+        pattern: '\\brun\\s+the\\s+train\\s+plan\\b',
+        examples: ['run the train plan']
+      })).toEqual([]);
+    });
+
+    it('should reject regexes that do not compile', () => {
+      const errors = validateCustomPattern({ intent: 'art_plan', pattern: '(plan' });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/^Invalid regex:/);
+    });
+
+    it('should reject unknown intents, stateful flags and patterns matching everything', () => {
+      expect(validateCustomPattern({ intent: 'unknown', pattern: 'plan' })[0]).toMatch(/^Unknown intent: unknown/);
+      expect(validateCustomPattern({ intent: 'art_plan', pattern: 'plan', flags: 'gi' })).toEqual([
+        'Invalid regex flags: gi. Allowed flags: i, m, s, u'
+      ]);
+      expect(validateCustomPattern({ intent: 'art_plan', pattern: 'x*' })).toEqual(['pattern must not match empty text']);
+    });
+
+    it('should reject examples the pattern does not match', () => {
+      expect(validateCustomPattern({
+        intent: 'story_decompose',
+        pattern: '\\bcarve\\b',
+        examples: ['slice this story']
+      })).toEqual(['Example does not match the pattern: "slice this story"']);
+    });
+  });
+
+  describe('getPatternsByPriority', () => {
+    it('should merge extensions into their intents', () => {
+      const patterns = getPatternsByPriority([
+        { intent: CommandIntent.STORY_DECOMPOSE, patterns: [/\bcarve\b/i], keywords: ['carve', 'split'], examples: ['carve it'] }
+      ]);
+      const decompose = patterns.find(pattern => pattern.intent === CommandIntent.STORY_DECOMPOSE)!;
+
+      expect(decompose.patterns).toHaveLength(STORY_DECOMPOSE_PATTERNS.patterns.length + 1);
+      expect(decompose.keywords!.filter(keyword => keyword === 'split')).toHaveLength(1);
+      expect(decompose.examples).toContain('carve it');
+      expect(STORY_DECOMPOSE_PATTERNS.examples).not.toContain('carve it');
+    });
+
+    it('should return the built-in patterns without extensions', () => {
+      expect(getPatternsByPriority().map(pattern => pattern.intent))
+        .toEqual(getPatternsByPriority([]).map(pattern => pattern.intent));
+    });
+  });
+
+  describe('parser integration', () => {
+    it('should recognize an organization phrase only with its custom pattern', () => {
+      const extensions = toPatternExtensions([storedPattern()]);
+
+      expect(new AgentCommandParser().parseCommand('carve this up', context).intent).toBe(CommandIntent.UNKNOWN);
+      expect(new AgentCommandParser({ customPatterns: extensions }).parseCommand('carve this up', context).intent)
+        .toBe(CommandIntent.STORY_DECOMPOSE);
+    });
+
+    it('should build a parser with the organization patterns', async () => {
+      mockedGetCustomCommandPatterns.mockResolvedValue([storedPattern()]);
+
+      const parser = await createCommandParser('org-1');
+
+      expect(mockedGetCustomCommandPatterns).toHaveBeenCalledWith('org-1');
+      expect(parser.parseCommand('@saafepulse carve this up', context).intent).toBe(CommandIntent.STORY_DECOMPOSE);
+    });
+  });
+
+  describe('loadCustomPatterns', () => {
+    it('should skip stored patterns that no longer compile', async () => {
+      mockedGetCustomCommandPatterns.mockResolvedValue([storedPattern(), storedPattern({ id: 2, pattern: '(' })]);
+
+      const extensions = await loadCustomPatterns('org-1');
+
+      expect(extensions).toHaveLength(1);
+      expect(extensions[0].patterns[0].source).toBe('\\bcarve\\s+(this|it)\\s+up\\b');
+    });
+
+    it('should fall back to no extensions when the registry is unavailable', async () => {
+      mockedGetCustomCommandPatterns.mockRejectedValue(new Error('connection refused'));
+
+      await expect(loadCustomPatterns('org-1')).resolves.toEqual([]);
+    });
+  });
+});
@@ -330,6 +330,91 @@ describe('ResponseFormatter', () => {
       expect(response.message).toContain('### 📈 Key Metrics');
       expect(response.message).toContain('**Velocity**: 42 points/sprint');
     });
+
+    it('should format capacity check with utilization per iteration', () => {
+      const result: ExecutionResult = {
+        success: true,
+        data: {
+          capacity: {
+            team: { id: 'team-phoenix', name: 'Team Phoenix', memberCount: 5, averageVelocity: 30, velocitySource: 'history' },
+            iterations: [
+              { name: 'Sprint 12', isFocus: false, availableCapacity: 12, allocatedPoints: 9, utilizationRate: 0.75, overcommitmentRisk: 'low' },
+              { name: 'Sprint 13', isFocus: true, availableCapacity: 12, allocatedPoints: 16, utilizationRate: 1.33, overcommitmentRisk: 'high' }
+            ],
+            overcommitmentRisk: 'high',
+            confidenceScore: 0.9,
+            recommendations: ['Sprint 13: 1 teams are over-allocated - consider redistributing work'],
+            risks: [],
+            warnings: []
+          }
+        },
+        executionTime: 200,
+        command: 'capacity-check',
+        parameters: { teamId: 'Phoenix' }
+      };
+
+      const command = createTestCommand(CommandIntent.CAPACITY_CHECK);
+      const response = formatter.formatForLinear(result, command);
+
+      expect(response.message).toContain('## 📊 Team Capacity Check');
+      expect(response.message).toContain('**Overcommitment Risk**: 🔴 High for Sprint 13');
+      expect(response.message).toContain('| Sprint 12 | 12 pts | 9 pts | 75% | 🟢 Low |');
+      expect(response.message).toContain('| **Sprint 13** | 12 pts | 16 pts | 133% | 🔴 High |');
+      expect(response.message).toContain('### 🎯 Recommendations');
+    });
+
+    it('should format undo with the steps that could not be reverted', () => {
+      const result: ExecutionResult = {
+        success: true,
+        data: {
+          undo: {
+            executionId: 'exec_1_abc',
+            reverted: [{ actionId: 2, actionType: 'cycle_assign', description: 'Move LIN-123 to another cycle' }],
+            failed: [{ actionId: 1, actionType: 'issue_create', description: 'Create LIN-200 "Cart"', error: 'Issue is locked' }],
+            alreadyReverted: 0
+          }
+        },
+        executionTime: 80,
+        command: 'undo',
+        parameters: {}
+      };
+
+      const command = createTestCommand(CommandIntent.UNDO);
+      const response = formatter.formatForLinear(result, command);
+
+      expect(response.message).toContain('## ⚠️ Changes Reverted');
+      expect(response.message).toContain('**Reverted**: 1 of 2 changes');
+      expect(response.message).toContain('### ❌ Could Not Revert\n\n- Create LIN-200 "Cart": Issue is locked');
+      expect(response.message).toContain('`@saafepulse undo exec_1_abc`');
+    });
+
+    it('should format job status with its stages', () => {
+      const result: ExecutionResult = {
+        success: true,
+        data: {
+          job: {
+            id: 'job_1_abc',
+            intent: 'art_plan',
+            command: { rawText: 'plan PI-2025-Q4' },
+            status: 'running',
+            stage: 'Planning iterations',
+            progress: 75,
+            created_at: new Date()
+          },
+          stages: ['Fetching work items', 'Building dependency graph', 'Loading ART teams', 'Planning iterations']
+        },
+        executionTime: 20,
+        command: 'job-status',
+        parameters: {}
+      };
+
+      const command = createTestCommand(CommandIntent.JOB_STATUS);
+      const response = formatter.formatForLinear(result, command);
+
+      expect(response.message).toContain('## 📋 Job Status');
+      expect(response.message).toContain('**Stage**: Planning iterations (75%)');
+      expect(response.message).toContain('- ✅ Loading ART teams\n- 🔄 Planning iterations');
+    });
   });
 });
 
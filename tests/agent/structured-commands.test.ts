@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for Structured Commands
+ */
+
+import {
+  formatStructuredErrors,
+  formatStructuredHelp,
+  formatStructuredUsage,
+  findStructuredCommand,
+  isStructuredCommand,
+  parseStructuredCommand
+} from '../../src/agent/structured-commands';
+import { CommandIntent, IssueContext } from '../../src/agent/types/command-types';
+
+jest.mock('../../src/utils/logger');
+
+describe('Structured Commands', () => {
+  const context: IssueContext = {
+    issueId: 'issue-1',
+    issueIdentifier: 'PHX-12',
+    issueTitle: 'Checkout flow',
+    teamId: 'team-1',
+    labels: []
+  };
+
+  describe('isStructuredCommand', () => {
+    it('should recognize mentions that start with a slash command', () => {
+      expect(isStructuredCommand('@saafepulse /decompose --max-points 3')).toBe(true);
+      expect(isStructuredCommand('/plan')).toBe(true);
+      expect(isStructuredCommand('@saafepulse decompose this story')).toBe(false);
+      expect(isStructuredCommand('@saafepulse split into stories of 3/5 points')).toBe(false);
+    });
+  });
+
+  describe('parseStructuredCommand', () => {
+    it('should map each flag onto its parameter', () => {
+      const command = parseStructuredCommand(
+        '@saafepulse /decompose --max-points 3 --strategy workflow --team PHX',
+        context
+      );
+
+      expect(command.intent).toBe(CommandIntent.STORY_DECOMPOSE);
+      expect(command.confidence).toBe(1);
+      expect(command.matchedPattern).toBe('/decompose');
+      expect(command.metadata.structured).toEqual({ command: 'decompose', errors: [] });
+      expect(command.parameters).toMatchObject({
+        targetSize: 3,
+        decompositionStrategy: 'workflow',
+        teamId: 'PHX',
+        explicit: { targetSize: true, decompositionStrategy: true, teamId: true }
+      });
+    });
+
+    it('should take positional arguments, inline values and boolean flags', () => {
+      const command = parseStructuredCommand('@saafepulse /plan pi-2025-q4 --iterations=5 --dry-run', context);
+
+      expect(command.intent).toBe(CommandIntent.ART_PLAN);
+      expect(command.parameters).toMatchObject({ piId: 'PI-2025-Q4', iterations: 5, dryRun: true });
+    });
+
+    it('should resolve aliases to their command', () => {
+      expect(parseStructuredCommand('/wsjf PHX-9', context).intent).toBe(CommandIntent.STORY_SCORE);
+      expect(findStructuredCommand('/split')?.name).toBe('decompose');
+    });
+
+    it('should complete missing parameters from the issue context', () => {
+      const command = parseStructuredCommand('/decompose --max-points 3', context);
+
+      expect(command.parameters?.storyId).toBe('issue-1');
+      expect(command.parameters?.explicit.storyId).toBe(false);
+    });
+
+    it('should list every syntax error', () => {
+      const command = parseStructuredCommand(
+        '/decompose PHX-1 PHX-2 --max-points three --strategy random --size --team',
+        context
+      );
+
+      expect(command.metadata.structured?.errors).toEqual([
+        'Unexpected argument "PHX-2"',
+        '--max-points must be a number, not "three"',
+        '--strategy must be one of technical, functional, mixed, workflow, not "random"',
+        'Unknown flag --size for /decompose',
+        '--team needs a value <team>'
+      ]);
+    });
+
+    it('should report unknown commands', () => {
+      const command = parseStructuredCommand('@saafepulse /deploy now', context);
+
+      expect(command.intent).toBe(CommandIntent.UNKNOWN);
+      expect(command.metadata.structured?.errors).toEqual([
+        'Unknown command /deploy. Try `/help` for the list of commands.'
+      ]);
+    });
+
+    it('should ask for help with --help or /help', () => {
+      expect(parseStructuredCommand('/decompose --help', context)).toMatchObject({
+        intent: CommandIntent.HELP,
+        parameters: expect.objectContaining({ helpTopic: 'decompose' })
+      });
+      expect(parseStructuredCommand('/help /Plan', context).parameters?.helpTopic).toBe('plan');
+      expect(parseStructuredCommand('/help', context).parameters?.helpTopic).toBe('help');
+    });
+  });
+
+  describe('generated help', () => {
+    it('should format usage from the definition', () => {
+      expect(formatStructuredUsage(findStructuredCommand('plan')!)).toBe(
+        '/plan [PI] [--team <team>] [--iterations <n>] [--buffer <0-0.5>] [--dry-run]'
+      );
+    });
+
+    it('should explain every argument of a command', () => {
+      const help = formatStructuredHelp('decompose');
+
+      expect(help).toContain('## ⌨️ /decompose');
+      expect(help).toContain('**Aliases**: `/split`');
+      expect(help).toContain('- `[story]` - Story to decompose (defaults to this issue)');
+      expect(help).toContain('- `--max-points <n>` - Largest sub-story in points (1-8, default 5)');
+      expect(help).toContain('- `--dry-run` - Show the result without proposing changes to apply');
+      expect(help).toContain('- `@saafepulse /decompose --max-points 3 --strategy workflow --team PHX`');
+    });
+
+    it('should list all commands for /help and unknown topics', () => {
+      expect(formatStructuredHelp('help')).toContain('- `/undo [execution]` - Revert the changes');
+      expect(formatStructuredHelp('deploy')).toContain("I don't know `/deploy`.");
+    });
+
+    it('should reply to invalid commands with the errors and usage', () => {
+      const message = formatStructuredErrors('split', ['--max-points must be a number, not "three"']);
+
+      expect(message).toContain("I couldn't run `/split`:");
+      expect(message).toContain('- --max-points must be a number, not "three"');
+      expect(message).toContain('**Usage**: `@saafepulse /decompose [story]');
+      expect(message).toContain('_Use `/decompose --help` for details._');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for Team Metrics
+ */
+
+import {
+  gatherTeamMetrics,
+  getMetricBaseline,
+  snapshotTeamMetrics,
+  toSnapshotDate
+} from '../../src/agent/team-metrics';
+import {
+  getSnapshottedTeamIds,
+  getTeamMetricSnapshots,
+  saveTeamMetricSnapshot
+} from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+const mockedGetSnapshottedTeamIds = getSnapshottedTeamIds as jest.MockedFunction<typeof getSnapshottedTeamIds>;
+const mockedGetTeamMetricSnapshots = getTeamMetricSnapshots as jest.MockedFunction<typeof getTeamMetricSnapshots>;
+const mockedSaveTeamMetricSnapshot = saveTeamMetricSnapshot as jest.MockedFunction<typeof saveTeamMetricSnapshot>;
+
+describe('Team Metrics', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+  let mockLinearClient: any;
+
+  const issues = [
+    {
+      id: 'issue-1',
+      estimate: 3,
+      state: { name: 'Done' },
+      createdAt: daysAgo(10),
+      startedAt: daysAgo(6),
+      completedAt: daysAgo(2),
+      updatedAt: daysAgo(2)
+    },
+    {
+      id: 'issue-2',
+      estimate: 5,
+      state: { name: 'In Progress' },
+      assignee: { id: 'user-1' },
+      labels: { nodes: [{ name: 'blocked' }] },
+      createdAt: daysAgo(20),
+      updatedAt: daysAgo(1)
+    },
+    {
+      id: 'issue-3',
+      state: { name: 'In Review' },
+      assignee: { id: 'user-1' },
+      createdAt: daysAgo(25),
+      updatedAt: daysAgo(16)
+    },
+    {
+      id: 'issue-4',
+      estimate: 2,
+      state: { name: 'Todo' },
+      createdAt: daysAgo(28),
+      updatedAt: daysAgo(20)
+    }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLinearClient = {
+      getIssues: jest.fn().mockResolvedValue({ nodes: issues }),
+      getTeams: jest.fn().mockResolvedValue({ nodes: [{ id: 'team-1' }, { id: 'team-2' }] })
+    };
+    mockedSaveTeamMetricSnapshot.mockImplementation(async snapshot => ({ id: 1, created_at: new Date(), ...snapshot }));
+  });
+
+  describe('gatherTeamMetrics', () => {
+    it('should measure velocity, WIP, cycle time, blockage, stale work and workloads', async () => {
+      const metrics = await gatherTeamMetrics(mockLinearClient, 'team-1', 28);
+
+      expect(mockLinearClient.getIssues).toHaveBeenCalledWith({
+        filter: { team: { id: { eq: 'team-1' } }, updatedAt: { gte: expect.any(Date) } }
+      });
+      expect(metrics.velocity).toBeCloseTo(0.75);
+      expect(metrics.completedCount).toBe(1);
+      expect(metrics.wipCount).toBe(2);
+      expect(metrics.avgCycleTime).toBeCloseTo(8);
+      expect(metrics.blockageRate).toBe(25);
+      expect(metrics.staleCount).toBe(2);
+      expect(metrics.avgEstimationVariance).toBeCloseTo(33.3, 0);
+      expect(metrics.memberWorkloads.get('user-1')).toBe(6);
+    });
+  });
+
+  describe('getMetricBaseline', () => {
+    it('should average the snapshots before today', async () => {
+      mockedGetTeamMetricSnapshots.mockResolvedValue([
+        { velocity: 20, avg_cycle_time: 4, blockage_rate: 10, wip_count: 8, stale_count: 1, estimation_variance: 30 },
+        { velocity: 10, avg_cycle_time: 6, blockage_rate: 20, wip_count: 12, stale_count: 3, estimation_variance: 50 }
+      ] as any);
+
+      const baseline = await getMetricBaseline('team-1', 90, new Date('2025-07-31T12:00:00Z'));
+
+      expect(mockedGetTeamMetricSnapshots).toHaveBeenCalledWith('team-1', '2025-05-02', '2025-07-30');
+      expect(baseline).toEqual({
+        averageVelocity: 15,
+        averageCycleTime: 5,
+        averageBlockageRate: 15,
+        averageWIP: 10,
+        averageStaleCount: 2,
+        averageEstimationVariance: 40,
+        snapshotCount: 2
+      });
+    });
+
+    it('should have no baseline without snapshots', async () => {
+      mockedGetTeamMetricSnapshots.mockResolvedValue([]);
+
+      await expect(getMetricBaseline('team-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('snapshotTeamMetrics', () => {
+    it("should save today's snapshot for teams that do not have one", async () => {
+      mockedGetSnapshottedTeamIds.mockResolvedValue(['team-1']);
+
+      const saved = await snapshotTeamMetrics(mockLinearClient, new Date('2025-07-31T12:00:00Z'));
+
+      expect(mockedGetSnapshottedTeamIds).toHaveBeenCalledWith('2025-07-31');
+      expect(saved).toHaveLength(1);
+      expect(mockedSaveTeamMetricSnapshot).toHaveBeenCalledWith(expect.objectContaining({
+        team_id: 'team-2',
+        snapshot_date: '2025-07-31',
+        wip_count: 2,
+        stale_count: 2,
+        member_workloads: { 'user-1': 6 }
+      }));
+    });
+
+    it('should keep going when one team fails', async () => {
+      mockedGetSnapshottedTeamIds.mockResolvedValue([]);
+      mockLinearClient.getIssues.mockRejectedValueOnce(new Error('Rate limited'));
+
+      const saved = await snapshotTeamMetrics(mockLinearClient);
+
+      expect(saved.map(snapshot => snapshot.team_id)).toEqual(['team-2']);
+    });
+  });
+
+  it('should format snapshot dates in UTC', () => {
+    expect(toSnapshotDate(new Date('2025-07-31T23:30:00-02:00'))).toBe('2025-08-01');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Unit Tests for Workflow Rules
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  WorkflowRule,
+  WorkflowRuleStore,
+  matchesWorkflowRule,
+  parseWorkflowRules,
+  validateWorkflowRules
+} from '../../src/agent/workflow-rules';
+import * as logger from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger');
+
+describe('Workflow Rules', () => {
+  const issue = {
+    id: 'issue-1',
+    priority: 1,
+    estimate: 8,
+    state: { name: 'In Progress' },
+    team: { id: 'team-1', key: 'PHX', name: 'Phoenix' },
+    assignee: { id: 'user-1', name: 'Jane Doe', email: 'jane@example.com' },
+    labels: { nodes: [{ id: 'label-1', name: 'Bug' }, { id: 'label-2', name: 'frontend' }] },
+    project: { name: 'Checkout' }
+  };
+
+  const rule = (conditions: WorkflowRule['conditions']): WorkflowRule => ({
+    trigger: 'label_added',
+    conditions,
+    actions: [{ type: 'add_label', value: 'urgent' }]
+  });
+
+  describe('parseWorkflowRules', () => {
+    it('should parse YAML rules for all teams and single teams', () => {
+      const ruleSet = parseWorkflowRules(`
+rules:
+  - name: Escalate urgent bugs
+    trigger: label_added
+    label: bug
+    conditions:
+      - priority: { lte: 2 }
+    actions:
+      - type: update_priority
+        value: 1
+teams:
+  PHX:
+    - trigger: state_change
+      state: In Review
+      actions:
+        - type: notify
+`, 'rules.yaml');
+
+      expect(ruleSet.rules).toEqual([{
+        name: 'Escalate urgent bugs',
+        trigger: 'label_added',
+        label: 'bug',
+        conditions: [{ priority: { lte: 2 } }],
+        actions: [{ type: 'update_priority', value: '1' }]
+      }]);
+      expect(ruleSet.teams?.PHX[0]).toMatchObject({ trigger: 'state_change', state: 'In Review' });
+    });
+
+    it('should parse JSON rules', () => {
+      const ruleSet = parseWorkflowRules(
+        '{"rules": [{"trigger": "assignee_changed", "actions": [{"type": "remove_label", "value": "unassigned"}]}]}',
+        'rules.json'
+      );
+
+      expect(ruleSet.rules?.[0].trigger).toBe('assignee_changed');
+    });
+
+    it('should reject invalid rules with every error', () => {
+      expect(() => parseWorkflowRules(`
+rules:
+  - trigger: moved
+    actions: []
+  - trigger: label_added
+    state: Done
+    conditions:
+      - priority: 1
+        estimate: 3
+      - estimate: { gte: five }
+    actions:
+      - type: update_priority
+        value: 7
+`, 'rules.yaml')).toThrow(
+        'Invalid workflow rules rules.yaml: ' +
+        'rules[0] has unknown trigger: moved (expected state_change, label_added, assignee_changed, priority_changed); ' +
+        'rules[0] must have at least one action; ' +
+        'rules[1] can only name a state for the state_change trigger; ' +
+        'rules[1] condition 1 must have exactly one of label, priority, team, estimate, state, assignee, field; ' +
+        'rules[1] condition 2 gte must be a number; ' +
+        'rules[1] action 1 (update_priority) value must be a priority from 0 to 4'
+      );
+    });
+
+    it('should require rules to be lists', () => {
+      expect(validateWorkflowRules({ teams: { PHX: { trigger: 'state_change' } } })).toEqual([
+        'teams.PHX must be a list of rules'
+      ]);
+    });
+  });
+
+  describe('matchesWorkflowRule', () => {
+    it('should match the trigger, state and added label', () => {
+      const stateRule: WorkflowRule = { trigger: 'state_change', state: 'in progress', actions: [] };
+      const labelRule: WorkflowRule = { trigger: 'label_added', label: 'bug', actions: [] };
+
+      expect(matchesWorkflowRule(stateRule, { trigger: 'state_change', state: 'In Progress' }, issue)).toBe(true);
+      expect(matchesWorkflowRule(stateRule, { trigger: 'state_change', state: 'Done' }, issue)).toBe(false);
+      expect(matchesWorkflowRule(labelRule, { trigger: 'label_added', labels: ['Bug'] }, issue)).toBe(true);
+      expect(matchesWorkflowRule(labelRule, { trigger: 'label_added', labels: ['frontend'] }, issue)).toBe(false);
+      expect(matchesWorkflowRule(labelRule, { trigger: 'priority_changed' }, issue)).toBe(false);
+    });
+
+    it('should evaluate label, priority, team, estimate and field conditions', () => {
+      const event = { trigger: 'label_added' as const, labels: ['Bug'] };
+      const matches = (conditions: WorkflowRule['conditions']) => matchesWorkflowRule(rule(conditions), event, issue);
+
+      expect(matches([{ label: 'bug' }, { team: 'PHX' }, { priority: { lte: 2 } }, { estimate: { gte: 5 } }])).toBe(true);
+      expect(matches([{ label: { notIn: ['backend', 'infra'] } }])).toBe(true);
+      expect(matches([{ label: 'backend' }])).toBe(false);
+      expect(matches([{ team: { in: ['Atlas', 'Phoenix'] } }])).toBe(true);
+      expect(matches([{ estimate: { gt: 8 } }])).toBe(false);
+      expect(matches([{ assignee: 'jane@example.com' }])).toBe(true);
+      expect(matches([{ field: 'project.name', equals: 'checkout' }])).toBe(true);
+      expect(matches([{ field: 'cycle.number', exists: false }])).toBe(true);
+      expect(matches([{ field: 'project.name', notEquals: 'Checkout' }])).toBe(false);
+    });
+  });
+
+  describe('WorkflowRuleStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    const writeRules = (content: string, modifiedAt: number) => {
+      fs.writeFileSync(filePath, content);
+      fs.utimesSync(filePath, modifiedAt, modifiedAt);
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-rules-'));
+      filePath = path.join(directory, 'rules.yaml');
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should return the rules for every team and the issue team', () => {
+      writeRules(`
+rules:
+  - { trigger: state_change, actions: [{ type: add_label, value: all }] }
+teams:
+  phx:
+    - { trigger: state_change, actions: [{ type: add_label, value: phoenix }] }
+  ATL:
+    - { trigger: state_change, actions: [{ type: add_label, value: atlas }] }
+`, 1000);
+
+      const store = new WorkflowRuleStore(filePath);
+      const values = store.getRules({ id: 'team-1', key: 'PHX' }).map(r => r.actions[0].value);
+
+      expect(values).toEqual(['all', 'phoenix']);
+      expect(store.getRules().map(r => r.actions[0].value)).toEqual(['all']);
+    });
+
+    it('should reload changed rules and keep the previous rules when an edit is invalid', () => {
+      writeRules('rules:\n  - { trigger: state_change, actions: [{ type: add_label, value: first }] }\n', 1000);
+      const store = new WorkflowRuleStore(filePath);
+      expect(store.getRules()[0].actions[0].value).toBe('first');
+
+      writeRules('rules:\n  - { trigger: state_change, actions: [{ type: add_label, value: second }] }\n', 2000);
+      expect(store.getRules()[0].actions[0].value).toBe('second');
+
+      writeRules('rules:\n  - { trigger: state_change, actions: [] }\n', 3000);
+      expect(store.getRules()[0].actions[0].value).toBe('second');
+      expect(logger.error).toHaveBeenCalledWith(
+        'Workflow rules not reloaded; keeping the previous rules',
+        expect.objectContaining({ error: expect.stringContaining('rules[0] must have at least one action') })
+      );
+    });
+  });
+});
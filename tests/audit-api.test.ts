@@ -0,0 +1,104 @@
+/**
+ * Tests for Audit Log API Endpoints
+ */
+import request from 'supertest';
+import express from 'express';
+import auditRoutes from '../src/api/audit';
+import { getAuditLogEntries } from '../src/db/models';
+
+// Mock dependencies
+jest.mock('../src/db/models');
+jest.mock('../src/utils/logger');
+
+const mockedGetAuditLogEntries = getAuditLogEntries as jest.MockedFunction<typeof getAuditLogEntries>;
+
+describe('Audit Log API Endpoints', () => {
+  let app: express.Application;
+
+  const entry = {
+    id: 812,
+    event_type: 'behavior_action',
+    outcome: 'success',
+    behavior_id: 'workflow_automation',
+    issue_id: 'issue-1',
+    team_id: 'team-1',
+    execution_id: 'exec_1_abc',
+    trigger_id: 'schedule_workflow_automation_1',
+    trigger_type: 'schedule',
+    source: 'schedule workflow_automation (0 2 * * *)',
+    reason: 'Added label "needs-estimate", then notified',
+    details: { type: 'update', target: 'issue-1' },
+    created_at: new Date('2025-07-06T02:00:01Z')
+  } as any;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/audit', auditRoutes);
+
+    jest.clearAllMocks();
+    mockedGetAuditLogEntries.mockResolvedValue([entry]);
+  });
+
+  describe('GET /api/audit', () => {
+    it('should list entries matching the filters', async () => {
+      const response = await request(app).get(
+        '/api/audit?issueId=issue-1&teamId=team-1&behaviorId=workflow_automation&intent=art_plan' +
+        '&from=2025-07-05T00:00:00Z&to=2025-07-06T00:00:00Z&limit=20&offset=40'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.entries).toHaveLength(1);
+      expect(mockedGetAuditLogEntries).toHaveBeenCalledWith({
+        issueId: 'issue-1',
+        teamId: 'team-1',
+        behaviorId: 'workflow_automation',
+        intent: 'art_plan',
+        eventType: undefined,
+        executionId: undefined,
+        from: new Date('2025-07-05T00:00:00Z'),
+        to: new Date('2025-07-06T00:00:00Z'),
+        limit: 20,
+        offset: 40
+      });
+    });
+
+    it('should reject invalid time ranges and paging', async () => {
+      const badDate = await request(app).get('/api/audit?from=yesterday');
+      const badLimit = await request(app).get('/api/audit?limit=0');
+
+      expect(badDate.status).toBe(400);
+      expect(badLimit.status).toBe(400);
+      expect(mockedGetAuditLogEntries).not.toHaveBeenCalled();
+    });
+
+    it('should export entries as CSV', async () => {
+      const response = await request(app).get('/api/audit?behaviorId=workflow_automation&format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('audit-log.csv');
+
+      const [header, row] = response.text.split('\r\n');
+      expect(header).toBe(
+        'id,created_at,event_type,outcome,source,trigger_type,trigger_id,behavior_id,intent,' +
+        'execution_id,issue_id,team_id,actor_id,actor_name,reason,details'
+      );
+      expect(row).toBe(
+        '812,2025-07-06T02:00:01.000Z,behavior_action,success,schedule workflow_automation (0 2 * * *),' +
+        'schedule,schedule_workflow_automation_1,workflow_automation,,exec_1_abc,issue-1,team-1,,,' +
+        '"Added label ""needs-estimate"", then notified","{""type"":""update"",""target"":""issue-1""}"'
+      );
+    });
+
+    it('should handle database errors', async () => {
+      mockedGetAuditLogEntries.mockRejectedValue(new Error('database unavailable'));
+
+      const response = await request(app).get('/api/audit');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ success: false, error: 'database unavailable' });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for Behavior Configs API Endpoints
+ */
+import request from 'supertest';
+import express from 'express';
+import behaviorConfigRoutes from '../src/api/behavior-configs';
+import {
+  getTeamBehaviorConfig,
+  getTeamBehaviorConfigHistory,
+  saveTeamBehaviorConfig
+} from '../src/db/models';
+import { getGlobalRegistry } from '../src/agent/behavior-registry';
+
+// Mock dependencies
+jest.mock('../src/db/models');
+jest.mock('../src/agent/behavior-registry');
+jest.mock('../src/utils/logger');
+
+const mockedGetTeamBehaviorConfig = getTeamBehaviorConfig as jest.MockedFunction<typeof getTeamBehaviorConfig>;
+const mockedGetTeamBehaviorConfigHistory = getTeamBehaviorConfigHistory as jest.MockedFunction<
+  typeof getTeamBehaviorConfigHistory
+>;
+const mockedSaveTeamBehaviorConfig = saveTeamBehaviorConfig as jest.MockedFunction<typeof saveTeamBehaviorConfig>;
+const mockedGetGlobalRegistry = getGlobalRegistry as jest.MockedFunction<typeof getGlobalRegistry>;
+
+describe('Behavior Configs API Endpoints', () => {
+  let app: express.Application;
+  let mockRegistry: any;
+
+  const config = { settings: { storyMonitoring: { maxStoryPoints: 8 } } };
+  const saved = {
+    id: 12,
+    team_id: 'team-1',
+    version: 3,
+    config,
+    updated_by: 'alice',
+    created_at: new Date('2025-08-01T09:12:44Z')
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/behavior-configs', behaviorConfigRoutes);
+
+    jest.clearAllMocks();
+    mockRegistry = { applyTeamConfig: jest.fn() };
+    mockedGetGlobalRegistry.mockReturnValue(mockRegistry);
+  });
+
+  describe('GET /api/behavior-configs/:teamId', () => {
+    it("should return the team's current configuration", async () => {
+      mockedGetTeamBehaviorConfig.mockResolvedValue(saved);
+
+      const response = await request(app).get('/api/behavior-configs/team-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        success: true,
+        teamId: 'team-1',
+        version: 3,
+        config,
+        updatedBy: 'alice',
+        updatedAt: '2025-08-01T09:12:44.000Z'
+      });
+    });
+
+    it('should return an empty configuration at version 0 for a team without one', async () => {
+      mockedGetTeamBehaviorConfig.mockResolvedValue(null);
+
+      const response = await request(app).get('/api/behavior-configs/team-2');
+
+      expect(response.body).toMatchObject({ success: true, version: 0, config: {} });
+    });
+  });
+
+  it('should return the version history', async () => {
+    mockedGetTeamBehaviorConfigHistory.mockResolvedValue([saved]);
+
+    const response = await request(app).get('/api/behavior-configs/team-1/history');
+
+    expect(response.status).toBe(200);
+    expect(response.body.versions[0]).toMatchObject({ version: 3, updated_by: 'alice' });
+  });
+
+  describe('PUT /api/behavior-configs/:teamId', () => {
+    it('should save a new version and apply it to the running registry', async () => {
+      mockedSaveTeamBehaviorConfig.mockResolvedValue(saved);
+
+      const response = await request(app)
+        .put('/api/behavior-configs/team-1')
+        .send({ version: 2, config, updatedBy: 'alice' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ success: true, version: 3, config });
+      expect(mockedSaveTeamBehaviorConfig).toHaveBeenCalledWith('team-1', config, 2, 'alice');
+      expect(mockRegistry.applyTeamConfig).toHaveBeenCalledWith('team-1', config, 3);
+    });
+
+    it('should reject an invalid configuration', async () => {
+      const response = await request(app)
+        .put('/api/behavior-configs/team-1')
+        .send({ version: 2, config: { settings: { storyMonitoring: { maxStoryPoints: 'eight' } } } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toEqual(['settings.storyMonitoring.maxStoryPoints must be a number of at least 0']);
+      expect(mockedSaveTeamBehaviorConfig).not.toHaveBeenCalled();
+    });
+
+    it('should require the version being replaced', async () => {
+      const response = await request(app).put('/api/behavior-configs/team-1').send({ config });
+
+      expect(response.status).toBe(400);
+      expect(mockedSaveTeamBehaviorConfig).not.toHaveBeenCalled();
+    });
+
+    it('should reject an update based on an outdated version', async () => {
+      mockedSaveTeamBehaviorConfig.mockResolvedValue(null);
+      mockedGetTeamBehaviorConfig.mockResolvedValue(saved);
+
+      const response = await request(app)
+        .put('/api/behavior-configs/team-1')
+        .send({ version: 2, config });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toMatchObject({ success: false, currentVersion: 3 });
+      expect(mockRegistry.applyTeamConfig).not.toHaveBeenCalled();
+    });
+  });
+});
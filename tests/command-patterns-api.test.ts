@@ -0,0 +1,149 @@
+/**
+ * Tests for Command Pattern Registry API Endpoints
+ */
+import request from 'supertest';
+import express from 'express';
+import commandPatternRoutes from '../src/api/command-patterns';
+import {
+  createCustomCommandPattern,
+  getCustomCommandPatternsByOrganization,
+  updateCustomCommandPattern,
+  deleteCustomCommandPattern
+} from '../src/db/models';
+
+// Mock dependencies
+jest.mock('../src/db/models');
+jest.mock('../src/utils/logger');
+
+const mockedCreate = createCustomCommandPattern as jest.MockedFunction<typeof createCustomCommandPattern>;
+const mockedList = getCustomCommandPatternsByOrganization as jest.MockedFunction<typeof getCustomCommandPatternsByOrganization>;
+const mockedUpdate = updateCustomCommandPattern as jest.MockedFunction<typeof updateCustomCommandPattern>;
+const mockedDelete = deleteCustomCommandPattern as jest.MockedFunction<typeof deleteCustomCommandPattern>;
+
+describe('Command Pattern Registry API Endpoints', () => {
+  let app: express.Application;
+
+  const stored = {
+    id: 7,
+    organization_id: 'org-1',
+    intent: 'art_plan',
+    pattern: '\\brun\\s+the\\s+train\\s+plan\\b',
+    flags: 'i',
+    keywords: ['train'],
+    examples: ['run the train plan']
+  } as any;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/command-patterns', commandPatternRoutes);
+
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/command-patterns', () => {
+    it('should list the organization patterns', async () => {
+      mockedList.mockResolvedValue([stored]);
+
+      const response = await request(app).get('/api/command-patterns?organizationId=org-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, patterns: [stored] });
+      expect(mockedList).toHaveBeenCalledWith('org-1');
+    });
+
+    it('should require an organization', async () => {
+      const response = await request(app).get('/api/command-patterns');
+
+      expect(response.status).toBe(400);
+      expect(mockedList).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/command-patterns', () => {
+    it('should save a valid pattern', async () => {
+      mockedCreate.mockResolvedValue(stored);
+
+      const response = await request(app)
+        .post('/api/command-patterns')
+        .send({
+          organizationId: 'org-1',
+          intent: 'art_plan',
+          pattern: stored.pattern,
+          keywords: ['train'],
+          examples: ['run the train plan'],
+          createdBy: 'alice'
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.pattern).toEqual(stored);
+      expect(mockedCreate).toHaveBeenCalledWith(
+        'org-1', 'art_plan', stored.pattern, 'i', ['train'], ['run the train plan'], 'alice'
+      );
+    });
+
+    it('should reject an invalid regex before saving it', async () => {
+      const response = await request(app)
+        .post('/api/command-patterns')
+        .send({ organizationId: 'org-1', intent: 'art_plan', pattern: 'run the [train plan' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+      expect(response.body.errors[0]).toMatch(/^Invalid regex:/);
+      expect(mockedCreate).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the pattern cannot be stored', async () => {
+      mockedCreate.mockRejectedValue(new Error('duplicate key value'));
+
+      const response = await request(app)
+        .post('/api/command-patterns')
+        .send({ organizationId: 'org-1', intent: 'art_plan', pattern: stored.pattern });
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ success: false, error: 'duplicate key value' });
+    });
+  });
+
+  describe('PUT /api/command-patterns/:id', () => {
+    it('should replace a pattern', async () => {
+      mockedUpdate.mockResolvedValue({ ...stored, pattern: '\\btrain\\s+plan\\b' });
+
+      const response = await request(app)
+        .put('/api/command-patterns/7')
+        .send({ intent: 'art_plan', pattern: '\\btrain\\s+plan\\b' });
+
+      expect(response.status).toBe(200);
+      expect(mockedUpdate).toHaveBeenCalledWith(7, 'art_plan', '\\btrain\\s+plan\\b', 'i', [], []);
+    });
+
+    it('should return 404 for a missing pattern', async () => {
+      mockedUpdate.mockResolvedValue(null);
+
+      const response = await request(app)
+        .put('/api/command-patterns/99')
+        .send({ intent: 'art_plan', pattern: 'train plan' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/command-patterns/:id', () => {
+    it('should delete a pattern', async () => {
+      mockedDelete.mockResolvedValue(true);
+
+      const response = await request(app).delete('/api/command-patterns/7');
+
+      expect(response.status).toBe(200);
+      expect(mockedDelete).toHaveBeenCalledWith(7);
+    });
+
+    it('should return 404 for a missing pattern', async () => {
+      mockedDelete.mockResolvedValue(false);
+
+      const response = await request(app).delete('/api/command-patterns/99');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for database model operations
+ */
+
+import { claimPendingWebhookEvents, claimWebhookDelivery } from '../../src/db/models';
+import { query } from '../../src/db/connection';
+
+// Mock dependencies
+jest.mock('../../src/db/connection');
+jest.mock('../../src/utils/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+
+describe('Database Models', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedQuery.mockResolvedValue({ rows: [] } as any);
+  });
+
+  describe('claimPendingWebhookEvents', () => {
+    it('should claim due events and events whose processing lease expired', async () => {
+      await claimPendingWebhookEvents(10, 60000);
+
+      const [sql, params] = mockedQuery.mock.calls[0];
+      expect(sql).toContain("status IN ('pending', 'failed') AND next_attempt_at <= NOW()");
+      expect(sql).toContain("status = 'processing' AND updated_at < NOW() - $2 * INTERVAL '1 millisecond'");
+      expect(params).toEqual([10, 60000]);
+    });
+  });
+
+  describe('claimWebhookDelivery', () => {
+    it('should take over expired claims and claims whose processing lease expired', async () => {
+      mockedQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+      const expiresAt = new Date();
+
+      const claimed = await claimWebhookDelivery('delivery-1:abc', 'delivery-1', 'abc', expiresAt, 120000);
+
+      const [sql, params] = mockedQuery.mock.calls[0];
+      expect(claimed).toBe(true);
+      expect(sql).toContain('webhook_deliveries.expires_at < NOW()');
+      expect(sql).toContain("webhook_deliveries.status = 'processing'");
+      expect(sql).toContain("webhook_deliveries.created_at < NOW() - $5 * INTERVAL '1 millisecond'");
+      expect(params).toEqual(['delivery-1:abc', 'delivery-1', 'abc', expiresAt, 120000]);
+    });
+
+    it('should report a live claim as a duplicate', async () => {
+      mockedQuery.mockResolvedValue({ rows: [], rowCount: 0 } as any);
+
+      expect(await claimWebhookDelivery('delivery-1:abc', 'delivery-1', 'abc', new Date())).toBe(false);
+    });
+  });
+});
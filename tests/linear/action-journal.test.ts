@@ -0,0 +1,164 @@
+/**
+ * Unit Tests for the Linear Action Journal
+ */
+
+import {
+  ActionJournal,
+  journalIssueUpdate,
+  recordAction,
+  runWithJournal
+} from '../../src/linear/action-journal';
+import { getJournalActions, markJournalActionReverted, recordJournalAction } from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+const mockedRecordJournalAction = recordJournalAction as jest.MockedFunction<typeof recordJournalAction>;
+const mockedGetJournalActions = getJournalActions as jest.MockedFunction<typeof getJournalActions>;
+const mockedMarkJournalActionReverted = markJournalActionReverted as jest.MockedFunction<typeof markJournalActionReverted>;
+
+describe('Action Journal', () => {
+  let linearClient: any;
+  let labelIds: string[];
+
+  const scope = { executionId: 'exec_1_abc', originIssueId: 'issue-1', actorId: 'user-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    labelIds = ['label-bug'];
+
+    linearClient = {
+      getIssue: jest.fn().mockImplementation(async (id: string) => ({
+        id,
+        identifier: 'PHX-1',
+        priority: 3,
+        cycle: Promise.resolve({ id: 'cycle-1' }),
+        labels: async () => ({ nodes: labelIds.map(labelId => ({ id: labelId })) })
+      })),
+      updateIssueLegacy: jest.fn().mockResolvedValue({ success: true }),
+      archiveIssue: jest.fn().mockResolvedValue({ success: true }),
+      deleteComment: jest.fn().mockResolvedValue({ success: true })
+    };
+    mockedRecordJournalAction.mockResolvedValue({} as any);
+  });
+
+  describe('recording', () => {
+    it('should record the previous values of changed fields under the execution', async () => {
+      const update = jest.fn().mockResolvedValue({ success: true });
+
+      await runWithJournal(scope, async () => {
+        await journalIssueUpdate(linearClient, 'issue-1', { priority: 1 }, update);
+        await journalIssueUpdate(linearClient, 'issue-1', { cycleId: 'cycle-2', title: undefined }, update);
+      });
+
+      expect(update).toHaveBeenCalledTimes(2);
+      expect(mockedRecordJournalAction).toHaveBeenNthCalledWith(1, {
+        execution_id: 'exec_1_abc',
+        sequence: 1,
+        action_type: 'priority_change',
+        target_id: 'issue-1',
+        target_identifier: 'PHX-1',
+        before_state: { priority: 3 },
+        after_state: { priority: 1 },
+        origin_issue_id: 'issue-1',
+        actor_id: 'user-1'
+      });
+      expect(mockedRecordJournalAction).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        sequence: 2,
+        action_type: 'cycle_assign',
+        before_state: { cycleId: 'cycle-1' },
+        after_state: { cycleId: 'cycle-2' }
+      }));
+    });
+
+    it('should tell label additions from removals', async () => {
+      await runWithJournal(scope, async () => {
+        await journalIssueUpdate(linearClient, 'issue-1', { labelIds: ['label-bug', 'label-risk'] }, jest.fn());
+        await journalIssueUpdate(linearClient, 'issue-1', { labelIds: [] }, jest.fn());
+      });
+
+      expect(mockedRecordJournalAction.mock.calls.map(call => call[0].action_type)).toEqual(['label_add', 'label_remove']);
+    });
+
+    it('should not record changes made outside an execution', async () => {
+      await journalIssueUpdate(linearClient, 'issue-1', { priority: 1 }, jest.fn());
+      await recordAction('issue_create', { id: 'issue-2' }, null, {});
+
+      expect(linearClient.getIssue).not.toHaveBeenCalled();
+      expect(mockedRecordJournalAction).not.toHaveBeenCalled();
+    });
+
+    it('should keep the change when it cannot be recorded', async () => {
+      mockedRecordJournalAction.mockRejectedValue(new Error('database unavailable'));
+      const update = jest.fn().mockResolvedValue({ success: true });
+
+      await expect(runWithJournal(scope, () => journalIssueUpdate(linearClient, 'issue-1', { priority: 1 }, update)))
+        .resolves.toEqual({ success: true });
+    });
+  });
+
+  describe('revert', () => {
+    const entry = (id: number, actionType: string, before: any, after: any) => ({
+      id,
+      execution_id: 'exec_1_abc',
+      sequence: id,
+      action_type: actionType,
+      target_id: 'issue-1',
+      target_identifier: 'PHX-1',
+      before_state: before,
+      after_state: after,
+      created_at: new Date()
+    });
+
+    it('should revert newest first and report steps that could not be reverted', async () => {
+      mockedGetJournalActions.mockResolvedValue([
+        entry(1, 'issue_create', null, { title: 'Cart' }),
+        entry(2, 'relation_create', null, { relatedIssueId: 'PHX-2' }),
+        entry(3, 'issue_update', { title: 'Old' }, { title: 'New' }),
+        { ...entry(4, 'priority_change', { priority: 3 }, { priority: 1 }), reverted_at: new Date() }
+      ]);
+
+      const report = await new ActionJournal(linearClient).revert('exec_1_abc');
+
+      expect(linearClient.updateIssueLegacy).toHaveBeenCalledWith('issue-1', { title: 'Old' });
+      expect(linearClient.archiveIssue).toHaveBeenCalledWith('issue-1');
+      expect(report.reverted.map(step => step.actionId)).toEqual([3, 1]);
+      expect(report.failed).toEqual([expect.objectContaining({
+        actionId: 2,
+        description: 'Link PHX-1 to PHX-2',
+        error: 'The created relation was not recorded'
+      })]);
+      expect(report.alreadyReverted).toBe(1);
+      expect(mockedMarkJournalActionReverted.mock.calls).toEqual([[3], [1]]);
+    });
+
+    it('should only take back the labels an execution added', async () => {
+      labelIds = ['label-bug', 'label-risk', 'label-later'];
+      mockedGetJournalActions.mockResolvedValue([
+        entry(1, 'label_add', { labelIds: ['label-bug'] }, { labelIds: ['label-bug', 'label-risk'] })
+      ]);
+
+      await new ActionJournal(linearClient).revert('exec_1_abc');
+
+      expect(linearClient.updateIssueLegacy).toHaveBeenCalledWith('issue-1', { labelIds: ['label-bug', 'label-later'] });
+    });
+
+    it('should not journal the reverts themselves', async () => {
+      mockedGetJournalActions.mockResolvedValue([entry(1, 'issue_update', { title: 'Old' }, { title: 'New' })]);
+      linearClient.updateIssueLegacy.mockImplementation((id: string, input: any) =>
+        journalIssueUpdate(linearClient, id, input, async () => ({ success: true })));
+
+      await runWithJournal(scope, () => new ActionJournal(linearClient).revert('exec_1_abc'));
+
+      expect(mockedRecordJournalAction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse executions without recorded changes', async () => {
+      mockedGetJournalActions.mockResolvedValue([]);
+
+      await expect(new ActionJournal(linearClient).revert('exec_unknown'))
+        .rejects.toThrow('No recorded changes for execution exec_unknown');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for per-organization Linear client routing
+ */
+import {
+  getLinearClientForOrganization,
+  getDefaultLinearClient,
+  resolveOrganizationId,
+  clearOrganizationClients,
+  UnknownOrganizationError
+} from '../../src/linear/organization-clients';
+import { LinearClientWrapper } from '../../src/linear/client';
+import * as models from '../../src/db/models';
+import { refreshToken } from '../../src/auth/tokens';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/auth/tokens');
+jest.mock('../../src/linear/client');
+jest.mock('../../src/utils/logger');
+
+const mockedModels = models as jest.Mocked<typeof models>;
+const mockedRefreshToken = refreshToken as jest.MockedFunction<typeof refreshToken>;
+const MockedClient = LinearClientWrapper as jest.MockedClass<typeof LinearClientWrapper>;
+
+const createToken = (organizationId: string, accessToken: string, expiresInMs: number) => ({
+  id: 1,
+  organization_id: organizationId,
+  access_token: accessToken,
+  refresh_token: 'refresh-token',
+  app_user_id: 'app-user',
+  expires_at: new Date(Date.now() + expiresInMs),
+  created_at: new Date(),
+  updated_at: new Date()
+});
+
+describe('Organization Clients', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    clearOrganizationClients();
+    delete process.env.LINEAR_ACCESS_TOKEN;
+    delete process.env.LINEAR_ORGANIZATION_ID;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('resolveOrganizationId', () => {
+    it('should read the organization ID from the payload', () => {
+      expect(resolveOrganizationId({ organizationId: 'org-1' })).toBe('org-1');
+      expect(resolveOrganizationId({ data: { organizationId: 'org-2' } })).toBe('org-2');
+      expect(resolveOrganizationId({ type: 'AppUserNotification' })).toBeUndefined();
+    });
+  });
+
+  describe('getLinearClientForOrganization', () => {
+    it('should create a client with the stored token and cache it', async () => {
+      mockedModels.getLinearToken.mockResolvedValue(createToken('org-1', 'token-1', 60 * 60 * 1000));
+
+      const first = await getLinearClientForOrganization('org-1');
+      const second = await getLinearClientForOrganization('org-1');
+
+      expect(first).toBe(second);
+      expect(MockedClient).toHaveBeenCalledTimes(1);
+      expect(MockedClient).toHaveBeenCalledWith('token-1', 'org-1');
+      expect(mockedModels.getLinearToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep separate clients per organization', async () => {
+      mockedModels.getLinearToken.mockImplementation(async (organizationId: string) =>
+        createToken(organizationId, `token-${organizationId}`, 60 * 60 * 1000)
+      );
+
+      await getLinearClientForOrganization('org-1');
+      await getLinearClientForOrganization('org-2');
+
+      expect(MockedClient).toHaveBeenCalledWith('token-org-1', 'org-1');
+      expect(MockedClient).toHaveBeenCalledWith('token-org-2', 'org-2');
+    });
+
+    it('should refresh an expired token before creating the client', async () => {
+      mockedModels.getLinearToken
+        .mockResolvedValueOnce(createToken('org-1', 'expired-token', -1000))
+        .mockResolvedValueOnce(createToken('org-1', 'fresh-token', 60 * 60 * 1000));
+      mockedRefreshToken.mockResolvedValue('fresh-token');
+
+      await getLinearClientForOrganization('org-1');
+
+      expect(mockedRefreshToken).toHaveBeenCalledWith('org-1');
+      expect(MockedClient).toHaveBeenCalledWith('fresh-token', 'org-1');
+    });
+
+    it('should fail when the token cannot be refreshed', async () => {
+      mockedModels.getLinearToken.mockResolvedValue(createToken('org-1', 'expired-token', -1000));
+      mockedRefreshToken.mockResolvedValue(null);
+
+      await expect(getLinearClientForOrganization('org-1')).rejects.toThrow(
+        'Unable to refresh Linear token for organization: org-1'
+      );
+    });
+
+    it('should reject unknown organizations', async () => {
+      mockedModels.getLinearToken.mockResolvedValue(null);
+
+      await expect(getLinearClientForOrganization('org-unknown')).rejects.toBeInstanceOf(
+        UnknownOrganizationError
+      );
+      expect(MockedClient).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to environment credentials for the configured organization', async () => {
+      process.env.LINEAR_ACCESS_TOKEN = 'env-token';
+      process.env.LINEAR_ORGANIZATION_ID = 'org-env';
+      mockedModels.getLinearToken.mockResolvedValue(null);
+
+      await getLinearClientForOrganization('org-env');
+
+      expect(MockedClient).toHaveBeenCalledWith('env-token', 'org-env');
+    });
+  });
+
+  describe('getDefaultLinearClient', () => {
+    it('should return null without environment credentials', () => {
+      expect(getDefaultLinearClient()).toBeNull();
+    });
+
+    it('should build a client from environment credentials', () => {
+      process.env.LINEAR_ACCESS_TOKEN = 'env-token';
+      process.env.LINEAR_ORGANIZATION_ID = 'org-env';
+
+      expect(getDefaultLinearClient()).not.toBeNull();
+      expect(MockedClient).toHaveBeenCalledWith('env-token', 'org-env');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for Risk ROAM Manager
+ */
+
+import { RiskROAMManager, ROAM_LABELS, PI_RISK_LABEL } from '../../src/safe/risk-roam-manager';
+import { getProgramIncrementByPiId, getPIRisksByRiskIds, upsertPIRisk } from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+const mockedGetProgramIncrementByPiId = getProgramIncrementByPiId as jest.MockedFunction<typeof getProgramIncrementByPiId>;
+const mockedGetPIRisksByRiskIds = getPIRisksByRiskIds as jest.MockedFunction<typeof getPIRisksByRiskIds>;
+const mockedUpsertPIRisk = upsertPIRisk as jest.MockedFunction<typeof upsertPIRisk>;
+
+describe('RiskROAMManager', () => {
+  let mockLinearClient: any;
+  let manager: RiskROAMManager;
+
+  const riskIssue = {
+    id: 'risk-1',
+    identifier: 'PHX-42',
+    title: '[RISK] Vendor API delay',
+    team: { id: 'team-1' },
+    cycle: { id: 'cycle-1' },
+    labels: {
+      nodes: [
+        { id: 'label-risk', name: PI_RISK_LABEL },
+        { id: 'label-accepted', name: ROAM_LABELS.accepted },
+        { id: 'label-backend', name: 'backend' }
+      ]
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLinearClient = {
+      getIssue: jest.fn().mockResolvedValue(riskIssue),
+      getIssues: jest.fn(),
+      getLabels: jest.fn().mockResolvedValue({
+        nodes: [{ id: 'label-risk', name: PI_RISK_LABEL }, { id: 'label-accepted', name: ROAM_LABELS.accepted }]
+      }),
+      createLabel: jest.fn().mockResolvedValue({ success: true, issueLabel: { id: 'label-owned' } }),
+      getTeamMembers: jest.fn().mockResolvedValue({
+        nodes: [{ id: 'user-alice', name: 'Alice Smith', displayName: 'alice', email: 'alice@example.com' }]
+      }),
+      updateIssue: jest.fn().mockResolvedValue({ success: true })
+    };
+
+    mockedGetProgramIncrementByPiId.mockResolvedValue({ id: 7, pi_id: 'cycle-1' } as any);
+    mockedUpsertPIRisk.mockResolvedValue({} as any);
+    mockedGetPIRisksByRiskIds.mockResolvedValue([]);
+
+    manager = new RiskROAMManager(mockLinearClient);
+  });
+
+  describe('updateRiskStatus', () => {
+    it('should replace the ROAM label, assign the owner and store the status', async () => {
+      const result = await manager.updateRiskStatus('risk-1', 'owned', { owner: 'alice' });
+
+      expect(mockLinearClient.createLabel).toHaveBeenCalledWith(expect.objectContaining({
+        name: ROAM_LABELS.owned,
+        teamId: 'team-1'
+      }));
+      expect(mockLinearClient.updateIssue).toHaveBeenCalledWith({
+        id: 'risk-1',
+        labelIds: ['label-risk', 'label-backend', 'label-owned'],
+        assigneeId: 'user-alice'
+      });
+      expect(mockedUpsertPIRisk).toHaveBeenCalledWith(7, 'risk-1', 'Vendor API delay', 'owned', 'alice');
+      expect(result).toEqual(expect.objectContaining({
+        identifier: 'PHX-42',
+        status: 'owned',
+        assigneeId: 'user-alice',
+        persisted: true,
+        warnings: []
+      }));
+    });
+
+    it('should warn when the owner or program increment cannot be found', async () => {
+      mockedGetProgramIncrementByPiId.mockResolvedValue(null as any);
+
+      const result = await manager.updateRiskStatus('risk-1', 'accepted', { owner: 'bob' });
+
+      expect(mockLinearClient.createLabel).not.toHaveBeenCalled();
+      expect(mockLinearClient.updateIssue).toHaveBeenCalledWith({
+        id: 'risk-1',
+        labelIds: ['label-risk', 'label-backend', 'label-accepted']
+      });
+      expect(mockedUpsertPIRisk).not.toHaveBeenCalled();
+      expect(result.persisted).toBe(false);
+      expect(result.warnings).toHaveLength(2);
+    });
+
+    it('should throw when the risk does not exist', async () => {
+      mockLinearClient.getIssue.mockResolvedValue(null);
+
+      await expect(manager.updateRiskStatus('missing', 'resolved')).rejects.toThrow('Risk not found: missing');
+    });
+  });
+
+  describe('getRiskBoard', () => {
+    it('should group risks by ROAM status with stored owners', async () => {
+      mockLinearClient.getIssues.mockResolvedValue({
+        nodes: [
+          riskIssue,
+          {
+            id: 'risk-2',
+            identifier: 'PHX-43',
+            title: '[RISK] Load test environment',
+            assignee: { name: 'Carol' },
+            labels: { nodes: [{ id: 'label-risk', name: PI_RISK_LABEL }] }
+          }
+        ]
+      });
+      mockedGetPIRisksByRiskIds.mockResolvedValue([{ risk_id: 'risk-1', owner: 'alice' }] as any);
+
+      const board = await manager.getRiskBoard('team-1');
+
+      expect(board.total).toBe(2);
+      expect(board.accepted).toEqual([expect.objectContaining({ identifier: 'PHX-42', owner: 'alice' })]);
+      expect(board.unroamed).toEqual([expect.objectContaining({ identifier: 'PHX-43', owner: 'Carol' })]);
+      expect(board.owned).toHaveLength(0);
+    });
+  });
+});
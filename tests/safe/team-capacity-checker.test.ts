@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for Team Capacity Checker
+ */
+
+import { TeamCapacityChecker } from '../../src/safe/team-capacity-checker';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('TeamCapacityChecker', () => {
+  let mockLinearClient: any;
+  let checker: TeamCapacityChecker;
+
+  const now = Date.now();
+  const cycle = (id: string, name: string, startOffsetDays: number) => ({
+    id,
+    name,
+    startsAt: new Date(now + startOffsetDays * DAY_MS).toISOString(),
+    endsAt: new Date(now + (startOffsetDays + 14) * DAY_MS).toISOString()
+  });
+
+  const issuesByCycle: Record<string, any[]> = {
+    'cycle-past-1': [
+      { id: 'p1', estimate: 8, completedAt: '2024-01-01' },
+      { id: 'p2', estimate: 12, completedAt: '2024-01-02' },
+      { id: 'p3', estimate: 5 }
+    ],
+    'cycle-past-2': [
+      { id: 'p4', estimate: 20, completedAt: '2024-01-10' }
+    ],
+    'cycle-current': [
+      { id: 'c1', estimate: 3 },
+      { id: 'c2', estimate: 2 },
+      { id: 'c3', estimate: 8, canceledAt: '2024-02-01' }
+    ],
+    'cycle-next': [
+      { id: 'n1', estimate: 8 },
+      { id: 'n2', estimate: 5 },
+      { id: 'n3' }
+    ]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLinearClient = {
+      getTeams: jest.fn().mockResolvedValue({
+        nodes: [
+          {
+            id: 'team-phoenix',
+            key: 'PHX',
+            name: 'Team Phoenix',
+            members: jest.fn().mockResolvedValue({
+              nodes: [{ id: 'u1' }, { id: 'u2' }, { id: 'u3' }, { id: 'u4', active: false }]
+            })
+          }
+        ]
+      }),
+      getTeamCycles: jest.fn().mockResolvedValue({
+        nodes: [
+          cycle('cycle-next', 'Sprint 13', 8),
+          cycle('cycle-past-1', 'Sprint 10', -34),
+          cycle('cycle-current', 'Sprint 12', -6),
+          cycle('cycle-past-2', 'Sprint 11', -20)
+        ]
+      }),
+      getTeamIssues: jest.fn().mockImplementation(async (_teamId: string, filter: any) => ({
+        nodes: issuesByCycle[filter.cycle.id.eq] || []
+      }))
+    };
+
+    checker = new TeamCapacityChecker(mockLinearClient);
+  });
+
+  it('should report utilization for the current and next iterations', async () => {
+    const report = await checker.checkCapacity('Phoenix', { next: true });
+
+    expect(report.team).toEqual(expect.objectContaining({
+      id: 'team-phoenix',
+      memberCount: 3,
+      averageVelocity: 20,
+      velocitySource: 'history'
+    }));
+    expect(report.iterations.map(iteration => iteration.name)).toEqual(['Sprint 12', 'Sprint 13']);
+
+    const [current, next] = report.iterations;
+    expect(current.isFocus).toBe(false);
+    expect(current.allocatedPoints).toBe(5);
+    expect(current.issueCount).toBe(2);
+    expect(next.isFocus).toBe(true);
+    expect(next.allocatedPoints).toBe(13);
+    expect(next.unestimatedCount).toBe(1);
+    expect(next.utilizationRate).toBeCloseTo(13 / next.availableCapacity);
+    expect(next.overcommitmentRisk).toBe('high');
+
+    expect(report.overcommitmentRisk).toBe('high');
+    expect(report.recommendations).toContain('Sprint 13: 1 teams are over-allocated - consider redistributing work');
+    expect(report.warnings).toContain('Sprint 13 has 1 unestimated issue(s); utilization may be understated');
+  });
+
+  it('should fall back to a per-member velocity without cycle history', async () => {
+    mockLinearClient.getTeamCycles.mockResolvedValue({
+      nodes: [cycle('cycle-current', 'Sprint 12', -6)]
+    });
+
+    const report = await checker.checkCapacity('PHX');
+
+    expect(report.team.averageVelocity).toBe(24);
+    expect(report.team.velocitySource).toBe('default');
+    expect(report.iterations).toHaveLength(1);
+    expect(report.iterations[0].isFocus).toBe(true);
+    expect(report.overcommitmentRisk).toBe('low');
+  });
+
+  it('should throw when the team does not exist', async () => {
+    await expect(checker.checkCapacity('Dragon')).rejects.toThrow('Team not found: Dragon');
+  });
+
+  it('should rate overcommitment against the maximum utilization', () => {
+    expect(checker.assessOvercommitmentRisk(0.7)).toBe('low');
+    expect(checker.assessOvercommitmentRisk(0.9)).toBe('medium');
+    expect(checker.assessOvercommitmentRisk(1.2)).toBe('high');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for Team Metrics API Endpoints
+ */
+import request from 'supertest';
+import express from 'express';
+import teamMetricsRoutes from '../src/api/team-metrics';
+import { getTeamMetricSnapshots, getWipHistory } from '../src/db/models';
+
+// Mock dependencies
+jest.mock('../src/db/models');
+jest.mock('../src/utils/logger');
+
+const mockedGetTeamMetricSnapshots = getTeamMetricSnapshots as jest.MockedFunction<typeof getTeamMetricSnapshots>;
+const mockedGetWipHistory = getWipHistory as jest.MockedFunction<typeof getWipHistory>;
+
+describe('Team Metrics API Endpoints', () => {
+  let app: express.Application;
+
+  const snapshot = {
+    id: 41,
+    team_id: 'team-1',
+    snapshot_date: '2025-07-01',
+    velocity: 21.5,
+    wip_count: 9,
+    avg_cycle_time: 6.2,
+    blockage_rate: 8.3,
+    stale_count: 2,
+    completed_count: 14,
+    estimation_variance: 35.4,
+    member_workloads: { 'user-1': 8 },
+    created_at: new Date('2025-07-01T00:00:04Z')
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/team-metrics', teamMetricsRoutes);
+
+    jest.clearAllMocks();
+    mockedGetTeamMetricSnapshots.mockResolvedValue([snapshot]);
+  });
+
+  describe('GET /api/team-metrics/:teamId', () => {
+    it('should return the snapshots in the date range', async () => {
+      const response = await request(app).get('/api/team-metrics/team-1?from=2025-07-01&to=2025-07-31');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        success: true,
+        teamId: 'team-1',
+        from: '2025-07-01',
+        to: '2025-07-31'
+      });
+      expect(response.body.snapshots[0]).toMatchObject({ snapshot_date: '2025-07-01', velocity: 21.5 });
+      expect(mockedGetTeamMetricSnapshots).toHaveBeenCalledWith('team-1', '2025-07-01', '2025-07-31');
+    });
+
+    it('should default to the last 90 days', async () => {
+      const response = await request(app).get('/api/team-metrics/team-1');
+
+      const [, from, to] = mockedGetTeamMetricSnapshots.mock.calls[0];
+      expect(response.status).toBe(200);
+      expect(new Date(to!).getTime() - new Date(from!).getTime()).toBe(90 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject invalid date ranges', async () => {
+      const badDate = await request(app).get('/api/team-metrics/team-1?from=last-week');
+      const reversed = await request(app).get('/api/team-metrics/team-1?from=2025-08-01&to=2025-07-01');
+
+      expect(badDate.status).toBe(400);
+      expect(reversed.status).toBe(400);
+      expect(mockedGetTeamMetricSnapshots).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors', async () => {
+      mockedGetTeamMetricSnapshots.mockRejectedValue(new Error('Database unavailable'));
+
+      const response = await request(app).get('/api/team-metrics/team-1');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ success: false, error: 'Database unavailable' });
+    });
+  });
+
+  describe('GET /api/team-metrics/:teamId/wip', () => {
+    it('should return the WIP history in the date range', async () => {
+      mockedGetWipHistory.mockResolvedValue([{
+        id: 311,
+        team_id: 'team-1',
+        state_name: 'In Progress',
+        issue_count: 6,
+        wip_limit: 5,
+        assignee_counts: { 'user-1': 4 },
+        source: 'webhook',
+        issue_id: 'issue-1',
+        recorded_at: new Date('2025-07-01T14:03:27Z')
+      }]);
+
+      const response = await request(app).get('/api/team-metrics/team-1/wip?from=2025-07-01&to=2025-07-31');
+
+      expect(response.status).toBe(200);
+      expect(response.body.history[0]).toMatchObject({ state_name: 'In Progress', issue_count: 6, wip_limit: 5 });
+      expect(mockedGetWipHistory).toHaveBeenCalledWith('team-1', '2025-07-01', '2025-07-31');
+    });
+
+    it('should reject invalid date ranges', async () => {
+      const response = await request(app).get('/api/team-metrics/team-1/wip?to=yesterday');
+
+      expect(response.status).toBe(400);
+      expect(mockedGetWipHistory).not.toHaveBeenCalled();
+    });
+  });
+});
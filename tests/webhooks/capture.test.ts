@@ -0,0 +1,106 @@
+/**
+ * Tests for webhook fixture capture
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  sanitizePayload,
+  createWebhookFixture,
+  captureWebhookFixture,
+  REDACTED
+} from '../../src/webhooks/capture';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+const createRequest = (body: any) => ({
+  method: 'POST',
+  originalUrl: '/webhook',
+  headers: {
+    'linear-event': 'Issue',
+    'linear-delivery': 'delivery-1',
+    'linear-signature': 't=1,v1=abc'
+  },
+  body
+}) as any;
+
+describe('Webhook Fixture Capture', () => {
+  const originalEnv = { ...process.env };
+  let captureDir: string;
+
+  beforeEach(async () => {
+    captureDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-capture-'));
+    delete process.env.WEBHOOK_CAPTURE_DIR;
+  });
+
+  afterEach(async () => {
+    await fs.rm(captureDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should redact sensitive fields at any depth', () => {
+    const sanitized = sanitizePayload({
+      type: 'Issue',
+      data: {
+        id: 'issue-1',
+        assignee: { name: 'Dev', email: 'dev@example.com', avatarUrl: 'https://avatar' },
+        subscribers: [{ email: 'other@example.com' }]
+      },
+      accessToken: 'secret-token'
+    });
+
+    expect(sanitized.data.id).toBe('issue-1');
+    expect(sanitized.data.assignee).toEqual({ name: 'Dev', email: REDACTED, avatarUrl: REDACTED });
+    expect(sanitized.data.subscribers[0].email).toBe(REDACTED);
+    expect(sanitized.accessToken).toBe(REDACTED);
+  });
+
+  it('should keep delivery headers and drop the signature', () => {
+    const fixture = createWebhookFixture(createRequest({ type: 'Issue', action: 'create' }));
+
+    expect(fixture.route).toBe('/webhook');
+    expect(fixture.headers).toEqual({ 'linear-event': 'Issue', 'linear-delivery': 'delivery-1' });
+    expect(fixture.payload).toEqual({ type: 'Issue', action: 'create' });
+  });
+
+  it('should not write fixtures when capture is disabled', async () => {
+    const next = jest.fn();
+
+    captureWebhookFixture(createRequest({ type: 'Issue' }), {} as any, next);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(next).toHaveBeenCalled();
+    expect(await fs.readdir(captureDir)).toHaveLength(0);
+  });
+
+  it('should write sanitized fixtures to the capture directory', async () => {
+    process.env.WEBHOOK_CAPTURE_DIR = captureDir;
+    const next = jest.fn();
+
+    captureWebhookFixture(
+      createRequest({ type: 'Issue', action: 'update', data: { creator: { email: 'a@b.c' } } }),
+      {} as any,
+      next
+    );
+    expect(next).toHaveBeenCalled();
+
+    // Capture writes asynchronously after passing the request on
+    let files: string[] = [];
+    for (let attempt = 0; attempt < 50 && files.length === 0; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      files = await fs.readdir(captureDir);
+    }
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/Issue-update-[a-z0-9]+\.json$/);
+
+    const fixture = JSON.parse(await fs.readFile(path.join(captureDir, files[0]), 'utf8'));
+    expect(fixture.payload.data.creator.email).toBe(REDACTED);
+    expect(fixture.headers['linear-signature']).toBeUndefined();
+  });
+});
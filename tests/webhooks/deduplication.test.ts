@@ -0,0 +1,100 @@
+/**
+ * Tests for webhook delivery deduplication
+ */
+
+import {
+  processOnce,
+  computePayloadHash,
+  getDeduplicationKey
+} from '../../src/webhooks/deduplication';
+import {
+  claimWebhookDelivery,
+  completeWebhookDelivery,
+  releaseWebhookDelivery
+} from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+describe('Webhook Deduplication', () => {
+  const payload = { type: 'Issue', action: 'update', data: { id: 'issue-1' } };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (completeWebhookDelivery as jest.Mock).mockResolvedValue(undefined);
+    (releaseWebhookDelivery as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  it('should produce the same hash for identical payloads', () => {
+    expect(computePayloadHash(payload)).toBe(computePayloadHash({ ...payload }));
+    expect(computePayloadHash(payload)).not.toBe(
+      computePayloadHash({ ...payload, action: 'create' })
+    );
+  });
+
+  it('should hash every attempt of a delivery the same', () => {
+    const attempt = { ...payload, webhookTimestamp: 1754000000000 };
+    const retry = { webhookTimestamp: 1754000060000, data: { id: 'issue-1' }, action: 'update', type: 'Issue' };
+
+    expect(computePayloadHash(retry)).toBe(computePayloadHash(attempt));
+    expect(computePayloadHash(JSON.stringify(retry))).toBe(computePayloadHash(attempt));
+    expect(computePayloadHash(attempt)).toBe(computePayloadHash(payload));
+  });
+
+  it('should key deliveries on delivery ID and payload hash', () => {
+    const hash = computePayloadHash(payload);
+
+    expect(getDeduplicationKey('delivery-1', hash)).toBe(`delivery-1:${hash}`);
+    expect(getDeduplicationKey(undefined, hash)).toBe(`no-delivery-id:${hash}`);
+  });
+
+  it('should run the handler and complete the claim for a new delivery', async () => {
+    (claimWebhookDelivery as jest.Mock).mockResolvedValue(true);
+    const handler = jest.fn().mockResolvedValue('processed');
+
+    const outcome = await processOnce('delivery-1', payload, handler);
+
+    expect(outcome).toEqual({ duplicate: false, result: 'processed' });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(claimWebhookDelivery).toHaveBeenCalledWith(
+      `delivery-1:${computePayloadHash(payload)}`,
+      'delivery-1',
+      computePayloadHash(payload),
+      expect.any(Date),
+      2 * 60 * 1000
+    );
+    expect(completeWebhookDelivery).toHaveBeenCalledWith(`delivery-1:${computePayloadHash(payload)}`);
+  });
+
+  it('should skip the handler for a duplicate delivery', async () => {
+    (claimWebhookDelivery as jest.Mock).mockResolvedValue(false);
+    const handler = jest.fn();
+
+    const outcome = await processOnce('delivery-1', payload, handler);
+
+    expect(outcome).toEqual({ duplicate: true });
+    expect(handler).not.toHaveBeenCalled();
+    expect(completeWebhookDelivery).not.toHaveBeenCalled();
+  });
+
+  it('should release the claim when the handler fails', async () => {
+    (claimWebhookDelivery as jest.Mock).mockResolvedValue(true);
+    const handler = jest.fn().mockRejectedValue(new Error('processing failed'));
+
+    await expect(processOnce('delivery-1', payload, handler)).rejects.toThrow('processing failed');
+
+    expect(releaseWebhookDelivery).toHaveBeenCalledWith(`delivery-1:${computePayloadHash(payload)}`);
+    expect(completeWebhookDelivery).not.toHaveBeenCalled();
+  });
+
+  it('should still process when the deduplication store is unavailable', async () => {
+    (claimWebhookDelivery as jest.Mock).mockRejectedValue(new Error('connection refused'));
+    const handler = jest.fn().mockResolvedValue('processed');
+
+    const outcome = await processOnce('delivery-1', payload, handler);
+
+    expect(outcome).toEqual({ duplicate: false, result: 'processed' });
+    expect(completeWebhookDelivery).not.toHaveBeenCalled();
+  });
+});
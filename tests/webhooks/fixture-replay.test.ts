@@ -0,0 +1,172 @@
+/**
+ * Tests for webhook fixture replay and the recording Linear client
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadWebhookFixtures, replayWebhookFixtures } from '../../src/webhooks/fixture-replay';
+import { RecordingLinearClient } from '../../src/linear/recording-client';
+import { processWebhookEvent } from '../../src/webhooks/handler';
+import { processBehaviorEvent } from '../../src/agent/webhook-integration';
+import { getGlobalRegistry, initializeGlobalRegistry } from '../../src/agent/behavior-registry';
+
+// Mock dependencies
+jest.mock('../../src/webhooks/handler');
+jest.mock('../../src/agent/webhook-integration');
+jest.mock('../../src/agent/behavior-registry');
+jest.mock('../../src/utils/logger');
+
+const mockedProcessWebhookEvent = processWebhookEvent as jest.MockedFunction<typeof processWebhookEvent>;
+const mockedProcessBehaviorEvent = processBehaviorEvent as jest.MockedFunction<typeof processBehaviorEvent>;
+
+describe('Webhook Fixture Replay', () => {
+  let fixtureDir: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (getGlobalRegistry as jest.Mock).mockReturnValue(null);
+    fixtureDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  const writeFixture = async (name: string, content: any) => {
+    await fs.writeFile(path.join(fixtureDir, name), JSON.stringify(content), 'utf8');
+  };
+
+  describe('loadWebhookFixtures', () => {
+    it('should load a directory of fixtures in file name order', async () => {
+      await writeFixture('2-comment.json', {
+        capturedAt: '2024-01-01T00:00:01Z',
+        route: '/webhook/behaviors',
+        headers: {},
+        payload: { type: 'Comment', action: 'create' }
+      });
+      await writeFixture('1-mention.json', { type: 'AppUserNotification', action: 'issueMention' });
+      await writeFixture('notes.txt', 'ignored');
+
+      const fixtures = await loadWebhookFixtures(fixtureDir);
+
+      expect(fixtures.map(fixture => path.basename(fixture.file))).toEqual(['1-mention.json', '2-comment.json']);
+      // Raw payloads are treated as /webhook deliveries
+      expect(fixtures[0].route).toBe('/webhook');
+      expect(fixtures[0].payload.action).toBe('issueMention');
+      expect(fixtures[1].route).toBe('/webhook/behaviors');
+    });
+  });
+
+  describe('replayWebhookFixtures', () => {
+    it('should report comments, mutations and notifications without calling Linear', async () => {
+      mockedProcessWebhookEvent.mockImplementation(async (_payload, options) => {
+        const issue = await options!.linearClient!.getIssue('issue-1');
+        await options!.linearClient!.createComment(issue.id, `Hello from ${issue.title}`);
+        await options!.linearClient!.updateIssue({ id: issue.id, estimate: 3 });
+        await options!.notificationCoordinator!.notifyAgentUpdate(
+          'linear-agent', 'remote', 'completed', issue.title, 'done'
+        );
+      });
+
+      const client = new RecordingLinearClient();
+      const [result] = await replayWebhookFixtures([{
+        file: 'mention.json',
+        capturedAt: '',
+        route: '/webhook',
+        headers: {},
+        payload: { type: 'AppUserNotification', action: 'issueMention' },
+        linearData: { issues: [{ id: 'issue-1', title: 'Checkout flow' }] }
+      }], client);
+
+      expect(initializeGlobalRegistry).toHaveBeenCalledWith(expect.objectContaining({ linearClient: client }));
+      expect(result.success).toBe(true);
+      expect(result.comments).toEqual([{ issueId: 'issue-1', body: 'Hello from Checkout flow' }]);
+      expect(result.mutations.map(mutation => mutation.operation)).toEqual(['createComment', 'updateIssue']);
+      expect(result.notifications).toEqual([
+        expect.objectContaining({ method: 'notifyAgentUpdate' })
+      ]);
+    });
+
+    it('should route behavior fixtures to the behavior system and record failures', async () => {
+      mockedProcessBehaviorEvent.mockRejectedValue(new Error('Unexpected payload shape'));
+
+      const [result] = await replayWebhookFixtures([{
+        file: 'comment.json',
+        capturedAt: '',
+        route: '/webhook/behaviors',
+        headers: {},
+        payload: { type: 'Comment', action: 'create' }
+      }], new RecordingLinearClient());
+
+      expect(mockedProcessBehaviorEvent).toHaveBeenCalledWith({ type: 'Comment', action: 'create' });
+      expect(mockedProcessWebhookEvent).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({
+        success: false,
+        error: 'Unexpected payload shape',
+        type: 'Comment',
+        action: 'create'
+      }));
+    });
+
+    it('should reset recorded mutations between fixtures', async () => {
+      mockedProcessWebhookEvent.mockImplementation(async (payload, options) => {
+        await options!.linearClient!.createComment(payload.data.id, 'comment');
+      });
+
+      const fixture = (id: string) => ({
+        file: `${id}.json`,
+        capturedAt: '',
+        route: '/webhook',
+        headers: {},
+        payload: { type: 'AppUserNotification', data: { id } }
+      });
+
+      const results = await replayWebhookFixtures([fixture('a'), fixture('b')], new RecordingLinearClient());
+
+      expect(results[0].comments).toEqual([{ issueId: 'a', body: 'comment' }]);
+      expect(results[1].comments).toEqual([{ issueId: 'b', body: 'comment' }]);
+    });
+  });
+
+  describe('RecordingLinearClient', () => {
+    it('should serve reads from in-memory data', async () => {
+      const client = new RecordingLinearClient({
+        data: {
+          teams: [{ id: 'team-1', name: 'Platform', states: [{ id: 'state-1', name: 'Todo' }] }],
+          labels: [{ id: 'label-1', name: 'bug' }]
+        }
+      });
+
+      const team = await client.getTeam('team-1');
+
+      expect(team.name).toBe('Platform');
+      expect(await team.states()).toEqual({ nodes: [{ id: 'state-1', name: 'Todo' }] });
+      expect(await client.getLabels({ teamId: 'team-1' })).toEqual({ nodes: [{ id: 'label-1', name: 'bug' }] });
+      expect(await client.getTeamIssues('team-1')).toEqual({ nodes: [] });
+      expect((await client.getViewer()).id).toBe('replay-agent');
+    });
+
+    it('should apply issue filters to in-memory issues', async () => {
+      const client = new RecordingLinearClient({
+        data: {
+          issues: [
+            { id: 'a', title: 'Velocity drop', team: { id: 'team-1' }, labels: { nodes: [{ name: 'anomaly-detection' }] } },
+            { id: 'b', title: 'Velocity drop', team: { id: 'team-2' }, labels: { nodes: [] } },
+            { id: 'c', title: 'Docs', team: { id: 'team-1' }, updatedAt: '2025-07-01T00:00:00Z', labels: { nodes: [] } }
+          ]
+        }
+      });
+      const ids = async (filter: any) => (await client.getIssues({ filter })).nodes.map((issue: any) => issue.id);
+
+      expect(await ids({
+        team: { id: { eq: 'team-1' } },
+        title: { contains: 'Velocity' },
+        labels: { some: { name: { eq: 'anomaly-detection' } } }
+      })).toEqual(['a']);
+      expect(await ids({ team: { id: { in: ['team-1', 'team-2'] } }, id: { neq: 'a' } })).toEqual(['b', 'c']);
+      expect(await ids({ updatedAt: { gte: new Date('2025-06-01T00:00:00Z') } })).toEqual(['c']);
+      expect(await ids(undefined)).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
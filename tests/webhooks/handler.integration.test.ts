@@ -4,6 +4,9 @@
 
 import { Request, Response } from 'express';
 import { handleWebhook } from '../../src/webhooks/handler';
+import { getWebhookQueue } from '../../src/webhooks/queue';
+import { processOnce } from '../../src/webhooks/deduplication';
+import { clearOrganizationClients } from '../../src/linear/organization-clients';
 import { verifyWebhookSignature } from '../../src/webhooks/verification';
 import { LinearClientWrapper } from '../../src/linear/client';
 import { OperationalNotificationCoordinator } from '../../src/utils/operational-notification-coordinator';
@@ -11,6 +14,16 @@ import * as logger from '../../src/utils/logger';
 
 // Mock dependencies
 jest.mock('../../src/webhooks/verification');
+jest.mock('../../src/webhooks/queue');
+jest.mock('../../src/db/models');
+
+// Process every delivery without touching the deduplication store
+jest.mock('../../src/webhooks/deduplication', () => ({
+  processOnce: jest.fn(async (_deliveryId: string, _payload: any, handler: () => Promise<any>) => ({
+    duplicate: false,
+    result: await handler()
+  }))
+}));
 jest.mock('../../src/linear/client');
 jest.mock('../../src/utils/operational-notification-coordinator');
 jest.mock('../../src/utils/logger');
@@ -33,6 +46,12 @@ describe('Webhook Handler Integration', () => {
     // Mock verification to always return true
     (verifyWebhookSignature as jest.Mock).mockReturnValue(true);
 
+    // Build a fresh client per test
+    clearOrganizationClients();
+
+    // Process inline unless a test enables the queue
+    (getWebhookQueue as jest.Mock).mockReturnValue(null);
+
     // Setup mock Linear client
     mockLinearClient = {
       createComment: jest.fn().mockResolvedValue(undefined)
@@ -350,4 +369,133 @@ describe('Webhook Handler Integration', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('Queued Processing', () => {
+    it('should enqueue the event and acknowledge without processing inline', async () => {
+      const mockQueue = {
+        enqueue: jest.fn().mockResolvedValue({ id: 42 })
+      };
+      (getWebhookQueue as jest.Mock).mockReturnValue(mockQueue);
+
+      mockReq.headers = {
+        'linear-signature': 'test-signature',
+        'linear-delivery': 'delivery-123'
+      };
+      mockReq.body = {
+        type: 'AppUserNotification',
+        action: 'issueMention',
+        notification: {
+          issue: { id: 'issue-queued', identifier: 'LIN-Q', title: 'Queued' }
+        }
+      };
+
+      await handleWebhook(mockReq as Request, mockRes as Response);
+
+      expect(mockQueue.enqueue).toHaveBeenCalledWith(mockReq.body, 'delivery-123');
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, queued: true, eventId: 42 });
+      expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to inline processing when the event cannot be enqueued', async () => {
+      const mockQueue = {
+        enqueue: jest.fn().mockRejectedValue(new Error('database unavailable'))
+      };
+      (getWebhookQueue as jest.Mock).mockReturnValue(mockQueue);
+
+      mockReq.body = {
+        type: 'AppUserNotification',
+        action: 'issueAssignedToYou',
+        notification: {
+          id: 'notif-fallback',
+          type: 'issueAssignedToYou',
+          createdAt: '2024-01-01T00:00:00Z',
+          actor: { id: 'user-1', name: 'Fallback User' },
+          issue: {
+            id: 'issue-fallback',
+            identifier: 'LIN-FB',
+            title: 'Fallback',
+            url: 'https://linear.app/team/issue/LIN-FB',
+            state: { id: 'state-progress', name: 'In Progress', color: '#00FF00', type: 'started' }
+          }
+        }
+      };
+
+      await handleWebhook(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true });
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-fallback',
+        expect.any(String)
+      );
+    });
+  });
+
+  describe('Duplicate Deliveries', () => {
+    it('should acknowledge a retried delivery without processing it again', async () => {
+      (processOnce as jest.Mock).mockResolvedValueOnce({ duplicate: true });
+
+      mockReq.headers = {
+        'linear-signature': 'test-signature',
+        'linear-delivery': 'delivery-dup'
+      };
+      mockReq.body = {
+        type: 'AppUserNotification',
+        action: 'issueMention',
+        notification: {
+          issue: { id: 'issue-dup', identifier: 'LIN-DUP', title: 'Duplicate' }
+        }
+      };
+
+      await handleWebhook(mockReq as Request, mockRes as Response);
+
+      expect(processOnce).toHaveBeenCalledWith('delivery-dup', mockReq.body, expect.any(Function));
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, duplicate: true });
+      expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Organization Routing', () => {
+    it('should reject notifications for unknown organizations', async () => {
+      mockReq.body = {
+        type: 'AppUserNotification',
+        action: 'issueMention',
+        organizationId: 'org-unknown',
+        notification: {
+          issue: { id: 'issue-org', identifier: 'LIN-ORG', title: 'Other Workspace' }
+        }
+      };
+
+      await handleWebhook(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Unknown organization' });
+      expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+      expect(mockNotificationCoordinator.notifyWorkflowUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown organizations before enqueueing', async () => {
+      const mockQueue = {
+        enqueue: jest.fn().mockResolvedValue({ id: 43 })
+      };
+      (getWebhookQueue as jest.Mock).mockReturnValue(mockQueue);
+
+      mockReq.body = {
+        type: 'AppUserNotification',
+        action: 'issueMention',
+        organizationId: 'org-unknown',
+        notification: {
+          issue: { id: 'issue-org', identifier: 'LIN-ORG', title: 'Other Workspace' }
+        }
+      };
+
+      await handleWebhook(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Unknown organization' });
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for CycleProcessor
+ */
+
+import { CycleProcessor } from '../../../src/webhooks/processors/cycle.processor';
+import { EntityWebhookPayload } from '../../../src/webhooks/processors/base-entity-processor';
+import { AutonomousBehaviorEngine } from '../../../src/agent/autonomous-engine';
+import { BehaviorTriggerType } from '../../../src/agent/types/autonomous-types';
+import { recordCycleStart } from '../../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../../src/db/models');
+jest.mock('../../../src/utils/logger');
+
+const mockedRecordCycleStart = recordCycleStart as jest.MockedFunction<typeof recordCycleStart>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('CycleProcessor', () => {
+  let processor: CycleProcessor;
+  let mockEngine: jest.Mocked<AutonomousBehaviorEngine>;
+
+  const createCycle = (overrides: any = {}) => ({
+    id: 'cycle-1',
+    number: 12,
+    name: 'Iteration 12',
+    startsAt: new Date(Date.now() - DAY).toISOString(),
+    endsAt: new Date(Date.now() + 13 * DAY).toISOString(),
+    completedAt: null,
+    teamId: 'team-1',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockEngine = {
+      processTrigger: jest.fn().mockResolvedValue([])
+    } as any;
+    mockedRecordCycleStart.mockResolvedValue(true);
+
+    processor = new CycleProcessor(mockEngine);
+  });
+
+  it('should raise CYCLE_STARTED when an active cycle is created', async () => {
+    const payload: EntityWebhookPayload = {
+      action: 'create',
+      type: 'Cycle',
+      data: createCycle()
+    };
+
+    await processor.process(payload);
+
+    expect(mockEngine.processTrigger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: BehaviorTriggerType.CYCLE_STARTED,
+        context: expect.objectContaining({
+          team: { id: 'team-1', name: '', key: '' },
+          currentIteration: 'cycle-1',
+          triggerType: BehaviorTriggerType.CYCLE_STARTED,
+          metadata: expect.objectContaining({
+            cycle: expect.objectContaining({ id: 'cycle-1', number: 12 }),
+            webhookType: 'Cycle'
+          })
+        })
+      })
+    );
+  });
+
+  it('should raise CYCLE_STARTED when a cycle is rescheduled to start now', async () => {
+    await processor.process({
+      action: 'update',
+      type: 'Cycle',
+      data: createCycle(),
+      updatedFrom: { startsAt: new Date(Date.now() + 2 * DAY).toISOString() }
+    });
+
+    expect(mockEngine.processTrigger).toHaveBeenCalledWith(
+      expect.objectContaining({ type: BehaviorTriggerType.CYCLE_STARTED })
+    );
+  });
+
+  it('should raise CYCLE_COMPLETED when a cycle is completed', async () => {
+    await processor.process({
+      action: 'update',
+      type: 'Cycle',
+      data: createCycle({ completedAt: new Date().toISOString() }),
+      updatedFrom: { completedAt: null }
+    });
+
+    expect(mockEngine.processTrigger).toHaveBeenCalledWith(
+      expect.objectContaining({ type: BehaviorTriggerType.CYCLE_COMPLETED })
+    );
+  });
+
+  it('should ignore updates that are not lifecycle transitions', async () => {
+    const results = await processor.process({
+      action: 'update',
+      type: 'Cycle',
+      data: createCycle(),
+      updatedFrom: { name: 'Old name' }
+    });
+
+    expect(results).toEqual([]);
+    expect(mockEngine.processTrigger).not.toHaveBeenCalled();
+  });
+
+  it('should ignore future cycles when created', async () => {
+    await processor.process({
+      action: 'create',
+      type: 'Cycle',
+      data: createCycle({
+        startsAt: new Date(Date.now() + DAY).toISOString(),
+        endsAt: new Date(Date.now() + 15 * DAY).toISOString()
+      })
+    });
+
+    expect(mockEngine.processTrigger).not.toHaveBeenCalled();
+  });
+
+  it('should not raise CYCLE_STARTED twice for the same cycle', async () => {
+    mockedRecordCycleStart.mockResolvedValue(false);
+
+    await processor.process({ action: 'create', type: 'Cycle', data: createCycle() });
+
+    expect(mockedRecordCycleStart).toHaveBeenCalledWith('cycle-1', 'team-1', 'webhook');
+    expect(mockEngine.processTrigger).not.toHaveBeenCalled();
+  });
+
+  describe('checkStartedCycles', () => {
+    const team = { id: 'team-1', name: 'Phoenix', key: 'PHX' };
+    let mockLinearClient: any;
+
+    beforeEach(() => {
+      mockLinearClient = {
+        getTeams: jest.fn().mockResolvedValue({ nodes: [team] }),
+        getTeamCycles: jest.fn().mockResolvedValue({
+          nodes: [
+            createCycle({ teamId: undefined, startsAt: new Date(Date.now() - 60 * 60 * 1000).toISOString() }),
+            createCycle({
+              id: 'cycle-next',
+              startsAt: new Date(Date.now() + DAY).toISOString(),
+              endsAt: new Date(Date.now() + 15 * DAY).toISOString()
+            }),
+            createCycle({ id: 'cycle-old', startsAt: new Date(Date.now() - 3 * DAY).toISOString() })
+          ]
+        })
+      };
+    });
+
+    it('should raise CYCLE_STARTED for cycles that started on schedule', async () => {
+      await processor.checkStartedCycles(mockLinearClient);
+
+      expect(mockedRecordCycleStart).toHaveBeenCalledTimes(1);
+      expect(mockedRecordCycleStart).toHaveBeenCalledWith('cycle-1', 'team-1', 'schedule');
+      expect(mockEngine.processTrigger).toHaveBeenCalledTimes(1);
+      expect(mockEngine.processTrigger).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: BehaviorTriggerType.CYCLE_STARTED,
+          context: expect.objectContaining({
+            team,
+            currentIteration: 'cycle-1'
+          })
+        })
+      );
+    });
+
+    it('should skip cycles whose start was already handled', async () => {
+      mockedRecordCycleStart.mockResolvedValue(false);
+
+      await processor.checkStartedCycles(mockLinearClient);
+
+      expect(mockEngine.processTrigger).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -6,12 +6,30 @@ import { IssueCommentMentionProcessor } from '../../../src/webhooks/processors/i
 import { LinearClientWrapper } from '../../../src/linear/client';
 import { OperationalNotificationCoordinator } from '../../../src/utils/operational-notification-coordinator';
 import { AppUserNotification } from '../../../src/webhooks/processors/base-processor';
+import { CLIExecutor } from '../../../src/agent/cli-executor';
+import { waitForCommandJobs } from '../../../src/agent/command-jobs';
+import { CommandIntent } from '../../../src/agent/types/command-types';
+import {
+  getPendingCommand,
+  savePendingCommand,
+  purgeExpiredPendingCommands,
+  savePendingPlan,
+  purgeExpiredPendingPlans
+} from '../../../src/db/models';
 import * as logger from '../../../src/utils/logger';
 
 // Mock dependencies
 jest.mock('../../../src/linear/client');
 jest.mock('../../../src/utils/operational-notification-coordinator');
 jest.mock('../../../src/utils/logger');
+jest.mock('../../../src/db/models');
+jest.mock('../../../src/agent/cli-executor');
+
+const mockedGetPendingCommand = getPendingCommand as jest.MockedFunction<typeof getPendingCommand>;
+const mockedSavePendingCommand = savePendingCommand as jest.MockedFunction<typeof savePendingCommand>;
+const mockedPurgeExpiredPendingCommands = purgeExpiredPendingCommands as jest.MockedFunction<typeof purgeExpiredPendingCommands>;
+const mockedSavePendingPlan = savePendingPlan as jest.MockedFunction<typeof savePendingPlan>;
+const mockedPurgeExpiredPendingPlans = purgeExpiredPendingPlans as jest.MockedFunction<typeof purgeExpiredPendingPlans>;
 
 describe('IssueCommentMentionProcessor', () => {
   let processor: IssueCommentMentionProcessor;
@@ -270,7 +288,7 @@ describe('IssueCommentMentionProcessor', () => {
       );
     });
 
-    it('should handle decompose command in comment', async () => {
+    it('should preview a fully specified decompose request instead of describing it', async () => {
       const notification: AppUserNotification = {
         action: 'issueCommentMention',
         type: 'AppUserNotification',
@@ -299,19 +317,43 @@ describe('IssueCommentMentionProcessor', () => {
           }
         }
       };
+      jest.mocked(CLIExecutor.prototype.execute).mockResolvedValue({
+        success: true,
+        command: 'story_decompose',
+        parameters: { storyId: 'issue-big' },
+        executionTime: 10,
+        data: {
+          decomposition: {
+            originalStoryId: 'issue-big',
+            originalIdentifier: 'LIN-BIG',
+            subStories: [{ title: 'Checkout API', points: 5, acceptanceCriteria: [] }]
+          }
+        }
+      });
+      (mockLinearClient as any).getIssue = jest.fn().mockResolvedValue({ team: { id: 'team-1' } });
+      mockLinearClient.createComment.mockResolvedValue({ comment: Promise.resolve({ id: 'preview-1' }) });
+      mockedSavePendingPlan.mockResolvedValue({} as any);
+      mockedPurgeExpiredPendingPlans.mockResolvedValue(0);
+      mockedGetPendingCommand.mockResolvedValue(null);
 
       await processor.process(notification);
 
-      // Verify decomposition response was included
+      expect(CLIExecutor.prototype.execute).toHaveBeenCalledWith(expect.objectContaining({
+        intent: CommandIntent.STORY_DECOMPOSE,
+        requester: expect.objectContaining({ id: 'user-123' })
+      }));
+      expect(mockLinearClient.createComment).toHaveBeenCalledTimes(1);
       expect(mockLinearClient.createComment).toHaveBeenCalledWith(
         'issue-big',
-        expect.stringContaining('Story Decomposition')
+        expect.stringContaining('## 👀 Preview: Story Decomposition'),
+        'comment-decompose'
       );
-
-      // Verify current points mentioned
-      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
-        'issue-big',
-        expect.stringContaining('currently 13 points')
+      expect(mockedSavePendingPlan).toHaveBeenCalledWith(
+        'preview-1', 'comment-decompose', 'issue-big', CommandIntent.STORY_DECOMPOSE,
+        expect.anything(),
+        [expect.objectContaining({ type: 'create_issue', title: 'Checkout API', teamId: 'team-1' })],
+        'user-123',
+        expect.any(Date)
       );
     });
 
@@ -404,4 +446,278 @@ describe('IssueCommentMentionProcessor', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('clarification dialog', () => {
+    const notificationFor = (comment: { id: string; body: string; parentId?: string }): AppUserNotification => ({
+      action: 'issueCommentMention',
+      type: 'AppUserNotification',
+      notification: {
+        id: 'notif-dialog',
+        type: 'issueCommentMention',
+        createdAt: '2024-01-01T00:00:00Z',
+        actor: { id: 'user-123', name: 'Jane Doe' },
+        issue: {
+          id: 'issue-dialog',
+          identifier: 'LIN-200',
+          title: 'Capacity review',
+          url: 'https://linear.app/team/issue/LIN-200'
+        },
+        comment: { ...comment, createdAt: '2024-01-01T12:00:00Z' }
+      }
+    });
+
+    beforeEach(() => {
+      (mockLinearClient as any).getTeams = jest.fn().mockResolvedValue({
+        nodes: [
+          { id: 'team-1', key: 'PHX', name: 'Team Phoenix' },
+          { id: 'team-2', key: 'ATL', name: 'Team Atlas' }
+        ]
+      });
+      mockedGetPendingCommand.mockResolvedValue(null);
+      mockedSavePendingCommand.mockResolvedValue({} as any);
+      mockedPurgeExpiredPendingCommands.mockResolvedValue(0);
+    });
+
+    it('should ask for a missing parameter in the comment thread', async () => {
+      await processor.process(notificationFor({ id: 'comment-1', body: '@saafepulse check capacity' }));
+
+      expect(mockLinearClient.createComment).toHaveBeenCalledTimes(1);
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-dialog',
+        expect.stringContaining('Which team: Team Phoenix or Team Atlas?'),
+        'comment-1'
+      );
+      expect(mockedSavePendingCommand).toHaveBeenCalledWith(
+        'comment-1', 'issue-dialog', CommandIntent.CAPACITY_CHECK, 'check capacity',
+        expect.anything(), expect.anything(), 'teamId', ['Team Phoenix', 'Team Atlas'],
+        'Which team: Team Phoenix or Team Atlas?', expect.any(Date)
+      );
+    });
+
+    it('should run the original command when a reply in the thread completes it', async () => {
+      mockedGetPendingCommand.mockResolvedValue({
+        thread_id: 'comment-1',
+        issue_id: 'issue-dialog',
+        intent: CommandIntent.CAPACITY_CHECK,
+        raw_text: 'check capacity',
+        parameters: { iterations: 2, explicit: {} },
+        context: { issueId: 'issue-dialog', teamId: '', labels: [] },
+        parameter: 'teamId',
+        options: ['Team Phoenix', 'Team Atlas'],
+        question: 'Which team: Team Phoenix or Team Atlas?'
+      } as any);
+      jest.mocked(CLIExecutor.prototype.executeAndFormat).mockResolvedValue({
+        success: true,
+        message: '## 📊 Team Capacity: Team Atlas'
+      });
+
+      await processor.process(notificationFor({ id: 'comment-2', parentId: 'comment-1', body: '@saafepulse Atlas' }));
+
+      expect(CLIExecutor.prototype.executeAndFormat).toHaveBeenCalledWith(expect.objectContaining({
+        intent: CommandIntent.CAPACITY_CHECK,
+        parameters: expect.objectContaining({ teamId: 'Team Atlas', iterations: 2 }),
+        requester: expect.objectContaining({ id: 'user-123', name: 'Jane Doe' })
+      }));
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-dialog',
+        '## 📊 Team Capacity: Team Atlas',
+        'comment-1'
+      );
+    });
+
+    it('should preview a chained decompose step and keep the rest of the chain with it', async () => {
+      const decomposition = {
+        originalStoryId: 'issue-dialog',
+        originalIdentifier: 'LIN-200',
+        subStories: [{ title: 'Checkout API', points: 3, acceptanceCriteria: [] }]
+      };
+      jest.mocked(CLIExecutor.prototype.executeChain).mockImplementation(async commands => ({
+        success: true,
+        steps: [{
+          step: 1,
+          command: commands[0],
+          success: true,
+          results: [{ success: true, data: { decomposition }, executionTime: 5, command: 'story-decompose', parameters: {} }]
+        }],
+        skipped: [],
+        pausedStep: 1,
+        pending: commands.slice(1),
+        executionTime: 5,
+        executionId: 'chain-1'
+      }));
+      jest.mocked(CLIExecutor.prototype.formatChain).mockReturnValue({
+        success: true,
+        message: '## ⏸️ Command Chain Waiting at Step 1'
+      });
+      (mockLinearClient as any).getIssue = jest.fn().mockResolvedValue({ team: { id: 'team-1' } });
+      mockLinearClient.createComment.mockResolvedValue({ comment: Promise.resolve({ id: 'preview-1' }) });
+      mockedSavePendingPlan.mockResolvedValue({} as any);
+      mockedPurgeExpiredPendingPlans.mockResolvedValue(0);
+
+      await processor.process(notificationFor({
+        id: 'comment-1',
+        body: '@saafepulse decompose this story and then score the sub-stories'
+      }));
+
+      const [commands, options] = jest.mocked(CLIExecutor.prototype.executeChain).mock.calls[0];
+      expect(commands).toEqual([
+        expect.objectContaining({ intent: CommandIntent.STORY_DECOMPOSE, requester: expect.objectContaining({ id: 'user-123' }) }),
+        expect.objectContaining({ intent: CommandIntent.STORY_SCORE, requester: expect.objectContaining({ id: 'user-123' }) })
+      ]);
+      expect(options?.pauseAfter?.(commands[0])).toBe(true);
+      expect(options?.pauseAfter?.(commands[1])).toBe(false);
+      expect(mockLinearClient.createComment).toHaveBeenCalledTimes(1);
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-dialog',
+        expect.stringMatching(/^## ⏸️ Command Chain Waiting at Step 1\n\n## 👀 Preview: Story Decomposition/),
+        'comment-1'
+      );
+      expect(mockedSavePendingPlan).toHaveBeenCalledWith(
+        'preview-1', 'comment-1', 'issue-dialog', CommandIntent.STORY_DECOMPOSE,
+        expect.objectContaining({
+          metadata: expect.objectContaining({
+            continuation: { step: 1, commands: [expect.objectContaining({ intent: CommandIntent.STORY_SCORE })] }
+          })
+        }),
+        [expect.objectContaining({ type: 'create_issue', title: 'Checkout API' })],
+        'user-123',
+        expect.any(Date)
+      );
+    });
+
+    it('should refuse chains with a command that runs as a job', async () => {
+      await processor.process(notificationFor({
+        id: 'comment-1',
+        body: '@saafepulse map dependencies then optimize ART'
+      }));
+
+      expect(CLIExecutor.prototype.executeChain).not.toHaveBeenCalled();
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-dialog',
+        expect.stringContaining("**optimize art** runs as a background job, so it can't be part of a command chain"),
+        'comment-1'
+      );
+    });
+
+    it('should reply with the refusal when the requester may not run a direct command', async () => {
+      jest.mocked(CLIExecutor.prototype.execute).mockResolvedValue({
+        success: false,
+        error: 'No role allows story_decompose',
+        command: 'story_decompose',
+        parameters: {},
+        executionTime: 1,
+        metadata: { executionId: 'exec-1', permissionDenied: true }
+      });
+      jest.mocked(CLIExecutor.prototype.format).mockReturnValue({
+        success: false,
+        message: "Sorry, Jane, you don't have permission to run **story_decompose**"
+      });
+
+      await processor.process(notificationFor({ id: 'comment-1', body: '@saafepulse decompose this story' }));
+
+      expect(CLIExecutor.prototype.execute).toHaveBeenCalledWith(expect.objectContaining({
+        intent: CommandIntent.STORY_DECOMPOSE,
+        requester: expect.objectContaining({ id: 'user-123' })
+      }));
+      expect(mockLinearClient.createComment).toHaveBeenCalledTimes(1);
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-dialog',
+        "Sorry, Jane, you don't have permission to run **story_decompose**",
+        'comment-1'
+      );
+      expect(mockedSavePendingPlan).not.toHaveBeenCalled();
+    });
+
+    it('should run a direct ART planning mention as a job', async () => {
+      mockedSavePendingPlan.mockResolvedValue({} as any);
+      mockedPurgeExpiredPendingPlans.mockResolvedValue(0);
+      jest.mocked(CLIExecutor.prototype.execute).mockResolvedValue({
+        success: true,
+        command: 'art_plan',
+        parameters: { teamId: 'team-2' },
+        executionTime: 10,
+        data: { plan: { assignments: [] } }
+      });
+      jest.mocked(CLIExecutor.prototype.format).mockReturnValue({ success: true, message: '## 📋 ART Plan: PI-2026-Q4' });
+      mockLinearClient.createComment.mockResolvedValue({ comment: Promise.resolve({ id: 'progress-1' }) });
+      (mockLinearClient as any).updateComment = jest.fn().mockResolvedValue({});
+
+      const notification = notificationFor({ id: 'comment-1', body: '@saafepulse plan this PI' });
+      notification.notification.issue!.team = { id: 'team-2', key: 'ATL', name: 'Team Atlas' };
+
+      await processor.process(notification);
+      await waitForCommandJobs();
+
+      expect(CLIExecutor.prototype.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          intent: CommandIntent.ART_PLAN,
+          parameters: expect.objectContaining({ teamId: 'team-2' }),
+          requester: expect.objectContaining({ id: 'user-123' })
+        }),
+        expect.anything()
+      );
+      expect(mockLinearClient.createComment).toHaveBeenCalledTimes(1);
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-dialog',
+        expect.stringContaining('## ⏳ ART Plan queued'),
+        'comment-1'
+      );
+      expect(mockLinearClient.updateComment).toHaveBeenLastCalledWith('progress-1', '## 📋 ART Plan: PI-2026-Q4');
+    });
+
+    it('should run ART planning as a job and replace its progress comment with the preview', async () => {
+      mockedGetPendingCommand.mockResolvedValue({
+        thread_id: 'comment-1',
+        issue_id: 'issue-dialog',
+        intent: CommandIntent.ART_PLAN,
+        raw_text: 'plan PI',
+        parameters: { piId: 'PI-2026-Q4', explicit: {} },
+        context: { issueId: 'issue-dialog', teamId: 'team-2', labels: [] },
+        parameter: 'teamId',
+        options: ['Team Phoenix', 'Team Atlas'],
+        question: 'Which team: Team Phoenix or Team Atlas?'
+      } as any);
+      mockedSavePendingPlan.mockResolvedValue({} as any);
+      mockedPurgeExpiredPendingPlans.mockResolvedValue(0);
+      jest.mocked(CLIExecutor.prototype.execute).mockResolvedValue({
+        success: true,
+        command: 'art_plan',
+        parameters: { teamId: 'team-2' },
+        executionTime: 10,
+        data: {
+          plan: {
+            assignments: [{
+              iteration: 1,
+              name: 'Cycle 12',
+              cycleId: 'cycle-12',
+              workItems: [{ id: 'issue-7', identifier: 'ATL-7', title: 'Checkout flow', teamId: 'team-2' }]
+            }]
+          }
+        }
+      });
+      mockLinearClient.createComment.mockResolvedValue({ comment: Promise.resolve({ id: 'preview-1' }) });
+      (mockLinearClient as any).updateComment = jest.fn().mockResolvedValue({});
+
+      await processor.process(notificationFor({ id: 'comment-2', parentId: 'comment-1', body: '@saafepulse Atlas' }));
+      await waitForCommandJobs();
+
+      expect(CLIExecutor.prototype.executeAndFormat).not.toHaveBeenCalled();
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-dialog',
+        expect.stringContaining('## ⏳ ART Plan queued'),
+        'comment-1'
+      );
+      expect(mockLinearClient.updateComment).toHaveBeenLastCalledWith(
+        'preview-1',
+        expect.stringContaining('- ATL-7 Checkout flow → Cycle 12')
+      );
+      expect(mockedSavePendingPlan).toHaveBeenCalledWith(
+        'preview-1', 'comment-1', 'issue-dialog', CommandIntent.ART_PLAN,
+        expect.objectContaining({ requester: expect.objectContaining({ id: 'user-123' }) }),
+        [expect.objectContaining({ type: 'assign_cycle', issueId: 'issue-7', cycleId: 'cycle-12' })],
+        'user-123',
+        expect.any(Date)
+      );
+    });
+  });
+});
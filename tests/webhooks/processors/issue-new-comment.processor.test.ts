@@ -6,12 +6,19 @@ import { IssueNewCommentProcessor } from '../../../src/webhooks/processors/issue
 import { LinearClientWrapper } from '../../../src/linear/client';
 import { OperationalNotificationCoordinator } from '../../../src/utils/operational-notification-coordinator';
 import { AppUserNotification } from '../../../src/webhooks/processors/base-processor';
+import { CLIExecutor } from '../../../src/agent/cli-executor';
+import { CommandIntent } from '../../../src/agent/types/command-types';
+import { getPendingCommand } from '../../../src/db/models';
 import * as logger from '../../../src/utils/logger';
 
 // Mock dependencies
 jest.mock('../../../src/linear/client');
 jest.mock('../../../src/utils/operational-notification-coordinator');
 jest.mock('../../../src/utils/logger');
+jest.mock('../../../src/db/models');
+jest.mock('../../../src/agent/cli-executor');
+
+const mockedGetPendingCommand = getPendingCommand as jest.MockedFunction<typeof getPendingCommand>;
 
 // Mock environment variable
 process.env.LINEAR_AGENT_ID = 'agent-123';
@@ -355,4 +362,58 @@ describe('IssueNewCommentProcessor', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('clarification replies', () => {
+    it('should complete a pending command from a plain reply in its thread', async () => {
+      (mockLinearClient as any).getIssue = jest.fn().mockResolvedValue({ id: 'issue-42' });
+      mockedGetPendingCommand.mockResolvedValue({
+        thread_id: 'comment-1',
+        issue_id: 'issue-123',
+        intent: CommandIntent.STORY_SCORE,
+        raw_text: 'score this story',
+        parameters: { explicit: {} },
+        context: { issueId: 'issue-123', teamId: 'team-1', labels: [] },
+        parameter: 'storyId',
+        options: [],
+        question: 'Which story should I use?'
+      } as any);
+      jest.mocked(CLIExecutor.prototype.executeAndFormat).mockResolvedValue({
+        success: true,
+        message: '## 🎯 WSJF Score'
+      });
+
+      const notification: AppUserNotification = {
+        action: 'issueNewComment',
+        type: 'AppUserNotification',
+        notification: {
+          id: 'notif-reply',
+          type: 'issueNewComment',
+          createdAt: '2024-01-01T00:00:00Z',
+          actor: { id: 'user-123', name: 'Jane Doe' },
+          issue: {
+            id: 'issue-123',
+            identifier: 'LIN-123',
+            title: 'Test Issue',
+            url: 'https://linear.app/team/issue/LIN-123'
+          },
+          comment: {
+            id: 'comment-2',
+            parentId: 'comment-1',
+            body: 'LIN-42',
+            createdAt: '2024-01-01T12:00:00Z'
+          }
+        }
+      };
+
+      await processor.process(notification);
+
+      expect(mockedGetPendingCommand).toHaveBeenCalledWith('comment-1');
+      expect(CLIExecutor.prototype.executeAndFormat).toHaveBeenCalledWith(expect.objectContaining({
+        intent: CommandIntent.STORY_SCORE,
+        parameters: expect.objectContaining({ storyId: 'LIN-42' })
+      }));
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith('issue-123', '## 🎯 WSJF Score', 'comment-1');
+      expect(mockNotificationCoordinator.notifyAgentUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -6,12 +6,19 @@ import { IssueReactionProcessor } from '../../../src/webhooks/processors/issue-r
 import { LinearClientWrapper } from '../../../src/linear/client';
 import { OperationalNotificationCoordinator } from '../../../src/utils/operational-notification-coordinator';
 import { AppUserNotification } from '../../../src/webhooks/processors/base-processor';
+import { CLIExecutor } from '../../../src/agent/cli-executor';
+import { CommandIntent } from '../../../src/agent/types/command-types';
+import { getPendingPlan, deletePendingPlan } from '../../../src/db/models';
 import * as logger from '../../../src/utils/logger';
 
 // Mock dependencies
 jest.mock('../../../src/linear/client');
 jest.mock('../../../src/utils/operational-notification-coordinator');
 jest.mock('../../../src/utils/logger');
+jest.mock('../../../src/db/models');
+
+const mockedGetPendingPlan = getPendingPlan as jest.MockedFunction<typeof getPendingPlan>;
+const mockedDeletePendingPlan = deletePendingPlan as jest.MockedFunction<typeof deletePendingPlan>;
 
 // Mock environment variable
 process.env.LINEAR_AGENT_ID = 'agent-123';
@@ -350,4 +357,123 @@ describe('IssueReactionProcessor', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('process - command previews', () => {
+    const reactionTo = (commentId: string, reactionEmoji: string): AppUserNotification => ({
+      action: 'issueCommentReaction',
+      type: 'AppUserNotification',
+      notification: {
+        id: 'notif-preview',
+        type: 'issueCommentReaction',
+        createdAt: '2024-01-01T00:00:00Z',
+        actor: { id: 'user-123', name: 'Jane Doe' },
+        issue: {
+          id: 'issue-preview',
+          identifier: 'LIN-300',
+          title: 'Checkout story',
+          url: 'https://linear.app/team/issue/LIN-300'
+        },
+        comment: { id: commentId, body: '## 👀 Preview: Story Decomposition', createdAt: '2024-01-01T12:00:00Z' },
+        reactionEmoji
+      }
+    });
+
+    beforeEach(() => {
+      mockedGetPendingPlan.mockResolvedValue({
+        comment_id: 'preview-1',
+        thread_id: 'comment-1',
+        issue_id: 'issue-preview',
+        intent: CommandIntent.STORY_DECOMPOSE,
+        command: {
+          intent: CommandIntent.STORY_DECOMPOSE,
+          context: { issueId: 'issue-preview', teamId: 'team-1', labels: [] },
+          timestamp: '2024-01-01T12:00:00Z'
+        },
+        changes: [{ type: 'create_issue', teamId: 'team-1', parentId: 'issue-preview', title: 'Cart', description: '', estimate: 3 }],
+        expires_at: new Date(Date.now() + 60000)
+      } as any);
+      mockedDeletePendingPlan.mockResolvedValue(true);
+      (mockLinearClient as any).createIssue = jest.fn().mockResolvedValue({ issue: Promise.resolve({ id: 'issue-new' }) });
+    });
+
+    it('should apply the previewed changes on a ✅ reaction and reply in the thread', async () => {
+      await processor.process(reactionTo('preview-1', '✅'));
+
+      expect(mockedDeletePendingPlan).toHaveBeenCalledWith('preview-1');
+      expect((mockLinearClient as any).createIssue).toHaveBeenCalledWith(expect.objectContaining({
+        teamId: 'team-1',
+        parentId: 'issue-preview',
+        title: 'Cart',
+        estimate: 3
+      }));
+      expect(mockLinearClient.createComment).toHaveBeenCalledTimes(1);
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-preview',
+        expect.stringContaining('Applied 1 of 1 changes for Jane Doe.'),
+        'comment-1'
+      );
+      expect(mockNotificationCoordinator.notifyAgentUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should continue a waiting command chain with the issues the changes created', async () => {
+      const scoreStep = {
+        intent: CommandIntent.STORY_SCORE,
+        rawText: 'score the sub-stories',
+        context: { issueId: 'issue-preview', teamId: 'team-1', labels: [] },
+        timestamp: '2024-01-01T12:00:00Z',
+        requester: { id: 'user-123' }
+      };
+      const pending = await mockedGetPendingPlan('preview-1');
+      pending!.command.metadata = { continuation: { step: 1, commands: [scoreStep] } };
+      mockedGetPendingPlan.mockResolvedValue(pending);
+      const executeChain = jest.spyOn(CLIExecutor.prototype, 'executeChain').mockResolvedValue({
+        success: true, steps: [], skipped: [], pending: [], executionTime: 1, executionId: 'chain-2'
+      });
+      jest.spyOn(CLIExecutor.prototype, 'formatChain').mockReturnValue({ success: true, message: '## 🔗 Command Chain Complete' });
+
+      await processor.process(reactionTo('preview-1', '✅'));
+
+      const [commands, options] = executeChain.mock.calls[0];
+      expect(commands).toEqual([expect.objectContaining({ intent: CommandIntent.STORY_SCORE, timestamp: expect.any(Date) })]);
+      expect(options?.previous).toMatchObject({
+        step: 1,
+        command: expect.objectContaining({ intent: CommandIntent.STORY_DECOMPOSE }),
+        results: [expect.objectContaining({ data: { createdIssueIds: ['issue-new'] } })]
+      });
+      expect(mockLinearClient.createComment).toHaveBeenCalledTimes(2);
+      expect(mockLinearClient.createComment).toHaveBeenLastCalledWith(
+        'issue-preview',
+        '## 🔗 Command Chain Complete',
+        'comment-1'
+      );
+    });
+
+    it('should discard the previewed changes on a ❌ reaction', async () => {
+      await processor.process(reactionTo('preview-1', 'x'));
+
+      expect((mockLinearClient as any).createIssue).not.toHaveBeenCalled();
+      expect(mockLinearClient.createComment).toHaveBeenCalledWith(
+        'issue-preview',
+        '🗑️ Plan discarded. Nothing was changed.',
+        'comment-1'
+      );
+    });
+
+    it('should treat other reactions on comments as before', async () => {
+      mockedGetPendingPlan.mockResolvedValue(null);
+
+      await processor.process(reactionTo('comment-9', '✅'));
+
+      expect(mockLinearClient.createComment).not.toHaveBeenCalled();
+      expect(mockNotificationCoordinator.notifyAgentUpdate).toHaveBeenCalledWith(
+        'linear-agent',
+        'remote',
+        'assigned',
+        'Reaction: LIN-300',
+        expect.any(String),
+        'https://linear.app/team/issue/LIN-300',
+        'Jane Doe'
+      );
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for ProjectUpdateProcessor
+ */
+
+import { ProjectUpdateProcessor } from '../../../src/webhooks/processors/project-update.processor';
+import { AutonomousBehaviorEngine } from '../../../src/agent/autonomous-engine';
+import { BehaviorTriggerType } from '../../../src/agent/types/autonomous-types';
+
+// Mock dependencies
+jest.mock('../../../src/utils/logger');
+
+describe('ProjectUpdateProcessor', () => {
+  let processor: ProjectUpdateProcessor;
+  let mockEngine: jest.Mocked<AutonomousBehaviorEngine>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockEngine = {
+      processTrigger: jest.fn().mockResolvedValue([])
+    } as any;
+
+    processor = new ProjectUpdateProcessor(mockEngine);
+  });
+
+  it('should raise PROJECT_UPDATE_POSTED for a new project update', async () => {
+    await processor.process({
+      action: 'create',
+      type: 'ProjectUpdate',
+      data: {
+        id: 'update-1',
+        body: 'Slipping due to API dependency',
+        health: 'atRisk',
+        project: {
+          id: 'project-1',
+          name: 'PI 3 Feature',
+          teams: [{ id: 'team-1', name: 'Platform', key: 'PLT' }]
+        },
+        user: { id: 'user-1', name: 'Product Owner' }
+      }
+    });
+
+    expect(mockEngine.processTrigger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: BehaviorTriggerType.PROJECT_UPDATE_POSTED,
+        context: expect.objectContaining({
+          team: { id: 'team-1', name: 'Platform', key: 'PLT' },
+          user: { id: 'user-1', name: 'Product Owner' },
+          metadata: expect.objectContaining({
+            projectUpdate: expect.objectContaining({ id: 'update-1', health: 'atRisk' })
+          })
+        })
+      })
+    );
+  });
+
+  it('should ignore edits to existing project updates', async () => {
+    await processor.process({
+      action: 'update',
+      type: 'ProjectUpdate',
+      data: { id: 'update-1', health: 'onTrack' },
+      updatedFrom: { body: 'Old text' }
+    });
+
+    expect(mockEngine.processTrigger).not.toHaveBeenCalled();
+  });
+});
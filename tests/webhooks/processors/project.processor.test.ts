@@ -0,0 +1,63 @@
+/**
+ * Tests for ProjectProcessor
+ */
+
+import { ProjectProcessor } from '../../../src/webhooks/processors/project.processor';
+import { AutonomousBehaviorEngine } from '../../../src/agent/autonomous-engine';
+import { BehaviorTriggerType } from '../../../src/agent/types/autonomous-types';
+
+// Mock dependencies
+jest.mock('../../../src/utils/logger');
+
+describe('ProjectProcessor', () => {
+  let processor: ProjectProcessor;
+  let mockEngine: jest.Mocked<AutonomousBehaviorEngine>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockEngine = {
+      processTrigger: jest.fn().mockResolvedValue([])
+    } as any;
+
+    processor = new ProjectProcessor(mockEngine);
+  });
+
+  it('should raise PROJECT_STATE_CHANGED when the project state changes', async () => {
+    await processor.process({
+      action: 'update',
+      type: 'Project',
+      data: {
+        id: 'project-1',
+        name: 'PI 3 Feature',
+        state: 'started',
+        teamIds: ['team-1', 'team-2']
+      },
+      updatedFrom: { state: 'planned' }
+    });
+
+    expect(mockEngine.processTrigger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: BehaviorTriggerType.PROJECT_STATE_CHANGED,
+        context: expect.objectContaining({
+          team: { id: 'team-1', name: '', key: '' },
+          previousState: { state: 'planned' },
+          metadata: expect.objectContaining({
+            project: expect.objectContaining({ id: 'project-1', state: 'started' })
+          })
+        })
+      })
+    );
+  });
+
+  it('should ignore project updates that do not change state', async () => {
+    await processor.process({
+      action: 'update',
+      type: 'Project',
+      data: { id: 'project-1', name: 'Renamed', state: 'started' },
+      updatedFrom: { name: 'PI 3 Feature' }
+    });
+
+    expect(mockEngine.processTrigger).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for the durable webhook event queue
+ */
+
+import { WebhookEventQueue } from '../../src/webhooks/queue';
+import { UnknownOrganizationError } from '../../src/linear/organization-clients';
+import {
+  enqueueWebhookEvent,
+  claimPendingWebhookEvents,
+  markWebhookEventCompleted,
+  markWebhookEventFailed,
+  moveWebhookEventToDeadLetter,
+  getWebhookEventsByTimeRange,
+  getDeadLetteredWebhookEvent,
+  markDeadLetterReplayed
+} from '../../src/db/models';
+
+// Mock dependencies
+jest.mock('../../src/db/models');
+jest.mock('../../src/utils/logger');
+
+const createEvent = (overrides: any = {}) => ({
+  id: 1,
+  event_type: 'AppUserNotification',
+  action: 'issueMention',
+  payload: { type: 'AppUserNotification', action: 'issueMention' },
+  status: 'processing',
+  attempts: 1,
+  max_attempts: 3,
+  next_attempt_at: new Date(),
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+describe('WebhookEventQueue', () => {
+  let processor: jest.Mock;
+  let queue: WebhookEventQueue;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    processor = jest.fn().mockResolvedValue(undefined);
+    queue = new WebhookEventQueue(processor, { baseRetryDelay: 1000, maxAttempts: 3 });
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  it('should persist payloads with their delivery ID', async () => {
+    const payload = { type: 'Issue', action: 'create', data: { id: 'issue-1' } };
+    (enqueueWebhookEvent as jest.Mock).mockResolvedValue(createEvent({ id: 7 }));
+
+    const event = await queue.enqueue(payload, 'delivery-1');
+
+    expect(event.id).toBe(7);
+    expect(enqueueWebhookEvent).toHaveBeenCalledWith('Issue', 'create', payload, 'delivery-1', 3);
+  });
+
+  it('should process claimed events and mark them completed', async () => {
+    const event = createEvent();
+    (claimPendingWebhookEvents as jest.Mock).mockResolvedValue([event]);
+
+    const processed = await queue.poll();
+
+    expect(processed).toBe(1);
+    expect(processor).toHaveBeenCalledWith(event.payload);
+    expect(markWebhookEventCompleted).toHaveBeenCalledWith(1);
+  });
+
+  it('should claim with the processing timeout so abandoned events are reclaimed', async () => {
+    (claimPendingWebhookEvents as jest.Mock).mockResolvedValue([]);
+    queue = new WebhookEventQueue(processor, { batchSize: 5, processingTimeout: 60000 });
+
+    await queue.poll();
+
+    expect(claimPendingWebhookEvents).toHaveBeenCalledWith(5, 60000);
+  });
+
+  it('should dead-letter an event reclaimed after its last attempt without running it', async () => {
+    (claimPendingWebhookEvents as jest.Mock).mockResolvedValue([createEvent({ attempts: 4 })]);
+
+    await queue.poll();
+
+    expect(processor).not.toHaveBeenCalled();
+    expect(moveWebhookEventToDeadLetter).toHaveBeenCalledWith(
+      1,
+      'Processing did not finish within the processing timeout'
+    );
+  });
+
+  it('should parse payloads stored as text', async () => {
+    const payload = { type: 'Issue', action: 'update' };
+    (claimPendingWebhookEvents as jest.Mock).mockResolvedValue([
+      createEvent({ payload: JSON.stringify(payload) })
+    ]);
+
+    await queue.poll();
+
+    expect(processor).toHaveBeenCalledWith(payload);
+  });
+
+  it('should schedule a retry with exponential backoff on failure', async () => {
+    processor.mockRejectedValue(new Error('Linear API unavailable'));
+    (claimPendingWebhookEvents as jest.Mock).mockResolvedValue([createEvent({ attempts: 2 })]);
+
+    const before = Date.now();
+    await queue.poll();
+
+    expect(markWebhookEventCompleted).not.toHaveBeenCalled();
+    expect(markWebhookEventFailed).toHaveBeenCalledWith(1, 'Linear API unavailable', expect.any(Date));
+
+    const nextAttemptAt = (markWebhookEventFailed as jest.Mock).mock.calls[0][2] as Date;
+    expect(nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+  });
+
+  it('should dead-letter events that exhausted their attempts', async () => {
+    processor.mockRejectedValue(new Error('Permanent failure'));
+    (claimPendingWebhookEvents as jest.Mock).mockResolvedValue([createEvent({ attempts: 3 })]);
+
+    await queue.poll();
+
+    expect(moveWebhookEventToDeadLetter).toHaveBeenCalledWith(1, 'Permanent failure');
+    expect(markWebhookEventFailed).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter unknown organization failures immediately', async () => {
+    processor.mockRejectedValue(new UnknownOrganizationError('org-x'));
+    (claimPendingWebhookEvents as jest.Mock).mockResolvedValue([createEvent({ attempts: 1 })]);
+
+    await queue.poll();
+
+    expect(moveWebhookEventToDeadLetter).toHaveBeenCalledWith(1, 'Unknown Linear organization: org-x');
+    expect(markWebhookEventFailed).not.toHaveBeenCalled();
+  });
+
+  it('should replay a dead-lettered event and mark it replayed', async () => {
+    (getDeadLetteredWebhookEvent as jest.Mock).mockResolvedValue({
+      id: 5,
+      event_id: 1,
+      event_type: 'AppUserNotification',
+      action: 'issueMention',
+      payload: { type: 'AppUserNotification', action: 'issueMention' },
+      attempts: 3,
+      failed_at: new Date()
+    });
+
+    const result = await queue.replayDeadLetter(5);
+
+    expect(result.success).toBe(true);
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(markDeadLetterReplayed).toHaveBeenCalledWith(5);
+    expect(markWebhookEventCompleted).toHaveBeenCalledWith(1);
+  });
+
+  it('should not mark a dead-lettered event replayed when replay fails', async () => {
+    processor.mockRejectedValue(new Error('Still failing'));
+    (getDeadLetteredWebhookEvent as jest.Mock).mockResolvedValue({
+      id: 5,
+      event_id: 1,
+      event_type: 'Issue',
+      payload: { type: 'Issue', action: 'update' },
+      attempts: 3,
+      failed_at: new Date()
+    });
+
+    const result = await queue.replayDeadLetter(5);
+
+    expect(result).toEqual(expect.objectContaining({ success: false, error: 'Still failing' }));
+    expect(markDeadLetterReplayed).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the dead-lettered event does not exist', async () => {
+    (getDeadLetteredWebhookEvent as jest.Mock).mockResolvedValue(null);
+
+    await expect(queue.replayDeadLetter(99)).rejects.toThrow('Dead-lettered webhook event not found: 99');
+  });
+
+  it('should replay historical events in a time range', async () => {
+    const since = new Date('2024-01-01T00:00:00Z');
+    const until = new Date('2024-01-02T00:00:00Z');
+    (getWebhookEventsByTimeRange as jest.Mock).mockResolvedValue([
+      createEvent({ id: 1 }),
+      createEvent({ id: 2, event_type: 'Issue', payload: { type: 'Issue', action: 'create' } })
+    ]);
+
+    const results = await queue.replayEvents({ since, until, eventType: 'Issue' });
+
+    expect(getWebhookEventsByTimeRange).toHaveBeenCalledWith(since, until, 'Issue');
+    expect(results).toHaveLength(2);
+    expect(results.every(result => result.success)).toBe(true);
+    expect(processor).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for webhook signature verification
+ */
+
+import crypto from 'crypto';
+import {
+  verifyWebhookSignature,
+  getWebhookSecrets,
+  getActiveWebhookSecrets,
+  requireWebhookSignature
+} from '../../src/webhooks/verification';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+const sign = (secret: string, rawBody: string, timestamp = Math.floor(Date.now() / 1000)) => {
+  const hash = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${hash}`;
+};
+
+describe('Webhook Signature Verification', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.WEBHOOK_SECRET;
+    delete process.env.WEBHOOK_SECRETS;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should verify the signature over the raw body bytes', () => {
+    process.env.WEBHOOK_SECRET = 'secret-a';
+    // Whitespace differs from JSON.stringify output
+    const rawBody = '{ "type": "Issue",  "action": "create" }';
+    const body = JSON.parse(rawBody);
+
+    expect(verifyWebhookSignature(sign('secret-a', rawBody), body, Buffer.from(rawBody))).toBe(true);
+    expect(verifyWebhookSignature(sign('secret-a', rawBody), body)).toBe(false);
+  });
+
+  it('should fall back to the serialized body without a raw body', () => {
+    process.env.WEBHOOK_SECRET = 'secret-a';
+    const body = { type: 'Issue', action: 'create' };
+
+    expect(verifyWebhookSignature(sign('secret-a', JSON.stringify(body)), body)).toBe(true);
+  });
+
+  it('should accept signatures from any active secret in the rotation', () => {
+    process.env.WEBHOOK_SECRETS = 'secret-new,secret-old|2999-01-01T00:00:00Z';
+    const rawBody = '{"type":"Issue"}';
+
+    expect(verifyWebhookSignature(sign('secret-new', rawBody), {}, rawBody)).toBe(true);
+    expect(verifyWebhookSignature(sign('secret-old', rawBody), {}, rawBody)).toBe(true);
+    expect(verifyWebhookSignature(sign('secret-other', rawBody), {}, rawBody)).toBe(false);
+  });
+
+  it('should reject signatures from expired secrets', () => {
+    process.env.WEBHOOK_SECRETS = 'secret-new,secret-old|2000-01-01T00:00:00Z';
+    const rawBody = '{"type":"Issue"}';
+
+    expect(verifyWebhookSignature(sign('secret-old', rawBody), {}, rawBody)).toBe(false);
+    expect(getActiveWebhookSecrets().map(s => s.secret)).toEqual(['secret-new']);
+  });
+
+  it('should try WEBHOOK_SECRET after the rotation list', () => {
+    process.env.WEBHOOK_SECRETS = 'secret-new';
+    process.env.WEBHOOK_SECRET = 'secret-legacy';
+
+    expect(getWebhookSecrets().map(s => s.secret)).toEqual(['secret-new', 'secret-legacy']);
+  });
+
+  it('should ignore secrets with an invalid expiry', () => {
+    process.env.WEBHOOK_SECRETS = 'secret-new,secret-bad|not-a-date';
+
+    expect(getWebhookSecrets().map(s => s.secret)).toEqual(['secret-new']);
+  });
+
+  it('should reject stale timestamps and missing configuration', () => {
+    const rawBody = '{"type":"Issue"}';
+    const staleTimestamp = Math.floor(Date.now() / 1000) - 10 * 60;
+
+    expect(verifyWebhookSignature(sign('secret-a', rawBody), {}, rawBody)).toBe(false);
+
+    process.env.WEBHOOK_SECRET = 'secret-a';
+    expect(verifyWebhookSignature(sign('secret-a', rawBody, staleTimestamp), {}, rawBody)).toBe(false);
+    expect(verifyWebhookSignature('', {}, rawBody)).toBe(false);
+  });
+
+  describe('requireWebhookSignature', () => {
+    const mockResponse = () => {
+      const res: any = {};
+      res.status = jest.fn().mockReturnValue(res);
+      res.json = jest.fn().mockReturnValue(res);
+      return res;
+    };
+
+    it('should call next for a valid signature', () => {
+      process.env.WEBHOOK_SECRET = 'secret-a';
+      const rawBody = '{"type":"Issue","action":"update"}';
+      const req: any = {
+        headers: { 'linear-signature': sign('secret-a', rawBody) },
+        body: JSON.parse(rawBody),
+        rawBody: Buffer.from(rawBody),
+        path: '/webhook/behaviors'
+      };
+      const res = mockResponse();
+      const next = jest.fn();
+
+      requireWebhookSignature(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should respond 401 for an invalid signature', () => {
+      process.env.WEBHOOK_SECRET = 'secret-a';
+      const req: any = {
+        headers: { 'linear-signature': 't=1,v1=bad' },
+        body: {},
+        path: '/webhook/behaviors'
+      };
+      const res = mockResponse();
+      const next = jest.fn();
+
+      requireWebhookSignature(req, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid signature' });
+    });
+  });
+});